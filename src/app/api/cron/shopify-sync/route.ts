@@ -4,6 +4,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { ShopifyGraphQLClient } from '@/lib/shopify/shopifyGraphQLClient';
 import { transformGraphQLOrder, transformGraphQLProduct } from '@/lib/shopify/shopifyGraphQLTransform';
 import { Product } from '@/app/dashboard/products/utils/productTypes';
+import { ACTIVITY_SOURCE_HEADER } from '@/lib/api/orderApi';
 
 /**
  * Cron Job for Shopify Sync
@@ -131,7 +132,13 @@ export async function GET(request: NextRequest) {
         if (ordersToSave.length > 0) {
           const response = await fetch(`${API_BASE_URL}/api/orders/bulk`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            // Changes to existing orders show on their timelines as Shopify sync
+            // (the proxy only accepts that attribution with the cron secret)
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${process.env.CRON_SECRET}`,
+              [ACTIVITY_SOURCE_HEADER]: 'shopify_sync'
+            },
             body: JSON.stringify({ orders: ordersToSave, accountId })
           });
 
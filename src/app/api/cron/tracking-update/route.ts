@@ -1,6 +1,7 @@
 //file path: src/app/api/cron/tracking-update/route.ts
 
 import { NextRequest, NextResponse } from 'next/server'
+import { ACTIVITY_SOURCE_HEADER } from '@/lib/api/orderApi'
 
 /**
  * Cron Job: Update tracking for all active shipments
@@ -38,7 +39,8 @@ export async function GET(request: NextRequest) {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.CRON_SECRET}` // Pass cron secret to backend
+        'Authorization': `Bearer ${process.env.CRON_SECRET}`, // Pass cron secret to backend
+        [ACTIVITY_SOURCE_HEADER]: 'tracking_cron' // Status changes it makes are attributed to the cron
       }
     })
 
@@ -0,0 +1,118 @@
+//file path: app/api/documents/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'
+import { renderOrderDocument, DOCUMENT_TITLES } from '@/lib/documents/orderDocuments'
+import { BACKEND_API_URL, AuthHeaders, getAuthHeaders, backendGet, fetchOrders, fetchFile } from '@/lib/documents/backendClient'
+import { transformToDetailedOrder } from '@/app/dashboard/orders/utils/orderUtils'
+import { Order, OrderDocument, OrderDocumentType } from '@/app/dashboard/orders/utils/orderTypes'
+
+export const runtime = 'nodejs'
+
+const DOCUMENT_TYPES: OrderDocumentType[] = ['packing_slip', 'pick_list', 'gift_card', 'batch']
+const MAX_ORDERS = 250
+
+/**
+ * Render packing slips, picking lists, gift cards or a batch (slips interleaved
+ * with labels) to a single PDF. The PDF is archived on every order it covers.
+ *
+ * Body: { type, orderIds, warehouseId? }
+ * orderIds are rendered in the order given - pass the picking list's order for batches
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const type = body.type as OrderDocumentType
+    const orderIds: string[] = Array.isArray(body.orderIds) ? body.orderIds : []
+
+    if (!DOCUMENT_TYPES.includes(type)) {
+      return NextResponse.json({ error: `Unknown document type: ${body.type}` }, { status: 400 })
+    }
+    if (orderIds.length === 0 || orderIds.length > MAX_ORDERS) {
+      return NextResponse.json({ error: `Select between 1 and ${MAX_ORDERS} orders` }, { status: 400 })
+    }
+
+    // Forward the caller's credentials to the backend
+    const authHeaders = getAuthHeaders(request)
+
+    const orders = await fetchOrders(orderIds, authHeaders)
+
+    const storesData = await backendGet('/api/stores', authHeaders)
+    const stores = Array.isArray(storesData) ? storesData : storesData.stores || []
+
+    let warehouse = null
+    let products = undefined
+    if (type === 'pick_list' && body.warehouseId) {
+      const [warehouseData, productsData] = await Promise.all([
+        backendGet(`/api/warehouses/${body.warehouseId}`, authHeaders),
+        backendGet('/api/products', authHeaders)
+      ])
+      warehouse = warehouseData.warehouse || warehouseData
+      products = Array.isArray(productsData) ? productsData : productsData.products || []
+    }
+
+    const { bytes, pageCount } = await renderOrderDocument(
+      type,
+      orders.map(transformToDetailedOrder),
+      {
+        stores,
+        warehouse,
+        products,
+        fetchFile: (url) => fetchFile(url, authHeaders)
+      }
+    )
+
+    const fileName = getFileName(type, orders)
+    const document = await archiveDocument(
+      { type, orderIds, fileName, pageCount, content: Buffer.from(bytes).toString('base64') },
+      authHeaders
+    )
+
+    return new NextResponse(Buffer.from(bytes), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${fileName}"`,
+        'X-Page-Count': String(pageCount),
+        ...(document ? { 'X-Document-Id': document.id, 'X-Document-Url': document.url } : {})
+      }
+    })
+  } catch (error: any) {
+    console.error('[Documents API] Error rendering document:', error)
+    return NextResponse.json(
+      { error: 'Failed to render document', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+function getFileName(type: OrderDocumentType, orders: Order[]): string {
+  const date = new Date().toISOString().split('T')[0]
+  const subject = orders.length === 1 ? `order-${orders[0].orderNumber}` : `${orders.length}-orders`
+  const title = DOCUMENT_TITLES[type].toLowerCase().replace(/\s+/g, '-')
+  return `${title}-${subject}-${date}.pdf`.replace(/[^\w.-]/g, '')
+}
+
+/**
+ * Keep the PDF on its orders for reprinting
+ * Archiving failures don't block printing - the PDF is still returned
+ */
+async function archiveDocument(
+  data: { type: OrderDocumentType; orderIds: string[]; fileName: string; pageCount: number; content: string },
+  authHeaders: AuthHeaders
+): Promise<OrderDocument | null> {
+  try {
+    const response = await fetch(`${BACKEND_API_URL}/api/orders/documents`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify(data)
+    })
+    if (!response.ok) {
+      console.warn('[Documents API] Failed to archive document:', response.status)
+      return null
+    }
+    const result = await response.json()
+    return result.document || result
+  } catch (error) {
+    console.warn('[Documents API] Failed to archive document:', error)
+    return null
+  }
+}
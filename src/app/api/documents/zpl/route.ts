@@ -0,0 +1,226 @@
+//file path: app/api/documents/zpl/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  renderPackingSlipZPL,
+  renderProductLabelZPL,
+  renderBinLabelZPL,
+  renderTestLabelZPL,
+  extractZpl,
+  joinZpl,
+  ProductLabelData
+} from '@/lib/documents/zpl'
+import { getOrderLabels, loadLabelFile } from '@/lib/documents/orderDocuments'
+import { AuthHeaders, getAuthHeaders, backendGet, fetchOrders, fetchFile } from '@/lib/documents/backendClient'
+import { sendToPrinter, resolvePrinterAddress, PrinterAddressError } from '@/lib/documents/networkPrinter'
+import { transformToDetailedOrder } from '@/app/dashboard/orders/utils/orderUtils'
+import { Store } from '@/app/dashboard/stores/utils/storeTypes'
+import { Product } from '@/app/dashboard/products/utils/productTypes'
+import { Warehouse, PrinterProfile } from '@/app/dashboard/warehouses/utils/warehouseTypes'
+import { getDefaultPrinterProfile, DEFAULT_PRINTER_PORT } from '@/app/dashboard/warehouses/utils/printerProfiles'
+import type { ZplLabelKind } from '@/lib/api/documentApi'
+
+export const runtime = 'nodejs'
+
+const LABEL_KINDS: ZplLabelKind[] = ['batch', 'packing_slip', 'shipping_label', 'product_label', 'bin_label', 'test']
+const MAX_ORDERS = 250
+const MAX_LABELS = 1000
+
+/**
+ * Render thermal labels as ZPL for one of the warehouse's printer profiles
+ *
+ * Body: { kind, warehouseId, profileId?, orderIds?, products?, locations?, send? }
+ * - batch / packing_slip / shipping_label: orderIds, in print order
+ * - product_label: products [{ id, copies }]
+ * - bin_label: locations (formatted bin codes)
+ *
+ * Returns a .zpl file, or { sent, labelCount, warnings } when send is set and the
+ * profile is a network printer. The printer address always comes from the saved
+ * profile, never from the request, and must be a port 9100 printer on an allowed
+ * network (see resolvePrinterAddress).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const kind = body.kind as ZplLabelKind
+
+    if (!LABEL_KINDS.includes(kind)) {
+      return NextResponse.json({ error: `Unknown label type: ${body.kind}` }, { status: 400 })
+    }
+    if (!body.warehouseId) {
+      return NextResponse.json({ error: 'warehouseId is required' }, { status: 400 })
+    }
+
+    const authHeaders = getAuthHeaders(request)
+
+    const warehouseData = await backendGet(`/api/warehouses/${body.warehouseId}`, authHeaders)
+    const warehouse: Warehouse = warehouseData.warehouse || warehouseData
+    const profile = body.profileId
+      ? (warehouse.printerProfiles || []).find(p => p.id === body.profileId) || null
+      : getDefaultPrinterProfile(warehouse)
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: `${warehouse.name} has no thermal printer set up. Add one in the warehouse settings.` },
+        { status: 400 }
+      )
+    }
+
+    if (body.send) {
+      if (profile.connection !== 'network' || !profile.host) {
+        return NextResponse.json(
+          { error: `${profile.name} is not set up as a network printer` },
+          { status: 400 }
+        )
+      }
+      // Check the address before rendering anything
+      await resolvePrinterAddress(profile.host, profile.port || DEFAULT_PRINTER_PORT)
+    }
+
+    const warnings: string[] = []
+    let labels: string[] = []
+
+    switch (kind) {
+      case 'batch':
+      case 'packing_slip':
+      case 'shipping_label': {
+        const orderIds: string[] = Array.isArray(body.orderIds) ? body.orderIds : []
+        if (orderIds.length === 0 || orderIds.length > MAX_ORDERS) {
+          return NextResponse.json({ error: `Select between 1 and ${MAX_ORDERS} orders` }, { status: 400 })
+        }
+        labels = await renderOrderLabels(kind, orderIds, profile, authHeaders, warnings)
+        break
+      }
+
+      case 'product_label': {
+        const requested: { id: string; copies: number }[] = (Array.isArray(body.products) ? body.products : [])
+          .map((item: { id: string; copies?: number }) => ({ id: item.id, copies: Math.max(1, Math.floor(Number(item.copies)) || 1) }))
+        if (requested.length === 0) {
+          return NextResponse.json({ error: 'Select at least one product' }, { status: 400 })
+        }
+        // The cap is on labels printed, not products - copies add up
+        const labelCount = requested.reduce((sum, item) => sum + item.copies, 0)
+        if (labelCount > MAX_LABELS) {
+          return NextResponse.json({ error: `Print at most ${MAX_LABELS} labels at a time` }, { status: 400 })
+        }
+        const productsData = await backendGet('/api/products', authHeaders)
+        const products: Product[] = Array.isArray(productsData) ? productsData : productsData.products || []
+
+        const labelData: ProductLabelData[] = []
+        requested.forEach(item => {
+          const product = products.find(p => p.id === item.id)
+          if (!product) {
+            warnings.push(`Product ${item.id} was not found`)
+            return
+          }
+          labelData.push({
+            sku: product.sku,
+            name: product.name,
+            barcode: product.barcode || product.upc,
+            price: product.price,
+            currency: product.currency,
+            copies: item.copies
+          })
+        })
+        labels = renderProductLabelZPL(labelData, profile)
+        break
+      }
+
+      case 'bin_label': {
+        const locations: string[] = Array.isArray(body.locations) ? body.locations.filter(Boolean) : []
+        if (locations.length === 0 || locations.length > MAX_LABELS) {
+          return NextResponse.json({ error: `Select between 1 and ${MAX_LABELS} bins` }, { status: 400 })
+        }
+        labels = renderBinLabelZPL(
+          locations.map(location => ({ location, warehouseName: warehouse.name })),
+          profile
+        )
+        break
+      }
+
+      case 'test':
+        labels = renderTestLabelZPL(profile, new Date().toLocaleString('en-US'))
+        break
+    }
+
+    if (labels.length === 0) {
+      return NextResponse.json(
+        { error: 'Nothing to print', message: warnings.join('\n') || undefined },
+        { status: 400 }
+      )
+    }
+
+    const zpl = joinZpl(labels)
+
+    if (body.send && profile.host) {
+      await sendToPrinter(profile.host, profile.port || DEFAULT_PRINTER_PORT, zpl)
+      return NextResponse.json({ sent: true, printer: profile.name, labelCount: labels.length, warnings })
+    }
+
+    const fileName = `${kind.replace(/_/g, '-')}-${new Date().toISOString().split('T')[0]}.zpl`
+    return new NextResponse(zpl, {
+      headers: {
+        'Content-Type': 'application/zpl; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'X-Label-Count': String(labels.length),
+        // Header values must stay ASCII
+        'X-Label-Warnings': encodeURIComponent(JSON.stringify(warnings))
+      }
+    })
+  } catch (error: any) {
+    if (error instanceof PrinterAddressError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[ZPL API] Error rendering labels:', error)
+    return NextResponse.json(
+      { error: 'Failed to render labels', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Packing slips and/or carrier labels, order by order
+ * Only carrier labels bought as ZPL can go to a thermal printer as-is;
+ * the others are reported so they can be reprinted from the PDF batch
+ */
+async function renderOrderLabels(
+  kind: 'batch' | 'packing_slip' | 'shipping_label',
+  orderIds: string[],
+  profile: PrinterProfile,
+  authHeaders: AuthHeaders,
+  warnings: string[]
+): Promise<string[]> {
+  const orders = (await fetchOrders(orderIds, authHeaders)).map(transformToDetailedOrder)
+  const storesData = await backendGet('/api/stores', authHeaders)
+  const stores: Store[] = Array.isArray(storesData) ? storesData : storesData.stores || []
+  const context = { stores, fetchFile: (url: string) => fetchFile(url, authHeaders) }
+
+  if (kind !== 'packing_slip' && profile.labelSize !== '4x6') {
+    warnings.push(`Carrier labels are 4x6 but ${profile.name} is loaded with ${profile.labelSize} labels`)
+  }
+
+  const labels: string[] = []
+  for (const order of orders) {
+    if (kind !== 'shipping_label') {
+      labels.push(...renderPackingSlipZPL(order, stores.find(s => s.id === order.storeId), profile))
+    }
+    if (kind === 'packing_slip') continue
+
+    const orderLabels = getOrderLabels(order)
+    if (orderLabels.length === 0) {
+      warnings.push(`Order #${order.orderNumber} has no shipping label`)
+    }
+    for (const label of orderLabels) {
+      const bytes = await loadLabelFile(label, context)
+      const zpl = bytes ? extractZpl(bytes) : null
+      if (zpl) {
+        labels.push(zpl)
+      } else {
+        warnings.push(`Order #${order.orderNumber}: ${label.carrier} ${label.trackingNumber} is not a ZPL label`)
+      }
+    }
+  }
+
+  return labels
+}
@@ -7,7 +7,7 @@ import { Order } from '@/app/dashboard/orders/utils/orderTypes';
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { shop, accessToken, order } = body;
+    const { shop, accessToken, order, fulfillment } = body;
 
     if (!shop || !accessToken || !order) {
       return NextResponse.json(
@@ -35,16 +35,27 @@ export async function POST(request: NextRequest) {
     // Parse line items from JSON string
     const lineItems = order.lineItems ? JSON.parse(order.lineItems) : [];
 
-    // Create fulfillment in Shopify
-    const result = await client.createFulfillment(shopifyOrderId, {
-      trackingNumber: order.trackingNumber,
-      trackingCompany: order.shippingLabel?.carrier || 'Other',
-      notifyCustomer: true,
-      lineItems: lineItems.map((item: any) => ({
-        id: item.id.replace('shopify-line-', ''),
-        quantity: item.quantity,
-      })),
-    });
+    // A partial fulfillment (one package) sends its own lines and tracking number
+    const result = fulfillment
+      ? await client.createFulfillment(shopifyOrderId, {
+          trackingNumber: fulfillment.trackingNumber,
+          trackingCompany: fulfillment.trackingCompany || 'Other',
+          trackingUrl: fulfillment.trackingUrl,
+          notifyCustomer: fulfillment.notifyCustomer ?? true,
+          lineItems: fulfillment.lineItems.map((item: any) => ({
+            id: String(item.id).replace('shopify-line-', ''),
+            quantity: item.quantity,
+          })),
+        })
+      : await client.createFulfillment(shopifyOrderId, {
+          trackingNumber: order.trackingNumber,
+          trackingCompany: order.shippingLabel?.carrier || 'Other',
+          notifyCustomer: true,
+          lineItems: lineItems.map((item: any) => ({
+            id: item.id.replace('shopify-line-', ''),
+            quantity: item.quantity,
+          })),
+        });
 
     return NextResponse.json({
       success: true,
@@ -2,6 +2,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { ShopifyWebhooks } from '@/lib/shopify/shopifyWebhooks';
+import { ACTIVITY_SOURCE_HEADER } from '@/lib/api/orderApi';
 
 // ✅ Use backend API URL
 const BACKEND_API_URL = process.env.NEXT_PUBLIC_API_URL || 'https://api.advorderflow.com'
@@ -60,6 +61,7 @@ export async function POST(request: NextRequest) {
         'X-Shopify-Topic': topic || '',
         'X-Shopify-Shop-Domain': shop || '',
         'X-Webhook-Verified': 'true', // Tell backend HMAC is already verified
+        [ACTIVITY_SOURCE_HEADER]: 'shopify_webhook', // Order changes are attributed to the webhook topic
       },
       body: rawBody,
     });
@@ -1,6 +1,7 @@
 //file path: app/api/orders/[id]/route.ts
 
 import { NextRequest, NextResponse } from 'next/server'
+import { getActivitySourceHeader } from '@/app/dashboard/orders/utils/orderActivity'
 
 const BACKEND_API_URL = process.env.NEXT_PUBLIC_API_URL || 'https://api.advorderflow.com'
 
@@ -60,6 +61,7 @@ export async function PUT(
       headers: {
         'Content-Type': 'application/json',
         'Authorization': request.headers.get('authorization') || '',
+        ...getActivitySourceHeader(request.headers),
       },
       body: JSON.stringify(body)
     })
@@ -106,6 +108,7 @@ export async function PATCH(
       headers: {
         'Content-Type': 'application/json',
         'Authorization': request.headers.get('authorization') || '',
+        ...getActivitySourceHeader(request.headers),
       },
       body: JSON.stringify(body)
     })
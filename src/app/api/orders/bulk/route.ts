@@ -1,6 +1,7 @@
 //file path: app/api/orders/bulk/route.ts
 
 import { NextRequest, NextResponse } from 'next/server'
+import { getActivitySourceHeader } from '@/app/dashboard/orders/utils/orderActivity'
 
 const BACKEND_API_URL = process.env.NEXT_PUBLIC_API_URL || 'https://api.advorderflow.com'
 
@@ -29,6 +30,7 @@ export async function POST(request: NextRequest) {
       headers: {
         'Content-Type': 'application/json',
         'Authorization': request.headers.get('authorization') || '',
+        ...getActivitySourceHeader(request.headers),
       },
       body: JSON.stringify({ orders, accountId })
     })
@@ -72,6 +74,7 @@ export async function DELETE(request: NextRequest) {
       headers: {
         'Content-Type': 'application/json',
         'Authorization': request.headers.get('authorization') || '',
+        ...getActivitySourceHeader(request.headers),
       },
       body: JSON.stringify({ orderIds })
     })
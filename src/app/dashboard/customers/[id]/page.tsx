@@ -0,0 +1,274 @@
+//file path: app/dashboard/customers/[id]/page.tsx
+
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { ArrowLeftIcon, ShoppingBagIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { useCustomer } from '../hooks/useCustomers'
+import { CUSTOMER_FLAGS } from '../constants/customerConstants'
+import { withAuth } from '@/app/dashboard/shared/components/withAuth'
+import { AuthLoadingState } from '@/app/dashboard/shared/components/AuthLoadingState'
+import { formatCurrency, formatDate } from '../../orders/utils/orderUtils'
+import { Order } from '../../orders/utils/orderTypes'
+import { OrderAPI } from '@/lib/api/orderApi'
+import { CustomerFlag } from '@/lib/api/customerApi'
+
+const RECENT_ORDERS_LIMIT = 10
+
+function CustomerPageContent() {
+  const params = useParams()
+  const customerId = params.id as string
+  const { customer, isLoading, error, updateCustomer } = useCustomer(customerId)
+
+  const [recentOrders, setRecentOrders] = useState<Order[]>([])
+  const [notes, setNotes] = useState('')
+  const [newTag, setNewTag] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!customer) return
+    setNotes(customer.notes || '')
+
+    OrderAPI.queryOrders({
+      customerEmail: customer.email,
+      sortBy: 'orderDate',
+      sortDirection: 'desc',
+      limit: RECENT_ORDERS_LIMIT
+    })
+      .then(result => setRecentOrders(result.orders))
+      .catch(err => {
+        console.error('[CustomerPage] Error loading orders:', err)
+        setRecentOrders([])
+      })
+  }, [customer?.id])
+
+  const save = async (data: Parameters<typeof updateCustomer>[0]) => {
+    setSaving(true)
+    try {
+      await updateCustomer(data)
+    } catch (err: any) {
+      alert(err.message || 'Failed to update customer')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (isLoading && !customer) {
+    return <AuthLoadingState message="Loading customer..." />
+  }
+
+  if (!customer) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold text-gray-900">Customer Not Found</h2>
+        <p className="mt-2 text-gray-600">{error || "The customer you're looking for doesn't exist."}</p>
+      </div>
+    )
+  }
+
+  const toggleFlag = (flag: CustomerFlag) => {
+    const flags = customer.flags.includes(flag)
+      ? customer.flags.filter(f => f !== flag)
+      : [...customer.flags, flag]
+    save({ flags })
+  }
+
+  const handleAddTag = () => {
+    const tag = newTag.trim()
+    if (!tag || customer.tags.includes(tag)) {
+      setNewTag('')
+      return
+    }
+    save({ tags: [...customer.tags, tag] })
+    setNewTag('')
+  }
+
+  const ordersHref = `/dashboard/orders?customer=${encodeURIComponent(customer.email)}`
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <Link href="/dashboard/customers" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+        <ArrowLeftIcon className="h-4 w-4 mr-1" />
+        Customers
+      </Link>
+
+      <div className="mt-4 sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold leading-6 text-gray-900">{customer.name || customer.email}</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            {customer.email}
+            {customer.phone && <span className="ml-2 text-gray-500">• {customer.phone}</span>}
+          </p>
+        </div>
+        <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none">
+          <Link
+            href={ordersHref}
+            className="inline-flex items-center gap-x-2 rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+          >
+            <ShoppingBagIcon className="h-4 w-4" />
+            View all orders
+          </Link>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <dl className="mt-6 grid grid-cols-2 gap-4 lg:grid-cols-4">
+        {[
+          ['Orders', String(customer.orderCount)],
+          ['Lifetime value', formatCurrency(customer.lifetimeValue, customer.currency)],
+          ['Returns', String(customer.returnCount)],
+          ['Customer since', customer.firstOrderAt ? formatDate(customer.firstOrderAt) : '—']
+        ].map(([label, value]) => (
+          <div key={label} className="rounded-lg bg-white p-4 shadow">
+            <dt className="text-sm text-gray-500">{label}</dt>
+            <dd className="mt-1 text-xl font-semibold text-gray-900">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="mt-6 grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          {/* Recent orders */}
+          <div className="overflow-hidden rounded-lg bg-white shadow">
+            <div className="flex items-center justify-between border-b px-4 py-3">
+              <h3 className="font-medium text-gray-900">Recent Orders</h3>
+              <Link href={ordersHref} className="text-sm text-indigo-600 hover:text-indigo-500">
+                View all {customer.orderCount}
+              </Link>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200">
+              <tbody className="divide-y divide-gray-200">
+                {recentOrders.length === 0 && (
+                  <tr>
+                    <td className="py-6 text-center text-sm text-gray-500">No orders</td>
+                  </tr>
+                )}
+                {recentOrders.map(order => (
+                  <tr key={order.id} className="text-sm">
+                    <td className="py-2 pl-4 pr-3 font-medium text-gray-900">#{order.orderNumber}</td>
+                    <td className="px-3 py-2 text-gray-500">{formatDate(order.orderDate)}</td>
+                    <td className="px-3 py-2 text-gray-500">{order.platform}</td>
+                    <td className="px-3 py-2 text-gray-500">{order.fulfillmentStatus.replace(/_/g, ' ')}</td>
+                    <td className="py-2 pl-3 pr-4 text-right text-gray-900">{formatCurrency(order.totalAmount, order.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Saved addresses */}
+          <div className="rounded-lg bg-white p-4 shadow">
+            <h3 className="font-medium text-gray-900 mb-3">Saved Addresses</h3>
+            {customer.addresses.length === 0 ? (
+              <p className="text-sm text-gray-500">No addresses yet</p>
+            ) : (
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                {customer.addresses.map(address => (
+                  <address key={address.id} className="rounded-md border border-gray-200 p-3 text-sm not-italic leading-relaxed text-gray-600">
+                    <span className="font-medium text-gray-900">{address.firstName} {address.lastName}</span><br />
+                    {address.company && <>{address.company}<br /></>}
+                    {address.address1}<br />
+                    {address.address2 && <>{address.address2}<br /></>}
+                    {address.city}, {address.state} {address.zip}<br />
+                    {address.country}
+                    <p className="mt-1 text-xs text-gray-400">
+                      {address.orderCount} order{address.orderCount !== 1 ? 's' : ''} • last used {formatDate(address.lastUsedAt)}
+                    </p>
+                  </address>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Flags */}
+          <div className="rounded-lg bg-white p-4 shadow">
+            <h3 className="font-medium text-gray-900 mb-3">Flags</h3>
+            <p className="mb-3 text-xs text-gray-500">Flags show on every order from this customer.</p>
+            <div className="space-y-3">
+              {CUSTOMER_FLAGS.map(flag => (
+                <label key={flag.value} className="flex items-start">
+                  <input
+                    type="checkbox"
+                    checked={customer.flags.includes(flag.value)}
+                    onChange={() => toggleFlag(flag.value)}
+                    disabled={saving}
+                    className="mt-0.5 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                  />
+                  <span className="ml-3 text-sm">
+                    <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${flag.color}`}>{flag.label}</span>
+                    <span className="block text-gray-500">{flag.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Tags */}
+          <div className="rounded-lg bg-white p-4 shadow">
+            <h3 className="font-medium text-gray-900 mb-3">Tags</h3>
+            <div className="flex flex-wrap gap-2">
+              {customer.tags.map(tag => (
+                <span key={tag} className="inline-flex items-center rounded bg-gray-100 px-2 py-0.5 text-sm text-gray-700">
+                  {tag}
+                  <button
+                    type="button"
+                    onClick={() => save({ tags: customer.tags.filter(t => t !== tag) })}
+                    disabled={saving}
+                    className="ml-1 text-gray-400 hover:text-red-600"
+                  >
+                    <XMarkIcon className="h-3.5 w-3.5" />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <div className="mt-3 flex gap-2">
+              <input
+                type="text"
+                value={newTag}
+                onChange={(e) => setNewTag(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddTag()}
+                placeholder="Add a tag"
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              <button
+                type="button"
+                onClick={handleAddTag}
+                disabled={saving || !newTag.trim()}
+                className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          {/* Notes */}
+          <div className="rounded-lg bg-white p-4 shadow">
+            <h3 className="font-medium text-gray-900 mb-3">Notes</h3>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={5}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+            {notes !== (customer.notes || '') && (
+              <button
+                type="button"
+                onClick={() => save({ notes })}
+                disabled={saving}
+                className="mt-2 rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save notes'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default withAuth(CustomerPageContent)
@@ -0,0 +1,27 @@
+// File: app/dashboard/customers/components/CustomerFlagBadges.tsx
+'use client'
+
+import { CustomerFlag } from '@/lib/api/customerApi'
+import { CUSTOMER_FLAGS } from '../constants/customerConstants'
+
+interface CustomerFlagBadgesProps {
+  flags?: CustomerFlag[]
+}
+
+export default function CustomerFlagBadges({ flags = [] }: CustomerFlagBadgesProps) {
+  if (flags.length === 0) return null
+
+  return (
+    <span className="inline-flex flex-wrap gap-1">
+      {CUSTOMER_FLAGS.filter(flag => flags.includes(flag.value)).map(flag => (
+        <span
+          key={flag.value}
+          className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${flag.color}`}
+          title={flag.description}
+        >
+          {flag.label}
+        </span>
+      ))}
+    </span>
+  )
+}
@@ -0,0 +1,11 @@
+// File: app/dashboard/customers/constants/customerConstants.ts
+
+import { CustomerFlag } from '@/lib/api/customerApi'
+
+export const CUSTOMER_FLAGS: { value: CustomerFlag; label: string; description: string; color: string }[] = [
+  { value: 'vip', label: 'VIP', description: 'Prioritize and pack with care', color: 'bg-amber-100 text-amber-800' },
+  { value: 'do_not_ship', label: 'Do not ship', description: 'Check with support before shipping', color: 'bg-red-100 text-red-800' },
+  { value: 'fraud', label: 'Fraud', description: 'Confirmed or suspected fraud', color: 'bg-red-600 text-white' }
+]
+
+export const CUSTOMERS_PER_PAGE = 50
@@ -0,0 +1,109 @@
+//file path: app/dashboard/customers/hooks/useCustomers.ts
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  CustomerAPI,
+  Customer,
+  CustomerQueryParams,
+  UpdateCustomerData
+} from '@/lib/api/customerApi'
+import { CUSTOMERS_PER_PAGE } from '../constants/customerConstants'
+
+/**
+ * Hook for the customer list
+ * Further pages are appended with loadMore (cursor-based)
+ */
+export function useCustomers(query: CustomerQueryParams) {
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [totalCount, setTotalCount] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const queryKey = JSON.stringify(query)
+
+  const loadCustomers = useCallback(async (cursor: string | null = null) => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const result = await CustomerAPI.getCustomers({
+        ...JSON.parse(queryKey),
+        cursor,
+        limit: CUSTOMERS_PER_PAGE
+      })
+      setCustomers(prev => cursor ? [...prev, ...result.customers] : result.customers)
+      setTotalCount(result.totalCount)
+      setNextCursor(result.nextCursor)
+    } catch (err: any) {
+      console.error('[useCustomers] Error loading customers:', err)
+      setError(err.message || 'Failed to load customers')
+      if (!cursor) setCustomers([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [queryKey])
+
+  useEffect(() => {
+    loadCustomers()
+  }, [loadCustomers])
+
+  const loadMore = useCallback(() => {
+    if (nextCursor) loadCustomers(nextCursor)
+  }, [nextCursor, loadCustomers])
+
+  return {
+    customers,
+    totalCount,
+    hasMore: nextCursor !== null,
+    isLoading,
+    error,
+    loadMore,
+    refreshCustomers: () => loadCustomers()
+  }
+}
+
+/**
+ * Hook for a single customer record
+ */
+export function useCustomer(customerId: string) {
+  const [customer, setCustomer] = useState<Customer | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadCustomer = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      setCustomer(await CustomerAPI.getCustomer(customerId))
+    } catch (err: any) {
+      console.error('[useCustomer] Error loading customer:', err)
+      setError(err.message || 'Failed to load customer')
+      setCustomer(null)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [customerId])
+
+  useEffect(() => {
+    loadCustomer()
+  }, [loadCustomer])
+
+  const updateCustomer = useCallback(async (data: UpdateCustomerData) => {
+    try {
+      const updated = await CustomerAPI.updateCustomer(customerId, data)
+      setCustomer(updated)
+      return updated
+    } catch (err: any) {
+      console.error('[useCustomer] Error updating customer:', err)
+      throw err
+    }
+  }, [customerId])
+
+  return {
+    customer,
+    isLoading,
+    error,
+    refreshCustomer: loadCustomer,
+    updateCustomer
+  }
+}
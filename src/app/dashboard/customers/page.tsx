@@ -0,0 +1,180 @@
+//file path: app/dashboard/customers/page.tsx
+
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import Link from 'next/link'
+import { UserGroupIcon, ArrowPathIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline'
+import { useCustomers } from './hooks/useCustomers'
+import CustomerFlagBadges from './components/CustomerFlagBadges'
+import { CUSTOMER_FLAGS } from './constants/customerConstants'
+import { withAuth } from '../shared/components/withAuth'
+import { formatCurrency, formatDate } from '../orders/utils/orderUtils'
+import { ORDER_SEARCH_DEBOUNCE_MS } from '../orders/constants/orderConstants'
+import { CustomerFlag, CustomerQueryParams } from '@/lib/api/customerApi'
+
+const SORT_OPTIONS: { value: NonNullable<CustomerQueryParams['sortBy']>; label: string }[] = [
+  { value: 'lastOrderAt', label: 'Most recent order' },
+  { value: 'orderCount', label: 'Most orders' },
+  { value: 'lifetimeValue', label: 'Highest lifetime value' },
+  { value: 'name', label: 'Name' }
+]
+
+function CustomersPageContent() {
+  const [searchTerm, setSearchTerm] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [flag, setFlag] = useState<CustomerFlag | ''>('')
+  const [sortBy, setSortBy] = useState<NonNullable<CustomerQueryParams['sortBy']>>('lastOrderAt')
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), ORDER_SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchTerm])
+
+  const query = useMemo<CustomerQueryParams>(() => ({
+    search: debouncedSearch || undefined,
+    flag: flag || undefined,
+    sortBy,
+    sortDirection: sortBy === 'name' ? 'asc' : 'desc'
+  }), [debouncedSearch, flag, sortBy])
+
+  const {
+    customers,
+    totalCount,
+    hasMore,
+    isLoading,
+    error,
+    loadMore,
+    refreshCustomers
+  } = useCustomers(query)
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center mb-6">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold leading-6 text-gray-900">Customers</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Buyers matched by email across every store and platform.
+            {totalCount > 0 && <span className="ml-1 text-gray-500">{totalCount} customers</span>}
+          </p>
+        </div>
+        <div className="mt-4 sm:ml-16 sm:mt-0">
+          <button
+            type="button"
+            onClick={refreshCustomers}
+            className="rounded-md bg-white p-2 text-gray-500 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+            title="Refresh"
+          >
+            <ArrowPathIcon className={`h-5 w-5 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        <div className="relative w-full max-w-sm">
+          <MagnifyingGlassIcon className="pointer-events-none absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search by name or email"
+            className="block w-full rounded-md border-gray-300 pl-9 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+        <select
+          value={flag}
+          onChange={(e) => setFlag(e.target.value as CustomerFlag | '')}
+          className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        >
+          <option value="">All customers</option>
+          {CUSTOMER_FLAGS.map(f => (
+            <option key={f.value} value={f.value}>{f.label}</option>
+          ))}
+        </select>
+        <select
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value as NonNullable<CustomerQueryParams['sortBy']>)}
+          className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        >
+          {SORT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="overflow-hidden bg-white shadow ring-1 ring-black ring-opacity-5 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-300">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="py-3 pl-4 pr-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Customer</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Tags</th>
+              <th className="px-3 py-3 text-right text-xs font-medium uppercase tracking-wide text-gray-500">Orders</th>
+              <th className="px-3 py-3 text-right text-xs font-medium uppercase tracking-wide text-gray-500">Returns</th>
+              <th className="px-3 py-3 text-right text-xs font-medium uppercase tracking-wide text-gray-500">Lifetime Value</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Platforms</th>
+              <th className="py-3 pl-3 pr-4 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Last Order</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {!isLoading && customers.length === 0 && (
+              <tr>
+                <td colSpan={7} className="py-12 text-center text-sm text-gray-500">
+                  <UserGroupIcon className="mx-auto h-8 w-8 text-gray-300 mb-2" />
+                  No customers found
+                </td>
+              </tr>
+            )}
+            {customers.map(customer => (
+              <tr key={customer.id} className="hover:bg-gray-50">
+                <td className="py-3 pl-4 pr-3 text-sm">
+                  <Link href={`/dashboard/customers/${customer.id}`} className="font-medium text-gray-900 hover:text-indigo-600">
+                    {customer.name || customer.email}
+                  </Link>
+                  <p className="text-gray-500">{customer.email}</p>
+                  <div className="mt-1">
+                    <CustomerFlagBadges flags={customer.flags} />
+                  </div>
+                </td>
+                <td className="px-3 py-3 text-sm">
+                  <div className="flex flex-wrap gap-1">
+                    {customer.tags.map(tag => (
+                      <span key={tag} className="rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-700">{tag}</span>
+                    ))}
+                  </div>
+                </td>
+                <td className="whitespace-nowrap px-3 py-3 text-right text-sm text-gray-900">{customer.orderCount}</td>
+                <td className="whitespace-nowrap px-3 py-3 text-right text-sm text-gray-700">{customer.returnCount || '—'}</td>
+                <td className="whitespace-nowrap px-3 py-3 text-right text-sm font-medium text-gray-900">
+                  {formatCurrency(customer.lifetimeValue, customer.currency)}
+                </td>
+                <td className="px-3 py-3 text-sm text-gray-500">{customer.platforms.join(', ')}</td>
+                <td className="whitespace-nowrap py-3 pl-3 pr-4 text-sm text-gray-500">
+                  {customer.lastOrderAt ? formatDate(customer.lastOrderAt) : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {hasMore && (
+        <div className="mt-4 flex justify-center">
+          <button
+            type="button"
+            onClick={loadMore}
+            disabled={isLoading}
+            className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isLoading ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default withAuth(CustomersPageContent)
@@ -17,11 +17,17 @@ import {
   UserCircleIcon,
   ChevronDownIcon,
   UsersIcon,
+  ArrowUturnLeftIcon,
+  ArrowsRightLeftIcon,
+  BriefcaseIcon,
+  ClipboardDocumentListIcon,
+  UserGroupIcon,
 } from '@heroicons/react/24/outline'
 import { useAccountInitialization } from '@/hooks/useAccountInitialization'
 import { usePathname, useRouter } from 'next/navigation'
 import Link from 'next/link'
 import DashboardProviders from './providers'
+import MentionsMenu from './shared/components/MentionsMenu'
 import { IntegrationAPI } from '@/lib/api/integrationApi'
 import { logout } from '@/lib/auth/authUtils'
 
@@ -116,6 +122,7 @@ function getBaseRolePermissions(role: string): Record<string, boolean> {
       canCreateProducts: true,
       canManageSuppliers: true,
       canViewOrders: true,
+      canCreatePurchaseOrders: true,
       canManageUsers: false,
     }
   }
@@ -186,6 +193,21 @@ function DashboardLayoutContent({
     { name: 'Dashboard', href: '/dashboard', icon: HomeIcon },
     { name: 'Products', href: '/dashboard/products', icon: CubeIcon },
     { name: 'Orders', href: '/dashboard/orders', icon: ShoppingBagIcon },
+    { name: 'Returns', href: '/dashboard/returns', icon: ArrowUturnLeftIcon },
+    { name: 'Transfers', href: '/dashboard/transfers', icon: ArrowsRightLeftIcon },
+    {
+      name: 'Purchase Orders',
+      href: '/dashboard/purchase-orders',
+      icon: ClipboardDocumentListIcon,
+      requiredPermission: 'canCreatePurchaseOrders'
+    },
+    {
+      name: 'Suppliers',
+      href: '/dashboard/suppliers',
+      icon: BriefcaseIcon,
+      requiredPermission: 'canManageSuppliers'
+    },
+    { name: 'Customers', href: '/dashboard/customers', icon: UserGroupIcon },
     { name: 'Warehouses', href: '/dashboard/warehouses', icon: BuildingOffice2Icon },
     { name: 'Stores', href: '/dashboard/stores', icon: BuildingStorefrontIcon },
     { name: 'Shipping', href: '/dashboard/shipping', icon: TruckIcon, condition: () => showShipping },
@@ -306,6 +328,9 @@ function DashboardLayoutContent({
           {/* Spacer */}
           <div className="flex flex-1" />
 
+          {/* Comment mentions */}
+          <MentionsMenu />
+
           {/* ✅ User menu dropdown */}
           <Menu as="div" className="relative">
             <Menu.Button className="flex items-center gap-x-2 text-sm font-semibold leading-6 text-gray-900 hover:bg-gray-50 px-3 py-2 rounded-md">
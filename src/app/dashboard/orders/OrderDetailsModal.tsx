@@ -1,9 +1,18 @@
 'use client'
 
-import { Fragment } from 'react'
+import { Fragment, useState, useEffect } from 'react'
 import { Dialog, Transition } from '@headlessui/react'
-import { XMarkIcon } from '@heroicons/react/24/outline'
+import { XMarkIcon, HandRaisedIcon, DocumentTextIcon } from '@heroicons/react/24/outline'
 import ReactCountryFlag from "react-country-flag"
+import { OrderHold, OrderHoldEvent, OrderDocument, OrderPriority, AllocationStatus } from './utils/orderTypes'
+import { getLineAllocation, ALLOCATION_STATUS_LABELS, ALLOCATION_STATUS_COLORS } from './utils/allocation'
+import { ORDER_PRIORITY_OPTIONS } from './constants/orderConstants'
+import { OrderAPI } from '@/lib/api/orderApi'
+import OrderActivityTimeline from './components/OrderActivityTimeline'
+import CommentThreads from '../shared/components/CommentThreads'
+import { useCurrency } from '../shared/context/CurrencyContext'
+import { getOrderBaseTotal } from '../shared/utils/currency'
+import { formatCurrency as formatMoney } from './utils/orderUtils'
 
 const CountryFlag = ({ countryCode }: { countryCode: string }) => {
   return (
@@ -29,6 +38,9 @@ interface OrderItem {
   image?: string
   variant?: string
   weight?: number
+  quantityFulfilled?: number
+  quantityCancelled?: number
+  quantityAllocated?: number
   meta?: {
     color?: string
     size?: string
@@ -80,15 +92,51 @@ interface OrderDetailsProps {
     }[]
     trackingNumber?: string
     notes?: string
+    hold?: OrderHold | null
+    documents?: OrderDocument[]
+    openCommentCount?: number
+    tags?: string[]
+    priority?: OrderPriority
+    baseCurrency?: string
+    exchangeRate?: number | null
+    baseTotalAmount?: number | null
+    allocationStatus?: AllocationStatus
   }
+  onEdit?: () => void   // Shown only while the order can still be edited
+  onCreateReturn?: () => void   // Shown once items have shipped
+  onHold?: () => void
+  onRelease?: () => void
+  onCommentsChange?: () => void   // Open thread count changed, so the table badge is stale
 }
 
-export default function OrderDetailsModal({ isOpen, onClose, order }: OrderDetailsProps) {
+export default function OrderDetailsModal({
+  isOpen,
+  onClose,
+  order,
+  onEdit,
+  onCreateReturn,
+  onHold,
+  onRelease,
+  onCommentsChange
+}: OrderDetailsProps) {
+  const [holdHistory, setHoldHistory] = useState<OrderHoldEvent[]>([])
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    OrderAPI.getHoldHistory(order.id)
+      .then(setHoldHistory)
+      .catch(error => {
+        console.error('[OrderDetailsModal] Error loading hold history:', error)
+        setHoldHistory([])
+      })
+  }, [isOpen, order.id])
+
+  // Amounts in the order's currency follow the user's choice of original or base currency
+  const { formatAmount, display } = useCurrency()
   const formatCurrency = (amount: number, currency: string) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-    }).format(amount)
+    if (currency === order.currency) return formatAmount(amount, order)
+    return formatMoney(amount, currency)
   }
 
   const formatDate = (dateString: string) => {
@@ -127,6 +175,7 @@ export default function OrderDetailsModal({ isOpen, onClose, order }: OrderDetai
     PICKING: 'bg-yellow-100 text-yellow-800',
     PACKED: 'bg-indigo-100 text-indigo-800',
     READY_TO_SHIP: 'bg-purple-100 text-purple-800',
+    PARTIALLY_SHIPPED: 'bg-cyan-100 text-cyan-800',
     SHIPPED: 'bg-green-100 text-green-800',
     DELIVERED: 'bg-green-100 text-green-800',
   }
@@ -175,6 +224,24 @@ export default function OrderDetailsModal({ isOpen, onClose, order }: OrderDetai
                       Order Details: {order.orderNumber}
                     </Dialog.Title>
 
+                    {order.hold && (
+                      <div className="mb-6 rounded-lg border border-red-200 bg-red-50 p-4">
+                        <div className="flex items-start">
+                          <HandRaisedIcon className="h-5 w-5 flex-shrink-0 text-red-500" />
+                          <div className="ml-3">
+                            <h4 className="text-sm font-medium text-red-800">
+                              On hold{order.hold.source === 'rule' && ' (automatic rule)'}
+                            </h4>
+                            <p className="mt-1 text-sm text-red-700">{order.hold.reason}</p>
+                            <p className="mt-1 text-xs text-red-600">
+                              Held {order.hold.heldByName && `by ${order.hold.heldByName} `}on {formatDate(order.hold.heldAt)}.
+                              It won&apos;t be picked, counted or shipped until released.
+                            </p>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
                     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                       {/* Order Summary */}
                       <div className="lg:col-span-2">
@@ -204,6 +271,26 @@ export default function OrderDetailsModal({ isOpen, onClose, order }: OrderDetai
                                   <dt className="text-gray-500">Email:</dt>
                                   <dd>{order.customerEmail}</dd>
                                 </div>
+                                {order.priority && order.priority !== 'normal' && (
+                                  <div className="flex justify-between py-1">
+                                    <dt className="text-gray-500">Priority:</dt>
+                                    <dd>
+                                      <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${ORDER_PRIORITY_OPTIONS.find(o => o.value === order.priority)?.color}`}>
+                                        {ORDER_PRIORITY_OPTIONS.find(o => o.value === order.priority)?.label}
+                                      </span>
+                                    </dd>
+                                  </div>
+                                )}
+                                {order.tags && order.tags.length > 0 && (
+                                  <div className="flex justify-between py-1">
+                                    <dt className="text-gray-500">Tags:</dt>
+                                    <dd className="flex flex-wrap justify-end gap-1">
+                                      {order.tags.map(tag => (
+                                        <span key={tag} className="inline-flex rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-700">{tag}</span>
+                                      ))}
+                                    </dd>
+                                  </div>
+                                )}
                               </dl>
                             </div>
                             <div>
@@ -221,6 +308,14 @@ export default function OrderDetailsModal({ isOpen, onClose, order }: OrderDetai
                                     {order.fulfillmentStatus.replace('_', ' ')}
                                   </span>
                                 </div>
+                                {order.allocationStatus && order.allocationStatus !== 'unallocated' && (
+                                  <div>
+                                    <span className="text-sm text-gray-500">Stock:</span>
+                                    <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${ALLOCATION_STATUS_COLORS[order.allocationStatus]}`}>
+                                      {ALLOCATION_STATUS_LABELS[order.allocationStatus]}
+                                    </span>
+                                  </div>
+                                )}
                                 {order.trackingNumber && (
                                   <div className="flex justify-between py-1">
                                     <dt className="text-sm text-gray-500">Tracking:</dt>
@@ -295,6 +390,17 @@ export default function OrderDetailsModal({ isOpen, onClose, order }: OrderDetai
                                         {item.weight && (
                                           <p className="text-sm text-gray-500 mt-1">Weight: {item.weight} kg</p>
                                         )}
+
+                                        {order.allocationStatus && order.allocationStatus !== 'unallocated' && (() => {
+                                          const line = getLineAllocation(item)
+                                          if (line.open === 0) return null
+                                          return (
+                                            <p className={`text-sm mt-1 ${line.short > 0 ? 'text-red-600' : 'text-green-700'}`}>
+                                              {line.allocated} of {line.open} reserved
+                                              {line.short > 0 && ` · ${line.short} backordered`}
+                                            </p>
+                                          )
+                                        })()}
                                       </div>
 
                                       <div className="text-right">
@@ -312,6 +418,19 @@ export default function OrderDetailsModal({ isOpen, onClose, order }: OrderDetai
                             ))}
                           </div>
                         </div>
+
+                        {/* Internal comments */}
+                        <CommentThreads
+                          entityType="order"
+                          entityId={order.id}
+                          isOpen={isOpen}
+                          onOpenCountChange={(count) => {
+                            if (count !== (order.openCommentCount || 0)) onCommentsChange?.()
+                          }}
+                        />
+
+                        {/* Activity timeline */}
+                        <OrderActivityTimeline orderId={order.id} isOpen={isOpen} />
                       </div>
 
                       {/* Sidebar with addresses and totals */}
@@ -387,6 +506,18 @@ export default function OrderDetailsModal({ isOpen, onClose, order }: OrderDetai
                               <dt>Total:</dt>
                               <dd className="text-lg">{formatCurrency(order.totalAmount, order.currency)}</dd>
                             </div>
+
+                            {/* The other currency, with the rate frozen at order date */}
+                            {order.exchangeRate != null && order.baseCurrency && order.baseCurrency !== order.currency && (
+                              <div className="flex justify-between text-xs text-gray-500">
+                                <dt>{display === 'base' ? `Charged in ${order.currency}:` : `In ${order.baseCurrency}:`}</dt>
+                                <dd title={`1 ${order.currency} = ${order.exchangeRate} ${order.baseCurrency} on ${new Date(order.orderDate).toLocaleDateString()}`}>
+                                  {display === 'base'
+                                    ? formatMoney(order.totalAmount, order.currency)
+                                    : formatMoney(getOrderBaseTotal(order) ?? 0, order.baseCurrency)}
+                                </dd>
+                              </div>
+                            )}
                           </dl>
                         </div>
 
@@ -440,6 +571,56 @@ export default function OrderDetailsModal({ isOpen, onClose, order }: OrderDetai
                           </address>
                         </div>
 
+                        {/* Hold History */}
+                        {holdHistory.length > 0 && (
+                          <div className="bg-white border rounded-lg p-4">
+                            <h4 className="font-medium text-gray-900 mb-3">Hold History</h4>
+                            <ul className="space-y-3">
+                              {holdHistory.map(event => (
+                                <li key={event.id} className="text-sm">
+                                  <p className="font-medium text-gray-900">
+                                    {event.action === 'held' ? 'Held' : 'Released'}
+                                    <span className="ml-1 font-normal text-gray-500">
+                                      {event.source === 'rule' ? 'by rule' : event.userName && `by ${event.userName}`}
+                                    </span>
+                                  </p>
+                                  {event.reason && <p className="text-gray-600">{event.reason}</p>}
+                                  <p className="text-xs text-gray-400">{formatDate(event.createdAt)}</p>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+
+                        {/* Documents */}
+                        {order.documents && order.documents.length > 0 && (
+                          <div className="bg-white border rounded-lg p-4">
+                            <h4 className="font-medium text-gray-900 mb-3">Documents</h4>
+                            <ul className="space-y-2">
+                              {order.documents.map(doc => (
+                                <li key={doc.id} className="flex items-start text-sm">
+                                  <DocumentTextIcon className="h-4 w-4 mt-0.5 mr-2 text-gray-400 flex-shrink-0" />
+                                  <div className="min-w-0">
+                                    <a
+                                      href={doc.url}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="text-indigo-600 hover:text-indigo-500 break-all"
+                                    >
+                                      {doc.fileName}
+                                    </a>
+                                    <p className="text-xs text-gray-400">
+                                      {doc.pageCount} page{doc.pageCount !== 1 ? 's' : ''}
+                                      {doc.orderIds.length > 1 && ` • ${doc.orderIds.length} orders`}
+                                      {' • '}{formatDate(doc.createdAt)}
+                                    </p>
+                                  </div>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+
                         {/* Notes */}
                         {order.notes && (
                           <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
@@ -452,7 +633,42 @@ export default function OrderDetailsModal({ isOpen, onClose, order }: OrderDetai
                   </div>
                 </div>
 
-                <div className="mt-6 flex justify-end">
+                <div className="mt-6 flex justify-end gap-3">
+                  {order.hold ? onRelease && (
+                    <button
+                      type="button"
+                      className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                      onClick={onRelease}
+                    >
+                      Release Hold
+                    </button>
+                  ) : onHold && (
+                    <button
+                      type="button"
+                      className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-red-700 shadow-sm ring-1 ring-inset ring-red-300 hover:bg-red-50"
+                      onClick={onHold}
+                    >
+                      Hold Order
+                    </button>
+                  )}
+                  {onCreateReturn && (
+                    <button
+                      type="button"
+                      className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                      onClick={onCreateReturn}
+                    >
+                      Create Return
+                    </button>
+                  )}
+                  {onEdit && (
+                    <button
+                      type="button"
+                      className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+                      onClick={onEdit}
+                    >
+                      Edit Order
+                    </button>
+                  )}
                   <button
                     type="button"
                     className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
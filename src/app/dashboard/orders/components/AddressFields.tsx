@@ -0,0 +1,81 @@
+//file path: app/dashboard/orders/components/AddressFields.tsx
+
+'use client'
+
+import { Address } from '../utils/orderTypes'
+import { COUNTRIES } from '../../shared/utils/countries'
+
+interface AddressFieldsProps {
+  address: Address
+  onChange: (address: Address) => void
+  idPrefix: string
+}
+
+const inputClassName = 'block w-full rounded-md border-0 py-1.5 px-2 text-sm text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600'
+
+export default function AddressFields({ address, onChange, idPrefix }: AddressFieldsProps) {
+  const update = (updates: Partial<Address>) => onChange({ ...address, ...updates })
+
+  const field = (key: keyof Address, label: string, required = false, className = '') => (
+    <div className={className}>
+      <label htmlFor={`${idPrefix}-${key}`} className="block text-xs font-medium text-gray-700 mb-1">
+        {label}{required && ' *'}
+      </label>
+      <input
+        id={`${idPrefix}-${key}`}
+        type="text"
+        value={address[key] || ''}
+        onChange={(e) => update({ [key]: e.target.value })}
+        className={inputClassName}
+      />
+    </div>
+  )
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {field('firstName', 'First name', true)}
+      {field('lastName', 'Last name', true)}
+      {field('company', 'Company', false, 'col-span-2')}
+      {field('address1', 'Address', true, 'col-span-2')}
+      {field('address2', 'Apartment, suite, etc.', false, 'col-span-2')}
+      {field('city', 'City', true)}
+      {field('state', 'State / Province', true)}
+      {field('zip', 'ZIP / Postal code', true)}
+      <div>
+        <label htmlFor={`${idPrefix}-country`} className="block text-xs font-medium text-gray-700 mb-1">
+          Country *
+        </label>
+        <select
+          id={`${idPrefix}-country`}
+          value={address.countryCode}
+          onChange={(e) => {
+            const country = COUNTRIES.find(c => c.code === e.target.value)
+            update({ countryCode: e.target.value, country: country?.name || e.target.value })
+          }}
+          className={inputClassName}
+        >
+          {COUNTRIES.map(country => (
+            <option key={country.code} value={country.code}>{country.name}</option>
+          ))}
+        </select>
+      </div>
+      {field('phone', 'Phone', false, 'col-span-2')}
+    </div>
+  )
+}
+
+/**
+ * Required address fields that are empty
+ */
+export function getMissingAddressFields(address: Address): string[] {
+  const required: [keyof Address, string][] = [
+    ['firstName', 'first name'],
+    ['lastName', 'last name'],
+    ['address1', 'address'],
+    ['city', 'city'],
+    ['state', 'state'],
+    ['zip', 'ZIP code'],
+    ['countryCode', 'country']
+  ]
+  return required.filter(([key]) => !String(address[key] || '').trim()).map(([, label]) => label)
+}
@@ -0,0 +1,86 @@
+// File: app/dashboard/orders/components/CombinableOrdersPanel.tsx
+'use client'
+
+import { useState, useMemo, useEffect } from 'react'
+import { ChevronDownIcon, ChevronRightIcon, RectangleStackIcon } from '@heroicons/react/24/outline'
+import { Order } from '../utils/orderTypes'
+import { CombinableGroup, findCombinableGroups } from '../utils/orderCombining'
+
+interface CombinableOrdersPanelProps {
+  orders: Order[]                     // Unshipped, unheld orders in the work queue
+  onCombine: (group: CombinableGroup) => void
+}
+
+const ACROSS_STORES_KEY = 'combineOrdersAcrossStores'
+
+export default function CombinableOrdersPanel({ orders, onCombine }: CombinableOrdersPanelProps) {
+  const [expanded, setExpanded] = useState(false)
+  const [acrossStores, setAcrossStores] = useState(false)
+
+  useEffect(() => {
+    setAcrossStores(localStorage.getItem(ACROSS_STORES_KEY) === 'true')
+  }, [])
+
+  const handleAcrossStoresChange = (value: boolean) => {
+    setAcrossStores(value)
+    localStorage.setItem(ACROSS_STORES_KEY, String(value))
+  }
+
+  const groups = useMemo(
+    () => findCombinableGroups(orders, acrossStores),
+    [orders, acrossStores]
+  )
+
+  if (groups.length === 0 && !acrossStores) return null
+
+  const orderCount = groups.reduce((sum, group) => sum + group.orders.length, 0)
+
+  return (
+    <div className="mt-4 rounded-lg border border-indigo-200 bg-indigo-50">
+      <div className="flex items-center justify-between px-4 py-3">
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-2 text-sm font-medium text-indigo-900"
+        >
+          {expanded ? <ChevronDownIcon className="h-4 w-4" /> : <ChevronRightIcon className="h-4 w-4" />}
+          <RectangleStackIcon className="h-5 w-5 text-indigo-500" />
+          {groups.length > 0
+            ? `${orderCount} orders to ${groups.length} customer${groups.length !== 1 ? 's' : ''} can ship together`
+            : 'No orders to combine'}
+        </button>
+        <label className="flex items-center gap-2 text-xs text-indigo-800">
+          <input
+            type="checkbox"
+            checked={acrossStores}
+            onChange={(e) => handleAcrossStoresChange(e.target.checked)}
+            className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+          />
+          Combine across stores
+        </label>
+      </div>
+
+      {expanded && groups.length > 0 && (
+        <ul className="divide-y divide-indigo-100 border-t border-indigo-200 bg-white">
+          {groups.map(group => (
+            <li key={group.key} className="flex items-center justify-between px-4 py-3 text-sm">
+              <div>
+                <p className="font-medium text-gray-900">{group.customerName}</p>
+                <p className="text-gray-500">
+                  {group.address} • {group.orders.map(order => `#${order.orderNumber}`).join(', ')}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => onCombine(group)}
+                className="rounded-md bg-indigo-600 px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+              >
+                Combine {group.orders.length}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,557 @@
+// File: app/dashboard/orders/components/CombineShipmentModal.tsx
+'use client'
+
+import { Fragment, useState, useEffect, useMemo } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon, RectangleStackIcon, CheckCircleIcon, PrinterIcon } from '@heroicons/react/24/outline'
+import { getShippingRates, validateAddress, createShippingLabel } from '@/lib/services/uspsClient'
+import { ShippingAPI } from '@/lib/api/shippingApi'
+import { OrderAPI } from '@/lib/api/orderApi'
+import {
+  OrderWithDetails,
+  ShippingAddress,
+  ShippingLabel,
+  orderToShippingAddress,
+  getUnfulfilledQuantity
+} from '../utils/orderTypes'
+import {
+  DraftPackage,
+  getShippableLines,
+  createDraftPackage,
+  estimatePackageWeight,
+  toShipmentPackage,
+  getShipFromAddress
+} from '../utils/shipmentUtils'
+import { CombinableGroup, mergeOrdersForPackingSlip } from '../utils/orderCombining'
+import { transformToDetailedOrder, formatCurrency, formatDate } from '../utils/orderUtils'
+import { printMultiplePackingSlips } from '../utils/packingSlipGenerator'
+import { ShippingBox, ShippingRate } from '../../shipping/utils/shippingTypes'
+import { useStores } from '../../stores/hooks/useStores'
+import { useWarehouses } from '../../warehouses/context/WarehouseContext'
+import { getDefaultPrinterProfile, getLabelPurchaseOptions } from '../../warehouses/utils/printerProfiles'
+
+interface CombineShipmentModalProps {
+  isOpen: boolean
+  onClose: () => void
+  group: CombinableGroup
+  onShipmentCreated?: () => void
+}
+
+/**
+ * Everything left to ship on an order, in one package
+ */
+function fillPackage(order: OrderWithDetails, pkg: DraftPackage): DraftPackage {
+  const quantities: Record<string, number> = {}
+  getShippableLines(order).forEach(item => {
+    quantities[item.id] = getUnfulfilledQuantity(item)
+  })
+  return { ...pkg, quantities }
+}
+
+export default function CombineShipmentModal({
+  isOpen,
+  onClose,
+  group,
+  onShipmentCreated
+}: CombineShipmentModalProps) {
+  const { stores } = useStores()
+  const [step, setStep] = useState<'review' | 'package' | 'rates'>('review')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [includedIds, setIncludedIds] = useState<Set<string>>(new Set())
+  const [validatedAddress, setValidatedAddress] = useState<ShippingAddress | null>(null)
+  const [boxes, setBoxes] = useState<ShippingBox[]>([])
+  const [pkg, setPkg] = useState<DraftPackage>(() => createDraftPackage(0))
+  const [rates, setRates] = useState<ShippingRate[]>([])
+  const [selectedRate, setSelectedRate] = useState<ShippingRate | null>(null)
+  // The label is paid for as soon as it's bought - keep it so a retry after the
+  // shipment fails to record never buys a second one
+  const [purchasedLabel, setPurchasedLabel] = useState<ShippingLabel | null>(null)
+
+  const detailedOrders = useMemo(
+    () => group.orders.map(order => transformToDetailedOrder(order)),
+    [group]
+  )
+  const includedOrders = detailedOrders.filter(order => includedIds.has(order.id))
+  const [primaryOrder] = includedOrders.length > 0 ? includedOrders : detailedOrders
+  const orderAddress = orderToShippingAddress(primaryOrder)
+
+  // Buy ZPL labels when the warehouse prints on a 4x6 thermal printer
+  const { warehouses } = useWarehouses()
+  const labelOptions = getLabelPurchaseOptions(
+    getDefaultPrinterProfile(warehouses.find(w => w.id === primaryOrder.warehouseId))
+  )
+
+  const estimateWeight = (orders: OrderWithDetails[], box?: ShippingBox) => {
+    const itemsWeight = orders.reduce((sum, order) => sum + estimatePackageWeight(order, fillPackage(order, pkg)), 0)
+    // An empty package weighs just the box
+    const tare = box ? estimatePackageWeight(primaryOrder, createDraftPackage(0), box) : 0
+    return itemsWeight + tare
+  }
+
+  // Start from every order in the group
+  useEffect(() => {
+    if (!isOpen) return
+
+    setStep('review')
+    setError('')
+    setValidatedAddress(null)
+    setRates([])
+    setSelectedRate(null)
+    setPurchasedLabel(null)
+    setIncludedIds(new Set(group.orders.map(order => order.id)))
+    setPkg(createDraftPackage(0))
+  }, [isOpen, group.key])
+
+  useEffect(() => {
+    if (!isOpen || !primaryOrder.warehouseId) return
+
+    ShippingAPI.getBoxes(primaryOrder.warehouseId)
+      .then(response => setBoxes((response.boxes || []).filter((box: ShippingBox) => box.isActive)))
+      .catch(err => {
+        console.error('[CombineShipmentModal] Error loading boxes:', err)
+        setBoxes([])
+      })
+  }, [isOpen, primaryOrder.warehouseId])
+
+  const toggleOrder = (orderId: string) => {
+    setIncludedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(orderId)) next.delete(orderId)
+      else next.add(orderId)
+      return next
+    })
+  }
+
+  const handlePrintPackingSlip = () => {
+    try {
+      printMultiplePackingSlips([mergeOrdersForPackingSlip(includedOrders)], stores)
+    } catch (err: any) {
+      setError(err.message || 'Failed to print packing slip')
+    }
+  }
+
+  const handleValidateAddress = async () => {
+    if (includedOrders.length < 2) {
+      setError('Select at least two orders to combine')
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const result = await validateAddress({
+        streetAddress: orderAddress.streetAddress,
+        secondaryAddress: orderAddress.secondaryAddress,
+        city: orderAddress.city,
+        state: orderAddress.state,
+        ZIPCode: orderAddress.zipCode
+      }, primaryOrder.storeId)
+
+      setValidatedAddress({
+        streetAddress: result.streetAddress,
+        secondaryAddress: result.secondaryAddress,
+        city: result.city,
+        state: result.state,
+        zipCode: result.ZIPCode + (result.ZIPPlus4 ? `-${result.ZIPPlus4}` : ''),
+        country: orderAddress.country,
+        countryCode: orderAddress.countryCode,
+        phone: orderAddress.phone
+      })
+
+      setPkg(prev => ({ ...prev, weight: estimateWeight(includedOrders) || 16 }))
+      setStep('package')
+    } catch (err: any) {
+      setError(err.message || 'Failed to validate address')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSelectBox = (boxId: string) => {
+    const box = boxes.find(b => b.id === boxId)
+    const sized = createDraftPackage(0, box)
+    setPkg(prev => ({
+      ...prev,
+      boxId: sized.boxId,
+      boxName: sized.boxName,
+      length: sized.length,
+      width: sized.width,
+      height: sized.height,
+      weight: estimateWeight(includedOrders, box) || prev.weight
+    }))
+  }
+
+  const buildShipment = () => {
+    const address = validatedAddress || orderAddress
+
+    return {
+      fromAddress: getShipFromAddress(warehouses.find(w => w.id === primaryOrder.warehouseId)),
+      toAddress: {
+        streetAddress: address.streetAddress,
+        secondaryAddress: address.secondaryAddress,
+        city: address.city,
+        state: address.state,
+        ZIPCode: address.zipCode.split('-')[0]
+      },
+      weight: pkg.weight,
+      length: pkg.length,
+      width: pkg.width,
+      height: pkg.height
+    }
+  }
+
+  const handleCalculateRates = async () => {
+    if (!pkg.weight || !pkg.length || !pkg.width || !pkg.height) {
+      setError('The package needs a weight and dimensions')
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const result = await getShippingRates(buildShipment(), primaryOrder.storeId)
+      setRates(result.rates || [])
+      setSelectedRate(null)
+      setStep('rates')
+    } catch (err: any) {
+      setError(err.message || 'Failed to calculate shipping rates')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleGenerateLabel = async () => {
+    if (!selectedRate) return
+
+    setLoading(true)
+    setError('')
+
+    let bought = purchasedLabel
+
+    try {
+      const label = bought || await buyLabel(selectedRate)
+      bought = label
+      setPurchasedLabel(label)
+
+      // Each order records its own items with the shared label and tracking number
+      const response = await OrderAPI.createCombinedShipment({
+        orders: includedOrders.map(order => ({
+          orderId: order.id,
+          package: toShipmentPackage(order, fillPackage(order, pkg), label)
+        }))
+      })
+
+      const failedSyncs = (response.integrationSync || []).filter(sync => !sync.success)
+      if (failedSyncs.length > 0) {
+        alert(`Label created, but ${failedSyncs.length} order(s) failed to sync tracking to the store:\n${failedSyncs.map(r => r.message).join('\n')}`)
+      }
+
+      if (onShipmentCreated) {
+        onShipmentCreated()
+      }
+
+      setPurchasedLabel(null)
+      onClose()
+    } catch (err: any) {
+      setError(`${err.message || 'Failed to generate label'}${bought
+        ? ' - the label was bought but not recorded on the orders. Retry to record it; it won\'t be bought again.'
+        : ''}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const buyLabel = async (rate: ShippingRate): Promise<ShippingLabel> => {
+    const result = await createShippingLabel({
+      ...buildShipment(),
+      mailClass: rate.mailClass,
+      ...labelOptions,
+      orderId: primaryOrder.id,
+      orderNumber: includedOrders.map(order => order.orderNumber).join('+')
+    }, primaryOrder.storeId)
+
+    return {
+      id: result.id || result.trackingNumber,
+      trackingNumber: result.trackingNumber,
+      carrier: 'USPS',
+      serviceType: rate.mailClass,
+      labelUrl: result.labelUrl || '',
+      labelImage: result.labelImage,
+      labelFormat: result.labelFormat || labelOptions.labelFormat,
+      postage: result.postage ?? rate.rate,
+      createdAt: new Date().toISOString(),
+      shipDate: result.shipDate || new Date().toISOString(),
+      deliveryDate: rate.deliveryDate,
+      weight: {
+        lbs: Math.floor(pkg.weight / 16),
+        oz: pkg.weight % 16
+      },
+      dimensions: {
+        length: pkg.length,
+        width: pkg.width,
+        height: pkg.height
+      }
+    }
+  }
+
+  const handleClose = () => {
+    if (purchasedLabel && !confirm('A label was bought but is not recorded on the orders yet. Close anyway?')) return
+    onClose()
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={handleClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-3xl transform overflow-hidden rounded-lg bg-white shadow-xl transition-all">
+                {/* Header */}
+                <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <RectangleStackIcon className="h-6 w-6 text-indigo-600" />
+                      <div>
+                        <Dialog.Title className="text-lg font-semibold text-gray-900">
+                          Combine Orders for {group.customerName}
+                        </Dialog.Title>
+                        <p className="text-sm text-gray-500 mt-1">
+                          {step === 'review' && 'Step 1: Choose orders'}
+                          {step === 'package' && 'Step 2: Package'}
+                          {step === 'rates' && 'Step 3: Select shipping rate'}
+                        </p>
+                      </div>
+                    </div>
+                    <button onClick={handleClose} className="text-gray-400 hover:text-gray-500">
+                      <XMarkIcon className="h-6 w-6" />
+                    </button>
+                  </div>
+                </div>
+
+                {/* Content */}
+                <div className="px-6 py-6 space-y-6 max-h-[70vh] overflow-y-auto">
+                  {step === 'review' && (
+                    <div className="space-y-4">
+                      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                        <h3 className="text-sm font-medium text-yellow-900 mb-2">Shipping Address</h3>
+                        <p className="text-sm text-yellow-800">
+                          {orderAddress.streetAddress}
+                          {orderAddress.secondaryAddress && <>, {orderAddress.secondaryAddress}</>}
+                          <br />
+                          {orderAddress.city}, {orderAddress.state} {orderAddress.zipCode}
+                        </p>
+                      </div>
+
+                      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                        {detailedOrders.map(order => (
+                          <li key={order.id} className="p-4">
+                            <label className="flex items-start gap-3 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={includedIds.has(order.id)}
+                                onChange={() => toggleOrder(order.id)}
+                                className="mt-0.5 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                              />
+                              <div className="flex-1">
+                                <div className="flex justify-between text-sm">
+                                  <span className="font-medium text-gray-900">
+                                    #{order.orderNumber}
+                                    <span className="ml-2 font-normal text-gray-500">{order.platform}</span>
+                                  </span>
+                                  <span className="text-gray-500">
+                                    {formatDate(order.orderDate)} • {formatCurrency(order.totalAmount, order.currency)}
+                                  </span>
+                                </div>
+                                <ul className="mt-1 text-sm text-gray-600">
+                                  {getShippableLines(order).map(item => (
+                                    <li key={item.id}>
+                                      {getUnfulfilledQuantity(item)} × {item.name} ({item.variantSku || item.sku})
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            </label>
+                          </li>
+                        ))}
+                      </ul>
+
+                      <button
+                        type="button"
+                        onClick={handlePrintPackingSlip}
+                        disabled={includedOrders.length === 0}
+                        className="inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-700 disabled:opacity-50"
+                      >
+                        <PrinterIcon className="h-4 w-4 mr-1" />
+                        Print combined packing slip
+                      </button>
+                    </div>
+                  )}
+
+                  {step === 'package' && (
+                    <div className="space-y-4">
+                      {validatedAddress && (
+                        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                          <div className="flex items-start">
+                            <CheckCircleIcon className="h-5 w-5 text-green-600 mt-0.5 mr-2" />
+                            <p className="text-sm text-green-800">
+                              {validatedAddress.streetAddress}
+                              {validatedAddress.secondaryAddress && <>, {validatedAddress.secondaryAddress}</>}
+                              <br />
+                              {validatedAddress.city}, {validatedAddress.state} {validatedAddress.zipCode}
+                            </p>
+                          </div>
+                        </div>
+                      )}
+
+                      <p className="text-sm text-gray-600">
+                        Everything left to ship on {includedOrders.length} orders goes in one parcel.
+                      </p>
+
+                      <select
+                        value={pkg.boxId || ''}
+                        onChange={(e) => handleSelectBox(e.target.value)}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="">Custom box</option>
+                        {boxes.map(box => (
+                          <option key={box.id} value={box.id}>{box.name}</option>
+                        ))}
+                      </select>
+
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {([
+                          ['weight', 'Weight (oz) *'],
+                          ['length', 'Length (in) *'],
+                          ['width', 'Width (in) *'],
+                          ['height', 'Height (in) *']
+                        ] as const).map(([field, label]) => (
+                          <div key={field}>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                            <input
+                              type="number"
+                              value={pkg[field]}
+                              onChange={(e) => setPkg(prev => ({ ...prev, [field]: Number(e.target.value) }))}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                              min="1"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {step === 'rates' && (
+                    <div className="space-y-2">
+                      {rates.length === 0 ? (
+                        <p className="text-sm text-gray-500 text-center py-4">No rates available</p>
+                      ) : rates.map((rate, index) => (
+                        <div
+                          key={index}
+                          onClick={() => {
+                            if (!purchasedLabel) setSelectedRate(rate)
+                          }}
+                          className={`border-2 rounded-lg p-3 cursor-pointer transition-colors ${
+                            selectedRate === rate ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                          }`}
+                        >
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <p className="font-medium text-gray-900">{rate.mailClass.replace(/_/g, ' ')}</p>
+                              <p className="text-sm text-gray-500">
+                                Zone {rate.zone}
+                                {rate.deliveryDays && ` • ${rate.deliveryDays} days`}
+                              </p>
+                            </div>
+                            <p className="text-xl font-bold text-gray-900">${rate.rate.toFixed(2)}</p>
+                          </div>
+                        </div>
+                      ))}
+                      <p className="pt-2 text-sm text-gray-500">
+                        The tracking number is added to {includedOrders.map(order => `#${order.orderNumber}`).join(', ')} and
+                        pushed to each order&apos;s store.
+                      </p>
+                    </div>
+                  )}
+
+                  {error && (
+                    <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                      <p className="text-sm text-red-800">{error}</p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Footer */}
+                <div className="bg-gray-50 px-6 py-4 border-t border-gray-200 flex justify-between">
+                  <button
+                    onClick={() => {
+                      if (step === 'package') setStep('review')
+                      else if (step === 'rates') setStep('package')
+                      else handleClose()
+                    }}
+                    disabled={loading || (step === 'rates' && !!purchasedLabel)}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {step === 'review' ? 'Cancel' : 'Back'}
+                  </button>
+
+                  {step === 'review' && (
+                    <button
+                      onClick={handleValidateAddress}
+                      disabled={loading || includedOrders.length < 2}
+                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {loading ? 'Validating...' : `Combine ${includedOrders.length} Orders`}
+                    </button>
+                  )}
+
+                  {step === 'package' && (
+                    <button
+                      onClick={handleCalculateRates}
+                      disabled={loading}
+                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {loading ? 'Calculating...' : 'Calculate Rates'}
+                    </button>
+                  )}
+
+                  {step === 'rates' && (
+                    <button
+                      onClick={handleGenerateLabel}
+                      disabled={loading || !selectedRate}
+                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {loading ? 'Generating...' : purchasedLabel ? 'Retry Recording Shipment' : 'Generate Label'}
+                    </button>
+                  )}
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
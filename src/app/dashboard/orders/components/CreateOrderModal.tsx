@@ -0,0 +1,451 @@
+//file path: app/dashboard/orders/components/CreateOrderModal.tsx
+
+'use client'
+
+import { Fragment, useState, useEffect, useMemo } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon, PlusCircleIcon } from '@heroicons/react/24/outline'
+import OrderItemsEditor from './OrderItemsEditor'
+import AddressFields, { getMissingAddressFields } from './AddressFields'
+import { Address, Order, OrderItem } from '../utils/orderTypes'
+import { EMPTY_ADDRESS, calculateOrderTotals, validateLineItems } from '../utils/orderEditing'
+import { formatCurrency } from '../utils/orderUtils'
+import { MANUAL_ORDER_SOURCES } from '../constants/orderConstants'
+import { useProducts } from '../../products/hooks/useProducts'
+import { Store } from '../../stores/utils/storeTypes'
+import { Warehouse } from '../../warehouses/utils/warehouseTypes'
+import { OrderAPI, ManualOrderSource } from '@/lib/api/orderApi'
+
+interface CreateOrderModalProps {
+  isOpen: boolean
+  onClose: () => void
+  stores: Store[]
+  warehouses: Warehouse[]
+  defaultWarehouseId?: string
+  onOrderCreated: (order: Order) => void
+}
+
+const CURRENCY_OPTIONS = ['USD', 'EUR', 'GBP', 'CAD', 'AUD']
+
+const inputClassName = 'block w-full rounded-md border-0 py-1.5 px-2 text-sm text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600'
+
+export default function CreateOrderModal({
+  isOpen,
+  onClose,
+  stores,
+  warehouses,
+  defaultWarehouseId,
+  onOrderCreated
+}: CreateOrderModalProps) {
+  const [source, setSource] = useState<ManualOrderSource>('phone')
+  const [storeId, setStoreId] = useState('')
+  const [warehouseId, setWarehouseId] = useState('')
+  const [replacementFor, setReplacementFor] = useState('')
+  const [customerName, setCustomerName] = useState('')
+  const [customerEmail, setCustomerEmail] = useState('')
+  const [shippingAddress, setShippingAddress] = useState<Address>(EMPTY_ADDRESS)
+  const [billingAddress, setBillingAddress] = useState<Address>(EMPTY_ADDRESS)
+  const [billingSameAsShipping, setBillingSameAsShipping] = useState(true)
+  const [items, setItems] = useState<OrderItem[]>([])
+  const [currency, setCurrency] = useState('USD')
+  const [discountCode, setDiscountCode] = useState('')
+  const [discountAmount, setDiscountAmount] = useState(0)
+  const [shippingMethod, setShippingMethod] = useState('Standard')
+  const [shippingCost, setShippingCost] = useState(0)
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { products, loading: productsLoading } = useProducts(warehouseId || undefined)
+
+  // Reset form each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return
+    setSource('phone')
+    setStoreId(stores.length === 1 ? stores[0].id : '')
+    setWarehouseId(defaultWarehouseId || '')
+    setReplacementFor('')
+    setCustomerName('')
+    setCustomerEmail('')
+    setShippingAddress(EMPTY_ADDRESS)
+    setBillingAddress(EMPTY_ADDRESS)
+    setBillingSameAsShipping(true)
+    setItems([])
+    setCurrency('USD')
+    setDiscountCode('')
+    setDiscountAmount(0)
+    setShippingMethod('Standard')
+    setShippingCost(0)
+    setNotes('')
+  }, [isOpen, stores, defaultWarehouseId])
+
+  // Replacements ship at no charge by default
+  useEffect(() => {
+    if (source !== 'replacement') return
+    setItems(prev => prev.map(item => ({ ...item, discount: item.price })))
+    setShippingCost(0)
+  }, [source])
+
+  const totals = useMemo(
+    () => calculateOrderTotals(items, shippingCost, discountAmount),
+    [items, shippingCost, discountAmount]
+  )
+
+  const handleItemsChange = (nextItems: OrderItem[]) => {
+    setItems(nextItems.map(item =>
+      source === 'replacement' && !items.some(existing => existing.id === item.id)
+        ? { ...item, discount: item.price }
+        : item
+    ))
+  }
+
+  const handleCreate = async () => {
+    const itemsError = validateLineItems(items)
+    if (itemsError) {
+      alert(itemsError)
+      return
+    }
+    if (!customerName.trim()) {
+      alert('Customer name is required')
+      return
+    }
+
+    const missingShipping = getMissingAddressFields(shippingAddress)
+    if (missingShipping.length > 0) {
+      alert(`Shipping address is missing: ${missingShipping.join(', ')}`)
+      return
+    }
+    const billing = billingSameAsShipping ? shippingAddress : billingAddress
+    const missingBilling = getMissingAddressFields(billing)
+    if (missingBilling.length > 0) {
+      alert(`Billing address is missing: ${missingBilling.join(', ')}`)
+      return
+    }
+    if (source === 'replacement' && !replacementFor.trim()) {
+      alert('Enter the order number this order replaces')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const order = await OrderAPI.createOrder({
+        source,
+        storeId: storeId || undefined,
+        warehouseId: warehouseId || undefined,
+        replacementForOrderNumber: source === 'replacement' ? replacementFor.trim() : undefined,
+        customerName: customerName.trim(),
+        customerEmail: customerEmail.trim(),
+        shippingAddress,
+        billingAddress: billing,
+        items: items.map(item => ({ ...item, currency })),
+        currency,
+        shippingMethod,
+        shippingCost: totals.shipping,
+        discounts: totals.orderDiscount > 0
+          ? [{
+              code: discountCode.trim() || 'MANUAL',
+              amount: totals.orderDiscount,
+              description: 'Order discount',
+              type: 'fixed'
+            }]
+          : [],
+        subtotal: totals.subtotal,
+        taxAmount: totals.tax,
+        totalAmount: totals.total,
+        notes: notes.trim() || undefined
+      })
+
+      onOrderCreated(order)
+      onClose()
+    } catch (error) {
+      console.error('Failed to create order:', error)
+      alert(error instanceof Error ? error.message : 'Failed to create order')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-4xl transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                  <div className="flex items-center gap-2">
+                    <PlusCircleIcon className="h-6 w-6 text-indigo-600" />
+                    <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                      Create Order
+                    </Dialog.Title>
+                  </div>
+                  <button onClick={onClose} className="rounded-md bg-white text-gray-400 hover:text-gray-500">
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="max-h-[70vh] overflow-y-auto px-6 py-4 space-y-6">
+                  {/* Order source */}
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Order type</label>
+                      <select
+                        value={source}
+                        onChange={(e) => setSource(e.target.value as ManualOrderSource)}
+                        className={inputClassName}
+                      >
+                        {MANUAL_ORDER_SOURCES.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Store</label>
+                      <select value={storeId} onChange={(e) => setStoreId(e.target.value)} className={inputClassName}>
+                        <option value="">No store</option>
+                        {stores.map(store => (
+                          <option key={store.id} value={store.id}>{store.storeName}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Fulfill from</label>
+                      <select value={warehouseId} onChange={(e) => setWarehouseId(e.target.value)} className={inputClassName}>
+                        <option value="">Assign automatically</option>
+                        {warehouses.map(warehouse => (
+                          <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {source === 'replacement' && (
+                      <div className="col-span-3">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Replaces order # *</label>
+                        <input
+                          type="text"
+                          value={replacementFor}
+                          onChange={(e) => setReplacementFor(e.target.value)}
+                          placeholder="e.g. 1042"
+                          className={inputClassName}
+                        />
+                        <p className="mt-1 text-xs text-gray-500">Replacement items are added at no charge; adjust prices if needed.</p>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Customer */}
+                  <div>
+                    <h4 className="text-sm font-semibold text-gray-900 mb-3">Customer</h4>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Name *</label>
+                        <input
+                          type="text"
+                          value={customerName}
+                          onChange={(e) => {
+                            setCustomerName(e.target.value)
+                            // Pre-fill the recipient until it's edited separately
+                            const [firstName = '', ...rest] = e.target.value.split(' ')
+                            if (!shippingAddress.address1) {
+                              setShippingAddress(prev => ({ ...prev, firstName, lastName: rest.join(' ') }))
+                            }
+                          }}
+                          className={inputClassName}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Email</label>
+                        <input
+                          type="email"
+                          value={customerEmail}
+                          onChange={(e) => setCustomerEmail(e.target.value)}
+                          className={inputClassName}
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Addresses */}
+                  <div className="grid grid-cols-2 gap-6">
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-900 mb-3">Shipping address</h4>
+                      <AddressFields address={shippingAddress} onChange={setShippingAddress} idPrefix="create-shipping" />
+                    </div>
+                    <div>
+                      <div className="flex items-center justify-between mb-3">
+                        <h4 className="text-sm font-semibold text-gray-900">Billing address</h4>
+                        <label className="flex items-center gap-2 text-xs text-gray-600">
+                          <input
+                            type="checkbox"
+                            checked={billingSameAsShipping}
+                            onChange={(e) => setBillingSameAsShipping(e.target.checked)}
+                            className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-600"
+                          />
+                          Same as shipping
+                        </label>
+                      </div>
+                      {!billingSameAsShipping && (
+                        <AddressFields address={billingAddress} onChange={setBillingAddress} idPrefix="create-billing" />
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Items */}
+                  <div>
+                    <div className="flex items-center justify-between mb-3">
+                      <h4 className="text-sm font-semibold text-gray-900">Items</h4>
+                      <select
+                        value={currency}
+                        onChange={(e) => setCurrency(e.target.value)}
+                        className="rounded-md border-0 py-1 pl-2 pr-8 text-xs text-gray-900 ring-1 ring-inset ring-gray-300"
+                      >
+                        {CURRENCY_OPTIONS.map(code => (
+                          <option key={code} value={code}>{code}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <OrderItemsEditor
+                      items={items}
+                      onChange={handleItemsChange}
+                      products={products}
+                      productsLoading={productsLoading}
+                      currency={currency}
+                      warehouseId={warehouseId || undefined}
+                    />
+                  </div>
+
+                  {/* Shipping, discount and totals */}
+                  <div className="grid grid-cols-2 gap-6">
+                    <div className="space-y-3">
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-xs font-medium text-gray-700 mb-1">Shipping method</label>
+                          <input
+                            type="text"
+                            value={shippingMethod}
+                            onChange={(e) => setShippingMethod(e.target.value)}
+                            className={inputClassName}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-700 mb-1">Shipping cost</label>
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={shippingCost}
+                            onChange={(e) => setShippingCost(Math.max(0, Number(e.target.value) || 0))}
+                            className={inputClassName}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-700 mb-1">Discount code</label>
+                          <input
+                            type="text"
+                            value={discountCode}
+                            onChange={(e) => setDiscountCode(e.target.value)}
+                            placeholder="Optional"
+                            className={inputClassName}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-700 mb-1">Order discount</label>
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={discountAmount}
+                            onChange={(e) => setDiscountAmount(Math.max(0, Number(e.target.value) || 0))}
+                            className={inputClassName}
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
+                        <textarea
+                          rows={2}
+                          value={notes}
+                          onChange={(e) => setNotes(e.target.value)}
+                          className={inputClassName}
+                        />
+                      </div>
+                    </div>
+
+                    <dl className="rounded-lg bg-gray-50 p-4 text-sm space-y-1.5 self-start">
+                      <div className="flex justify-between">
+                        <dt className="text-gray-600">Subtotal</dt>
+                        <dd className="text-gray-900">{formatCurrency(totals.subtotal, currency)}</dd>
+                      </div>
+                      {totals.itemDiscounts > 0 && (
+                        <div className="flex justify-between">
+                          <dt className="text-gray-600">Item discounts</dt>
+                          <dd className="text-green-600">-{formatCurrency(totals.itemDiscounts, currency)}</dd>
+                        </div>
+                      )}
+                      {totals.orderDiscount > 0 && (
+                        <div className="flex justify-between">
+                          <dt className="text-gray-600">Order discount</dt>
+                          <dd className="text-green-600">-{formatCurrency(totals.orderDiscount, currency)}</dd>
+                        </div>
+                      )}
+                      <div className="flex justify-between">
+                        <dt className="text-gray-600">Tax</dt>
+                        <dd className="text-gray-900">{formatCurrency(totals.tax, currency)}</dd>
+                      </div>
+                      <div className="flex justify-between">
+                        <dt className="text-gray-600">Shipping</dt>
+                        <dd className="text-gray-900">{formatCurrency(totals.shipping, currency)}</dd>
+                      </div>
+                      <div className="flex justify-between border-t border-gray-200 pt-1.5 font-semibold">
+                        <dt className="text-gray-900">Total</dt>
+                        <dd className="text-gray-900">{formatCurrency(totals.total, currency)}</dd>
+                      </div>
+                    </dl>
+                  </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-3 border-t border-gray-200 bg-gray-50 px-6 py-4">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleCreate}
+                    disabled={isSaving || items.length === 0}
+                    className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSaving ? 'Creating...' : 'Create Order'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
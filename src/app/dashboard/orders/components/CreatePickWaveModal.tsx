@@ -0,0 +1,329 @@
+//file path: app/dashboard/orders/components/CreatePickWaveModal.tsx
+
+'use client'
+
+import { Fragment, useState, useEffect, useMemo } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon, QueueListIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import { Order } from '../utils/orderTypes'
+import { Warehouse } from '../../warehouses/utils/warehouseTypes'
+import { useProducts } from '../../products/hooks/useProducts'
+import { UsersAPI, User } from '@/lib/api/usersApi'
+import { PickWave, PickWaveRules, CreatePickWaveData } from '@/lib/api/pickWaveApi'
+import {
+  DEFAULT_PICK_WAVE_RULES,
+  getOrderWaveMap,
+  assignToteSlots,
+  buildWaveData,
+  buildWavesFromRules
+} from '../utils/pickWaveUtils'
+
+type WaveMode = 'selection' | 'rules'
+
+interface CreatePickWaveModalProps {
+  isOpen: boolean
+  onClose: () => void
+  warehouse: Warehouse | null
+  selectedOrders: Order[]        // Orders selected on the orders page
+  pickableOrders: Order[]        // Orders eligible for auto-built waves
+  existingWaves: PickWave[]
+  initialMode?: WaveMode
+  onCreateWaves: (waves: CreatePickWaveData[]) => Promise<void>
+}
+
+export default function CreatePickWaveModal({
+  isOpen,
+  onClose,
+  warehouse,
+  selectedOrders,
+  pickableOrders,
+  existingWaves,
+  initialMode = 'selection',
+  onCreateWaves
+}: CreatePickWaveModalProps) {
+  const [mode, setMode] = useState<WaveMode>(initialMode)
+  const [name, setName] = useState('')
+  const [pickerId, setPickerId] = useState('')
+  const [rules, setRules] = useState<PickWaveRules>(DEFAULT_PICK_WAVE_RULES)
+  const [pickers, setPickers] = useState<User[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { products } = useProducts(warehouse?.id)
+
+  // Reset form each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return
+    setMode(initialMode)
+    setName(`Wave ${new Date().toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`)
+    setPickerId('')
+    setRules(DEFAULT_PICK_WAVE_RULES)
+  }, [isOpen, initialMode])
+
+  // Load users that can be assigned as pickers
+  useEffect(() => {
+    if (!isOpen) return
+
+    UsersAPI.getUsers()
+      .then(users => setPickers(users.filter(u => u.status === 'ACTIVE' && u.role !== 'VIEWER' && u.role !== 'ACCOUNTANT')))
+      .catch(err => {
+        console.error('[CreatePickWaveModal] Error loading pickers:', err)
+        setPickers([])
+      })
+  }, [isOpen])
+
+  const orderWaveMap = useMemo(() => getOrderWaveMap(existingWaves), [existingWaves])
+
+  // Selected orders already in an active wave are left out
+  const alreadyWaved = selectedOrders.filter(order => orderWaveMap.has(order.id))
+  const selectionOrders = selectedOrders.filter(order => !orderWaveMap.has(order.id))
+
+  const plannedWaves = useMemo(() => {
+    if (mode !== 'rules') return []
+    return buildWavesFromRules(pickableOrders, rules, existingWaves)
+  }, [mode, pickableOrders, rules, existingWaves])
+
+  const canCreate = mode === 'selection'
+    ? selectionOrders.length > 0 && name.trim() !== ''
+    : plannedWaves.length > 0
+
+  const handleCreate = async () => {
+    if (!warehouse || !canCreate) return
+
+    const context = { warehouse, products }
+    const assignedPickerId = pickerId || null
+
+    const waves = mode === 'selection'
+      ? [buildWaveData(warehouse.id, name.trim(), selectionOrders, { source: 'manual', assignedPickerId, context })]
+      : plannedWaves.map(wave => buildWaveData(warehouse.id, wave.name, wave.orders, { source: 'rules', assignedPickerId, context }))
+
+    try {
+      setIsSaving(true)
+      await onCreateWaves(waves)
+      onClose()
+    } catch (err: any) {
+      alert(err.message || 'Failed to create pick wave')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-2xl transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                  <div className="flex items-center">
+                    <QueueListIcon className="h-5 w-5 text-indigo-600 mr-2" />
+                    <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                      Create Pick Wave
+                    </Dialog.Title>
+                  </div>
+                  <button onClick={onClose} className="rounded-md bg-white text-gray-400 hover:text-gray-500">
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="px-6 py-4 space-y-5">
+                  {/* Mode */}
+                  <div className="flex rounded-md shadow-sm">
+                    <button
+                      type="button"
+                      onClick={() => setMode('selection')}
+                      className={`flex-1 rounded-l-md px-3 py-2 text-sm font-medium ring-1 ring-inset ring-gray-300 ${
+                        mode === 'selection' ? 'bg-indigo-600 text-white ring-indigo-600' : 'bg-white text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      Selected orders ({selectedOrders.length})
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setMode('rules')}
+                      className={`-ml-px flex-1 rounded-r-md px-3 py-2 text-sm font-medium ring-1 ring-inset ring-gray-300 ${
+                        mode === 'rules' ? 'bg-indigo-600 text-white ring-indigo-600' : 'bg-white text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      Auto-build from rules
+                    </button>
+                  </div>
+
+                  {mode === 'selection' ? (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Wave name</label>
+                        <input
+                          type="text"
+                          value={name}
+                          onChange={(e) => setName(e.target.value)}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        />
+                      </div>
+
+                      {alreadyWaved.length > 0 && (
+                        <div className="rounded-md bg-amber-50 border border-amber-200 p-3 flex items-start">
+                          <ExclamationTriangleIcon className="h-5 w-5 text-amber-500 flex-shrink-0" />
+                          <p className="ml-2 text-sm text-amber-800">
+                            {alreadyWaved.length} selected order{alreadyWaved.length !== 1 ? 's are' : ' is'} already in an active wave and will be skipped:{' '}
+                            {alreadyWaved.map(o => `${o.orderNumber} (${orderWaveMap.get(o.id)?.name})`).join(', ')}
+                          </p>
+                        </div>
+                      )}
+
+                      <div>
+                        <p className="text-sm font-medium text-gray-700 mb-2">Tote slots</p>
+                        {selectionOrders.length === 0 ? (
+                          <p className="text-sm text-gray-500">No orders available for a new wave.</p>
+                        ) : (
+                          <div className="max-h-48 overflow-y-auto rounded-md border border-gray-200 divide-y divide-gray-100">
+                            {assignToteSlots(selectionOrders).map(order => (
+                              <div key={order.orderId} className="flex items-center justify-between px-3 py-2 text-sm">
+                                <span className="text-gray-900">{order.orderNumber}</span>
+                                <span className="inline-flex items-center rounded-full bg-indigo-100 px-2.5 py-0.5 text-xs font-medium text-indigo-800">
+                                  Tote {order.toteSlot}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">Max orders per wave</label>
+                          <input
+                            type="number"
+                            min={1}
+                            value={rules.maxOrdersPerWave}
+                            onChange={(e) => setRules(prev => ({ ...prev, maxOrdersPerWave: Math.max(1, parseInt(e.target.value) || 1) }))}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">Max items per wave</label>
+                          <input
+                            type="number"
+                            min={1}
+                            placeholder="No limit"
+                            value={rules.maxItemsPerWave ?? ''}
+                            onChange={(e) => setRules(prev => ({ ...prev, maxItemsPerWave: e.target.value ? Math.max(1, parseInt(e.target.value) || 1) : null }))}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">Group orders by</label>
+                          <select
+                            value={rules.groupBy}
+                            onChange={(e) => setRules(prev => ({ ...prev, groupBy: e.target.value as PickWaveRules['groupBy'] }))}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                          >
+                            <option value="none">No grouping</option>
+                            <option value="shippingMethod">Shipping method</option>
+                            <option value="store">Store</option>
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">Name prefix</label>
+                          <input
+                            type="text"
+                            value={rules.namePrefix}
+                            onChange={(e) => setRules(prev => ({ ...prev, namePrefix: e.target.value }))}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                          />
+                        </div>
+                      </div>
+
+                      <div>
+                        <p className="text-sm font-medium text-gray-700 mb-2">
+                          Preview ({plannedWaves.length} wave{plannedWaves.length !== 1 ? 's' : ''})
+                        </p>
+                        {plannedWaves.length === 0 ? (
+                          <p className="text-sm text-gray-500">No orders waiting to be picked outside of active waves.</p>
+                        ) : (
+                          <div className="max-h-48 overflow-y-auto rounded-md border border-gray-200 divide-y divide-gray-100">
+                            {plannedWaves.map(wave => (
+                              <div key={wave.name} className="px-3 py-2 text-sm">
+                                <p className="font-medium text-gray-900">{wave.name}</p>
+                                <p className="text-xs text-gray-500">
+                                  {wave.orders.length} orders • {wave.orders.reduce((sum, o) => sum + (o.itemCount || 0), 0)} items
+                                </p>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </>
+                  )}
+
+                  {/* Picker */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Assign picker</label>
+                    <select
+                      value={pickerId}
+                      onChange={(e) => setPickerId(e.target.value)}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    >
+                      <option value="">Unassigned</option>
+                      {pickers.map(user => (
+                        <option key={user.id} value={user.id}>
+                          {user.name || user.email}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-3 border-t border-gray-200 bg-gray-50 px-6 py-4">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleCreate}
+                    disabled={!canCreate || isSaving || !warehouse}
+                    className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSaving
+                      ? 'Creating...'
+                      : mode === 'rules'
+                      ? `Create ${plannedWaves.length} Wave${plannedWaves.length !== 1 ? 's' : ''}`
+                      : 'Create Wave'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
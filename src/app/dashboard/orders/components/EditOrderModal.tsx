@@ -0,0 +1,278 @@
+//file path: app/dashboard/orders/components/EditOrderModal.tsx
+
+'use client'
+
+import { Fragment, useState, useEffect, useMemo } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon, PencilSquareIcon, ClockIcon } from '@heroicons/react/24/outline'
+import OrderItemsEditor from './OrderItemsEditor'
+import AddressFields, { getMissingAddressFields } from './AddressFields'
+import { Address, Order, OrderItem, OrderWithDetails } from '../utils/orderTypes'
+import {
+  calculateEditedOrderTotal,
+  describeOrderEditChange,
+  diffOrderEdits,
+  validateLineItems
+} from '../utils/orderEditing'
+import { formatCurrency } from '../utils/orderUtils'
+import { useProducts } from '../../products/hooks/useProducts'
+import { OrderAPI, OrderEdit } from '@/lib/api/orderApi'
+
+type EditTab = 'items' | 'addresses' | 'history'
+
+interface EditOrderModalProps {
+  isOpen: boolean
+  onClose: () => void
+  order: OrderWithDetails | null
+  onOrderUpdated: (order: Order) => void
+}
+
+export default function EditOrderModal({ isOpen, onClose, order, onOrderUpdated }: EditOrderModalProps) {
+  const [tab, setTab] = useState<EditTab>('items')
+  const [items, setItems] = useState<OrderItem[]>([])
+  const [shippingAddress, setShippingAddress] = useState<Address | null>(null)
+  const [billingAddress, setBillingAddress] = useState<Address | null>(null)
+  const [reason, setReason] = useState('')
+  const [history, setHistory] = useState<OrderEdit[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { products, loading: productsLoading } = useProducts(order?.warehouseId)
+
+  // Start from the order's current state each time the modal opens
+  useEffect(() => {
+    if (!isOpen || !order) return
+    setTab('items')
+    setItems(order.items)
+    setShippingAddress(order.shippingAddress)
+    setBillingAddress(order.billingAddress)
+    setReason('')
+
+    setHistoryLoading(true)
+    OrderAPI.getOrderEdits(order.id)
+      .then(setHistory)
+      .catch(error => {
+        console.error('Failed to load order edit history:', error)
+        setHistory([])
+      })
+      .finally(() => setHistoryLoading(false))
+  }, [isOpen, order])
+
+  const changes = useMemo(() => {
+    if (!order || !shippingAddress || !billingAddress) return []
+    return diffOrderEdits(order, { items, shippingAddress, billingAddress })
+  }, [order, items, shippingAddress, billingAddress])
+
+  const newTotal = useMemo(() => order ? calculateEditedOrderTotal(order, items) : null, [order, items])
+  const itemsChanged = changes.some(change => change.type.startsWith('item_'))
+
+  if (!order || !shippingAddress || !billingAddress) return null
+
+  const handleSave = async () => {
+    if (changes.length === 0) {
+      onClose()
+      return
+    }
+
+    const itemsError = validateLineItems(items)
+    if (itemsError) {
+      alert(itemsError)
+      return
+    }
+    const missingShipping = getMissingAddressFields(shippingAddress)
+    if (missingShipping.length > 0) {
+      alert(`Shipping address is missing: ${missingShipping.join(', ')}`)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const updated = await OrderAPI.editOrder(order.id, {
+        items,
+        shippingAddress,
+        billingAddress,
+        // Address-only edits leave the total alone
+        totalAmount: itemsChanged && newTotal != null ? newTotal : undefined,
+        changes,
+        reason: reason.trim() || undefined
+      })
+
+      onOrderUpdated(updated)
+      onClose()
+    } catch (error) {
+      console.error('Failed to edit order:', error)
+      alert(error instanceof Error ? error.message : 'Failed to save order changes')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const tabs: { id: EditTab; label: string }[] = [
+    { id: 'items', label: 'Items' },
+    { id: 'addresses', label: 'Addresses' },
+    { id: 'history', label: `History${history.length ? ` (${history.length})` : ''}` }
+  ]
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-4xl transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                  <div className="flex items-center gap-2">
+                    <PencilSquareIcon className="h-6 w-6 text-indigo-600" />
+                    <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                      Edit Order #{order.orderNumber}
+                    </Dialog.Title>
+                  </div>
+                  <button onClick={onClose} className="rounded-md bg-white text-gray-400 hover:text-gray-500">
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="border-b border-gray-200 px-6">
+                  <nav className="-mb-px flex gap-6">
+                    {tabs.map(t => (
+                      <button
+                        key={t.id}
+                        type="button"
+                        onClick={() => setTab(t.id)}
+                        className={`border-b-2 py-3 text-sm font-medium ${
+                          tab === t.id
+                            ? 'border-indigo-500 text-indigo-600'
+                            : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                        }`}
+                      >
+                        {t.label}
+                      </button>
+                    ))}
+                  </nav>
+                </div>
+
+                <div className="max-h-[65vh] overflow-y-auto px-6 py-4">
+                  {tab === 'items' && (
+                    <div className="space-y-4">
+                      <OrderItemsEditor
+                        items={items}
+                        onChange={setItems}
+                        products={products}
+                        productsLoading={productsLoading}
+                        currency={order.currency}
+                        warehouseId={order.warehouseId}
+                      />
+                      {newTotal != null && (
+                        <div className="flex justify-end text-sm">
+                          <div className="text-right">
+                            <p className="text-gray-500">
+                              Current total: {formatCurrency(order.totalAmount, order.currency)}
+                            </p>
+                            <p className="font-semibold text-gray-900">
+                              New total: {formatCurrency(newTotal, order.currency)}
+                            </p>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {tab === 'addresses' && (
+                    <div className="grid grid-cols-2 gap-6">
+                      <div>
+                        <h4 className="text-sm font-semibold text-gray-900 mb-3">Shipping address</h4>
+                        <AddressFields address={shippingAddress} onChange={setShippingAddress} idPrefix="edit-shipping" />
+                      </div>
+                      <div>
+                        <h4 className="text-sm font-semibold text-gray-900 mb-3">Billing address</h4>
+                        <AddressFields address={billingAddress} onChange={setBillingAddress} idPrefix="edit-billing" />
+                      </div>
+                    </div>
+                  )}
+
+                  {tab === 'history' && (
+                    historyLoading ? (
+                      <p className="py-6 text-center text-sm text-gray-500">Loading history...</p>
+                    ) : history.length === 0 ? (
+                      <p className="py-6 text-center text-sm text-gray-500">This order hasn&apos;t been edited</p>
+                    ) : (
+                      <ul className="space-y-4">
+                        {history.map(edit => (
+                          <li key={edit.id} className="flex gap-3">
+                            <ClockIcon className="mt-0.5 h-5 w-5 flex-shrink-0 text-gray-400" />
+                            <div className="text-sm">
+                              <p className="text-gray-900">
+                                {edit.editedByName || 'Someone'}
+                                <span className="text-gray-500"> • {new Date(edit.editedAt).toLocaleString()}</span>
+                              </p>
+                              {edit.reason && <p className="text-gray-600 italic">{edit.reason}</p>}
+                              <ul className="mt-1 list-disc pl-5 text-gray-700">
+                                {edit.changes.map((change, index) => (
+                                  <li key={index}>{describeOrderEditChange(change)}</li>
+                                ))}
+                              </ul>
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    )
+                  )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center gap-3 border-t border-gray-200 bg-gray-50 px-6 py-4">
+                  <input
+                    type="text"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Reason for change (optional)"
+                    className="flex-1 rounded-md border-0 py-1.5 px-2 text-sm text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600"
+                  />
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {changes.length} change{changes.length !== 1 ? 's' : ''}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={isSaving || changes.length === 0}
+                    className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSaving ? 'Saving...' : 'Save Changes'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,141 @@
+//file path: app/dashboard/orders/components/OrderActivityTimeline.tsx
+
+'use client'
+
+import { useState, useEffect } from 'react'
+import { CheckCircleIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline'
+import { OrderAPI, OrderActivityEvent, OrderActivitySource } from '@/lib/api/orderApi'
+import {
+  ACTIVITY_SOURCE_LABELS,
+  ACTIVITY_SOURCE_COLORS,
+  ACTIVITY_TYPE_LABELS,
+  describeActivityChange
+} from '../utils/orderActivity'
+
+interface OrderActivityTimelineProps {
+  orderId: string
+  isOpen: boolean
+}
+
+/**
+ * Audit history for an order - every change with who/what made it,
+ * before/after values and the store sync result
+ */
+export default function OrderActivityTimeline({ orderId, isOpen }: OrderActivityTimelineProps) {
+  const [events, setEvents] = useState<OrderActivityEvent[]>([])
+  const [loading, setLoading] = useState(false)
+  const [sourceFilter, setSourceFilter] = useState<OrderActivitySource | ''>('')
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    setLoading(true)
+    OrderAPI.getActivity(orderId)
+      .then(setEvents)
+      .catch(error => {
+        console.error('[OrderActivityTimeline] Error loading activity:', error)
+        setEvents([])
+      })
+      .finally(() => setLoading(false))
+  }, [isOpen, orderId])
+
+  const sources = events
+    .map(event => event.source)
+    .filter((source, index, all) => all.indexOf(source) === index)
+  const visibleEvents = sourceFilter ? events.filter(event => event.source === sourceFilter) : events
+
+  const formatTimestamp = (value: string) => {
+    return new Date(value).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+  }
+
+  return (
+    <div className="bg-white border rounded-lg p-4 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="font-medium text-gray-900">Activity</h4>
+        {sources.length > 1 && (
+          <select
+            value={sourceFilter}
+            onChange={(e) => setSourceFilter(e.target.value as OrderActivitySource | '')}
+            className="rounded-md border-gray-300 py-1 text-xs focus:border-indigo-500 focus:ring-indigo-500"
+          >
+            <option value="">All sources</option>
+            {sources.map(source => (
+              <option key={source} value={source}>{ACTIVITY_SOURCE_LABELS[source] || source}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading activity...</p>
+      ) : visibleEvents.length === 0 ? (
+        <p className="text-sm text-gray-500">No activity recorded yet.</p>
+      ) : (
+        <ul className="-mb-4">
+          {visibleEvents.map((event, index) => (
+            <li key={event.id} className="relative pb-4 pl-6">
+              {index < visibleEvents.length - 1 && (
+                <span className="absolute left-[5px] top-4 -bottom-0 w-px bg-gray-200" aria-hidden="true" />
+              )}
+              <span
+                className={`absolute left-0 top-1.5 h-2.5 w-2.5 rounded-full ${
+                  event.integrationSync && !event.integrationSync.success ? 'bg-red-500' : 'bg-indigo-500'
+                }`}
+              />
+
+              <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+                <span className="font-medium text-gray-900">
+                  {ACTIVITY_TYPE_LABELS[event.type] || event.type}
+                </span>
+                <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${ACTIVITY_SOURCE_COLORS[event.source] || 'bg-gray-100 text-gray-700'}`}>
+                  {ACTIVITY_SOURCE_LABELS[event.source] || event.source}
+                </span>
+                {event.actorName && (
+                  <span className="text-gray-500">by {event.actorName}</span>
+                )}
+              </div>
+
+              <p className="text-xs text-gray-400">
+                {formatTimestamp(event.createdAt)}
+                {event.metadata?.topic && ` • ${event.metadata.topic}`}
+                {event.metadata?.ruleName && ` • ${event.metadata.ruleName}`}
+              </p>
+
+              {event.summary && <p className="mt-1 text-sm text-gray-600">{event.summary}</p>}
+
+              {event.changes.length > 0 && (
+                <ul className="mt-1 space-y-0.5">
+                  {event.changes.map((change, changeIndex) => (
+                    <li key={changeIndex} className="text-xs text-gray-600 font-mono break-all">
+                      {describeActivityChange(change)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {event.integrationSync && (
+                <p className={`mt-1 flex items-start text-xs ${event.integrationSync.success ? 'text-green-700' : 'text-red-700'}`}>
+                  {event.integrationSync.success
+                    ? <CheckCircleIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+                    : <ExclamationCircleIcon className="h-4 w-4 mr-1 flex-shrink-0" />}
+                  <span>
+                    Store sync {event.integrationSync.success ? 'succeeded' : 'failed'}: {event.integrationSync.message}
+                    {event.integrationSync.shopifyAction && event.integrationSync.shopifyAction !== 'no_action' &&
+                      ` (${event.integrationSync.shopifyAction.replace(/_/g, ' ')})`}
+                  </span>
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+//file path: app/dashboard/orders/components/OrderItemsEditor.tsx
+
+'use client'
+
+import { useMemo, useState } from 'react'
+import { MagnifyingGlassIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { OrderItem, calculateItemTotal } from '../utils/orderTypes'
+import { createDraftLineItem } from '../utils/orderEditing'
+import { formatCurrency } from '../utils/orderUtils'
+import { Product } from '../../products/utils/productTypes'
+
+interface OrderItemsEditorProps {
+  items: OrderItem[]
+  onChange: (items: OrderItem[]) => void
+  products: Product[]
+  productsLoading?: boolean
+  currency: string
+  warehouseId?: string
+}
+
+const MAX_SEARCH_RESULTS = 8
+
+export default function OrderItemsEditor({
+  items,
+  onChange,
+  products,
+  productsLoading = false,
+  currency,
+  warehouseId
+}: OrderItemsEditorProps) {
+  const [search, setSearch] = useState('')
+
+  const searchResults = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    if (!term) return []
+
+    return products
+      .filter(product => product.status !== 'archived' && product.type !== 'parent')
+      .filter(product =>
+        product.name.toLowerCase().includes(term) ||
+        product.sku.toLowerCase().includes(term) ||
+        product.variants?.some(v => v.sku.toLowerCase().includes(term))
+      )
+      .slice(0, MAX_SEARCH_RESULTS)
+  }, [products, search])
+
+  const handleAddProduct = (product: Product, variantId?: string) => {
+    const newItem = createDraftLineItem(product, { variantId, currency, warehouseId })
+
+    // Adding the same SKU again bumps the quantity instead of adding a line
+    const existing = items.find(item => (item.variantSku || item.sku) === (newItem.variantSku || newItem.sku))
+    if (existing) {
+      onChange(items.map(item => item === existing ? { ...item, quantity: item.quantity + 1 } : item))
+    } else {
+      onChange([...items, newItem])
+    }
+    setSearch('')
+  }
+
+  const updateItem = (itemId: string, updates: Partial<OrderItem>) => {
+    onChange(items.map(item => item.id === itemId ? { ...item, ...updates } : item))
+  }
+
+  const removeItem = (itemId: string) => {
+    onChange(items.filter(item => item.id !== itemId))
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Product / variant picker */}
+      <div className="relative">
+        <MagnifyingGlassIcon className="pointer-events-none absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={productsLoading ? 'Loading products...' : 'Search products by name or SKU to add...'}
+          disabled={productsLoading}
+          className="block w-full rounded-md border-0 py-1.5 pl-9 pr-3 text-sm text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-indigo-600"
+        />
+        {searchResults.length > 0 && (
+          <ul className="absolute z-10 mt-1 max-h-64 w-full overflow-auto rounded-md bg-white py-1 text-sm shadow-lg ring-1 ring-black ring-opacity-5">
+            {searchResults.map(product => (
+              <li key={product.id} className="px-3 py-2 border-b border-gray-100 last:border-0">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">{product.name}</p>
+                    <p className="text-xs text-gray-500">
+                      SKU: {product.sku} • {formatCurrency(product.price, product.currency || currency)} • {product.stockQuantity} in stock
+                    </p>
+                  </div>
+                  {!product.variants?.length && (
+                    <button
+                      type="button"
+                      onClick={() => handleAddProduct(product)}
+                      className="rounded bg-indigo-50 px-2 py-1 text-xs font-semibold text-indigo-600 hover:bg-indigo-100"
+                    >
+                      Add
+                    </button>
+                  )}
+                </div>
+                {!!product.variants?.length && (
+                  <div className="mt-2 flex flex-wrap gap-1.5">
+                    {product.variants.map(variant => (
+                      <button
+                        key={variant.id}
+                        type="button"
+                        onClick={() => handleAddProduct(product, variant.id)}
+                        className="rounded border border-gray-200 px-2 py-0.5 text-xs text-gray-700 hover:border-indigo-300 hover:bg-indigo-50"
+                      >
+                        {variant.name} ({variant.sku})
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Line items */}
+      {items.length === 0 ? (
+        <p className="rounded-md border border-dashed border-gray-300 py-6 text-center text-sm text-gray-500">
+          No items yet
+        </p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500">
+              <th className="py-1 pr-3 font-medium">Item</th>
+              <th className="py-1 pr-3 font-medium w-20">Qty</th>
+              <th className="py-1 pr-3 font-medium w-28">Unit price</th>
+              <th className="py-1 pr-3 font-medium w-28">Discount / unit</th>
+              <th className="py-1 pr-3 font-medium text-right w-24">Total</th>
+              <th className="w-8" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {items.map(item => (
+              <tr key={item.id}>
+                <td className="py-2 pr-3">
+                  <p className="text-gray-900">{item.name}</p>
+                  <p className="text-xs text-gray-500">
+                    SKU: {item.variantSku || item.sku}{item.variant && ` • ${item.variant}`}
+                  </p>
+                </td>
+                <td className="py-2 pr-3">
+                  <input
+                    type="number"
+                    min={1}
+                    value={item.quantity}
+                    onChange={(e) => updateItem(item.id, { quantity: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+                    className="w-full rounded-md border border-gray-300 px-2 py-1 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                  />
+                </td>
+                <td className="py-2 pr-3">
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={item.price}
+                    onChange={(e) => updateItem(item.id, { price: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-full rounded-md border border-gray-300 px-2 py-1 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                  />
+                </td>
+                <td className="py-2 pr-3">
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={item.discount || 0}
+                    onChange={(e) => updateItem(item.id, { discount: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-full rounded-md border border-gray-300 px-2 py-1 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                  />
+                </td>
+                <td className="py-2 pr-3 text-right font-medium text-gray-900">
+                  {formatCurrency(calculateItemTotal(item), currency)}
+                </td>
+                <td className="py-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => removeItem(item.id)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Remove item"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -5,12 +5,15 @@
 import { Fragment, useMemo, useState, useEffect } from 'react'
 import { Listbox, Transition } from '@headlessui/react'
 import { ChevronUpDownIcon, CheckIcon, XMarkIcon, MagnifyingGlassIcon, FunnelIcon, ArrowDownTrayIcon } from '@heroicons/react/20/solid'
-import { FilterState, Order } from '../utils/orderTypes'
-import { FILTER_OPTIONS } from '../constants/orderConstants'
+import { FilterState } from '../utils/orderTypes'
+import { FILTER_OPTIONS, ORDER_SEARCH_FIELDS } from '../constants/orderConstants'
+import { SHIP_BY_FILTER_OPTIONS } from '../utils/shipBy'
+import { ALLOCATION_FILTER_OPTIONS } from '../utils/allocation'
 import { useWarehouses } from '../../warehouses/context/WarehouseContext'
 import { useStores } from '../../stores/hooks/useStores'
 import { getStoreName } from '../utils/warehouseUtils'
 import ScreenOptions from '../../shared/components/ScreenOptions'
+import SearchQueryInput from '../../shared/components/SearchQueryInput'
 import { ColumnConfig } from '../../shared/components/ColumnSettings'
 
 interface OrdersFiltersProps {
@@ -32,7 +35,7 @@ interface OrdersFiltersProps {
   columns?: ColumnConfig[]
   onColumnVisibilityChange?: (columnId: string, visible: boolean) => void
   onResetLayout?: () => void
-  orders?: Order[]
+  viewsMenu?: React.ReactNode   // Saved views dropdown, shown next to the filter toggle
 }
 
 export default function OrdersFilters({
@@ -54,40 +57,23 @@ export default function OrdersFilters({
   columns,
   onColumnVisibilityChange,
   onResetLayout,
-  orders = []
+  viewsMenu
 }: OrdersFiltersProps) {
   const { warehouses } = useWarehouses()
 
   // Load stores from API
   const { stores } = useStores()
 
-  // NEW: Dynamically generate store options from orders
+  // Store options come from the account's stores (orders are loaded a page at a time)
   const storeOptions = useMemo(() => {
-    const storeMap = new Map<string, string>()
-
-    orders.forEach(order => {
-      // Use storeId (required) and storeName (optional)
-      const storeId = order.storeId
-      const storeName = getStoreName(storeId, stores)
-
-      if (storeId && typeof storeId === 'string' && storeId.trim() !== '') {
-        storeMap.set(storeId, storeName || storeId)
-      }
-    })
-
-    return Array.from(storeMap.entries())
-      .map(([id, name]) => ({
-        value: id || '',
-        label: name || 'Unknown Store'
+    return stores
+      .map(store => ({
+        value: store.id || '',
+        label: getStoreName(store.id, stores)
       }))
-      .filter(option => option.value && option.label) // Remove any invalid options
-      .sort((a, b) => {
-        // Safe sorting that handles undefined/null
-        const labelA = a.label || ''
-        const labelB = b.label || ''
-        return labelA.localeCompare(labelB)
-      })
-  }, [orders, stores])
+      .filter(option => option.value) // Remove any invalid options
+      .sort((a, b) => a.label.localeCompare(b.label))
+  }, [stores])
 
   // Helper function to safely render filter values
   const renderFilterValue = (value: any): string => {
@@ -142,7 +128,9 @@ export default function OrdersFilters({
     dateRange: typeof filters.dateRange === 'string' ? filters.dateRange : '',
     startDate: typeof filters.startDate === 'string' ? filters.startDate : '',
     endDate: typeof filters.endDate === 'string' ? filters.endDate : '',
-    warehouseId: typeof filters.warehouseId === 'string' ? filters.warehouseId : ''
+    warehouseId: typeof filters.warehouseId === 'string' ? filters.warehouseId : '',
+    shipBy: typeof filters.shipBy === 'string' ? filters.shipBy : '',
+    allocation: typeof filters.allocation === 'string' ? filters.allocation : ''
   }
 
   // Multi-select handler for array filters
@@ -279,25 +267,23 @@ export default function OrdersFilters({
     safeFilters.dateRange ||
     safeFilters.startDate ||
     safeFilters.endDate ||
-    (!hideWarehouseFilter && safeFilters.warehouseId)
+    (!hideWarehouseFilter && safeFilters.warehouseId) ||
+    safeFilters.shipBy ||
+    safeFilters.allocation
 
   return (
     <div className="mt-4 space-y-4">
       {/* Search Bar and Filter Toggle */}
       <div className="flex gap-4">
         <div className="flex-1">
-          <div className="relative">
-            <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-              <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" />
-            </div>
-            <input
-              type="text"
-              value={searchTerm}
-              onChange={(e) => onSearchChange(e.target.value)}
-              className="block w-full rounded-md border-gray-300 pl-10 pr-3 py-2 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-              placeholder="Search orders by customer, order number, email..."
-            />
-          </div>
+          <SearchQueryInput
+            value={searchTerm}
+            onChange={onSearchChange}
+            fields={ORDER_SEARCH_FIELDS}
+            icon={<MagnifyingGlassIcon className="h-5 w-5 text-gray-400" />}
+            className="block w-full rounded-md border-gray-300 pl-10 pr-3 py-2 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            placeholder="Search orders, or filter with sku:ABC-1 total>100 -platform:etsy..."
+          />
         </div>
         <button
           onClick={onToggleFilters}
@@ -316,11 +302,15 @@ export default function OrdersFilters({
                (safeFilters.platform?.length || 0) +
                (safeFilters.storeId?.length || 0) +
                (safeFilters.dateRange ? 1 : 0) +
-               (safeFilters.warehouseId ? 1 : 0)}
+               (safeFilters.warehouseId ? 1 : 0) +
+               (safeFilters.shipBy ? 1 : 0) +
+               (safeFilters.allocation ? 1 : 0)}
             </span>
           )}
         </button>
 
+        {viewsMenu}
+
         {optionsOpen !== undefined && onOptionsOpenChange && itemsPerPage && onItemsPerPageChange && (
           <ScreenOptions
             isOpen={optionsOpen}
@@ -411,6 +401,24 @@ export default function OrdersFilters({
               />
             )}
 
+            {/* Ship-by deadline filter */}
+            <SingleSelectFilter
+              label="Ship By"
+              value={safeFilters.shipBy}
+              options={SHIP_BY_FILTER_OPTIONS}
+              field="shipBy"
+              placeholder="Any Deadline"
+            />
+
+            {/* Stock allocation filter - "Fully allocated" leaves only orders that can be finished */}
+            <SingleSelectFilter
+              label="Stock"
+              value={safeFilters.allocation}
+              options={ALLOCATION_FILTER_OPTIONS}
+              field="allocation"
+              placeholder="Any Allocation"
+            />
+
             {/* Date Range Filter */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Date Range</label>
@@ -563,6 +571,32 @@ export default function OrdersFilters({
                     </button>
                   </span>
                 )}
+
+                {/* Ship-by filter */}
+                {safeFilters.shipBy && (
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-rose-100 text-rose-800">
+                    Ship by: {SHIP_BY_FILTER_OPTIONS.find(o => o.value === safeFilters.shipBy)?.label || safeFilters.shipBy}
+                    <button
+                      onClick={() => handleSingleSelectChange('shipBy', '')}
+                      className="flex-shrink-0 ml-1.5 h-4 w-4 rounded-full inline-flex items-center justify-center text-rose-400 hover:bg-rose-200 hover:text-rose-500"
+                    >
+                      <XMarkIcon className="h-3 w-3" />
+                    </button>
+                  </span>
+                )}
+
+                {/* Allocation filter */}
+                {safeFilters.allocation && (
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800">
+                    Stock: {ALLOCATION_FILTER_OPTIONS.find(o => o.value === safeFilters.allocation)?.label || safeFilters.allocation}
+                    <button
+                      onClick={() => handleSingleSelectChange('allocation', '')}
+                      className="flex-shrink-0 ml-1.5 h-4 w-4 rounded-full inline-flex items-center justify-center text-emerald-400 hover:bg-emerald-200 hover:text-emerald-500"
+                    >
+                      <XMarkIcon className="h-3 w-3" />
+                    </button>
+                  </span>
+                )}
               </div>
             </div>
           )}
@@ -6,6 +6,7 @@ interface OrdersPaginationProps {
   totalItems: number
   itemsPerPage: number
   onPageChange: (page: number) => void
+  lastReachablePage?: number  // Cursor pagination: pages past this haven't been loaded yet
 }
 
 export default function OrdersPagination({
@@ -13,7 +14,8 @@ export default function OrdersPagination({
   totalPages,
   totalItems,
   itemsPerPage,
-  onPageChange
+  onPageChange,
+  lastReachablePage = totalPages
 }: OrdersPaginationProps) {
   // Don't show pagination if there's only one page or no items
   if (totalPages <= 1) {
@@ -64,6 +66,7 @@ export default function OrdersPagination({
   }
 
   const pageNumbers = generatePageNumbers()
+  const canGoNext = currentPage < totalPages && currentPage < lastReachablePage
 
   return (
     <div className="mt-6">
@@ -79,7 +82,7 @@ export default function OrdersPagination({
           </button>
           <button
             onClick={() => onPageChange(Math.min(totalPages, currentPage + 1))}
-            disabled={currentPage === totalPages}
+            disabled={!canGoNext}
             className="relative ml-3 inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             Next
@@ -126,7 +129,8 @@ export default function OrdersPagination({
                 <button
                   key={page}
                   onClick={() => onPageChange(page as number)}
-                  className={`relative inline-flex items-center px-4 py-2 text-sm font-semibold ${
+                  disabled={(page as number) > lastReachablePage}
+                  className={`relative inline-flex items-center px-4 py-2 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed ${
                     page === currentPage
                       ? 'bg-indigo-600 text-white focus:z-20 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600'
                       : 'text-gray-900 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 focus:z-20 focus:outline-offset-0'
@@ -140,7 +144,7 @@ export default function OrdersPagination({
             {/* Next button */}
             <button
               onClick={() => onPageChange(Math.min(totalPages, currentPage + 1))}
-              disabled={currentPage === totalPages}
+              disabled={!canGoNext}
               className="relative inline-flex items-center rounded-r-md px-2 py-2 text-gray-400 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 focus:z-20 focus:outline-offset-0 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <span className="sr-only">Next</span>
@@ -3,6 +3,7 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
+import Link from 'next/link'
 import {
   EyeIcon,
   DocumentTextIcon,
@@ -10,7 +11,8 @@ import {
   ChevronDownIcon,
   Bars3Icon,
   ListBulletIcon,
-  TruckIcon
+  TruckIcon,
+  ChatBubbleLeftEllipsisIcon
 } from '@heroicons/react/24/outline'
 import ReactCountryFlag from "react-country-flag"
 import {
@@ -39,11 +41,17 @@ import {
   FULFILLMENT_COLORS
 } from '../constants/orderConstants'
 import EditableStatusCell from './EditableStatusCell'
+import ShipByBadge from './ShipByBadge'
+import { getOrderAllocationStatus, ALLOCATION_STATUS_LABELS, ALLOCATION_STATUS_COLORS } from '../utils/allocation'
 import { ORDER_STATUS_OPTIONS, FULFILLMENT_STATUS_OPTIONS } from '../constants/statusOptions'
 import { convertTailwindToHex } from '../../shared/utils/colorUtils'
 import { useStores } from '../../stores/hooks/useStores'
 import { getStoreName, getWarehouseName } from '../utils/warehouseUtils'
 import { useWarehouses } from '../../warehouses/context/WarehouseContext'
+import { useCurrency } from '../../shared/context/CurrencyContext'
+import { getOrderBaseTotal } from '../../shared/utils/currency'
+import { formatCurrency } from '../utils/orderUtils'
+import CustomerFlagBadges from '../../customers/components/CustomerFlagBadges'
 
 // Date extraction utility functions
 const extractDateParts = (dateString: string) => {
@@ -150,6 +158,9 @@ export default function OrdersTable({
   // Get warehouses from context for warehouse name resolution
   const { warehouses } = useWarehouses()
 
+  // Amounts as charged, or in the account base currency
+  const { formatAmount, baseCurrency } = useCurrency()
+
   const sensors = useSensors(
     useSensor(PointerSensor),
     useSensor(KeyboardSensor, {
@@ -236,6 +247,23 @@ export default function OrdersTable({
             className="text-sm font-medium text-gray-900 hover:text-gray-700 cursor-pointer text-left"
           >
             {order.orderNumber}
+            {order.hold && (
+              <span
+                className="ml-2 inline-flex items-center rounded-full bg-red-100 px-2 py-0.5 text-xs font-medium text-red-800"
+                title={order.hold.reason}
+              >
+                On hold
+              </span>
+            )}
+            {!!order.openCommentCount && (
+              <span
+                className="ml-2 inline-flex items-center rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800"
+                title={`${order.openCommentCount} unresolved comment${order.openCommentCount === 1 ? '' : 's'}`}
+              >
+                <ChatBubbleLeftEllipsisIcon className="h-3.5 w-3.5 mr-1" />
+                {order.openCommentCount}
+              </span>
+            )}
           </button>
         )
 
@@ -287,11 +315,16 @@ export default function OrdersTable({
         return (
           <div>
             <div className="text-sm font-medium text-gray-900">
-              {order.customerName}
+              {order.customerId ? (
+                <Link href={`/dashboard/customers/${order.customerId}`} className="hover:text-indigo-600">
+                  {order.customerName}
+                </Link>
+              ) : order.customerName}
             </div>
             <div className="text-sm text-gray-500">
               {order.customerEmail}
             </div>
+            <CustomerFlagBadges flags={order.customerFlags} />
           </div>
         )
 
@@ -347,14 +380,22 @@ export default function OrdersTable({
 
       case 'totalAmount':
         return (
-          <div className="text-sm font-medium text-gray-900">
-            {new Intl.NumberFormat('en-US', {
-              style: 'currency',
-              currency: order.currency || 'USD'
-            }).format(order.totalAmount || 0)}
+          <div className="text-sm font-medium text-gray-900" title={formatCurrency(order.totalAmount || 0, order.currency || 'USD')}>
+            {formatAmount(order.totalAmount || 0, { ...order, currency: order.currency || 'USD' })}
           </div>
         )
 
+      case 'baseTotalAmount': {
+        const baseTotal = getOrderBaseTotal(order, baseCurrency)
+        return (
+          <div className="text-sm text-gray-900">
+            {baseTotal != null
+              ? formatCurrency(baseTotal, order.baseCurrency || baseCurrency)
+              : <span className="text-gray-400" title="No exchange rate on file for the order date">—</span>}
+          </div>
+        )
+      }
+
       case 'platform':
         return (
           <div className="text-sm text-gray-900">
@@ -376,6 +417,18 @@ export default function OrdersTable({
           </div>
         )
 
+      case 'shipByDate':
+        return <ShipByBadge order={order} />
+
+      case 'allocationStatus': {
+        const allocation = getOrderAllocationStatus(order)
+        return (
+          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${ALLOCATION_STATUS_COLORS[allocation]}`}>
+            {ALLOCATION_STATUS_LABELS[allocation]}
+          </span>
+        )
+      }
+
       // Country-related columns
       case 'country':
         // Show only the flag
@@ -1,7 +1,7 @@
 // File: app/dashboard/orders/components/OrdersToolbar.tsx
 'use client'
 
-import { ArrowDownTrayIcon, PrinterIcon, ListBulletIcon, TruckIcon } from '@heroicons/react/24/outline'
+import { ArrowDownTrayIcon, PrinterIcon, ListBulletIcon, TruckIcon, QueueListIcon, HandRaisedIcon, PlayIcon } from '@heroicons/react/24/outline'
 import { ColumnConfig } from '../utils/orderTypes'
 import ScreenOptions from '../../shared/components/ScreenOptions'
 import { convertTailwindToHex } from '../../shared/utils/colorUtils'
@@ -21,6 +21,10 @@ interface OrdersToolbarProps {
   onMaxPickingOrdersChange?: (value: string) => void
   showItemsToShip?: boolean
   onShowPickingList?: () => void
+  onCreatePickWave?: () => void
+  onHoldSelected?: () => void
+  onReleaseSelected?: () => void
+  heldSelectedCount?: number       // Selected orders already on hold
   itemsToShipCount?: number
   isSpecificWarehouse?: boolean
   fulfillmentStatusOptions?: Array<{ value: string; label: string; color: string }>
@@ -43,6 +47,10 @@ export default function OrdersToolbar({
   onMaxPickingOrdersChange,
   showItemsToShip,
   onShowPickingList,
+  onCreatePickWave,
+  onHoldSelected,
+  onReleaseSelected,
+  heldSelectedCount = 0,
   itemsToShipCount,
   isSpecificWarehouse = true,
   fulfillmentStatusOptions = [],
@@ -67,6 +75,9 @@ export default function OrdersToolbar({
     visible: col.visible
   })).filter(col => col.id !== 'select' && col.id !== 'actions')
 
+  // Held orders can't be picked, packed or shipped
+  const unheldSelectedCount = selectedOrdersCount - heldSelectedCount
+
   return (
     <div className="space-y-4">
       <div className="sm:flex sm:items-center">
@@ -83,39 +94,72 @@ export default function OrdersToolbar({
         </div>
 
         <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none flex gap-2">
+          {/* Hold / Release Buttons */}
+          {unheldSelectedCount > 0 && onHoldSelected && (
+            <button
+              onClick={onHoldSelected}
+              className="inline-flex items-center gap-x-2 rounded-md bg-white px-3 py-2 text-sm font-semibold text-red-700 shadow-sm ring-1 ring-inset ring-red-300 hover:bg-red-50"
+            >
+              <HandRaisedIcon className="h-4 w-4" />
+              Hold ({unheldSelectedCount})
+            </button>
+          )}
+
+          {heldSelectedCount > 0 && onReleaseSelected && (
+            <button
+              onClick={onReleaseSelected}
+              className="inline-flex items-center gap-x-2 rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+            >
+              <PlayIcon className="h-4 w-4" />
+              Release ({heldSelectedCount})
+            </button>
+          )}
+
           {/* Picking List Button */}
-          {isSpecificWarehouse && selectedOrdersCount > 0 && onShowPickingList && (
+          {isSpecificWarehouse && unheldSelectedCount > 0 && onShowPickingList && (
             <button
               onClick={onShowPickingList}
               className="inline-flex items-center gap-x-2 rounded-md px-3 py-2 text-sm font-semibold shadow-sm hover:opacity-90 transition-opacity"
               style={{ backgroundColor: pickingColors.bg, color: pickingColors.text }}
             >
               <ListBulletIcon className="h-4 w-4" />
-              Picking List ({selectedOrdersCount})
+              Picking List ({unheldSelectedCount})
+            </button>
+          )}
+
+          {/* Pick Wave Button */}
+          {isSpecificWarehouse && unheldSelectedCount > 0 && onCreatePickWave && (
+            <button
+              onClick={onCreatePickWave}
+              className="inline-flex items-center gap-x-2 rounded-md px-3 py-2 text-sm font-semibold shadow-sm hover:opacity-90 transition-opacity"
+              style={{ backgroundColor: pickingColors.bg, color: pickingColors.text }}
+            >
+              <QueueListIcon className="h-4 w-4" />
+              Create Wave ({unheldSelectedCount})
             </button>
           )}
 
           {/* Packing Slips Button */}
-          {isSpecificWarehouse && selectedOrdersCount > 0 && (
+          {isSpecificWarehouse && unheldSelectedCount > 0 && (
             <button
               onClick={onPrintPackingSlips}
               className="inline-flex items-center gap-x-2 rounded-md px-3 py-2 text-sm font-semibold shadow-sm hover:opacity-90 transition-opacity"
               style={{ backgroundColor: packingColors.bg, color: packingColors.text }}
             >
               <PrinterIcon className="h-4 w-4" />
-              Packing Slips ({selectedOrdersCount})
+              Packing Slips ({unheldSelectedCount})
             </button>
           )}
 
           {/* Ship Now Button */}
-          {isSpecificWarehouse && selectedOrdersCount > 0 && onShipNow && (
+          {isSpecificWarehouse && unheldSelectedCount > 0 && onShipNow && (
             <button
               onClick={onShipNow}
               className="inline-flex items-center gap-x-2 rounded-md px-3 py-2 text-sm font-semibold shadow-sm hover:opacity-90 transition-opacity"
               style={{ backgroundColor: shippingColors.bg, color: shippingColors.text }}
             >
               <TruckIcon className="h-4 w-4" />
-              Ship Now ({selectedOrdersCount})
+              Ship Now ({unheldSelectedCount})
             </button>
           )}
         </div>
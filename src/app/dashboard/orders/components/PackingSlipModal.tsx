@@ -4,12 +4,17 @@
 
 import { Fragment, useMemo, useState } from 'react'
 import { Dialog, Transition } from '@headlessui/react'
-import { XMarkIcon, PrinterIcon, DocumentArrowDownIcon, EyeIcon, CheckCircleIcon } from '@heroicons/react/24/outline'
+import { XMarkIcon, PrinterIcon, DocumentArrowDownIcon, EyeIcon, CheckCircleIcon, QrCodeIcon, GiftIcon, DocumentDuplicateIcon } from '@heroicons/react/24/outline'
 import ReactCountryFlag from "react-country-flag"
 import { Order } from '../utils/orderTypes'
 import { transformToDetailedOrder } from '../utils/orderUtils'
-import { printMultiplePackingSlips } from '../utils/packingSlipGenerator'
+import { useOrderDocuments } from '../hooks/useOrderDocuments'
+import { useThermalLabels } from '../../warehouses/hooks/useThermalLabels'
+import { useWarehouses } from '../../warehouses/context/WarehouseContext'
+import { getDefaultPrinterProfile } from '../../warehouses/utils/printerProfiles'
 import PackingSlip from '../PackingSlip'
+import PackingStationModal from './PackingStationModal'
+import { PackVerificationRecord } from '@/lib/api/warehouseApi'
 
 interface PackingSlipModalProps {
   orders: Order[]
@@ -20,6 +25,9 @@ interface PackingSlipModalProps {
   onOrderPacked?: (orderId: string) => void
   fulfillmentStatusOptions?: Array<{ value: string; label: string; color: string }>
   onUpdateFulfillmentStatus?: (orderIds: string[], status: string) => Promise<void>
+  warehouseId?: string
+  // When set, orders can only be marked packed through scan verification
+  onOrderVerified?: (record: PackVerificationRecord) => Promise<void>
 }
 
 export default function PackingSlipModal({
@@ -30,9 +38,17 @@ export default function PackingSlipModal({
   packedOrders = new Set<string>(),
   onOrderPacked = () => {},
   fulfillmentStatusOptions = [],
-  onUpdateFulfillmentStatus
+  onUpdateFulfillmentStatus,
+  warehouseId,
+  onOrderVerified
 }: PackingSlipModalProps) {
+  const { printDocument, generating } = useOrderDocuments()
+  const { printLabels, printing } = useThermalLabels()
+  const { warehouses } = useWarehouses()
+  const printerProfile = getDefaultPrinterProfile(warehouses.find(w => w.id === warehouseId))
   const [previewOrder, setPreviewOrder] = useState<Order | null>(null)
+  const [showPackingStation, setShowPackingStation] = useState(false)
+  const [stationOrderId, setStationOrderId] = useState<string | null>(null)
 
   const getStatusLabel = (statusCode: string) => {
     const status = fulfillmentStatusOptions.find(s => s.value === statusCode)
@@ -66,20 +82,60 @@ export default function PackingSlipModal({
     return Object.entries(grouped).sort(([a], [b]) => a.localeCompare(b))
   }, [orders])
 
+  // Same order as the picking list, so slips and labels come out in pick sequence
+  const orderIds = useMemo(() => orders.map(order => order.id), [orders])
+
+  const hasGiftMessages = useMemo(
+    () => orders.some(order => transformToDetailedOrder(order).items.some(item => item.giftMessage)),
+    [orders]
+  )
+
   const handlePrintAll = () => {
-    const ordersWithDetails = orders.map(transformToDetailedOrder)
-    printMultiplePackingSlips(ordersWithDetails)
+    printDocument({ type: 'packing_slip', orderIds })
+  }
+
+  const handlePrintBatch = () => {
+    printDocument({ type: 'batch', orderIds })
+  }
+
+  const handlePrintGiftCards = () => {
+    printDocument({ type: 'gift_card', orderIds })
+  }
+
+  // Slips and ZPL carrier labels on the warehouse's default thermal printer
+  const handlePrintThermal = () => {
+    if (!warehouseId || !printerProfile) return
+    printLabels({
+      kind: 'batch',
+      warehouseId,
+      profileId: printerProfile.id,
+      orderIds,
+      send: printerProfile.connection === 'network'
+    })
   }
 
   const handlePrintSingle = (order: Order) => {
-    const orderWithDetails = transformToDetailedOrder(order)
-    printMultiplePackingSlips([orderWithDetails])
+    printDocument({ type: 'packing_slip', orderIds: [order.id] })
   }
 
   const handlePreviewOrder = (order: Order) => {
     setPreviewOrder(order)
   }
 
+  const handleOpenPackingStation = (orderId: string | null = null) => {
+    setStationOrderId(orderId)
+    setShowPackingStation(true)
+  }
+
+  // With scan verification, packing goes through the station; unpacking stays a toggle
+  const handlePackedToggle = (orderId: string) => {
+    if (onOrderVerified && !packedOrders.has(orderId)) {
+      handleOpenPackingStation(orderId)
+      return
+    }
+    onOrderPacked(orderId)
+  }
+
   const handleSetToPacked = async () => {
     if (!onUpdateFulfillmentStatus) {
       alert('Update function not available')
@@ -172,12 +228,52 @@ export default function PackingSlipModal({
                           )}
                         </button>
                       )}
+                      {onOrderVerified && (
+                        <button
+                          onClick={() => handleOpenPackingStation()}
+                          className="inline-flex items-center rounded-md bg-gray-900 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-gray-700"
+                        >
+                          <QrCodeIcon className="h-4 w-4 mr-2" />
+                          Packing Station
+                        </button>
+                      )}
+                      {hasGiftMessages && (
+                        <button
+                          onClick={handlePrintGiftCards}
+                          disabled={generating !== null}
+                          className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          <GiftIcon className="h-4 w-4 mr-2" />
+                          {generating === 'gift_card' ? 'Generating...' : 'Gift Cards'}
+                        </button>
+                      )}
+                      {printerProfile && (
+                        <button
+                          onClick={handlePrintThermal}
+                          disabled={printing !== null}
+                          className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                          title={`Packing slips and labels as ZPL for ${printerProfile.name}`}
+                        >
+                          <PrinterIcon className="h-4 w-4 mr-2" />
+                          {printing === 'batch' ? 'Sending...' : 'Thermal (ZPL)'}
+                        </button>
+                      )}
+                      <button
+                        onClick={handlePrintBatch}
+                        disabled={generating !== null}
+                        className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                        title="Each order's packing slip followed by its shipping labels, in picking list order"
+                      >
+                        <DocumentDuplicateIcon className="h-4 w-4 mr-2" />
+                        {generating === 'batch' ? 'Generating...' : 'Slips + Labels'}
+                      </button>
                       <button
                         onClick={handlePrintAll}
-                        className="inline-flex items-center rounded-md bg-green-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-green-500"
+                        disabled={generating !== null}
+                        className="inline-flex items-center rounded-md bg-green-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-green-500 disabled:opacity-50"
                       >
                         <PrinterIcon className="h-4 w-4 mr-2" />
-                        Print All ({totalOrders})
+                        {generating === 'packing_slip' ? 'Generating...' : `Print All (${totalOrders})`}
                       </button>
                       <button
                         onClick={onClose}
@@ -291,7 +387,8 @@ export default function PackingSlipModal({
                                     </button>
                                     <button
                                       onClick={() => handlePrintSingle(order)}
-                                      className="p-1 text-gray-400 hover:text-green-600 print:hidden"
+                                      disabled={generating !== null}
+                                      className="p-1 text-gray-400 hover:text-green-600 disabled:opacity-50 print:hidden"
                                       title="Print packing slip"
                                     >
                                       <PrinterIcon className="h-4 w-4" />
@@ -301,7 +398,7 @@ export default function PackingSlipModal({
                                         type="checkbox"
                                         id={`order-${order.id}`}
                                         checked={packedOrders.has(order.id)}
-                                        onChange={() => onOrderPacked(order.id)}
+                                        onChange={() => handlePackedToggle(order.id)}
                                         className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded print:appearance-auto"
                                       />
                                       <span className="ml-2 text-xs text-gray-700">Packed</span>
@@ -432,6 +529,20 @@ export default function PackingSlipModal({
         </Dialog>
       </Transition>
 
+      {/* Scan-to-verify Packing Station */}
+      {onOrderVerified && showPackingStation && (
+        <PackingStationModal
+          orders={orders}
+          isOpen={showPackingStation}
+          onClose={() => setShowPackingStation(false)}
+          warehouseId={warehouseId}
+          warehouseName={warehouseName}
+          packedOrders={packedOrders}
+          initialOrderId={stationOrderId}
+          onOrderVerified={onOrderVerified}
+        />
+      )}
+
       {/* Single Order Preview Modal */}
       {previewOrder && (
         <PackingSlip
@@ -0,0 +1,441 @@
+//file path: app/dashboard/orders/components/PackingStationModal.tsx
+
+'use client'
+
+import { Fragment, useState, useEffect, useMemo, useRef } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import {
+  XMarkIcon,
+  QrCodeIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  ShieldExclamationIcon
+} from '@heroicons/react/24/outline'
+import { Order } from '../utils/orderTypes'
+import { transformToDetailedOrder } from '../utils/orderUtils'
+import { PackLine, buildPackLines, matchScan, isPackVerified, getRemainingUnits } from '../utils/packVerification'
+import { useProducts } from '../../products/hooks/useProducts'
+import { PackVerificationRecord } from '@/lib/api/warehouseApi'
+
+interface PackingStationModalProps {
+  orders: Order[]
+  isOpen: boolean
+  onClose: () => void
+  warehouseId?: string
+  warehouseName?: string
+  packedOrders?: Set<string>
+  initialOrderId?: string | null
+  onOrderVerified: (record: PackVerificationRecord) => Promise<void>
+}
+
+interface ScanAlert {
+  type: 'wrong_item' | 'over_scan'
+  code: string
+  message: string
+}
+
+/**
+ * Play a loud two-tone alert so the packer notices a bad scan
+ */
+function playAlertTone() {
+  if (typeof window === 'undefined') return
+
+  try {
+    const AudioCtx = window.AudioContext || (window as any).webkitAudioContext
+    if (!AudioCtx) return
+
+    const ctx = new AudioCtx()
+    ;[0, 0.25].forEach((offset, i) => {
+      const oscillator = ctx.createOscillator()
+      const gain = ctx.createGain()
+      oscillator.type = 'square'
+      oscillator.frequency.value = i === 0 ? 880 : 440
+      gain.gain.value = 0.3
+      oscillator.connect(gain)
+      gain.connect(ctx.destination)
+      oscillator.start(ctx.currentTime + offset)
+      oscillator.stop(ctx.currentTime + offset + 0.2)
+    })
+    setTimeout(() => ctx.close(), 800)
+  } catch (error) {
+    console.error('[PackingStationModal] Unable to play alert tone:', error)
+  }
+}
+
+export default function PackingStationModal({
+  orders,
+  isOpen,
+  onClose,
+  warehouseId,
+  warehouseName = 'Warehouse',
+  packedOrders = new Set<string>(),
+  initialOrderId = null,
+  onOrderVerified
+}: PackingStationModalProps) {
+  const [currentOrderId, setCurrentOrderId] = useState<string | null>(null)
+  const [lines, setLines] = useState<PackLine[]>([])
+  const [rejectedScans, setRejectedScans] = useState<PackVerificationRecord['rejectedScans']>([])
+  const [scanValue, setScanValue] = useState('')
+  const [scanAlert, setScanAlert] = useState<ScanAlert | null>(null)
+  const [showOverride, setShowOverride] = useState(false)
+  const [overrideReason, setOverrideReason] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const scanInputRef = useRef<HTMLInputElement>(null)
+
+  const { products } = useProducts(warehouseId)
+
+  const queue = useMemo(() => orders.filter(order => !packedOrders.has(order.id)), [orders, packedOrders])
+  const currentOrder = orders.find(order => order.id === currentOrderId) || null
+
+  // Pick the first order to pack when the station opens
+  useEffect(() => {
+    if (!isOpen) return
+    const startOrder = initialOrderId && !packedOrders.has(initialOrderId)
+      ? initialOrderId
+      : queue[0]?.id || null
+    setCurrentOrderId(startOrder)
+  }, [isOpen, initialOrderId])
+
+  // Reset verification state when switching orders (not when the orders list refreshes)
+  useEffect(() => {
+    setLines(currentOrder ? buildPackLines(transformToDetailedOrder(currentOrder), products) : [])
+    setRejectedScans([])
+    setScanAlert(null)
+    setShowOverride(false)
+    setOverrideReason('')
+    setScanValue('')
+  }, [currentOrderId])
+
+  // The catalog can arrive after the order is open - pick up its barcodes without losing scans
+  useEffect(() => {
+    if (!currentOrder) return
+    setLines(prev => buildPackLines(transformToDetailedOrder(currentOrder), products).map(line => ({
+      ...line,
+      scannedQuantity: prev.find(previous => previous.itemId === line.itemId)?.scannedQuantity ?? 0
+    })))
+  }, [products])
+
+  // Keep the scanner input focused (keyboard-wedge scanners type into the focused field)
+  useEffect(() => {
+    if (isOpen && !showOverride && !scanAlert) {
+      scanInputRef.current?.focus()
+    }
+  }, [isOpen, showOverride, scanAlert, currentOrderId])
+
+  const remainingUnits = getRemainingUnits(lines)
+  const totalUnits = lines.reduce((sum, line) => sum + line.quantity, 0)
+  const verified = isPackVerified(lines)
+
+  const advanceToNextOrder = (finishedOrderId: string) => {
+    const next = queue.find(order => order.id !== finishedOrderId && order.id !== currentOrderId)
+    setCurrentOrderId(next?.id || null)
+  }
+
+  const submitVerification = async (method: 'scan' | 'override', scannedLines: PackLine[], reason?: string) => {
+    if (!currentOrder) return
+
+    try {
+      setIsSaving(true)
+      await onOrderVerified({
+        orderId: currentOrder.id,
+        orderNumber: currentOrder.orderNumber,
+        method,
+        overrideReason: reason,
+        lines: scannedLines.map(line => ({
+          sku: line.sku,
+          quantity: line.quantity,
+          scannedQuantity: line.scannedQuantity
+        })),
+        rejectedScans
+      })
+      advanceToNextOrder(currentOrder.id)
+    } catch (err: any) {
+      alert(err.message || 'Failed to mark order as packed')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const rejectScan = (type: ScanAlert['type'], code: string, message: string) => {
+    setRejectedScans(prev => [...prev, { code, reason: type, scannedAt: new Date().toISOString() }])
+    setScanAlert({ type, code, message })
+    playAlertTone()
+  }
+
+  const handleScan = (code: string) => {
+    if (!code.trim() || !currentOrder || scanAlert || isSaving) return
+
+    const result = matchScan(lines, code)
+
+    if (result.type === 'wrong_item') {
+      rejectScan('wrong_item', code, `"${code}" is not in order ${currentOrder.orderNumber}. Remove this item from the box.`)
+      return
+    }
+
+    if (result.type === 'over_scan') {
+      const line = lines[result.lineIndex]
+      rejectScan('over_scan', code, `Too many units of ${line.name}. Only ${line.quantity} ordered — remove the extra unit.`)
+      return
+    }
+
+    const updatedLines = lines.map((line, index) =>
+      index === result.lineIndex ? { ...line, scannedQuantity: line.scannedQuantity + 1 } : line
+    )
+    setLines(updatedLines)
+
+    if (isPackVerified(updatedLines)) {
+      submitVerification('scan', updatedLines)
+    }
+  }
+
+  const handleScanKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      handleScan(scanValue)
+      setScanValue('')
+    }
+  }
+
+  const handleOverride = () => {
+    if (!overrideReason.trim()) {
+      alert('Please enter a reason for overriding scan verification.')
+      return
+    }
+    submitVerification('override', lines, overrideReason.trim())
+  }
+
+  const handleResetScans = () => {
+    setLines(prev => prev.map(line => ({ ...line, scannedQuantity: 0 })))
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="relative w-full max-w-6xl transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                  <div>
+                    <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                      Packing Station - {warehouseName}
+                    </Dialog.Title>
+                    <div className="mt-1 text-sm text-gray-500">
+                      {queue.length} {queue.length === 1 ? 'order' : 'orders'} left to pack
+                    </div>
+                  </div>
+                  <button onClick={onClose} className="rounded-md bg-white text-gray-400 hover:text-gray-500">
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="flex h-[600px]">
+                  {/* Order Queue */}
+                  <div className="w-64 border-r border-gray-200 overflow-y-auto">
+                    <div className="px-4 py-3 bg-gray-50 border-b border-gray-200">
+                      <h4 className="text-sm font-medium text-gray-900">Orders</h4>
+                    </div>
+                    <ul className="divide-y divide-gray-100">
+                      {orders.map(order => {
+                        const isPacked = packedOrders.has(order.id)
+                        const isCurrent = order.id === currentOrderId
+                        return (
+                          <li key={order.id}>
+                            <button
+                              onClick={() => !isPacked && setCurrentOrderId(order.id)}
+                              disabled={isPacked}
+                              className={`w-full flex items-center justify-between px-4 py-2 text-left text-sm ${
+                                isCurrent ? 'bg-indigo-50 text-indigo-900' : isPacked ? 'text-gray-400' : 'text-gray-700 hover:bg-gray-50'
+                              }`}
+                            >
+                              <span>{order.orderNumber}</span>
+                              {isPacked && <CheckCircleIcon className="h-4 w-4 text-green-600" />}
+                            </button>
+                          </li>
+                        )
+                      })}
+                    </ul>
+                  </div>
+
+                  {/* Current Order */}
+                  <div className="flex-1 flex flex-col">
+                    {!currentOrder ? (
+                      <div className="flex-1 flex flex-col items-center justify-center text-gray-500">
+                        <CheckCircleIcon className="h-12 w-12 text-green-500" />
+                        <p className="mt-3 text-sm">All orders are packed</p>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="px-6 py-4 border-b border-gray-200">
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <h4 className="text-base font-semibold text-gray-900">{currentOrder.orderNumber}</h4>
+                              <p className="text-xs text-gray-500">
+                                {currentOrder.customerName} • {currentOrder.requestedShipping}
+                              </p>
+                            </div>
+                            <div className="text-right">
+                              <p className="text-2xl font-bold text-gray-900">{totalUnits - remainingUnits}/{totalUnits}</p>
+                              <p className="text-xs text-gray-500">units verified</p>
+                            </div>
+                          </div>
+
+                          {/* Scanner Input */}
+                          <div className="mt-4 flex items-center gap-3">
+                            <QrCodeIcon className="h-6 w-6 text-gray-400" />
+                            <input
+                              ref={scanInputRef}
+                              type="text"
+                              value={scanValue}
+                              onChange={(e) => setScanValue(e.target.value)}
+                              onKeyDown={handleScanKeyDown}
+                              disabled={!!scanAlert || showOverride || isSaving || verified}
+                              placeholder="Scan item barcode or SKU..."
+                              autoComplete="off"
+                              className="flex-1 rounded-md border-gray-300 text-lg font-mono shadow-sm focus:border-indigo-500 focus:ring-indigo-500 disabled:bg-gray-100"
+                            />
+                          </div>
+                        </div>
+
+                        {/* Lines */}
+                        <div className="flex-1 overflow-y-auto px-6 py-4">
+                          {lines.length === 0 ? (
+                            <p className="text-center text-gray-500 py-8">This order has no items to verify</p>
+                          ) : (
+                            <div className="space-y-2">
+                              {lines.map(line => {
+                                const isComplete = line.scannedQuantity === line.quantity
+                                return (
+                                  <div
+                                    key={line.itemId}
+                                    className={`flex items-center justify-between rounded-lg border p-3 ${
+                                      isComplete ? 'bg-green-50 border-green-300' : 'bg-white border-gray-200'
+                                    }`}
+                                  >
+                                    <div>
+                                      <p className="text-sm font-medium text-gray-900">{line.name}</p>
+                                      <p className="text-xs text-gray-500">
+                                        SKU: {line.sku}{line.variant && ` • ${line.variant}`}
+                                      </p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                      <span className={`text-lg font-semibold ${isComplete ? 'text-green-700' : 'text-gray-900'}`}>
+                                        {line.scannedQuantity}/{line.quantity}
+                                      </span>
+                                      {isComplete && <CheckCircleIcon className="h-5 w-5 text-green-600" />}
+                                    </div>
+                                  </div>
+                                )
+                              })}
+                            </div>
+                          )}
+                        </div>
+
+                        {/* Override */}
+                        <div className="border-t border-gray-200 bg-gray-50 px-6 py-4">
+                          {showOverride ? (
+                            <div className="space-y-2">
+                              <label className="block text-sm font-medium text-gray-700">
+                                Reason for packing without full scan verification
+                              </label>
+                              <textarea
+                                value={overrideReason}
+                                onChange={(e) => setOverrideReason(e.target.value)}
+                                rows={2}
+                                placeholder="e.g. Barcode label damaged, verified visually by supervisor"
+                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                              />
+                              <div className="flex justify-end gap-2">
+                                <button
+                                  onClick={() => { setShowOverride(false); setOverrideReason('') }}
+                                  className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                                >
+                                  Back to scanning
+                                </button>
+                                <button
+                                  onClick={handleOverride}
+                                  disabled={!overrideReason.trim() || isSaving}
+                                  className="rounded-md bg-amber-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-amber-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                  Override & Mark Packed
+                                </button>
+                              </div>
+                            </div>
+                          ) : (
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm text-gray-600">
+                                {verified ? 'Order verified' : `${remainingUnits} unit${remainingUnits !== 1 ? 's' : ''} left to scan`}
+                              </span>
+                              <div className="flex gap-2">
+                                <button
+                                  onClick={handleResetScans}
+                                  disabled={isSaving}
+                                  className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                                >
+                                  Reset scans
+                                </button>
+                                <button
+                                  onClick={() => setShowOverride(true)}
+                                  disabled={isSaving}
+                                  className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-amber-700 shadow-sm ring-1 ring-inset ring-amber-300 hover:bg-amber-50"
+                                >
+                                  <ShieldExclamationIcon className="h-4 w-4 mr-1.5" />
+                                  Override
+                                </button>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {/* Bad Scan Alert - blocks scanning until acknowledged */}
+                {scanAlert && (
+                  <div className="absolute inset-0 z-10 flex items-center justify-center bg-red-600/90">
+                    <div className="max-w-lg rounded-xl bg-white p-8 text-center shadow-2xl">
+                      <ExclamationTriangleIcon className="mx-auto h-16 w-16 text-red-600" />
+                      <h4 className="mt-4 text-2xl font-bold text-red-700">
+                        {scanAlert.type === 'wrong_item' ? 'WRONG ITEM' : 'TOO MANY UNITS'}
+                      </h4>
+                      <p className="mt-2 text-base text-gray-800">{scanAlert.message}</p>
+                      <p className="mt-1 text-xs font-mono text-gray-500">Scanned: {scanAlert.code}</p>
+                      <button
+                        onClick={() => setScanAlert(null)}
+                        className="mt-6 rounded-md bg-red-600 px-6 py-3 text-base font-semibold text-white shadow-sm hover:bg-red-500"
+                      >
+                        I removed the item
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,251 @@
+//file path: app/dashboard/orders/components/PickWavesPanel.tsx
+
+'use client'
+
+import { useState } from 'react'
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  PlayIcon,
+  CheckIcon,
+  XMarkIcon,
+  MinusIcon,
+  PlusIcon,
+  QueueListIcon
+} from '@heroicons/react/24/outline'
+import { PickWave, PickWaveStatus } from '@/lib/api/pickWaveApi'
+import { getWaveProgress } from '../utils/pickWaveUtils'
+
+interface PickWavesPanelProps {
+  waves: PickWave[]
+  isLoading?: boolean
+  onAutoBuild?: () => void
+  onStart: (waveId: string) => Promise<unknown>
+  onComplete: (waveId: string) => Promise<unknown>
+  onCancel: (waveId: string) => Promise<unknown>
+  onUpdateLine: (waveId: string, lineId: string, pickedQuantity: number) => Promise<unknown>
+}
+
+const STATUS_STYLES: Record<PickWaveStatus, { label: string; className: string }> = {
+  open: { label: 'Open', className: 'bg-gray-100 text-gray-800' },
+  in_progress: { label: 'In Progress', className: 'bg-yellow-100 text-yellow-800' },
+  completed: { label: 'Completed', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-red-100 text-red-800' }
+}
+
+export default function PickWavesPanel({
+  waves,
+  isLoading = false,
+  onAutoBuild,
+  onStart,
+  onComplete,
+  onCancel,
+  onUpdateLine
+}: PickWavesPanelProps) {
+  const [expandedWaveId, setExpandedWaveId] = useState<string | null>(null)
+  const [showClosed, setShowClosed] = useState(false)
+
+  const visibleWaves = waves.filter(wave =>
+    showClosed || wave.status === 'open' || wave.status === 'in_progress'
+  )
+  const activeCount = waves.filter(w => w.status === 'open' || w.status === 'in_progress').length
+
+  const formatTime = (dateString: string | null) => {
+    if (!dateString) return '—'
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action()
+    } catch (err: any) {
+      alert(err.message || failure)
+    }
+  }
+
+  const handleComplete = (wave: PickWave) => {
+    const { pickedUnits, totalUnits } = getWaveProgress(wave)
+    if (pickedUnits < totalUnits && !confirm(`Only ${pickedUnits} of ${totalUnits} units are picked. Complete "${wave.name}" anyway?`)) {
+      return
+    }
+    runAction(() => onComplete(wave.id), 'Failed to complete wave')
+  }
+
+  const handleCancel = (wave: PickWave) => {
+    if (!confirm(`Cancel "${wave.name}"? Its orders will be released for other waves.`)) return
+    runAction(() => onCancel(wave.id), 'Failed to cancel wave')
+  }
+
+  return (
+    <div className="bg-white shadow-sm ring-1 ring-gray-900/5 rounded-lg">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="flex items-center">
+          <QueueListIcon className="h-5 w-5 text-indigo-600 mr-2" />
+          <h3 className="text-sm font-semibold text-gray-900">Pick Waves</h3>
+          <span className="ml-2 text-xs text-gray-500">{activeCount} active</span>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center text-xs text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showClosed}
+              onChange={(e) => setShowClosed(e.target.checked)}
+              className="h-3.5 w-3.5 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+            />
+            <span className="ml-1.5">Show completed</span>
+          </label>
+          {onAutoBuild && (
+            <button
+              onClick={onAutoBuild}
+              className="inline-flex items-center rounded-md bg-indigo-600 px-2.5 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-indigo-500"
+            >
+              Auto-build waves
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="px-4 py-6 text-center text-sm text-gray-500">Loading waves...</p>
+      ) : visibleWaves.length === 0 ? (
+        <p className="px-4 py-6 text-center text-sm text-gray-500">No pick waves yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {visibleWaves.map(wave => {
+            const progress = getWaveProgress(wave)
+            const isExpanded = expandedWaveId === wave.id
+            const status = STATUS_STYLES[wave.status]
+            const canPick = wave.status === 'in_progress'
+
+            return (
+              <li key={wave.id}>
+                <div className="flex items-center gap-4 px-4 py-3">
+                  <button
+                    onClick={() => setExpandedWaveId(isExpanded ? null : wave.id)}
+                    className="text-gray-400 hover:text-gray-600"
+                  >
+                    {isExpanded ? <ChevronDownIcon className="h-4 w-4" /> : <ChevronRightIcon className="h-4 w-4" />}
+                  </button>
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-gray-900 truncate">{wave.name}</p>
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${status.className}`}>
+                        {status.label}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {wave.orders.length} orders • {wave.lines.length} SKUs • Picker: {wave.assignedPickerName || 'Unassigned'}
+                      {wave.startedAt && ` • Started ${formatTime(wave.startedAt)}`}
+                      {wave.completedAt && ` • Completed ${formatTime(wave.completedAt)}`}
+                    </p>
+                  </div>
+
+                  <div className="w-40">
+                    <div className="flex justify-between text-xs text-gray-500 mb-1">
+                      <span>{progress.pickedUnits}/{progress.totalUnits} units</span>
+                      <span>{progress.percent}%</span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-gray-200">
+                      <div className="h-1.5 rounded-full bg-green-500" style={{ width: `${progress.percent}%` }} />
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    {wave.status === 'open' && (
+                      <button
+                        onClick={() => runAction(() => onStart(wave.id), 'Failed to start wave')}
+                        className="inline-flex items-center rounded-md bg-yellow-500 px-2 py-1 text-xs font-semibold text-white hover:bg-yellow-400"
+                      >
+                        <PlayIcon className="h-3.5 w-3.5 mr-1" />
+                        Start
+                      </button>
+                    )}
+                    {wave.status === 'in_progress' && (
+                      <button
+                        onClick={() => handleComplete(wave)}
+                        className="inline-flex items-center rounded-md bg-green-600 px-2 py-1 text-xs font-semibold text-white hover:bg-green-500"
+                      >
+                        <CheckIcon className="h-3.5 w-3.5 mr-1" />
+                        Complete
+                      </button>
+                    )}
+                    {(wave.status === 'open' || wave.status === 'in_progress') && (
+                      <button
+                        onClick={() => handleCancel(wave)}
+                        className="rounded-md p-1 text-gray-400 hover:text-red-600"
+                        title="Cancel wave"
+                      >
+                        <XMarkIcon className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="px-12 pb-4">
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-gray-500">
+                          <th className="py-1 pr-4 font-medium">Location</th>
+                          <th className="py-1 pr-4 font-medium">Item</th>
+                          <th className="py-1 pr-4 font-medium">Totes</th>
+                          <th className="py-1 font-medium text-right">Picked</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {wave.lines.map(line => {
+                          const isDone = line.pickedQuantity >= line.quantity
+                          return (
+                            <tr key={line.id} className={isDone ? 'bg-green-50' : ''}>
+                              <td className="py-2 pr-4 text-xs font-mono text-gray-700">
+                                {line.location || <span className="text-amber-600">No bin</span>}
+                              </td>
+                              <td className="py-2 pr-4">
+                                <p className="text-gray-900">{line.name}</p>
+                                <p className="text-xs text-gray-500">SKU: {line.sku}</p>
+                              </td>
+                              <td className="py-2 pr-4 text-xs text-gray-600">
+                                {line.allocations.map(a => `T${a.toteSlot}: ${a.quantity} (${a.orderNumber})`).join(', ')}
+                              </td>
+                              <td className="py-2 text-right">
+                                <div className="inline-flex items-center gap-1">
+                                  <button
+                                    onClick={() => runAction(() => onUpdateLine(wave.id, line.id, Math.max(0, line.pickedQuantity - 1)), 'Failed to update pick progress')}
+                                    disabled={!canPick || line.pickedQuantity === 0}
+                                    className="rounded p-0.5 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                                  >
+                                    <MinusIcon className="h-3.5 w-3.5" />
+                                  </button>
+                                  <span className="w-12 text-center text-xs font-medium text-gray-900">
+                                    {line.pickedQuantity}/{line.quantity}
+                                  </span>
+                                  <button
+                                    onClick={() => runAction(() => onUpdateLine(wave.id, line.id, Math.min(line.quantity, line.pickedQuantity + 1)), 'Failed to update pick progress')}
+                                    disabled={!canPick || isDone}
+                                    className="rounded p-0.5 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                                  >
+                                    <PlusIcon className="h-3.5 w-3.5" />
+                                  </button>
+                                </div>
+                              </td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -4,15 +4,19 @@
 
 import { Fragment, useMemo, useEffect } from 'react'
 import { Dialog, Transition } from '@headlessui/react'
-import { XMarkIcon, PrinterIcon, DocumentArrowDownIcon, CheckCircleIcon } from '@heroicons/react/24/outline'
-import { Order, OrderWithDetails } from '../utils/orderTypes'
-import { downloadPickingListCSV } from '../utils/pickingListExporter'
+import { XMarkIcon, PrinterIcon, DocumentArrowDownIcon, DocumentTextIcon, CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import { OrderWithDetails } from '../utils/orderTypes'
+import { downloadPickingListCSV, generateConsolidatedItems, ConsolidatedItem } from '../utils/pickingListExporter'
+import { Warehouse } from '../../warehouses/utils/warehouseTypes'
+import { useProducts } from '../../products/hooks/useProducts'
+import { useOrderDocuments } from '../hooks/useOrderDocuments'
 
 interface PickingListModalProps {
   orders: OrderWithDetails[]
   isOpen: boolean
   onClose: () => void
   warehouseName?: string
+  warehouse?: Warehouse | null  // Used to resolve bin locations from the layout
   maxOrdersLimit?: string
   totalOrdersCount?: number
   limitedOrdersCount?: number
@@ -25,22 +29,12 @@ interface PickingListModalProps {
   fulfillmentStatusOptions?: Array<{ value: string; label: string; color: string }>
 }
 
-interface ItemDetail {
-  sku: string
-  name: string
-  totalQuantity: number
-  location?: string
-  orders: {
-    orderNumber: string
-    quantity: number
-  }[]
-}
-
 export default function PickingListModal({
   orders,
   isOpen,
   onClose,
   warehouseName = 'Warehouse',
+  warehouse,
   maxOrdersLimit = 'all',
   totalOrdersCount,
   limitedOrdersCount,
@@ -76,39 +70,14 @@ export default function PickingListModal({
   // Calculate how many orders are marked as packed
   const packedOrdersCount = pickedOrders.size
 
-  const consolidatedItems = useMemo(() => {
-    const itemMap = new Map<string, ItemDetail>()
-
-    orders.forEach((order) => {
-      if (order.items && Array.isArray(order.items)) {
-        order.items.forEach(item => {
-          if (itemMap.has(item.sku)) {
-            const existing = itemMap.get(item.sku)!
-            existing.totalQuantity += item.quantity
-            existing.orders.push({
-              orderNumber: order.orderNumber,
-              quantity: item.quantity
-            })
-          } else {
-            itemMap.set(item.sku, {
-              sku: item.sku,
-              name: item.name,
-              totalQuantity: item.quantity,
-              location: item.location || `A${Math.floor(Math.random() * 9) + 1}-B${Math.floor(Math.random() * 5) + 1}`,
-              orders: [{
-                orderNumber: order.orderNumber,
-                quantity: item.quantity
-              }]
-            })
-          }
-        })
-      }
-    })
+  // Products carry each SKU's bin in this warehouse
+  const { products } = useProducts(warehouse?.id)
 
-    return Array.from(itemMap.values()).sort((a, b) => {
-      return (a.location || '').localeCompare(b.location || '')
-    })
-  }, [orders])
+  const { items: consolidatedItems, unslottedItems } = useMemo(() => {
+    return generateConsolidatedItems(orders, { warehouse, products })
+  }, [orders, warehouse, products])
+
+  const totalSkuCount = consolidatedItems.length + unslottedItems.length
 
   useEffect(() => {
     const handleBeforePrint = () => {
@@ -132,14 +101,77 @@ export default function PickingListModal({
     return () => window.removeEventListener('beforeprint', handleBeforePrint)
   }, [pickedItems, pickedOrders])
 
+  const renderItemCard = (item: ConsolidatedItem) => (
+    <div
+      key={item.sku}
+      className={`border rounded-lg p-4 transition-all print:break-inside-avoid print:bg-white print:border-gray-400 ${
+        pickedItems.has(item.sku)
+          ? 'bg-green-50 border-green-300'
+          : 'bg-white border-gray-200 hover:border-gray-300'
+      }`}
+    >
+      <div className="flex items-start justify-between">
+        <div className="flex-1">
+          <div className="flex items-center space-x-3">
+            <input
+              type="checkbox"
+              id={`item-${item.sku}`}
+              checked={pickedItems.has(item.sku)}
+              onChange={() => onItemPicked(item.sku)}
+              className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded print:appearance-auto"
+            />
+            <div>
+              <p className="text-sm font-medium text-gray-900">
+                {item.name}
+              </p>
+              <p className="text-xs text-gray-500">
+                SKU: {item.sku}
+              </p>
+            </div>
+          </div>
+          <div className="mt-2 ml-7">
+            <div className="flex items-center justify-between">
+              <span className="text-lg font-semibold text-gray-900">
+                Qty: {item.totalQuantity}
+              </span>
+              {item.location && (
+                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 print:bg-white print:text-gray-900 print:border print:border-gray-400 print:rounded-none">
+                  Location: {item.location}
+                </span>
+              )}
+            </div>
+            <div className="mt-1">
+              <p className="text-xs text-gray-600">
+                For orders: {item.orders.map(o => `${o.orderNumber} (${o.quantity})`).join(', ')}
+              </p>
+            </div>
+          </div>
+        </div>
+        {pickedItems.has(item.sku) && (
+          <CheckCircleIcon className="h-5 w-5 text-green-600 flex-shrink-0 print:hidden" />
+        )}
+      </div>
+    </div>
+  )
+
   const handlePrint = () => {
     setTimeout(() => {
       window.print()
     }, 100)
   }
 
+  const { printDocument, generating } = useOrderDocuments()
+
+  const handlePrintPDF = () => {
+    printDocument({
+      type: 'pick_list',
+      orderIds: ordersForPicking.map(order => order.id),
+      warehouseId: warehouse?.id
+    })
+  }
+
   const handleExport = () => {
-    downloadPickingListCSV(ordersForPicking, warehouseName)
+    downloadPickingListCSV(ordersForPicking, warehouseName, { warehouse, products })
   }
 
   const handleSetToPicking = () => {
@@ -247,6 +279,14 @@ export default function PickingListModal({
                         <PrinterIcon className="h-4 w-4 mr-2" />
                         Print
                       </button>
+                      <button
+                        onClick={handlePrintPDF}
+                        disabled={generating !== null}
+                        className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        <DocumentTextIcon className="h-4 w-4 mr-2" />
+                        {generating ? 'Generating...' : 'PDF'}
+                      </button>
                       <button
                         onClick={handleExport}
                         className="inline-flex items-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
@@ -277,65 +317,34 @@ export default function PickingListModal({
                     <div className="w-1/2 border-r border-gray-200 print:w-1/2 print:border-r">
                       <div className="px-6 py-4 bg-gray-50 border-b border-gray-200 print:bg-white">
                         <h4 className="text-sm font-medium text-gray-900">Items to Pick</h4>
-                        <p className="text-xs text-gray-500 mt-1">Sorted by location for efficient picking</p>
+                        <p className="text-xs text-gray-500 mt-1">Sorted by zone, aisle, shelf and bin for efficient picking</p>
                       </div>
                       <div className="overflow-y-auto h-[calc(600px-60px)] px-6 py-4 print:h-auto print:overflow-visible">
-                        {consolidatedItems.length === 0 ? (
+                        {totalSkuCount === 0 ? (
                           <p className="text-center text-gray-500 py-8">No items to pick</p>
                         ) : (
                           <div className="space-y-3">
-                            {consolidatedItems.map((item) => (
-                              <div
-                                key={item.sku}
-                                className={`border rounded-lg p-4 transition-all print:break-inside-avoid print:bg-white print:border-gray-400 ${
-                                  pickedItems.has(item.sku)
-                                    ? 'bg-green-50 border-green-300'
-                                    : 'bg-white border-gray-200 hover:border-gray-300'
-                                }`}
-                              >
-                                <div className="flex items-start justify-between">
-                                  <div className="flex-1">
-                                    <div className="flex items-center space-x-3">
-                                      <input
-                                        type="checkbox"
-                                        id={`item-${item.sku}`}
-                                        checked={pickedItems.has(item.sku)}
-                                        onChange={() => onItemPicked(item.sku)}
-                                        className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded print:appearance-auto"
-                                      />
-                                      <div>
-                                        <p className="text-sm font-medium text-gray-900">
-                                          {item.name}
-                                        </p>
-                                        <p className="text-xs text-gray-500">
-                                          SKU: {item.sku}
-                                        </p>
-                                      </div>
-                                    </div>
-                                    <div className="mt-2 ml-7">
-                                      <div className="flex items-center justify-between">
-                                        <span className="text-lg font-semibold text-gray-900">
-                                          Qty: {item.totalQuantity}
-                                        </span>
-                                        {item.location && (
-                                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 print:bg-white print:text-gray-900 print:border print:border-gray-400 print:rounded-none">
-                                            Location: {item.location}
-                                          </span>
-                                        )}
-                                      </div>
-                                      <div className="mt-1">
-                                        <p className="text-xs text-gray-600">
-                                          For orders: {item.orders.map(o => `${o.orderNumber} (${o.quantity})`).join(', ')}
-                                        </p>
-                                      </div>
+                            {consolidatedItems.map(renderItemCard)}
+
+                            {/* Unslotted SKUs - no bin in this warehouse */}
+                            {unslottedItems.length > 0 && (
+                              <div className="pt-3 space-y-3">
+                                <div className="rounded-md bg-amber-50 border border-amber-200 p-3 print:bg-white print:border-gray-400">
+                                  <div className="flex items-start">
+                                    <ExclamationTriangleIcon className="h-5 w-5 text-amber-500 flex-shrink-0 print:hidden" />
+                                    <div className="ml-2">
+                                      <p className="text-sm font-medium text-amber-800 print:text-gray-900">
+                                        {unslottedItems.length} SKU{unslottedItems.length !== 1 ? 's' : ''} without a bin location
+                                      </p>
+                                      <p className="text-xs text-amber-700 mt-1 print:text-gray-700">
+                                        Assign these products to a bin in the warehouse layout so they can be picked by location.
+                                      </p>
                                     </div>
                                   </div>
-                                  {pickedItems.has(item.sku) && (
-                                    <CheckCircleIcon className="h-5 w-5 text-green-600 flex-shrink-0 print:hidden" />
-                                  )}
                                 </div>
+                                {unslottedItems.map(renderItemCard)}
                               </div>
-                            ))}
+                            )}
                           </div>
                         )}
                       </div>
@@ -428,7 +437,7 @@ export default function PickingListModal({
                       </div>
                       <div className="flex items-center space-x-3">
                         <span className="text-sm text-gray-600">
-                          Progress: {pickedItems.size}/{consolidatedItems.length} items, {pickedOrders.size}/{ordersForPicking.length} orders
+                          Progress: {pickedItems.size}/{totalSkuCount} items, {pickedOrders.size}/{ordersForPicking.length} orders
                         </span>
                         <button
                           onClick={onClose}
@@ -0,0 +1,43 @@
+//file path: app/dashboard/orders/components/ShipByBadge.tsx
+
+'use client'
+
+import { Order } from '../utils/orderTypes'
+import { orderIsComplete, orderIsCancelled } from '../utils/orderConstants'
+import { useWarehouses } from '../../warehouses/context/WarehouseContext'
+import { getWarehouseCalendar } from '../../warehouses/utils/warehouseCalendar'
+import { formatShipByDate, getShipByStatus, SHIP_BY_STATUS_COLORS, SHIP_BY_STATUS_LABELS } from '../utils/shipBy'
+
+interface ShipByBadgeProps {
+  order: Order
+}
+
+/**
+ * Ship-by deadline in the warehouse's time zone
+ * Shipped and cancelled orders show the plain deadline, without a late/at-risk color
+ */
+export default function ShipByBadge({ order }: ShipByBadgeProps) {
+  const { warehouses } = useWarehouses()
+
+  if (!order.shipByDate) {
+    return <span className="text-sm text-gray-400">—</span>
+  }
+
+  const warehouse = warehouses.find(w => w.id === order.warehouseId)
+  const { timeZone } = getWarehouseCalendar(warehouse)
+  const label = formatShipByDate(order.shipByDate, timeZone)
+
+  if (orderIsComplete(order) || orderIsCancelled(order)) {
+    return <span className="text-sm text-gray-500">{label}</span>
+  }
+
+  const status = getShipByStatus(order.shipByDate, timeZone)
+  return (
+    <span
+      className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium whitespace-nowrap ${SHIP_BY_STATUS_COLORS[status]}`}
+      title={`${SHIP_BY_STATUS_LABELS[status]} · ${timeZone}`}
+    >
+      {label}
+    </span>
+  )
+}
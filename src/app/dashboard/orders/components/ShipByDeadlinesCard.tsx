@@ -0,0 +1,91 @@
+//file path: app/dashboard/orders/components/ShipByDeadlinesCard.tsx
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ClockIcon } from '@heroicons/react/24/outline'
+import { OrderAPI } from '@/lib/api/orderApi'
+import { Order, ShipByStatus } from '../utils/orderTypes'
+import { SHIP_BY_FILTER_OPTIONS, SHIP_BY_STATUS_COLORS } from '../utils/shipBy'
+import ShipByBadge from './ShipByBadge'
+
+// Late orders listed under the counts
+const LATE_ORDERS_SHOWN = 5
+
+/**
+ * Open orders that are late, at risk or due today, across all warehouses
+ */
+export default function ShipByDeadlinesCard() {
+  const [counts, setCounts] = useState<Partial<Record<ShipByStatus, number>>>({})
+  const [lateOrders, setLateOrders] = useState<Order[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const results = await Promise.all(SHIP_BY_FILTER_OPTIONS.map(option => OrderAPI.queryOrders({
+          shipBy: option.value,
+          sortBy: 'shipByDate',
+          sortDirection: 'asc',
+          limit: option.value === 'late' ? LATE_ORDERS_SHOWN : 1
+        })))
+        if (cancelled) return
+
+        setCounts(Object.fromEntries(SHIP_BY_FILTER_OPTIONS.map((option, index) => [option.value, results[index].totalCount])))
+        setLateOrders(results[SHIP_BY_FILTER_OPTIONS.findIndex(option => option.value === 'late')].orders)
+      } catch (error) {
+        console.error('[ShipByDeadlinesCard] Error loading ship-by counts:', error)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    load()
+    return () => { cancelled = true }
+  }, [])
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <div className="flex items-center gap-2 mb-4">
+        <ClockIcon className="h-5 w-5 text-gray-400" />
+        <h2 className="text-lg font-semibold text-gray-900">Ship-by Deadlines</h2>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            {SHIP_BY_FILTER_OPTIONS.map(option => (
+              <div key={option.value} className={`rounded-md px-3 py-2 ${SHIP_BY_STATUS_COLORS[option.value]}`}>
+                <div className="text-2xl font-bold">{counts[option.value] ?? 0}</div>
+                <div className="text-xs">{option.label}</div>
+              </div>
+            ))}
+          </div>
+
+          {lateOrders.length > 0 ? (
+            <ul className="mt-4 divide-y divide-gray-100">
+              {lateOrders.map(order => (
+                <li key={order.id} className="flex items-center justify-between py-2">
+                  <Link
+                    href={`/dashboard/orders?order=${encodeURIComponent(order.id)}`}
+                    className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+                  >
+                    #{order.orderNumber}
+                  </Link>
+                  <ShipByBadge order={order} />
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-4 text-sm text-gray-500">No late orders.</p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -2,23 +2,37 @@
 
 'use client'
 
-import { Fragment, useState } from 'react'
+import { Fragment, useState, useEffect } from 'react'
 import { Dialog, Transition } from '@headlessui/react'
-import { XMarkIcon, TruckIcon, CheckCircleIcon } from '@heroicons/react/24/outline'
-import { getShippingRates, validateAddress } from '@/lib/services/uspsClient'
-import { OrderWithDetails, ShippingAddress, orderToShippingAddress } from '../utils/orderTypes'
+import { XMarkIcon, TruckIcon, CheckCircleIcon, PlusIcon, TrashIcon, CubeIcon } from '@heroicons/react/24/outline'
+import { getShippingRates, validateAddress, createShippingLabel } from '@/lib/services/uspsClient'
+import { ShippingAPI } from '@/lib/api/shippingApi'
+import { OrderAPI } from '@/lib/api/orderApi'
+import {
+  OrderWithDetails,
+  ShippingAddress,
+  ShippingLabel,
+  orderToShippingAddress,
+  getUnfulfilledQuantity
+} from '../utils/orderTypes'
+import {
+  DraftPackage,
+  getShippableLines,
+  createDraftPackage,
+  getAllocatedQuantity,
+  estimatePackageWeight,
+  validateDraftPackages,
+  toShipmentPackage,
+  isPartialShipment,
+  getShipFromAddress
+} from '../utils/shipmentUtils'
+import { ShippingBox, ShippingRate } from '../../shipping/utils/shippingTypes'
+import { useWarehouses } from '../../warehouses/context/WarehouseContext'
+import { getDefaultPrinterProfile, getLabelPurchaseOptions } from '../../warehouses/utils/printerProfiles'
 
 // ✅ ShippingAddress now imported from orderTypes
 // ✅ Removed duplicate interface
 
-interface ShippingRate {
-  mailClass: string
-  zone: string
-  rate: number
-  deliveryDays?: string
-  deliveryDate?: string
-}
-
 interface Props {
   order: OrderWithDetails // OrderWithDetails includes items array
   isOpen: boolean
@@ -27,26 +41,62 @@ interface Props {
 }
 
 export default function ShippingModal({ order, isOpen, onClose, onShipmentCreated }: Props) {
-  const [step, setStep] = useState<'address' | 'dimensions' | 'rates' | 'label'>('address')
+  const [step, setStep] = useState<'address' | 'packages' | 'rates'>('address')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
 
   // Address validation
   const [validatedAddress, setValidatedAddress] = useState<ShippingAddress | null>(null)
-  const [addressConfirmed, setAddressConfirmed] = useState(false)
 
-  // Package dimensions
-  const [weight, setWeight] = useState(order.totalWeight || 16)
-  const [length, setLength] = useState(10)
-  const [width, setWidth] = useState(8)
-  const [height, setHeight] = useState(6)
+  // Packages - each with its own box, weight, items and label
+  const [boxes, setBoxes] = useState<ShippingBox[]>([])
+
+  // Buy ZPL labels when the warehouse prints on a 4x6 thermal printer
+  const { warehouses } = useWarehouses()
+  const labelOptions = getLabelPurchaseOptions(
+    getDefaultPrinterProfile(warehouses.find(w => w.id === order.warehouseId))
+  )
+  const [packages, setPackages] = useState<DraftPackage[]>([])
+
+  // Shipping rates per package
+  const [rates, setRates] = useState<Record<string, ShippingRate[]>>({})
+  const [selectedRates, setSelectedRates] = useState<Record<string, ShippingRate>>({})
 
-  // Shipping rates
-  const [rates, setRates] = useState<ShippingRate[]>([])
-  const [selectedRate, setSelectedRate] = useState<ShippingRate | null>(null)
+  // Labels are paid for as soon as they're bought - keep them (and which packages are
+  // already recorded on the order) so a retry after a failure never buys a label twice
+  const [purchasedLabels, setPurchasedLabels] = useState<Record<string, ShippingLabel>>({})
+  const [recordedPackages, setRecordedPackages] = useState<string[]>([])
 
   // ✅ Use helper function to get shipping address from order
   const orderAddress = orderToShippingAddress(order)
+  const shippableLines = getShippableLines(order)
+
+  // Load the warehouse's boxes for package presets
+  useEffect(() => {
+    if (!isOpen || !order.warehouseId) return
+
+    ShippingAPI.getBoxes(order.warehouseId)
+      .then(response => setBoxes((response.boxes || []).filter((box: ShippingBox) => box.isActive)))
+      .catch(err => {
+        console.error('[ShippingModal] Error loading boxes:', err)
+        setBoxes([])
+      })
+  }, [isOpen, order.warehouseId])
+
+  // Start with one package holding everything left to ship
+  useEffect(() => {
+    if (!isOpen) return
+
+    const first = createDraftPackage(0)
+    shippableLines.forEach(item => {
+      first.quantities[item.id] = getUnfulfilledQuantity(item)
+    })
+    first.weight = estimatePackageWeight(order, first) || order.totalWeight || 16
+    setPackages([first])
+    setPurchasedLabels({})
+    setRecordedPackages([])
+    // Only reset when the modal opens for an order
+  }, [isOpen, order.id])
 
   // ✅ FIXED: Added storeId as second parameter
   const handleValidateAddress = async () => {
@@ -73,7 +123,7 @@ export default function ShippingModal({ order, isOpen, onClose, onShipmentCreate
         phone: orderAddress.phone,
       })
 
-      setStep('dimensions')
+      setStep('packages')
     } catch (err: any) {
       setError(err.message || 'Failed to validate address')
     } finally {
@@ -81,36 +131,86 @@ export default function ShippingModal({ order, isOpen, onClose, onShipmentCreate
     }
   }
 
+  const buildShipment = (pkg: DraftPackage) => {
+    const address = validatedAddress || orderAddress
+
+    return {
+      fromAddress: getShipFromAddress(warehouses.find(w => w.id === order.warehouseId)),
+      toAddress: {
+        streetAddress: address.streetAddress,
+        secondaryAddress: address.secondaryAddress,
+        city: address.city,
+        state: address.state,
+        ZIPCode: address.zipCode.split('-')[0]
+      },
+      weight: pkg.weight,
+      length: pkg.length,
+      width: pkg.width,
+      height: pkg.height
+    }
+  }
+
+  const updatePackage = (key: string, updates: Partial<DraftPackage>) => {
+    setPackages(prev => prev.map(pkg => pkg.key === key ? { ...pkg, ...updates } : pkg))
+  }
+
+  const handleAddPackage = () => {
+    setPackages(prev => [...prev, createDraftPackage(prev.length)])
+  }
+
+  const handleRemovePackage = (key: string) => {
+    setPackages(prev => prev.filter(pkg => pkg.key !== key))
+  }
+
+  const handleSelectBox = (pkg: DraftPackage, boxId: string) => {
+    const box = boxes.find(b => b.id === boxId)
+    const sized = createDraftPackage(0, box)
+    const next = {
+      ...pkg,
+      boxId: sized.boxId,
+      boxName: sized.boxName,
+      length: sized.length,
+      width: sized.width,
+      height: sized.height
+    }
+    updatePackage(pkg.key, { ...next, weight: estimatePackageWeight(order, next, box) || pkg.weight })
+  }
+
+  const handleQuantityChange = (pkg: DraftPackage, itemId: string, value: number) => {
+    const item = order.items.find(i => i.id === itemId)
+    if (!item) return
+
+    const max = getUnfulfilledQuantity(item) - getAllocatedQuantity(packages, itemId, pkg.key)
+    const quantity = Math.max(0, Math.min(max, Math.floor(value) || 0))
+    const next = { ...pkg, quantities: { ...pkg.quantities, [itemId]: quantity } }
+    const box = boxes.find(b => b.id === pkg.boxId)
+
+    updatePackage(pkg.key, { quantities: next.quantities, weight: estimatePackageWeight(order, next, box) || pkg.weight })
+  }
+
   // ✅ FIXED: Added storeId as second parameter
   const handleCalculateRates = async () => {
+    const validationError = validateDraftPackages(order, packages)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
     setLoading(true)
     setError('')
 
     try {
-      const address = validatedAddress || orderAddress
-
-      const shipment = {
-        fromAddress: {
-          streetAddress: "475 L'Enfant Plaza SW", // TODO: Get from warehouse settings
-          city: 'Washington',
-          state: 'DC',
-          ZIPCode: '20260'
-        },
-        toAddress: {
-          streetAddress: address.streetAddress,
-          secondaryAddress: address.secondaryAddress,
-          city: address.city,
-          state: address.state,
-          ZIPCode: address.zipCode.split('-')[0]
-        },
-        weight,
-        length,
-        width,
-        height
-      }
+      const results = await Promise.all(
+        packages.map(pkg => getShippingRates(buildShipment(pkg), order.storeId))
+      )
 
-      const result = await getShippingRates(shipment,order.storeId)
-      setRates(result.rates)
+      const ratesByPackage: Record<string, ShippingRate[]> = {}
+      packages.forEach((pkg, index) => {
+        ratesByPackage[pkg.key] = results[index].rates || []
+      })
+
+      setRates(ratesByPackage)
+      setSelectedRates({})
       setStep('rates')
     } catch (err: any) {
       setError(err.message || 'Failed to calculate shipping rates')
@@ -119,40 +219,90 @@ export default function ShippingModal({ order, isOpen, onClose, onShipmentCreate
     }
   }
 
-  const handleGenerateLabel = async () => {
-    if (!selectedRate) return
+  const handleGenerateLabels = async () => {
+    if (packages.some(pkg => !selectedRates[pkg.key])) return
 
     setLoading(true)
     setError('')
 
+    const purchased = { ...purchasedLabels }
+    const recorded = [...recordedPackages]
+    const failedSyncs: string[] = []
+
     try {
-      // TODO: Implement label generation
-      console.log('Generating label:', {
-        rate: selectedRate,
-        order: {
-          id: order.id,
-          number: order.orderNumber,
-          storeId: order.storeId,
-          integrationId: order.integrationId,
-        },
-        address: validatedAddress || orderAddress
-      })
+      // Buy and record one package at a time, skipping any done on an earlier attempt
+      for (const pkg of packages) {
+        if (recorded.includes(pkg.key)) continue
+
+        const label = purchased[pkg.key] || await buyLabel(pkg)
+        purchased[pkg.key] = label
+        setPurchasedLabels({ ...purchased })
+
+        // Each package is pushed to the store as its own fulfillment
+        const response = await OrderAPI.createShipment(order.id, {
+          packages: [toShipmentPackage(order, pkg, label)]
+        })
+        recorded.push(pkg.key)
+        setRecordedPackages([...recorded])
+
+        failedSyncs.push(...(response.integrationSync || [])
+          .filter(result => !result.success)
+          .map(result => result.message))
+      }
 
-      // For now, just show success
-      alert('Label generation will be implemented in next step!')
+      if (failedSyncs.length > 0) {
+        alert(`Labels created, but ${failedSyncs.length} package(s) failed to sync to the store:\n${failedSyncs.join('\n')}`)
+      }
 
       if (onShipmentCreated) {
         onShipmentCreated()
       }
 
-      onClose()
+      resetAndClose()
     } catch (err: any) {
-      setError(err.message || 'Failed to generate label')
+      const pending = packages.length - recorded.length
+      setError(`${err.message || 'Failed to generate labels'}${recorded.length > 0 || Object.keys(purchased).length > 0
+        ? ` - ${pending} of ${packages.length} package(s) still to finish. Retry to continue; labels already bought won't be bought again.`
+        : ''}`)
     } finally {
       setLoading(false)
     }
   }
 
+  const buyLabel = async (pkg: DraftPackage): Promise<ShippingLabel> => {
+    const rate = selectedRates[pkg.key]
+    const result = await createShippingLabel({
+      ...buildShipment(pkg),
+      mailClass: rate.mailClass,
+      ...labelOptions,
+      orderId: order.id,
+      orderNumber: order.orderNumber
+    }, order.storeId)
+
+    return {
+      id: result.id || result.trackingNumber,
+      trackingNumber: result.trackingNumber,
+      carrier: 'USPS',
+      serviceType: rate.mailClass,
+      labelUrl: result.labelUrl || '',
+      labelImage: result.labelImage,
+      labelFormat: result.labelFormat || labelOptions.labelFormat,
+      postage: result.postage ?? rate.rate,
+      createdAt: new Date().toISOString(),
+      shipDate: result.shipDate || new Date().toISOString(),
+      deliveryDate: rate.deliveryDate,
+      weight: {
+        lbs: Math.floor(pkg.weight / 16),
+        oz: pkg.weight % 16
+      },
+      dimensions: {
+        length: pkg.length,
+        width: pkg.width,
+        height: pkg.height
+      }
+    }
+  }
+
   const getMailClassDisplayName = (mailClass: string) => {
     const names: Record<string, string> = {
       'USPS_GROUND_ADVANTAGE': 'USPS Ground Advantage',
@@ -167,15 +317,27 @@ export default function ShippingModal({ order, isOpen, onClose, onShipmentCreate
     return names[mailClass] || mailClass
   }
 
-  const handleClose = () => {
+  const resetAndClose = () => {
     setStep('address')
     setValidatedAddress(null)
-    setRates([])
-    setSelectedRate(null)
+    setRates({})
+    setSelectedRates({})
     setError('')
     onClose()
   }
 
+  // Once a label is bought the packages and rates are locked until every package is recorded
+  const hasPurchasedLabels = Object.keys(purchasedLabels).length > 0
+  const hasUnrecordedLabels = Object.keys(purchasedLabels).some(key => !recordedPackages.includes(key))
+
+  const handleClose = () => {
+    if (hasUnrecordedLabels && !confirm('Some labels were bought but are not recorded on the order yet. Close anyway?')) return
+    resetAndClose()
+  }
+
+  const partial = isPartialShipment(order, packages)
+  const totalPostage = Object.values(selectedRates).reduce((sum, rate) => sum + rate.rate, 0)
+
   return (
     <Transition appear show={isOpen} as={Fragment}>
       <Dialog as="div" className="relative z-50" onClose={handleClose}>
@@ -202,7 +364,7 @@ export default function ShippingModal({ order, isOpen, onClose, onShipmentCreate
               leaveFrom="opacity-100 scale-100"
               leaveTo="opacity-0 scale-95"
             >
-              <Dialog.Panel className="w-full max-w-3xl transform overflow-hidden rounded-lg bg-white shadow-xl transition-all">
+              <Dialog.Panel className="w-full max-w-4xl transform overflow-hidden rounded-lg bg-white shadow-xl transition-all">
                 {/* Header */}
                 <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
                   <div className="flex items-center justify-between">
@@ -214,9 +376,8 @@ export default function ShippingModal({ order, isOpen, onClose, onShipmentCreate
                         </Dialog.Title>
                         <p className="text-sm text-gray-500 mt-1">
                           {step === 'address' && 'Step 1: Validate Address'}
-                          {step === 'dimensions' && 'Step 2: Package Dimensions'}
-                          {step === 'rates' && 'Step 3: Select Shipping Rate'}
-                          {step === 'label' && 'Step 4: Generate Label'}
+                          {step === 'packages' && 'Step 2: Packages'}
+                          {step === 'rates' && 'Step 3: Select Shipping Rates'}
                         </p>
                       </div>
                     </div>
@@ -281,134 +442,197 @@ export default function ShippingModal({ order, isOpen, onClose, onShipmentCreate
                     </div>
                   )}
 
-                  {/* Step 2: Package Dimensions */}
-                  {step === 'dimensions' && (
+                  {/* Step 2: Packages */}
+                  {step === 'packages' && (
                     <div className="space-y-4">
-                    {order.items && order.items.length > 0 && (
-                      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                        <h3 className="text-sm font-medium text-blue-900 mb-2">
-                          Order Items
-                        </h3>
-                        <ul className="text-sm text-blue-800 space-y-1">
-                          {order.items.map((item, idx) => (
-                            <li key={idx}>
-                              {item.quantity}x {item.name} ({item.sku})
-                            </li>
+                      {shippableLines.length === 0 ? (
+                        <p className="text-sm text-gray-500 text-center py-8">
+                          Every item on this order has already shipped
+                        </p>
+                      ) : (
+                        <>
+                          {/* Remaining to allocate */}
+                          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                            <h3 className="text-sm font-medium text-blue-900 mb-2">
+                              Items to Ship
+                            </h3>
+                            <ul className="text-sm text-blue-800 space-y-1">
+                              {shippableLines.map(item => {
+                                const remaining = getUnfulfilledQuantity(item)
+                                const allocated = getAllocatedQuantity(packages, item.id)
+                                return (
+                                  <li key={item.id} className="flex justify-between">
+                                    <span>{item.name} ({item.variantSku || item.sku})</span>
+                                    <span className={allocated < remaining ? 'text-amber-700' : ''}>
+                                      {allocated}/{remaining} in packages
+                                      {(item.quantityFulfilled || 0) > 0 && ` • ${item.quantityFulfilled} already shipped`}
+                                    </span>
+                                  </li>
+                                )
+                              })}
+                            </ul>
+                          </div>
+
+                          {partial && (
+                            <div className="bg-amber-50 border border-amber-200 rounded-md p-3">
+                              <p className="text-sm text-amber-800">
+                                Not every item is in a package. The order will be marked Partially Shipped until the rest ships.
+                              </p>
+                            </div>
+                          )}
+
+                          {packages.map((pkg, index) => (
+                            <div key={pkg.key} className="border border-gray-200 rounded-lg p-4 space-y-4">
+                              <div className="flex items-center justify-between">
+                                <h3 className="flex items-center text-sm font-medium text-gray-900">
+                                  <CubeIcon className="h-4 w-4 mr-1.5 text-gray-500" />
+                                  Package {index + 1}
+                                </h3>
+                                <div className="flex items-center gap-2">
+                                  <select
+                                    value={pkg.boxId || ''}
+                                    onChange={(e) => handleSelectBox(pkg, e.target.value)}
+                                    className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                  >
+                                    <option value="">Custom box</option>
+                                    {boxes.map(box => (
+                                      <option key={box.id} value={box.id}>{box.name}</option>
+                                    ))}
+                                  </select>
+                                  {packages.length > 1 && (
+                                    <button
+                                      onClick={() => handleRemovePackage(pkg.key)}
+                                      className="p-1 text-gray-400 hover:text-red-600"
+                                      title="Remove package"
+                                    >
+                                      <TrashIcon className="h-4 w-4" />
+                                    </button>
+                                  )}
+                                </div>
+                              </div>
+
+                              {/* Items in this package */}
+                              <div className="space-y-2">
+                                {shippableLines.map(item => {
+                                  const max = getUnfulfilledQuantity(item) - getAllocatedQuantity(packages, item.id, pkg.key)
+                                  return (
+                                    <div key={item.id} className="flex items-center justify-between text-sm">
+                                      <span className="text-gray-700">{item.name}</span>
+                                      <div className="flex items-center gap-2">
+                                        <input
+                                          type="number"
+                                          min={0}
+                                          max={max}
+                                          value={pkg.quantities[item.id] || 0}
+                                          onChange={(e) => handleQuantityChange(pkg, item.id, Number(e.target.value))}
+                                          className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                        />
+                                        <span className="text-xs text-gray-500 w-12">of {max}</span>
+                                      </div>
+                                    </div>
+                                  )
+                                })}
+                              </div>
+
+                              {/* Weight & dimensions */}
+                              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                                {([
+                                  ['weight', 'Weight (oz) *'],
+                                  ['length', 'Length (in) *'],
+                                  ['width', 'Width (in) *'],
+                                  ['height', 'Height (in) *']
+                                ] as const).map(([field, label]) => (
+                                  <div key={field}>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                                      {label}
+                                    </label>
+                                    <input
+                                      type="number"
+                                      value={pkg[field]}
+                                      onChange={(e) => updatePackage(pkg.key, { [field]: Number(e.target.value) })}
+                                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                      min="1"
+                                    />
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
                           ))}
-                        </ul>
-                      </div>
-                      )}
 
-                      <div>
-                        <h3 className="text-sm font-medium text-gray-900 mb-3">
-                          Package Dimensions
-                        </h3>
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                          <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">
-                              Weight (oz) *
-                            </label>
-                            <input
-                              type="number"
-                              value={weight}
-                              onChange={(e) => setWeight(Number(e.target.value))}
-                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                              min="1"
-                            />
-                          </div>
-                          <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">
-                              Length (in) *
-                            </label>
-                            <input
-                              type="number"
-                              value={length}
-                              onChange={(e) => setLength(Number(e.target.value))}
-                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                              min="1"
-                            />
-                          </div>
-                          <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">
-                              Width (in) *
-                            </label>
-                            <input
-                              type="number"
-                              value={width}
-                              onChange={(e) => setWidth(Number(e.target.value))}
-                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                              min="1"
-                            />
-                          </div>
-                          <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">
-                              Height (in) *
-                            </label>
-                            <input
-                              type="number"
-                              value={height}
-                              onChange={(e) => setHeight(Number(e.target.value))}
-                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                              min="1"
-                            />
-                          </div>
-                        </div>
-                        <p className="text-xs text-gray-500 mt-2">
-                          * All fields are required for accurate rate calculation
-                        </p>
-                      </div>
+                          <button
+                            onClick={handleAddPackage}
+                            className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-700"
+                          >
+                            <PlusIcon className="h-4 w-4 mr-1" />
+                            Add package
+                          </button>
+                        </>
+                      )}
                     </div>
                   )}
 
                   {/* Step 3: Shipping Rates */}
                   {step === 'rates' && (
-                    <div className="space-y-4">
-                      <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
-                        <p className="text-sm text-blue-800">
-                          <strong>Package:</strong> {weight} oz • {length}" × {width}" × {height}"
-                        </p>
-                      </div>
+                    <div className="space-y-6">
+                      {packages.map((pkg, index) => (
+                        <div key={pkg.key} className="space-y-3">
+                          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+                            <p className="text-sm text-blue-800">
+                              <strong>Package {index + 1}:</strong> {pkg.weight} oz • {pkg.length}" × {pkg.width}" × {pkg.height}"
+                              {pkg.boxName && ` • ${pkg.boxName}`}
+                              {recordedPackages.includes(pkg.key)
+                                ? ' • Shipped'
+                                : purchasedLabels[pkg.key] && ' • Label bought'}
+                            </p>
+                          </div>
 
-                      <div>
-                        <h3 className="text-sm font-medium text-gray-900 mb-3">
-                          Available Shipping Options
-                        </h3>
-                        {rates.length === 0 ? (
-                          <p className="text-sm text-gray-500 text-center py-8">
-                            No rates available
-                          </p>
-                        ) : (
-                          <div className="space-y-3">
-                            {rates.map((rate, index) => (
-                              <div
-                                key={index}
-                                onClick={() => setSelectedRate(rate)}
-                                className={`border-2 rounded-lg p-4 cursor-pointer transition-colors ${
-                                  selectedRate === rate
-                                    ? 'border-blue-500 bg-blue-50'
-                                    : 'border-gray-200 hover:border-gray-300'
-                                }`}
-                              >
-                                <div className="flex items-center justify-between">
-                                  <div className="flex-1">
-                                    <p className="font-medium text-gray-900">
-                                      {getMailClassDisplayName(rate.mailClass)}
-                                    </p>
-                                    <p className="text-sm text-gray-500">
-                                      Zone {rate.zone}
-                                      {rate.deliveryDays && ` • ${rate.deliveryDays} days`}
-                                    </p>
-                                  </div>
-                                  <div className="text-right">
-                                    <p className="text-2xl font-bold text-gray-900">
+                          {(rates[pkg.key] || []).length === 0 ? (
+                            <p className="text-sm text-gray-500 text-center py-4">
+                              No rates available
+                            </p>
+                          ) : (
+                            <div className="space-y-2">
+                              {rates[pkg.key].map((rate, rateIndex) => (
+                                <div
+                                  key={rateIndex}
+                                  onClick={() => {
+                                    if (!hasPurchasedLabels) setSelectedRates(prev => ({ ...prev, [pkg.key]: rate }))
+                                  }}
+                                  className={`border-2 rounded-lg p-3 cursor-pointer transition-colors ${
+                                    selectedRates[pkg.key] === rate
+                                      ? 'border-blue-500 bg-blue-50'
+                                      : 'border-gray-200 hover:border-gray-300'
+                                  }`}
+                                >
+                                  <div className="flex items-center justify-between">
+                                    <div className="flex-1">
+                                      <p className="font-medium text-gray-900">
+                                        {getMailClassDisplayName(rate.mailClass)}
+                                      </p>
+                                      <p className="text-sm text-gray-500">
+                                        Zone {rate.zone}
+                                        {rate.deliveryDays && ` • ${rate.deliveryDays} days`}
+                                      </p>
+                                    </div>
+                                    <p className="text-xl font-bold text-gray-900">
                                       ${rate.rate.toFixed(2)}
                                     </p>
                                   </div>
                                 </div>
-                              </div>
-                            ))}
-                          </div>
-                        )}
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+
+                      <div className="flex items-center justify-between border-t border-gray-200 pt-4">
+                        <span className="text-sm text-gray-600">
+                          {packages.length} label{packages.length !== 1 ? 's' : ''}
+                          {partial && ' • Partial shipment'}
+                        </span>
+                        <span className="text-lg font-semibold text-gray-900">
+                          Total: ${totalPostage.toFixed(2)}
+                        </span>
                       </div>
                     </div>
                   )}
@@ -424,12 +648,13 @@ export default function ShippingModal({ order, isOpen, onClose, onShipmentCreate
                 {/* Footer */}
                 <div className="bg-gray-50 px-6 py-4 border-t border-gray-200 flex justify-between">
                   <button
+                    disabled={loading || (step === 'rates' && hasPurchasedLabels)}
                     onClick={() => {
-                      if (step === 'dimensions') setStep('address')
-                      else if (step === 'rates') setStep('dimensions')
+                      if (step === 'packages') setStep('address')
+                      else if (step === 'rates') setStep('packages')
                       else handleClose()
                     }}
-                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     {step === 'address' ? 'Cancel' : 'Back'}
                   </button>
@@ -445,10 +670,10 @@ export default function ShippingModal({ order, isOpen, onClose, onShipmentCreate
                       </button>
                     )}
 
-                    {step === 'dimensions' && (
+                    {step === 'packages' && (
                       <button
                         onClick={handleCalculateRates}
-                        disabled={loading || !weight || !length || !width || !height}
+                        disabled={loading || shippableLines.length === 0}
                         className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         {loading ? 'Calculating...' : 'Calculate Rates'}
@@ -457,11 +682,15 @@ export default function ShippingModal({ order, isOpen, onClose, onShipmentCreate
 
                     {step === 'rates' && (
                       <button
-                        onClick={handleGenerateLabel}
-                        disabled={loading || !selectedRate}
+                        onClick={handleGenerateLabels}
+                        disabled={loading || packages.some(pkg => !selectedRates[pkg.key])}
                         className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
                       >
-                        {loading ? 'Generating...' : 'Generate Label'}
+                        {loading
+                          ? 'Generating...'
+                          : hasPurchasedLabels
+                            ? 'Retry Remaining Labels'
+                            : `Generate ${packages.length} Label${packages.length !== 1 ? 's' : ''}`}
                       </button>
                     )}
                   </div>
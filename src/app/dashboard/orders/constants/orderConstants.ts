@@ -1,6 +1,8 @@
 // File: app/dashboard/orders/constants/orderConstants.ts
 
-import { ColumnConfig } from '../utils/orderTypes'
+import { ColumnConfig, OrderPriority, ShipByStatus, AllocationStatus } from '../utils/orderTypes'
+import { PackingSlipTemplate, PackingSlipBlockType } from '../../stores/utils/storeTypes'
+import { SearchFieldDef } from '@/lib/search/searchQuery'
 
 export const STATUS_COLORS = {
   PENDING: 'bg-yellow-100 text-yellow-800',
@@ -19,6 +21,7 @@ export const FULFILLMENT_COLORS = {
   PACKING: 'bg-orange-100 text-orange-800',
   PACKED: 'bg-indigo-100 text-indigo-800',
   READY_TO_SHIP: 'bg-purple-100 text-purple-800',
+  PARTIALLY_SHIPPED: 'bg-cyan-100 text-cyan-800',
   SHIPPED: 'bg-green-100 text-green-800',
   DELIVERED: 'bg-green-100 text-green-800',
 } as const
@@ -35,10 +38,13 @@ export const DEFAULT_COLUMNS: ColumnConfig[] = [
   { id: 'platform', field: 'platform', label: 'Platform', sortable: true, visible: true },
   { id: 'warehouseName', field: 'warehouseName', label: 'Warehouse', sortable: true, visible: true }, // NEW: Add warehouse column
   { id: 'requestedShipping', field: 'requestedShipping', label: 'Shipping Method', sortable: true, visible: true },
+  { id: 'shipByDate', field: 'shipByDate', label: 'Ship By', sortable: true, visible: true },
+  { id: 'allocationStatus', field: 'allocationStatus', label: 'Stock', sortable: true, visible: true },
   { id: 'actions', field: 'actions', label: 'Actions', sortable: false, visible: true },
 
   // Hidden columns (available but not shown by default)
   { id: 'currency', field: 'currency', label: 'Currency', sortable: true, visible: false },
+  { id: 'baseTotalAmount', field: 'baseTotalAmount', label: 'Total (Base Currency)', sortable: true, visible: false },
   { id: 'country', field: 'country', label: 'Country', sortable: true, visible: false },
   { id: 'countryName', field: 'countryName', label: 'Country Name', sortable: true, visible: false },
   { id: 'countryCode', field: 'countryCode', label: 'Country Code', sortable: true, visible: false },
@@ -65,7 +71,9 @@ export const DEFAULT_FILTERS = {
   dateRange: '',                 // String
   startDate: '',                 // String
   endDate: '',                   // String
-  warehouseId: ''               // String
+  warehouseId: '',              // String
+  shipBy: '' as ShipByStatus | '',  // Ship-by status, '' for any
+  allocation: '' as AllocationStatus | ''  // Allocation status, '' for any
 }
 
 export const DEFAULT_SORT = {
@@ -85,8 +93,54 @@ export const DEFAULT_COMPANY_INFO = {
   website: 'www.yourcompany.com'
 }
 
+// Used for stores without their own packing slip template
+export const DEFAULT_PACKING_SLIP_TEMPLATE: PackingSlipTemplate = {
+  blocks: [
+    { type: 'logo', enabled: false },
+    { type: 'header', enabled: true },
+    { type: 'addresses', enabled: true },
+    { type: 'items', enabled: true },
+    { type: 'giftMessage', enabled: true },
+    { type: 'notes', enabled: true },
+    { type: 'returnInstructions', enabled: false },
+    { type: 'barcode', enabled: false },
+    { type: 'checklist', enabled: true }
+  ],
+  title: 'PACKING SLIP',
+  headerMessage: '',
+  returnInstructions: '',
+  footerText: '',
+  showPrices: false
+}
+
+export const PACKING_SLIP_BLOCK_LABELS: Record<PackingSlipBlockType, string> = {
+  logo: 'Store logo',
+  header: 'Header',
+  addresses: 'Ship to & order info',
+  items: 'Items table',
+  giftMessage: 'Gift messages',
+  notes: 'Special instructions',
+  returnInstructions: 'Return instructions',
+  barcode: 'Order number barcode',
+  checklist: 'Packing checklist'
+}
+
 export const ITEMS_PER_PAGE = 20
 
+// Manually created orders
+export const MANUAL_ORDER_SOURCES = [
+  { value: 'phone', label: 'Phone order' },
+  { value: 'wholesale', label: 'Wholesale order' },
+  { value: 'replacement', label: 'Replacement order' },
+  { value: 'manual', label: 'Other' }
+] as const
+
+// Order list queries (react-query)
+export const ORDERS_STALE_TIME = 30 * 1000            // Serve cached pages for 30s
+export const ORDERS_REFETCH_INTERVAL = 60 * 1000      // Background refetch every minute
+export const ORDERS_BULK_PAGE_SIZE = 250              // Page size when loading a whole queue
+export const ORDER_SEARCH_DEBOUNCE_MS = 300
+
 // Available filter options
 export const FILTER_OPTIONS = {
   STATUS: [
@@ -103,6 +157,7 @@ export const FILTER_OPTIONS = {
     { value: 'PICKING', label: 'Picking' },
     { value: 'PACKED', label: 'Packed' },
     { value: 'READY_TO_SHIP', label: 'Ready to Ship' },
+    { value: 'PARTIALLY_SHIPPED', label: 'Partially Shipped' },
     { value: 'SHIPPED', label: 'Shipped' },
     { value: 'DELIVERED', label: 'Delivered' }
   ],
@@ -116,3 +171,28 @@ export const FILTER_OPTIONS = {
   ],
    STORE: []
 }
+
+// Fields for the structured search box (e.g. "sku:ABC-1 total>100 -platform:etsy")
+// Conditions are sent to /orders/query and run on the server
+export const ORDER_SEARCH_FIELDS: SearchFieldDef[] = [
+  { name: 'order', type: 'text', description: 'Order number', aliases: ['number'] },
+  { name: 'sku', type: 'text', description: 'Any line item SKU' },
+  { name: 'status', type: 'enum', description: 'Order status', values: FILTER_OPTIONS.STATUS },
+  { name: 'fulfillment', type: 'enum', description: 'Fulfillment status', values: FILTER_OPTIONS.FULFILLMENT_STATUS },
+  { name: 'platform', type: 'text', description: 'Sales channel', values: FILTER_OPTIONS.PLATFORM },
+  { name: 'store', type: 'text', description: 'Store name' },
+  { name: 'customer', type: 'text', description: 'Customer name', aliases: ['name'] },
+  { name: 'email', type: 'text', description: 'Customer email' },
+  { name: 'country', type: 'text', description: 'Shipping country code or name' },
+  { name: 'tag', type: 'text', description: 'Order tag', aliases: ['tags'] },
+  { name: 'total', type: 'number', description: 'Order total, e.g. total>100' },
+  { name: 'items', type: 'number', description: 'Number of items' },
+  { name: 'created', type: 'date', description: 'Order date, e.g. created:>2026-09-01', aliases: ['date'] }
+]
+
+export const ORDER_PRIORITY_OPTIONS: { value: OrderPriority; label: string; color: string }[] = [
+  { value: 'urgent', label: 'Urgent', color: 'bg-red-100 text-red-800' },
+  { value: 'high', label: 'High', color: 'bg-orange-100 text-orange-800' },
+  { value: 'normal', label: 'Normal', color: 'bg-gray-100 text-gray-800' },
+  { value: 'low', label: 'Low', color: 'bg-blue-100 text-blue-800' }
+]
@@ -21,6 +21,7 @@ export const FULFILLMENT_STATUS_OPTIONS = [
   { value: 'PACKING', label: 'Packing', color: FULFILLMENT_COLORS.PACKING },
   { value: 'PACKED', label: 'Packed', color: FULFILLMENT_COLORS.PACKED },
   { value: 'READY_TO_SHIP', label: 'Ready to Ship', color: FULFILLMENT_COLORS.READY_TO_SHIP },
+  { value: 'PARTIALLY_SHIPPED', label: 'Partially Shipped', color: FULFILLMENT_COLORS.PARTIALLY_SHIPPED },
   { value: 'SHIPPED', label: 'Shipped', color: FULFILLMENT_COLORS.SHIPPED },
   { value: 'DELIVERED', label: 'Delivered', color: FULFILLMENT_COLORS.DELIVERED }
 ]
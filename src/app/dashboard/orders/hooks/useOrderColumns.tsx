@@ -1,14 +1,15 @@
 // File: app/dashboard/orders/hooks/useOrderColumns.tsx
 
-import { useState, useEffect, useMemo } from 'react'
-import { Order, ColumnConfig, SortState } from '../utils/orderTypes'
+import { useState, useEffect } from 'react'
+import { ColumnConfig, SortState } from '../utils/orderTypes'
 import { DEFAULT_COLUMNS, WAREHOUSE_ORDER_COLUMNS, DEFAULT_SORT } from '../constants/orderConstants'
 import { getCurrentUserId } from '@/lib/storage/userStorage'
-import { useStores } from '@/app/dashboard/stores/hooks/useStores'
-import { getStoreName, getWarehouseName } from '../utils/warehouseUtils'
-import { useWarehouses } from '@/app/dashboard/warehouses/context/WarehouseContext'
+import { SavedViewState } from '@/lib/api/userApi'
+import { applySavedColumns } from '../../shared/utils/savedViews'
 
-export function useOrderColumns(orders: Order[], useWarehouseColumns = false) {
+// Column layout and sort column for the orders table
+// Sorting itself happens on the server (see useOrders)
+export function useOrderColumns(useWarehouseColumns = false) {
   // Use warehouse columns for warehouse-specific pages
   const initialColumns = useWarehouseColumns ? WAREHOUSE_ORDER_COLUMNS : DEFAULT_COLUMNS
 
@@ -16,10 +17,6 @@ export function useOrderColumns(orders: Order[], useWarehouseColumns = false) {
   const [sortConfig, setSortConfig] = useState<SortState>(DEFAULT_SORT)
   const [initialized, setInitialized] = useState(false)
 
-  // Load stores and warehouses for name resolution during sorting
-  const { stores } = useStores()
-  const { warehouses } = useWarehouses()
-
   const userId = getCurrentUserId()
   const storageKeys = {
     columns: `orderColumns_${userId}${useWarehouseColumns ? '_warehouse' : ''}`,
@@ -103,91 +100,6 @@ export function useOrderColumns(orders: Order[], useWarehouseColumns = false) {
     }
   }, [sortConfig, initialized, storageKeys.sortConfig])
 
-  // Sort orders based on current sort config
-  const sortedOrders = useMemo(() => {
-    if (!orders.length) return []
-
-    return [...orders].sort((a, b) => {
-      let aValue: any
-      let bValue: any
-
-      // Get values based on field, using the ACTUAL field names from the data
-      switch (sortConfig.field) {
-        case 'orderNumber':
-          aValue = a.orderNumber || ''
-          bValue = b.orderNumber || ''
-          break
-        case 'customerName':
-          aValue = a.customerName || ''
-          bValue = b.customerName || ''
-          break
-        case 'status':
-          aValue = a.status || ''
-          bValue = b.status || ''
-          break
-        case 'totalAmount':
-          aValue = Number(a.totalAmount) || 0
-          bValue = Number(b.totalAmount) || 0
-          break
-        case 'orderDate':
-          aValue = new Date(a.orderDate).getTime() || 0
-          bValue = new Date(b.orderDate).getTime() || 0
-          break
-        case 'fulfillmentStatus':
-          aValue = a.fulfillmentStatus || ''
-          bValue = b.fulfillmentStatus || ''
-          break
-        case 'itemCount':
-          aValue = a.itemCount || 0
-          bValue = b.itemCount || 0
-          break
-        case 'storeName':
-          aValue = getStoreName(a.storeId, stores)
-          bValue = getStoreName(b.storeId, stores)
-          break
-        case 'platform':
-          aValue = a.platform || ''
-          bValue = b.platform || ''
-          break
-        case 'requestedShipping':
-          aValue = a.requestedShipping || ''
-          bValue = b.requestedShipping || ''
-          break
-        case 'warehouseName':
-          aValue = getWarehouseName(a.warehouseId, warehouses)
-          bValue = getWarehouseName(b.warehouseId, warehouses)
-          break
-        case 'country':
-          aValue = a.country || ''
-          bValue = b.country || ''
-          break
-        default:
-          aValue = String(a[sortConfig.field as keyof Order] || '')
-          bValue = String(b[sortConfig.field as keyof Order] || '')
-      }
-
-      // Handle numeric comparisons
-      if (sortConfig.field === 'totalAmount' || sortConfig.field === 'itemCount') {
-        return sortConfig.direction === 'asc' ? aValue - bValue : bValue - aValue
-      }
-
-      // Handle date comparisons
-      if (sortConfig.field === 'orderDate') {
-        return sortConfig.direction === 'asc' ? aValue - bValue : bValue - aValue
-      }
-
-      // Convert to strings for comparison
-      const aStr = String(aValue).toLowerCase()
-      const bStr = String(bValue).toLowerCase()
-
-      if (sortConfig.direction === 'asc') {
-        return aStr < bStr ? -1 : aStr > bStr ? 1 : 0
-      } else {
-        return aStr > bStr ? -1 : aStr < bStr ? 1 : 0
-      }
-    })
-  }, [orders, sortConfig])
-
   // Handle sorting
   const handleSort = (field: string) => {
     setSortConfig(prev => ({
@@ -210,6 +122,12 @@ export function useOrderColumns(orders: Order[], useWarehouseColumns = false) {
     setColumns(newColumns)
   }
 
+  // Apply the column layout and sort of a saved view
+  const applyLayout = (savedColumns: SavedViewState['columns'], sort: SortState) => {
+    setColumns(applySavedColumns(initialColumns, savedColumns))
+    setSortConfig(sort)
+  }
+
   // Reset to defaults
   const resetToDefaults = () => {
     setColumns(initialColumns)
@@ -229,10 +147,10 @@ export function useOrderColumns(orders: Order[], useWarehouseColumns = false) {
   return {
     columns,
     sortConfig,
-    sortedOrders,
     handleSort,
     handleColumnVisibilityChange,
     handleColumnReorder,
+    applyLayout,
     resetToDefaults,
     isLoading: !initialized
   }
@@ -0,0 +1,66 @@
+// File: app/dashboard/orders/hooks/useOrderDocuments.ts
+import { useState, useCallback } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { DocumentAPI, GenerateDocumentData } from '@/lib/api/documentApi'
+import { OrderDocumentType } from '../utils/orderTypes'
+import { orderKeys } from '../utils/orderQuery'
+
+/**
+ * Print a PDF through a hidden iframe - no popup window, so popup blockers don't interfere
+ */
+export function printPdfBlob(blob: Blob) {
+  const url = URL.createObjectURL(blob)
+  const frame = document.createElement('iframe')
+  frame.style.position = 'fixed'
+  frame.style.width = '0'
+  frame.style.height = '0'
+  frame.style.border = '0'
+  frame.src = url
+
+  frame.onload = () => {
+    frame.contentWindow?.focus()
+    frame.contentWindow?.print()
+    // Keep the frame around long enough for the print dialog to read it
+    setTimeout(() => {
+      frame.remove()
+      URL.revokeObjectURL(url)
+    }, 60000)
+  }
+
+  document.body.appendChild(frame)
+}
+
+/**
+ * Server-rendered packing slips, pick lists, gift cards and slip + label batches
+ */
+export function useOrderDocuments() {
+  const queryClient = useQueryClient()
+  const [generating, setGenerating] = useState<OrderDocumentType | null>(null)
+
+  const printDocument = useCallback(async (data: GenerateDocumentData): Promise<boolean> => {
+    try {
+      setGenerating(data.type)
+      const { blob, documentId } = await DocumentAPI.generate(data)
+      printPdfBlob(blob)
+
+      if (!documentId) {
+        console.warn('[useOrderDocuments] Document was printed but not archived')
+      }
+
+      // Orders now list the new document
+      queryClient.invalidateQueries({ queryKey: orderKeys.all })
+      return true
+    } catch (error: any) {
+      console.error('[useOrderDocuments] Error generating document:', error)
+      alert(error.message || 'Failed to generate document')
+      return false
+    } finally {
+      setGenerating(null)
+    }
+  }, [queryClient])
+
+  return {
+    printDocument,
+    generating
+  }
+}
@@ -1,10 +1,21 @@
 //file path: app/dashboard/orders/hooks/useOrders.ts
 // ✅ Now uses API instead of localStorage
 // ✅ NEW: Added integration sync support for status updates
+// ✅ Orders are filtered, sorted and paginated on the server and cached with react-query
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
+import {
+  useQuery,
+  useQueryClient,
+  useMutation,
+  keepPreviousData,
+  QueryClient,
+  QueryKey
+} from '@tanstack/react-query'
 import { Order } from '../utils/orderTypes'
-import { OrderAPI, IntegrationSyncResult } from '@/lib/api/orderApi'
+import { OrderAPI, IntegrationSyncResult, OrderQueryParams, OrderQueryResult } from '@/lib/api/orderApi'
+import { orderKeys, fetchAllOrders, getCachedOrders } from '../utils/orderQuery'
+import { ITEMS_PER_PAGE, ORDERS_STALE_TIME, ORDERS_REFETCH_INTERVAL } from '../constants/orderConstants'
 
 export interface StatusUpdateOptions {
   syncToIntegration?: boolean;  // Default: true - sync to Shopify/etc.
@@ -23,48 +34,234 @@ export interface StatusUpdateResult {
   error?: string;
 }
 
+type CachedOrders = [QueryKey, OrderQueryResult | undefined][]
+
+const EMPTY_ORDERS: Order[] = []
+
+/**
+ * Optimistically patch orders in every cached list and queue
+ * Returns the previous cache entries so the patch can be rolled back
+ */
+async function patchCachedOrders(
+  queryClient: QueryClient,
+  orderIds: string[],
+  updates: Partial<Order>
+): Promise<CachedOrders> {
+  await queryClient.cancelQueries({ queryKey: orderKeys.all })
+
+  const previous = queryClient.getQueriesData<OrderQueryResult>({ queryKey: orderKeys.all })
+
+  queryClient.setQueriesData<OrderQueryResult>({ queryKey: orderKeys.all }, old => old && {
+    ...old,
+    orders: old.orders.map(order =>
+      orderIds.includes(order.id) ? { ...order, ...updates } : order
+    )
+  })
+
+  return previous
+}
+
+function restoreCachedOrders(queryClient: QueryClient, previous?: CachedOrders) {
+  previous?.forEach(([queryKey, data]) => {
+    queryClient.setQueryData(queryKey, data)
+  })
+}
+
+interface PaginationState {
+  key: string
+  page: number
+  cursors: (string | null)[]    // cursors[n] loads page n + 1
+}
+
 /**
- * Hook to fetch all orders across all warehouses
+ * Hook to fetch one page of orders matching a server-side query
  * ✅ Now uses API instead of localStorage
  * ✅ NEW: Status updates can sync to integrations (Shopify, WooCommerce, etc.)
+ *
+ * Pages are cursor-based: a page can only be reached once the page before it
+ * has been loaded, so `lastReachablePage` tells the pager how far it may jump.
+ * Changing the query or page size starts again from page 1.
  */
-export function useOrders() {
-  const [orders, setOrders] = useState<Order[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+export function useOrders(
+  query: OrderQueryParams,
+  pageSize: number = ITEMS_PER_PAGE,
+  enabled: boolean = true
+) {
+  const queryClient = useQueryClient()
+
+  const paginationKey = JSON.stringify({ query, pageSize })
+  const [pagination, setPagination] = useState<PaginationState>({
+    key: paginationKey,
+    page: 1,
+    cursors: [null]
+  })
+  const current = pagination.key === paginationKey
+    ? pagination
+    : { key: paginationKey, page: 1, cursors: [null] }
+
+  const params: OrderQueryParams = {
+    ...query,
+    cursor: current.cursors[current.page - 1],
+    limit: pageSize
+  }
+
+  const {
+    data: queryData,
+    isLoading,
+    isFetching,
+    error
+  } = useQuery({
+    queryKey: orderKeys.list(params),
+    queryFn: () => OrderAPI.queryOrders(params),
+    enabled,
+    placeholderData: keepPreviousData,
+    staleTime: ORDERS_STALE_TIME,
+    refetchInterval: ORDERS_REFETCH_INTERVAL
+  })
+
+  // Ignore placeholder data from a previous query while disabled
+  const data = enabled ? queryData : undefined
 
+  // Remember the cursor for the page after this one
+  const cursors = [...current.cursors]
+  if (data?.nextCursor && cursors.length === current.page) {
+    cursors.push(data.nextCursor)
+  }
+
+  const totalCount = data?.totalCount ?? 0
+  const totalPages = Math.max(1, Math.ceil(totalCount / pageSize))
+
+  // Prefetch the next page so "Next" is instant
   useEffect(() => {
-    const fetchOrders = async () => {
-      setLoading(true)
-      setError(null)
-
-      try {
-        // ✅ Fetch orders from API (accountId handled by backend via auth token)
-        const ordersData = await OrderAPI.getOrders()
-
-        console.log('[useOrders] Loaded orders from API:', ordersData.length)
-
-        setOrders(ordersData)
-      } catch (err) {
-        console.error('[useOrders] Error fetching orders:', err)
-        setError('Failed to load orders')
-      } finally {
-        setLoading(false)
-      }
-    }
+    if (!enabled || !data?.nextCursor) return
+
+    const nextParams = { ...params, cursor: data.nextCursor }
+    queryClient.prefetchQuery({
+      queryKey: orderKeys.list(nextParams),
+      queryFn: () => OrderAPI.queryOrders(nextParams),
+      staleTime: ORDERS_STALE_TIME
+    })
+  }, [enabled, data?.nextCursor, paginationKey, queryClient])
 
-    fetchOrders()
-  }, [])
+  const setPage = (page: number) => {
+    if (page < 1 || page > cursors.length) return
+    setPagination({ key: paginationKey, page, cursors })
+  }
+
+  // Orders from any cached page (e.g. a selection made across pages)
+  const getOrdersByIds = useCallback(
+    (orderIds: string[]) => getCachedOrders(queryClient, orderIds),
+    [queryClient]
+  )
+
+  const refreshOrders = useCallback(async () => {
+    // ✅ Refetch every cached list from the API
+    await queryClient.invalidateQueries({ queryKey: orderKeys.all })
+  }, [queryClient])
+
+  const fulfillmentMutation = useMutation({
+    mutationFn: async ({ orderIds, fulfillmentStatus, options }: {
+      orderIds: string[]
+      fulfillmentStatus: string
+      options?: StatusUpdateOptions
+    }) =>
+      Promise.all(
+        orderIds.map(orderId =>
+          OrderAPI.updateOrderFulfillmentStatus(orderId, fulfillmentStatus, {
+            syncToIntegration: options?.syncToIntegration ?? true,
+            trackingInfo: options?.trackingInfo,
+            notifyCustomer: options?.notifyCustomer
+          })
+        )
+      ),
+    // Optimistic update - update every cached list immediately
+    onMutate: ({ orderIds, fulfillmentStatus }) =>
+      patchCachedOrders(queryClient, orderIds, { fulfillmentStatus }),
+    onError: (err, _variables, previous) => {
+      console.error('[useOrders] Error updating fulfillment status:', err)
+      restoreCachedOrders(queryClient, previous)
+    },
+    // Refetch so orders move in/out of filtered lists and queues
+    onSettled: () => queryClient.invalidateQueries({ queryKey: orderKeys.all })
+  })
+
+  const statusMutation = useMutation({
+    mutationFn: ({ orderId, status, options }: {
+      orderId: string
+      status: string
+      options?: StatusUpdateOptions
+    }) =>
+      OrderAPI.updateOrder(
+        orderId,
+        { status },
+        {
+          syncToIntegration: options?.syncToIntegration ?? true,
+          notifyCustomer: options?.notifyCustomer
+        }
+      ),
+    onMutate: ({ orderId, status }) =>
+      patchCachedOrders(queryClient, [orderId], { status }),
+    onError: (err, _variables, previous) => {
+      console.error('[useOrders] Error updating order status:', err)
+      restoreCachedOrders(queryClient, previous)
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: orderKeys.all })
+  })
+
+  const holdMutation = useMutation({
+    mutationFn: ({ orderIds, reason }: { orderIds: string[]; reason: string }) =>
+      OrderAPI.holdOrders(orderIds, reason),
+    onMutate: ({ orderIds, reason }) =>
+      patchCachedOrders(queryClient, orderIds, {
+        hold: {
+          reason,
+          source: 'manual',
+          heldBy: null,
+          heldByName: null,
+          heldAt: new Date().toISOString()
+        }
+      }),
+    onError: (err, _variables, previous) => {
+      console.error('[useOrders] Error holding orders:', err)
+      restoreCachedOrders(queryClient, previous)
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: orderKeys.all })
+  })
+
+  const releaseMutation = useMutation({
+    mutationFn: ({ orderIds, reason }: { orderIds: string[]; reason?: string }) =>
+      OrderAPI.releaseOrders(orderIds, reason),
+    onMutate: ({ orderIds }) =>
+      patchCachedOrders(queryClient, orderIds, { hold: null }),
+    onError: (err, _variables, previous) => {
+      console.error('[useOrders] Error releasing orders:', err)
+      restoreCachedOrders(queryClient, previous)
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: orderKeys.all })
+  })
+
+  /**
+   * Put orders on hold manually
+   * Held orders stay out of picking lists, work queues and label creation
+   */
+  const holdOrders = async (orderIds: string[], reason: string) => {
+    try {
+      await holdMutation.mutateAsync({ orderIds, reason })
+      return true
+    } catch {
+      return false
+    }
+  }
 
-  const refreshOrders = async () => {
-    // ✅ Refresh from API
+  /**
+   * Release held orders (manual or rule holds)
+   */
+  const releaseOrders = async (orderIds: string[], reason?: string) => {
     try {
-      const ordersData = await OrderAPI.getOrders()
-      console.log('[useOrders] Refreshed orders from API:', ordersData.length)
-      setOrders(ordersData)
-    } catch (err) {
-      console.error('[useOrders] Error refreshing orders:', err)
-      setError('Failed to refresh orders')
+      await releaseMutation.mutateAsync({ orderIds, reason })
+      return true
+    } catch {
+      return false
     }
   }
 
@@ -75,25 +272,11 @@ export function useOrders() {
     options?: StatusUpdateOptions
   ) => {
     try {
-      // Optimistic update - update local state immediately
-      setOrders(prevOrders =>
-        prevOrders.map(order =>
-          orderIds.includes(order.id)
-            ? { ...order, fulfillmentStatus: newStatus }
-            : order
-        )
-      )
-
-      // ✅ UPDATED: Update via API with integration sync option
-      const results = await Promise.all(
-        orderIds.map(orderId =>
-          OrderAPI.updateOrderFulfillmentStatus(orderId, newStatus, {
-            syncToIntegration: options?.syncToIntegration ?? true,
-            trackingInfo: options?.trackingInfo,
-            notifyCustomer: options?.notifyCustomer
-          })
-        )
-      )
+      const results = await fulfillmentMutation.mutateAsync({
+        orderIds,
+        fulfillmentStatus: newStatus,
+        options
+      })
 
       // Check for any sync failures
       const syncFailures = results.filter(r => r.integrationSync && !r.integrationSync.success)
@@ -103,11 +286,7 @@ export function useOrders() {
 
       console.log('[useOrders] Updated fulfillment status for', orderIds.length, 'orders')
       return true
-    } catch (err) {
-      console.error('[useOrders] Error updating orders:', err)
-      setError('Failed to update orders')
-      // Refresh to get correct state from server
-      await refreshOrders()
+    } catch {
       return false
     }
   }
@@ -120,28 +299,13 @@ export function useOrders() {
    * @param newStatus - New status value
    * @param options - Optional sync settings
    */
-   const updateStatus = async (
-     orderId: string,
-     newStatus: string,
-     options?: StatusUpdateOptions
-   ): Promise<StatusUpdateResult> => {
+  const updateStatus = async (
+    orderId: string,
+    newStatus: string,
+    options?: StatusUpdateOptions
+  ): Promise<StatusUpdateResult> => {
     try {
-      // Optimistic update - update local state immediately
-      setOrders(prevOrders =>
-        prevOrders.map(order =>
-          order.id === orderId ? { ...order, status: newStatus } : order
-        )
-      )
-
-      // ✅ UPDATED: Update via API with integration sync
-      const result = await OrderAPI.updateOrder(
-        orderId,
-        { status: newStatus },
-        {
-          syncToIntegration: options?.syncToIntegration ?? true,
-          notifyCustomer: options?.notifyCustomer
-        }
-      )
+      const result = await statusMutation.mutateAsync({ orderId, status: newStatus, options })
 
       console.log(`[useOrders] Order ${orderId} status updated to ${newStatus}`, {
         integrationSync: result.integrationSync
@@ -152,11 +316,7 @@ export function useOrders() {
         order: result as Order,
         integrationSync: result.integrationSync
       }
-
     } catch (err: unknown) {
-      console.error('[useOrders] Error updating order status:', err)
-      // Refresh to get correct state from server
-      await refreshOrders()
       return {
         success: false,
         error: err instanceof Error ? err.message : 'Failed to update status'
@@ -183,33 +343,21 @@ export function useOrders() {
    *   notifyCustomer: true
    * })
    */
-   const updateFulfillmentStatus = async (
-     orderId: string,
-     newStatus: string,
-     options?: StatusUpdateOptions
-   ): Promise<StatusUpdateResult> => {
+  const updateFulfillmentStatus = async (
+    orderId: string,
+    newStatus: string,
+    options?: StatusUpdateOptions
+  ): Promise<StatusUpdateResult> => {
     try {
-      // Optimistic update - update local state immediately
-      setOrders(prevOrders =>
-        prevOrders.map(order =>
-          order.id === orderId ? { ...order, fulfillmentStatus: newStatus } : order
-        )
-      )
-
       // Determine if we should notify customer (default to true for SHIPPED)
       const shouldNotify = options?.notifyCustomer ??
         (newStatus === 'SHIPPED' || newStatus === 'DELIVERED')
 
-      // ✅ UPDATED: Update via API with integration sync
-      const result = await OrderAPI.updateOrderFulfillmentStatus(
-        orderId,
-        newStatus,
-        {
-          syncToIntegration: options?.syncToIntegration ?? true,
-          trackingInfo: options?.trackingInfo,
-          notifyCustomer: shouldNotify
-        }
-      )
+      const [result] = await fulfillmentMutation.mutateAsync({
+        orderIds: [orderId],
+        fulfillmentStatus: newStatus,
+        options: { ...options, notifyCustomer: shouldNotify }
+      })
 
       console.log(`[useOrders] Order ${orderId} fulfillment status updated to ${newStatus}`, {
         integrationSync: result.integrationSync
@@ -221,9 +369,6 @@ export function useOrders() {
         integrationSync: result.integrationSync
       }
     } catch (err: unknown) {
-      console.error('[useOrders] Error updating order fulfillment status:', err)
-      // Refresh to get correct state from server
-      await refreshOrders()
       return {
         success: false,
         error: err instanceof Error ? err.message : 'Failed to update fulfillment status'
@@ -280,15 +425,45 @@ export function useOrders() {
   }
 
   return {
-    orders,
-    loading,
-    error,
+    orders: data?.orders ?? EMPTY_ORDERS,
+    totalCount,
+    loading: isLoading,
+    isFetching,
+    error: error ? 'Failed to load orders' : null,
+    // Cursor pagination
+    currentPage: current.page,
+    totalPages,
+    lastReachablePage: cursors.length,
+    setPage,
+    getOrdersByIds,
     refreshOrders,
     updateOrdersFulfillmentStatus,
     updateStatus,
     updateFulfillmentStatus,
+    holdOrders,
+    releaseOrders,
     // ✅ NEW: Integration sync methods
     syncOrderToIntegration,
     bulkSyncToIntegration
   }
 }
+
+/**
+ * Hook to load every order matching a query (all pages)
+ * Used for bounded work queues such as orders waiting to be picked or shipped
+ */
+export function useOrderQueue(params: OrderQueryParams, enabled: boolean = true) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: orderKeys.queue(params),
+    queryFn: () => fetchAllOrders(params),
+    enabled,
+    staleTime: ORDERS_STALE_TIME,
+    refetchInterval: ORDERS_REFETCH_INTERVAL
+  })
+
+  return {
+    orders: data?.orders ?? EMPTY_ORDERS,
+    loading: enabled && isLoading,
+    error: error ? 'Failed to load orders' : null
+  }
+}
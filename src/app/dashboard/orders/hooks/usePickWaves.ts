@@ -0,0 +1,119 @@
+//file path: app/dashboard/orders/hooks/usePickWaves.ts
+
+import { useState, useEffect, useCallback } from 'react'
+import { PickWaveAPI, PickWave, CreatePickWaveData } from '@/lib/api/pickWaveApi'
+
+/**
+ * Hook for managing pick waves in a warehouse
+ * Each wave is updated independently, so parallel waves never overwrite each other
+ */
+export function usePickWaves(warehouseId: string | null) {
+  const [waves, setWaves] = useState<PickWave[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadWaves = useCallback(async () => {
+    if (!warehouseId) {
+      setWaves([])
+      setIsLoading(false)
+      return
+    }
+
+    try {
+      setIsLoading(true)
+      setError(null)
+      const data = await PickWaveAPI.getWaves(warehouseId)
+      setWaves(data)
+    } catch (err: any) {
+      console.error('[usePickWaves] Error loading waves:', err)
+      setError(err.message || 'Failed to load pick waves')
+      setWaves([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [warehouseId])
+
+  useEffect(() => {
+    loadWaves()
+  }, [loadWaves])
+
+  // Replace a single wave with the server's copy
+  const replaceWave = useCallback((updated: PickWave) => {
+    setWaves(prev => prev.map(w => w.id === updated.id ? updated : w))
+  }, [])
+
+  const createWave = useCallback(async (data: CreatePickWaveData) => {
+    try {
+      const wave = await PickWaveAPI.createWave(data)
+      setWaves(prev => [wave, ...prev])
+      return wave
+    } catch (err: any) {
+      console.error('[usePickWaves] Error creating wave:', err)
+      setError(err.message || 'Failed to create pick wave')
+      throw err
+    }
+  }, [])
+
+  const runWaveAction = useCallback(async (
+    waveId: string,
+    action: (id: string) => Promise<PickWave>,
+    label: string
+  ) => {
+    try {
+      const wave = await action(waveId)
+      replaceWave(wave)
+      return wave
+    } catch (err: any) {
+      console.error(`[usePickWaves] Error ${label} wave:`, err)
+      setError(err.message || `Failed ${label} pick wave`)
+      throw err
+    }
+  }, [replaceWave])
+
+  const startWave = useCallback(
+    (waveId: string) => runWaveAction(waveId, PickWaveAPI.startWave, 'starting'),
+    [runWaveAction]
+  )
+
+  const completeWave = useCallback(
+    (waveId: string) => runWaveAction(waveId, PickWaveAPI.completeWave, 'completing'),
+    [runWaveAction]
+  )
+
+  const cancelWave = useCallback(
+    (waveId: string) => runWaveAction(waveId, PickWaveAPI.cancelWave, 'cancelling'),
+    [runWaveAction]
+  )
+
+  // Update a line's picked quantity (optimistic)
+  const updateLinePicked = useCallback(async (waveId: string, lineId: string, pickedQuantity: number) => {
+    const previous = waves.find(w => w.id === waveId)
+
+    setWaves(prev => prev.map(w => w.id !== waveId ? w : {
+      ...w,
+      lines: w.lines.map(line => line.id === lineId ? { ...line, pickedQuantity } : line)
+    }))
+
+    try {
+      const wave = await PickWaveAPI.updateLineProgress(waveId, lineId, pickedQuantity)
+      replaceWave(wave)
+    } catch (err: any) {
+      console.error('[usePickWaves] Error updating line progress:', err)
+      setError(err.message || 'Failed to update pick progress')
+      if (previous) replaceWave(previous)
+      throw err
+    }
+  }, [waves, replaceWave])
+
+  return {
+    waves,
+    isLoading,
+    error,
+    createWave,
+    startWave,
+    completeWave,
+    cancelWave,
+    updateLinePicked,
+    refresh: loadWaves
+  }
+}
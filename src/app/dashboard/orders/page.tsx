@@ -2,23 +2,34 @@
 
 'use client'
 
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useEffect, useMemo, Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { PlusIcon, XMarkIcon } from '@heroicons/react/24/outline'
 import { useCurrentAccountId } from '@/hooks/useAccountInitialization'
 import OrderDetailsModal from './OrderDetailsModal'
 import PackingSlip from './PackingSlip'
 import PackingSlipModal from './components/PackingSlipModal'
 import PickingListModal from './components/PickingListModal'
 import ShippingModal from './components/ShippingModal'
+import CombineShipmentModal from './components/CombineShipmentModal'
+import CombinableOrdersPanel from './components/CombinableOrdersPanel'
+import { CombinableGroup } from './utils/orderCombining'
+import CreatePickWaveModal from './components/CreatePickWaveModal'
+import CreateOrderModal from './components/CreateOrderModal'
+import EditOrderModal from './components/EditOrderModal'
+import CreateReturnModal from '../returns/components/CreateReturnModal'
+import PickWavesPanel from './components/PickWavesPanel'
 import OrdersToolbar from './components/OrdersToolbar'
 import OrdersFilters from './components/OrdersFilters'
 import OrdersTable from './components/OrdersTable'
 import OrdersPagination from './components/OrdersPagination'
 
 // Custom hooks
-import { useOrders } from './hooks/useOrders'
+import { useOrders, useOrderQueue } from './hooks/useOrders'
 import { useOrderFilters } from './hooks/useOrderFilters'
 import { useOrderSelection } from './hooks/useOrderSelection'
 import { useOrderColumns } from './hooks/useOrderColumns'
+import { usePickWaves } from './hooks/usePickWaves'
 
 // Warehouse support
 import { useWarehouses } from '../warehouses/hooks/useWarehouses'
@@ -28,18 +39,31 @@ import { useStores } from '../stores/hooks/useStores'
 import WarehouseSelector from '../shared/components/WarehouseSelector'
 import ColumnSettings, { ColumnConfig } from '../shared/components/ColumnSettings'
 import ScreenOptions from '../shared/components/ScreenOptions'
+import SavedViewsMenu from '../shared/components/SavedViewsMenu'
 import { usePagination } from '../shared/hooks/usePagination'
 import { withAuth } from '../shared/components/withAuth'
+import { AuthLoadingState } from '../shared/components/AuthLoadingState'
 
 // Utils
-import { transformToDetailedOrder } from './utils/orderUtils'
+import { transformToDetailedOrder, formatCurrency } from './utils/orderUtils'
+import { getOrderBaseTotal } from '../shared/utils/currency'
+import CurrencyDisplayToggle from '../shared/components/CurrencyDisplayToggle'
 import { exportToCSV, ExportableItem } from '../shared/utils/csvExporter'
+import { toSavedColumns } from '../shared/utils/savedViews'
 import { printMultiplePackingSlips } from './utils/packingSlipGenerator'
-import { orderNeedsPicking, orderNeedsShippingDynamic } from './utils/orderConstants'
+import { orderNeedsPicking, orderNeedsShippingDynamic, getOpenFulfillmentStatusCodes } from './utils/orderConstants'
+import { fetchAllOrders } from './utils/orderQuery'
+import { canEditOrder } from './utils/orderEditing'
+import { getOrderAllocationStatus, ALLOCATION_STATUS_LABELS } from './utils/allocation'
+import { canCreateReturn } from '../returns/utils/returnUtils'
 import { enrichOrdersWithNames } from './utils/warehouseUtils'
 
 // Types
-import { Order, OrderWithDetails } from './utils/orderTypes'
+import { Order, OrderWithDetails, FilterState, isOrderOnHold } from './utils/orderTypes'
+import { SavedViewState } from '@/lib/api/userApi'
+import { CreatePickWaveData } from '@/lib/api/pickWaveApi'
+import { OrderAPI } from '@/lib/api/orderApi'
+import { WarehouseAPI, PackVerificationRecord } from '@/lib/api/warehouseApi'
 import { ITEMS_PER_PAGE, STATUS_COLORS, FULFILLMENT_COLORS } from './constants/orderConstants'
 
 //Settings
@@ -71,6 +95,10 @@ const exportOrdersToCSV = (orders: Order[], columns: ColumnConfig[]) => {
           }).format(order.totalAmount || 0)
         case 'currency':
           return order.currency || ''
+        case 'baseTotalAmount': {
+          const baseTotal = getOrderBaseTotal(order)
+          return baseTotal != null && order.baseCurrency ? formatCurrency(baseTotal, order.baseCurrency) : ''
+        }
         case 'itemCount':
           return (order.itemCount || 0).toString()
         case 'platform':
@@ -100,6 +128,10 @@ const exportOrdersToCSV = (orders: Order[], columns: ColumnConfig[]) => {
           }) : ''
         case 'orderYear':
           return order.orderDate ? new Date(order.orderDate).getFullYear().toString() : ''
+        case 'shipByDate':
+          return order.shipByDate ? new Date(order.shipByDate).toLocaleString() : ''
+        case 'allocationStatus':
+          return ALLOCATION_STATUS_LABELS[getOrderAllocationStatus(order)]
         default:
           return value?.toString() || ''
       }
@@ -116,6 +148,12 @@ const exportOrdersToCSV = (orders: Order[], columns: ColumnConfig[]) => {
 
 // ✅ Main content component - receives guaranteed valid accountId from withAuth HOC
 function OrdersPageContent({ accountId }: { accountId: string }) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  // Set when arriving from a customer record ("View all orders")
+  const customerEmail = searchParams.get('customer') || undefined
+
   // Warehouse selection (localStorage for UI state is OK - not auth-related)
   const [selectedWarehouseId, setSelectedWarehouseId] = useState<string>(() => {
     if (typeof window !== 'undefined') {
@@ -142,8 +180,13 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
   const [showPackingSlip, setShowPackingSlip] = useState(false)
   const [showPackingSlipModal, setShowPackingSlipModal] = useState(false)
   const [showPickingList, setShowPickingList] = useState(false)
+  const [showCreateWave, setShowCreateWave] = useState(false)
+  const [createWaveMode, setCreateWaveMode] = useState<'selection' | 'rules'>('selection')
   const [selectedOrder, setSelectedOrder] = useState<OrderWithDetails | null>(null)
-  const [currentPage, setCurrentPage] = useState(1)
+  const [showCreateOrder, setShowCreateOrder] = useState(false)
+  const [editingOrder, setEditingOrder] = useState<OrderWithDetails | null>(null)
+  const [returnOrder, setReturnOrder] = useState<OrderWithDetails | null>(null)
+  const [combineGroup, setCombineGroup] = useState<CombinableGroup | null>(null)
 
   const [showOrdersToShip, setShowOrdersToShip] = useState(false)
   const [showItemsToShip, setShowItemsToShip] = useState(false)
@@ -231,14 +274,77 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
     }
   }, [selectedWarehouseId])
 
+  const {
+    searchTerm,
+    setSearchTerm,
+    showFilters,
+    setShowFilters,
+    filters,
+    setFilters,
+    queryParams,
+    preferencesLoading
+  } = useOrderFilters()
+
+  const {
+    columns,
+    sortConfig,
+    handleSort,
+    handleColumnVisibilityChange,
+    handleColumnReorder,
+    applyLayout,
+    resetToDefaults,
+    isLoading: columnsLoading
+  } = useOrderColumns()
+
+  // Saved views capture the filters, search, sort and columns
+  const savedViewState = useMemo<SavedViewState>(() => ({
+    filters,
+    search: searchTerm,
+    sort: sortConfig,
+    columns: toSavedColumns(columns)
+  }), [filters, searchTerm, sortConfig, columns])
+
+  const handleApplyView = (state: SavedViewState) => {
+    setFilters(state.filters as FilterState)
+    setSearchTerm(state.search)
+    applyLayout(state.columns, state.sort)
+  }
+
+  const { ordersPerPage, setOrdersPerPage } = usePagination()
+
+  // Filtering, search, sorting and paging all happen on the server
+  const orderQuery = useMemo(() => ({
+    ...queryParams,
+    warehouseId: selectedWarehouseId || queryParams.warehouseId,
+    customerEmail,
+    sortBy: sortConfig.field,
+    sortDirection: sortConfig.direction
+  }), [queryParams, selectedWarehouseId, customerEmail, sortConfig])
+
   const {
     orders,
+    totalCount,
     loading,
+    currentPage,
+    totalPages,
+    lastReachablePage,
+    setPage,
+    getOrdersByIds,
     updateOrdersFulfillmentStatus,
     updateStatus,
     updateFulfillmentStatus,
+    holdOrders,
+    releaseOrders,
     refreshOrders
-  } = useOrders()
+  } = useOrders(orderQuery, ordersPerPage || 20)
+
+  // Work queue: every order in the warehouse still waiting to be picked or shipped
+  const queueQuery = useMemo(() => ({
+    warehouseId: selectedWarehouseId || undefined,
+    fulfillmentStatus: getOpenFulfillmentStatusCodes(fulfillmentStatuses)
+  }), [selectedWarehouseId, fulfillmentStatuses])
+
+  const { orders: queueOrders } = useOrderQueue(queueQuery, !fulfillmentLoading)
 
   // ✅ Wrapper functions to match OrdersTable expected types (Promise<void>)
   const handleUpdateOrderStatus = async (orderId: string, newStatus: string): Promise<void> => {
@@ -249,13 +355,6 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
     await updateFulfillmentStatus(orderId, newStatus)
   }
 
-  const warehouseFilteredOrders = useMemo(() => {
-    if (!selectedWarehouseId || selectedWarehouseId === '') {
-      return orders
-    }
-    return orders.filter(order => order.warehouseId === selectedWarehouseId)
-  }, [orders, selectedWarehouseId])
-
   // Add these two state variables for shipping
   const [showShippingModal, setShowShippingModal] = useState(false)
   const [orderToShip, setOrderToShip] = useState<Order | null>(null)
@@ -264,7 +363,7 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
   // Clean up stale order IDs from packedOrders Set
   useEffect(() => {
     if (typeof window !== 'undefined' && packedOrders.size > 0) {
-      const currentOrderIds = new Set(warehouseFilteredOrders.map(o => o.id))
+      const currentOrderIds = new Set(queueOrders.map(o => o.id))
       const validPackedOrders = new Set(
         Array.from(packedOrders).filter(id => currentOrderIds.has(id))
       )
@@ -274,17 +373,7 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
         setPackedOrders(validPackedOrders)
       }
     }
-  }, [warehouseFilteredOrders, packedOrders])
-
-  const {
-    searchTerm,
-    setSearchTerm,
-    showFilters,
-    setShowFilters,
-    filters,
-    setFilters,
-    filteredOrders
-  } = useOrderFilters(warehouseFilteredOrders)
+  }, [queueOrders, packedOrders])
 
   const {
     selectedOrders,
@@ -293,17 +382,33 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
     clearSelection
   } = useOrderSelection()
 
+  // Held orders stay out of the work queues until released
   const ordersToShip = useMemo(() => {
-    return warehouseFilteredOrders.filter(order => {
-      return orderNeedsShippingDynamic(order, fulfillmentStatuses)
+    return queueOrders.filter(order => {
+      return orderNeedsShippingDynamic(order, fulfillmentStatuses) && !isOrderOnHold(order)
     })
-  }, [warehouseFilteredOrders, fulfillmentStatuses])
+  }, [queueOrders, fulfillmentStatuses])
 
   const ordersToPick = useMemo(() => {
-    return warehouseFilteredOrders.filter(order => {
-      return orderNeedsPicking(order, fulfillmentStatuses)
+    return queueOrders.filter(order => {
+      return orderNeedsPicking(order, fulfillmentStatuses) && !isOrderOnHold(order)
     })
-  }, [warehouseFilteredOrders, fulfillmentStatuses])
+  }, [queueOrders, fulfillmentStatuses])
+
+  const heldOrdersCount = useMemo(() => {
+    return queueOrders.filter(isOrderOnHold).length
+  }, [queueOrders])
+
+  // Pick waves only exist per warehouse
+  const {
+    waves: pickWaves,
+    isLoading: pickWavesLoading,
+    createWave,
+    startWave,
+    completeWave,
+    cancelWave,
+    updateLinePicked
+  } = usePickWaves(selectedWarehouseId || null)
 
   const itemsToShip = useMemo(() => {
     const detailedOrders = ordersToShip.map(order => transformToDetailedOrder(order))
@@ -331,10 +436,14 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
     return totalQuantity
   }, [ordersToPick])
 
+  // Selection can span table pages, so look orders up in the query cache
+  const selectedOrdersList = useMemo(() => {
+    return getOrdersByIds(Array.from(selectedOrders))
+  }, [selectedOrders, getOrdersByIds, orders, queueOrders])
+
   const selectedOrdersForPicking = useMemo(() => {
-    const selectedOrderIds = Array.from(selectedOrders)
-    return warehouseFilteredOrders.filter(order => selectedOrderIds.includes(order.id))
-  }, [selectedOrders, warehouseFilteredOrders])
+    return selectedOrdersList.filter(order => !isOrderOnHold(order))
+  }, [selectedOrdersList])
 
   const itemsInSelectedOrders = useMemo(() => {
     const detailedOrders = selectedOrdersForPicking.map(order => transformToDetailedOrder(order))
@@ -464,26 +573,10 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
       .reduce((sum, item) => sum + item.totalQuantity, 0)
   }, [pickedItems, consolidatedItemsForPicking])
 
-  const {
-    columns,
-    sortConfig,
-    sortedOrders,
-    handleSort,
-    handleColumnVisibilityChange,
-    handleColumnReorder,
-    resetToDefaults
-  } = useOrderColumns(filteredOrders)
-
-  const { ordersPerPage, setOrdersPerPage } = usePagination()
-  const totalPages = Math.ceil(sortedOrders.length / (ordersPerPage || 20))
-  const startIndex = (currentPage - 1) * (ordersPerPage || 20)
-  const endIndex = startIndex + (ordersPerPage || 20)
-
   // ✅ Enrich orders with current warehouse AND store names dynamically
-  const paginatedOrders = sortedOrders.slice(startIndex, endIndex)
   const currentOrders = useMemo(() => {
-    return enrichOrdersWithNames(paginatedOrders, warehouses, stores)
-  }, [paginatedOrders, warehouses, stores])
+    return enrichOrdersWithNames(orders, warehouses, stores)
+  }, [orders, warehouses, stores])
 
   const handleItemPicked = (sku: string) => {
     setPickedItems(prev => {
@@ -521,6 +614,14 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
     })
   }
 
+  // Packing station: record how the order was verified, then mark it packed
+  const handleOrderVerified = async (record: PackVerificationRecord) => {
+    if (selectedWarehouseId) {
+      await WarehouseAPI.recordPackVerification(selectedWarehouseId, record)
+    }
+    setPackedOrders(prev => new Set(prev).add(record.orderId))
+  }
+
   const handleUpdateFulfillmentStatus = async (orderIds: string[], status: string) => {
     const success = await updateOrdersFulfillmentStatus(orderIds, status)
 
@@ -537,6 +638,51 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
     setShowOrderDetails(true)
   }
 
+  // Open an order linked from elsewhere (e.g. a comment mention)
+  const linkedOrderId = searchParams.get('order')
+  useEffect(() => {
+    if (!linkedOrderId) return
+
+    OrderAPI.getOrder(linkedOrderId)
+      .then((order: Order) => handleViewOrderDetails(order))
+      .catch(error => console.error('Error loading linked order:', error))
+  }, [linkedOrderId])
+
+  const handleEditOrder = (order: OrderWithDetails) => {
+    setShowOrderDetails(false)
+    setSelectedOrder(null)
+    setEditingOrder(order)
+  }
+
+  const handleCreateReturn = (order: OrderWithDetails) => {
+    setShowOrderDetails(false)
+    setSelectedOrder(null)
+    setReturnOrder(order)
+  }
+
+  const handleHoldOrders = async (orderIds: string[]) => {
+    const reason = prompt(`Why are you holding ${orderIds.length} order(s)?`)
+    if (!reason?.trim()) return false
+
+    const success = await holdOrders(orderIds, reason.trim())
+    if (!success) {
+      alert('Failed to hold orders. Please try again.')
+    }
+    return success
+  }
+
+  const handleReleaseOrders = async (orderIds: string[]) => {
+    if (!confirm(`Release ${orderIds.length} order(s)? They'll go back into the picking and shipping queues.`)) {
+      return false
+    }
+
+    const success = await releaseOrders(orderIds)
+    if (!success) {
+      alert('Failed to release orders. Please try again.')
+    }
+    return success
+  }
+
   const handlePrintPackingSlips = () => {
     if (selectedOrders.size === 0) {
       alert('Please select at least one order to print packing slips.')
@@ -561,18 +707,28 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
   }
 
   const handleShipOrder = (order: Order) => {
+    if (isOrderOnHold(order)) {
+      alert(`Order #${order.orderNumber} is on hold (${order.hold!.reason}). Release it before shipping.`)
+      return
+    }
     console.log('🚢 Ship button clicked!', order)  // ADD THIS
     setOrderToShip(order)
     setShowShippingModal(true)
   }
 
-  const handleExport = () => {
-    exportOrdersToCSV(sortedOrders, columns.filter(col => col.visible))
+  const handleExport = async () => {
+    try {
+      // Export every order matching the current filters, not just this page
+      const { orders: allOrders } = await fetchAllOrders(orderQuery)
+      exportOrdersToCSV(allOrders, columns.filter(col => col.visible))
+    } catch (error) {
+      console.error('Error exporting orders:', error)
+      alert('Failed to export orders. Please try again.')
+    }
   }
 
   const handleResetLayout = () => {
     resetToDefaults()
-    setCurrentPage(1)
     clearSelection()
   }
 
@@ -592,7 +748,6 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
 
   const handleItemsPerPageChange = (newItemsPerPage: number) => {
     setOrdersPerPage(newItemsPerPage)
-    setCurrentPage(1)
   }
 
   const handleMaxPickingOrdersChange = (value: string) => {
@@ -601,7 +756,6 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
 
   const handleWarehouseChange = (warehouseId: string) => {
     setSelectedWarehouseId(warehouseId)
-    setCurrentPage(1)
     clearSelection()
 
     // Save to localStorage
@@ -619,6 +773,14 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
     window.history.replaceState({}, '', url.toString())
   }
 
+  // Drop only the customer filter - the view, warehouse and other params stay
+  const handleClearCustomer = () => {
+    const params = new URLSearchParams(window.location.search)
+    params.delete('customer')
+    const query = params.toString()
+    router.replace(query ? `/dashboard/orders?${query}` : '/dashboard/orders')
+  }
+
   const handleOrdersToShipChange = (checked: boolean) => {
     setShowOrdersToShip(checked)
 
@@ -667,6 +829,18 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
     setShowPickingList(true)
   }
 
+  const handleOpenCreateWave = (mode: 'selection' | 'rules') => {
+    setCreateWaveMode(mode)
+    setShowCreateWave(true)
+  }
+
+  const handleCreateWaves = async (waves: CreatePickWaveData[]) => {
+    for (const wave of waves) {
+      await createWave(wave)
+    }
+    clearSelection()
+  }
+
   const handleClearPickingState = () => {
     setPickedItems(new Set())
     setPickedOrders(new Set())
@@ -705,6 +879,30 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
           <p className="mt-2 text-sm text-gray-700">
             Manage orders across all warehouses.
           </p>
+          {customerEmail && (
+            <span className="mt-2 inline-flex items-center gap-x-1 rounded-full bg-indigo-100 px-3 py-1 text-sm text-indigo-800">
+              Customer: {customerEmail}
+              <button
+                type="button"
+                onClick={handleClearCustomer}
+                className="text-indigo-500 hover:text-indigo-700"
+                title="Clear customer filter"
+              >
+                <XMarkIcon className="h-4 w-4" />
+              </button>
+            </span>
+          )}
+        </div>
+        <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none flex items-center gap-x-3">
+          <CurrencyDisplayToggle />
+          <button
+            type="button"
+            onClick={() => setShowCreateOrder(true)}
+            className="inline-flex items-center gap-x-2 rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+          >
+            <PlusIcon className="h-5 w-5" />
+            Create Order
+          </button>
         </div>
       </div>
 
@@ -789,6 +987,11 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
                     (of {ordersToShip.length} total)
                   </span>
                 )}
+                {heldOrdersCount > 0 && (
+                  <span className="text-xs text-red-600 ml-1">
+                    · {heldOrdersCount} on hold
+                  </span>
+                )}
               </span>
             </label>
 
@@ -828,8 +1031,7 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
         onPrintPackingSlips={handlePrintPackingSlips}
         onShipNow={() => {
           // Ship the first selected order
-          const firstOrderId = Array.from(selectedOrders)[0]
-          const order = warehouseFilteredOrders.find(o => o.id === firstOrderId)
+          const [order] = selectedOrdersForPicking
           if (order) {
             handleShipOrder(order)
           }
@@ -845,11 +1047,39 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
         onMaxPickingOrdersChange={handleMaxPickingOrdersChange}
         showItemsToShip={showItemsToShip}
         onShowPickingList={handleShowPickingList}
+        onCreatePickWave={() => handleOpenCreateWave('selection')}
+        onHoldSelected={async () => {
+          if (await handleHoldOrders(selectedOrdersForPicking.map(order => order.id))) {
+            clearSelection()
+          }
+        }}
+        onReleaseSelected={async () => {
+          const heldIds = selectedOrdersList.filter(isOrderOnHold).map(order => order.id)
+          if (await handleReleaseOrders(heldIds)) {
+            clearSelection()
+          }
+        }}
+        heldSelectedCount={selectedOrdersList.length - selectedOrdersForPicking.length}
         itemsToShipCount={itemsInLimitedPickingOrders}
         isSpecificWarehouse={selectedWarehouseId !== ''}
         fulfillmentStatusOptions={fulfillmentStatusOptions}
       />
 
+      {selectedWarehouseId && (
+        <div className="mt-4">
+          <PickWavesPanel
+            waves={pickWaves}
+            isLoading={pickWavesLoading}
+            onAutoBuild={() => handleOpenCreateWave('rules')}
+            onStart={startWave}
+            onComplete={completeWave}
+            onCancel={cancelWave}
+            onUpdateLine={updateLinePicked}
+          />
+          <CombinableOrdersPanel orders={ordersToShip} onCombine={setCombineGroup} />
+        </div>
+      )}
+
       <OrdersFilters
         searchTerm={searchTerm}
         onSearchChange={setSearchTerm}
@@ -868,7 +1098,14 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
         columns={columns}
         onColumnVisibilityChange={handleColumnVisibilityChange}
         onResetLayout={handleResetLayout}
-        orders={warehouseFilteredOrders}
+        viewsMenu={
+          <SavedViewsMenu
+            page="orders"
+            currentState={savedViewState}
+            onApply={handleApplyView}
+            ready={!preferencesLoading && !columnsLoading}
+          />
+        }
       />
 
 
@@ -893,9 +1130,10 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
       <OrdersPagination
         currentPage={currentPage}
         totalPages={totalPages}
-        totalItems={sortedOrders.length}
+        totalItems={totalCount}
         itemsPerPage={ordersPerPage || 20}
-        onPageChange={setCurrentPage}
+        onPageChange={setPage}
+        lastReachablePage={lastReachablePage}
       />
 
       <div className="mt-4 flex justify-end">
@@ -915,6 +1153,51 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
             setShowOrderDetails(false)
             setSelectedOrder(null)
           }}
+          onEdit={canEditOrder(selectedOrder, fulfillmentStatuses) ? () => handleEditOrder(selectedOrder) : undefined}
+          onCreateReturn={canCreateReturn(selectedOrder) ? () => handleCreateReturn(selectedOrder) : undefined}
+          onHold={async () => {
+            if (await handleHoldOrders([selectedOrder.id])) {
+              setShowOrderDetails(false)
+              setSelectedOrder(null)
+            }
+          }}
+          onRelease={async () => {
+            if (await handleReleaseOrders([selectedOrder.id])) {
+              setShowOrderDetails(false)
+              setSelectedOrder(null)
+            }
+          }}
+          onCommentsChange={() => refreshOrders()}
+        />
+      )}
+
+      <CreateOrderModal
+        isOpen={showCreateOrder}
+        onClose={() => setShowCreateOrder(false)}
+        stores={stores}
+        warehouses={warehouses}
+        defaultWarehouseId={selectedWarehouseId || undefined}
+        onOrderCreated={(order) => {
+          refreshOrders()
+          alert(`Order #${order.orderNumber} created`)
+        }}
+      />
+
+      <EditOrderModal
+        isOpen={editingOrder !== null}
+        onClose={() => setEditingOrder(null)}
+        order={editingOrder}
+        onOrderUpdated={() => refreshOrders()}
+      />
+
+      {returnOrder && (
+        <CreateReturnModal
+          isOpen={returnOrder !== null}
+          onClose={() => setReturnOrder(null)}
+          order={returnOrder}
+          warehouses={warehouses}
+          stores={stores}
+          onReturnCreated={(rma) => alert(`Return ${rma.rmaNumber} created`)}
         />
       )}
 
@@ -942,6 +1225,8 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
           onOrderPacked={handleOrderPacked}
           fulfillmentStatusOptions={fulfillmentStatusOptions}
           onUpdateFulfillmentStatus={handleUpdateFulfillmentStatus}
+          warehouseId={selectedWarehouseId || undefined}
+          onOrderVerified={handleOrderVerified}
         />
       )}
 
@@ -951,6 +1236,7 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
           isOpen={showPickingList}
           onClose={() => setShowPickingList(false)}
           warehouseName={selectedWarehouse ? selectedWarehouse.name : 'All Warehouses'}
+          warehouse={selectedWarehouse}
           maxOrdersLimit={selectedOrdersForPicking.length > 0 ? "all" : maxPickingOrders}
           totalOrdersCount={selectedOrdersForPicking.length > 0 ? selectedOrdersForPicking.length : ordersToShip.length}
           limitedOrdersCount={ordersWithDetailsForPicking.length}
@@ -964,6 +1250,30 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
         />
       )}
 
+      {showCreateWave && selectedWarehouse && (
+        <CreatePickWaveModal
+          isOpen={showCreateWave}
+          onClose={() => setShowCreateWave(false)}
+          warehouse={selectedWarehouse}
+          selectedOrders={selectedOrdersForPicking}
+          pickableOrders={ordersToPick}
+          existingWaves={pickWaves}
+          initialMode={createWaveMode}
+          onCreateWaves={handleCreateWaves}
+        />
+      )}
+
+      {combineGroup && (
+        <CombineShipmentModal
+          isOpen={combineGroup !== null}
+          onClose={() => setCombineGroup(null)}
+          group={combineGroup}
+          onShipmentCreated={() => {
+            refreshOrders()
+          }}
+        />
+      )}
+
       {showShippingModal && orderToShip && (
         <ShippingModal
           order={transformToDetailedOrder(orderToShip)}
@@ -983,4 +1293,13 @@ function OrdersPageContent({ accountId }: { accountId: string }) {
 }
 
 // ✅ Export the HOC-wrapped component - handles all authentication automatically!
-export default withAuth(OrdersPageContent)
+const OrdersContentWithAuth = withAuth(OrdersPageContent)
+
+// useSearchParams needs a Suspense boundary
+export default function OrdersPage() {
+  return (
+    <Suspense fallback={<AuthLoadingState message="Loading orders..." />}>
+      <OrdersContentWithAuth />
+    </Suspense>
+  )
+}
@@ -0,0 +1,41 @@
+// File: app/dashboard/orders/utils/allocation.ts
+
+import { AllocationStatus, Order, OrderItem, getUnfulfilledQuantity } from './orderTypes'
+
+export const ALLOCATION_STATUS_LABELS: Record<AllocationStatus, string> = {
+  allocated: 'Fully allocated',
+  partial: 'Partially allocated',
+  backordered: 'Backordered',
+  unallocated: 'Not allocated'
+}
+
+export const ALLOCATION_STATUS_COLORS: Record<AllocationStatus, string> = {
+  allocated: 'bg-green-100 text-green-800',
+  partial: 'bg-yellow-100 text-yellow-800',
+  backordered: 'bg-red-100 text-red-800',
+  unallocated: 'bg-gray-100 text-gray-700'
+}
+
+export const ALLOCATION_FILTER_OPTIONS: { value: AllocationStatus; label: string }[] = [
+  { value: 'allocated', label: 'Fully allocated' },
+  { value: 'partial', label: 'Partially allocated' },
+  { value: 'backordered', label: 'Backordered' },
+  { value: 'unallocated', label: 'Not allocated' }
+]
+
+/**
+ * Reserved and short units for a line
+ * Only units still to ship count - shipped and cancelled units hold no reservation
+ * Short units are everything open that isn't reserved, even if the backend hasn't flagged them yet
+ */
+export function getLineAllocation(
+  item: Pick<OrderItem, 'quantity' | 'quantityFulfilled' | 'quantityCancelled' | 'quantityAllocated'>
+): { open: number; allocated: number; short: number } {
+  const open = getUnfulfilledQuantity(item)
+  const allocated = Math.min(open, item.quantityAllocated || 0)
+  return { open, allocated, short: open - allocated }
+}
+
+export function getOrderAllocationStatus(order: Pick<Order, 'allocationStatus'>): AllocationStatus {
+  return order.allocationStatus || 'unallocated'
+}
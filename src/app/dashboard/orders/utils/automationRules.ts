@@ -0,0 +1,273 @@
+// File: app/dashboard/orders/utils/automationRules.ts
+
+import { Order } from './orderTypes'
+import { parseLineItems, formatCurrency } from './orderUtils'
+import { ORDER_PRIORITY_OPTIONS } from '../constants/orderConstants'
+import { getOrderBaseTotal } from '../../shared/utils/currency'
+import {
+  AutomationRule,
+  AutomationRuleData,
+  AutomationTrigger,
+  AutomationCondition,
+  AutomationConditionField,
+  AutomationConditionOperator,
+  AutomationAction,
+  AutomationActionType
+} from '@/lib/api/automationApi'
+
+/**
+ * Automation rules as the backend runs them, for previews and dry runs
+ * Pure functions only, so the backend can run the same evaluator.
+ */
+
+export interface AutomationFieldDef {
+  label: string
+  type: 'text' | 'number'
+  operators: AutomationConditionOperator[]
+  placeholder?: string
+}
+
+const LIST_OPERATORS: AutomationConditionOperator[] = ['is_any_of', 'is_none_of']
+const TEXT_OPERATORS: AutomationConditionOperator[] = ['is_any_of', 'is_none_of', 'contains', 'not_contains']
+const NUMBER_OPERATORS: AutomationConditionOperator[] = ['gt', 'gte', 'lt', 'lte']
+
+export const AUTOMATION_CONDITION_FIELDS: Record<AutomationConditionField, AutomationFieldDef> = {
+  store: { label: 'Store', type: 'text', operators: LIST_OPERATORS },
+  platform: { label: 'Platform', type: 'text', operators: LIST_OPERATORS },
+  destination_country: { label: 'Destination country', type: 'text', operators: LIST_OPERATORS, placeholder: 'US, CA' },
+  destination_region: { label: 'Destination state/province', type: 'text', operators: TEXT_OPERATORS, placeholder: 'AK, HI' },
+  sku: { label: 'SKU', type: 'text', operators: TEXT_OPERATORS, placeholder: 'ABC-1, ABC-2' },
+  tag: { label: 'Tag', type: 'text', operators: TEXT_OPERATORS, placeholder: 'wholesale' },
+  total: { label: 'Order total (base currency)', type: 'number', operators: NUMBER_OPERATORS, placeholder: '100' },
+  weight: { label: 'Weight (oz)', type: 'number', operators: NUMBER_OPERATORS, placeholder: '16' },
+  requested_shipping: { label: 'Requested shipping', type: 'text', operators: TEXT_OPERATORS, placeholder: 'Express' }
+}
+
+export const AUTOMATION_OPERATOR_LABELS: Record<AutomationConditionOperator, string> = {
+  is_any_of: 'is any of',
+  is_none_of: 'is none of',
+  contains: 'contains',
+  not_contains: 'does not contain',
+  gt: 'is greater than',
+  gte: 'is at least',
+  lt: 'is less than',
+  lte: 'is at most'
+}
+
+export const AUTOMATION_TRIGGER_LABELS: Record<AutomationTrigger, string> = {
+  order_imported: 'Order imported',
+  order_updated: 'Order updated'
+}
+
+export const AUTOMATION_ACTION_LABELS: Record<AutomationActionType, string> = {
+  set_fulfillment_status: 'Set fulfillment status',
+  assign_warehouse: 'Assign warehouse',
+  add_tags: 'Add tags',
+  apply_shipping_preset: 'Apply shipping preset',
+  hold: 'Put on hold',
+  set_priority: 'Set priority',
+  add_note: 'Add internal note'
+}
+
+/**
+ * Names for the ids stored in conditions and actions
+ */
+export interface AutomationLookups {
+  stores?: { id: string; storeName?: string }[]
+  warehouses?: { id: string; name: string }[]
+  fulfillmentStatuses?: { code: string; label: string }[]
+  presets?: { id: string; name: string }[]
+}
+
+export function splitAutomationValues(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean)
+}
+
+function getConditionValue(order: Order, field: AutomationConditionField): string | string[] | number | undefined {
+  switch (field) {
+    case 'store': return order.storeId
+    case 'platform': return order.platform
+    case 'destination_country': return order.shippingCountryCode || order.countryCode
+    case 'destination_region': return order.shippingProvince
+    case 'sku': return order.lineItems ? parseLineItems(order).map(item => item.sku) : []
+    case 'tag': return order.tags || []
+    // No exchange rate yet - total conditions don't match rather than compare another currency
+    case 'total': return getOrderBaseTotal(order) ?? undefined
+    case 'weight': return order.totalWeight
+    case 'requested_shipping': return order.requestedShipping
+  }
+}
+
+export function matchesAutomationCondition(order: Order, condition: AutomationCondition): boolean {
+  const actual = getConditionValue(order, condition.field)
+
+  if (AUTOMATION_CONDITION_FIELDS[condition.field].type === 'number') {
+    const expected = Number(condition.value)
+    if (typeof actual !== 'number' || condition.value.trim() === '' || isNaN(expected)) return false
+
+    switch (condition.operator) {
+      case 'gt': return actual > expected
+      case 'gte': return actual >= expected
+      case 'lt': return actual < expected
+      case 'lte': return actual <= expected
+      default: return false
+    }
+  }
+
+  const actualValues = (Array.isArray(actual) ? actual : [actual])
+    .filter((value): value is string => typeof value === 'string' && value !== '')
+    .map(value => value.toLowerCase())
+  const expectedValues = splitAutomationValues(condition.value).map(value => value.toLowerCase())
+
+  const isAnyOf = actualValues.some(value => expectedValues.includes(value))
+  const contains = actualValues.some(value => expectedValues.some(expected => value.includes(expected)))
+
+  switch (condition.operator) {
+    case 'is_any_of': return isAnyOf
+    case 'is_none_of': return !isAnyOf
+    case 'contains': return contains
+    case 'not_contains': return !contains
+    default: return false
+  }
+}
+
+export function matchesAutomationRule(order: Order, rule: AutomationRule): boolean {
+  if (rule.conditions.length === 0) return true
+
+  return rule.match === 'any'
+    ? rule.conditions.some(condition => matchesAutomationCondition(order, condition))
+    : rule.conditions.every(condition => matchesAutomationCondition(order, condition))
+}
+
+/**
+ * The order as it would look after an action, so later rules see the change
+ */
+function applyAutomationAction(order: Order, action: AutomationAction): Order {
+  switch (action.type) {
+    case 'set_fulfillment_status':
+      return { ...order, fulfillmentStatus: action.status }
+    case 'assign_warehouse':
+      return { ...order, warehouseId: action.warehouseId }
+    case 'add_tags':
+      return { ...order, tags: Array.from(new Set([...(order.tags || []), ...action.tags])) }
+    case 'apply_shipping_preset':
+      return { ...order, warehouseId: action.warehouseId, shippingPresetId: action.presetId }
+    case 'hold':
+      return order.hold ? order : {
+        ...order,
+        hold: { reason: action.reason, source: 'rule', heldBy: null, heldByName: null, heldAt: new Date().toISOString() }
+      }
+    case 'set_priority':
+      return { ...order, priority: action.priority }
+    default:
+      return order
+  }
+}
+
+export interface AutomationRuleMatch {
+  rule: AutomationRule
+  actions: AutomationAction[]
+}
+
+/**
+ * Run the rules against an order without saving anything
+ * Rules run in position order; a matching rule with stopProcessing ends the run
+ */
+export function evaluateAutomationRules(
+  order: Order,
+  rules: AutomationRule[],
+  trigger: AutomationTrigger
+): { matches: AutomationRuleMatch[]; result: Order } {
+  const matches: AutomationRuleMatch[] = []
+  let result = order
+
+  const ordered = [...rules].sort((a, b) => a.position - b.position)
+  for (const rule of ordered) {
+    if (!rule.enabled || !rule.triggers.includes(trigger) || !matchesAutomationRule(result, rule)) continue
+
+    matches.push({ rule, actions: rule.actions })
+    result = rule.actions.reduce(applyAutomationAction, result)
+    if (rule.stopProcessing) break
+  }
+
+  return { matches, result }
+}
+
+/**
+ * Problems that would stop a rule from saving
+ */
+export function validateAutomationRule(rule: AutomationRuleData): string[] {
+  const errors: string[] = []
+
+  if (!rule.name.trim()) errors.push('Give the rule a name')
+  if (rule.triggers.length === 0) errors.push('Pick when the rule runs')
+  if (rule.actions.length === 0) errors.push('Add at least one action')
+
+  rule.conditions.forEach(condition => {
+    const field = AUTOMATION_CONDITION_FIELDS[condition.field]
+    if (!condition.value.trim()) {
+      errors.push(`${field.label} condition needs a value`)
+    } else if (field.type === 'number' && isNaN(Number(condition.value))) {
+      errors.push(`${field.label} condition needs a number`)
+    }
+  })
+
+  rule.actions.forEach(action => {
+    const label = AUTOMATION_ACTION_LABELS[action.type]
+    const incomplete =
+      (action.type === 'set_fulfillment_status' && !action.status) ||
+      (action.type === 'assign_warehouse' && !action.warehouseId) ||
+      (action.type === 'add_tags' && action.tags.length === 0) ||
+      (action.type === 'apply_shipping_preset' && (!action.warehouseId || !action.presetId)) ||
+      (action.type === 'hold' && !action.reason.trim()) ||
+      (action.type === 'add_note' && !action.note.trim())
+    if (incomplete) errors.push(`"${label}" is missing a value`)
+  })
+
+  return errors
+}
+
+export function describeAutomationCondition(condition: AutomationCondition, lookups: AutomationLookups = {}): string {
+  const field = AUTOMATION_CONDITION_FIELDS[condition.field]
+  const value = condition.field === 'store'
+    ? splitAutomationValues(condition.value)
+        .map(id => lookups.stores?.find(store => store.id === id)?.storeName || id)
+        .join(', ')
+    : condition.value
+
+  return `${field.label} ${AUTOMATION_OPERATOR_LABELS[condition.operator]} ${value || '—'}`
+}
+
+export function describeAutomationAction(action: AutomationAction, lookups: AutomationLookups = {}): string {
+  const warehouseName = (id: string) => lookups.warehouses?.find(warehouse => warehouse.id === id)?.name || id
+
+  switch (action.type) {
+    case 'set_fulfillment_status': {
+      const status = lookups.fulfillmentStatuses?.find(s => s.code === action.status)
+      return `Set fulfillment status to ${status?.label || action.status}`
+    }
+    case 'assign_warehouse':
+      return `Assign to ${warehouseName(action.warehouseId)}`
+    case 'add_tags':
+      return `Add tags: ${action.tags.join(', ')}`
+    case 'apply_shipping_preset': {
+      const preset = lookups.presets?.find(p => p.id === action.presetId)
+      return `Apply shipping preset ${preset?.name || action.presetId} (${warehouseName(action.warehouseId)})`
+    }
+    case 'hold':
+      return `Put on hold: ${action.reason}`
+    case 'set_priority': {
+      const priority = ORDER_PRIORITY_OPTIONS.find(option => option.value === action.priority)
+      return `Set priority to ${priority?.label || action.priority}`
+    }
+    case 'add_note':
+      return `Add note: ${action.note}`
+  }
+}
+
+/**
+ * Short summary of an order for dry-run results
+ */
+export function describeAutomationOrder(order: Order): string {
+  return `${order.customerName} • ${formatCurrency(order.totalAmount, order.currency)} • ${order.shippingCountryCode || order.countryCode}`
+}
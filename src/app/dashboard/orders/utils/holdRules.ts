@@ -0,0 +1,98 @@
+// File: app/dashboard/orders/utils/holdRules.ts
+
+import { Order, HoldRuleType } from './orderTypes'
+import { formatCurrency } from './orderUtils'
+import { getOrderBaseTotal, DEFAULT_BASE_CURRENCY } from '../../shared/utils/currency'
+import { HoldRuleSettings } from '../../settings/types'
+
+export interface HoldRuleMatch {
+  ruleType: HoldRuleType
+  reason: string
+}
+
+export const HOLD_RULE_LABELS: Record<HoldRuleType, string> = {
+  order_value: 'High order value',
+  country_mismatch: 'Billing/shipping country mismatch',
+  po_box: 'PO box with carrier that cannot deliver',
+  missing_phone_international: 'International order missing phone',
+  address_validation_failed: 'Address failed validation'
+}
+
+// "PO Box 12", "P.O. Box", "Post Office Box", "POB 12"
+const PO_BOX_PATTERN = /\b(p\.?\s*o\.?\s*box|post\s+office\s+box|pob\s+\d+)\b/i
+
+export function isPoBoxAddress(...lines: (string | undefined)[]): boolean {
+  return lines.some(line => !!line && PO_BOX_PATTERN.test(line))
+}
+
+/**
+ * Check an order against the account's hold rules
+ * homeCountryCode is the shipping warehouse's country (for "international")
+ * baseCurrency is the account currency the order value threshold is set in
+ */
+export function evaluateHoldRules(
+  order: Order,
+  rules: HoldRuleSettings,
+  homeCountryCode: string = 'US',
+  baseCurrency: string = DEFAULT_BASE_CURRENCY
+): HoldRuleMatch[] {
+  const matches: HoldRuleMatch[] = []
+  const shippingCountry = order.shippingCountryCode || order.countryCode
+
+  // The threshold is in the base currency, so orders in any currency compare fairly
+  // (orders with no exchange rate yet are skipped rather than compared in their own currency)
+  const baseTotal = getOrderBaseTotal(order, baseCurrency)
+  if (rules.orderValue.enabled && baseTotal != null && baseTotal > rules.orderValue.threshold) {
+    const total = order.currency === baseCurrency
+      ? formatCurrency(order.totalAmount, order.currency)
+      : `${formatCurrency(order.totalAmount, order.currency)} (${formatCurrency(baseTotal, baseCurrency)})`
+    matches.push({
+      ruleType: 'order_value',
+      reason: `Order total ${total} is above ${formatCurrency(rules.orderValue.threshold, baseCurrency)}`
+    })
+  }
+
+  if (
+    rules.countryMismatch.enabled &&
+    order.billingCountryCode &&
+    shippingCountry &&
+    order.billingCountryCode !== shippingCountry
+  ) {
+    matches.push({
+      ruleType: 'country_mismatch',
+      reason: `Billing country ${order.billingCountryCode} differs from shipping country ${shippingCountry}`
+    })
+  }
+
+  if (rules.poBox.enabled && isPoBoxAddress(order.shippingAddress1, order.shippingAddress2)) {
+    const shippingMethod = (order.requestedShipping || '').toLowerCase()
+    const carrier = rules.poBox.carriers.find(c => shippingMethod.includes(c.toLowerCase()))
+    if (carrier) {
+      matches.push({
+        ruleType: 'po_box',
+        reason: `PO box address with ${carrier}, which can't deliver to PO boxes`
+      })
+    }
+  }
+
+  if (
+    rules.missingPhoneInternational.enabled &&
+    shippingCountry &&
+    shippingCountry !== homeCountryCode &&
+    !order.shippingPhone?.trim()
+  ) {
+    matches.push({
+      ruleType: 'missing_phone_international',
+      reason: `International order to ${shippingCountry} has no phone number`
+    })
+  }
+
+  if (rules.addressValidationFailed.enabled && order.addressValidationStatus === 'invalid') {
+    matches.push({
+      ruleType: 'address_validation_failed',
+      reason: 'Shipping address failed validation'
+    })
+  }
+
+  return matches
+}
@@ -0,0 +1,124 @@
+// File: app/dashboard/orders/utils/orderCombining.ts
+
+import { Order, OrderWithDetails } from './orderTypes'
+
+/**
+ * Unshipped orders going to the same person at the same address,
+ * which can be packed into one parcel under a single label
+ */
+export interface CombinableGroup {
+  key: string
+  customerName: string
+  address: string                 // One-line summary for display
+  orders: Order[]                 // Oldest first
+}
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  road: 'rd',
+  drive: 'dr',
+  boulevard: 'blvd',
+  lane: 'ln',
+  court: 'ct',
+  place: 'pl',
+  apartment: 'apt',
+  suite: 'ste',
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w'
+}
+
+function normalizePart(value?: string): string {
+  return (value || '')
+    .toLowerCase()
+    .replace(/[.,#]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => ADDRESS_ABBREVIATIONS[word] || word)
+    .join(' ')
+}
+
+/**
+ * Normalized recipient + shipping address, so "12 Main Street, Apt 4" and
+ * "12 main st #4" compare equal
+ */
+export function getShippingAddressKey(order: Order): string {
+  return [
+    `${order.shippingFirstName} ${order.shippingLastName}`,
+    order.shippingAddress1,
+    order.shippingAddress2,
+    order.shippingCity,
+    order.shippingProvince,
+    (order.shippingZip || '').split('-')[0],
+    order.shippingCountryCode || order.countryCode
+  ].map(normalizePart).join('|')
+}
+
+/**
+ * Group orders that can ship together
+ * Orders must come from the same warehouse, and from the same store unless acrossStores is set
+ */
+export function findCombinableGroups(orders: Order[], acrossStores: boolean = false): CombinableGroup[] {
+  const groups = new Map<string, Order[]>()
+
+  orders.forEach(order => {
+    if (!order.shippingAddress1) return
+
+    const key = [
+      order.warehouseId || '',
+      acrossStores ? '' : order.storeId,
+      getShippingAddressKey(order)
+    ].join('::')
+    groups.set(key, [...(groups.get(key) || []), order])
+  })
+
+  const result: CombinableGroup[] = []
+  groups.forEach((groupOrders, key) => {
+    if (groupOrders.length < 2) return
+
+    const [first] = groupOrders
+    result.push({
+      key,
+      customerName: `${first.shippingFirstName} ${first.shippingLastName}`.trim() || first.customerName,
+      address: [first.shippingAddress1, first.shippingCity, first.shippingZip].filter(Boolean).join(', '),
+      orders: [...groupOrders].sort(
+        (a, b) => new Date(a.orderDate).getTime() - new Date(b.orderDate).getTime()
+      )
+    })
+  })
+
+  return result
+}
+
+/**
+ * Merge orders into one packing slip
+ * Each line is tagged with the order it came from
+ * Prices and the total are shown in one currency, so orders in different currencies can't be merged
+ */
+export function mergeOrdersForPackingSlip(orders: OrderWithDetails[]): OrderWithDetails {
+  const [first] = orders
+  const currencies = Array.from(new Set(orders.map(order => order.currency)))
+  if (currencies.length > 1) {
+    throw new Error(`These orders are in different currencies (${currencies.join(', ')}) - print their packing slips separately`)
+  }
+
+  const notes = orders
+    .filter(order => order.notes)
+    .map(order => `#${order.orderNumber}: ${order.notes}`)
+    .join('\n')
+
+  return {
+    ...first,
+    orderNumber: orders.map(order => order.orderNumber).join(' + '),
+    items: orders.flatMap(order =>
+      order.items.map(item => ({
+        ...item,
+        meta: { ...item.meta, order: `#${order.orderNumber}` }
+      }))
+    ),
+    totalAmount: orders.reduce((sum, order) => sum + order.totalAmount, 0),
+    notes: notes || undefined
+  }
+}
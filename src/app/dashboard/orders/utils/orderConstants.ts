@@ -7,7 +7,8 @@ export const FULFILLMENT_STATUSES_NEED_SHIPPING = [
   'PICKING',
   'PACKING',
   'PACKED',
-  'READY_TO_SHIP'
+  'READY_TO_SHIP',
+  'PARTIALLY_SHIPPED'
 ] as const
 
 export const FULFILLMENT_STATUSES_READY_FOR_PACKING = [
@@ -15,7 +16,8 @@ export const FULFILLMENT_STATUSES_READY_FOR_PACKING = [
   'PICKING',
   'PACKING',
   'PACKED',
-  'READY_TO_SHIP'
+  'READY_TO_SHIP',
+  'PARTIALLY_SHIPPED'
 ] as const
 
 export const FULFILLMENT_STATUSES_EXCLUDED = [
@@ -60,6 +62,33 @@ export const orderNeedsShippingDynamic = (
   return statusConfig.needsShipping || false
 }
 
+/**
+ * Fulfillment status codes of orders still waiting to be picked or shipped
+ * Used to load the work queue from the server instead of every order
+ */
+export const getOpenFulfillmentStatusCodes = (fulfillmentStatuses: FulfillmentStatus[]): string[] => {
+  if (fulfillmentStatuses.length === 0) {
+    return Array.from(new Set<string>(['PENDING', ...FULFILLMENT_STATUSES_NEED_SHIPPING]))
+  }
+
+  return fulfillmentStatuses
+    .filter(status => status.needsPicking || status.needsShipping)
+    .map(status => status.code)
+}
+
+/**
+ * Fulfillment status codes of orders still waiting to be shipped
+ */
+export const getShippingFulfillmentStatusCodes = (fulfillmentStatuses: FulfillmentStatus[]): string[] => {
+  if (fulfillmentStatuses.length === 0) {
+    return [...FULFILLMENT_STATUSES_NEED_SHIPPING]
+  }
+
+  return fulfillmentStatuses
+    .filter(status => status.needsShipping)
+    .map(status => status.code)
+}
+
 export const orderReadyForPacking = (order: { fulfillmentStatus: string }): boolean => {
   if (FULFILLMENT_STATUSES_EXCLUDED.includes(order.fulfillmentStatus as any)) {
     return false
@@ -92,6 +121,7 @@ export const getFulfillmentStatusDescription = (status: string): string => {
     'PACKING': 'Items are being packed for shipment',
     'PACKED': 'Order is packed and ready for shipping label',
     'READY_TO_SHIP': 'Order has shipping label and awaits carrier pickup',
+    'PARTIALLY_SHIPPED': 'Some items have shipped, the rest are still to be fulfilled',
     'SHIPPED': 'Order has been shipped',
     'DELIVERED': 'Order has been delivered',
     'CANCELLED': 'Order has been cancelled'
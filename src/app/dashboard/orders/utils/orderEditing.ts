@@ -0,0 +1,210 @@
+// File: app/dashboard/orders/utils/orderEditing.ts
+
+import {
+  Address,
+  OrderItem,
+  OrderWithDetails,
+  calculateOrderSubtotal,
+  calculateOrderDiscount,
+  calculateOrderTax,
+  calculateItemsGrandTotal,
+  hasAnyFulfilledItems,
+  productToOrderItem
+} from './orderTypes'
+import { orderNeedsPicking } from './orderConstants'
+import { Product } from '../../products/utils/productTypes'
+import { FulfillmentStatus } from '../../settings/types'
+import { OrderEditChange } from '@/lib/api/orderApi'
+
+export const EMPTY_ADDRESS: Address = {
+  firstName: '',
+  lastName: '',
+  address1: '',
+  address2: '',
+  city: '',
+  state: '',
+  zip: '',
+  country: 'United States',
+  countryCode: 'US',
+  phone: '',
+  company: ''
+}
+
+// Line items added in the UI get a temporary ID; the backend assigns the real one
+const NEW_ITEM_PREFIX = 'new-'
+
+export interface OrderTotals {
+  subtotal: number
+  itemDiscounts: number
+  orderDiscount: number
+  tax: number
+  shipping: number
+  total: number
+}
+
+/**
+ * Orders can be edited until picking starts and nothing has shipped
+ */
+export function canEditOrder(order: OrderWithDetails, fulfillmentStatuses: FulfillmentStatus[]): boolean {
+  return orderNeedsPicking(order, fulfillmentStatuses) && !hasAnyFulfilledItems(order)
+}
+
+/**
+ * Build a draft line item from a product (and optional variant)
+ */
+export function createDraftLineItem(
+  product: Product,
+  options: { variantId?: string; currency?: string; warehouseId?: string } = {}
+): OrderItem {
+  const item = productToOrderItem(product, 1, {
+    variantId: options.variantId,
+    warehouseId: options.warehouseId
+  })
+
+  return {
+    ...item,
+    id: `${NEW_ITEM_PREFIX}${Date.now()}-${item.variantSku || item.sku}`,
+    currency: options.currency || item.currency
+  }
+}
+
+export function isDraftLineItem(item: OrderItem): boolean {
+  return item.id.startsWith(NEW_ITEM_PREFIX)
+}
+
+/**
+ * Totals for a set of line items plus order-level shipping and discount
+ * Line totals come from calculateItemsGrandTotal (price - discount + tax)
+ */
+export function calculateOrderTotals(
+  items: OrderItem[],
+  shippingCost: number = 0,
+  orderDiscount: number = 0
+): OrderTotals {
+  const itemsTotal = calculateItemsGrandTotal(items)
+  const discount = Math.min(Math.max(0, orderDiscount), itemsTotal)
+
+  return {
+    subtotal: calculateOrderSubtotal(items),
+    itemDiscounts: calculateOrderDiscount(items),
+    orderDiscount: discount,
+    tax: calculateOrderTax(items),
+    shipping: Math.max(0, shippingCost),
+    total: Math.max(0, itemsTotal - discount + Math.max(0, shippingCost))
+  }
+}
+
+/**
+ * Order total after an items edit
+ * Only the change in the items total is applied, so order-level tax, fees and
+ * handling that calculateOrderTotals doesn't see stay in the total
+ */
+export function calculateEditedOrderTotal(order: OrderWithDetails, items: OrderItem[]): number {
+  const orderDiscount = (order.discounts || []).reduce((sum, d) => sum + d.amount, 0)
+  const before = calculateOrderTotals(order.items, order.shippingCost || 0, orderDiscount).total
+  const after = calculateOrderTotals(items, order.shippingCost || 0, orderDiscount).total
+  return Math.max(0, Math.round((order.totalAmount + after - before) * 100) / 100)
+}
+
+function addressesEqual(a: Address, b: Address): boolean {
+  const fields: (keyof Address)[] = [
+    'firstName', 'lastName', 'company', 'address1', 'address2',
+    'city', 'state', 'zip', 'countryCode', 'phone'
+  ]
+  return fields.every(field => (a[field] || '') === (b[field] || ''))
+}
+
+/**
+ * Describe what changed between an order and its edited draft
+ * The list is sent with the edit so the backend can record it against the order
+ */
+export function diffOrderEdits(
+  original: OrderWithDetails,
+  draft: { items: OrderItem[]; shippingAddress: Address; billingAddress: Address }
+): OrderEditChange[] {
+  const changes: OrderEditChange[] = []
+  const originalById = new Map(original.items.map(item => [item.id, item]))
+  const draftIds = new Set(draft.items.map(item => item.id))
+
+  original.items.forEach(item => {
+    if (!draftIds.has(item.id)) {
+      changes.push({ type: 'item_removed', itemId: item.id, sku: item.sku, from: item.quantity })
+    }
+  })
+
+  draft.items.forEach(item => {
+    const before = originalById.get(item.id)
+
+    if (!before) {
+      changes.push({ type: 'item_added', itemId: item.id, sku: item.sku, to: item.quantity })
+      return
+    }
+    if (before.quantity !== item.quantity) {
+      changes.push({ type: 'item_quantity', itemId: item.id, sku: item.sku, from: before.quantity, to: item.quantity })
+    }
+    if (before.price !== item.price || (before.discount || 0) !== (item.discount || 0)) {
+      changes.push({
+        type: 'item_price',
+        itemId: item.id,
+        sku: item.sku,
+        from: { price: before.price, discount: before.discount || 0 },
+        to: { price: item.price, discount: item.discount || 0 }
+      })
+    }
+  })
+
+  if (!addressesEqual(original.shippingAddress, draft.shippingAddress)) {
+    changes.push({ type: 'shipping_address', from: original.shippingAddress, to: draft.shippingAddress })
+  }
+  if (!addressesEqual(original.billingAddress, draft.billingAddress)) {
+    changes.push({ type: 'billing_address', from: original.billingAddress, to: draft.billingAddress })
+  }
+
+  return changes
+}
+
+/**
+ * One-line summary of an edit change for the history list
+ */
+export function describeOrderEditChange(change: OrderEditChange): string {
+  switch (change.type) {
+    case 'item_added':
+      return `Added ${change.to} × ${change.sku}`
+    case 'item_removed':
+      return `Removed ${change.sku}`
+    case 'item_quantity':
+      return `${change.sku}: quantity ${change.from} → ${change.to}`
+    case 'item_price':
+      return `${change.sku}: price changed`
+    case 'shipping_address':
+      return 'Shipping address updated'
+    case 'billing_address':
+      return 'Billing address updated'
+    default:
+      return 'Order updated'
+  }
+}
+
+/**
+ * Check a line item list before saving
+ * Returns an error message, or null when the items are valid
+ */
+export function validateLineItems(items: OrderItem[]): string | null {
+  if (items.length === 0) {
+    return 'Add at least one item'
+  }
+
+  for (const item of items) {
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      return `${item.name}: quantity must be at least 1`
+    }
+    if (item.price < 0 || (item.discount || 0) < 0) {
+      return `${item.name}: price and discount can't be negative`
+    }
+    if ((item.discount || 0) > item.price) {
+      return `${item.name}: discount is more than the unit price`
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,164 @@
+// File: app/dashboard/orders/utils/orderQuery.ts
+
+import { QueryClient } from '@tanstack/react-query'
+import { OrderAPI, OrderQueryParams, OrderQueryResult } from '@/lib/api/orderApi'
+import { FilterState, Order, SortState } from './orderTypes'
+import { ORDERS_BULK_PAGE_SIZE, ORDER_SEARCH_FIELDS } from '../constants/orderConstants'
+import { parseSearchQuery } from '@/lib/search/searchQuery'
+
+/**
+ * React-query keys for order data
+ * Everything lives under ['orders'] so status updates can patch and
+ * invalidate every cached list at once
+ */
+export const orderKeys = {
+  all: ['orders'] as const,
+  lists: () => [...orderKeys.all, 'list'] as const,
+  list: (params: OrderQueryParams) => [...orderKeys.lists(), params] as const,
+  queues: () => [...orderKeys.all, 'queue'] as const,
+  queue: (params: OrderQueryParams) => [...orderKeys.queues(), params] as const
+}
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date)
+  result.setHours(0, 0, 0, 0)
+  return result
+}
+
+function endOfDay(date: Date): Date {
+  const result = new Date(date)
+  result.setHours(23, 59, 59, 999)
+  return result
+}
+
+function daysAgo(days: number): Date {
+  const date = new Date()
+  date.setDate(date.getDate() - days)
+  return date
+}
+
+/**
+ * Resolve a date range preset to ISO bounds in the browser's time zone
+ * Bounds fall on day boundaries so the query key stays stable within a day
+ */
+export function resolveDateRange(filters: Pick<FilterState, 'dateRange' | 'startDate' | 'endDate'>): {
+  dateFrom?: string
+  dateTo?: string
+} {
+  const today = new Date()
+
+  switch (filters.dateRange) {
+    case 'today':
+      return { dateFrom: startOfDay(today).toISOString(), dateTo: endOfDay(today).toISOString() }
+
+    case 'yesterday':
+      return { dateFrom: startOfDay(daysAgo(1)).toISOString(), dateTo: endOfDay(daysAgo(1)).toISOString() }
+
+    case 'last7days':
+      return { dateFrom: startOfDay(daysAgo(7)).toISOString() }
+
+    case 'last30days':
+      return { dateFrom: startOfDay(daysAgo(30)).toISOString() }
+
+    case 'last90days':
+      return { dateFrom: startOfDay(daysAgo(90)).toISOString() }
+
+    case 'thismonth':
+      return { dateFrom: new Date(today.getFullYear(), today.getMonth(), 1).toISOString() }
+
+    case 'lastmonth':
+      return {
+        dateFrom: new Date(today.getFullYear(), today.getMonth() - 1, 1).toISOString(),
+        dateTo: new Date(today.getFullYear(), today.getMonth(), 0, 23, 59, 59, 999).toISOString()
+      }
+
+    case 'custom':
+      return {
+        dateFrom: filters.startDate ? startOfDay(new Date(filters.startDate)).toISOString() : undefined,
+        dateTo: filters.endDate ? endOfDay(new Date(filters.endDate)).toISOString() : undefined
+      }
+
+    default:
+      return {}
+  }
+}
+
+/**
+ * Build server query params from the filter panel state, search box and sort column
+ * Field terms in the search box ("sku:ABC-1 total>100") become structured conditions
+ */
+export function buildOrderQueryParams(
+  filters: FilterState,
+  search: string,
+  sortConfig?: SortState
+): OrderQueryParams {
+  const { text, conditions } = parseSearchQuery(search, ORDER_SEARCH_FIELDS)
+
+  return {
+    search: text || undefined,
+    conditions: conditions.length > 0 ? conditions : undefined,
+    status: filters.status,
+    fulfillmentStatus: filters.fulfillmentStatus,
+    platform: filters.platform,
+    storeId: filters.storeId,
+    integrationId: filters.integrationId,
+    warehouseId: filters.warehouseId || undefined,
+    ...resolveDateRange(filters),
+    shipBy: filters.shipBy || undefined,
+    allocation: filters.allocation || undefined,
+    sortBy: sortConfig?.field,
+    sortDirection: sortConfig?.direction
+  }
+}
+
+/**
+ * Narrow a fulfillment status filter to the given status codes
+ * Returns null when nothing can match, so the caller can skip the query
+ * (an empty array would mean "no filter")
+ */
+export function narrowFulfillmentStatuses(selected: string[] | undefined, codes: string[]): string[] | null {
+  const narrowed = selected && selected.length > 0
+    ? codes.filter(code => selected.includes(code))
+    : codes
+
+  return narrowed.length > 0 ? narrowed : null
+}
+
+/**
+ * Follow cursors until every matching order is loaded
+ * For bounded sets only (fulfillment queues, CSV export)
+ */
+export async function fetchAllOrders(params: OrderQueryParams): Promise<OrderQueryResult> {
+  const orders: Order[] = []
+  let cursor: string | null = null
+
+  do {
+    const page: OrderQueryResult = await OrderAPI.queryOrders({
+      ...params,
+      cursor,
+      limit: ORDERS_BULK_PAGE_SIZE
+    })
+    orders.push(...page.orders)
+    cursor = page.nextCursor
+  } while (cursor)
+
+  return { orders, nextCursor: null, totalCount: orders.length }
+}
+
+/**
+ * Look up orders by ID across every cached list and queue
+ * Lets a selection span table pages without refetching the selected orders
+ */
+export function getCachedOrders(queryClient: QueryClient, orderIds: string[]): Order[] {
+  const byId = new Map<string, Order>()
+
+  queryClient.getQueriesData<OrderQueryResult>({ queryKey: orderKeys.all }).forEach(([, data]) => {
+    data?.orders.forEach(order => {
+      if (!byId.has(order.id)) byId.set(order.id, order)
+    })
+  })
+
+  return orderIds
+    .map(id => byId.get(id))
+    .filter((order): order is Order => order !== undefined)
+}
@@ -71,6 +71,7 @@ export interface ShippingLabel {
   serviceType: string
   labelUrl: string
   labelImage?: string
+  labelFormat?: 'PDF' | 'PNG' | 'ZPL'   // Format the carrier returned; ZPL labels only print on thermal printers
   postage: number
   createdAt: string
   shipDate: string
@@ -97,6 +98,50 @@ export interface ShippingLabel {
   }>
 }
 
+// ============================================================================
+// SHIPMENTS (partial fulfillment / multi-package)
+// ============================================================================
+
+/**
+ * Quantity of one order line packed into a package
+ */
+export interface ShipmentPackageItem {
+  orderItemId: string        // OrderItem.id (platform line item, e.g. "shopify-line-123")
+  sku: string
+  name: string
+  quantity: number
+}
+
+/**
+ * A single physical package - its own box, weight and label
+ */
+export interface ShipmentPackage {
+  id: string
+  boxId?: string
+  boxName?: string
+  weight: number             // Total weight in ounces
+  dimensions: {
+    length: number
+    width: number
+    height: number
+  }
+  items: ShipmentPackageItem[]
+  label?: ShippingLabel
+  integrationFulfillmentId?: string  // Fulfillment created on the platform for this package
+}
+
+/**
+ * A shipment of some (or all) of an order's lines, in one or more packages
+ */
+export interface OrderShipment {
+  id: string
+  orderId: string
+  packages: ShipmentPackage[]
+  shippedAt: string
+  createdBy?: string
+  combinedOrderIds?: string[]    // Other orders packed into the same parcel (shared label)
+}
+
 // ============================================================================
 // ORDER ITEM TYPES
 // ============================================================================
@@ -171,6 +216,8 @@ export interface OrderItem {
   quantityFulfilled?: number // Quantity already shipped/fulfilled
   quantityRefunded?: number  // Quantity refunded
   quantityCancelled?: number // Quantity cancelled
+  quantityAllocated?: number // Quantity reserved at warehouseId (released on cancel, consumed on ship)
+  quantityBackordered?: number // Open quantity the warehouse couldn't reserve
 
   // ═══════════════════════════════════════════════════════════════
   // PHYSICAL PROPERTIES (SNAPSHOT - for shipping calculation)
@@ -189,7 +236,7 @@ export interface OrderItem {
   // ═══════════════════════════════════════════════════════════════
   warehouseId?: string       // Assigned warehouse for fulfillment
   location?: string          // Warehouse bin/shelf location
-  fulfillmentStatus?: 'pending' | 'allocated' | 'picked' | 'packed' | 'shipped' | 'delivered' | 'cancelled' | 'returned'
+  fulfillmentStatus?: 'pending' | 'allocated' | 'backordered' | 'picked' | 'packed' | 'shipped' | 'delivered' | 'cancelled' | 'returned'
 
   // ═══════════════════════════════════════════════════════════════
   // CUSTOMIZATION & PERSONALIZATION
@@ -259,6 +306,83 @@ export interface OrderLineItemSummary {
 // ORDER TYPES
 // ============================================================================
 
+/**
+ * Flags set on a customer record, shown on every order from that customer
+ */
+export type CustomerFlag = 'vip' | 'do_not_ship' | 'fraud'
+
+/**
+ * Automatic hold rules (configured in Settings → Holds)
+ */
+export type HoldRuleType =
+  | 'order_value'                  // Order total above a threshold
+  | 'country_mismatch'             // Billing and shipping countries differ
+  | 'po_box'                       // PO box with a carrier that can't deliver there
+  | 'missing_phone_international'  // International order without a phone number
+  | 'address_validation_failed'    // Shipping address failed validation
+
+/**
+ * An order on hold is kept out of picking lists, work queues and label creation
+ */
+export interface OrderHold {
+  reason: string
+  source: 'manual' | 'rule'
+  ruleType?: HoldRuleType
+  heldBy: string | null
+  heldByName: string | null
+  heldAt: string
+}
+
+/**
+ * Set by hand or by an automation rule - urgent orders sort to the top of work queues
+ */
+export type OrderPriority = 'low' | 'normal' | 'high' | 'urgent'
+
+/**
+ * Where an open order stands against its ship-by deadline
+ *   late      - the deadline has passed
+ *   at_risk   - due within the next few hours
+ *   due_today - due later today (warehouse time)
+ */
+export type ShipByStatus = 'late' | 'at_risk' | 'due_today' | 'upcoming'
+
+/**
+ * How much of an open order's stock is reserved at its warehouse
+ * Set by the backend when the order is assigned to a warehouse, and again whenever stock arrives there
+ *   allocated   - every open unit is reserved, so the order can be finished
+ *   partial     - some lines are backordered
+ *   backordered - nothing could be reserved
+ *   unallocated - no warehouse yet, or the order is closed
+ */
+export type AllocationStatus = 'allocated' | 'partial' | 'backordered' | 'unallocated'
+
+export interface OrderHoldEvent {
+  id: string
+  orderId: string
+  action: 'held' | 'released'
+  reason: string
+  source: 'manual' | 'rule'
+  ruleType?: HoldRuleType
+  userName: string | null
+  createdAt: string
+}
+
+export type OrderDocumentType = 'packing_slip' | 'pick_list' | 'gift_card' | 'batch'
+
+/**
+ * A server-rendered PDF kept for reprinting
+ * Batch documents (slips interleaved with labels) are attached to every order in the batch
+ */
+export interface OrderDocument {
+  id: string
+  type: OrderDocumentType
+  fileName: string
+  url: string
+  orderIds: string[]
+  pageCount: number
+  createdAt: string
+}
+
 /**
  * Main Order Interface
  * ✅ Core order data with integration tracking
@@ -282,12 +406,19 @@ export interface OrderLineItemSummary {
   totalAmount: number
   currency: string
   itemCount: number
+
+  // Base currency conversion, frozen by the backend at order date
+  baseCurrency?: string            // Account base currency when the order was converted
+  exchangeRate?: number | null     // Base units per 1 unit of currency (null when no rate was on file)
+  baseTotalAmount?: number | null  // totalAmount × exchangeRate
   status: string
   fulfillmentStatus: string
 
   // Dates
   orderDate: string
   updatedAt?: string
+  shipByDate?: string | null       // Ship-by deadline, from the warehouse calendar and store handling time
+  allocationStatus?: AllocationStatus
 
   // Shipping information - Basic fields (for backward compatibility)
   shippingFirstName: string
@@ -327,8 +458,26 @@ export interface OrderLineItemSummary {
   totalWeight?: number             // Total weight in ounces
 
   // Shipping label support
-  shippingLabel?: ShippingLabel
+  shippingLabel?: ShippingLabel    // Most recent label (first package of the latest shipment)
   trackingNumber?: string
+  shipments?: OrderShipment[]      // All shipments, for partial/multi-package fulfillment
+
+  // Generated PDFs, newest first
+  documents?: OrderDocument[]
+
+  // Customer record (matched by normalized email across stores)
+  customerId?: string
+  customerFlags?: CustomerFlag[]
+
+  // Set by automation rules (Settings → Automation) or by hand
+  tags?: string[]
+  priority?: OrderPriority
+  shippingPresetId?: string        // Preset to use when the label is created
+
+  // Holds
+  hold?: OrderHold | null          // Set while the order is on hold
+  openCommentCount?: number        // Unresolved internal comment threads
+  addressValidationStatus?: 'valid' | 'invalid' | 'unverified'
 }
 
 /**
@@ -386,6 +535,9 @@ export interface OrderWithSummary extends Order {
    dateRange: string              // Preset date range (e.g., "today", "last7days")
    startDate: string              // Custom start date
    endDate: string                // Custom end date
+
+   shipBy?: ShipByStatus | ''     // Open orders by ship-by deadline
+   allocation?: AllocationStatus | '' // Open orders by stock reservation
  }
 
  /**
@@ -577,11 +729,19 @@ export function calculateItemsGrandTotal(items: OrderItem[]): number {
   return items.reduce((total, item) => total + calculateItemTotal(item), 0)
 }
 
+/**
+ * Check if an order is on hold
+ */
+export function isOrderOnHold(order: Order): boolean {
+  return !!order.hold
+}
+
 /**
  * Get unfulfilled quantity for an order item
+ * Shipped and cancelled units are excluded; never negative, even if the backend over-reports
  */
-export function getUnfulfilledQuantity(item: OrderItem): number {
-  return item.quantity - (item.quantityFulfilled || 0) - (item.quantityCancelled || 0)
+export function getUnfulfilledQuantity(item: Pick<OrderItem, 'quantity' | 'quantityFulfilled' | 'quantityCancelled'>): number {
+  return Math.max(0, item.quantity - (item.quantityFulfilled || 0) - (item.quantityCancelled || 0))
 }
 
 /**
@@ -605,6 +765,13 @@ export function hasAnyFulfilledItems(order: OrderWithDetails): boolean {
   return order.items.some(item => (item.quantityFulfilled || 0) > 0)
 }
 
+/**
+ * Check if order has shipped some but not all of its lines
+ */
+export function isOrderPartiallyFulfilled(order: OrderWithDetails): boolean {
+  return hasAnyFulfilledItems(order) && order.items.some(item => getUnfulfilledQuantity(item) > 0)
+}
+
 /**
  * Create OrderItem from Product (snapshot at time of adding to order)
  * This is used when creating a new order from current product data
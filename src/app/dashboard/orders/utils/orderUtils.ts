@@ -13,7 +13,7 @@ export function calculateTotalItemCount(items: OrderItem[]): number {
  * Parse line items from JSON string to OrderItem array
  * Handles the lineItems field which stores items as a JSON string
  */
-function parseLineItems(order: Order): OrderItem[] {
+export function parseLineItems(order: Order): OrderItem[] {
   if (!order.lineItems) {
     console.warn(`Order ${order.orderNumber} has no lineItems data`)
     return []
@@ -26,7 +26,9 @@ function parseLineItems(order: Order): OrderItem[] {
     const itemsArray = Array.isArray(parsed) ? parsed : [parsed]
 
     // Map to OrderItem structure, ensuring all required fields exist
+    // Stored snapshot fields (productId, variantSku, discount, quantityFulfilled...) are kept as-is
     return itemsArray.map((item: any, index: number) => ({
+      ...item,
       id: item.id || `${order.id}-item-${index + 1}`,
       name: item.name || 'Unknown Item',
       sku: item.sku || `SKU-${index + 1}`,
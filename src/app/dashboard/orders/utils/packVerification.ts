@@ -0,0 +1,124 @@
+// File: app/dashboard/orders/utils/packVerification.ts
+
+import { OrderItem, OrderWithDetails, getUnfulfilledQuantity } from './orderTypes'
+import { Product } from '../../products/utils/productTypes'
+
+/**
+ * A line on the packing station: one order item and the codes that verify it
+ */
+export interface PackLine {
+  itemId: string
+  sku: string
+  name: string
+  variant?: string
+  quantity: number
+  scannedQuantity: number
+  codes: string[]            // Normalized SKU / variant SKU / barcode / UPC values
+}
+
+export type ScanResult =
+  | { type: 'match'; lineIndex: number }
+  | { type: 'over_scan'; lineIndex: number }
+  | { type: 'wrong_item' }
+
+/**
+ * Normalize a scanned or stored code for comparison
+ * Scanners may add surrounding whitespace; codes are matched case-insensitively
+ */
+export function normalizeCode(code: string | undefined | null): string {
+  return (code || '').trim().toUpperCase()
+}
+
+/**
+ * Find the catalog product for an order item
+ * Matches by product ID, then by SKU, then the parent product of a variant with the SKU
+ */
+export function findProductForItem(
+  item: OrderItem,
+  products: Product[]
+): Product | undefined {
+  const itemSku = normalizeCode(item.sku)
+  const variantSku = normalizeCode(item.variantSku)
+  const sku = variantSku || itemSku
+
+  return (
+    (item.productId ? products.find(p => p.id === item.productId) : undefined) ||
+    (variantSku ? products.find(p => normalizeCode(p.sku) === variantSku) : undefined) ||
+    products.find(p => normalizeCode(p.sku) === itemSku) ||
+    products.find(p => p.variants?.some(v => normalizeCode(v.sku) === sku))
+  )
+}
+
+/**
+ * Build the lines to verify for an order
+ * Each line accepts the item SKU, variant SKU and the product's barcode/UPC
+ * When the item is a variant, only the variant's own codes are accepted - the parent's
+ * barcode is shared by every variant, so it can't tell them apart
+ * Lines ask only for the units still to ship, so partially shipped orders can be packed
+ */
+export function buildPackLines(order: OrderWithDetails, products: Product[] = []): PackLine[] {
+  return order.items
+    .filter(item => getUnfulfilledQuantity(item) > 0)
+    .map(item => {
+      const product = findProductForItem(item, products)
+      const variant = product?.variants?.find(v =>
+        (item.variantId && v.id === item.variantId) ||
+        normalizeCode(v.sku) === normalizeCode(item.variantSku || item.sku)
+      )
+
+      const codes = (variant
+        ? [item.variantSku || item.sku, variant.sku, variant.barcode]
+        : [item.sku, item.variantSku, product?.barcode, product?.upc]
+      )
+        .map(normalizeCode)
+        .filter(code => code !== '')
+
+      return {
+        itemId: item.id,
+        sku: item.variantSku || item.sku,
+        name: item.name,
+        variant: item.variant,
+        quantity: getUnfulfilledQuantity(item),
+        scannedQuantity: 0,
+        codes: Array.from(new Set(codes))
+      }
+    })
+}
+
+/**
+ * Match a scanned code against the pack lines
+ * Prefers a line that still needs units, so two lines sharing a code fill in order
+ */
+export function matchScan(lines: PackLine[], code: string): ScanResult {
+  const normalized = normalizeCode(code)
+  if (!normalized) return { type: 'wrong_item' }
+
+  const matchingIndexes = lines
+    .map((line, index) => line.codes.includes(normalized) ? index : -1)
+    .filter(index => index !== -1)
+
+  if (matchingIndexes.length === 0) {
+    return { type: 'wrong_item' }
+  }
+
+  const openIndex = matchingIndexes.find(index => lines[index].scannedQuantity < lines[index].quantity)
+  if (openIndex !== undefined) {
+    return { type: 'match', lineIndex: openIndex }
+  }
+
+  return { type: 'over_scan', lineIndex: matchingIndexes[0] }
+}
+
+/**
+ * An order is verified once every line has been scanned to its quantity
+ */
+export function isPackVerified(lines: PackLine[]): boolean {
+  return lines.length > 0 && lines.every(line => line.scannedQuantity === line.quantity)
+}
+
+/**
+ * Units still to scan
+ */
+export function getRemainingUnits(lines: PackLine[]): number {
+  return lines.reduce((sum, line) => sum + Math.max(0, line.quantity - line.scannedQuantity), 0)
+}
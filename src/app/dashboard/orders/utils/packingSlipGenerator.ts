@@ -1,26 +1,40 @@
 // File: app/dashboard/orders/utils/packingSlipGenerator.ts
 import { OrderWithDetails } from './orderTypes'
-import { DEFAULT_COMPANY_INFO } from '../constants/orderConstants'
-import { formatDateForPackingSlip, calculateTotalWeight } from './orderUtils'
-
-export function printMultiplePackingSlips(orders: OrderWithDetails[]) {
-  const printContent = orders.map(order => generatePackingSlipHTML(order))
+import { Store, PackingSlipTemplate } from '../../stores/utils/storeTypes'
+import { DEFAULT_COMPANY_INFO, DEFAULT_PACKING_SLIP_TEMPLATE } from '../constants/orderConstants'
+import { formatDateForPackingSlip, calculateTotalWeight, formatCurrency } from './orderUtils'
+import { getPackingSlipVariables, replacePackingSlipVariables } from './packingSlipVariables'
+
+export function printMultiplePackingSlips(orders: OrderWithDetails[], stores: Store[] = []) {
+  const printContent = orders
+    .map(order => generatePackingSlipHTML(order, stores.find(store => store.id === order.storeId)))
     .join('') // FIXED: Removed the extra page-break div that was causing blank pages
 
   const printWindow = window.open('', '_blank')
   if (printWindow) {
-    printWindow.document.write(`
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <title>Packing Slips</title>
-          <meta charset="utf-8">
-          <style>
-            ${getPackingSlipCSS()}
-          </style>
-        </head>
-        <body>
-          ${printContent}
+    printWindow.document.write(buildPackingSlipDocument(printContent, true))
+    printWindow.document.close()
+  }
+}
+
+/**
+ * Wrap rendered slips in a full HTML document
+ * The template designer previews with autoPrint off
+ */
+export function buildPackingSlipDocument(content: string, autoPrint: boolean): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Packing Slips</title>
+        <meta charset="utf-8">
+        <style>
+          ${getPackingSlipCSS()}
+        </style>
+      </head>
+      <body>
+        ${content}
+        ${autoPrint ? `
           <script>
             window.onload = function() {
               window.print();
@@ -29,133 +43,326 @@ export function printMultiplePackingSlips(orders: OrderWithDetails[]) {
               }, 1000);
             }
           </script>
-        </body>
-      </html>
-    `)
-    printWindow.document.close()
-  }
+        ` : ''}
+      </body>
+    </html>
+  `
 }
 
-export function generatePackingSlipHTML(order: OrderWithDetails): string {
-  const company = DEFAULT_COMPANY_INFO
+/**
+ * Render one packing slip using the store's template (or the default layout)
+ * Pass template to render unsaved changes
+ */
+export function generatePackingSlipHTML(
+  order: OrderWithDetails,
+  store?: Store | null,
+  template?: PackingSlipTemplate
+): string {
+  const slipTemplate = template || store?.packingSlipTemplate || DEFAULT_PACKING_SLIP_TEMPLATE
+  const variables = getPackingSlipVariables(order, store)
+  const text = (value: string) =>
+    escapeHtml(replacePackingSlipVariables(value, variables)).replace(/\n/g, '<br/>')
+
+  // Gift orders never show what was paid
+  const showPrices = slipTemplate.showPrices && !order.items.some(item => item.isGift)
+
+  const blocks = slipTemplate.blocks
+    .filter(block => block.enabled)
+    .map(block => {
+      switch (block.type) {
+        case 'logo':
+          return renderLogo(store)
+        case 'header':
+          return renderHeader(order, store, text(slipTemplate.title), text(slipTemplate.headerMessage))
+        case 'addresses':
+          return renderAddresses(order)
+        case 'items':
+          return renderItems(order, showPrices)
+        case 'giftMessage':
+          return renderGiftMessages(order)
+        case 'notes':
+          return renderNotes(order)
+        case 'returnInstructions':
+          return slipTemplate.returnInstructions ? `
+            <div class="return-instructions">
+              <h4>↩️ Returns</h4>
+              <p>${text(slipTemplate.returnInstructions)}</p>
+            </div>
+          ` : ''
+        case 'barcode':
+          return `<div class="barcode">${generateCode39SVG(order.orderNumber)}</div>`
+        case 'checklist':
+          return renderChecklist()
+        default:
+          return ''
+      }
+    })
+    .join('')
 
   return `
     <div class="packing-slip">
-      <div class="header">
-        <div class="company-info">
-          <h1>${company.name}</h1>
-          <div>${company.address}</div>
-          <div>${company.city}, ${company.state} ${company.zip}</div>
-          <div>${company.country}</div>
-          <div>Phone: ${company.phone}</div>
-          <div>Email: ${company.email}</div>
-          <div>Web: ${company.website}</div>
-        </div>
-        <div class="slip-info">
-          <h2>PACKING SLIP</h2>
-          <div><strong>Order #:</strong> ${order.orderNumber}</div>
-          <div><strong>Platform:</strong> ${order.platform}</div>
-        </div>
+      ${blocks}
+      ${slipTemplate.footerText ? `<div class="slip-footer">${text(slipTemplate.footerText)}</div>` : ''}
+    </div>
+  `
+}
+
+function getCompanyInfo(store?: Store | null) {
+  if (!store) return DEFAULT_COMPANY_INFO
+
+  return {
+    name: store.storeName,
+    address: [store.address.address1, store.address.address2].filter(Boolean).join(', '),
+    city: store.address.city,
+    state: store.address.state,
+    zip: store.address.zip,
+    country: store.address.country,
+    phone: store.phone || '',
+    email: store.email || '',
+    website: store.website || ''
+  }
+}
+
+function renderLogo(store?: Store | null): string {
+  if (!store?.logo) return ''
+  return `<div class="logo"><img src="${escapeHtml(store.logo)}" alt="${escapeHtml(store.storeName)}" /></div>`
+}
+
+function renderHeader(order: OrderWithDetails, store: Store | null | undefined, title: string, message: string): string {
+  const company = getCompanyInfo(store)
+
+  return `
+    <div class="header">
+      <div class="company-info">
+        <h1>${escapeHtml(company.name)}</h1>
+        <div>${escapeHtml(company.address)}</div>
+        <div>${escapeHtml(company.city)}, ${escapeHtml(company.state)} ${escapeHtml(company.zip)}</div>
+        <div>${escapeHtml(company.country)}</div>
+        ${company.phone ? `<div>Phone: ${escapeHtml(company.phone)}</div>` : ''}
+        ${company.email ? `<div>Email: ${escapeHtml(company.email)}</div>` : ''}
+        ${company.website ? `<div>Web: ${escapeHtml(company.website)}</div>` : ''}
+      </div>
+      <div class="slip-info">
+        <h2>${title}</h2>
+        <div><strong>Order #:</strong> ${escapeHtml(order.orderNumber)}</div>
+        <div><strong>Platform:</strong> ${escapeHtml(order.platform)}</div>
       </div>
+    </div>
+    ${message ? `<p class="header-message">${message}</p>` : ''}
+  `
+}
 
-      <div class="addresses-row">
-        <div class="address-block">
-          <h3>📦 Ship To</h3>
-          <div class="address-content">
-            <strong>${order.shippingAddress.firstName} ${order.shippingAddress.lastName}</strong><br/>
-            ${order.shippingAddress.address1}<br/>
-            ${order.shippingAddress.city}, ${order.shippingAddress.state} ${order.shippingAddress.zip}<br/>
-            ${order.shippingAddress.country}<br/>
-            ${order.shippingAddress.phone ? `Phone: ${order.shippingAddress.phone}` : ''}
-          </div>
+function renderAddresses(order: OrderWithDetails): string {
+  return `
+    <div class="addresses-row">
+      <div class="address-block">
+        <h3>📦 Ship To</h3>
+        <div class="address-content">
+          <strong>${escapeHtml(order.shippingAddress.firstName)} ${escapeHtml(order.shippingAddress.lastName)}</strong><br/>
+          ${escapeHtml(order.shippingAddress.address1)}<br/>
+          ${escapeHtml(order.shippingAddress.city)}, ${escapeHtml(order.shippingAddress.state)} ${escapeHtml(order.shippingAddress.zip)}<br/>
+          ${escapeHtml(order.shippingAddress.country)}<br/>
+          ${order.shippingAddress.phone ? `Phone: ${escapeHtml(order.shippingAddress.phone)}` : ''}
         </div>
+      </div>
 
-        <div class="address-block">
-          <h3>📋 Order Information</h3>
-          <div class="address-content">
-            <div><strong>Order Date:</strong> ${formatDateForPackingSlip(order.orderDate)}</div>
-            <div><strong>Shipping Method:</strong> ${order.shippingMethod}</div>
-            ${order.trackingNumber ? `<div><strong>Tracking:</strong> ${order.trackingNumber}</div>` : ''}
-            <div><strong>Total Weight:</strong> ${calculateTotalWeight(order.items).toFixed(2)} kg</div>
-            <div><strong>Total Items:</strong> ${order.items.reduce((sum, item) => sum + item.quantity, 0)}</div>
-          </div>
+      <div class="address-block">
+        <h3>📋 Order Information</h3>
+        <div class="address-content">
+          <div><strong>Order Date:</strong> ${formatDateForPackingSlip(order.orderDate)}</div>
+          <div><strong>Shipping Method:</strong> ${escapeHtml(order.shippingMethod)}</div>
+          ${order.trackingNumber ? `<div><strong>Tracking:</strong> ${escapeHtml(order.trackingNumber)}</div>` : ''}
+          <div><strong>Total Weight:</strong> ${calculateTotalWeight(order.items).toFixed(2)} kg</div>
+          <div><strong>Total Items:</strong> ${order.items.reduce((sum, item) => sum + item.quantity, 0)}</div>
         </div>
       </div>
+    </div>
+  `
+}
 
-      <h3>📋 Items to Pack</h3>
-      <table>
-        <thead>
+function renderItems(order: OrderWithDetails, showPrices: boolean): string {
+  return `
+    <h3>📋 Items to Pack</h3>
+    <table>
+      <thead>
+        <tr>
+          <th>Product</th>
+          <th>SKU</th>
+          <th>Variant</th>
+          <th style="text-align: center;">Qty</th>
+          <th style="text-align: right;">Weight (kg)</th>
+          ${showPrices ? '<th style="text-align: right;">Price</th><th style="text-align: right;">Total</th>' : ''}
+          <th style="text-align: center;">Packed ✓</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${order.items.map(item => `
           <tr>
-            <th>Product</th>
-            <th>SKU</th>
-            <th>Variant</th>
-            <th style="text-align: center;">Qty</th>
-            <th style="text-align: right;">Weight (kg)</th>
-            <th style="text-align: center;">Packed ✓</th>
+            <td>
+              <strong>${escapeHtml(item.name)}</strong>
+              ${item.meta ? `<br/><small style="color: #666;">${Object.entries(item.meta).map(([key, value]) => `${escapeHtml(key)}: ${escapeHtml(String(value))}`).join(', ')}</small>` : ''}
+            </td>
+            <td><code>${escapeHtml(item.sku)}</code></td>
+            <td>${escapeHtml(item.variant) || '-'}</td>
+            <td style="text-align: center;">
+              <span class="qty-badge">${item.quantity}</span>
+            </td>
+            <td style="text-align: right;">
+              ${item.weight ? (item.weight * item.quantity).toFixed(2) : '-'}
+            </td>
+            ${showPrices ? `
+              <td style="text-align: right;">${formatCurrency(item.price, item.currency || order.currency)}</td>
+              <td style="text-align: right;">${formatCurrency(item.price * item.quantity, item.currency || order.currency)}</td>
+            ` : ''}
+            <td style="text-align: center;">
+              <input type="checkbox" style="width: 16px; height: 16px;" />
+            </td>
           </tr>
-        </thead>
-        <tbody>
-          ${order.items.map(item => `
-            <tr>
-              <td>
-                <strong>${item.name}</strong>
-                ${item.meta ? `<br/><small style="color: #666;">${Object.entries(item.meta).map(([key, value]) => `${key}: ${value}`).join(', ')}</small>` : ''}
-              </td>
-              <td><code>${item.sku}</code></td>
-              <td>${item.variant || '-'}</td>
-              <td style="text-align: center;">
-                <span class="qty-badge">${item.quantity}</span>
-              </td>
-              <td style="text-align: right;">
-                ${item.weight ? (item.weight * item.quantity).toFixed(2) : '-'}
-              </td>
-              <td style="text-align: center;">
-                <input type="checkbox" style="width: 16px; height: 16px;" />
-              </td>
-            </tr>
-          `).join('')}
-        </tbody>
-      </table>
-
-      ${order.notes ? `
-        <div class="notes">
-          <h4>⚠️ Special Instructions</h4>
-          <p>${order.notes}</p>
-        </div>
+        `).join('')}
+      </tbody>
+      ${showPrices ? `
+        <tfoot>
+          <tr>
+            <td colspan="6" style="text-align: right;"><strong>Order Total</strong></td>
+            <td style="text-align: right;"><strong>${formatCurrency(order.totalAmount, order.currency)}</strong></td>
+            <td></td>
+          </tr>
+        </tfoot>
       ` : ''}
+    </table>
+  `
+}
 
-      <div class="footer">
-        <div class="checklist">
-          <h4>📋 Packing Checklist</h4>
-          <ul>
-            <li>☐ All items present and correct</li>
-            <li>☐ Items properly protected</li>
-            <li>☐ Shipping label attached</li>
-            <li>☐ Return slip included</li>
-          </ul>
-        </div>
+function renderGiftMessages(order: OrderWithDetails): string {
+  const messages = order.items
+    .map(item => item.giftMessage)
+    .filter((message): message is string => !!message)
+    .filter((message, index, all) => all.indexOf(message) === index)
 
-        <div class="checklist">
-          <h4>✅ Quality Check</h4>
-          <ul>
-            <li>☐ Items match order</li>
-            <li>☐ No damage or defects</li>
-            <li>☐ Correct quantities</li>
-            <li>☐ Package secure</li>
-          </ul>
-        </div>
+  if (messages.length === 0) return ''
 
-        <div class="signature-area">
-          <h4>✏️ Packed By</h4>
-          <div class="signature-line"></div>
-          <div style="font-size: 12px; margin-top: 5px;">Signature</div>
-          <div style="margin-top: 15px; font-size: 12px;">Date: _______________</div>
-        </div>
+  return `
+    <div class="gift-message">
+      <h4>🎁 Gift Message</h4>
+      ${messages.map(message => `<p>${escapeHtml(message)}</p>`).join('')}
+    </div>
+  `
+}
+
+function renderNotes(order: OrderWithDetails): string {
+  if (!order.notes) return ''
+
+  return `
+    <div class="notes">
+      <h4>⚠️ Special Instructions</h4>
+      <p>${escapeHtml(order.notes)}</p>
+    </div>
+  `
+}
+
+function renderChecklist(): string {
+  return `
+    <div class="footer">
+      <div class="checklist">
+        <h4>📋 Packing Checklist</h4>
+        <ul>
+          <li>☐ All items present and correct</li>
+          <li>☐ Items properly protected</li>
+          <li>☐ Shipping label attached</li>
+          <li>☐ Return slip included</li>
+        </ul>
+      </div>
+
+      <div class="checklist">
+        <h4>✅ Quality Check</h4>
+        <ul>
+          <li>☐ Items match order</li>
+          <li>☐ No damage or defects</li>
+          <li>☐ Correct quantities</li>
+          <li>☐ Package secure</li>
+        </ul>
+      </div>
+
+      <div class="signature-area">
+        <h4>✏️ Packed By</h4>
+        <div class="signature-line"></div>
+        <div style="font-size: 12px; margin-top: 5px;">Signature</div>
+        <div style="margin-top: 15px; font-size: 12px;">Date: _______________</div>
       </div>
     </div>
   `
 }
 
+// Customers control most order fields through the storefront, so everything is escaped
+function escapeHtml(value: string | null | undefined): string {
+  return (value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Code 39 bar/space widths per character (n = narrow, w = wide), bar first
+const CODE39_PATTERNS: Record<string, string> = {
+  '0': 'nnnwwnwnn', '1': 'wnnwnnnnw', '2': 'nnwwnnnnw', '3': 'wnwwnnnnn',
+  '4': 'nnnwwnnnw', '5': 'wnnwwnnnn', '6': 'nnwwwnnnn', '7': 'nnnwnnwnw',
+  '8': 'wnnwnnwnn', '9': 'nnwwnnwnn', 'A': 'wnnnnwnnw', 'B': 'nnwnnwnnw',
+  'C': 'wnwnnwnnn', 'D': 'nnnnwwnnw', 'E': 'wnnnwwnnn', 'F': 'nnwnwwnnn',
+  'G': 'nnnnnwwnw', 'H': 'wnnnnwwnn', 'I': 'nnwnnwwnn', 'J': 'nnnnwwwnn',
+  'K': 'wnnnnnnww', 'L': 'nnwnnnnww', 'M': 'wnwnnnnwn', 'N': 'nnnnwnnww',
+  'O': 'wnnnwnnwn', 'P': 'nnwnwnnwn', 'Q': 'nnnnnnwww', 'R': 'wnnnnnwwn',
+  'S': 'nnwnnnwwn', 'T': 'nnnnwnwwn', 'U': 'wwnnnnnnw', 'V': 'nwwnnnnnw',
+  'W': 'wwwnnnnnn', 'X': 'nwnnwnnnw', 'Y': 'wwnnwnnnn', 'Z': 'nwwnwnnnn',
+  '-': 'nwnnnnwnw', '.': 'wwnnnnwnn', ' ': 'nwwnnnwnn', '*': 'nwnnwnwnn'
+}
+
+/**
+ * Code 39 bars for a value, in narrow-bar units (narrow = 1, wide = 2.5)
+ * Characters Code 39 can't encode (e.g. "#") are dropped
+ */
+export function encodeCode39(value: string): { bars: { x: number; width: number }[]; width: number; text: string } {
+  const NARROW = 1
+  const WIDE = 2.5
+
+  const text = value.toUpperCase().split('').filter(char => char !== '*' && CODE39_PATTERNS[char]).join('')
+
+  const chars = `*${text}*`.split('')
+
+  let x = 0
+  const bars: { x: number; width: number }[] = []
+  chars.forEach(char => {
+    CODE39_PATTERNS[char].split('').forEach((width, index) => {
+      const size = width === 'w' ? WIDE : NARROW
+      if (index % 2 === 0) {
+        bars.push({ x, width: size })
+      }
+      x += size
+    })
+    x += NARROW // Inter-character gap
+  })
+
+  return { bars, width: x, text }
+}
+
+/**
+ * Code 39 barcode of the order number as inline SVG (scannable by the packing station)
+ */
+export function generateCode39SVG(value: string): string {
+  const SCALE = 2
+  const HEIGHT = 50
+
+  const { bars, width, text } = encodeCode39(value)
+  const svgWidth = width * SCALE
+
+  return `
+    <svg xmlns="http://www.w3.org/2000/svg" width="${svgWidth}" height="${HEIGHT + 16}" viewBox="0 0 ${svgWidth} ${HEIGHT + 16}">
+      <g fill="#000">${bars.map(bar => `<rect x="${bar.x * SCALE}" y="0" width="${bar.width * SCALE}" height="${HEIGHT}" />`).join('')}</g>
+      <text x="${svgWidth / 2}" y="${HEIGHT + 13}" text-anchor="middle" font-family="monospace" font-size="12">${escapeHtml(text)}</text>
+    </svg>
+  `
+}
+
 function getPackingSlipCSS(): string {
   return `
     /* Remove browser chrome in print */
@@ -275,6 +482,48 @@ function getPackingSlipCSS(): string {
       min-width: 24px;
     }
 
+    .logo {
+      margin-bottom: 20px;
+    }
+
+    .logo img {
+      max-height: 80px;
+      max-width: 240px;
+    }
+
+    .header-message {
+      font-size: 16px;
+      margin: -10px 0 25px 0;
+    }
+
+    .gift-message {
+      background: #fdf2f8;
+      border: 1px solid #f9a8d4;
+      padding: 15px;
+      border-radius: 4px;
+      margin: 20px 0;
+      font-style: italic;
+    }
+
+    .return-instructions {
+      border: 1px dashed #999;
+      padding: 15px;
+      border-radius: 4px;
+      margin: 20px 0;
+    }
+
+    .barcode {
+      text-align: center;
+      margin: 20px 0;
+    }
+
+    .slip-footer {
+      margin-top: 20px;
+      text-align: center;
+      color: #666;
+      font-size: 12px;
+    }
+
     .notes {
       background: #fef3c7;
       border: 1px solid #f59e0b;
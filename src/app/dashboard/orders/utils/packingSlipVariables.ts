@@ -0,0 +1,57 @@
+// File: app/dashboard/orders/utils/packingSlipVariables.ts
+import { OrderWithDetails } from './orderTypes'
+import { Store } from '../../stores/utils/storeTypes'
+import { formatDateForPackingSlip } from './orderUtils'
+import { getUsedVariables } from '../../warehouses/utils/addressVariables'
+
+export type PackingSlipVariables = Record<string, string>
+
+/**
+ * Tokens available in packing slip template text, written as [name]
+ */
+export const PACKING_SLIP_VARIABLES: { name: string; description: string }[] = [
+  { name: 'store', description: 'Store name' },
+  { name: 'store_email', description: 'Store email' },
+  { name: 'store_website', description: 'Store website' },
+  { name: 'store_phone', description: 'Store phone' },
+  { name: 'order_number', description: 'Order number' },
+  { name: 'order_date', description: 'Order date' },
+  { name: 'platform', description: 'Sales channel' },
+  { name: 'customer_name', description: 'Customer full name' },
+  { name: 'first_name', description: 'Ship-to first name' }
+]
+
+export function getPackingSlipVariables(order: OrderWithDetails, store?: Store | null): PackingSlipVariables {
+  return {
+    store: store?.storeName || '',
+    store_email: store?.email || '',
+    store_website: store?.website || '',
+    store_phone: store?.phone || '',
+    order_number: order.orderNumber,
+    order_date: formatDateForPackingSlip(order.orderDate),
+    platform: order.platform,
+    customer_name: order.customerName,
+    first_name: order.shippingAddress.firstName
+  }
+}
+
+/**
+ * Replace [token] variables in template text
+ * Unknown tokens are left as typed so mistakes show up in the preview
+ */
+export function replacePackingSlipVariables(template: string, variables: PackingSlipVariables): string {
+  if (!template) return ''
+
+  return template.replace(/\[(\w+)\]/g, (token, name: string) => {
+    const key = name.toLowerCase()
+    return key in variables ? variables[key] : token
+  })
+}
+
+/**
+ * Tokens used in the template that aren't supported
+ */
+export function getUnsupportedPackingSlipVariables(template: string): string[] {
+  const supported = PACKING_SLIP_VARIABLES.map(variable => variable.name)
+  return getUsedVariables(template).filter(name => !supported.includes(name.toLowerCase()))
+}
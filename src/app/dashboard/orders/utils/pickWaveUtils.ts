@@ -0,0 +1,200 @@
+// File: app/dashboard/orders/utils/pickWaveUtils.ts
+
+import { Order, OrderWithDetails } from './orderTypes'
+import { transformToDetailedOrder } from './orderUtils'
+import { generateConsolidatedItems, PickingListContext } from './pickingListExporter'
+import {
+  PickWave,
+  PickWaveOrder,
+  PickWaveLine,
+  PickWaveRules,
+  CreatePickWaveData
+} from '@/lib/api/pickWaveApi'
+
+export const DEFAULT_PICK_WAVE_RULES: PickWaveRules = {
+  maxOrdersPerWave: 12,
+  maxItemsPerWave: null,
+  groupBy: 'none',
+  namePrefix: 'Wave'
+}
+
+/**
+ * Waves that still hold their orders (not completed or cancelled)
+ */
+export function getActiveWaves(waves: PickWave[]): PickWave[] {
+  return waves.filter(wave => wave.status === 'open' || wave.status === 'in_progress')
+}
+
+/**
+ * Map of order ID → active wave containing it
+ * An order can only be in one active wave at a time
+ */
+export function getOrderWaveMap(waves: PickWave[]): Map<string, PickWave> {
+  const map = new Map<string, PickWave>()
+  getActiveWaves(waves).forEach(wave => {
+    wave.orders.forEach(order => map.set(order.orderId, wave))
+  })
+  return map
+}
+
+/**
+ * Assign sequential tote slots to orders (oldest order in slot 1)
+ */
+export function assignToteSlots(orders: Order[]): PickWaveOrder[] {
+  return [...orders]
+    .sort((a, b) => new Date(a.orderDate || 0).getTime() - new Date(b.orderDate || 0).getTime())
+    .map((order, index) => ({
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      toteSlot: index + 1
+    }))
+}
+
+/**
+ * Build consolidated wave lines (in picking order) with per-order tote allocations
+ */
+export function buildWaveLines(
+  orders: OrderWithDetails[],
+  waveOrders: PickWaveOrder[],
+  context: PickingListContext = {}
+): Omit<PickWaveLine, 'id'>[] {
+  const { items, unslottedItems } = generateConsolidatedItems(orders, context)
+  const slotByOrderNumber = new Map(waveOrders.map(o => [o.orderNumber, o]))
+
+  return [...items, ...unslottedItems].map(item => ({
+    sku: item.sku,
+    name: item.name,
+    location: item.location,
+    quantity: item.totalQuantity,
+    pickedQuantity: 0,
+    allocations: item.orders.map(o => {
+      const waveOrder = slotByOrderNumber.get(o.orderNumber)
+      return {
+        orderId: waveOrder?.orderId || '',
+        orderNumber: o.orderNumber,
+        quantity: o.quantity,
+        toteSlot: waveOrder?.toteSlot || 0
+      }
+    })
+  }))
+}
+
+/**
+ * Build the payload for a single wave from a set of orders
+ */
+export function buildWaveData(
+  warehouseId: string,
+  name: string,
+  orders: Order[],
+  options: {
+    source: 'manual' | 'rules'
+    assignedPickerId?: string | null
+    context?: PickingListContext
+  }
+): CreatePickWaveData {
+  const waveOrders = assignToteSlots(orders)
+  const detailedOrders = orders.map(order => transformToDetailedOrder(order))
+
+  return {
+    warehouseId,
+    name,
+    source: options.source,
+    assignedPickerId: options.assignedPickerId ?? null,
+    orders: waveOrders,
+    lines: buildWaveLines(detailedOrders, waveOrders, options.context)
+  }
+}
+
+/**
+ * Split orders waiting to be picked into waves using the rules
+ * Orders already in an active wave are skipped. Oldest orders are waved first.
+ */
+export function buildWavesFromRules(
+  orders: Order[],
+  rules: PickWaveRules,
+  existingWaves: PickWave[] = []
+): { name: string; orders: Order[] }[] {
+  const orderWaveMap = getOrderWaveMap(existingWaves)
+  const available = orders
+    .filter(order => !orderWaveMap.has(order.id))
+    .sort((a, b) => new Date(a.orderDate || 0).getTime() - new Date(b.orderDate || 0).getTime())
+
+  // Group by shipping method or store so each wave ends at one pack station
+  const groups = new Map<string, Order[]>()
+  available.forEach(order => {
+    const key = rules.groupBy === 'shippingMethod'
+      ? order.requestedShipping || 'Standard'
+      : rules.groupBy === 'store'
+      ? order.storeId || 'Unknown store'
+      : 'all'
+    groups.set(key, [...(groups.get(key) || []), order])
+  })
+
+  const maxOrders = Math.max(1, rules.maxOrdersPerWave)
+  const timestamp = new Date().toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+  const waves: { name: string; orders: Order[] }[] = []
+
+  groups.forEach((groupOrders, key) => {
+    const chunks: Order[][] = []
+    let current: Order[] = []
+    let currentItems = 0
+
+    groupOrders.forEach(order => {
+      const orderItems = order.itemCount || 0
+      const exceedsItems = rules.maxItemsPerWave !== null &&
+        current.length > 0 &&
+        currentItems + orderItems > rules.maxItemsPerWave
+
+      if (current.length >= maxOrders || exceedsItems) {
+        chunks.push(current)
+        current = []
+        currentItems = 0
+      }
+
+      current.push(order)
+      currentItems += orderItems
+    })
+
+    if (current.length > 0) {
+      chunks.push(current)
+    }
+
+    // Name waves after their group when grouping is enabled
+    const groupLabel = rules.groupBy === 'none' ? '' : ` ${key}`
+    chunks.forEach((chunk, index) => {
+      waves.push({
+        name: `${rules.namePrefix}${groupLabel} ${timestamp} #${index + 1}`,
+        orders: chunk
+      })
+    })
+  })
+
+  return waves
+}
+
+/**
+ * Picking progress of a wave
+ */
+export function getWaveProgress(wave: PickWave): {
+  pickedUnits: number
+  totalUnits: number
+  completedLines: number
+  percent: number
+} {
+  const totalUnits = wave.lines.reduce((sum, line) => sum + line.quantity, 0)
+  const pickedUnits = wave.lines.reduce((sum, line) => sum + Math.min(line.pickedQuantity, line.quantity), 0)
+  const completedLines = wave.lines.filter(line => line.pickedQuantity >= line.quantity).length
+
+  return {
+    pickedUnits,
+    totalUnits,
+    completedLines,
+    percent: totalUnits > 0 ? Math.round((pickedUnits / totalUnits) * 100) : 0
+  }
+}
@@ -1,63 +1,160 @@
 // file path: app/dashboard/orders/utils/pickingListExporter.ts
 
-import { OrderWithDetails } from './orderTypes'
+import { OrderWithDetails, OrderItem, getUnfulfilledQuantity } from './orderTypes'
+import { findProductForItem } from './packVerification'
+import { Product, WarehouseStock } from '../../products/utils/productTypes'
+import { Warehouse, StructuredLocation } from '../../warehouses/utils/warehouseTypes'
+import {
+  formatLocation,
+  resolveLocationString,
+  compareStructuredLocations
+} from '../../warehouses/utils/locationUtils'
 
-interface ConsolidatedItem {
+export interface ConsolidatedItem {
   sku: string
   name: string
   totalQuantity: number
   location?: string
+  structuredLocation?: StructuredLocation
   orders: {
     orderNumber: string
     quantity: number
   }[]
 }
 
+/**
+ * Warehouse data used to resolve each SKU's bin
+ * Without it, only the location snapshot on the order item is used
+ */
+export interface PickingListContext {
+  warehouse?: Warehouse | null
+  products?: Product[]
+}
+
+export interface PickingList {
+  items: ConsolidatedItem[]          // Slotted items, in walking order
+  unslottedItems: ConsolidatedItem[] // Items with no bin - need slotting
+}
+
+/**
+ * Resolve the bin location of an order item in the picking warehouse
+ *
+ * Priority:
+ * 1. Product stock structuredLocation (formatted with the warehouse's LocationFormat)
+ * 2. Product stock location string (matched against the layout when possible)
+ * 3. Location snapshot stored on the order item
+ */
+function resolveItemLocation(
+  item: OrderItem,
+  warehouseId: string | undefined,
+  context: PickingListContext
+): { location?: string; structuredLocation?: StructuredLocation } {
+  const layout = context.warehouse?.layout
+  const product = context.products ? findProductForItem(item, context.products) : undefined
+
+  const stock: WarehouseStock | undefined = product?.warehouseStock?.find(
+    s => s.warehouseId === warehouseId
+  )
+
+  if (stock?.structuredLocation) {
+    return {
+      location: formatLocation(stock.structuredLocation, layout?.defaultLocationFormat),
+      structuredLocation: stock.structuredLocation
+    }
+  }
+
+  const locationString = stock?.location || item.location
+  if (!locationString) {
+    return {}
+  }
+
+  const resolved = resolveLocationString(locationString, layout)
+  return resolved
+    ? { location: resolved.formattedLocation, structuredLocation: resolved }
+    : { location: locationString }
+}
+
 /**
  * Generate consolidated items from orders using ACTUAL order items
+ * Each SKU's bin is resolved from the warehouse inventory and layout
+ * Only units still to ship are picked - lines already shipped are left out
  */
-function generateConsolidatedItems(orders: OrderWithDetails[]): ConsolidatedItem[] {
+export function generateConsolidatedItems(
+  orders: OrderWithDetails[],
+  context: PickingListContext = {}
+): PickingList {
   const itemMap = new Map<string, ConsolidatedItem>()
 
   orders.forEach((order) => {
-    // Use ACTUAL order items instead of mock data
+    if (!order.items || !Array.isArray(order.items)) return
+
+    const warehouseId = context.warehouse?.id || order.warehouseId
+
     order.items.forEach(item => {
+      const quantity = getUnfulfilledQuantity(item)
+      if (quantity <= 0) return
+
       if (itemMap.has(item.sku)) {
         const existing = itemMap.get(item.sku)!
-        existing.totalQuantity += item.quantity
+        existing.totalQuantity += quantity
         existing.orders.push({
           orderNumber: order.orderNumber,
-          quantity: item.quantity
+          quantity
         })
       } else {
         itemMap.set(item.sku, {
           sku: item.sku,
           name: item.name,
-          totalQuantity: item.quantity,
-          location: `A${Math.floor(Math.random() * 9) + 1}-B${Math.floor(Math.random() * 5) + 1}`,
+          totalQuantity: quantity,
+          ...resolveItemLocation(item, item.warehouseId || warehouseId, context),
           orders: [{
             orderNumber: order.orderNumber,
-            quantity: item.quantity
+            quantity
           }]
         })
       }
     })
   })
 
-  return Array.from(itemMap.values()).sort((a, b) => {
-    return (a.location || '').localeCompare(b.location || '')
-  })
+  const allItems = Array.from(itemMap.values())
+  const layout = context.warehouse?.layout
+
+  // Bins in walking order first, then free-text locations that aren't in the layout
+  const items = allItems
+    .filter(item => item.location)
+    .sort((a, b) => {
+      if (a.structuredLocation && b.structuredLocation) {
+        return compareStructuredLocations(a.structuredLocation, b.structuredLocation, layout)
+      }
+      if (a.structuredLocation) return -1
+      if (b.structuredLocation) return 1
+      return (a.location || '').localeCompare(b.location || '', undefined, { numeric: true })
+    })
+
+  const unslottedItems = allItems
+    .filter(item => !item.location)
+    .sort((a, b) => a.sku.localeCompare(b.sku))
+
+  return { items, unslottedItems }
 }
 
 /**
  * Generate CSV content for picking list
  */
-export function generatePickingListCSV(orders: OrderWithDetails[], warehouseName: string = 'Warehouse'): string {
-  const consolidatedItems = generateConsolidatedItems(orders)
+export function generatePickingListCSV(
+  orders: OrderWithDetails[],
+  warehouseName: string = 'Warehouse',
+  context: PickingListContext = {}
+): string {
+  const { items: consolidatedItems, unslottedItems } = generateConsolidatedItems(orders, context)
 
   // Create headers
   const headers = [
     'Location',
+    'Zone',
+    'Aisle',
+    'Shelf Level',
+    'Bin',
     'SKU',
     'Product Name',
     'Total Quantity',
@@ -66,24 +163,39 @@ export function generatePickingListCSV(orders: OrderWithDetails[], warehouseName
   ]
 
   // Create data rows
-  const rows = consolidatedItems.map(item => {
+  const toRow = (item: ConsolidatedItem) => {
     const orderDetails = item.orders
       .map(o => `${o.orderNumber} (${o.quantity})`)
       .join(' | ')
 
     return [
-      item.location || 'N/A',
+      item.location || 'UNSLOTTED',
+      item.structuredLocation?.zoneCode || '',
+      item.structuredLocation?.aisleCode || '',
+      item.structuredLocation?.shelfLevel?.toString() || '',
+      item.structuredLocation?.binCode || '',
       item.sku,
       item.name,
       item.totalQuantity.toString(),
       orderDetails,
       '' // Empty column for picked checkbox
     ]
-  })
+  }
+
+  const rows = consolidatedItems.map(toRow)
+
+  // Unslotted SKUs are listed separately so their slotting can be fixed
+  const unslottedRows = unslottedItems.length > 0
+    ? [
+        [],
+        [`WARNING: ${unslottedItems.length} SKU(s) have no bin location in this warehouse`],
+        ...unslottedItems.map(toRow)
+      ]
+    : []
 
   // Add summary section
   const totalItems = orders.reduce((sum, order) => {
-    return sum + order.items.reduce((itemSum, item) => itemSum + item.quantity, 0)
+    return sum + order.items.reduce((itemSum, item) => itemSum + getUnfulfilledQuantity(item), 0)
   }, 0)
 
   const summaryRows = [
@@ -91,7 +203,8 @@ export function generatePickingListCSV(orders: OrderWithDetails[], warehouseName
     ['SUMMARY'],
     ['Total Orders:', orders.length.toString()],
     ['Total Items:', totalItems.toString()],
-    ['Unique SKUs:', consolidatedItems.length.toString()],
+    ['Unique SKUs:', (consolidatedItems.length + unslottedItems.length).toString()],
+    ['Unslotted SKUs:', unslottedItems.length.toString()],
     ['Warehouse:', warehouseName],
     ['Generated:', new Date().toLocaleString()]
   ]
@@ -100,6 +213,7 @@ export function generatePickingListCSV(orders: OrderWithDetails[], warehouseName
   const allRows = [
     headers,
     ...rows,
+    ...unslottedRows,
     ...summaryRows
   ]
 
@@ -121,9 +235,13 @@ export function generatePickingListCSV(orders: OrderWithDetails[], warehouseName
 /**
  * Download picking list as CSV file
  */
-export function downloadPickingListCSV(orders: OrderWithDetails[], warehouseName: string = 'Warehouse'): void {
+export function downloadPickingListCSV(
+  orders: OrderWithDetails[],
+  warehouseName: string = 'Warehouse',
+  context: PickingListContext = {}
+): void {
   try {
-    const csvContent = generatePickingListCSV(orders, warehouseName)
+    const csvContent = generatePickingListCSV(orders, warehouseName, context)
 
     // Create blob
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
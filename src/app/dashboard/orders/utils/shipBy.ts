@@ -0,0 +1,95 @@
+// File: app/dashboard/orders/utils/shipBy.ts
+
+import { ShipByStatus } from './orderTypes'
+import { WarehouseCalendar } from '../../warehouses/utils/warehouseTypes'
+import {
+  toZonedDateTime,
+  zonedTimeToDate,
+  isBusinessDay,
+  getNextBusinessDay,
+  getCutoffTime
+} from '../../warehouses/utils/warehouseCalendar'
+
+// Open orders due within this many hours are "at risk"
+export const AT_RISK_HOURS = 2
+
+export const SHIP_BY_STATUS_LABELS: Record<ShipByStatus, string> = {
+  late: 'Late',
+  at_risk: 'At risk',
+  due_today: 'Due today',
+  upcoming: 'Upcoming'
+}
+
+export const SHIP_BY_STATUS_COLORS: Record<ShipByStatus, string> = {
+  late: 'bg-red-100 text-red-800',
+  at_risk: 'bg-orange-100 text-orange-800',
+  due_today: 'bg-yellow-100 text-yellow-800',
+  upcoming: 'bg-gray-100 text-gray-700'
+}
+
+// Filter options - "upcoming" isn't useful on its own
+export const SHIP_BY_FILTER_OPTIONS: { value: ShipByStatus; label: string }[] = [
+  { value: 'late', label: 'Late' },
+  { value: 'at_risk', label: `At risk (next ${AT_RISK_HOURS}h)` },
+  { value: 'due_today', label: 'Due today' }
+]
+
+/**
+ * Ship-by deadline for an order, as an ISO timestamp
+ *
+ * An order placed on a business day before that day's cutoff can ship the same
+ * day; otherwise the clock starts on the next business day. The store's
+ * handling time then adds whole business days, and the deadline is the cutoff
+ * on the last one. Pure function, so the backend can store the same value.
+ */
+export function calculateShipByDate(
+  orderDate: string,
+  requestedShipping: string | undefined,
+  calendar: WarehouseCalendar,
+  handlingTimeDays: number = 0
+): string | null {
+  if (!orderDate || isNaN(new Date(orderDate).getTime())) return null
+
+  const placed = toZonedDateTime(orderDate, calendar.timeZone)
+  let day = placed.day
+
+  const placedDayCutoff = getCutoffTime(calendar, day, requestedShipping)
+  if (!isBusinessDay(calendar, day) || !placedDayCutoff || placed.time >= placedDayCutoff) {
+    day = getNextBusinessDay(calendar, day)
+  }
+
+  for (let i = 0; i < Math.max(0, Math.floor(handlingTimeDays)); i++) {
+    day = getNextBusinessDay(calendar, day)
+  }
+
+  const cutoff = getCutoffTime(calendar, day, requestedShipping) || '23:59'
+  return zonedTimeToDate(day, cutoff, calendar.timeZone).toISOString()
+}
+
+/**
+ * How an open order is doing against its deadline
+ * "Today" is the warehouse's today
+ */
+export function getShipByStatus(shipByDate: string, timeZone: string, now: Date = new Date()): ShipByStatus {
+  const msLeft = new Date(shipByDate).getTime() - now.getTime()
+
+  if (msLeft < 0) return 'late'
+  if (msLeft <= AT_RISK_HOURS * 60 * 60 * 1000) return 'at_risk'
+  if (toZonedDateTime(shipByDate, timeZone).day === toZonedDateTime(now, timeZone).day) return 'due_today'
+  return 'upcoming'
+}
+
+/**
+ * "Today 2:00 PM" / "Tomorrow 5:00 PM" / "Mon, Oct 20 2:00 PM", in the warehouse's time zone
+ */
+export function formatShipByDate(shipByDate: string, timeZone: string, now: Date = new Date()): string {
+  const date = new Date(shipByDate)
+  const time = date.toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit' })
+  const day = toZonedDateTime(date, timeZone).day
+  const today = toZonedDateTime(now, timeZone).day
+  const tomorrow = toZonedDateTime(now.getTime() + 24 * 60 * 60 * 1000, timeZone).day
+
+  if (day === today) return `Today ${time}`
+  if (day === tomorrow) return `Tomorrow ${time}`
+  return `${date.toLocaleDateString('en-US', { timeZone, weekday: 'short', month: 'short', day: 'numeric' })} ${time}`
+}
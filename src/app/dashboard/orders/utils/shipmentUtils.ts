@@ -0,0 +1,166 @@
+// File: app/dashboard/orders/utils/shipmentUtils.ts
+
+import {
+  OrderItem,
+  OrderWithDetails,
+  ShipmentPackage,
+  ShippingLabel,
+  getUnfulfilledQuantity
+} from './orderTypes'
+import { ShippingBox } from '../../shipping/utils/shippingTypes'
+import { Warehouse } from '../../warehouses/utils/warehouseTypes'
+
+/**
+ * The shipping warehouse's address in the format the USPS API expects
+ * Throws when the warehouse has no address, so labels are never bought from a made-up one
+ */
+export function getShipFromAddress(warehouse: Warehouse | undefined) {
+  const address = warehouse?.address
+  if (!address?.address1 || !address.city || !address.state || !address.zip) {
+    throw new Error(`Add an address to ${warehouse?.name || 'the shipping warehouse'} before buying labels`)
+  }
+
+  return {
+    streetAddress: address.address1,
+    secondaryAddress: address.address2,
+    city: address.city,
+    state: address.state,
+    ZIPCode: address.zip.split('-')[0]
+  }
+}
+
+/**
+ * A package being built in the shipping modal (before it has a label)
+ */
+export interface DraftPackage {
+  key: string
+  boxId?: string
+  boxName?: string
+  weight: number                        // Ounces
+  length: number
+  width: number
+  height: number
+  quantities: Record<string, number>    // OrderItem.id → quantity in this package
+}
+
+const OUNCES_PER_UNIT: Record<string, number> = {
+  oz: 1,
+  lb: 16,
+  lbs: 16,
+  g: 0.035274,
+  kg: 35.274
+}
+
+/**
+ * Lines that still have quantity left to ship
+ */
+export function getShippableLines(order: OrderWithDetails): OrderItem[] {
+  return order.items.filter(item => getUnfulfilledQuantity(item) > 0)
+}
+
+/**
+ * Create an empty package, sized from a box when one is given
+ */
+export function createDraftPackage(index: number, box?: ShippingBox): DraftPackage {
+  const toInches = box?.dimensions.unit === 'cm' ? 1 / 2.54 : 1
+
+  return {
+    key: `pkg-${Date.now()}-${index}`,
+    boxId: box?.id,
+    boxName: box?.name,
+    weight: 0,
+    length: box ? Math.round(box.dimensions.length * toInches * 10) / 10 : 10,
+    width: box ? Math.round(box.dimensions.width * toInches * 10) / 10 : 8,
+    height: box ? Math.round(box.dimensions.height * toInches * 10) / 10 : 6,
+    quantities: {}
+  }
+}
+
+/**
+ * Quantity of a line already placed in packages (optionally ignoring one package)
+ */
+export function getAllocatedQuantity(packages: DraftPackage[], itemId: string, excludeKey?: string): number {
+  return packages
+    .filter(pkg => pkg.key !== excludeKey)
+    .reduce((sum, pkg) => sum + (pkg.quantities[itemId] || 0), 0)
+}
+
+/**
+ * Estimate package weight in ounces from its items and the box's tare weight
+ */
+export function estimatePackageWeight(order: OrderWithDetails, pkg: DraftPackage, box?: ShippingBox): number {
+  const itemsWeight = order.items.reduce((sum, item) => {
+    const quantity = pkg.quantities[item.id] || 0
+    if (!quantity || !item.weight) return sum
+    return sum + item.weight * (OUNCES_PER_UNIT[item.weightUnit || 'oz'] || 1) * quantity
+  }, 0)
+
+  const tare = box ? box.weight.tareWeight * (OUNCES_PER_UNIT[box.weight.unit] || 1) : 0
+
+  return Math.ceil(itemsWeight + tare)
+}
+
+/**
+ * Check packages before buying labels
+ * Returns an error message, or null when the packages can be shipped
+ */
+export function validateDraftPackages(order: OrderWithDetails, packages: DraftPackage[]): string | null {
+  if (packages.length === 0) {
+    return 'Add at least one package'
+  }
+
+  for (let index = 0; index < packages.length; index++) {
+    const pkg = packages[index]
+    const units = Object.values(pkg.quantities).reduce((sum: number, qty: number) => sum + qty, 0)
+    if (units === 0) {
+      return `Package ${index + 1} has no items`
+    }
+    if (!pkg.weight || !pkg.length || !pkg.width || !pkg.height) {
+      return `Package ${index + 1} needs a weight and dimensions`
+    }
+  }
+
+  for (const item of order.items) {
+    if (getAllocatedQuantity(packages, item.id) > getUnfulfilledQuantity(item)) {
+      return `Too many units of ${item.name} in packages`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Convert a draft package and its purchased label into a shipment package
+ */
+export function toShipmentPackage(
+  order: OrderWithDetails,
+  pkg: DraftPackage,
+  label?: ShippingLabel
+): Omit<ShipmentPackage, 'id' | 'integrationFulfillmentId'> {
+  return {
+    boxId: pkg.boxId,
+    boxName: pkg.boxName,
+    weight: pkg.weight,
+    dimensions: {
+      length: pkg.length,
+      width: pkg.width,
+      height: pkg.height
+    },
+    items: order.items
+      .filter(item => (pkg.quantities[item.id] || 0) > 0)
+      .map(item => ({
+        orderItemId: item.id,
+        sku: item.variantSku || item.sku,
+        name: item.name,
+        quantity: pkg.quantities[item.id]
+      })),
+    label
+  }
+}
+
+/**
+ * Whether shipping these packages leaves anything on the order unshipped
+ */
+export function isPartialShipment(order: OrderWithDetails, packages: DraftPackage[]): boolean {
+  return order.items.some(item => getUnfulfilledQuantity(item) > getAllocatedQuantity(packages, item.id))
+}
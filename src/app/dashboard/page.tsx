@@ -13,6 +13,7 @@ import {
 } from '@heroicons/react/24/outline'
 import { useAccountInitialization } from '@/hooks/useAccountInitialization'  // ✅ Added import
 import { AccountAPI } from '@/lib/api/accountApi'  // ✅ Added import
+import ShipByDeadlinesCard from './orders/components/ShipByDeadlinesCard'
 
 interface OptimizationItem {
   id: string
@@ -205,7 +206,7 @@ export default function Dashboard() {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
 
             {/* Welcome Section */}
-            <div className="lg:col-span-1">
+            <div className="lg:col-span-1 space-y-6">
               <div className="bg-white p-6 rounded-lg shadow">
                 <h1 className="text-2xl font-bold text-gray-900 mb-4">
                   Welcome, {user.name}!
@@ -224,6 +225,8 @@ export default function Dashboard() {
                   Sign Out
                 </button>
               </div>
+
+              <ShipByDeadlinesCard />
             </div>
 
             {/* Warehouse Optimization Tracker */}
@@ -9,6 +9,8 @@ import { Product } from '../utils/productTypes'
 import { Store } from '../../stores/utils/storeTypes'
 import { Warehouse } from '../../warehouses/utils/warehouseTypes'
 import { ProductAPI } from '@/lib/api/productApi'
+import { InventoryMovementReason } from '@/lib/api/inventoryApi'
+import { ADJUSTMENT_REASON_OPTIONS } from '../../warehouses/utils/inventoryMovements'
 import { getMainImage, formatCurrency } from '../utils/productUtils'
 import {
   PRODUCT_STATUS_COLORS,
@@ -71,6 +73,8 @@ interface ProductFormData {
   stockStatus: Product['stockStatus']
   trackQuantity: boolean
   stockThreshold: string
+  stockReason: InventoryMovementReason   // Recorded on the inventory movement when stockQuantity changes
+  stockNote: string
 
   // Organization
   category: string
@@ -144,6 +148,8 @@ export default function EditProductModal({
       stockStatus: 'in_stock',
       trackQuantity: true,
       stockThreshold: '10',
+      stockReason: 'manual',
+      stockNote: '',
       category: '',
       vendor: '',
       brand: '',
@@ -178,6 +184,8 @@ export default function EditProductModal({
       stockStatus: p.stockStatus || 'in_stock',
       trackQuantity: p.trackQuantity ?? true,
       stockThreshold: p.stockThreshold?.toString() || '10',
+      stockReason: 'manual',
+      stockNote: '',
       category: p.category || '',
       vendor: p.vendor || '',
       brand: p.brand || '',
@@ -301,7 +309,12 @@ export default function EditProductModal({
 
     try {
       console.log('[EditProductModal] Saving product updates:', updates)
-      const result = await ProductAPI.updateProduct(product.id, updates)
+      const payload = updates.stockQuantity === undefined ? updates : {
+        ...updates,
+        movementReason: formData.stockReason,
+        movementNote: formData.stockNote.trim() || undefined
+      }
+      const result = await ProductAPI.updateProduct(product.id, payload)
 
       // Check for sync warning (207 response from backend)
       if (result?._syncWarning) {
@@ -627,6 +640,15 @@ export default function EditProductModal({
             })}
           </div>
 
+          {product && (parseInt(formData.stockQuantity, 10) || 0) !== product.stockQuantity && (
+            <div className="grid grid-cols-2 gap-4 rounded-md bg-gray-50 p-3">
+              {renderSelect('Reason for Change', 'stockReason', ADJUSTMENT_REASON_OPTIONS, {
+                helpText: 'Recorded in the stock history',
+              })}
+              {renderInput('Note', 'stockNote', { placeholder: 'Optional' })}
+            </div>
+          )}
+
           {renderSelect('Stock Status', 'stockStatus', [
             { value: 'in_stock', label: 'In Stock' },
             { value: 'out_of_stock', label: 'Out of Stock' },
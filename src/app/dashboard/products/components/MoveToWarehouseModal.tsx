@@ -3,6 +3,7 @@
 'use client'
 
 import { useState, useMemo } from 'react'
+import Link from 'next/link'
 import { Product } from '../utils/productTypes'
 
 interface Warehouse {
@@ -128,6 +129,10 @@ export default function MoveToWarehouseModal({
                 <p className="text-xs text-gray-400 mt-1">
                   Inventory will be transferred. Products will be removed from the source warehouse.
                 </p>
+                <p className="text-xs text-gray-400 mt-1">
+                  To ship part of the stock, use a{' '}
+                  <Link href="/dashboard/transfers" className="text-indigo-600 hover:text-indigo-500">transfer</Link> instead.
+                </p>
               </div>
 
               {/* Product list preview (up to 5) */}
@@ -5,6 +5,8 @@
 import { MagnifyingGlassIcon, FunnelIcon } from '@heroicons/react/24/outline'
 import { Product, ProductFilterState } from '../utils/productTypes'
 import { useSettings } from '../../shared/hooks/useSettings'
+import SearchQueryInput from '../../shared/components/SearchQueryInput'
+import { PRODUCT_SEARCH_FIELDS } from '../constants/productConstants'
 
 interface FilterOptions {
   categories: string[]
@@ -23,23 +25,27 @@ interface FilterOptions {
 interface ProductsFiltersProps {
   searchTerm: string
   onSearchChange: (term: string) => void
+  searching?: boolean           // Search terms are being applied by the products API
   showFilters: boolean
   onToggleFilters: () => void
   filters: ProductFilterState
   onFiltersChange: (filters: ProductFilterState) => void
   onClearAllFilters: () => void
   filterOptions: FilterOptions
+  viewsMenu?: React.ReactNode   // Saved views dropdown, shown next to the filter toggle
 }
 
 export default function ProductsFilters({
   searchTerm,
   onSearchChange,
+  searching = false,
   showFilters,
   onToggleFilters,
   filters,
   onFiltersChange,
   onClearAllFilters,
-  filterOptions
+  filterOptions,
+  viewsMenu
 }: ProductsFiltersProps) {
   const { settings } = useSettings()
 
@@ -71,18 +77,16 @@ export default function ProductsFilters({
       <div className="flex flex-col sm:flex-row gap-4">
         {/* Search */}
         <div className="flex-1">
-          <div className="relative">
-            <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-              <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" aria-hidden="true" />
-            </div>
-            <input
-              type="text"
-              placeholder="Search products by name, SKU, description, brand..."
-              value={searchTerm}
-              onChange={(e) => onSearchChange(e.target.value)}
-              className="block w-full rounded-md border-0 py-1.5 pl-10 pr-3 text-gray-900 ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6"
-            />
-          </div>
+          <SearchQueryInput
+            value={searchTerm}
+            onChange={onSearchChange}
+            fields={PRODUCT_SEARCH_FIELDS}
+            icon={searching
+              ? <div className="h-4 w-4 animate-spin rounded-full border-b-2 border-indigo-600" aria-label="Searching" />
+              : <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" aria-hidden="true" />}
+            placeholder="Search products, or filter with stock<5 vendor:Acme..."
+            className="block w-full rounded-md border-0 py-1.5 pl-10 pr-3 text-gray-900 ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6"
+          />
         </div>
 
         {/* Filter Toggle */}
@@ -93,6 +97,8 @@ export default function ProductsFilters({
           <FunnelIcon className="h-4 w-4" />
           Filters
         </button>
+
+        {viewsMenu}
       </div>
 
       {/* Active Filters Display */}
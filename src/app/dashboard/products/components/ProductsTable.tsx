@@ -14,7 +14,8 @@ import {
   CheckIcon,
   ExclamationTriangleIcon, // Warning icon for missing SKU
   XMarkIcon,
-  ArrowsRightLeftIcon // ✅ NEW: Move to warehouse icon
+  ArrowsRightLeftIcon, // ✅ NEW: Move to warehouse icon
+  ClockIcon
 } from '@heroicons/react/24/outline'
 import {
   DndContext,
@@ -84,6 +85,7 @@ interface ProductsTableProps {
   onUpdateSku?: (productId: string, newSku: string) => Promise<void> // Inline SKU update
   onUpdatePrice?: (productId: string, newPrice: number, newComparePrice?: number | null) => Promise<void> // Inline price update
   onMoveToWarehouse?: (product: Product) => void // ✅ NEW: Move product to another warehouse
+  onViewStockHistory?: (product: Product) => void // Inventory movements for the product
   selectedWarehouseId?: string // To display warehouse-specific quantity
   stores?: Store[] // lastSyncAtAdded stores for rendering store names
 }
@@ -104,6 +106,7 @@ export default function ProductsTable({
   onUpdateSku, // SKU update handler
   onUpdatePrice, // Price update handler
   onMoveToWarehouse, // ✅ NEW: Move to warehouse handler
+  onViewStockHistory,
   selectedWarehouseId, // To display warehouse-specific quantity
   stores = [] // lastSyncAtDefault empty array
 }: ProductsTableProps) {
@@ -1136,6 +1139,15 @@ export default function ProductsTable({
                 <ArrowsRightLeftIcon className="h-4 w-4" />
               </button>
             )}
+            {onViewStockHistory && (
+              <button
+                onClick={() => onViewStockHistory(product)}
+                className="text-gray-500 hover:text-gray-700"
+                title="Stock History"
+              >
+                <ClockIcon className="h-4 w-4" />
+              </button>
+            )}
           </div>
         )
 
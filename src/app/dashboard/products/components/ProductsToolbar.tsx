@@ -5,7 +5,8 @@
 import {
   ArrowDownTrayIcon,
   PlusIcon,
-  ArrowsRightLeftIcon
+  ArrowsRightLeftIcon,
+  QrCodeIcon
 } from '@heroicons/react/24/outline'
 import { ProductColumnConfig, ProductFilterState } from '../utils/productTypes'
 import ScreenOptions from '../../shared/components/ScreenOptions'
@@ -30,6 +31,8 @@ interface ProductsToolbarProps {
   searchTerm?: string // For detecting if search filter is active
   filters?: ProductFilterState // For detecting if filters are active
   selectedWarehouseId?: string // To show move button only when a warehouse is selected
+  canPrintLabels?: boolean // A thermal printer is set up for barcode labels
+  printingLabels?: boolean
 }
 
 export default function ProductsToolbar({
@@ -51,7 +54,9 @@ export default function ProductsToolbar({
   hasEcommerceIntegrations = false,
   searchTerm = '',
   filters,
-  selectedWarehouseId = ''
+  selectedWarehouseId = '',
+  canPrintLabels = false,
+  printingLabels = false
 }: ProductsToolbarProps) {
 
   // ✅ Helper: Check if any real filters (not warehouse/store context) are active
@@ -155,6 +160,18 @@ export default function ProductsToolbar({
             </button>
           )}
 
+          {/* Bulk Actions - Barcode labels on the thermal printer */}
+          {selectedProductsCount > 0 && canPrintLabels && (
+            <button
+              onClick={() => onBulkAction('print_labels')}
+              disabled={printingLabels}
+              className="inline-flex items-center gap-x-2 rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <QrCodeIcon className="h-4 w-4" />
+              {printingLabels ? 'Printing...' : `Print Labels (${selectedProductsCount})`}
+            </button>
+          )}
+
           {/* Import from Shopify Button */}
           {hasEcommerceIntegrations && onImport && (
             <button
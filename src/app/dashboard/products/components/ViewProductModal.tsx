@@ -7,6 +7,7 @@ import { Dialog, Transition } from '@headlessui/react'
 import { Product } from '../utils/productTypes'
 import { Store } from '../../stores/utils/storeTypes'
 import { Warehouse } from '../../warehouses/utils/warehouseTypes'
+import CommentThreads from '../../shared/components/CommentThreads'
 import {
   getMainImage,
   getAllImages,
@@ -32,7 +33,7 @@ interface ViewProductModalProps {
   onEdit?: (product: Product) => void
 }
 
-type TabId = 'details' | 'inventory' | 'variants' | 'media'
+type TabId = 'details' | 'inventory' | 'variants' | 'media' | 'comments'
 
 export default function ViewProductModal({
   isOpen,
@@ -58,6 +59,7 @@ export default function ViewProductModal({
     { id: 'inventory', label: 'Inventory', show: true },
     { id: 'variants', label: `Variants (${product.variants?.length || 0})`, show: !!hasVariants },
     { id: 'media', label: `Media (${allImages.length})`, show: allImages.length > 0 },
+    { id: 'comments', label: 'Comments', show: true },
   ]
 
   const statusColor = PRODUCT_STATUS_COLORS[product.status] || 'bg-gray-100 text-gray-800'
@@ -425,6 +427,11 @@ export default function ViewProductModal({
                       )}
                     </div>
                   )}
+
+                  {/* Comments Tab */}
+                  {activeTab === 'comments' && (
+                    <CommentThreads entityType="product" entityId={product.id} isOpen={isOpen} />
+                  )}
                 </div>
 
                 {/* ── Footer ── */}
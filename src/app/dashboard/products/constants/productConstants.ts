@@ -1,6 +1,7 @@
 //file path: app/dashboard/products/components/productConstants.tsx
 
 import { ProductColumnConfig, ProductFilterState, ProductSortState } from '../utils/productTypes'
+import { SearchFieldDef } from '@/lib/search/searchQuery'
 
 export const PRODUCT_STATUS_COLORS = {
   active: 'bg-green-100 text-green-800',
@@ -89,6 +90,35 @@ export const DEFAULT_PRODUCT_SORT: ProductSortState = {
   direction: 'desc'
 }
 
+export const PRODUCT_SEARCH_DEBOUNCE_MS = 300
+
+// Fields for the structured search box (e.g. "stock<5 vendor:Acme")
+export const PRODUCT_SEARCH_FIELDS: SearchFieldDef[] = [
+  { name: 'sku', type: 'text', description: 'Product or variant SKU' },
+  { name: 'name', type: 'text', description: 'Product name', aliases: ['title'] },
+  {
+    name: 'status',
+    type: 'enum',
+    description: 'Product status',
+    values: ['active', 'inactive', 'draft', 'archived'].map(value => ({ value, label: value }))
+  },
+  {
+    name: 'type',
+    type: 'enum',
+    description: 'Product type',
+    values: ['simple', 'variant', 'parent', 'bundle', 'configurable'].map(value => ({ value, label: value }))
+  },
+  { name: 'stock', type: 'number', description: 'Stock quantity, e.g. stock<5', aliases: ['qty'] },
+  { name: 'price', type: 'number', description: 'Price' },
+  { name: 'vendor', type: 'text', description: 'Vendor' },
+  { name: 'brand', type: 'text', description: 'Brand' },
+  { name: 'category', type: 'text', description: 'Category' },
+  { name: 'tag', type: 'text', description: 'Product tag', aliases: ['tags'] },
+  { name: 'platform', type: 'text', description: 'Sales channel' },
+  { name: 'created', type: 'date', description: 'Created date, e.g. created:>2026-09-01' },
+  { name: 'updated', type: 'date', description: 'Last updated date' }
+]
+
 export const PRODUCTS_PER_PAGE = 20
 
 export const STOCK_THRESHOLD_WARNING = 10
@@ -4,6 +4,8 @@ import { useState, useEffect, useMemo } from 'react'
 import { Product, ProductColumnConfig, ProductSortState } from '../utils/productTypes'
 import { DEFAULT_PRODUCT_COLUMNS, DEFAULT_PRODUCT_SORT } from '../constants/productConstants'
 import { useProductPreferences } from './useProductPreferences'
+import { SavedViewState } from '@/lib/api/userApi'
+import { applySavedColumns } from '../../shared/utils/savedViews'
 
 /**
  * Hook to manage product columns and sorting
@@ -190,6 +192,16 @@ export function useProductColumns(products: Product[]) {
     saveColumns(newColumns) // Save to API
   }
 
+  // Apply the column layout and sort of a saved view
+  const applyLayout = (savedColumns: SavedViewState['columns'], sort: ProductSortState) => {
+    const newColumns = applySavedColumns(DEFAULT_PRODUCT_COLUMNS, savedColumns)
+
+    setColumns(newColumns)
+    setSortConfig(sort)
+    saveColumns(newColumns) // Save to API
+    saveSortConfig(sort)
+  }
+
   // Reset to defaults
   const resetToDefaults = async () => {
     setColumns(DEFAULT_PRODUCT_COLUMNS)
@@ -206,6 +218,7 @@ export function useProductColumns(products: Product[]) {
     handleSort,
     handleColumnVisibilityChange,
     handleColumnReorder,
+    applyLayout,
     resetToDefaults,
     isLoading: prefsLoading || !initialized
   }
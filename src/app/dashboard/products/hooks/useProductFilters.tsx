@@ -1,28 +1,71 @@
 //file path: app/dashboard/products/hooks/useProductFilters.tsx
 
-import { useState, useMemo } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { Product, ProductFilterState } from '../utils/productTypes'
-import { DEFAULT_PRODUCT_FILTERS } from '../constants/productConstants'
+import { DEFAULT_PRODUCT_FILTERS, PRODUCT_SEARCH_FIELDS, PRODUCT_SEARCH_DEBOUNCE_MS } from '../constants/productConstants'
+import { parseSearchQuery, matchesSearchConditions } from '@/lib/search/searchQuery'
 import { Warehouse } from '../../warehouses/utils/warehouseTypes'
 import { Store } from '../../stores/utils/storeTypes'
 import { getUniqueWarehousesFromProducts } from '../utils/productUtils'
 
+// Product value for a search field (see PRODUCT_SEARCH_FIELDS)
+function getProductSearchValue(product: Product, field: string): unknown {
+  switch (field) {
+    case 'sku': return [product.sku, ...(product.variants?.map(variant => variant.sku) || [])]
+    case 'name': return product.name
+    case 'status': return product.status
+    case 'type': return product.type
+    case 'stock': return product.stockQuantity
+    case 'price': return product.price
+    case 'vendor': return product.vendor
+    case 'brand': return product.brand
+    case 'category': return product.category
+    case 'tag': return product.tags
+    case 'platform': return product.platform
+    case 'created': return product.createdAt
+    case 'updated': return product.updatedAt
+    default: return undefined
+  }
+}
+
 export function useProductFilters(products: Product[], warehouses: Warehouse[] = [], stores: Store[] = []) {
   const [searchTerm, setSearchTerm] = useState('')
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('')
   const [showFilters, setShowFilters] = useState(false)
   const [filters, setFilters] = useState<ProductFilterState>(DEFAULT_PRODUCT_FILTERS)
 
+  // Field terms ("stock<5 vendor:Acme") and the free text left over
+  const parsedSearch = useMemo(() => parseSearchQuery(searchTerm, PRODUCT_SEARCH_FIELDS), [searchTerm])
+
+  // Debounce the search box so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchTerm(searchTerm), PRODUCT_SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchTerm])
+
+  // Field terms for the products API (the list below also applies them while the request runs)
+  const searchConditions = useMemo(
+    () => parseSearchQuery(debouncedSearchTerm, PRODUCT_SEARCH_FIELDS).conditions,
+    [debouncedSearchTerm]
+  )
+
   // Filter products based on current search and filter settings
   const filteredProducts = useMemo(() => {
+    const searchText = parsedSearch.text.toLowerCase()
+
     return products.filter(product => {
-      // Search term filtering (search in name, sku, description, tags)
-      const matchesSearch = searchTerm === '' ||
-        product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        product.sku.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        (product.description && product.description.toLowerCase().includes(searchTerm.toLowerCase())) ||
-        product.tags?.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase())) ||
-        (product.brand && product.brand.toLowerCase().includes(searchTerm.toLowerCase())) ||
-        (product.vendor && product.vendor.toLowerCase().includes(searchTerm.toLowerCase()))
+      // Free text filtering (search in name, sku, description, tags)
+      const matchesText = searchText === '' ||
+        product.name.toLowerCase().includes(searchText) ||
+        product.sku.toLowerCase().includes(searchText) ||
+        (product.description && product.description.toLowerCase().includes(searchText)) ||
+        product.tags?.some(tag => tag.toLowerCase().includes(searchText)) ||
+        (product.brand && product.brand.toLowerCase().includes(searchText)) ||
+        (product.vendor && product.vendor.toLowerCase().includes(searchText))
+
+      // Search terms (sku:, stock<, vendor: ...)
+      const matchesSearch = matchesText &&
+        matchesSearchConditions(product, parsedSearch.conditions, PRODUCT_SEARCH_FIELDS, getProductSearchValue)
 
       // Status filtering
       const matchesStatus = filters.status === '' || product.status === filters.status
@@ -104,7 +147,7 @@ export function useProductFilters(products: Product[], warehouses: Warehouse[] =
              matchesHasVariants &&
              matchesParentChild
     })
-  }, [products, searchTerm, filters])
+  }, [products, parsedSearch, filters])
 
   // ✅ Get unique stores with names from products
   const getUniqueStoresFromProducts = useMemo(() => {
@@ -174,6 +217,7 @@ export function useProductFilters(products: Product[], warehouses: Warehouse[] =
     setFilters,
     filteredProducts,
     filterOptions,
+    searchConditions,
     resetFilters,
     getActiveFilterCount
   }
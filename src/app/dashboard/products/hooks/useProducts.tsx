@@ -1,15 +1,31 @@
 //file path: app/dashboard/products/hooks/useProducts.tsx
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Product } from '../utils/productTypes'
 import { ProductAPI } from '@/lib/api/productApi'
-
-export function useProducts(warehouseId?: string) {
+import { SearchCondition } from '@/lib/search/searchQuery'
+
+/**
+ * Products for the account
+ * Search box field terms (conditions) are filtered by the products API
+ * A conditions change refetches in the background (searching) instead of loading,
+ * so the list and search box stay on screen
+ */
+export function useProducts(warehouseId?: string, conditions: SearchCondition[] = []) {
   const [products, setProducts] = useState<Product[]>([])
   const [loading, setLoading] = useState(true)
+  const [searching, setSearching] = useState(false)
+  // Products before search conditions - for the "no products yet" states
+  const [totalCount, setTotalCount] = useState(0)
   const [error, setError] = useState<string | null>(null)
   const [mounted, setMounted] = useState(false)
 
+  // Warehouse of the last completed load; null until the first one
+  const loadedWarehouseRef = useRef<string | null>(null)
+
+  // Refetch only when the conditions themselves change, not on every new array
+  const conditionsKey = JSON.stringify(conditions)
+
   // ✅ NEW: Mark as mounted (client-side only)
   useEffect(() => {
     setMounted(true)
@@ -21,13 +37,17 @@ export function useProducts(warehouseId?: string) {
       return // Skip during SSR
     }
 
+    let cancelled = false
+    const isSearch = loadedWarehouseRef.current === (warehouseId || '')
+
     const fetchProducts = async () => {
       console.log('[useProducts] 🔄 Loading products from API...')
-      setLoading(true)
+      if (isSearch) setSearching(true)
+      else setLoading(true)
 
     try {
       // ✅ UPDATED: Fetch from API (accountId handled by backend via auth token)
-      const productsData = await ProductAPI.getProducts()
+      const productsData = await ProductAPI.getProducts({ conditions })
 
       let filteredProducts = productsData
 
@@ -39,19 +59,32 @@ export function useProducts(warehouseId?: string) {
         )
       }
 
+      // A newer search has started - its results replace these
+      if (cancelled) return
+
       console.log('[useProducts] ✅ Loaded products:', filteredProducts.length)
       setProducts(filteredProducts)
+      if (conditions.length === 0) setTotalCount(filteredProducts.length)
+      loadedWarehouseRef.current = warehouseId || ''
       setError(null)
     } catch (err) {
+      if (cancelled) return
       console.error('[useProducts] ❌ Error fetching products:', err)
       setError('Failed to fetch products')
     } finally {
-      setLoading(false)
+      if (!cancelled) {
+        setLoading(false)
+        setSearching(false)
+      }
     }
   }
 
   fetchProducts()
-}, [mounted, warehouseId]) // ✅ Re-run when mounted or warehouse changes
+
+  return () => {
+    cancelled = true
+  }
+}, [mounted, warehouseId, conditionsKey]) // ✅ Re-run when mounted, warehouse or search terms change
 
   const refetchProducts = async () => {
     if (!mounted) {
@@ -64,7 +97,7 @@ export function useProducts(warehouseId?: string) {
 
     try {
       // ✅ UPDATED: Fetch from API
-      const productsData = await ProductAPI.getProducts()
+      const productsData = await ProductAPI.getProducts({ conditions })
 
       let filteredProducts = productsData
 
@@ -77,6 +110,7 @@ export function useProducts(warehouseId?: string) {
 
       console.log('[useProducts] ✅ Refetched products:', filteredProducts.length)
       setProducts([...filteredProducts]) // Force re-render with fresh data
+      if (conditions.length === 0) setTotalCount(filteredProducts.length)
       setError(null)
     } catch (err) {
       console.error('[useProducts] ❌ Error refetching products:', err)
@@ -173,6 +207,8 @@ export function useProducts(warehouseId?: string) {
   return {
     products,
     loading,
+    searching,
+    totalCount,
     error,
     refetchProducts,
     // Warehouse functions
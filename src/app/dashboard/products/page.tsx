@@ -3,7 +3,7 @@
 
 'use client'
 
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useEffect, useMemo, Suspense } from 'react'
 import { useCurrentAccountId } from '@/hooks/useAccountInitialization'
 import ProductsToolbar from './components/ProductsToolbar'
 import ProductsFilters from './components/ProductsFilters'
@@ -24,13 +24,18 @@ import { ColumnConfig } from '../shared/components/ColumnSettings'
 import { usePagination } from '../shared/hooks/usePagination'
 import WarehouseSelector from '../shared/components/WarehouseSelector'
 import { withAuth } from '../shared/components/withAuth'
+import { AuthLoadingState } from '../shared/components/AuthLoadingState'
+import SavedViewsMenu from '../shared/components/SavedViewsMenu'
 import ImportProductsModal, { ImportOptions } from './components/ImportProductsModal'
 import MoveToWarehouseModal from './components/MoveToWarehouseModal'
 import ViewProductModal from './components/ViewProductModal'
+import InventoryMovementsModal from '../warehouses/components/InventoryMovementsModal'
 import EditProductModal from './components/EditProductModal'
 
 // Warehouse support
 import { useWarehouses } from '../warehouses/hooks/useWarehouses'
+import { useThermalLabels } from '../warehouses/hooks/useThermalLabels'
+import { getDefaultPrinterProfile } from '../warehouses/utils/printerProfiles'
 
 // ✅ lastSyncAtStore support
 import { useStores } from '../stores/hooks/useStores'
@@ -38,9 +43,11 @@ import { useStores } from '../stores/hooks/useStores'
 // Utils
 import { exportToCSV, ExportableItem } from '../shared/utils/csvExporter'
 import { getProductWarehouseNames } from './utils/productUtils'
+import { toSavedColumns } from '../shared/utils/savedViews'
 
 // Types
-import { Product } from './utils/productTypes'
+import { Product, ProductFilterState } from './utils/productTypes'
+import { SavedViewState } from '@/lib/api/userApi'
 
 // ✅  Import IntegrationAPI and Integration type
 import { IntegrationAPI, Integration } from '@/lib/api/integrationApi'
@@ -48,6 +55,7 @@ import { isEcommerceIntegration } from '@/app/dashboard/integrations/types/integ
 
 // ✅ lastSyncAtImport ProductAPI for delete functionality
 import { ProductAPI } from '@/lib/api/productApi'
+import { SearchCondition } from '@/lib/search/searchQuery'
 
 // Helper function to export products as CSV
 const exportProductsToCSV = (
@@ -168,6 +176,9 @@ function ProductsPageContent({ accountId }: { accountId: string }) {
   const [showViewModal, setShowViewModal] = useState(false)
   const [viewProduct, setViewProduct] = useState<Product | null>(null)
 
+  // Stock history modal state
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null)
+
   // ✅ Edit Product modal state
   const [showEditModal, setShowEditModal] = useState(false)
   const [editProduct, setEditProduct] = useState<Product | null>(null)
@@ -219,6 +230,7 @@ function ProductsPageContent({ accountId }: { accountId: string }) {
 
   // Warehouse management
   const { warehouses } = useWarehouses()
+  const { printLabels, printing } = useThermalLabels()
 
   // ✅ lastSyncAtStore management
   const { stores } = useStores()
@@ -248,8 +260,17 @@ function ProductsPageContent({ accountId }: { accountId: string }) {
     })
   }
 
+  // Search box field terms are filtered by the products API (set from useProductFilters below)
+  const [searchConditions, setSearchConditions] = useState<SearchCondition[]>([])
+
   // Load ALL products first (no warehouse filter)
-  const { products: allProducts, loading: loadingAllProducts, refetchProducts } = useProducts()
+  const {
+    products: allProducts,
+    loading: loadingAllProducts,
+    searching: searchingProducts,
+    totalCount: totalProductCount,
+    refetchProducts
+  } = useProducts(undefined, searchConditions)
 
   // ✅ Then filter by warehouse client-side for display
   const products = useMemo(() => {
@@ -273,10 +294,15 @@ function ProductsPageContent({ accountId }: { accountId: string }) {
     setFilters,
     filteredProducts,
     filterOptions,
+    searchConditions: parsedSearchConditions,
     resetFilters,
     getActiveFilterCount
   } = useProductFilters(products, warehouses, stores)
 
+  useEffect(() => {
+    setSearchConditions(parsedSearchConditions)
+  }, [parsedSearchConditions])
+
   const {
     selectedProducts,
     handleSelectProduct,
@@ -294,9 +320,25 @@ function ProductsPageContent({ accountId }: { accountId: string }) {
     handleSort,
     handleColumnVisibilityChange,
     handleColumnReorder,
-    resetToDefaults
+    applyLayout,
+    resetToDefaults,
+    isLoading: columnsLoading
   } = useProductColumns(filteredProducts)
 
+  // Saved views capture the filters, search, sort and columns
+  const savedViewState = useMemo<SavedViewState>(() => ({
+    filters,
+    search: searchTerm,
+    sort: sortConfig,
+    columns: toSavedColumns(columns)
+  }), [filters, searchTerm, sortConfig, columns])
+
+  const handleApplyView = (state: SavedViewState) => {
+    setFilters(state.filters as ProductFilterState)
+    setSearchTerm(state.search)
+    applyLayout(state.columns, state.sort)
+  }
+
   const { productsPerPage, setProductsPerPage } = usePagination()
 
   // Pagination
@@ -360,9 +402,7 @@ function ProductsPageContent({ accountId }: { accountId: string }) {
       } else {
         // Update global product quantity (when viewing "All Warehouses")
         console.log(`[Products Page] Updating global product quantity`)
-        await ProductAPI.updateProduct(productId, {
-          stockQuantity: newQuantity
-        })
+        await ProductAPI.updateProductQuantity(productId, newQuantity)
       }
 
       // Refresh products list to show updated quantity
@@ -434,6 +474,24 @@ function ProductsPageContent({ accountId }: { accountId: string }) {
         setProductsToDelete(selectedProductIds)
         setShowDeleteModal(true)
         break
+      case 'print_labels': {
+        if (!labelWarehouse || !labelPrinter) return
+        const copies = prompt(`Barcode labels per product (printing on ${labelPrinter.name}):`, '1')
+        if (copies === null) return
+        const count = parseInt(copies)
+        if (!count || count < 1) {
+          alert('Enter a number of labels of 1 or more')
+          return
+        }
+        await printLabels({
+          kind: 'product_label',
+          warehouseId: labelWarehouse.id,
+          profileId: labelPrinter.id,
+          products: selectedProductIds.map(id => ({ id, copies: count })),
+          send: labelPrinter.connection === 'network'
+        })
+        break
+      }
     }
   }
 
@@ -675,6 +733,10 @@ function ProductsPageContent({ accountId }: { accountId: string }) {
 
   // Get selected warehouse name for display
   const selectedWarehouse = warehouses.find(w => w.id === selectedWarehouseId)
+
+  // Barcode labels print on the selected warehouse's thermal printer (or the default warehouse's)
+  const labelWarehouse = selectedWarehouse || warehouses.find(w => w.isDefault)
+  const labelPrinter = getDefaultPrinterProfile(labelWarehouse)
   const warehouseDisplayName = selectedWarehouse
     ? selectedWarehouse.name
     : selectedWarehouseId === ''
@@ -695,9 +757,11 @@ function ProductsPageContent({ accountId }: { accountId: string }) {
   const singleIntegration = showIntegrationSpecificUI ? ecommerceIntegrations[0] : null
 
   // Determine if we're in a "warehouse with no products" state
-  const hasProductsGlobally = allProducts.length > 0
+  // Search terms narrow allProducts, so "no products" is based on the unfiltered count
+  const hasProductsGlobally = totalProductCount > 0
   const isWarehouseSelected = selectedWarehouseId !== ''
-  const warehouseHasNoProducts = isWarehouseSelected && products.length === 0 && hasProductsGlobally
+  const warehouseHasNoProducts = isWarehouseSelected && products.length === 0 && hasProductsGlobally &&
+    searchConditions.length === 0
 
   return (
     <div className="px-4 sm:px-6 lg:px-8">
@@ -902,7 +966,7 @@ function ProductsPageContent({ accountId }: { accountId: string }) {
       )}
 
       {/* Empty State - Has Integrations but No Products */}
-      {hasIntegrations && allProducts.length === 0 && !loading && warehouseHasLinkedIntegrations(selectedWarehouseId) && (
+      {hasIntegrations && !hasProductsGlobally && !loading && warehouseHasLinkedIntegrations(selectedWarehouseId) && (
         <div className="mb-6 rounded-lg bg-blue-50 border border-blue-200 p-6">
           <div className="text-center">
             <svg
@@ -944,7 +1008,7 @@ function ProductsPageContent({ accountId }: { accountId: string }) {
       )}
 
       {/* Empty state for warehouse with no linked integrations */}
-      {hasIntegrations && allProducts.length === 0 && !loading && !warehouseHasLinkedIntegrations(selectedWarehouseId) && (
+      {hasIntegrations && !hasProductsGlobally && !loading && !warehouseHasLinkedIntegrations(selectedWarehouseId) && (
         <div className="mb-6 rounded-lg bg-yellow-50 border border-yellow-200 p-6">
           <div className="text-center">
             <svg
@@ -1068,6 +1132,8 @@ function ProductsPageContent({ accountId }: { accountId: string }) {
             onMoveToWarehouse={() => handleOpenMoveModal()}
             hasEcommerceIntegrations={ecommerceIntegrations.length > 0}
             selectedWarehouseId={selectedWarehouseId}
+            canPrintLabels={!!labelPrinter}
+            printingLabels={printing === 'product_label'}
             columns={columns}
             onColumnVisibilityChange={handleColumnVisibilityChange}
             totalProducts={allProducts.length} // Global total (for export, etc.)
@@ -1084,12 +1150,21 @@ function ProductsPageContent({ accountId }: { accountId: string }) {
           <ProductsFilters
             searchTerm={searchTerm}
             onSearchChange={setSearchTerm}
+            searching={searchingProducts}
             showFilters={showFilters}
             onToggleFilters={() => setShowFilters(!showFilters)}
             filters={filters}
             onFiltersChange={setFilters}
             onClearAllFilters={handleClearAllFilters}
             filterOptions={filterOptions}
+            viewsMenu={
+              <SavedViewsMenu
+                page="products"
+                currentState={savedViewState}
+                onApply={handleApplyView}
+                ready={!columnsLoading}
+              />
+            }
           />
 
           {/* Empty State for Warehouse with No Products */}
@@ -1222,6 +1297,7 @@ function ProductsPageContent({ accountId }: { accountId: string }) {
                 onUpdateSku={handleUpdateSku}
                 onUpdatePrice={handleUpdatePrice}
                 onMoveToWarehouse={handleMoveProductFromTable}
+                onViewStockHistory={setHistoryProduct}
                 selectedWarehouseId={selectedWarehouseId}
                 stores={stores}
               />
@@ -1296,8 +1372,28 @@ function ProductsPageContent({ accountId }: { accountId: string }) {
           await refetchProducts()
         }}
       />
+
+      {/* Stock History Modal - scoped to the selected warehouse, if any */}
+      <InventoryMovementsModal
+        isOpen={historyProduct !== null}
+        onClose={() => setHistoryProduct(null)}
+        productId={historyProduct?.id || null}
+        sku={historyProduct?.sku || ''}
+        productName={historyProduct?.name}
+        warehouseId={selectedWarehouseId || undefined}
+        warehouseName={selectedWarehouse?.name}
+      />
     </div>
   )
 }
 
-export default withAuth(ProductsPageContent)
+const ProductsContentWithAuth = withAuth(ProductsPageContent)
+
+// useSearchParams (saved views) needs a Suspense boundary
+export default function ProductsPage() {
+  return (
+    <Suspense fallback={<AuthLoadingState message="Loading products..." />}>
+      <ProductsContentWithAuth />
+    </Suspense>
+  )
+}
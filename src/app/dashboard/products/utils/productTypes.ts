@@ -1,5 +1,7 @@
 // File: app/dashboard/products/utils/productTypes.ts
 
+import type { StructuredLocation } from '../../warehouses/utils/warehouseTypes'
+
 export interface WarehouseStock {
   warehouseId: string
   stockQuantity: number
@@ -8,6 +10,7 @@ export interface WarehouseStock {
   reorderPoint?: number
   maxStock?: number
   location?: string  // Shelf/bin location in warehouse
+  structuredLocation?: StructuredLocation // Bin in the warehouse layout (if slotted)
   lastUpdated?: string
 }
 
@@ -2,16 +2,33 @@
 
 'use client'
 
+import { useState } from 'react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { WarehouseProvider } from './warehouses/context/WarehouseContext'
+import { CurrencyProvider } from './shared/context/CurrencyContext'
 
 interface DashboardProvidersProps {
   children: React.ReactNode
 }
 
 export default function DashboardProviders({ children }: DashboardProvidersProps) {
+  // One client per browser session (not shared between server requests)
+  const [queryClient] = useState(() => new QueryClient({
+    defaultOptions: {
+      queries: {
+        refetchOnWindowFocus: true,
+        retry: 1
+      }
+    }
+  }))
+
   return (
-    <WarehouseProvider>
-      {children}
-    </WarehouseProvider>
+    <QueryClientProvider client={queryClient}>
+      <WarehouseProvider>
+        <CurrencyProvider>
+          {children}
+        </CurrencyProvider>
+      </WarehouseProvider>
+    </QueryClientProvider>
   )
 }
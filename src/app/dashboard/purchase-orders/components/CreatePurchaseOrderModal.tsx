@@ -0,0 +1,388 @@
+//file path: app/dashboard/purchase-orders/components/CreatePurchaseOrderModal.tsx
+
+'use client'
+
+import { Fragment, useState, useEffect, useMemo } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon, ClipboardDocumentListIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { CreatePurchaseOrderData, PurchaseOrder } from '@/lib/api/purchaseOrderApi'
+import { Supplier, SupplierProduct } from '@/lib/api/supplierApi'
+import { Warehouse } from '../../warehouses/utils/warehouseTypes'
+import { formatCurrency } from '../../orders/utils/orderUtils'
+import { useSupplierProducts } from '../../suppliers/hooks/useSupplierProducts'
+import { getExpectedDate, getPurchaseOrderTotal, validatePurchaseOrder } from '../utils/purchaseOrderUtils'
+
+// Quantity and agreed cost for one SKU
+interface LineDraft {
+  quantity: number
+  unitCost: number
+}
+
+interface CreatePurchaseOrderModalProps {
+  isOpen: boolean
+  onClose: () => void
+  suppliers: Supplier[]
+  warehouses: Warehouse[]
+  defaultWarehouseId?: string
+  onCreate: (data: CreatePurchaseOrderData) => Promise<PurchaseOrder>
+}
+
+export default function CreatePurchaseOrderModal({
+  isOpen,
+  onClose,
+  suppliers,
+  warehouses,
+  defaultWarehouseId = '',
+  onCreate
+}: CreatePurchaseOrderModalProps) {
+  const [supplierId, setSupplierId] = useState('')
+  const [warehouseId, setWarehouseId] = useState('')
+  const [lines, setLines] = useState<Record<string, LineDraft>>({})   // productId -> draft
+  const [expectedAt, setExpectedAt] = useState('')
+  const [expectedEdited, setExpectedEdited] = useState(false)
+  const [skuSearch, setSkuSearch] = useState('')
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const { products: supplierProducts, isLoading: loadingProducts } = useSupplierProducts(isOpen && supplierId ? supplierId : null)
+
+  const activeSuppliers = suppliers.filter(s => s.isActive)
+  const activeWarehouses = warehouses.filter(w => w.status === 'ACTIVE')
+  const supplier = suppliers.find(s => s.id === supplierId)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setSupplierId('')
+    setWarehouseId(defaultWarehouseId)
+    setExpectedEdited(false)
+    setSkuSearch('')
+    setNotes('')
+    setError('')
+  }, [isOpen, defaultWarehouseId])
+
+  // Costs and lead times differ per supplier, so start the lines over
+  useEffect(() => {
+    setLines({})
+  }, [supplierId])
+
+  // Follow the slowest SKU's lead time until the date is picked by hand
+  useEffect(() => {
+    if (!supplier || expectedEdited) return
+    const warehouse = warehouses.find(w => w.id === warehouseId)
+    setExpectedAt(getExpectedDate(supplier, supplierProducts, Object.keys(lines), warehouse))
+  }, [supplier, supplierProducts, lines, expectedEdited, warehouses, warehouseId])
+
+  const productById = useMemo(
+    () => new Map(supplierProducts.map(p => [p.productId, p])),
+    [supplierProducts]
+  )
+
+  const lineProducts = Object.keys(lines)
+    .map(productId => productById.get(productId))
+    .filter((p): p is SupplierProduct => p !== undefined)
+
+  const matchingProducts = useMemo(() => {
+    const term = skuSearch.trim().toLowerCase()
+    if (!term) return []
+    return supplierProducts
+      .filter(p => !(p.productId in lines))
+      .filter(p =>
+        p.sku.toLowerCase().includes(term) ||
+        p.productName.toLowerCase().includes(term) ||
+        p.supplierSku?.toLowerCase().includes(term)
+      )
+      .slice(0, 8)
+  }, [supplierProducts, skuSearch, lines])
+
+  const orderLines = Object.entries(lines).map(([productId, line]) => ({ productId, ...line }))
+  const total = getPurchaseOrderTotal({ lines: orderLines })
+
+  const addLine = (product: SupplierProduct) => {
+    setLines(prev => ({
+      ...prev,
+      [product.productId]: { quantity: product.minOrderQuantity || 1, unitCost: product.unitCost }
+    }))
+    setSkuSearch('')
+  }
+
+  const updateLine = (productId: string, updates: Partial<LineDraft>) => {
+    setLines(prev => ({ ...prev, [productId]: { ...prev[productId], ...updates } }))
+  }
+
+  const removeLine = (productId: string) => {
+    setLines(prev => {
+      const next = { ...prev }
+      delete next[productId]
+      return next
+    })
+  }
+
+  const handleCreate = async () => {
+    const data: CreatePurchaseOrderData = {
+      supplierId,
+      warehouseId,
+      expectedAt: expectedAt || undefined,
+      lines: orderLines,
+      notes: notes.trim() || undefined
+    }
+
+    const validationError = validatePurchaseOrder(data, supplierProducts)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setIsSaving(true)
+    setError('')
+    try {
+      await onCreate({ ...data, lines: data.lines.filter(line => line.quantity > 0) })
+      onClose()
+    } catch (err: any) {
+      setError(err.message || 'Failed to create purchase order')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-3xl transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                  <div className="flex items-center gap-2">
+                    <ClipboardDocumentListIcon className="h-6 w-6 text-indigo-600" />
+                    <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                      New Purchase Order
+                    </Dialog.Title>
+                  </div>
+                  <button onClick={onClose} className="rounded-md bg-white text-gray-400 hover:text-gray-500">
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="max-h-[70vh] overflow-y-auto px-6 py-4 space-y-6">
+                  {error && (
+                    <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+                  )}
+
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Supplier</label>
+                      <select
+                        value={supplierId}
+                        onChange={(e) => setSupplierId(e.target.value)}
+                        className="block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                      >
+                        <option value="">Select supplier</option>
+                        {activeSuppliers.map(s => (
+                          <option key={s.id} value={s.id}>{s.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Deliver to</label>
+                      <select
+                        value={warehouseId}
+                        onChange={(e) => setWarehouseId(e.target.value)}
+                        className="block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                      >
+                        <option value="">Select warehouse</option>
+                        {activeWarehouses.map(w => (
+                          <option key={w.id} value={w.id}>{w.name} ({w.code})</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Expected</label>
+                      <input
+                        type="date"
+                        value={expectedAt}
+                        onChange={(e) => {
+                          setExpectedEdited(true)
+                          setExpectedAt(e.target.value)
+                        }}
+                        className="block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                      />
+                    </div>
+                  </div>
+
+                  {/* Add SKUs */}
+                  {supplier && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Add SKU</label>
+                      {!loadingProducts && supplierProducts.length === 0 ? (
+                        <p className="text-sm text-gray-500">
+                          {supplier.name} has no SKU costs yet. Add them from the Suppliers page.
+                        </p>
+                      ) : (
+                        <input
+                          type="text"
+                          value={skuSearch}
+                          onChange={(e) => setSkuSearch(e.target.value)}
+                          placeholder={loadingProducts ? 'Loading SKUs...' : 'Search by SKU, supplier SKU or product name'}
+                          disabled={loadingProducts}
+                          className="block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                        />
+                      )}
+                      {matchingProducts.length > 0 && (
+                        <ul className="mt-1 max-h-48 overflow-y-auto rounded-md border border-gray-200 divide-y divide-gray-100">
+                          {matchingProducts.map(product => (
+                            <li key={product.productId}>
+                              <button
+                                type="button"
+                                onClick={() => addLine(product)}
+                                className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-gray-50"
+                              >
+                                <span>
+                                  <span className="font-medium text-gray-900">{product.sku}</span>
+                                  <span className="ml-2 text-gray-500">{product.productName}</span>
+                                </span>
+                                <span className="text-xs text-gray-500">{formatCurrency(product.unitCost, supplier.currency)}</span>
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Lines */}
+                  {supplier && lineProducts.length > 0 && (
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-gray-500">
+                          <th className="py-1 pr-3 font-medium">Item</th>
+                          <th className="py-1 pr-3 font-medium w-24">Quantity</th>
+                          <th className="py-1 pr-3 font-medium w-28">Unit cost</th>
+                          <th className="py-1 pr-3 font-medium w-28 text-right">Total</th>
+                          <th className="py-1 w-8"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {lineProducts.map(product => {
+                          const line = lines[product.productId]
+
+                          return (
+                            <tr key={product.productId}>
+                              <td className="py-2 pr-3">
+                                <p className="text-gray-900">{product.productName}</p>
+                                <p className="text-xs text-gray-500">
+                                  SKU: {product.sku}
+                                  {product.supplierSku && ` · Supplier SKU: ${product.supplierSku}`}
+                                  {product.minOrderQuantity && ` · Min ${product.minOrderQuantity}`}
+                                </p>
+                              </td>
+                              <td className="py-2 pr-3">
+                                <input
+                                  type="number"
+                                  min={product.minOrderQuantity || 1}
+                                  value={line.quantity}
+                                  onChange={(e) => updateLine(product.productId, {
+                                    quantity: Math.max(0, Math.floor(Number(e.target.value)) || 0)
+                                  })}
+                                  className="w-full rounded-md border border-gray-300 px-2 py-1 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                                />
+                              </td>
+                              <td className="py-2 pr-3">
+                                <input
+                                  type="number"
+                                  min={0}
+                                  step="0.01"
+                                  value={line.unitCost}
+                                  onChange={(e) => updateLine(product.productId, {
+                                    unitCost: Math.max(0, Number(e.target.value) || 0)
+                                  })}
+                                  className="w-full rounded-md border border-gray-300 px-2 py-1 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                                />
+                              </td>
+                              <td className="py-2 pr-3 text-right text-gray-700">
+                                {formatCurrency(line.quantity * line.unitCost, supplier.currency)}
+                              </td>
+                              <td className="py-2 text-right">
+                                <button
+                                  type="button"
+                                  onClick={() => removeLine(product.productId)}
+                                  className="text-gray-400 hover:text-red-600"
+                                  title="Remove"
+                                >
+                                  <TrashIcon className="h-4 w-4" />
+                                </button>
+                              </td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                      <tfoot>
+                        <tr>
+                          <td colSpan={3} className="pt-2 pr-3 text-right text-sm font-medium text-gray-700">Total</td>
+                          <td className="pt-2 pr-3 text-right text-sm font-semibold text-gray-900">
+                            {formatCurrency(total, supplier.currency)}
+                          </td>
+                          <td></td>
+                        </tr>
+                      </tfoot>
+                    </table>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                    <textarea
+                      rows={2}
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      className="block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                    />
+                  </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-3 border-t border-gray-200 bg-gray-50 px-6 py-4">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleCreate}
+                    disabled={isSaving || lineProducts.length === 0}
+                    className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSaving ? 'Creating...' : 'Create Purchase Order'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
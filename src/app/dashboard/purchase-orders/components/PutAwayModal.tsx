@@ -0,0 +1,224 @@
+//file path: app/dashboard/purchase-orders/components/PutAwayModal.tsx
+
+'use client'
+
+import { Fragment, useState, useEffect, useMemo } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon, ArchiveBoxArrowDownIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import { PurchaseOrder, PutAwayLine } from '@/lib/api/purchaseOrderApi'
+import { Warehouse } from '../../warehouses/utils/warehouseTypes'
+import { getStorageLocations } from '../../warehouses/utils/locationUtils'
+import { getAwaitingPutAway } from '../utils/purchaseOrderUtils'
+
+// Units moved and the bin they go to for one line
+interface LinePutAway {
+  quantity: number
+  binId: string
+}
+
+interface PutAwayModalProps {
+  isOpen: boolean
+  onClose: () => void
+  purchaseOrder: PurchaseOrder
+  warehouse: Warehouse | undefined
+  onPutAway: (purchaseOrderId: string, lines: PutAwayLine[]) => Promise<PurchaseOrder>
+}
+
+/**
+ * Move received units from the receiving zone to storage bins
+ */
+export default function PutAwayModal({
+  isOpen,
+  onClose,
+  purchaseOrder,
+  warehouse,
+  onPutAway
+}: PutAwayModalProps) {
+  const [putAways, setPutAways] = useState<Record<string, LinePutAway>>({})
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const locations = useMemo(() => getStorageLocations(warehouse), [warehouse])
+  const awaitingLines = purchaseOrder.lines.filter(line => getAwaitingPutAway(line) > 0)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setPutAways(Object.fromEntries(purchaseOrder.lines.map(line => [
+      line.id,
+      { quantity: getAwaitingPutAway(line), binId: '' }
+    ])))
+    setError('')
+  }, [isOpen, purchaseOrder])
+
+  const updatePutAway = (lineId: string, updates: Partial<LinePutAway>) => {
+    setPutAways(prev => ({ ...prev, [lineId]: { ...prev[lineId], ...updates } }))
+  }
+
+  const handlePutAway = async () => {
+    const locationByBin = new Map(locations.map(location => [location.binId, location]))
+    const lines: PutAwayLine[] = []
+
+    for (const line of awaitingLines) {
+      const putAway = putAways[line.id]
+      if (!putAway || putAway.quantity === 0) continue
+      if (putAway.quantity > getAwaitingPutAway(line)) {
+        setError(`${line.sku}: only ${getAwaitingPutAway(line)} units are waiting to be put away`)
+        return
+      }
+      const location = locationByBin.get(putAway.binId)
+      if (!location) {
+        setError(`${line.sku}: choose a bin`)
+        return
+      }
+      lines.push({ lineId: line.id, quantity: putAway.quantity, binId: location.binId, location: location.formattedLocation })
+    }
+
+    if (lines.length === 0) {
+      setError('Enter at least one unit to put away')
+      return
+    }
+
+    setIsSaving(true)
+    setError('')
+    try {
+      await onPutAway(purchaseOrder.id, lines)
+      onClose()
+    } catch (err: any) {
+      setError(err.message || 'Failed to put away units')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-2xl transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                  <div className="flex items-center gap-2">
+                    <ArchiveBoxArrowDownIcon className="h-6 w-6 text-indigo-600" />
+                    <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                      Put Away {purchaseOrder.poNumber}
+                    </Dialog.Title>
+                  </div>
+                  <button onClick={onClose} className="rounded-md bg-white text-gray-400 hover:text-gray-500">
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="max-h-[70vh] overflow-y-auto px-6 py-4 space-y-6">
+                  {error && (
+                    <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+                  )}
+
+                  {locations.length === 0 && (
+                    <div className="flex items-start gap-2 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+                      <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+                      <span>
+                        {warehouse?.name || 'This warehouse'} has no storage bins. Add a storage zone with bins in the warehouse layout first.
+                      </span>
+                    </div>
+                  )}
+
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="py-1 pr-3 font-medium">Item</th>
+                        <th className="py-1 pr-3 font-medium w-20 text-center">Waiting</th>
+                        <th className="py-1 pr-3 font-medium w-24">Quantity</th>
+                        <th className="py-1 font-medium w-48">Bin</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {awaitingLines.map(line => {
+                        const putAway = putAways[line.id] || { quantity: 0, binId: '' }
+
+                        return (
+                          <tr key={line.id}>
+                            <td className="py-2 pr-3">
+                              <p className="text-gray-900">{line.productName}</p>
+                              <p className="text-xs text-gray-500">SKU: {line.sku}</p>
+                            </td>
+                            <td className="py-2 pr-3 text-center text-gray-700">{getAwaitingPutAway(line)}</td>
+                            <td className="py-2 pr-3">
+                              <input
+                                type="number"
+                                min={0}
+                                max={getAwaitingPutAway(line)}
+                                value={putAway.quantity}
+                                onChange={(e) => updatePutAway(line.id, {
+                                  quantity: Math.max(0, Math.floor(Number(e.target.value)) || 0)
+                                })}
+                                className="w-full rounded-md border border-gray-300 px-2 py-1 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                              />
+                            </td>
+                            <td className="py-2">
+                              <select
+                                value={putAway.binId}
+                                onChange={(e) => updatePutAway(line.id, { binId: e.target.value })}
+                                disabled={putAway.quantity === 0}
+                                className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 disabled:bg-gray-50"
+                              >
+                                <option value="">Select bin</option>
+                                {locations.map(location => (
+                                  <option key={location.binId} value={location.binId}>{location.formattedLocation}</option>
+                                ))}
+                              </select>
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-3 border-t border-gray-200 bg-gray-50 px-6 py-4">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handlePutAway}
+                    disabled={isSaving || locations.length === 0}
+                    className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSaving ? 'Saving...' : 'Put Away'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
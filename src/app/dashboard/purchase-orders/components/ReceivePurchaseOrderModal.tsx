@@ -0,0 +1,270 @@
+//file path: app/dashboard/purchase-orders/components/ReceivePurchaseOrderModal.tsx
+
+'use client'
+
+import { Fragment, useState, useEffect, useMemo } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon, InboxArrowDownIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import {
+  PurchaseOrder,
+  PurchaseOrderReceiptLine,
+  ReceivePurchaseOrderData
+} from '@/lib/api/purchaseOrderApi'
+import { Warehouse } from '../../warehouses/utils/warehouseTypes'
+import { getOutstandingQuantity, getReceivingZones } from '../utils/purchaseOrderUtils'
+
+// Units counted and the invoiced cost for one line
+interface LineReceipt {
+  quantity: number
+  unitCost: number
+}
+
+interface ReceivePurchaseOrderModalProps {
+  isOpen: boolean
+  onClose: () => void
+  purchaseOrder: PurchaseOrder
+  warehouse: Warehouse | undefined
+  onReceive: (purchaseOrderId: string, data: ReceivePurchaseOrderData) => Promise<PurchaseOrder>
+}
+
+export default function ReceivePurchaseOrderModal({
+  isOpen,
+  onClose,
+  purchaseOrder,
+  warehouse,
+  onReceive
+}: ReceivePurchaseOrderModalProps) {
+  const [zoneId, setZoneId] = useState('')
+  const [receipts, setReceipts] = useState<Record<string, LineReceipt>>({})
+  const [close, setClose] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const receivingZones = useMemo(() => getReceivingZones(warehouse), [warehouse])
+
+  // Default every outstanding unit to received at the PO cost
+  useEffect(() => {
+    if (!isOpen) return
+    setZoneId(receivingZones[0]?.id || '')
+    setReceipts(Object.fromEntries(purchaseOrder.lines.map(line => [
+      line.id,
+      { quantity: getOutstandingQuantity(line), unitCost: line.unitCost }
+    ])))
+    setClose(false)
+    setError('')
+  }, [isOpen, purchaseOrder, receivingZones])
+
+  const receiptLines = useMemo<PurchaseOrderReceiptLine[]>(() => (
+    purchaseOrder.lines
+      .map(line => ({ lineId: line.id, ...(receipts[line.id] || { quantity: 0, unitCost: line.unitCost }) }))
+      .filter(line => line.quantity > 0)
+  ), [purchaseOrder, receipts])
+
+  // Units still outstanding after this receipt - these stay expected unless the PO is closed
+  const remainingAfterReceipt = purchaseOrder.lines.reduce((sum, line) => (
+    sum + Math.max(0, getOutstandingQuantity(line) - (receipts[line.id]?.quantity || 0))
+  ), 0)
+
+  const updateReceipt = (lineId: string, updates: Partial<LineReceipt>) => {
+    setReceipts(prev => ({ ...prev, [lineId]: { ...prev[lineId], ...updates } }))
+  }
+
+  const handleReceive = async () => {
+    if (!zoneId) {
+      setError('Choose the receiving zone the delivery is received into')
+      return
+    }
+    if (receiptLines.length === 0) {
+      setError('Enter at least one received unit')
+      return
+    }
+
+    setIsSaving(true)
+    setError('')
+    try {
+      await onReceive(purchaseOrder.id, { zoneId, lines: receiptLines, close })
+      onClose()
+    } catch (err: any) {
+      setError(err.message || 'Failed to receive purchase order')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-3xl transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                  <div className="flex items-center gap-2">
+                    <InboxArrowDownIcon className="h-6 w-6 text-indigo-600" />
+                    <div>
+                      <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                        Receive {purchaseOrder.poNumber}
+                      </Dialog.Title>
+                      <p className="text-sm text-gray-500">From {purchaseOrder.supplierName}</p>
+                    </div>
+                  </div>
+                  <button onClick={onClose} className="rounded-md bg-white text-gray-400 hover:text-gray-500">
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="max-h-[70vh] overflow-y-auto px-6 py-4 space-y-6">
+                  {error && (
+                    <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+                  )}
+
+                  {/* Receiving zone */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Receive into</label>
+                    {receivingZones.length === 0 ? (
+                      <div className="flex items-start gap-2 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+                        <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+                        <span>
+                          {warehouse?.name || 'This warehouse'} has no receiving zone. Add a zone of type &quot;Receiving&quot; in the warehouse layout first.
+                        </span>
+                      </div>
+                    ) : (
+                      <select
+                        value={zoneId}
+                        onChange={(e) => setZoneId(e.target.value)}
+                        className="block w-64 rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                      >
+                        {receivingZones.map(zone => (
+                          <option key={zone.id} value={zone.id}>{zone.name} ({zone.code})</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+
+                  {/* Counts per line */}
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="py-1 pr-3 font-medium">Item</th>
+                        <th className="py-1 pr-3 font-medium w-20 text-center">Ordered</th>
+                        <th className="py-1 pr-3 font-medium w-16 text-center">Left</th>
+                        <th className="py-1 pr-3 font-medium w-24">Received</th>
+                        <th className="py-1 font-medium w-28" title="Becomes the product's cost price">
+                          Unit cost ({purchaseOrder.currency})
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {purchaseOrder.lines.map(line => {
+                        const outstanding = getOutstandingQuantity(line)
+                        const receipt = receipts[line.id] || { quantity: 0, unitCost: line.unitCost }
+
+                        return (
+                          <tr key={line.id} className={outstanding === 0 ? 'opacity-50' : ''}>
+                            <td className="py-2 pr-3">
+                              <p className="text-gray-900">{line.productName}</p>
+                              <p className="text-xs text-gray-500">
+                                SKU: {line.sku}
+                                {line.supplierSku && ` · Supplier SKU: ${line.supplierSku}`}
+                              </p>
+                            </td>
+                            <td className="py-2 pr-3 text-center text-gray-700">{line.quantity}</td>
+                            <td className="py-2 pr-3 text-center text-gray-700">{outstanding}</td>
+                            <td className="py-2 pr-3">
+                              <input
+                                type="number"
+                                min={0}
+                                value={receipt.quantity}
+                                onChange={(e) => updateReceipt(line.id, {
+                                  quantity: Math.max(0, Math.floor(Number(e.target.value)) || 0)
+                                })}
+                                className="w-full rounded-md border border-gray-300 px-2 py-1 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                              />
+                            </td>
+                            <td className="py-2">
+                              <input
+                                type="number"
+                                min={0}
+                                step="0.01"
+                                value={receipt.unitCost}
+                                onChange={(e) => updateReceipt(line.id, {
+                                  unitCost: Math.max(0, Number(e.target.value) || 0)
+                                })}
+                                className="w-full rounded-md border border-gray-300 px-2 py-1 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                              />
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+
+                  <p className="text-xs text-gray-500">
+                    Received units are added to stock in the receiving zone, recorded in the inventory ledger, and set each product&apos;s cost price. Put them away to bins once they&apos;re checked.
+                  </p>
+
+                  {remainingAfterReceipt > 0 && (
+                    <label className="flex items-start gap-2 text-sm text-gray-900">
+                      <input
+                        type="checkbox"
+                        checked={close}
+                        onChange={(e) => setClose(e.target.checked)}
+                        className="mt-0.5 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-600"
+                      />
+                      <span>
+                        <span className="font-medium">Close purchase order</span>
+                        <span className="block text-xs text-gray-500">
+                          {remainingAfterReceipt} units will still be outstanding. Close the PO if the supplier won&apos;t send them.
+                        </span>
+                      </span>
+                    </label>
+                  )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-3 border-t border-gray-200 bg-gray-50 px-6 py-4">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleReceive}
+                    disabled={isSaving || !zoneId}
+                    className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSaving ? 'Receiving...' : 'Receive Units'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
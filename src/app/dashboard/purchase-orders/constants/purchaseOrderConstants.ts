@@ -0,0 +1,20 @@
+// File: app/dashboard/purchase-orders/constants/purchaseOrderConstants.ts
+
+import { PurchaseOrderStatus } from '@/lib/api/purchaseOrderApi'
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  open: 'Open',
+  partially_received: 'Partially received',
+  closed: 'Closed',
+  cancelled: 'Cancelled'
+}
+
+export const PURCHASE_ORDER_STATUS_COLORS: Record<PurchaseOrderStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  closed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-500'
+}
+
+// POs that can still be received against
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['open', 'partially_received']
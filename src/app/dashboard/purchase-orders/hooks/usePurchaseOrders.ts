@@ -0,0 +1,117 @@
+//file path: app/dashboard/purchase-orders/hooks/usePurchaseOrders.ts
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  PurchaseOrderAPI,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  CreatePurchaseOrderData,
+  ReceivePurchaseOrderData,
+  PutAwayLine
+} from '@/lib/api/purchaseOrderApi'
+
+/**
+ * Hook for listing and receiving purchase orders
+ * Pass empty ids for all warehouses / suppliers
+ */
+export function usePurchaseOrders(warehouseId: string = '', supplierId: string = '', status?: PurchaseOrderStatus[]) {
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const statusKey = status?.join(',') || ''
+
+  const loadPurchaseOrders = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const data = await PurchaseOrderAPI.getPurchaseOrders({
+        warehouseId: warehouseId || undefined,
+        supplierId: supplierId || undefined,
+        status: statusKey ? statusKey.split(',') as PurchaseOrderStatus[] : undefined
+      })
+      setPurchaseOrders(data)
+    } catch (err: any) {
+      console.error('[usePurchaseOrders] Error loading purchase orders:', err)
+      setError(err.message || 'Failed to load purchase orders')
+      setPurchaseOrders([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [warehouseId, supplierId, statusKey])
+
+  useEffect(() => {
+    loadPurchaseOrders()
+  }, [loadPurchaseOrders])
+
+  const replacePurchaseOrder = useCallback((updated: PurchaseOrder) => {
+    setPurchaseOrders(prev => prev.map(po => po.id === updated.id ? updated : po))
+  }, [])
+
+  const createPurchaseOrder = useCallback(async (data: CreatePurchaseOrderData) => {
+    try {
+      const po = await PurchaseOrderAPI.createPurchaseOrder(data)
+      setPurchaseOrders(prev => [po, ...prev])
+      return po
+    } catch (err: any) {
+      console.error('[usePurchaseOrders] Error creating purchase order:', err)
+      throw err
+    }
+  }, [])
+
+  const receivePurchaseOrder = useCallback(async (purchaseOrderId: string, data: ReceivePurchaseOrderData) => {
+    try {
+      const po = await PurchaseOrderAPI.receivePurchaseOrder(purchaseOrderId, data)
+      replacePurchaseOrder(po)
+      return po
+    } catch (err: any) {
+      console.error('[usePurchaseOrders] Error receiving purchase order:', err)
+      throw err
+    }
+  }, [replacePurchaseOrder])
+
+  const putAway = useCallback(async (purchaseOrderId: string, lines: PutAwayLine[]) => {
+    try {
+      const po = await PurchaseOrderAPI.putAway(purchaseOrderId, lines)
+      replacePurchaseOrder(po)
+      return po
+    } catch (err: any) {
+      console.error('[usePurchaseOrders] Error putting away purchase order:', err)
+      throw err
+    }
+  }, [replacePurchaseOrder])
+
+  const closePurchaseOrder = useCallback(async (purchaseOrderId: string) => {
+    try {
+      const po = await PurchaseOrderAPI.closePurchaseOrder(purchaseOrderId)
+      replacePurchaseOrder(po)
+      return po
+    } catch (err: any) {
+      console.error('[usePurchaseOrders] Error closing purchase order:', err)
+      throw err
+    }
+  }, [replacePurchaseOrder])
+
+  const cancelPurchaseOrder = useCallback(async (purchaseOrderId: string) => {
+    try {
+      const po = await PurchaseOrderAPI.cancelPurchaseOrder(purchaseOrderId)
+      replacePurchaseOrder(po)
+      return po
+    } catch (err: any) {
+      console.error('[usePurchaseOrders] Error cancelling purchase order:', err)
+      throw err
+    }
+  }, [replacePurchaseOrder])
+
+  return {
+    purchaseOrders,
+    isLoading,
+    error,
+    refreshPurchaseOrders: loadPurchaseOrders,
+    createPurchaseOrder,
+    receivePurchaseOrder,
+    putAway,
+    closePurchaseOrder,
+    cancelPurchaseOrder
+  }
+}
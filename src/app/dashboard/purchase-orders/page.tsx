@@ -0,0 +1,312 @@
+//file path: app/dashboard/purchase-orders/page.tsx
+
+'use client'
+
+import { useState } from 'react'
+import { ClipboardDocumentListIcon, ArrowPathIcon, PlusIcon, ShieldExclamationIcon } from '@heroicons/react/24/outline'
+import CreatePurchaseOrderModal from './components/CreatePurchaseOrderModal'
+import ReceivePurchaseOrderModal from './components/ReceivePurchaseOrderModal'
+import PutAwayModal from './components/PutAwayModal'
+import { usePurchaseOrders } from './hooks/usePurchaseOrders'
+import { useSuppliers } from '../suppliers/hooks/useSuppliers'
+import { useWarehouses } from '../warehouses/hooks/useWarehouses'
+import WarehouseSelector from '../shared/components/WarehouseSelector'
+import { withAuth } from '../shared/components/withAuth'
+import { hasPermission } from '../layout'
+import { useAccountInitialization } from '@/hooks/useAccountInitialization'
+import { formatCurrency, formatDate } from '../orders/utils/orderUtils'
+import { PurchaseOrder, PurchaseOrderStatus } from '@/lib/api/purchaseOrderApi'
+import {
+  PURCHASE_ORDER_STATUS_COLORS,
+  PURCHASE_ORDER_STATUS_LABELS,
+  OPEN_PURCHASE_ORDER_STATUSES
+} from './constants/purchaseOrderConstants'
+import {
+  getAwaitingPutAway,
+  getPurchaseOrderTotal,
+  hasUnitsToPutAway,
+  isPurchaseOrderOpen,
+  isPurchaseOrderOverdue
+} from './utils/purchaseOrderUtils'
+
+type StatusTab = 'open' | 'closed' | 'cancelled' | 'all'
+
+const STATUS_TABS: { id: StatusTab; label: string; statuses?: PurchaseOrderStatus[] }[] = [
+  { id: 'open', label: 'Open', statuses: OPEN_PURCHASE_ORDER_STATUSES },
+  { id: 'closed', label: 'Closed', statuses: ['closed'] },
+  { id: 'cancelled', label: 'Cancelled', statuses: ['cancelled'] },
+  { id: 'all', label: 'All' }
+]
+
+function PurchaseOrdersPageContent() {
+  const { user: currentUser } = useAccountInitialization()
+  const [selectedWarehouseId, setSelectedWarehouseId] = useState('')
+  const [supplierId, setSupplierId] = useState('')
+  const [statusTab, setStatusTab] = useState<StatusTab>('open')
+  const [showCreateModal, setShowCreateModal] = useState(false)
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null)
+  const [putAwayOrder, setPutAwayOrder] = useState<PurchaseOrder | null>(null)
+
+  const { warehouses } = useWarehouses()
+  const { suppliers } = useSuppliers()
+  const tab = STATUS_TABS.find(t => t.id === statusTab)!
+  const {
+    purchaseOrders,
+    isLoading,
+    error,
+    refreshPurchaseOrders,
+    createPurchaseOrder,
+    receivePurchaseOrder,
+    putAway,
+    closePurchaseOrder,
+    cancelPurchaseOrder
+  } = usePurchaseOrders(selectedWarehouseId, supplierId, tab.statuses)
+
+  const warehouseName = (warehouseId: string) => warehouses.find(w => w.id === warehouseId)?.name || 'Unknown'
+  const isOverdue = (po: PurchaseOrder) => isPurchaseOrderOverdue(po, warehouses.find(w => w.id === po.warehouseId))
+
+  const handleClose = async (po: PurchaseOrder) => {
+    if (!confirm(`Close ${po.poNumber}? Units not yet received will no longer be expected.`)) return
+    try {
+      await closePurchaseOrder(po.id)
+    } catch (err: any) {
+      alert(err.message || 'Failed to close purchase order')
+    }
+  }
+
+  const handleCancel = async (po: PurchaseOrder) => {
+    if (!confirm(`Cancel ${po.poNumber}?`)) return
+    try {
+      await cancelPurchaseOrder(po.id)
+    } catch (err: any) {
+      alert(err.message || 'Failed to cancel purchase order')
+    }
+  }
+
+  if (!hasPermission(currentUser, 'canCreatePurchaseOrders')) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 text-center">
+        <ShieldExclamationIcon className="h-12 w-12 text-gray-400 mb-4" />
+        <h2 className="text-lg font-medium text-gray-900">Access Denied</h2>
+        <p className="text-gray-500 mt-1">
+          You don't have permission to manage purchase orders.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center mb-6">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold leading-6 text-gray-900">Purchase Orders</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Order stock from suppliers, receive deliveries into the receiving zone and put them away to bins.
+          </p>
+        </div>
+        <div className="mt-4 sm:ml-16 sm:mt-0 flex items-center gap-3">
+          <div className="w-64">
+            <WarehouseSelector
+              warehouses={warehouses.map(w => ({
+                id: w.id,
+                name: w.name,
+                code: w.code,
+                isDefault: w.isDefault,
+                status: w.status
+              }))}
+              selectedWarehouseId={selectedWarehouseId}
+              onWarehouseChange={setSelectedWarehouseId}
+              showProductCount={false}
+            />
+          </div>
+          <select
+            value={supplierId}
+            onChange={(e) => setSupplierId(e.target.value)}
+            className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+          >
+            <option value="">All suppliers</option>
+            {suppliers.map(s => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={refreshPurchaseOrders}
+            className="rounded-md bg-white p-2 text-gray-500 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+            title="Refresh"
+          >
+            <ArrowPathIcon className={`h-5 w-5 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowCreateModal(true)}
+            className="inline-flex items-center gap-1 rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+          >
+            <PlusIcon className="h-5 w-5" />
+            New PO
+          </button>
+        </div>
+      </div>
+
+      <div className="border-b border-gray-200 mb-4">
+        <nav className="-mb-px flex gap-6">
+          {STATUS_TABS.map(t => (
+            <button
+              key={t.id}
+              type="button"
+              onClick={() => setStatusTab(t.id)}
+              className={`border-b-2 py-3 text-sm font-medium ${
+                statusTab === t.id
+                  ? 'border-indigo-500 text-indigo-600'
+                  : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="overflow-hidden bg-white shadow ring-1 ring-black ring-opacity-5 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-300">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="py-3 pl-4 pr-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">PO</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Supplier</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Items</th>
+              <th className="px-3 py-3 text-right text-xs font-medium uppercase tracking-wide text-gray-500">Total</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Expected</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Status</th>
+              <th className="py-3 pl-3 pr-4 text-right text-xs font-medium uppercase tracking-wide text-gray-500">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {!isLoading && purchaseOrders.length === 0 && (
+              <tr>
+                <td colSpan={7} className="py-12 text-center text-sm text-gray-500">
+                  <ClipboardDocumentListIcon className="mx-auto h-8 w-8 text-gray-300 mb-2" />
+                  No purchase orders
+                </td>
+              </tr>
+            )}
+            {purchaseOrders.map(po => (
+              <tr key={po.id} className="align-top">
+                <td className="whitespace-nowrap py-3 pl-4 pr-3 text-sm">
+                  <p className="font-medium text-gray-900">{po.poNumber}</p>
+                  <p className="text-xs text-gray-500">{formatDate(po.createdAt)}</p>
+                </td>
+                <td className="px-3 py-3 text-sm text-gray-700">
+                  <p>{po.supplierName}</p>
+                  <p className="text-xs text-gray-500">To {warehouseName(po.warehouseId)}</p>
+                </td>
+                <td className="px-3 py-3 text-sm text-gray-700">
+                  <ul className="space-y-1">
+                    {po.lines.map(line => (
+                      <li key={line.id}>
+                        <span className="font-medium">{line.quantityReceived}/{line.quantity}</span> × {line.sku}
+                        {getAwaitingPutAway(line) > 0 && (
+                          <span className="ml-1 text-xs text-amber-600">({getAwaitingPutAway(line)} to put away)</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </td>
+                <td className="whitespace-nowrap px-3 py-3 text-right text-sm text-gray-700">
+                  {formatCurrency(getPurchaseOrderTotal(po), po.currency)}
+                </td>
+                <td className="whitespace-nowrap px-3 py-3 text-sm">
+                  {po.expectedAt ? (
+                    <span className={isOverdue(po) ? 'font-medium text-red-600' : 'text-gray-700'}>
+                      {formatDate(po.expectedAt)}
+                      {isOverdue(po) && <span className="block text-xs">Overdue</span>}
+                    </span>
+                  ) : '—'}
+                </td>
+                <td className="whitespace-nowrap px-3 py-3 text-sm">
+                  <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${PURCHASE_ORDER_STATUS_COLORS[po.status]}`}>
+                    {PURCHASE_ORDER_STATUS_LABELS[po.status]}
+                  </span>
+                </td>
+                <td className="whitespace-nowrap py-3 pl-3 pr-4 text-right text-sm">
+                  <div className="flex justify-end gap-3">
+                    {isPurchaseOrderOpen(po) && (
+                      <button
+                        type="button"
+                        onClick={() => setReceivingOrder(po)}
+                        className="font-medium text-indigo-600 hover:text-indigo-500"
+                      >
+                        Receive
+                      </button>
+                    )}
+                    {hasUnitsToPutAway(po) && (
+                      <button
+                        type="button"
+                        onClick={() => setPutAwayOrder(po)}
+                        className="font-medium text-indigo-600 hover:text-indigo-500"
+                      >
+                        Put Away
+                      </button>
+                    )}
+                    {po.status === 'partially_received' && (
+                      <button
+                        type="button"
+                        onClick={() => handleClose(po)}
+                        className="font-medium text-gray-500 hover:text-gray-700"
+                      >
+                        Close
+                      </button>
+                    )}
+                    {po.status === 'open' && (
+                      <button
+                        type="button"
+                        onClick={() => handleCancel(po)}
+                        className="font-medium text-gray-500 hover:text-red-600"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <CreatePurchaseOrderModal
+        isOpen={showCreateModal}
+        onClose={() => setShowCreateModal(false)}
+        suppliers={suppliers}
+        warehouses={warehouses}
+        defaultWarehouseId={selectedWarehouseId}
+        onCreate={createPurchaseOrder}
+      />
+
+      {receivingOrder && (
+        <ReceivePurchaseOrderModal
+          isOpen={receivingOrder !== null}
+          onClose={() => setReceivingOrder(null)}
+          purchaseOrder={receivingOrder}
+          warehouse={warehouses.find(w => w.id === receivingOrder.warehouseId)}
+          onReceive={receivePurchaseOrder}
+        />
+      )}
+
+      {putAwayOrder && (
+        <PutAwayModal
+          isOpen={putAwayOrder !== null}
+          onClose={() => setPutAwayOrder(null)}
+          purchaseOrder={putAwayOrder}
+          warehouse={warehouses.find(w => w.id === putAwayOrder.warehouseId)}
+          onPutAway={putAway}
+        />
+      )}
+    </div>
+  )
+}
+
+export default withAuth(PurchaseOrdersPageContent)
@@ -0,0 +1,100 @@
+// File: app/dashboard/purchase-orders/utils/purchaseOrderUtils.ts
+
+import {
+  PurchaseOrder,
+  PurchaseOrderLine,
+  CreatePurchaseOrderData
+} from '@/lib/api/purchaseOrderApi'
+import { Supplier, SupplierProduct } from '@/lib/api/supplierApi'
+import { Warehouse } from '../../warehouses/utils/warehouseTypes'
+import { getWarehouseCalendar, toZonedDateTime, addDays } from '../../warehouses/utils/warehouseCalendar'
+import { OPEN_PURCHASE_ORDER_STATUSES } from '../constants/purchaseOrderConstants'
+
+/**
+ * Units on a line still expected from the supplier
+ */
+export function getOutstandingQuantity(line: PurchaseOrderLine): number {
+  return Math.max(0, line.quantity - line.quantityReceived)
+}
+
+/**
+ * Units received into the receiving zone but not yet put away to a bin
+ */
+export function getAwaitingPutAway(line: PurchaseOrderLine): number {
+  return Math.max(0, line.quantityReceived - line.quantityPutAway)
+}
+
+export function getPurchaseOrderTotal(po: { lines: Pick<PurchaseOrderLine, 'quantity' | 'unitCost'>[] }): number {
+  return po.lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0)
+}
+
+export function isPurchaseOrderOpen(po: PurchaseOrder): boolean {
+  return OPEN_PURCHASE_ORDER_STATUSES.includes(po.status)
+}
+
+export function hasUnitsToPutAway(po: PurchaseOrder): boolean {
+  return po.lines.some(line => getAwaitingPutAway(line) > 0)
+}
+
+/**
+ * Open POs past their expected date (today as seen at the receiving warehouse)
+ */
+export function isPurchaseOrderOverdue(
+  po: PurchaseOrder,
+  warehouse: Warehouse | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!po.expectedAt || !isPurchaseOrderOpen(po)) return false
+  const today = toZonedDateTime(now, getWarehouseCalendar(warehouse).timeZone).day
+  return po.expectedAt.slice(0, 10) < today
+}
+
+/**
+ * Zones set up to receive deliveries (Zone.type === 'receiving')
+ */
+export function getReceivingZones(warehouse: Warehouse | undefined) {
+  return (warehouse?.layout?.zones || []).filter(zone => zone.type === 'receiving' && zone.isActive)
+}
+
+/**
+ * Expected delivery date (YYYY-MM-DD at the receiving warehouse) for SKUs ordered today
+ * The slowest SKU sets the date; SKUs without their own lead time use the supplier default
+ */
+export function getExpectedDate(
+  supplier: Supplier,
+  supplierProducts: SupplierProduct[],
+  productIds: string[],
+  warehouse: Warehouse | undefined,
+  from: Date = new Date()
+): string {
+  const leadTimes = productIds.map(productId =>
+    supplierProducts.find(p => p.productId === productId)?.leadTimeDays ?? supplier.leadTimeDays
+  )
+  const days = leadTimes.length > 0 ? Math.max(...leadTimes) : supplier.leadTimeDays
+
+  return addDays(toZonedDateTime(from, getWarehouseCalendar(warehouse).timeZone).day, days)
+}
+
+/**
+ * Check a new PO before creating it
+ * Returns an error message, or null when the PO is valid
+ */
+export function validatePurchaseOrder(data: CreatePurchaseOrderData, supplierProducts: SupplierProduct[]): string | null {
+  if (!data.supplierId) return 'Choose a supplier'
+  if (!data.warehouseId) return 'Choose the warehouse to deliver to'
+
+  const lines = data.lines.filter(line => line.quantity > 0)
+  if (lines.length === 0) return 'Add at least one SKU with a quantity'
+
+  for (const line of lines) {
+    const product = supplierProducts.find(p => p.productId === line.productId)
+    if (!Number.isInteger(line.quantity)) {
+      return `${product?.sku || 'Item'}: quantity must be a whole number`
+    }
+    if (product?.minOrderQuantity && line.quantity < product.minOrderQuantity) {
+      return `${product.sku}: the supplier's minimum order is ${product.minOrderQuantity}`
+    }
+  }
+
+  return null
+}
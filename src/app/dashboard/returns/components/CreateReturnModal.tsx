@@ -0,0 +1,405 @@
+//file path: app/dashboard/returns/components/CreateReturnModal.tsx
+
+'use client'
+
+import { Fragment, useState, useEffect, useMemo } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline'
+import { getShippingRates, createShippingLabel } from '@/lib/services/uspsClient'
+import {
+  ReturnAPI,
+  ReturnAuthorization,
+  ReturnLabel,
+  ReturnReasonCode,
+  CreateReturnData
+} from '@/lib/api/returnApi'
+import { OrderWithDetails, orderToShippingAddress } from '../../orders/utils/orderTypes'
+import { formatCurrency } from '../../orders/utils/orderUtils'
+import { createDraftPackage, estimatePackageWeight } from '../../orders/utils/shipmentUtils'
+import { getReturnAddressForOrder } from '../../warehouses/hooks/useReturnAddress'
+import { Warehouse } from '../../warehouses/utils/warehouseTypes'
+import { Store } from '../../stores/utils/storeTypes'
+import { ShippingRate } from '../../shipping/utils/shippingTypes'
+import { RETURN_REASONS } from '../constants/returnConstants'
+import { getReturnableLines, getReturnableQuantity, getUnitRefund } from '../utils/returnUtils'
+
+interface DraftReturnLine {
+  quantity: number
+  reason: ReturnReasonCode
+  reasonNotes: string
+}
+
+const DEFAULT_LINE: DraftReturnLine = { quantity: 0, reason: 'no_longer_needed', reasonNotes: '' }
+
+interface CreateReturnModalProps {
+  isOpen: boolean
+  onClose: () => void
+  order: OrderWithDetails
+  warehouses: Warehouse[]
+  stores?: Store[]              // For [shop] variables in the return address
+  onReturnCreated?: (rma: ReturnAuthorization) => void
+}
+
+export default function CreateReturnModal({
+  isOpen,
+  onClose,
+  order,
+  warehouses,
+  stores = [],
+  onReturnCreated
+}: CreateReturnModalProps) {
+  const [existingReturns, setExistingReturns] = useState<ReturnAuthorization[]>([])
+  const [loadingReturns, setLoadingReturns] = useState(false)
+  const [lines, setLines] = useState<Record<string, DraftReturnLine>>({})
+  const [warehouseId, setWarehouseId] = useState('')
+  const [createLabel, setCreateLabel] = useState(true)
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+  // The label is paid for as soon as it's bought - keep it so a retry after the
+  // return fails to save never buys a second one
+  const [purchasedLabel, setPurchasedLabel] = useState<ReturnLabel | null>(null)
+
+  // Load RMAs already open against this order so lines can't be returned twice
+  useEffect(() => {
+    if (!isOpen) return
+    setLines({})
+    setWarehouseId(order.warehouseId || warehouses[0]?.id || '')
+    setCreateLabel(!!order.storeId)
+    setNotes('')
+    setError('')
+    setPurchasedLabel(null)
+
+    setLoadingReturns(true)
+    ReturnAPI.getReturns({ orderId: order.id })
+      .then(setExistingReturns)
+      .catch(err => {
+        console.error('Failed to load existing returns:', err)
+        setExistingReturns([])
+      })
+      .finally(() => setLoadingReturns(false))
+  }, [isOpen, order, warehouses])
+
+  const returnableLines = useMemo(
+    () => getReturnableLines(order, existingReturns),
+    [order, existingReturns]
+  )
+
+  const warehouse = warehouses.find(w => w.id === warehouseId)
+  const returnAddress = getReturnAddressForOrder(warehouse, order, stores, warehouses)
+
+  const selectedLines = Object.entries(lines).filter(([, line]) => line.quantity > 0)
+  const estimatedRefund = selectedLines.reduce((sum, [itemId, line]) => {
+    const item = order.items.find(i => i.id === itemId)
+    return sum + (item ? getUnitRefund(item) * line.quantity : 0)
+  }, 0)
+
+  const updateLine = (itemId: string, updates: Partial<DraftReturnLine>) => {
+    setLines(prev => ({
+      ...prev,
+      [itemId]: { ...(prev[itemId] || DEFAULT_LINE), ...updates }
+    }))
+  }
+
+  // Customer ships to the warehouse, so the order's ship-to is the label's origin
+  const buyReturnLabel = async (): Promise<ReturnLabel> => {
+    const customerAddress = orderToShippingAddress(order)
+    const pkg = {
+      ...createDraftPackage(0),
+      quantities: Object.fromEntries(selectedLines.map(([itemId, line]) => [itemId, line.quantity]))
+    }
+    const shipment = {
+      fromAddress: {
+        streetAddress: customerAddress.streetAddress,
+        secondaryAddress: customerAddress.secondaryAddress,
+        city: customerAddress.city,
+        state: customerAddress.state,
+        ZIPCode: customerAddress.zipCode.split('-')[0]
+      },
+      toAddress: {
+        streetAddress: returnAddress.address1,
+        secondaryAddress: returnAddress.address2,
+        city: returnAddress.city,
+        state: returnAddress.state,
+        ZIPCode: returnAddress.zip.split('-')[0]
+      },
+      weight: Math.max(1, estimatePackageWeight(order, pkg)),
+      length: pkg.length,
+      width: pkg.width,
+      height: pkg.height
+    }
+
+    const { rates = [] }: { rates?: ShippingRate[] } = await getShippingRates(shipment, order.storeId)
+    if (rates.length === 0) {
+      throw new Error('No return shipping rates available for this address')
+    }
+    const cheapest = rates.reduce((best, rate) => rate.rate < best.rate ? rate : best)
+
+    const result = await createShippingLabel({
+      ...shipment,
+      mailClass: cheapest.mailClass,
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      isReturn: true
+    }, order.storeId)
+
+    return {
+      trackingNumber: result.trackingNumber,
+      carrier: 'USPS',
+      serviceType: cheapest.mailClass,
+      labelUrl: result.labelUrl || '',
+      labelImage: result.labelImage,
+      postage: result.postage ?? cheapest.rate,
+      createdAt: new Date().toISOString()
+    }
+  }
+
+  const handleCreate = async () => {
+    if (selectedLines.length === 0) {
+      setError('Choose at least one item to return')
+      return
+    }
+    if (!warehouseId) {
+      setError('Choose the warehouse receiving the return')
+      return
+    }
+    if (createLabel && !returnAddress.address1) {
+      setError(`${warehouse?.name || 'This warehouse'} has no return address`)
+      return
+    }
+
+    setIsSaving(true)
+    setError('')
+    let bought = purchasedLabel
+    try {
+      const data: CreateReturnData = {
+        orderId: order.id,
+        warehouseId,
+        lines: selectedLines.map(([itemId, line]) => ({
+          orderItemId: itemId,
+          quantity: line.quantity,
+          reason: line.reason,
+          reasonNotes: line.reasonNotes.trim() || undefined
+        })),
+        notes: notes.trim() || undefined
+      }
+
+      if (createLabel || bought) {
+        const label = bought || await buyReturnLabel()
+        bought = label
+        setPurchasedLabel(label)
+        data.label = label
+      }
+
+      const rma = await ReturnAPI.createReturn(data)
+      setPurchasedLabel(null)
+      onReturnCreated?.(rma)
+
+      if (rma.label?.labelUrl) {
+        window.open(rma.label.labelUrl, '_blank')
+      }
+      onClose()
+    } catch (err: any) {
+      console.error('Failed to create return:', err)
+      setError(`${err.message || 'Failed to create return'}${bought
+        ? ' - the return label was bought but the return was not saved. Retry to save it; the label won\'t be bought again.'
+        : ''}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (purchasedLabel && !confirm('A return label was bought but the return is not saved yet. Close anyway?')) return
+    onClose()
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={handleClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-3xl transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                  <div className="flex items-center gap-2">
+                    <ArrowUturnLeftIcon className="h-6 w-6 text-indigo-600" />
+                    <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                      Create Return for Order #{order.orderNumber}
+                    </Dialog.Title>
+                  </div>
+                  <button onClick={handleClose} className="rounded-md bg-white text-gray-400 hover:text-gray-500">
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="max-h-[70vh] overflow-y-auto px-6 py-4 space-y-6">
+                  {error && (
+                    <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+                  )}
+
+                  {/* Lines */}
+                  <div>
+                    <h4 className="text-sm font-semibold text-gray-900 mb-3">Items to return</h4>
+                    {loadingReturns ? (
+                      <p className="py-4 text-center text-sm text-gray-500">Loading...</p>
+                    ) : returnableLines.length === 0 ? (
+                      <p className="rounded-md border border-dashed border-gray-300 py-6 text-center text-sm text-gray-500">
+                        Nothing on this order can be returned (items must be shipped and not already on a return)
+                      </p>
+                    ) : (
+                      <div className="space-y-3">
+                        {returnableLines.map(item => {
+                          const maxQuantity = getReturnableQuantity(item, existingReturns)
+                          const line = lines[item.id]
+
+                          return (
+                            <div key={item.id} className="rounded-lg border border-gray-200 p-3">
+                              <div className="flex items-start justify-between gap-4">
+                                <div>
+                                  <p className="text-sm font-medium text-gray-900">{item.name}</p>
+                                  <p className="text-xs text-gray-500">
+                                    SKU: {item.variantSku || item.sku} • {maxQuantity} returnable • {formatCurrency(getUnitRefund(item), order.currency)} each
+                                  </p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <label className="text-xs text-gray-600">Qty</label>
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    max={maxQuantity}
+                                    value={line?.quantity || 0}
+                                    onChange={(e) => updateLine(item.id, {
+                                      quantity: Math.min(maxQuantity, Math.max(0, Math.floor(Number(e.target.value)) || 0))
+                                    })}
+                                    className="w-20 rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                                  />
+                                </div>
+                              </div>
+                              {line?.quantity > 0 && (
+                                <div className="mt-3 grid grid-cols-2 gap-3">
+                                  <select
+                                    value={line.reason}
+                                    onChange={(e) => updateLine(item.id, { reason: e.target.value as ReturnReasonCode })}
+                                    className="rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                                  >
+                                    {RETURN_REASONS.map(reason => (
+                                      <option key={reason.value} value={reason.value}>{reason.label}</option>
+                                    ))}
+                                  </select>
+                                  <input
+                                    type="text"
+                                    value={line.reasonNotes}
+                                    onChange={(e) => updateLine(item.id, { reasonNotes: e.target.value })}
+                                    placeholder="Details (optional)"
+                                    className="rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                                  />
+                                </div>
+                              )}
+                            </div>
+                          )
+                        })}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Receiving warehouse and label */}
+                  <div className="grid grid-cols-2 gap-6">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Return to warehouse</label>
+                      <select
+                        value={warehouseId}
+                        onChange={(e) => setWarehouseId(e.target.value)}
+                        disabled={!!purchasedLabel}
+                        className="block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                      >
+                        <option value="">Select warehouse</option>
+                        {warehouses.map(w => (
+                          <option key={w.id} value={w.id}>{w.name}</option>
+                        ))}
+                      </select>
+                      {warehouse && (
+                        <address className="mt-2 text-xs not-italic text-gray-600">
+                          {returnAddress.displayName}<br />
+                          {returnAddress.address1}{returnAddress.address2 && `, ${returnAddress.address2}`}<br />
+                          {returnAddress.city}, {returnAddress.state} {returnAddress.zip}
+                        </address>
+                      )}
+                    </div>
+                    <div className="space-y-3">
+                      <label className="flex items-start gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={createLabel}
+                          onChange={(e) => setCreateLabel(e.target.checked)}
+                          disabled={!order.storeId || !!purchasedLabel}
+                          className="mt-0.5 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-600"
+                        />
+                        <span>
+                          Create prepaid return label
+                          <span className="block text-xs text-gray-500">Cheapest USPS rate to the warehouse return address</span>
+                        </span>
+                      </label>
+                      <textarea
+                        rows={2}
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        placeholder="Notes (optional)"
+                        className="block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-between border-t border-gray-200 bg-gray-50 px-6 py-4">
+                  <p className="text-sm text-gray-600">
+                    Refund on receipt: <span className="font-medium text-gray-900">{formatCurrency(estimatedRefund, order.currency)}</span>
+                  </p>
+                  <div className="flex gap-3">
+                    <button
+                      type="button"
+                      onClick={handleClose}
+                      className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleCreate}
+                      disabled={isSaving || selectedLines.length === 0}
+                      className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isSaving ? 'Creating...' : purchasedLabel ? 'Retry Saving Return' : 'Create Return'}
+                    </button>
+                  </div>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,333 @@
+//file path: app/dashboard/returns/components/ReceiveReturnModal.tsx
+
+'use client'
+
+import { Fragment, useState, useEffect, useMemo } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon, InboxArrowDownIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import {
+  ReturnAuthorization,
+  ReturnUnitDisposition,
+  ReceiveReturnData,
+  ReceiveReturnResponse
+} from '@/lib/api/returnApi'
+import { Warehouse } from '../../warehouses/utils/warehouseTypes'
+import { getStorageLocations } from '../../warehouses/utils/locationUtils'
+import { formatCurrency } from '../../orders/utils/orderUtils'
+import { RETURN_DISPOSITIONS } from '../constants/returnConstants'
+import {
+  getOutstandingQuantity,
+  getReturnZones,
+  validateDispositions,
+  calculateReceiptRefund
+} from '../utils/returnUtils'
+
+// Units per disposition for one line, plus the bin restocked units go to
+interface LineReceipt {
+  restock: number
+  refurbish: number
+  discard: number
+  binId: string
+}
+
+const EMPTY_RECEIPT: LineReceipt = { restock: 0, refurbish: 0, discard: 0, binId: '' }
+
+interface ReceiveReturnModalProps {
+  isOpen: boolean
+  onClose: () => void
+  rma: ReturnAuthorization
+  warehouse: Warehouse | undefined
+  onReceive: (returnId: string, data: ReceiveReturnData) => Promise<ReceiveReturnResponse>
+}
+
+export default function ReceiveReturnModal({
+  isOpen,
+  onClose,
+  rma,
+  warehouse,
+  onReceive
+}: ReceiveReturnModalProps) {
+  const [zoneId, setZoneId] = useState('')
+  const [receipts, setReceipts] = useState<Record<string, LineReceipt>>({})
+  const [issueRefund, setIssueRefund] = useState(true)
+  const [refundAmount, setRefundAmount] = useState(0)
+  const [refundEdited, setRefundEdited] = useState(false)
+  const [syncRefund, setSyncRefund] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const returnZones = useMemo(() => getReturnZones(warehouse), [warehouse])
+  const restockLocations = useMemo(() => getStorageLocations(warehouse), [warehouse])
+
+  // Default every outstanding unit to restock
+  useEffect(() => {
+    if (!isOpen) return
+    setZoneId(returnZones[0]?.id || '')
+    setReceipts(Object.fromEntries(rma.lines.map(line => [
+      line.id,
+      { ...EMPTY_RECEIPT, restock: getOutstandingQuantity(line) }
+    ])))
+    setIssueRefund(true)
+    setRefundEdited(false)
+    setSyncRefund(rma.platform !== 'manual')
+    setError('')
+  }, [isOpen, rma, returnZones])
+
+  const units = useMemo<ReturnUnitDisposition[]>(() => {
+    const restockLocationById = new Map(restockLocations.map(location => [location.binId, location]))
+
+    return rma.lines.flatMap(line => {
+      const receipt = receipts[line.id] || EMPTY_RECEIPT
+      return RETURN_DISPOSITIONS
+        .filter(({ value }) => receipt[value] > 0)
+        .map(({ value }) => ({
+          lineId: line.id,
+          quantity: receipt[value],
+          disposition: value,
+          binId: value === 'restock' ? receipt.binId || undefined : undefined,
+          location: value === 'restock' ? restockLocationById.get(receipt.binId)?.formattedLocation : undefined
+        }))
+    })
+  }, [rma, receipts, restockLocations])
+
+  const calculatedRefund = useMemo(() => calculateReceiptRefund(rma, units), [rma, units])
+
+  // Follow the received units until the amount is edited by hand
+  useEffect(() => {
+    if (!refundEdited) setRefundAmount(calculatedRefund)
+  }, [calculatedRefund, refundEdited])
+
+  const updateReceipt = (lineId: string, updates: Partial<LineReceipt>) => {
+    setReceipts(prev => ({ ...prev, [lineId]: { ...EMPTY_RECEIPT, ...prev[lineId], ...updates } }))
+  }
+
+  const handleReceive = async () => {
+    if (!zoneId) {
+      setError('Choose the returns zone the parcel is received into')
+      return
+    }
+    const validationError = validateDispositions(rma, units)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setIsSaving(true)
+    setError('')
+    try {
+      const result = await onReceive(rma.id, {
+        zoneId,
+        units: units.filter(unit => unit.quantity > 0),
+        refund: issueRefund && refundAmount > 0
+          ? { amount: refundAmount, syncToPlatform: syncRefund }
+          : undefined
+      })
+
+      if (result.integrationSync && !result.integrationSync.success) {
+        alert(`Return received, but the refund didn't sync to ${rma.platform}: ${result.integrationSync.message}`)
+      }
+      onClose()
+    } catch (err: any) {
+      setError(err.message || 'Failed to receive return')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-3xl transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                  <div className="flex items-center gap-2">
+                    <InboxArrowDownIcon className="h-6 w-6 text-indigo-600" />
+                    <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                      Receive {rma.rmaNumber}
+                    </Dialog.Title>
+                  </div>
+                  <button onClick={onClose} className="rounded-md bg-white text-gray-400 hover:text-gray-500">
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="max-h-[70vh] overflow-y-auto px-6 py-4 space-y-6">
+                  {error && (
+                    <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+                  )}
+
+                  {/* Returns zone */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Receive into</label>
+                    {returnZones.length === 0 ? (
+                      <div className="flex items-start gap-2 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+                        <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+                        <span>
+                          {warehouse?.name || 'This warehouse'} has no returns zone. Add a zone of type &quot;Returns&quot; in the warehouse layout first.
+                        </span>
+                      </div>
+                    ) : (
+                      <select
+                        value={zoneId}
+                        onChange={(e) => setZoneId(e.target.value)}
+                        className="block w-64 rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                      >
+                        {returnZones.map(zone => (
+                          <option key={zone.id} value={zone.id}>{zone.name} ({zone.code})</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+
+                  {/* Dispositions per line */}
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="py-1 pr-3 font-medium">Item</th>
+                        <th className="py-1 pr-3 font-medium w-16 text-center">Left</th>
+                        {RETURN_DISPOSITIONS.map(d => (
+                          <th key={d.value} className="py-1 pr-3 font-medium w-20" title={d.description}>{d.label}</th>
+                        ))}
+                        <th className="py-1 font-medium w-44">Restock bin</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {rma.lines.map(line => {
+                        const outstanding = getOutstandingQuantity(line)
+                        const receipt = receipts[line.id] || EMPTY_RECEIPT
+
+                        return (
+                          <tr key={line.id} className={outstanding === 0 ? 'opacity-50' : ''}>
+                            <td className="py-2 pr-3">
+                              <p className="text-gray-900">{line.name}</p>
+                              <p className="text-xs text-gray-500">SKU: {line.variantSku || line.sku}</p>
+                            </td>
+                            <td className="py-2 pr-3 text-center text-gray-700">{outstanding}</td>
+                            {RETURN_DISPOSITIONS.map(d => (
+                              <td key={d.value} className="py-2 pr-3">
+                                <input
+                                  type="number"
+                                  min={0}
+                                  max={outstanding}
+                                  disabled={outstanding === 0}
+                                  value={receipt[d.value]}
+                                  onChange={(e) => updateReceipt(line.id, {
+                                    [d.value]: Math.max(0, Math.floor(Number(e.target.value)) || 0)
+                                  })}
+                                  className="w-full rounded-md border border-gray-300 px-2 py-1 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                                />
+                              </td>
+                            ))}
+                            <td className="py-2">
+                              <select
+                                value={receipt.binId}
+                                onChange={(e) => updateReceipt(line.id, { binId: e.target.value })}
+                                disabled={receipt.restock === 0}
+                                className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 disabled:bg-gray-50"
+                              >
+                                <option value="">Select bin</option>
+                                {restockLocations.map(location => (
+                                  <option key={location.binId} value={location.binId}>{location.formattedLocation}</option>
+                                ))}
+                              </select>
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+
+                  {/* Refund */}
+                  <div className="rounded-lg bg-gray-50 p-4 space-y-3">
+                    <label className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                      <input
+                        type="checkbox"
+                        checked={issueRefund}
+                        onChange={(e) => setIssueRefund(e.target.checked)}
+                        className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-600"
+                      />
+                      Refund received units
+                    </label>
+                    {issueRefund && (
+                      <div className="flex items-center gap-6 pl-6">
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={refundAmount}
+                            onChange={(e) => {
+                              setRefundEdited(true)
+                              setRefundAmount(Math.max(0, Number(e.target.value) || 0))
+                            }}
+                            className="w-28 rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                          />
+                          <span className="text-xs text-gray-500">
+                            {rma.currency} (calculated {formatCurrency(calculatedRefund, rma.currency)})
+                          </span>
+                        </div>
+                        {rma.platform !== 'manual' && (
+                          <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={syncRefund}
+                              onChange={(e) => setSyncRefund(e.target.checked)}
+                              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-600"
+                            />
+                            Sync refund to {rma.platform}
+                          </label>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-3 border-t border-gray-200 bg-gray-50 px-6 py-4">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleReceive}
+                    disabled={isSaving || !zoneId}
+                    className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSaving ? 'Receiving...' : 'Receive Units'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,37 @@
+// File: app/dashboard/returns/constants/returnConstants.ts
+
+import { ReturnDisposition, ReturnReasonCode, ReturnStatus } from '@/lib/api/returnApi'
+
+export const RETURN_REASONS: { value: ReturnReasonCode; label: string }[] = [
+  { value: 'damaged', label: 'Arrived damaged' },
+  { value: 'defective', label: 'Defective' },
+  { value: 'wrong_item', label: 'Wrong item sent' },
+  { value: 'not_as_described', label: 'Not as described' },
+  { value: 'size_fit', label: 'Size / fit' },
+  { value: 'no_longer_needed', label: 'No longer needed' },
+  { value: 'arrived_late', label: 'Arrived too late' },
+  { value: 'other', label: 'Other' }
+]
+
+export const RETURN_DISPOSITIONS: { value: ReturnDisposition; label: string; description: string }[] = [
+  { value: 'restock', label: 'Restock', description: 'Put back into a bin as sellable stock' },
+  { value: 'refurbish', label: 'Refurbish', description: 'Hold for repair or repackaging' },
+  { value: 'discard', label: 'Discard', description: 'Write off the unit' }
+]
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  authorized: 'Awaiting return',
+  partially_received: 'Partially received',
+  received: 'Received',
+  cancelled: 'Cancelled'
+}
+
+export const RETURN_STATUS_COLORS: Record<ReturnStatus, string> = {
+  authorized: 'bg-yellow-100 text-yellow-800',
+  partially_received: 'bg-blue-100 text-blue-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800'
+}
+
+// RMAs that can still be received or cancelled
+export const OPEN_RETURN_STATUSES: ReturnStatus[] = ['authorized', 'partially_received']
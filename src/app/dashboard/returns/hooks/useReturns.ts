@@ -0,0 +1,94 @@
+//file path: app/dashboard/returns/hooks/useReturns.ts
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  ReturnAPI,
+  ReturnAuthorization,
+  ReturnStatus,
+  CreateReturnData,
+  ReceiveReturnData
+} from '@/lib/api/returnApi'
+
+/**
+ * Hook for listing and working RMAs
+ * Pass an empty warehouseId for all warehouses
+ */
+export function useReturns(warehouseId: string = '', status?: ReturnStatus[]) {
+  const [returns, setReturns] = useState<ReturnAuthorization[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const statusKey = status?.join(',') || ''
+
+  const loadReturns = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const data = await ReturnAPI.getReturns({
+        warehouseId: warehouseId || undefined,
+        status: statusKey ? statusKey.split(',') as ReturnStatus[] : undefined
+      })
+      setReturns(data)
+    } catch (err: any) {
+      console.error('[useReturns] Error loading returns:', err)
+      setError(err.message || 'Failed to load returns')
+      setReturns([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [warehouseId, statusKey])
+
+  useEffect(() => {
+    loadReturns()
+  }, [loadReturns])
+
+  const replaceReturn = useCallback((updated: ReturnAuthorization) => {
+    setReturns(prev => prev.map(r => r.id === updated.id ? updated : r))
+  }, [])
+
+  const createReturn = useCallback(async (data: CreateReturnData) => {
+    try {
+      const rma = await ReturnAPI.createReturn(data)
+      setReturns(prev => [rma, ...prev])
+      return rma
+    } catch (err: any) {
+      console.error('[useReturns] Error creating return:', err)
+      setError(err.message || 'Failed to create return')
+      throw err
+    }
+  }, [])
+
+  const receiveReturn = useCallback(async (returnId: string, data: ReceiveReturnData) => {
+    try {
+      const result = await ReturnAPI.receiveReturn(returnId, data)
+      replaceReturn(result.rma)
+      return result
+    } catch (err: any) {
+      console.error('[useReturns] Error receiving return:', err)
+      setError(err.message || 'Failed to receive return')
+      throw err
+    }
+  }, [replaceReturn])
+
+  const cancelReturn = useCallback(async (returnId: string) => {
+    try {
+      const rma = await ReturnAPI.cancelReturn(returnId)
+      replaceReturn(rma)
+      return rma
+    } catch (err: any) {
+      console.error('[useReturns] Error cancelling return:', err)
+      setError(err.message || 'Failed to cancel return')
+      throw err
+    }
+  }, [replaceReturn])
+
+  return {
+    returns,
+    isLoading,
+    error,
+    refreshReturns: loadReturns,
+    createReturn,
+    receiveReturn,
+    cancelReturn
+  }
+}
@@ -0,0 +1,238 @@
+//file path: app/dashboard/returns/page.tsx
+
+'use client'
+
+import { useState, useMemo } from 'react'
+import { ArrowUturnLeftIcon, ArrowPathIcon, PrinterIcon } from '@heroicons/react/24/outline'
+import ReceiveReturnModal from './components/ReceiveReturnModal'
+import { useReturns } from './hooks/useReturns'
+import { useWarehouses } from '../warehouses/hooks/useWarehouses'
+import WarehouseSelector from '../shared/components/WarehouseSelector'
+import { withAuth } from '../shared/components/withAuth'
+import { formatCurrency, formatDate } from '../orders/utils/orderUtils'
+import { ReturnAuthorization, ReturnStatus } from '@/lib/api/returnApi'
+import {
+  RETURN_REASONS,
+  RETURN_STATUS_COLORS,
+  RETURN_STATUS_LABELS,
+  OPEN_RETURN_STATUSES
+} from './constants/returnConstants'
+import { getTotalRefunded, isReturnOpen } from './utils/returnUtils'
+
+type StatusTab = 'open' | 'received' | 'cancelled' | 'all'
+
+const STATUS_TABS: { id: StatusTab; label: string; statuses?: ReturnStatus[] }[] = [
+  { id: 'open', label: 'Open', statuses: OPEN_RETURN_STATUSES },
+  { id: 'received', label: 'Received', statuses: ['received'] },
+  { id: 'cancelled', label: 'Cancelled', statuses: ['cancelled'] },
+  { id: 'all', label: 'All' }
+]
+
+const REASON_LABELS = Object.fromEntries(RETURN_REASONS.map(r => [r.value, r.label]))
+
+function ReturnsPageContent() {
+  const [selectedWarehouseId, setSelectedWarehouseId] = useState('')
+  const [statusTab, setStatusTab] = useState<StatusTab>('open')
+  const [receivingReturn, setReceivingReturn] = useState<ReturnAuthorization | null>(null)
+
+  const { warehouses } = useWarehouses()
+  const tab = STATUS_TABS.find(t => t.id === statusTab)!
+  const {
+    returns,
+    isLoading,
+    error,
+    refreshReturns,
+    receiveReturn,
+    cancelReturn
+  } = useReturns(selectedWarehouseId, tab.statuses)
+
+  const warehouseNames = useMemo(
+    () => new Map(warehouses.map(w => [w.id, w.name])),
+    [warehouses]
+  )
+
+  const handleCancel = async (rma: ReturnAuthorization) => {
+    if (!confirm(`Cancel ${rma.rmaNumber}? The customer's return label will no longer be expected.`)) return
+    try {
+      await cancelReturn(rma.id)
+    } catch (err: any) {
+      alert(err.message || 'Failed to cancel return')
+    }
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center mb-6">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold leading-6 text-gray-900">Returns</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Receive returned parcels and decide what happens to each unit. Create returns from an order&apos;s details.
+          </p>
+        </div>
+        <div className="mt-4 sm:ml-16 sm:mt-0 flex items-center gap-3">
+          <div className="w-64">
+            <WarehouseSelector
+              warehouses={warehouses.map(w => ({
+                id: w.id,
+                name: w.name,
+                code: w.code,
+                isDefault: w.isDefault,
+                status: w.status
+              }))}
+              selectedWarehouseId={selectedWarehouseId}
+              onWarehouseChange={setSelectedWarehouseId}
+              showProductCount={false}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={refreshReturns}
+            className="rounded-md bg-white p-2 text-gray-500 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+            title="Refresh"
+          >
+            <ArrowPathIcon className={`h-5 w-5 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      <div className="border-b border-gray-200 mb-4">
+        <nav className="-mb-px flex gap-6">
+          {STATUS_TABS.map(t => (
+            <button
+              key={t.id}
+              type="button"
+              onClick={() => setStatusTab(t.id)}
+              className={`border-b-2 py-3 text-sm font-medium ${
+                statusTab === t.id
+                  ? 'border-indigo-500 text-indigo-600'
+                  : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="overflow-hidden bg-white shadow ring-1 ring-black ring-opacity-5 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-300">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="py-3 pl-4 pr-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">RMA</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Order</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Items</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Warehouse</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Status</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Refunded</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Created</th>
+              <th className="py-3 pl-3 pr-4 text-right text-xs font-medium uppercase tracking-wide text-gray-500">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {!isLoading && returns.length === 0 && (
+              <tr>
+                <td colSpan={8} className="py-12 text-center text-sm text-gray-500">
+                  <ArrowUturnLeftIcon className="mx-auto h-8 w-8 text-gray-300 mb-2" />
+                  No returns
+                </td>
+              </tr>
+            )}
+            {returns.map(rma => (
+              <tr key={rma.id} className="align-top">
+                <td className="whitespace-nowrap py-3 pl-4 pr-3 text-sm font-medium text-gray-900">
+                  {rma.rmaNumber}
+                  {rma.label && (
+                    <a
+                      href={rma.label.labelUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="mt-1 flex items-center gap-1 text-xs font-normal text-indigo-600 hover:text-indigo-500"
+                    >
+                      <PrinterIcon className="h-3.5 w-3.5" />
+                      {rma.label.trackingNumber}
+                    </a>
+                  )}
+                </td>
+                <td className="px-3 py-3 text-sm text-gray-700">
+                  <p>#{rma.orderNumber}</p>
+                  <p className="text-xs text-gray-500">{rma.customerName}</p>
+                </td>
+                <td className="px-3 py-3 text-sm text-gray-700">
+                  <ul className="space-y-1">
+                    {rma.lines.map(line => (
+                      <li key={line.id}>
+                        <span className="font-medium">{line.quantityReceived}/{line.quantity}</span> × {line.variantSku || line.sku}
+                        <span className="block text-xs text-gray-500">
+                          {REASON_LABELS[line.reason] || line.reason}{line.reasonNotes && ` – ${line.reasonNotes}`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </td>
+                <td className="whitespace-nowrap px-3 py-3 text-sm text-gray-700">
+                  {warehouseNames.get(rma.warehouseId) || 'Unknown'}
+                </td>
+                <td className="whitespace-nowrap px-3 py-3 text-sm">
+                  <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${RETURN_STATUS_COLORS[rma.status]}`}>
+                    {RETURN_STATUS_LABELS[rma.status]}
+                  </span>
+                </td>
+                <td className="whitespace-nowrap px-3 py-3 text-sm text-gray-700">
+                  {rma.refunds.length > 0 ? (
+                    <>
+                      {formatCurrency(getTotalRefunded(rma), rma.currency)}
+                      {rma.refunds.some(r => r.syncError) && (
+                        <span className="block text-xs text-red-600">Platform sync failed</span>
+                      )}
+                    </>
+                  ) : '—'}
+                </td>
+                <td className="whitespace-nowrap px-3 py-3 text-sm text-gray-500">
+                  {formatDate(rma.createdAt)}
+                </td>
+                <td className="whitespace-nowrap py-3 pl-3 pr-4 text-right text-sm">
+                  {isReturnOpen(rma) && (
+                    <div className="flex justify-end gap-3">
+                      <button
+                        type="button"
+                        onClick={() => setReceivingReturn(rma)}
+                        className="font-medium text-indigo-600 hover:text-indigo-500"
+                      >
+                        Receive
+                      </button>
+                      {rma.status === 'authorized' && (
+                        <button
+                          type="button"
+                          onClick={() => handleCancel(rma)}
+                          className="font-medium text-gray-500 hover:text-red-600"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {receivingReturn && (
+        <ReceiveReturnModal
+          isOpen={receivingReturn !== null}
+          onClose={() => setReceivingReturn(null)}
+          rma={receivingReturn}
+          warehouse={warehouses.find(w => w.id === receivingReturn.warehouseId)}
+          onReceive={receiveReturn}
+        />
+      )}
+    </div>
+  )
+}
+
+export default withAuth(ReturnsPageContent)
@@ -0,0 +1,101 @@
+// File: app/dashboard/returns/utils/returnUtils.ts
+
+import { OrderItem, OrderWithDetails, calculateItemTotal } from '../../orders/utils/orderTypes'
+import { Warehouse } from '../../warehouses/utils/warehouseTypes'
+import { ReturnAuthorization, ReturnLine, ReturnUnitDisposition } from '@/lib/api/returnApi'
+import { OPEN_RETURN_STATUSES } from '../constants/returnConstants'
+
+/**
+ * Refund per unit for an order line (price - discount + tax)
+ */
+export function getUnitRefund(item: OrderItem): number {
+  if (!item.quantity) return 0
+  return Math.round((calculateItemTotal(item) / item.quantity) * 100) / 100
+}
+
+/**
+ * Units of a line that can still go on an RMA:
+ * shipped units, less units already refunded or on another (non-cancelled) RMA
+ * Refunded RMA units are already in the item's quantityRefunded, so only the
+ * RMA units not yet refunded are subtracted
+ */
+export function getReturnableQuantity(item: OrderItem, existingReturns: ReturnAuthorization[]): number {
+  const onReturns = existingReturns
+    .filter(rma => rma.status !== 'cancelled')
+    .reduce((sum, rma) => sum + rma.lines
+      .filter(line => line.orderItemId === item.id)
+      .reduce((lineSum, line) => lineSum + Math.max(0, line.quantity - line.quantityRefunded), 0), 0)
+
+  return Math.max(0, (item.quantityFulfilled || 0) - (item.quantityRefunded || 0) - onReturns)
+}
+
+export function getReturnableLines(order: OrderWithDetails, existingReturns: ReturnAuthorization[]): OrderItem[] {
+  return order.items.filter(item => getReturnableQuantity(item, existingReturns) > 0)
+}
+
+export function canCreateReturn(order: OrderWithDetails): boolean {
+  return order.items.some(item => (item.quantityFulfilled || 0) > (item.quantityRefunded || 0))
+}
+
+export function isReturnOpen(rma: ReturnAuthorization): boolean {
+  return OPEN_RETURN_STATUSES.includes(rma.status)
+}
+
+/**
+ * Units on a line that haven't been received yet
+ */
+export function getOutstandingQuantity(line: ReturnLine): number {
+  return Math.max(0, line.quantity - line.quantityReceived)
+}
+
+/**
+ * Zones set up to receive returns (Zone.type === 'returns')
+ */
+export function getReturnZones(warehouse: Warehouse | undefined) {
+  return (warehouse?.layout?.zones || []).filter(zone => zone.type === 'returns' && zone.isActive)
+}
+
+/**
+ * Check dispositions before receiving
+ * Returns an error message, or null when the receipt is valid
+ */
+export function validateDispositions(rma: ReturnAuthorization, units: ReturnUnitDisposition[]): string | null {
+  const received = units.filter(unit => unit.quantity > 0)
+  if (received.length === 0) {
+    return 'Enter at least one received unit'
+  }
+
+  for (const line of rma.lines) {
+    const total = received
+      .filter(unit => unit.lineId === line.id)
+      .reduce((sum, unit) => sum + unit.quantity, 0)
+
+    if (total > getOutstandingQuantity(line)) {
+      return `${line.sku}: only ${getOutstandingQuantity(line)} unit(s) left to receive`
+    }
+  }
+
+  const unbinned = received.find(unit => unit.disposition === 'restock' && !unit.binId)
+  if (unbinned) {
+    const line = rma.lines.find(l => l.id === unbinned.lineId)
+    return `${line?.sku || 'Item'}: choose a bin for restocked units`
+  }
+
+  return null
+}
+
+/**
+ * Refund owed for the units in a receipt
+ */
+export function calculateReceiptRefund(rma: ReturnAuthorization, units: ReturnUnitDisposition[]): number {
+  const total = units.reduce((sum, unit) => {
+    const line = rma.lines.find(l => l.id === unit.lineId)
+    return sum + (line ? line.unitRefund * unit.quantity : 0)
+  }, 0)
+
+  return Math.round(total * 100) / 100
+}
+
+export function getTotalRefunded(rma: ReturnAuthorization): number {
+  return rma.refunds.reduce((sum, refund) => sum + refund.amount, 0)
+}
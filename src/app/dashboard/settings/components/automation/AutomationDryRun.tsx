@@ -0,0 +1,125 @@
+//file path: app/dashboard/settings/components/automation/AutomationDryRun.tsx
+'use client'
+
+import { useState } from 'react'
+import { BeakerIcon } from '@heroicons/react/24/outline'
+import { AutomationRule, AutomationTrigger } from '@/lib/api/automationApi'
+import { OrderAPI } from '@/lib/api/orderApi'
+import { Order } from '../../../orders/utils/orderTypes'
+import {
+  AUTOMATION_TRIGGER_LABELS,
+  AutomationLookups,
+  AutomationRuleMatch,
+  describeAutomationAction,
+  describeAutomationOrder,
+  evaluateAutomationRules
+} from '../../../orders/utils/automationRules'
+
+interface AutomationDryRunProps {
+  rules: AutomationRule[]
+  lookups: AutomationLookups
+  description?: string
+}
+
+interface DryRunResult {
+  order: Order
+  matches: AutomationRuleMatch[]
+}
+
+const SAMPLE_SIZES = [25, 50, 100]
+
+/**
+ * Run rules against the most recent orders and show what would change
+ * Nothing is saved - the orders are only read
+ */
+export default function AutomationDryRun({ rules, lookups, description }: AutomationDryRunProps) {
+  const [trigger, setTrigger] = useState<AutomationTrigger>('order_imported')
+  const [sampleSize, setSampleSize] = useState(50)
+  const [running, setRunning] = useState(false)
+  const [results, setResults] = useState<DryRunResult[] | null>(null)
+  const [checkedCount, setCheckedCount] = useState(0)
+
+  const handleRun = async () => {
+    setRunning(true)
+    try {
+      const { orders } = await OrderAPI.queryOrders({
+        sortBy: 'orderDate',
+        sortDirection: 'desc',
+        limit: sampleSize
+      })
+
+      setCheckedCount(orders.length)
+      setResults(orders
+        .map(order => ({ order, matches: evaluateAutomationRules(order, rules, trigger).matches }))
+        .filter(result => result.matches.length > 0))
+    } catch (error) {
+      console.error('[AutomationDryRun] Error running rules:', error)
+      alert('Failed to load recent orders. Please try again.')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const selectClass = 'rounded-md border-gray-300 py-1.5 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500'
+
+  return (
+    <div className="rounded-md border border-gray-200 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-600">
+          {description || 'Preview which rules would run on recent orders. Nothing is changed.'}
+        </p>
+        <div className="flex items-center gap-2">
+          <select value={trigger} onChange={(e) => setTrigger(e.target.value as AutomationTrigger)} className={selectClass}>
+            {(Object.keys(AUTOMATION_TRIGGER_LABELS) as AutomationTrigger[]).map(value => (
+              <option key={value} value={value}>{AUTOMATION_TRIGGER_LABELS[value]}</option>
+            ))}
+          </select>
+          <select value={sampleSize} onChange={(e) => setSampleSize(Number(e.target.value))} className={selectClass}>
+            {SAMPLE_SIZES.map(size => (
+              <option key={size} value={size}>Last {size} orders</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleRun}
+            disabled={running || rules.length === 0}
+            className="inline-flex items-center gap-x-2 rounded-md bg-white px-3 py-1.5 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <BeakerIcon className="h-4 w-4" />
+            {running ? 'Running...' : 'Dry run'}
+          </button>
+        </div>
+      </div>
+
+      {results && (
+        <div className="mt-4">
+          <p className="text-sm font-medium text-gray-900">
+            {results.length} of {checkedCount} recent order(s) would be changed
+          </p>
+          {results.length > 0 && (
+            <ul className="mt-2 max-h-80 divide-y divide-gray-100 overflow-y-auto">
+              {results.map(({ order, matches }) => (
+                <li key={order.id} className="py-2">
+                  <p className="text-sm">
+                    <span className="font-medium text-gray-900">#{order.orderNumber}</span>
+                    <span className="ml-2 text-gray-500">{describeAutomationOrder(order)}</span>
+                  </p>
+                  {matches.map(({ rule, actions }) => (
+                    <div key={rule.id} className="ml-4 mt-1 text-xs">
+                      <span className="font-medium text-purple-700">{rule.name}</span>
+                      <ul className="ml-3 list-disc list-inside text-gray-600">
+                        {actions.map((action, index) => (
+                          <li key={index}>{describeAutomationAction(action, lookups)}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,490 @@
+//file path: app/dashboard/settings/components/automation/AutomationRuleModal.tsx
+'use client'
+
+import { Fragment, useState, useEffect } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import {
+  AutomationRule,
+  AutomationRuleData,
+  AutomationTrigger,
+  AutomationCondition,
+  AutomationConditionField,
+  AutomationConditionOperator,
+  AutomationAction,
+  AutomationActionType
+} from '@/lib/api/automationApi'
+import { ShippingPreset } from '../../../shipping/utils/shippingTypes'
+import { OrderPriority } from '../../../orders/utils/orderTypes'
+import { FILTER_OPTIONS, ORDER_PRIORITY_OPTIONS } from '../../../orders/constants/orderConstants'
+import {
+  AUTOMATION_CONDITION_FIELDS,
+  AUTOMATION_OPERATOR_LABELS,
+  AUTOMATION_TRIGGER_LABELS,
+  AUTOMATION_ACTION_LABELS,
+  AutomationLookups,
+  splitAutomationValues,
+  validateAutomationRule
+} from '../../../orders/utils/automationRules'
+import AutomationDryRun from './AutomationDryRun'
+
+interface AutomationRuleModalProps {
+  isOpen: boolean
+  rule: AutomationRule | null                    // null for a new rule
+  onClose: () => void
+  onSave: (data: AutomationRuleData) => Promise<void>
+  stores: { id: string; storeName?: string }[]
+  warehouses: { id: string; name: string }[]
+  fulfillmentStatuses: { code: string; label: string }[]
+  presetsByWarehouse: Record<string, ShippingPreset[]>
+  onLoadPresets: (warehouseId: string) => void
+}
+
+const EMPTY_RULE: AutomationRuleData = {
+  name: '',
+  enabled: true,
+  triggers: ['order_imported'],
+  match: 'all',
+  conditions: [],
+  actions: [],
+  stopProcessing: false
+}
+
+function createAction(type: AutomationActionType): AutomationAction {
+  switch (type) {
+    case 'set_fulfillment_status': return { type, status: '' }
+    case 'assign_warehouse': return { type, warehouseId: '' }
+    case 'add_tags': return { type, tags: [] }
+    case 'apply_shipping_preset': return { type, warehouseId: '', presetId: '' }
+    case 'hold': return { type, reason: '' }
+    case 'set_priority': return { type, priority: 'high' }
+    case 'add_note': return { type, note: '' }
+  }
+}
+
+const inputClass = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm'
+
+export default function AutomationRuleModal({
+  isOpen,
+  rule,
+  onClose,
+  onSave,
+  stores,
+  warehouses,
+  fulfillmentStatuses,
+  presetsByWarehouse,
+  onLoadPresets
+}: AutomationRuleModalProps) {
+  const [draft, setDraft] = useState<AutomationRuleData>(EMPTY_RULE)
+  const [errors, setErrors] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setDraft(rule ? {
+      name: rule.name,
+      enabled: rule.enabled,
+      triggers: rule.triggers,
+      match: rule.match,
+      conditions: rule.conditions,
+      actions: rule.actions,
+      stopProcessing: rule.stopProcessing
+    } : EMPTY_RULE)
+    setErrors([])
+  }, [isOpen, rule])
+
+  const lookups: AutomationLookups = {
+    stores,
+    warehouses,
+    fulfillmentStatuses,
+    presets: Object.values(presetsByWarehouse).flat()
+  }
+
+  // The rule as it stands, for the dry run
+  const draftRule: AutomationRule = {
+    ...draft,
+    id: rule?.id || 'draft',
+    position: 0,
+    enabled: true,
+    stopProcessing: false,
+    createdAt: rule?.createdAt || '',
+    updatedAt: rule?.updatedAt || ''
+  }
+
+  const update = (updates: Partial<AutomationRuleData>) => setDraft(prev => ({ ...prev, ...updates }))
+
+  const toggleTrigger = (trigger: AutomationTrigger, checked: boolean) => {
+    update({
+      triggers: checked ? [...draft.triggers, trigger] : draft.triggers.filter(t => t !== trigger)
+    })
+  }
+
+  const updateCondition = (index: number, updates: Partial<AutomationCondition>) => {
+    update({ conditions: draft.conditions.map((c, i) => i === index ? { ...c, ...updates } : c) })
+  }
+
+  const changeConditionField = (index: number, field: AutomationConditionField) => {
+    updateCondition(index, { field, operator: AUTOMATION_CONDITION_FIELDS[field].operators[0], value: '' })
+  }
+
+  const updateAction = (index: number, action: AutomationAction) => {
+    update({ actions: draft.actions.map((a, i) => i === index ? action : a) })
+  }
+
+  const handleSave = async () => {
+    const validationErrors = validateAutomationRule(draft)
+    setErrors(validationErrors)
+    if (validationErrors.length > 0) return
+
+    setSaving(true)
+    try {
+      await onSave({ ...draft, name: draft.name.trim() })
+      onClose()
+    } catch (error: any) {
+      console.error('[AutomationRuleModal] Error saving rule:', error)
+      setErrors([error.message || 'Failed to save rule'])
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const renderConditionValue = (condition: AutomationCondition, index: number) => {
+    const options = condition.field === 'store'
+      ? stores.map(store => ({ value: store.id, label: store.storeName || store.id }))
+      : condition.field === 'platform'
+        ? FILTER_OPTIONS.PLATFORM
+        : null
+
+    if (!options) {
+      return (
+        <input
+          type={AUTOMATION_CONDITION_FIELDS[condition.field].type === 'number' ? 'number' : 'text'}
+          value={condition.value}
+          onChange={(e) => updateCondition(index, { value: e.target.value })}
+          placeholder={AUTOMATION_CONDITION_FIELDS[condition.field].placeholder}
+          className={inputClass}
+        />
+      )
+    }
+
+    const selected = splitAutomationValues(condition.value)
+    return (
+      <div className="flex flex-wrap gap-1.5">
+        {options.map(option => {
+          const isSelected = selected.includes(option.value)
+          return (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => updateCondition(index, {
+                value: (isSelected ? selected.filter(v => v !== option.value) : [...selected, option.value]).join(',')
+              })}
+              className={`rounded-full px-2.5 py-1 text-xs font-medium ring-1 ring-inset ${
+                isSelected ? 'bg-indigo-50 text-indigo-700 ring-indigo-300' : 'bg-white text-gray-600 ring-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          )
+        })}
+      </div>
+    )
+  }
+
+  const renderActionFields = (action: AutomationAction, index: number) => {
+    switch (action.type) {
+      case 'set_fulfillment_status':
+        return (
+          <select value={action.status} onChange={(e) => updateAction(index, { ...action, status: e.target.value })} className={inputClass}>
+            <option value="">Select a status...</option>
+            {fulfillmentStatuses.map(status => (
+              <option key={status.code} value={status.code}>{status.label}</option>
+            ))}
+          </select>
+        )
+
+      case 'assign_warehouse':
+        return (
+          <select value={action.warehouseId} onChange={(e) => updateAction(index, { ...action, warehouseId: e.target.value })} className={inputClass}>
+            <option value="">Select a warehouse...</option>
+            {warehouses.map(warehouse => (
+              <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+            ))}
+          </select>
+        )
+
+      case 'add_tags':
+        return (
+          <input
+            type="text"
+            defaultValue={action.tags.join(', ')}
+            onChange={(e) => updateAction(index, { ...action, tags: splitAutomationValues(e.target.value) })}
+            placeholder="wholesale, gift"
+            className={inputClass}
+          />
+        )
+
+      case 'apply_shipping_preset':
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={action.warehouseId}
+              onChange={(e) => {
+                updateAction(index, { ...action, warehouseId: e.target.value, presetId: '' })
+                if (e.target.value) onLoadPresets(e.target.value)
+              }}
+              className={inputClass}
+            >
+              <option value="">Select a warehouse...</option>
+              {warehouses.map(warehouse => (
+                <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+              ))}
+            </select>
+            <select
+              value={action.presetId}
+              onChange={(e) => updateAction(index, { ...action, presetId: e.target.value })}
+              disabled={!action.warehouseId}
+              className={inputClass}
+            >
+              <option value="">Select a preset...</option>
+              {(presetsByWarehouse[action.warehouseId] || []).map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}{!preset.isActive && ' (inactive)'}</option>
+              ))}
+            </select>
+          </div>
+        )
+
+      case 'hold':
+        return (
+          <input
+            type="text"
+            value={action.reason}
+            onChange={(e) => updateAction(index, { ...action, reason: e.target.value })}
+            placeholder="Reason shown on the order"
+            className={inputClass}
+          />
+        )
+
+      case 'set_priority':
+        return (
+          <select
+            value={action.priority}
+            onChange={(e) => updateAction(index, { ...action, priority: e.target.value as OrderPriority })}
+            className={inputClass}
+          >
+            {ORDER_PRIORITY_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        )
+
+      case 'add_note':
+        return (
+          <textarea
+            rows={2}
+            value={action.note}
+            onChange={(e) => updateAction(index, { ...action, note: e.target.value })}
+            placeholder="Added to the order's internal notes"
+            className={inputClass}
+          />
+        )
+    }
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75" />
+        <div className="fixed inset-0 z-10 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Dialog.Panel className="w-full max-w-3xl rounded-lg bg-white p-6 shadow-xl">
+              <Dialog.Title className="text-lg font-medium text-gray-900">
+                {rule ? 'Edit rule' : 'New automation rule'}
+              </Dialog.Title>
+
+              <div className="mt-4 space-y-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Name</label>
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => update({ name: e.target.value })}
+                    placeholder="e.g. Wholesale orders ship from NJ"
+                    className={`mt-1 ${inputClass}`}
+                  />
+                </div>
+
+                {/* When */}
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900">When</h4>
+                  <div className="mt-2 flex gap-6">
+                    {(Object.keys(AUTOMATION_TRIGGER_LABELS) as AutomationTrigger[]).map(trigger => (
+                      <label key={trigger} className="flex items-center">
+                        <input
+                          type="checkbox"
+                          checked={draft.triggers.includes(trigger)}
+                          onChange={(e) => toggleTrigger(trigger, e.target.checked)}
+                          className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                        />
+                        <span className="ml-2 text-sm text-gray-700">{AUTOMATION_TRIGGER_LABELS[trigger]}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                {/* If */}
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h4 className="text-sm font-medium text-gray-900">If</h4>
+                    {draft.conditions.length > 1 && (
+                      <select
+                        value={draft.match}
+                        onChange={(e) => update({ match: e.target.value as AutomationRuleData['match'] })}
+                        className="rounded-md border-gray-300 py-1 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                      >
+                        <option value="all">all conditions match</option>
+                        <option value="any">any condition matches</option>
+                      </select>
+                    )}
+                  </div>
+                  {draft.conditions.length === 0 && (
+                    <p className="mt-1 text-sm text-gray-500">No conditions - the rule runs on every order.</p>
+                  )}
+                  <div className="mt-2 space-y-2">
+                    {draft.conditions.map((condition, index) => (
+                      <div key={index} className="flex items-start gap-2">
+                        <select
+                          value={condition.field}
+                          onChange={(e) => changeConditionField(index, e.target.value as AutomationConditionField)}
+                          className="w-48 flex-shrink-0 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        >
+                          {(Object.keys(AUTOMATION_CONDITION_FIELDS) as AutomationConditionField[]).map(field => (
+                            <option key={field} value={field}>{AUTOMATION_CONDITION_FIELDS[field].label}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={condition.operator}
+                          onChange={(e) => updateCondition(index, { operator: e.target.value as AutomationConditionOperator })}
+                          className="w-40 flex-shrink-0 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        >
+                          {AUTOMATION_CONDITION_FIELDS[condition.field].operators.map(operator => (
+                            <option key={operator} value={operator}>{AUTOMATION_OPERATOR_LABELS[operator]}</option>
+                          ))}
+                        </select>
+                        <div className="flex-1">{renderConditionValue(condition, index)}</div>
+                        <button
+                          type="button"
+                          onClick={() => update({ conditions: draft.conditions.filter((_, i) => i !== index) })}
+                          className="p-2 text-gray-400 hover:text-red-600"
+                          title="Remove condition"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => update({
+                      conditions: [...draft.conditions, { field: 'store', operator: 'is_any_of', value: '' }]
+                    })}
+                    className="mt-2 inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-500"
+                  >
+                    <PlusIcon className="h-4 w-4 mr-1" />
+                    Add condition
+                  </button>
+                </div>
+
+                {/* Then */}
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900">Then</h4>
+                  <div className="mt-2 space-y-2">
+                    {draft.actions.map((action, index) => (
+                      <div key={`${index}-${action.type}`} className="flex items-start gap-2">
+                        <select
+                          value={action.type}
+                          onChange={(e) => updateAction(index, createAction(e.target.value as AutomationActionType))}
+                          className="w-48 flex-shrink-0 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        >
+                          {(Object.keys(AUTOMATION_ACTION_LABELS) as AutomationActionType[]).map(type => (
+                            <option key={type} value={type}>{AUTOMATION_ACTION_LABELS[type]}</option>
+                          ))}
+                        </select>
+                        <div className="flex-1">{renderActionFields(action, index)}</div>
+                        <button
+                          type="button"
+                          onClick={() => update({ actions: draft.actions.filter((_, i) => i !== index) })}
+                          className="p-2 text-gray-400 hover:text-red-600"
+                          title="Remove action"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => update({ actions: [...draft.actions, createAction('add_tags')] })}
+                    className="mt-2 inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-500"
+                  >
+                    <PlusIcon className="h-4 w-4 mr-1" />
+                    Add action
+                  </button>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={draft.stopProcessing}
+                      onChange={(e) => update({ stopProcessing: e.target.checked })}
+                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">Don&apos;t run later rules when this one matches</span>
+                  </label>
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={draft.enabled}
+                      onChange={(e) => update({ enabled: e.target.checked })}
+                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">Enabled</span>
+                  </label>
+                </div>
+
+                <AutomationDryRun
+                  rules={[draftRule]}
+                  lookups={lookups}
+                  description="Try this rule on its own against recent orders before saving."
+                />
+
+                {errors.length > 0 && (
+                  <ul className="rounded-md bg-red-50 p-3 text-sm text-red-700 list-disc list-inside">
+                    {errors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                )}
+              </div>
+
+              <div className="mt-6 flex justify-end gap-3">
+                <button
+                  onClick={onClose}
+                  className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Rule'}
+                </button>
+              </div>
+            </Dialog.Panel>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
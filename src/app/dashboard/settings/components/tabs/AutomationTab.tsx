@@ -0,0 +1,234 @@
+//file path: app/dashboard/settings/components/tabs/AutomationTab.tsx
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  ChevronUpIcon,
+  ChevronDownIcon,
+  BoltIcon
+} from '@heroicons/react/24/outline'
+import { AutomationRule, AutomationRuleData } from '@/lib/api/automationApi'
+import { IntegrationAPI } from '@/lib/api/integrationApi'
+import { ShippingPreset } from '../../../shipping/utils/shippingTypes'
+import {
+  AUTOMATION_TRIGGER_LABELS,
+  AutomationLookups,
+  describeAutomationAction,
+  describeAutomationCondition
+} from '../../../orders/utils/automationRules'
+import { useAutomationRules } from '../../hooks/useAutomationRules'
+import { useFulfillmentStatuses } from '../../hooks/useFulfillmentStatuses'
+import { useWarehouses } from '../../../warehouses/hooks/useWarehouses'
+import { useStores } from '../../../stores/hooks/useStores'
+import AutomationRuleModal from '../automation/AutomationRuleModal'
+import AutomationDryRun from '../automation/AutomationDryRun'
+
+export default function AutomationTab() {
+  const { rules, loading, createRule, updateRule, deleteRule, moveRule } = useAutomationRules()
+  const { statuses: fulfillmentStatuses } = useFulfillmentStatuses()
+  const { warehouses } = useWarehouses()
+  const { stores } = useStores()
+
+  const [presetsByWarehouse, setPresetsByWarehouse] = useState<Record<string, ShippingPreset[]>>({})
+  const [editingRule, setEditingRule] = useState<AutomationRule | null>(null)
+  const [showEditor, setShowEditor] = useState(false)
+  const requestedPresets = useRef(new Set<string>())
+
+  const loadPresets = useCallback((warehouseId: string) => {
+    if (requestedPresets.current.has(warehouseId)) return
+    requestedPresets.current.add(warehouseId)
+
+    IntegrationAPI.getWarehousePresets(warehouseId)
+      .then(presets => setPresetsByWarehouse(prev => ({ ...prev, [warehouseId]: presets })))
+      .catch(error => {
+        console.error('[AutomationTab] Error loading shipping presets:', error)
+        requestedPresets.current.delete(warehouseId)
+      })
+  }, [])
+
+  // Preset names for rules that apply one
+  useEffect(() => {
+    rules.forEach(rule => rule.actions.forEach(action => {
+      if (action.type === 'apply_shipping_preset' && action.warehouseId) loadPresets(action.warehouseId)
+    }))
+  }, [rules, loadPresets])
+
+  const lookups: AutomationLookups = {
+    stores,
+    warehouses,
+    fulfillmentStatuses,
+    presets: Object.values(presetsByWarehouse).flat()
+  }
+
+  const openEditor = (rule: AutomationRule | null) => {
+    setEditingRule(rule)
+    setShowEditor(true)
+  }
+
+  const handleSave = async (data: AutomationRuleData) => {
+    if (editingRule) {
+      await updateRule(editingRule.id, data)
+    } else {
+      await createRule(data)
+    }
+  }
+
+  const handleToggle = async (rule: AutomationRule) => {
+    try {
+      await updateRule(rule.id, { enabled: !rule.enabled })
+    } catch (error) {
+      console.error('[AutomationTab] Error updating rule:', error)
+      alert('Failed to update rule. Please try again.')
+    }
+  }
+
+  const handleMove = async (rule: AutomationRule, direction: -1 | 1) => {
+    try {
+      await moveRule(rule.id, direction)
+    } catch {
+      alert('Failed to reorder rules. Please try again.')
+    }
+  }
+
+  const handleDelete = async (rule: AutomationRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return
+
+    try {
+      await deleteRule(rule.id)
+    } catch (error) {
+      console.error('[AutomationTab] Error deleting rule:', error)
+      alert('Failed to delete rule. Please try again.')
+    }
+  }
+
+  return (
+    <div className="space-y-6 max-w-4xl">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Automation Rules</h3>
+          <p className="mt-1 text-sm text-gray-600">
+            When an order is imported or updated, rules run from top to bottom and each matching rule&apos;s actions
+            are applied. Later rules see the changes made by earlier ones. Every run is recorded in the order&apos;s activity.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => openEditor(null)}
+          className="inline-flex flex-shrink-0 items-center gap-x-2 rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+        >
+          <PlusIcon className="h-4 w-4" />
+          New Rule
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading rules...</p>
+      ) : rules.length === 0 ? (
+        <div className="rounded-md border-2 border-dashed border-gray-200 p-8 text-center">
+          <BoltIcon className="mx-auto h-8 w-8 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500">
+            No rules yet. Rules can tag, hold, prioritise or route orders to a warehouse as they come in.
+          </p>
+        </div>
+      ) : (
+        <ol className="divide-y divide-gray-200 rounded-md border border-gray-200">
+          {rules.map((rule, index) => (
+            <li key={rule.id} className={`flex items-start gap-4 p-4 ${rule.enabled ? '' : 'bg-gray-50'}`}>
+              <div className="flex flex-col">
+                <button
+                  type="button"
+                  onClick={() => handleMove(rule, -1)}
+                  disabled={index === 0}
+                  className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                  title="Run earlier"
+                >
+                  <ChevronUpIcon className="h-4 w-4" />
+                </button>
+                <span className="text-center text-xs text-gray-500">{index + 1}</span>
+                <button
+                  type="button"
+                  onClick={() => handleMove(rule, 1)}
+                  disabled={index === rules.length - 1}
+                  className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                  title="Run later"
+                >
+                  <ChevronDownIcon className="h-4 w-4" />
+                </button>
+              </div>
+
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={`text-sm font-medium ${rule.enabled ? 'text-gray-900' : 'text-gray-500'}`}>{rule.name}</span>
+                  {rule.triggers.map(trigger => (
+                    <span key={trigger} className="inline-flex rounded-full bg-purple-50 px-2 py-0.5 text-xs text-purple-700">
+                      {AUTOMATION_TRIGGER_LABELS[trigger]}
+                    </span>
+                  ))}
+                  {rule.stopProcessing && (
+                    <span className="inline-flex rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">Stops later rules</span>
+                  )}
+                </div>
+                <p className="mt-1 text-xs text-gray-600">
+                  <span className="font-medium">If </span>
+                  {rule.conditions.length === 0
+                    ? 'any order'
+                    : rule.conditions.map(c => describeAutomationCondition(c, lookups)).join(rule.match === 'any' ? ' or ' : ' and ')}
+                </p>
+                <p className="text-xs text-gray-600">
+                  <span className="font-medium">Then </span>
+                  {rule.actions.map(a => describeAutomationAction(a, lookups)).join('; ')}
+                </p>
+                {rule.lastRunAt && (
+                  <p className="mt-1 text-xs text-gray-400">
+                    Ran {rule.runCount ?? 0} time(s), last {new Date(rule.lastRunAt).toLocaleString()}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex flex-shrink-0 items-center gap-3">
+                <label className="flex items-center text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={() => handleToggle(rule)}
+                    className="mr-1.5 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                  />
+                  Enabled
+                </label>
+                <button type="button" onClick={() => openEditor(rule)} className="text-gray-400 hover:text-indigo-600" title="Edit">
+                  <PencilIcon className="h-4 w-4" />
+                </button>
+                <button type="button" onClick={() => handleDelete(rule)} className="text-gray-400 hover:text-red-600" title="Delete">
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {rules.length > 0 && (
+        <AutomationDryRun
+          rules={rules}
+          lookups={lookups}
+          description="Preview what the enabled rules, in this order, would do to recent orders. Nothing is changed."
+        />
+      )}
+
+      <AutomationRuleModal
+        isOpen={showEditor}
+        rule={editingRule}
+        onClose={() => setShowEditor(false)}
+        onSave={handleSave}
+        stores={stores}
+        warehouses={warehouses}
+        fulfillmentStatuses={fulfillmentStatuses}
+        presetsByWarehouse={presetsByWarehouse}
+        onLoadPresets={loadPresets}
+      />
+    </div>
+  )
+}
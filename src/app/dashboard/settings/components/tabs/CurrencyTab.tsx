@@ -0,0 +1,317 @@
+//file path: app/dashboard/settings/components/tabs/CurrencyTab.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ArrowUpTrayIcon, ArrowPathIcon, TrashIcon, PlusIcon } from '@heroicons/react/24/outline'
+import { CurrencyAPI, ExchangeRateData } from '@/lib/api/currencyApi'
+import { useCurrency } from '../../../shared/context/CurrencyContext'
+import { useExchangeRates } from '../../hooks/useExchangeRates'
+import CurrencyDisplayToggle from '../../../shared/components/CurrencyDisplayToggle'
+import { CURRENCY_OPTIONS, parseExchangeRateCsv, validateExchangeRate } from '../../../shared/utils/currency'
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+export default function CurrencyTab() {
+  const { baseCurrency, updateBaseCurrency, loading: currencyLoading } = useCurrency()
+  const [currencyFilter, setCurrencyFilter] = useState('')
+  const { rates, loading, saveRate, deleteRate, importRates, refresh } = useExchangeRates(currencyFilter || undefined)
+
+  const [selectedBase, setSelectedBase] = useState(baseCurrency)
+  const [newRate, setNewRate] = useState<ExchangeRateData>({ currency: 'EUR', date: today(), rate: 0 })
+  const [rateError, setRateError] = useState('')
+  const [csvText, setCsvText] = useState('')
+  const [importErrors, setImportErrors] = useState<string[]>([])
+  const [busy, setBusy] = useState<'base' | 'rate' | 'import' | 'apply' | null>(null)
+
+  useEffect(() => {
+    setSelectedBase(baseCurrency)
+  }, [baseCurrency])
+
+  const foreignCurrencies = CURRENCY_OPTIONS.filter(code => code !== baseCurrency)
+
+  const handleSaveBase = async () => {
+    if (!confirm(
+      `Change the base currency to ${selectedBase}? Orders keep the ${baseCurrency} totals they were converted to; ` +
+      `new orders need ${selectedBase} rates.`
+    )) return
+
+    setBusy('base')
+    try {
+      await updateBaseCurrency(selectedBase)
+      await refresh()
+    } catch (error) {
+      console.error('[CurrencyTab] Error saving base currency:', error)
+      alert('Failed to change the base currency. Please try again.')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleAddRate = async () => {
+    const validationError = validateExchangeRate(newRate, baseCurrency)
+    if (validationError) {
+      setRateError(validationError)
+      return
+    }
+
+    setBusy('rate')
+    try {
+      await saveRate(newRate)
+      setNewRate({ ...newRate, rate: 0 })
+      setRateError('')
+    } catch (error) {
+      console.error('[CurrencyTab] Error saving rate:', error)
+      alert('Failed to save rate. Please try again.')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleDeleteRate = async (rateId: string) => {
+    if (!confirm('Delete this rate? Orders already converted with it keep their totals.')) return
+
+    try {
+      await deleteRate(rateId)
+    } catch (error) {
+      console.error('[CurrencyTab] Error deleting rate:', error)
+      alert('Failed to delete rate. Please try again.')
+    }
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setCsvText(await file.text())
+  }
+
+  const handleImport = async () => {
+    const { rates: parsed, errors } = parseExchangeRateCsv(csvText, baseCurrency)
+    setImportErrors(errors)
+    if (parsed.length === 0) {
+      if (errors.length === 0) alert('No rates found. Use one "date,currency,rate" row per line.')
+      return
+    }
+    if (errors.length > 0 && !confirm(`${errors.length} line(s) have problems and will be skipped. Import the other ${parsed.length}?`)) return
+
+    setBusy('import')
+    try {
+      const result = await importRates(parsed)
+      setCsvText('')
+      alert(`Imported ${result.imported} new rate(s), updated ${result.updated}.`)
+    } catch (error) {
+      console.error('[CurrencyTab] Error importing rates:', error)
+      alert('Failed to import rates. Please try again.')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleApplyToOrders = async () => {
+    setBusy('apply')
+    try {
+      const result = await CurrencyAPI.applyRatesToOrders()
+      alert(
+        `Converted ${result.updated} order(s).` +
+        (result.stillMissing > 0 ? ` ${result.stillMissing} still have no rate on or before their order date.` : '')
+      )
+    } catch (error) {
+      console.error('[CurrencyTab] Error converting orders:', error)
+      alert('Failed to convert orders. Please try again.')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const inputClass = 'rounded-md border-gray-300 py-1.5 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500'
+  const secondaryButtonClass = 'inline-flex items-center gap-x-2 rounded-md bg-white px-3 py-1.5 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50'
+
+  return (
+    <div className="space-y-8 max-w-4xl">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">Currency</h3>
+        <p className="mt-1 text-sm text-gray-600">
+          Each order is converted to the base currency with the latest rate on or before its order date, and that
+          amount is kept even if rates change later. Totals across orders, customer lifetime value and order value holds use it.
+        </p>
+      </div>
+
+      {/* Base currency and display */}
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Base currency</label>
+          <div className="flex items-center gap-2">
+            <select
+              value={selectedBase}
+              onChange={(e) => setSelectedBase(e.target.value)}
+              disabled={currencyLoading}
+              className={inputClass}
+            >
+              {CURRENCY_OPTIONS.map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+            {selectedBase !== baseCurrency && (
+              <button
+                type="button"
+                onClick={handleSaveBase}
+                disabled={busy !== null}
+                className="rounded-md bg-indigo-600 px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+              >
+                {busy === 'base' ? 'Saving...' : 'Save'}
+              </button>
+            )}
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Show order amounts in</label>
+          <CurrencyDisplayToggle />
+          <p className="mt-1 text-xs text-gray-500">Your choice only - other users pick their own.</p>
+        </div>
+      </div>
+
+      {/* Add a rate */}
+      <div className="rounded-md border border-gray-200 p-4">
+        <h4 className="text-sm font-medium text-gray-900 mb-3">Add a rate</h4>
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+          <input
+            type="date"
+            value={newRate.date}
+            onChange={(e) => setNewRate({ ...newRate, date: e.target.value })}
+            className={inputClass}
+          />
+          <span>1</span>
+          <select
+            value={newRate.currency}
+            onChange={(e) => setNewRate({ ...newRate, currency: e.target.value })}
+            className={inputClass}
+          >
+            {foreignCurrencies.map(code => (
+              <option key={code} value={code}>{code}</option>
+            ))}
+          </select>
+          <span>=</span>
+          <input
+            type="number"
+            min={0}
+            step="0.000001"
+            value={newRate.rate || ''}
+            onChange={(e) => setNewRate({ ...newRate, rate: Number(e.target.value) })}
+            className={`${inputClass} w-32`}
+            placeholder="1.08"
+          />
+          <span>{baseCurrency}</span>
+          <button
+            type="button"
+            onClick={handleAddRate}
+            disabled={busy !== null}
+            className="inline-flex items-center gap-x-1 rounded-md bg-indigo-600 px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+          >
+            <PlusIcon className="h-4 w-4" />
+            {busy === 'rate' ? 'Saving...' : 'Add'}
+          </button>
+        </div>
+        {rateError && <p className="mt-2 text-sm text-red-600">{rateError}</p>}
+      </div>
+
+      {/* Import */}
+      <div className="rounded-md border border-gray-200 p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-gray-900">Import rates</h4>
+          <label className={`${secondaryButtonClass} cursor-pointer`}>
+            <ArrowUpTrayIcon className="h-4 w-4" />
+            Choose CSV
+            <input type="file" accept=".csv,text/csv,text/plain" className="sr-only" onChange={(e) => handleFile(e.target.files?.[0])} />
+          </label>
+        </div>
+        <textarea
+          value={csvText}
+          onChange={(e) => setCsvText(e.target.value)}
+          rows={4}
+          className="block w-full rounded-md border-gray-300 font-mono text-xs shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+          placeholder={`date,currency,rate\n2026-10-01,EUR,1.08\n2026-10-01,GBP,1.27`}
+        />
+        <p className="text-xs text-gray-500">
+          One row per line: date (YYYY-MM-DD), currency code, and how many {baseCurrency} one unit is worth. A rate for a
+          currency and date already on file is replaced.
+        </p>
+        {importErrors.length > 0 && (
+          <ul className="max-h-24 overflow-y-auto text-xs text-red-600">
+            {importErrors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={busy !== null || !csvText.trim()}
+            className="rounded-md bg-indigo-600 px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+          >
+            {busy === 'import' ? 'Importing...' : 'Import'}
+          </button>
+        </div>
+      </div>
+
+      {/* Rate table */}
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+          <div className="flex items-center gap-2">
+            <h4 className="text-sm font-medium text-gray-900">Rates</h4>
+            <select value={currencyFilter} onChange={(e) => setCurrencyFilter(e.target.value)} className={inputClass}>
+              <option value="">All currencies</option>
+              {foreignCurrencies.map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </div>
+          <button type="button" onClick={handleApplyToOrders} disabled={busy !== null} className={secondaryButtonClass}>
+            <ArrowPathIcon className="h-4 w-4" />
+            {busy === 'apply' ? 'Converting...' : 'Convert orders missing a rate'}
+          </button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading rates...</p>
+        ) : rates.length === 0 ? (
+          <p className="rounded-md border-2 border-dashed border-gray-200 p-6 text-center text-sm text-gray-500">
+            No rates yet. Orders in other currencies show their original amounts until a rate for their date is added.
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto rounded-md border border-gray-200">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium uppercase text-gray-500">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium uppercase text-gray-500">Currency</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium uppercase text-gray-500">Rate</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium uppercase text-gray-500">Source</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 bg-white">
+                {rates.map(rate => (
+                  <tr key={rate.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900">{rate.date}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{rate.currency}</td>
+                    <td className="px-4 py-2 text-right text-sm font-mono text-gray-900">
+                      {rate.rate} {rate.baseCurrency}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{rate.source === 'import' ? 'Imported' : 'Manual'}</td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteRate(rate.id)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Delete"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,189 @@
+//file path: app/dashboard/settings/components/tabs/HoldRulesTab.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { HandRaisedIcon, InformationCircleIcon } from '@heroicons/react/24/outline'
+import { HoldRuleSettings } from '../../types'
+import { HoldRuleType } from '../../../orders/utils/orderTypes'
+import { evaluateHoldRules } from '../../../orders/utils/holdRules'
+import { fetchAllOrders, orderKeys } from '../../../orders/utils/orderQuery'
+import { getOpenFulfillmentStatusCodes } from '../../../orders/utils/orderConstants'
+import { useFulfillmentStatuses } from '../../hooks/useFulfillmentStatuses'
+import { useWarehouses } from '../../../warehouses/hooks/useWarehouses'
+import { useCurrency } from '../../../shared/context/CurrencyContext'
+import { OrderAPI } from '@/lib/api/orderApi'
+
+interface HoldRulesTabProps {
+  settings: HoldRuleSettings
+  onChange: (updates: Partial<HoldRuleSettings>) => void
+}
+
+export default function HoldRulesTab({ settings, onChange }: HoldRulesTabProps) {
+  const queryClient = useQueryClient()
+  const { statuses: fulfillmentStatuses } = useFulfillmentStatuses()
+  const { warehouses } = useWarehouses()
+  const { baseCurrency } = useCurrency()
+  const [carriersInput, setCarriersInput] = useState(settings.poBox.carriers.join(', '))
+  const [checking, setChecking] = useState(false)
+
+  // Keep the free-text carriers field in step with resets
+  useEffect(() => {
+    setCarriersInput(settings.poBox.carriers.join(', '))
+  }, [settings.poBox.carriers])
+
+  // Apply the rules as shown to orders already waiting to ship
+  const handleCheckOpenOrders = async () => {
+    setChecking(true)
+    try {
+      const { orders } = await fetchAllOrders({
+        fulfillmentStatus: getOpenFulfillmentStatusCodes(fulfillmentStatuses)
+      })
+
+      // Each order is held with its own reasons - orders with identical reasons share a request
+      const holds = new Map<string, { ruleType: HoldRuleType; reason: string; orderIds: string[] }>()
+      orders
+        .filter(order => !order.hold)
+        .forEach(order => {
+          const warehouse = warehouses.find(w => w.id === order.warehouseId)
+          const matches = evaluateHoldRules(order, settings, warehouse?.address.countryCode, baseCurrency)
+          if (matches.length === 0) return
+
+          const reason = matches.map(match => match.reason).join('; ')
+          const key = `${matches[0].ruleType}:${reason}`
+          const hold = holds.get(key) || { ruleType: matches[0].ruleType, reason, orderIds: [] }
+          holds.set(key, { ...hold, orderIds: [...hold.orderIds, order.id] })
+        })
+
+      let heldCount = 0
+      for (const { ruleType, reason, orderIds } of Array.from(holds.values())) {
+        await OrderAPI.holdOrders(orderIds, reason, { ruleType })
+        heldCount += orderIds.length
+      }
+
+      await queryClient.invalidateQueries({ queryKey: orderKeys.all })
+      alert(heldCount > 0
+        ? `Put ${heldCount} of ${orders.length} open order(s) on hold`
+        : `None of the ${orders.length} open order(s) match the hold rules`)
+    } catch (error) {
+      console.error('[HoldRulesTab] Error checking open orders:', error)
+      alert('Failed to check open orders. Please try again.')
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const ruleToggle = (
+    key: keyof HoldRuleSettings,
+    title: string,
+    description: string,
+    children?: React.ReactNode
+  ) => (
+    <div className="border-b border-gray-200 pb-6">
+      <label className="flex items-start">
+        <input
+          type="checkbox"
+          checked={settings[key].enabled}
+          onChange={(e) => onChange({ [key]: { ...settings[key], enabled: e.target.checked } })}
+          className="mt-0.5 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+        />
+        <span className="ml-3">
+          <span className="block text-sm font-medium text-gray-900">{title}</span>
+          <span className="block text-sm text-gray-500">{description}</span>
+        </span>
+      </label>
+      {children && settings[key].enabled && <div className="ml-7 mt-3">{children}</div>}
+    </div>
+  )
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">Hold Rules</h3>
+        <p className="mt-1 text-sm text-gray-600">
+          Orders matching a rule are put on hold when they&apos;re imported. Held orders stay out of picking lists,
+          &quot;orders to ship&quot; counts and label creation until someone releases them.
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        {ruleToggle(
+          'orderValue',
+          'High order value',
+          `Hold orders whose total is above a threshold (in ${baseCurrency}, using the order's exchange rate).`,
+          <div className="flex items-center gap-2">
+            <label className="text-sm text-gray-700">Threshold ({baseCurrency})</label>
+            <input
+              type="number"
+              min={0}
+              step="1"
+              value={settings.orderValue.threshold}
+              onChange={(e) => onChange({
+                orderValue: { ...settings.orderValue, threshold: Math.max(0, Number(e.target.value) || 0) }
+              })}
+              className="block w-32 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+        )}
+
+        {ruleToggle(
+          'countryMismatch',
+          'Billing / shipping country mismatch',
+          'Hold orders billed in one country and shipped to another.'
+        )}
+
+        {ruleToggle(
+          'poBox',
+          'PO box with a carrier that can\'t deliver there',
+          'Hold orders shipping to a PO box when the requested shipping method uses one of these carriers.',
+          <div>
+            <input
+              type="text"
+              value={carriersInput}
+              onChange={(e) => setCarriersInput(e.target.value)}
+              onBlur={() => onChange({
+                poBox: {
+                  ...settings.poBox,
+                  carriers: carriersInput.split(',').map(c => c.trim()).filter(Boolean)
+                }
+              })}
+              placeholder="UPS, FedEx, DHL"
+              className="block w-full max-w-md rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">Comma-separated, matched against the order&apos;s shipping method</p>
+          </div>
+        )}
+
+        {ruleToggle(
+          'missingPhoneInternational',
+          'International order missing phone',
+          'Hold orders shipping outside the warehouse\'s country without a phone number (needed for customs).'
+        )}
+
+        {ruleToggle(
+          'addressValidationFailed',
+          'Address failed validation',
+          'Hold orders whose shipping address couldn\'t be validated.'
+        )}
+
+        <div className="flex items-start justify-between gap-4 rounded-md bg-blue-50 p-4">
+          <div className="flex gap-3">
+            <InformationCircleIcon className="h-5 w-5 flex-shrink-0 text-blue-400" />
+            <p className="text-sm text-blue-700">
+              Rules apply to new orders once saved. To apply them to orders already waiting to ship, check open orders now.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleCheckOpenOrders}
+            disabled={checking}
+            className="inline-flex flex-shrink-0 items-center gap-x-2 rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <HandRaisedIcon className="h-4 w-4" />
+            {checking ? 'Checking...' : 'Check open orders'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
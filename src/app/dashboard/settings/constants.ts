@@ -2,15 +2,32 @@
 
 import {
   TruckIcon,
-  BellIcon
+  BellIcon,
+  HandRaisedIcon,
+  BoltIcon,
+  CurrencyDollarIcon
 } from '@heroicons/react/24/outline'
-import { FulfillmentStatus, ColorOption, SettingsTab } from './types'
+import { FulfillmentStatus, ColorOption, SettingsTab, HoldRuleSettings } from './types'
 
 export const SETTINGS_TABS: SettingsTab[] = [
   { id: 'fulfillment', name: 'Fulfillment', icon: TruckIcon },
+  { id: 'holdRules', name: 'Holds', icon: HandRaisedIcon },
+  { id: 'automation', name: 'Automation', icon: BoltIcon },
+  { id: 'currency', name: 'Currency', icon: CurrencyDollarIcon },
   { id: 'notifications', name: 'Notifications', icon: BellIcon }
 ]
 
+// Tabs that save each change themselves - no page-level save or reset
+export const SELF_SAVING_TABS = ['fulfillment', 'automation', 'currency']
+
+export const DEFAULT_HOLD_RULES: HoldRuleSettings = {
+  orderValue: { enabled: false, threshold: 1000 },
+  countryMismatch: { enabled: false },
+  poBox: { enabled: true, carriers: ['UPS', 'FedEx', 'DHL'] },
+  missingPhoneInternational: { enabled: true },
+  addressValidationFailed: { enabled: true }
+}
+
 export const DEFAULT_FULFILLMENT_STATUSES: FulfillmentStatus[] = [
   {
     id: '1',
@@ -79,8 +96,19 @@ export const DEFAULT_FULFILLMENT_STATUSES: FulfillmentStatus[] = [
     isEditable: true
   },
   {
-    id: '8',
+    id: '11',
     order: 7,
+    label: 'Partially Shipped',
+    code: 'PARTIALLY_SHIPPED',
+    color: 'bg-cyan-100 text-cyan-800',
+    needsShipping: true,
+    needsPicking: false,
+    type: 'system',
+    isEditable: false
+  },
+  {
+    id: '8',
+    order: 8,
     label: 'Shipped',
     code: 'SHIPPED',
     color: 'bg-green-100 text-green-800',
@@ -91,7 +119,7 @@ export const DEFAULT_FULFILLMENT_STATUSES: FulfillmentStatus[] = [
   },
   {
     id: '9',
-    order: 8,
+    order: 9,
     label: 'Delivered',
     code: 'DELIVERED',
     color: 'bg-green-100 text-green-800',
@@ -102,7 +130,7 @@ export const DEFAULT_FULFILLMENT_STATUSES: FulfillmentStatus[] = [
   },
   {
     id: '10',
-    order: 9,
+    order: 10,
     label: 'Cancelled',
     code: 'CANCELLED',
     color: 'bg-red-100 text-red-800',
@@ -90,8 +90,19 @@ export const DEFAULT_FULFILLMENT_STATUSES: FulfillmentStatus[] = [
     isEditable: true
   },
   {
-    id: '8',
+    id: '11',
     order: 7,
+    label: 'Partially Shipped',
+    code: 'PARTIALLY_SHIPPED',
+    color: 'bg-cyan-100 text-cyan-800',  // ✅ Actual Tailwind class
+    needsShipping: true,
+    needsPicking: false,
+    type: 'system',
+    isEditable: false
+  },
+  {
+    id: '8',
+    order: 8,
     label: 'Shipped',
     code: 'SHIPPED',
     color: 'bg-green-100 text-green-800',  // ✅ Actual Tailwind class
@@ -0,0 +1,77 @@
+//file path: app/dashboard/settings/hooks/useAutomationRules.ts
+
+import { useState, useEffect, useCallback } from 'react'
+import { AutomationAPI, AutomationRule, AutomationRuleData } from '@/lib/api/automationApi'
+
+/**
+ * The account's automation rules, kept in run order
+ * Every change is saved straight away
+ */
+export function useAutomationRules() {
+  const [rules, setRules] = useState<AutomationRule[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const loadRules = useCallback(async () => {
+    try {
+      const loaded = await AutomationAPI.getRules()
+      setRules([...loaded].sort((a, b) => a.position - b.position))
+    } catch (error) {
+      console.error('[useAutomationRules] Error loading rules:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadRules()
+  }, [loadRules])
+
+  const createRule = useCallback(async (data: AutomationRuleData) => {
+    const rule = await AutomationAPI.createRule(data)
+    setRules(prev => [...prev, rule])
+    return rule
+  }, [])
+
+  const updateRule = useCallback(async (ruleId: string, data: Partial<AutomationRuleData>) => {
+    const rule = await AutomationAPI.updateRule(ruleId, data)
+    setRules(prev => prev.map(r => r.id === ruleId ? rule : r))
+    return rule
+  }, [])
+
+  const deleteRule = useCallback(async (ruleId: string) => {
+    await AutomationAPI.deleteRule(ruleId)
+    setRules(prev => prev.filter(r => r.id !== ruleId))
+  }, [])
+
+  /**
+   * Move a rule up (-1) or down (1) in the run order
+   */
+  const moveRule = useCallback(async (ruleId: string, direction: -1 | 1) => {
+    const index = rules.findIndex(r => r.id === ruleId)
+    const target = index + direction
+    if (index < 0 || target < 0 || target >= rules.length) return
+
+    const reordered = [...rules]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    const withPositions = reordered.map((rule, position) => ({ ...rule, position }))
+    setRules(withPositions)
+
+    try {
+      await AutomationAPI.reorderRules(withPositions.map(r => r.id))
+    } catch (error) {
+      console.error('[useAutomationRules] Error reordering rules:', error)
+      setRules(rules)
+      throw error
+    }
+  }, [rules])
+
+  return {
+    rules,
+    loading,
+    createRule,
+    updateRule,
+    deleteRule,
+    moveRule,
+    refresh: loadRules
+  }
+}
@@ -0,0 +1,54 @@
+//file path: app/dashboard/settings/hooks/useExchangeRates.ts
+
+import { useState, useEffect, useCallback } from 'react'
+import { CurrencyAPI, ExchangeRate, ExchangeRateData } from '@/lib/api/currencyApi'
+
+/**
+ * The account's exchange rate table, newest first
+ * Every change is saved straight away
+ */
+export function useExchangeRates(currency?: string) {
+  const [rates, setRates] = useState<ExchangeRate[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const loadRates = useCallback(async () => {
+    try {
+      setRates(await CurrencyAPI.getRates({ currency }))
+    } catch (error) {
+      console.error('[useExchangeRates] Error loading rates:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [currency])
+
+  useEffect(() => {
+    loadRates()
+  }, [loadRates])
+
+  // The backend replaces a rate for the same currency and date, so reload rather than append
+  const saveRate = useCallback(async (data: ExchangeRateData) => {
+    const rate = await CurrencyAPI.createRate(data)
+    await loadRates()
+    return rate
+  }, [loadRates])
+
+  const deleteRate = useCallback(async (rateId: string) => {
+    await CurrencyAPI.deleteRate(rateId)
+    setRates(prev => prev.filter(r => r.id !== rateId))
+  }, [])
+
+  const importRates = useCallback(async (data: ExchangeRateData[]) => {
+    const result = await CurrencyAPI.importRates(data)
+    await loadRates()
+    return result
+  }, [loadRates])
+
+  return {
+    rates,
+    loading,
+    saveRate,
+    deleteRate,
+    importRates,
+    refresh: loadRates
+  }
+}
@@ -14,15 +14,19 @@ import TabNavigation from './components/shared/TabNavigation'
 // Tab Components
 import FulfillmentTab from './components/tabs/FulfillmentTab'
 import NotificationsTab from './components/tabs/NotificationsTab'
+import HoldRulesTab from './components/tabs/HoldRulesTab'
+import AutomationTab from './components/tabs/AutomationTab'
+import CurrencyTab from './components/tabs/CurrencyTab'
 
-import { SETTINGS_TABS } from './constants'
+import { SETTINGS_TABS, SELF_SAVING_TABS, DEFAULT_HOLD_RULES } from './constants'
 
 const DEFAULT_SETTINGS: AppSettings = {
   notifications: {
     notificationEmail: '',
     dailySummary: false,
     weeklySummary: false
-  }
+  },
+  holdRules: DEFAULT_HOLD_RULES
 }
 
 interface SettingsPageContentProps {
@@ -46,7 +50,12 @@ function SettingsPageContent({ accountId }: SettingsPageContentProps) {
     try {
       setLoading(true)
       const loadedSettings = await settingsApi.getSettings()
-      setSettings(loadedSettings)
+      // Accounts saved before hold rules existed have no holdRules section
+      setSettings({
+        ...DEFAULT_SETTINGS,
+        ...loadedSettings,
+        holdRules: { ...DEFAULT_HOLD_RULES, ...loadedSettings.holdRules }
+      })
     } catch (error) {
       console.error('[Settings Page] Error loading settings:', error)
       // Keep default settings on error
@@ -129,13 +138,25 @@ function SettingsPageContent({ accountId }: SettingsPageContentProps) {
             onChange={(updates) => handleSettingChange('notifications', updates)}
           />
         )
+      case 'holdRules':
+        return (
+          <HoldRulesTab
+            settings={settings.holdRules}
+            onChange={(updates) => handleSettingChange('holdRules', updates)}
+          />
+        )
+      case 'automation':
+        return <AutomationTab />
+      case 'currency':
+        return <CurrencyTab />
       default:
         return null
     }
   }
 
   // Only show save button for non-auto-save tabs
-  const showSaveButton = activeTab !== 'fulfillment' && hasChanges
+  const isSelfSavingTab = SELF_SAVING_TABS.includes(activeTab)
+  const showSaveButton = !isSelfSavingTab && hasChanges
 
   // ✅ Show loading state
   if (loading) {
@@ -155,7 +176,7 @@ function SettingsPageContent({ accountId }: SettingsPageContentProps) {
         hasChanges={showSaveButton}
         onSave={handleSaveSettings}
         onResetAll={handleResetAll}
-        hideResetAll={activeTab === 'fulfillment'} // Hide reset all for fulfillment tab
+        hideResetAll={isSelfSavingTab} // Hide reset all for tabs that save themselves
       />
 
       {showSuccessMessage && <SuccessMessage />}
@@ -170,8 +191,8 @@ function SettingsPageContent({ accountId }: SettingsPageContentProps) {
         <div className="mt-8">
           {renderActiveTab()}
 
-          {/* Section Reset Button - only show for non-fulfillment tabs */}
-          {activeTab !== 'fulfillment' && (
+          {/* Section Reset Button - only show for tabs saved with the page */}
+          {!isSelfSavingTab && (
             <div className="mt-8 pt-6 border-t border-gray-200">
               <button
                 onClick={() => handleResetSection(activeTab as keyof AppSettings)}
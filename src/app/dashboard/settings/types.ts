@@ -32,6 +32,31 @@ export interface NotificationSettings {
   weeklySummary: boolean
 }
 
+/**
+ * Automatic hold rules
+ * Matching orders are put on hold when they're imported
+ */
+export interface HoldRuleSettings {
+  orderValue: {
+    enabled: boolean
+    threshold: number            // In the order's currency
+  }
+  countryMismatch: {
+    enabled: boolean
+  }
+  poBox: {
+    enabled: boolean
+    carriers: string[]           // Carriers that can't deliver to PO boxes
+  }
+  missingPhoneInternational: {
+    enabled: boolean
+  }
+  addressValidationFailed: {
+    enabled: boolean
+  }
+}
+
 export interface AppSettings {
   notifications: NotificationSettings
+  holdRules: HoldRuleSettings
 }
@@ -0,0 +1,314 @@
+//file path: app/dashboard/shared/components/CommentThreads.tsx
+
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { ChatBubbleLeftRightIcon, CheckCircleIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { CommentAPI, Comment, CommentThread, CommentEntityType } from '@/lib/api/commentApi'
+import { UsersAPI, User } from '@/lib/api/usersApi'
+import { useCurrentUserId } from '@/hooks/useAccountInitialization'
+import MentionTextarea from './MentionTextarea'
+import { getActiveMentions, getMentionName, splitMentions } from '../utils/mentions'
+
+interface CommentThreadsProps {
+  entityType: CommentEntityType
+  entityId: string
+  isOpen?: boolean
+  // Called with the number of unresolved threads after every change
+  onOpenCountChange?: (openCount: number) => void
+}
+
+/**
+ * Internal, threaded comments with @mentions of teammates
+ * Mentioned users are notified by the backend
+ */
+export default function CommentThreads({
+  entityType,
+  entityId,
+  isOpen = true,
+  onOpenCountChange
+}: CommentThreadsProps) {
+  const { userId } = useCurrentUserId()
+  const [threads, setThreads] = useState<CommentThread[]>([])
+  const [users, setUsers] = useState<User[]>([])
+  const [loading, setLoading] = useState(false)
+  const [posting, setPosting] = useState(false)
+  const [showResolved, setShowResolved] = useState(false)
+
+  // New thread composer
+  const [draft, setDraft] = useState('')
+  const [draftMentions, setDraftMentions] = useState<User[]>([])
+
+  // Reply composer (one open at a time)
+  const [replyTo, setReplyTo] = useState<string | null>(null)
+  const [reply, setReply] = useState('')
+  const [replyMentions, setReplyMentions] = useState<User[]>([])
+
+  // Kept in a ref so an inline callback doesn't retrigger loading
+  const onOpenCountChangeRef = useRef(onOpenCountChange)
+  onOpenCountChangeRef.current = onOpenCountChange
+
+  const loadThreads = useCallback(async () => {
+    try {
+      setLoading(true)
+      const data = await CommentAPI.getThreads(entityType, entityId)
+      setThreads(data)
+      onOpenCountChangeRef.current?.(data.filter(thread => !thread.resolved).length)
+    } catch (error) {
+      console.error('[CommentThreads] Error loading comments:', error)
+      setThreads([])
+    } finally {
+      setLoading(false)
+    }
+  }, [entityType, entityId])
+
+  useEffect(() => {
+    if (!isOpen) return
+    loadThreads()
+  }, [isOpen, loadThreads])
+
+  // Teammates that can be mentioned
+  useEffect(() => {
+    if (!isOpen) return
+
+    UsersAPI.getUsers()
+      .then(data => setUsers(data.filter(user => user.status === 'ACTIVE')))
+      .catch(error => {
+        console.error('[CommentThreads] Error loading users:', error)
+        setUsers([])
+      })
+  }, [isOpen])
+
+  const postComment = async (body: string, picked: User[], parentId?: string) => {
+    if (!body.trim()) return false
+
+    try {
+      setPosting(true)
+      await CommentAPI.createComment({
+        entityType,
+        entityId,
+        parentId,
+        body: body.trim(),
+        mentions: getActiveMentions(body, picked)
+      })
+      await loadThreads()
+      return true
+    } catch (error: any) {
+      console.error('[CommentThreads] Error posting comment:', error)
+      alert(error.message || 'Failed to post comment')
+      return false
+    } finally {
+      setPosting(false)
+    }
+  }
+
+  const handlePostThread = async () => {
+    if (await postComment(draft, draftMentions)) {
+      setDraft('')
+      setDraftMentions([])
+    }
+  }
+
+  const handlePostReply = async (threadId: string) => {
+    if (await postComment(reply, replyMentions, threadId)) {
+      setReply('')
+      setReplyMentions([])
+      setReplyTo(null)
+    }
+  }
+
+  const handleResolve = async (thread: CommentThread) => {
+    try {
+      await CommentAPI.setResolved(thread.id, !thread.resolved)
+      await loadThreads()
+    } catch (error: any) {
+      console.error('[CommentThreads] Error resolving thread:', error)
+      alert(error.message || 'Failed to update thread')
+    }
+  }
+
+  const handleDelete = async (comment: Comment) => {
+    const isThread = comment.parentId === null
+    if (!confirm(isThread ? 'Delete this comment and its replies?' : 'Delete this reply?')) return
+
+    try {
+      await CommentAPI.deleteComment(comment.id)
+      await loadThreads()
+    } catch (error: any) {
+      console.error('[CommentThreads] Error deleting comment:', error)
+      alert(error.message || 'Failed to delete comment')
+    }
+  }
+
+  const formatTimestamp = (value: string) => {
+    return new Date(value).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    })
+  }
+
+  const renderBody = (comment: Comment) => {
+    const names = comment.mentions
+      .map(id => users.find(user => user.id === id))
+      .filter((user): user is User => !!user)
+      .map(getMentionName)
+
+    return (
+      <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap break-words">
+        {splitMentions(comment.body, names).map((segment, index) =>
+          segment.isMention
+            ? <span key={index} className="rounded bg-indigo-50 px-0.5 font-medium text-indigo-700">{segment.text}</span>
+            : <span key={index}>{segment.text}</span>
+        )}
+      </p>
+    )
+  }
+
+  const renderComment = (comment: Comment) => (
+    <div className="group">
+      <div className="flex items-center justify-between">
+        <p className="text-sm">
+          <span className="font-medium text-gray-900">{comment.authorName || 'Unknown user'}</span>
+          <span className="ml-2 text-xs text-gray-400">{formatTimestamp(comment.createdAt)}</span>
+        </p>
+        {comment.authorId === userId && (
+          <button
+            onClick={() => handleDelete(comment)}
+            className="invisible text-gray-400 hover:text-red-600 group-hover:visible"
+            title="Delete"
+          >
+            <TrashIcon className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+      {renderBody(comment)}
+    </div>
+  )
+
+  const openThreads = threads.filter(thread => !thread.resolved)
+  const resolvedThreads = threads.filter(thread => thread.resolved)
+  const visibleThreads = showResolved ? threads : openThreads
+
+  return (
+    <div className="bg-white border rounded-lg p-4 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="font-medium text-gray-900 flex items-center">
+          <ChatBubbleLeftRightIcon className="h-5 w-5 mr-2 text-gray-400" />
+          Internal Comments
+          {openThreads.length > 0 && (
+            <span className="ml-2 inline-flex items-center rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+              {openThreads.length} open
+            </span>
+          )}
+        </h4>
+        {resolvedThreads.length > 0 && (
+          <button
+            onClick={() => setShowResolved(!showResolved)}
+            className="text-xs text-indigo-600 hover:text-indigo-500"
+          >
+            {showResolved ? 'Hide resolved' : `Show ${resolvedThreads.length} resolved`}
+          </button>
+        )}
+      </div>
+
+      {loading && threads.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading comments...</p>
+      ) : (
+        <ul className="space-y-4">
+          {visibleThreads.map(thread => (
+            <li
+              key={thread.id}
+              className={`rounded-md border p-3 ${thread.resolved ? 'border-gray-200 bg-gray-50 opacity-75' : 'border-amber-200'}`}
+            >
+              {renderComment(thread)}
+
+              {thread.replies.length > 0 && (
+                <ul className="mt-3 space-y-3 border-l-2 border-gray-100 pl-3">
+                  {thread.replies.map(replyComment => (
+                    <li key={replyComment.id}>{renderComment(replyComment)}</li>
+                  ))}
+                </ul>
+              )}
+
+              {replyTo === thread.id ? (
+                <div className="mt-3 space-y-2">
+                  <MentionTextarea
+                    value={reply}
+                    onChange={setReply}
+                    users={users}
+                    onMention={(user) => setReplyMentions(prev => [...prev, user])}
+                    onSubmit={() => handlePostReply(thread.id)}
+                    placeholder="Reply... (@ to mention)"
+                    rows={2}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => { setReplyTo(null); setReply(''); setReplyMentions([]) }}
+                      className="rounded-md bg-white px-2.5 py-1.5 text-xs font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => handlePostReply(thread.id)}
+                      disabled={posting || !reply.trim()}
+                      className="rounded-md bg-indigo-600 px-2.5 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+                    >
+                      Reply
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="mt-2 flex items-center gap-4 text-xs">
+                  {!thread.resolved && (
+                    <button
+                      onClick={() => { setReplyTo(thread.id); setReply(''); setReplyMentions([]) }}
+                      className="font-medium text-indigo-600 hover:text-indigo-500"
+                    >
+                      Reply
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleResolve(thread)}
+                    className="inline-flex items-center font-medium text-gray-600 hover:text-gray-900"
+                  >
+                    <CheckCircleIcon className="h-4 w-4 mr-1" />
+                    {thread.resolved ? 'Reopen' : 'Resolve'}
+                  </button>
+                  {thread.resolved && thread.resolvedByName && (
+                    <span className="text-gray-400">
+                      Resolved by {thread.resolvedByName}
+                      {thread.resolvedAt && ` on ${formatTimestamp(thread.resolvedAt)}`}
+                    </span>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* New thread */}
+      <div className={`space-y-2 ${visibleThreads.length > 0 ? 'mt-4' : ''}`}>
+        <MentionTextarea
+          value={draft}
+          onChange={setDraft}
+          users={users}
+          onMention={(user) => setDraftMentions(prev => [...prev, user])}
+          onSubmit={handlePostThread}
+          placeholder="Add a comment for your team... (@ to mention)"
+        />
+        <div className="flex justify-end">
+          <button
+            onClick={handlePostThread}
+            disabled={posting || !draft.trim()}
+            className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+          >
+            {posting ? 'Posting...' : 'Comment'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+//file path: app/dashboard/shared/components/CurrencyDisplayToggle.tsx
+
+'use client'
+
+import { useCurrency } from '../context/CurrencyContext'
+
+/**
+ * Switch order amounts between the currency they were charged in and the base currency
+ * The choice is saved to the user's preferences and applies on every page
+ */
+export default function CurrencyDisplayToggle() {
+  const { display, setDisplay, baseCurrency } = useCurrency()
+
+  const optionClass = (active: boolean) =>
+    `px-3 py-1.5 text-xs font-medium ${active ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`
+
+  return (
+    <div className="inline-flex overflow-hidden rounded-md shadow-sm ring-1 ring-inset ring-gray-300" title="Show order amounts in">
+      <button type="button" onClick={() => setDisplay('original')} className={optionClass(display === 'original')}>
+        Original
+      </button>
+      <button type="button" onClick={() => setDisplay('base')} className={optionClass(display === 'base')}>
+        {baseCurrency}
+      </button>
+    </div>
+  )
+}
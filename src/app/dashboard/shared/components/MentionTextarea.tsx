@@ -0,0 +1,126 @@
+//file path: app/dashboard/shared/components/MentionTextarea.tsx
+
+'use client'
+
+import { useState, useRef } from 'react'
+import { User } from '@/lib/api/usersApi'
+import { getMentionQuery, filterMentionUsers, insertMention, getMentionName } from '../utils/mentions'
+
+interface MentionTextareaProps {
+  value: string
+  onChange: (value: string) => void
+  users: User[]
+  onMention: (user: User) => void
+  onSubmit?: () => void
+  placeholder?: string
+  rows?: number
+}
+
+/**
+ * Textarea with @mention suggestions for teammates
+ * Arrow keys + Enter/Tab pick a suggestion; Cmd/Ctrl+Enter submits
+ */
+export default function MentionTextarea({
+  value,
+  onChange,
+  users,
+  onMention,
+  onSubmit,
+  placeholder,
+  rows = 3
+}: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null)
+  const [highlighted, setHighlighted] = useState(0)
+
+  const suggestions = mention ? filterMentionUsers(users, mention.query) : []
+
+  const updateMention = (text: string, caret: number) => {
+    setMention(getMentionQuery(text, caret))
+    setHighlighted(0)
+  }
+
+  const pickUser = (user: User) => {
+    const textarea = textareaRef.current
+    if (!mention || !textarea) return
+
+    const result = insertMention(value, mention.start, textarea.selectionStart, user)
+    onChange(result.text)
+    onMention(user)
+    setMention(null)
+
+    // Put the caret after the inserted mention once React has re-rendered
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(result.caret, result.caret)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault()
+        setHighlighted(prev => (prev + 1) % suggestions.length)
+        return
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault()
+        setHighlighted(prev => (prev - 1 + suggestions.length) % suggestions.length)
+        return
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault()
+        pickUser(suggestions[highlighted])
+        return
+      }
+      if (e.key === 'Escape') {
+        setMention(null)
+        return
+      }
+    }
+
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && onSubmit) {
+      e.preventDefault()
+      onSubmit()
+    }
+  }
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        rows={rows}
+        placeholder={placeholder}
+        onChange={(e) => {
+          onChange(e.target.value)
+          updateMention(e.target.value, e.target.selectionStart)
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateMention(value, e.currentTarget.selectionStart)}
+        onBlur={() => setTimeout(() => setMention(null), 150)}
+        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute z-20 mt-1 max-h-48 w-64 overflow-auto rounded-md bg-white py-1 text-sm shadow-lg ring-1 ring-black ring-opacity-5">
+          {suggestions.map((user, index) => (
+            <li key={user.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  pickUser(user)
+                }}
+                className={`w-full px-3 py-2 text-left ${index === highlighted ? 'bg-indigo-50 text-indigo-900' : 'text-gray-900 hover:bg-gray-50'}`}
+              >
+                <span className="font-medium">{getMentionName(user)}</span>
+                <span className="ml-2 text-xs text-gray-500">{user.email}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
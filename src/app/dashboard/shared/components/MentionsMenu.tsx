@@ -0,0 +1,127 @@
+//file path: app/dashboard/shared/components/MentionsMenu.tsx
+
+'use client'
+
+import { Fragment, useState, useEffect, useCallback } from 'react'
+import { Menu, Transition } from '@headlessui/react'
+import { BellIcon } from '@heroicons/react/24/outline'
+import { useRouter } from 'next/navigation'
+import { CommentAPI, CommentMention } from '@/lib/api/commentApi'
+
+// Mentions are checked again every few minutes while the dashboard is open
+const POLL_INTERVAL_MS = 2 * 60 * 1000
+
+/**
+ * Header bell listing comments that @mention the current user
+ */
+export default function MentionsMenu() {
+  const router = useRouter()
+  const [mentions, setMentions] = useState<CommentMention[]>([])
+
+  const loadMentions = useCallback(async () => {
+    try {
+      setMentions(await CommentAPI.getMentions())
+    } catch (error) {
+      console.error('[MentionsMenu] Error loading mentions:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadMentions()
+    const interval = setInterval(loadMentions, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [loadMentions])
+
+  const unread = mentions.filter(mention => !mention.read)
+
+  const markRead = async (mentionIds: string[]) => {
+    if (mentionIds.length === 0) return
+
+    try {
+      await CommentAPI.markMentionsRead(mentionIds)
+      setMentions(prev => prev.map(mention =>
+        mentionIds.includes(mention.id) ? { ...mention, read: true } : mention
+      ))
+    } catch (error) {
+      console.error('[MentionsMenu] Error marking mentions read:', error)
+    }
+  }
+
+  const openMention = (mention: CommentMention) => {
+    if (!mention.read) markRead([mention.id])
+
+    const { entityType, entityId } = mention.comment
+    router.push(entityType === 'order'
+      ? `/dashboard/orders?order=${encodeURIComponent(entityId)}`
+      : '/dashboard/products')
+  }
+
+  return (
+    <Menu as="div" className="relative">
+      <Menu.Button className="relative rounded-md p-2 text-gray-400 hover:bg-gray-50 hover:text-gray-500">
+        <span className="sr-only">View mentions</span>
+        <BellIcon className="h-6 w-6" aria-hidden="true" />
+        {unread.length > 0 && (
+          <span className="absolute right-1 top-1 inline-flex h-4 min-w-[1rem] items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-semibold text-white">
+            {unread.length > 9 ? '9+' : unread.length}
+          </span>
+        )}
+      </Menu.Button>
+      <Transition
+        as={Fragment}
+        enter="transition ease-out duration-100"
+        enterFrom="transform opacity-0 scale-95"
+        enterTo="transform opacity-100 scale-100"
+        leave="transition ease-in duration-75"
+        leaveFrom="transform opacity-100 scale-100"
+        leaveTo="transform opacity-0 scale-95"
+      >
+        <Menu.Items className="absolute right-0 z-10 mt-2 w-80 origin-top-right rounded-md bg-white py-2 shadow-lg ring-1 ring-gray-900/5 focus:outline-none">
+          <div className="flex items-center justify-between px-4 pb-2 border-b border-gray-100">
+            <p className="text-sm font-medium text-gray-900">Mentions</p>
+            {unread.length > 0 && (
+              <button
+                onClick={() => markRead(unread.map(mention => mention.id))}
+                className="text-xs text-indigo-600 hover:text-indigo-500"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {mentions.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">No one has mentioned you yet.</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              {mentions.map(mention => (
+                <Menu.Item key={mention.id}>
+                  {({ active }) => (
+                    <button
+                      onClick={() => openMention(mention)}
+                      className={`block w-full px-4 py-2 text-left ${active ? 'bg-gray-50' : ''}`}
+                    >
+                      <p className="flex items-center text-xs text-gray-500">
+                        {!mention.read && <span className="mr-1.5 h-2 w-2 rounded-full bg-indigo-500" />}
+                        <span className="font-medium text-gray-900">{mention.comment.authorName || 'Someone'}</span>
+                        <span className="ml-1">on {mention.entityLabel}</span>
+                      </p>
+                      <p className="mt-0.5 text-sm text-gray-700 line-clamp-2">{mention.comment.body}</p>
+                      <p className="mt-0.5 text-xs text-gray-400">
+                        {new Date(mention.createdAt).toLocaleString('en-US', {
+                          month: 'short',
+                          day: 'numeric',
+                          hour: 'numeric',
+                          minute: '2-digit'
+                        })}
+                      </p>
+                    </button>
+                  )}
+                </Menu.Item>
+              ))}
+            </div>
+          )}
+        </Menu.Items>
+      </Transition>
+    </Menu>
+  )
+}
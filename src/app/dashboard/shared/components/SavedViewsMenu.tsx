@@ -0,0 +1,274 @@
+//file path: app/dashboard/shared/components/SavedViewsMenu.tsx
+
+'use client'
+
+import { Fragment, useState } from 'react'
+import { Dialog, Menu, Transition } from '@headlessui/react'
+import {
+  BookmarkIcon,
+  ChevronDownIcon,
+  StarIcon,
+  UserGroupIcon,
+  LinkIcon,
+  TrashIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline'
+import { StarIcon as StarSolidIcon } from '@heroicons/react/20/solid'
+import { SavedViewPage, SavedViewState, SavedViewVisibility } from '@/lib/api/userApi'
+import { useSavedViews } from '../hooks/useSavedViews'
+import { getSavedViewUrl } from '../utils/savedViews'
+
+interface SavedViewsMenuProps {
+  page: SavedViewPage
+  currentState: SavedViewState
+  onApply: (state: SavedViewState) => void
+  ready: boolean
+}
+
+/**
+ * "Views" dropdown for list pages - pick, save, share and bookmark views
+ */
+export default function SavedViewsMenu({ page, currentState, onApply, ready }: SavedViewsMenuProps) {
+  const {
+    views,
+    activeView,
+    defaultViewId,
+    isModified,
+    isOwnView,
+    applyView,
+    clearView,
+    createView,
+    updateView,
+    deleteView,
+    setDefaultView
+  } = useSavedViews({ page, currentState, onApply, ready })
+
+  const [showSaveDialog, setShowSaveDialog] = useState(false)
+  const [viewName, setViewName] = useState('')
+  const [visibility, setVisibility] = useState<SavedViewVisibility>('private')
+  const [saving, setSaving] = useState(false)
+
+  const ownsActiveView = !!activeView && isOwnView(activeView)
+
+  const handleCreate = async () => {
+    if (!viewName.trim()) return
+
+    setSaving(true)
+    await createView(viewName, visibility)
+    setSaving(false)
+    setShowSaveDialog(false)
+  }
+
+  const handleCopyLink = async () => {
+    if (!activeView) return
+
+    try {
+      await navigator.clipboard.writeText(getSavedViewUrl(activeView.id))
+    } catch {
+      prompt('Copy this link:', getSavedViewUrl(activeView.id))
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!activeView || !confirm(`Delete the view "${activeView.name}"?`)) return
+    await deleteView(activeView.id)
+  }
+
+  const itemClass = (active: boolean) =>
+    `flex w-full items-center px-4 py-2 text-left text-sm ${active ? 'bg-gray-50 text-gray-900' : 'text-gray-700'}`
+
+  return (
+    <>
+      <Menu as="div" className="relative">
+        <Menu.Button className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+          <BookmarkIcon className="h-5 w-5 mr-2 text-gray-400" />
+          <span className="max-w-[12rem] truncate">{activeView ? activeView.name : 'Views'}</span>
+          {isModified && <span className="ml-1 text-xs text-amber-600">(modified)</span>}
+          <ChevronDownIcon className="h-4 w-4 ml-2 text-gray-400" />
+        </Menu.Button>
+        <Transition
+          as={Fragment}
+          enter="transition ease-out duration-100"
+          enterFrom="transform opacity-0 scale-95"
+          enterTo="transform opacity-100 scale-100"
+          leave="transition ease-in duration-75"
+          leaveFrom="transform opacity-100 scale-100"
+          leaveTo="transform opacity-0 scale-95"
+        >
+          <Menu.Items className="absolute right-0 z-20 mt-2 w-72 origin-top-right rounded-md bg-white py-2 shadow-lg ring-1 ring-gray-900/5 focus:outline-none">
+            {views.length === 0 ? (
+              <p className="px-4 py-2 text-sm text-gray-500">No saved views yet.</p>
+            ) : (
+              <div className="max-h-72 overflow-y-auto">
+                {views.map(view => (
+                  <Menu.Item key={view.id}>
+                    {({ active }) => (
+                      <button onClick={() => applyView(view)} className={itemClass(active)}>
+                        {view.id === defaultViewId
+                          ? <StarSolidIcon className="h-4 w-4 mr-2 text-amber-400 flex-shrink-0" />
+                          : <span className="w-4 mr-2 flex-shrink-0" />}
+                        <span className={`flex-1 truncate ${view.id === activeView?.id ? 'font-semibold text-indigo-700' : ''}`}>
+                          {view.name}
+                        </span>
+                        {view.visibility === 'team' && (
+                          <span
+                            className="ml-2 inline-flex items-center text-xs text-gray-400"
+                            title={isOwnView(view) ? 'Shared with your team' : `Shared by ${view.ownerName || 'a teammate'}`}
+                          >
+                            <UserGroupIcon className="h-4 w-4" />
+                            {!isOwnView(view) && view.ownerName && <span className="ml-1 max-w-[5rem] truncate">{view.ownerName}</span>}
+                          </span>
+                        )}
+                      </button>
+                    )}
+                  </Menu.Item>
+                ))}
+              </div>
+            )}
+
+            <div className="my-2 border-t border-gray-100" />
+
+            <Menu.Item>
+              {({ active }) => (
+                <button
+                  onClick={() => {
+                    setViewName('')
+                    setVisibility('private')
+                    setShowSaveDialog(true)
+                  }}
+                  className={itemClass(active)}
+                >
+                  Save current as new view...
+                </button>
+              )}
+            </Menu.Item>
+
+            {ownsActiveView && isModified && (
+              <Menu.Item>
+                {({ active }) => (
+                  <button onClick={() => updateView(activeView.id, { state: currentState })} className={itemClass(active)}>
+                    Update &quot;{activeView.name}&quot;
+                  </button>
+                )}
+              </Menu.Item>
+            )}
+
+            {activeView && (
+              <>
+                <Menu.Item>
+                  {({ active }) => (
+                    <button
+                      onClick={() => setDefaultView(activeView.id === defaultViewId ? null : activeView.id)}
+                      className={itemClass(active)}
+                    >
+                      <StarIcon className="h-4 w-4 mr-2 text-gray-400" />
+                      {activeView.id === defaultViewId ? 'Remove as my default' : 'Set as my default'}
+                    </button>
+                  )}
+                </Menu.Item>
+                <Menu.Item>
+                  {({ active }) => (
+                    <button onClick={handleCopyLink} className={itemClass(active)}>
+                      <LinkIcon className="h-4 w-4 mr-2 text-gray-400" />
+                      Copy link
+                    </button>
+                  )}
+                </Menu.Item>
+                {ownsActiveView && (
+                  <Menu.Item>
+                    {({ active }) => (
+                      <button
+                        onClick={() => updateView(activeView.id, {
+                          visibility: activeView.visibility === 'team' ? 'private' : 'team'
+                        })}
+                        className={itemClass(active)}
+                      >
+                        <UserGroupIcon className="h-4 w-4 mr-2 text-gray-400" />
+                        {activeView.visibility === 'team' ? 'Make private' : 'Share with team'}
+                      </button>
+                    )}
+                  </Menu.Item>
+                )}
+                {ownsActiveView && (
+                  <Menu.Item>
+                    {({ active }) => (
+                      <button onClick={handleDelete} className={`${itemClass(active)} text-red-600`}>
+                        <TrashIcon className="h-4 w-4 mr-2" />
+                        Delete view
+                      </button>
+                    )}
+                  </Menu.Item>
+                )}
+                <Menu.Item>
+                  {({ active }) => (
+                    <button onClick={clearView} className={itemClass(active)}>
+                      <XMarkIcon className="h-4 w-4 mr-2 text-gray-400" />
+                      Close view
+                    </button>
+                  )}
+                </Menu.Item>
+              </>
+            )}
+          </Menu.Items>
+        </Transition>
+      </Menu>
+
+      {/* Save view dialog */}
+      <Transition appear show={showSaveDialog} as={Fragment}>
+        <Dialog as="div" className="relative z-50" onClose={() => setShowSaveDialog(false)}>
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75" />
+          <div className="fixed inset-0 z-10 overflow-y-auto">
+            <div className="flex min-h-full items-center justify-center p-4">
+              <Dialog.Panel className="w-full max-w-md rounded-lg bg-white p-6 shadow-xl">
+                <Dialog.Title className="text-lg font-medium text-gray-900">Save view</Dialog.Title>
+                <p className="mt-1 text-sm text-gray-500">
+                  Saves the current filters, search, sorting and columns.
+                </p>
+
+                <div className="mt-4 space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Name</label>
+                    <input
+                      type="text"
+                      value={viewName}
+                      onChange={(e) => setViewName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                      placeholder="e.g. UPS ground to ship from NJ"
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                      autoFocus
+                    />
+                  </div>
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={visibility === 'team'}
+                      onChange={(e) => setVisibility(e.target.checked ? 'team' : 'private')}
+                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">Share with my team</span>
+                  </label>
+                </div>
+
+                <div className="mt-6 flex justify-end gap-3">
+                  <button
+                    onClick={() => setShowSaveDialog(false)}
+                    className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleCreate}
+                    disabled={saving || !viewName.trim()}
+                    className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Save View'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </div>
+          </div>
+        </Dialog>
+      </Transition>
+    </>
+  )
+}
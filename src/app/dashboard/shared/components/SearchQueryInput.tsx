@@ -0,0 +1,142 @@
+//file path: app/dashboard/shared/components/SearchQueryInput.tsx
+
+'use client'
+
+import { useState, useRef, useMemo } from 'react'
+import { ExclamationTriangleIcon } from '@heroicons/react/20/solid'
+import {
+  SearchFieldDef,
+  SearchSuggestion,
+  parseSearchQuery,
+  getSearchSuggestions,
+  applySearchSuggestion
+} from '@/lib/search/searchQuery'
+
+interface SearchQueryInputProps {
+  value: string
+  onChange: (value: string) => void
+  fields: SearchFieldDef[]
+  placeholder?: string
+  className?: string             // Classes for the <input>
+  icon?: React.ReactNode         // Shown inside the input on the left
+}
+
+/**
+ * Search box for the structured query syntax (sku:ABC-1 total>100 -platform:etsy)
+ * Suggests field names while typing a term, then known values for the field
+ */
+export default function SearchQueryInput({ value, onChange, fields, placeholder, className, icon }: SearchQueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [caret, setCaret] = useState<number | null>(null)
+  const [highlighted, setHighlighted] = useState(0)
+
+  const errors = useMemo(() => parseSearchQuery(value, fields).errors, [value, fields])
+
+  const completion = useMemo(
+    () => caret === null ? null : getSearchSuggestions(value, caret, fields),
+    [value, caret, fields]
+  )
+  const suggestions = completion?.suggestions || []
+
+  const updateCaret = (input: HTMLInputElement) => {
+    setCaret(input.selectionStart)
+    setHighlighted(0)
+  }
+
+  const pickSuggestion = (suggestion: SearchSuggestion) => {
+    const input = inputRef.current
+    if (!completion || !input) return
+
+    const result = applySearchSuggestion(value, completion.start, completion.end, suggestion)
+    onChange(result.text)
+    setCaret(result.caret)
+    setHighlighted(0)
+
+    requestAnimationFrame(() => {
+      input.focus()
+      input.setSelectionRange(result.caret, result.caret)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setHighlighted(prev => (prev + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setHighlighted(prev => (prev - 1 + suggestions.length) % suggestions.length)
+    } else if (e.key === 'Tab' || (e.key === 'Enter' && value.trim() !== '')) {
+      e.preventDefault()
+      pickSuggestion(suggestions[highlighted])
+    } else if (e.key === 'Escape') {
+      setCaret(null)
+    }
+  }
+
+  return (
+    <div>
+      <div className="relative">
+        {icon && (
+          <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+            {icon}
+          </div>
+        )}
+        <input
+          ref={inputRef}
+          type="text"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value)
+            updateCaret(e.target)
+          }}
+          onKeyDown={handleKeyDown}
+          onKeyUp={(e) => {
+            if (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'Home' || e.key === 'End') {
+              updateCaret(e.currentTarget)
+            }
+          }}
+          onClick={(e) => updateCaret(e.currentTarget)}
+          onFocus={(e) => updateCaret(e.currentTarget)}
+          onBlur={() => setTimeout(() => setCaret(null), 150)}
+          className={className}
+          placeholder={placeholder}
+          autoComplete="off"
+          spellCheck={false}
+        />
+
+        {suggestions.length > 0 && (
+          <ul className="absolute z-20 mt-1 max-h-64 w-full max-w-md overflow-auto rounded-md bg-white py-1 text-sm shadow-lg ring-1 ring-black ring-opacity-5">
+            {suggestions.map((suggestion, index) => (
+              <li key={suggestion.insert}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => {
+                    e.preventDefault()
+                    pickSuggestion(suggestion)
+                  }}
+                  className={`flex w-full items-center justify-between px-3 py-1.5 text-left ${
+                    index === highlighted ? 'bg-indigo-50 text-indigo-900' : 'text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="font-mono">{suggestion.label}</span>
+                  {suggestion.description && (
+                    <span className="ml-3 truncate text-xs text-gray-500">{suggestion.description}</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <p className="mt-1 flex items-center text-xs text-amber-700">
+          <ExclamationTriangleIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+          {errors.join(' • ')}
+        </p>
+      )}
+    </div>
+  )
+}
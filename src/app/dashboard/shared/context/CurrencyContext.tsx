@@ -0,0 +1,79 @@
+//file path: app/dashboard/shared/context/CurrencyContext.tsx
+
+'use client'
+
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'
+import { CurrencyAPI, CurrencyDisplay } from '@/lib/api/currencyApi'
+import { UserAPI } from '@/lib/api/userApi'
+import { DEFAULT_BASE_CURRENCY, ConvertibleOrder, formatOrderAmount } from '../utils/currency'
+
+interface CurrencyContextType {
+  baseCurrency: string
+  display: CurrencyDisplay
+  loading: boolean
+  setDisplay: (display: CurrencyDisplay) => void
+  updateBaseCurrency: (currency: string) => Promise<void>
+  formatAmount: (amount: number, order: ConvertibleOrder) => string   // In the user's chosen currency
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined)
+
+interface CurrencyProviderProps {
+  children: ReactNode
+}
+
+export function CurrencyProvider({ children }: CurrencyProviderProps) {
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY)
+  const [display, setDisplayState] = useState<CurrencyDisplay>('original')
+  const [loading, setLoading] = useState(true)
+
+  // Base currency is per account, the display choice per user
+  useEffect(() => {
+    Promise.all([
+      CurrencyAPI.getSettings()
+        .then(settings => setBaseCurrency(settings.baseCurrency || DEFAULT_BASE_CURRENCY))
+        .catch(error => console.error('[CurrencyContext] Error loading currency settings:', error)),
+      UserAPI.getPreferences()
+        .then(preferences => setDisplayState(preferences.currencyDisplay || 'original'))
+        .catch(error => console.error('[CurrencyContext] Error loading currency display:', error))
+    ]).finally(() => setLoading(false))
+  }, [])
+
+  const setDisplay = useCallback((next: CurrencyDisplay) => {
+    setDisplayState(next)
+    UserAPI.updatePreferenceField('currencyDisplay', next)
+      .catch(error => console.error('[CurrencyContext] Error saving currency display:', error))
+  }, [])
+
+  const updateBaseCurrency = async (currency: string) => {
+    const settings = await CurrencyAPI.updateSettings({ baseCurrency: currency })
+    setBaseCurrency(settings.baseCurrency)
+  }
+
+  const formatAmount = useCallback((amount: number, order: ConvertibleOrder) => {
+    return formatOrderAmount(amount, order, display, baseCurrency)
+  }, [display, baseCurrency])
+
+  const value: CurrencyContextType = {
+    baseCurrency,
+    display,
+    loading,
+    setDisplay,
+    updateBaseCurrency,
+    formatAmount
+  }
+
+  return (
+    <CurrencyContext.Provider value={value}>
+      {children}
+    </CurrencyContext.Provider>
+  )
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext)
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider')
+  }
+  return context
+}
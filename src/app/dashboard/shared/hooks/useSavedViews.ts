@@ -0,0 +1,176 @@
+//file path: app/dashboard/shared/hooks/useSavedViews.ts
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { UserAPI, SavedView, SavedViewPage, SavedViewState, SavedViewVisibility } from '@/lib/api/userApi'
+import { useUserPreferences } from '@/hooks/useUserPreferences'
+import { SAVED_VIEW_PARAM, isSameViewState } from '../utils/savedViews'
+
+interface UseSavedViewsOptions {
+  page: SavedViewPage
+  currentState: SavedViewState        // Filters, search, sort and columns shown right now
+  onApply: (state: SavedViewState) => void
+  ready: boolean                      // Page preferences are loaded, so applying a view won't be overwritten
+}
+
+/**
+ * Named views for a list page, stored in user preferences
+ *
+ * The user's own views live in their preferences; views shared with the team
+ * are read back from everyone in the account. The selected view is kept in
+ * the URL (?view=<id>) so it can be bookmarked, and a per-user default view
+ * is opened when the URL doesn't name one.
+ */
+export function useSavedViews({ page, currentState, onApply, ready }: UseSavedViewsOptions) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const { preferences, loading: preferencesLoading, updateField } = useUserPreferences()
+
+  const [teamViews, setTeamViews] = useState<SavedView[]>([])
+  const [teamViewsLoaded, setTeamViewsLoaded] = useState(false)
+  const [activeViewId, setActiveViewId] = useState<string | null>(null)
+  const initialViewApplied = useRef(false)
+
+  // Kept in a ref so pages can pass an inline callback
+  const onApplyRef = useRef(onApply)
+  onApplyRef.current = onApply
+
+  useEffect(() => {
+    UserAPI.getTeamViews(page)
+      .then(setTeamViews)
+      .catch(error => {
+        console.error('[useSavedViews] Error loading team views:', error)
+        setTeamViews([])
+      })
+      .finally(() => setTeamViewsLoaded(true))
+  }, [page])
+
+  const userId = preferences?.userId
+  const allOwnViews = preferences?.savedViews || []
+  const ownViews = allOwnViews.filter(view => view.page === page)
+  const sharedViews = teamViews.filter(view => view.ownerId !== userId)
+  const views = [...ownViews, ...sharedViews]
+
+  const activeView = views.find(view => view.id === activeViewId) || null
+  const defaultViewId = preferences?.defaultViews?.[page] || null
+  const isModified = !!activeView && !isSameViewState(activeView.state, currentState)
+
+  const setViewParam = useCallback((viewId: string | null) => {
+    const params = new URLSearchParams(searchParams.toString())
+    if (viewId) {
+      params.set(SAVED_VIEW_PARAM, viewId)
+    } else {
+      params.delete(SAVED_VIEW_PARAM)
+    }
+    const query = params.toString()
+    router.replace(query ? `${pathname}?${query}` : pathname)
+  }, [router, pathname, searchParams])
+
+  const applyView = useCallback((view: SavedView) => {
+    onApplyRef.current(view.state)
+    setActiveViewId(view.id)
+    setViewParam(view.id)
+  }, [setViewParam])
+
+  const clearView = useCallback(() => {
+    setActiveViewId(null)
+    setViewParam(null)
+  }, [setViewParam])
+
+  // Open the view named in the URL, otherwise the user's default view
+  useEffect(() => {
+    if (initialViewApplied.current || !ready || preferencesLoading || !teamViewsLoaded) return
+    initialViewApplied.current = true
+
+    const requestedId = searchParams.get(SAVED_VIEW_PARAM)
+    const view = views.find(v => v.id === (requestedId || defaultViewId))
+    if (view) {
+      onApplyRef.current(view.state)
+      setActiveViewId(view.id)
+    } else if (requestedId) {
+      console.warn('[useSavedViews] View not found or not shared with you:', requestedId)
+    }
+  }, [ready, preferencesLoading, teamViewsLoaded, searchParams, views, defaultViewId])
+
+  const saveOwnViews = useCallback(async (nextViews: SavedView[]) => {
+    try {
+      await updateField('savedViews', nextViews)
+      return true
+    } catch (error: any) {
+      alert(error.message || 'Failed to save view')
+      return false
+    }
+  }, [updateField])
+
+  /**
+   * Save what's on screen as a new view
+   */
+  const createView = useCallback(async (name: string, visibility: SavedViewVisibility) => {
+    const now = new Date().toISOString()
+    const view: SavedView = {
+      id: `view-${Date.now()}`,
+      name: name.trim(),
+      page,
+      visibility,
+      state: currentState,
+      ownerId: userId || '',
+      createdAt: now,
+      updatedAt: now
+    }
+
+    if (await saveOwnViews([...allOwnViews, view])) {
+      setActiveViewId(view.id)
+      setViewParam(view.id)
+    }
+  }, [page, currentState, userId, allOwnViews, saveOwnViews, setViewParam])
+
+  /**
+   * Update one of the user's views - pass `state` to overwrite it with what's on screen
+   */
+  const updateView = useCallback(async (
+    viewId: string,
+    updates: Partial<Pick<SavedView, 'name' | 'visibility' | 'state'>>
+  ) => {
+    await saveOwnViews(allOwnViews.map(view =>
+      view.id === viewId ? { ...view, ...updates, updatedAt: new Date().toISOString() } : view
+    ))
+  }, [allOwnViews, saveOwnViews])
+
+  const deleteView = useCallback(async (viewId: string) => {
+    if (!(await saveOwnViews(allOwnViews.filter(view => view.id !== viewId)))) return
+
+    if (defaultViewId === viewId) {
+      await updateField('defaultViews', { ...preferences?.defaultViews, [page]: undefined })
+        .catch(error => console.error('[useSavedViews] Error clearing default view:', error))
+    }
+    if (activeViewId === viewId) clearView()
+  }, [allOwnViews, saveOwnViews, defaultViewId, activeViewId, preferences, page, updateField, clearView])
+
+  /**
+   * Open this view by default on the page (null to stop)
+   */
+  const setDefaultView = useCallback(async (viewId: string | null) => {
+    try {
+      await updateField('defaultViews', { ...preferences?.defaultViews, [page]: viewId || undefined })
+    } catch (error: any) {
+      alert(error.message || 'Failed to set default view')
+    }
+  }, [preferences, page, updateField])
+
+  const isOwnView = useCallback((view: SavedView) => view.ownerId === userId, [userId])
+
+  return {
+    views,
+    activeView,
+    defaultViewId,
+    isModified,
+    isOwnView,
+    applyView,
+    clearView,
+    createView,
+    updateView,
+    deleteView,
+    setDefaultView
+  }
+}
@@ -0,0 +1,110 @@
+//file path: app/dashboard/shared/utils/currency.ts
+
+import { ExchangeRate, ExchangeRateData, CurrencyDisplay } from '@/lib/api/currencyApi'
+import { formatCurrency } from '../../orders/utils/orderUtils'
+
+// Pure functions only, so the backend can freeze the same converted totals
+
+export const DEFAULT_BASE_CURRENCY = 'USD'
+
+export const CURRENCY_OPTIONS = [
+  'USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'JPY', 'CHF', 'SEK', 'NOK', 'DKK', 'PLN', 'MXN', 'BRL', 'INR', 'CNY', 'HKD', 'SGD'
+]
+
+// The parts of an order needed to show its amounts in either currency
+export interface ConvertibleOrder {
+  currency: string
+  totalAmount: number
+  baseCurrency?: string
+  exchangeRate?: number | null
+  baseTotalAmount?: number | null
+}
+
+/**
+ * Rate for an order date: the latest one dated on or before it
+ * Returns 1 for the base currency itself, or null when no rate is on file yet
+ */
+export function findExchangeRate(
+  rates: ExchangeRate[],
+  currency: string,
+  orderDate: string,
+  baseCurrency: string
+): number | null {
+  if (currency.toUpperCase() === baseCurrency.toUpperCase()) return 1
+
+  const day = orderDate.slice(0, 10)
+  let best: ExchangeRate | null = null
+  for (const rate of rates) {
+    if (rate.baseCurrency !== baseCurrency || rate.currency !== currency.toUpperCase() || rate.date > day) continue
+    if (!best || rate.date > best.date) best = rate
+  }
+  return best ? best.rate : null
+}
+
+/**
+ * Converted amounts are rounded to cents, like the stored baseTotalAmount
+ */
+export function convertAmount(amount: number, rate: number): number {
+  return Math.round(amount * rate * 100) / 100
+}
+
+/**
+ * Order total in the base currency
+ * Returns null while a foreign-currency order has no rate, so callers never
+ * compare its original total against base-currency amounts
+ */
+export function getOrderBaseTotal(order: ConvertibleOrder, baseCurrency?: string): number | null {
+  if (order.baseTotalAmount != null) return order.baseTotalAmount
+  if (order.exchangeRate != null) return convertAmount(order.totalAmount, order.exchangeRate)
+
+  const base = order.baseCurrency || baseCurrency
+  return base && base.toUpperCase() === order.currency.toUpperCase() ? order.totalAmount : null
+}
+
+/**
+ * An amount on an order (total, line, shipping...) in the chosen currency
+ * Shows the original amount when the order has no rate yet
+ */
+export function formatOrderAmount(amount: number, order: ConvertibleOrder, display: CurrencyDisplay, baseCurrency: string): string {
+  if (display === 'base' && order.exchangeRate != null) {
+    return formatCurrency(convertAmount(amount, order.exchangeRate), order.baseCurrency || baseCurrency)
+  }
+  return formatCurrency(amount, order.currency)
+}
+
+/**
+ * Returns an error message, or null when the rate can be saved
+ */
+export function validateExchangeRate(data: ExchangeRateData, baseCurrency: string): string | null {
+  if (!/^[A-Z]{3}$/.test(data.currency)) return 'Enter a 3-letter currency code'
+  if (data.currency === baseCurrency) return `${baseCurrency} is the base currency`
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(data.date) || isNaN(new Date(data.date).getTime())) return 'Enter a date'
+  if (!(data.rate > 0) || !isFinite(data.rate)) return 'Rate must be greater than 0'
+  return null
+}
+
+/**
+ * Parse pasted or uploaded CSV with date, currency and rate columns
+ * A header row is optional; bad rows are reported by line number and skipped
+ */
+export function parseExchangeRateCsv(text: string, baseCurrency: string): { rates: ExchangeRateData[]; errors: string[] } {
+  const rates: ExchangeRateData[] = []
+  const errors: string[] = []
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return
+
+    const [date = '', currency = '', rate = ''] = line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, ''))
+    if (index === 0 && isNaN(Number(rate))) return   // Header
+
+    const data = { date, currency: currency.toUpperCase(), rate: Number(rate) }
+    const error = validateExchangeRate(data, baseCurrency)
+    if (error) {
+      errors.push(`Line ${index + 1}: ${error}`)
+    } else {
+      rates.push(data)
+    }
+  })
+
+  return { rates, errors }
+}
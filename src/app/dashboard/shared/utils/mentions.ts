@@ -0,0 +1,77 @@
+//file path: app/dashboard/shared/utils/mentions.ts
+
+import { User } from '@/lib/api/usersApi'
+
+/**
+ * @mentions in comments are stored as plain "@Name" text plus a list of user ids
+ */
+
+export interface MentionSegment {
+  text: string
+  isMention: boolean
+}
+
+export function getMentionName(user: Pick<User, 'name' | 'email'>): string {
+  return user.name || user.email.split('@')[0]
+}
+
+/**
+ * The partial "@name" being typed right before the caret, if any
+ */
+export function getMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const match = text.slice(0, caret).match(/(^|\s)@([^\s@]*)$/)
+  if (!match) return null
+  return { query: match[2].toLowerCase(), start: caret - match[2].length - 1 }
+}
+
+export function filterMentionUsers(users: User[], query: string, limit = 6): User[] {
+  return users
+    .filter(user =>
+      getMentionName(user).toLowerCase().includes(query) ||
+      user.email.toLowerCase().includes(query)
+    )
+    .slice(0, limit)
+}
+
+/**
+ * Replace the partial "@name" with the full mention
+ */
+export function insertMention(
+  text: string,
+  start: number,
+  caret: number,
+  user: Pick<User, 'name' | 'email'>
+): { text: string; caret: number } {
+  const mention = `@${getMentionName(user)} `
+  return {
+    text: text.slice(0, start) + mention + text.slice(caret),
+    caret: start + mention.length
+  }
+}
+
+/**
+ * Users picked while typing whose mention is still in the text
+ */
+export function getActiveMentions(body: string, picked: Pick<User, 'id' | 'name' | 'email'>[]): string[] {
+  return picked
+    .filter(user => body.includes(`@${getMentionName(user)}`))
+    .map(user => user.id)
+    .filter((id, index, all) => all.indexOf(id) === index)
+}
+
+/**
+ * Split a comment into plain text and mention segments for highlighting
+ */
+export function splitMentions(body: string, names: string[]): MentionSegment[] {
+  const escaped = names
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  if (escaped.length === 0) return [{ text: body, isMention: false }]
+
+  // split() with a capturing group puts the matches at odd indexes
+  return body
+    .split(new RegExp(`(@(?:${escaped.join('|')}))`))
+    .map((text, index) => ({ text, isMention: index % 2 === 1 }))
+    .filter(segment => segment.text)
+}
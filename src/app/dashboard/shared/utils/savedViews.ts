@@ -0,0 +1,46 @@
+//file path: app/dashboard/shared/utils/savedViews.ts
+
+import { SavedViewState } from '@/lib/api/userApi'
+
+// Query parameter that makes a saved view bookmarkable
+export const SAVED_VIEW_PARAM = 'view'
+
+interface LayoutColumn {
+  id: string
+  visible: boolean
+}
+
+/**
+ * Column order and visibility as stored in a view
+ */
+export function toSavedColumns(columns: LayoutColumn[]): SavedViewState['columns'] {
+  return columns.map(({ id, visible }) => ({ id, visible }))
+}
+
+/**
+ * Reorder and show/hide the page's columns to match a saved view
+ * Columns added since the view was saved keep their default visibility at the end
+ */
+export function applySavedColumns<T extends LayoutColumn>(columns: T[], saved: SavedViewState['columns']): T[] {
+  const ordered = saved
+    .map(savedCol => {
+      const column = columns.find(col => col.id === savedCol.id)
+      return column ? { ...column, visible: savedCol.visible } : null
+    })
+    .filter((column): column is T => column !== null)
+
+  return [...ordered, ...columns.filter(col => !saved.some(savedCol => savedCol.id === col.id))]
+}
+
+export function isSameViewState(a: SavedViewState, b: SavedViewState): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Absolute link to the current page with the view selected
+ */
+export function getSavedViewUrl(viewId: string): string {
+  const url = new URL(window.location.href)
+  url.searchParams.set(SAVED_VIEW_PARAM, viewId)
+  return url.toString()
+}
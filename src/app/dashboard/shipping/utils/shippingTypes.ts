@@ -4,6 +4,17 @@ export type BoxType = 'custom' | 'usps' | 'ups' | 'fedex' | 'dhl'
 export type ServiceType = 'domestic' | 'international' | 'both'
 export type PackageType = 'box' | 'envelope' | 'tube' | 'pak' | 'other'
 
+/**
+ * A carrier rate quote for one package (from getShippingRates)
+ */
+export interface ShippingRate {
+  mailClass: string
+  zone: string
+  rate: number
+  deliveryDays?: string
+  deliveryDate?: string
+}
+
 export interface ShippingBox {
   id: string
   name: string
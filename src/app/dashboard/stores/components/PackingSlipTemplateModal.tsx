@@ -0,0 +1,339 @@
+//file path: app/dashboard/stores/components/PackingSlipTemplateModal.tsx
+
+'use client'
+
+import { Fragment, useState, useEffect, useMemo } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon, DocumentTextIcon, ChevronUpIcon, ChevronDownIcon } from '@heroicons/react/24/outline'
+import { Store, PackingSlipTemplate, PackingSlipBlock } from '../utils/storeTypes'
+import { storeApi } from '@/app/services/storeApi'
+import { OrderAPI } from '@/lib/api/orderApi'
+import { Order } from '../../orders/utils/orderTypes'
+import { transformToDetailedOrder } from '../../orders/utils/orderUtils'
+import { DEFAULT_PACKING_SLIP_TEMPLATE, PACKING_SLIP_BLOCK_LABELS } from '../../orders/constants/orderConstants'
+import { generatePackingSlipHTML, buildPackingSlipDocument } from '../../orders/utils/packingSlipGenerator'
+import {
+  PACKING_SLIP_VARIABLES,
+  getUnsupportedPackingSlipVariables
+} from '../../orders/utils/packingSlipVariables'
+
+interface PackingSlipTemplateModalProps {
+  store: Store
+  onClose: (updated: boolean) => void
+}
+
+const PREVIEW_ORDER_LIMIT = 10
+
+type TemplateTextField = 'title' | 'headerMessage' | 'returnInstructions' | 'footerText'
+
+export default function PackingSlipTemplateModal({ store, onClose }: PackingSlipTemplateModalProps) {
+  const [template, setTemplate] = useState<PackingSlipTemplate>(
+    () => store.packingSlipTemplate || DEFAULT_PACKING_SLIP_TEMPLATE
+  )
+  const [previewOrders, setPreviewOrders] = useState<Order[]>([])
+  const [previewOrderId, setPreviewOrderId] = useState('')
+  const [loadingOrders, setLoadingOrders] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [apiError, setApiError] = useState<string | null>(null)
+
+  // Preview against the store's most recent orders
+  useEffect(() => {
+    OrderAPI.queryOrders({
+      storeId: [store.id],
+      sortBy: 'orderDate',
+      sortDirection: 'desc',
+      limit: PREVIEW_ORDER_LIMIT
+    })
+      .then(result => {
+        setPreviewOrders(result.orders)
+        setPreviewOrderId(result.orders[0]?.id || '')
+      })
+      .catch(err => {
+        console.error('[PackingSlipTemplateModal] Error loading orders:', err)
+        setPreviewOrders([])
+      })
+      .finally(() => setLoadingOrders(false))
+  }, [store.id])
+
+  const previewHTML = useMemo(() => {
+    const order = previewOrders.find(o => o.id === previewOrderId)
+    if (!order) return ''
+    return buildPackingSlipDocument(
+      generatePackingSlipHTML(transformToDetailedOrder(order), store, template),
+      false
+    )
+  }, [previewOrders, previewOrderId, store, template])
+
+  const unsupportedVariables = useMemo(() => {
+    const allText = [template.title, template.headerMessage, template.returnInstructions, template.footerText].join(' ')
+    return getUnsupportedPackingSlipVariables(allText)
+  }, [template])
+
+  const setTextField = (field: TemplateTextField, value: string) => {
+    setTemplate(prev => ({ ...prev, [field]: value }))
+  }
+
+  const updateBlocks = (update: (blocks: PackingSlipBlock[]) => PackingSlipBlock[]) => {
+    setTemplate(prev => ({ ...prev, blocks: update([...prev.blocks]) }))
+  }
+
+  const toggleBlock = (index: number) => {
+    updateBlocks(blocks => {
+      blocks[index] = { ...blocks[index], enabled: !blocks[index].enabled }
+      return blocks
+    })
+  }
+
+  const moveBlock = (index: number, direction: -1 | 1) => {
+    updateBlocks(blocks => {
+      const target = index + direction
+      if (target < 0 || target >= blocks.length) return blocks
+      ;[blocks[index], blocks[target]] = [blocks[target], blocks[index]]
+      return blocks
+    })
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setApiError(null)
+    try {
+      await storeApi.updateStore(store.id, { packingSlipTemplate: template })
+      onClose(true)
+    } catch (err: any) {
+      console.error('Failed to save packing slip template:', err)
+      setApiError(err.message || 'Failed to save packing slip template')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleReset = () => {
+    if (confirm('Reset this store to the default packing slip layout?')) {
+      setTemplate(DEFAULT_PACKING_SLIP_TEMPLATE)
+    }
+  }
+
+  const textFields: { field: TemplateTextField; label: string; rows: number; placeholder: string }[] = [
+    { field: 'title', label: 'Title', rows: 1, placeholder: 'PACKING SLIP' },
+    { field: 'headerMessage', label: 'Header message', rows: 2, placeholder: 'Thanks for your order, [first_name]!' },
+    { field: 'returnInstructions', label: 'Return instructions', rows: 3, placeholder: 'Visit [store_website]/returns within 30 days...' },
+    { field: 'footerText', label: 'Footer', rows: 2, placeholder: 'Questions? [store_email]' }
+  ]
+
+  return (
+    <Transition.Root show={true} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={() => onClose(false)}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 z-10 overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative transform overflow-hidden rounded-lg bg-white text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-7xl">
+                {/* Header */}
+                <div className="flex items-center justify-between border-b px-6 py-4">
+                  <div className="flex items-center">
+                    <DocumentTextIcon className="h-6 w-6 text-indigo-600 mr-2" />
+                    <Dialog.Title as="h3" className="text-lg font-semibold leading-6 text-gray-900">
+                      Packing Slip — {store.storeName}
+                    </Dialog.Title>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => onClose(false)}
+                    className="rounded-md bg-white text-gray-400 hover:text-gray-500"
+                  >
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-5">
+                  {/* Settings */}
+                  <div className="space-y-6 border-r px-6 py-4 max-h-[75vh] overflow-y-auto lg:col-span-2">
+                    {apiError && (
+                      <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{apiError}</div>
+                    )}
+
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-900 mb-2">Layout blocks</h4>
+                      <ul className="divide-y divide-gray-100 rounded-md border border-gray-200">
+                        {template.blocks.map((block, index) => (
+                          <li key={block.type} className="flex items-center justify-between px-3 py-2">
+                            <label className="flex items-center text-sm text-gray-700">
+                              <input
+                                type="checkbox"
+                                checked={block.enabled}
+                                onChange={() => toggleBlock(index)}
+                                className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded mr-3"
+                              />
+                              {PACKING_SLIP_BLOCK_LABELS[block.type]}
+                            </label>
+                            <div className="flex items-center">
+                              <button
+                                type="button"
+                                onClick={() => moveBlock(index, -1)}
+                                disabled={index === 0}
+                                className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                                title="Move up"
+                              >
+                                <ChevronUpIcon className="h-4 w-4" />
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => moveBlock(index, 1)}
+                                disabled={index === template.blocks.length - 1}
+                                className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                                title="Move down"
+                              >
+                                <ChevronDownIcon className="h-4 w-4" />
+                              </button>
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                      {!store.logo && template.blocks.some(block => block.type === 'logo' && block.enabled) && (
+                        <p className="mt-1 text-xs text-amber-600">This store has no logo yet — add one in the store settings.</p>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={template.showPrices}
+                          onChange={(e) => setTemplate(prev => ({ ...prev, showPrices: e.target.checked }))}
+                          className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded mr-3"
+                        />
+                        Show prices
+                      </label>
+                      <p className="mt-1 ml-7 text-xs text-gray-500">Always hidden on orders with gift items.</p>
+                    </div>
+
+                    {textFields.map(({ field, label, rows, placeholder }) => (
+                      <div key={field}>
+                        <label className="block text-sm font-medium text-gray-700">{label}</label>
+                        {rows === 1 ? (
+                          <input
+                            type="text"
+                            value={template[field]}
+                            onChange={(e) => setTextField(field, e.target.value)}
+                            placeholder={placeholder}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                          />
+                        ) : (
+                          <textarea
+                            value={template[field]}
+                            onChange={(e) => setTextField(field, e.target.value)}
+                            placeholder={placeholder}
+                            rows={rows}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                          />
+                        )}
+                      </div>
+                    ))}
+
+                    <div className="rounded-md bg-gray-50 p-3">
+                      <h4 className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-2">Variables</h4>
+                      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                        {PACKING_SLIP_VARIABLES.map(variable => (
+                          <div key={variable.name} className="flex justify-between">
+                            <dt><code className="text-indigo-700">[{variable.name}]</code></dt>
+                            <dd className="text-gray-500">{variable.description}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                      {unsupportedVariables.length > 0 && (
+                        <p className="mt-2 text-xs text-red-600">
+                          Unknown: {unsupportedVariables.map(name => `[${name}]`).join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Live preview */}
+                  <div className="bg-gray-100 px-6 py-4 lg:col-span-3">
+                    <div className="flex items-center justify-between mb-3">
+                      <h4 className="text-sm font-medium text-gray-900">Preview</h4>
+                      {previewOrders.length > 0 && (
+                        <select
+                          value={previewOrderId}
+                          onChange={(e) => setPreviewOrderId(e.target.value)}
+                          className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                        >
+                          {previewOrders.map(order => (
+                            <option key={order.id} value={order.id}>
+                              #{order.orderNumber} — {order.customerName}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                    {loadingOrders ? (
+                      <div className="flex h-[65vh] items-center justify-center text-sm text-gray-500">Loading orders...</div>
+                    ) : previewHTML ? (
+                      <iframe
+                        title="Packing slip preview"
+                        sandbox=""
+                        srcDoc={previewHTML}
+                        className="h-[65vh] w-full rounded border border-gray-300 bg-white"
+                      />
+                    ) : (
+                      <div className="flex h-[65vh] items-center justify-center text-sm text-gray-500">
+                        This store has no orders to preview yet
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-between bg-gray-50 px-6 py-3">
+                  <button
+                    type="button"
+                    onClick={handleReset}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                  >
+                    Reset to default
+                  </button>
+                  <div className="flex gap-3">
+                    <button
+                      type="button"
+                      onClick={() => onClose(false)}
+                      className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleSave}
+                      disabled={isSaving}
+                      className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+                    >
+                      {isSaving ? 'Saving...' : 'Save Template'}
+                    </button>
+                  </div>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  )
+}
@@ -34,7 +34,8 @@ export default function StoreModal({ store, onClose }: StoreModalProps) {
     state: store?.address.state ?? '',
     zip: store?.address.zip ?? '',
     country: store?.address.country ?? 'United States',
-    countryCode: store?.address.countryCode ?? 'US'
+    countryCode: store?.address.countryCode ?? 'US',
+    handlingTimeDays: store?.handlingTimeDays ?? 0
   })
 
   const [logoUploadMethod, setLogoUploadMethod] = useState<'upload' | 'url'>('upload')
@@ -192,6 +193,7 @@ export default function StoreModal({ store, onClose }: StoreModalProps) {
         ...(formData.website && { website: formData.website }),
         ...(formData.email && { email: formData.email }),
         ...(formData.phone && { phone: formData.phone }),
+        handlingTimeDays: formData.handlingTimeDays ?? 0,
         address: {
           address1: formData.address1,
           ...(formData.address2 && { address2: formData.address2 }),
@@ -421,6 +423,27 @@ export default function StoreModal({ store, onClose }: StoreModalProps) {
                               </div>
                             )}
                           </div>
+
+                          {/* Handling time - added to ship-by deadlines */}
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700">
+                              Handling Time (business days)
+                            </label>
+                            <input
+                              type="number"
+                              min={0}
+                              max={30}
+                              value={formData.handlingTimeDays ?? 0}
+                              onChange={(e) => setFormData(prev => ({
+                                ...prev,
+                                handlingTimeDays: Math.min(30, Math.max(0, parseInt(e.target.value) || 0))
+                              }))}
+                              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                            />
+                            <p className="mt-1 text-xs text-gray-500">
+                              Business days after an order is placed before it must ship. 0 means same day when placed before the cutoff.
+                            </p>
+                          </div>
                         </div>
                       </div>
 
@@ -11,7 +11,8 @@ import {
   ChevronDownIcon,
   BuildingStorefrontIcon,
   BuildingOffice2Icon,
-  LinkIcon
+  LinkIcon,
+  DocumentTextIcon
 } from '@heroicons/react/24/outline'
 import { Store, StoreColumnConfig, StoreSortState, LinkedIntegration } from '../utils/storeTypes'
 import { storeApi } from '@/app/services/storeApi'
@@ -26,6 +27,7 @@ interface StoresTableProps {
   onSelectAll: () => void
   onViewStore: (store: Store) => void
   onEditStore: (store: Store) => void
+  onEditPackingSlip: (store: Store) => void
   onRefresh: () => void
 }
 
@@ -39,6 +41,7 @@ export default function StoresTable({
   onSelectAll,
   onViewStore,
   onEditStore,
+  onEditPackingSlip,
   onRefresh
 }: StoresTableProps) {
   const [deleteConfirm, setDeleteConfirm] = React.useState<string | null>(null)
@@ -201,6 +204,13 @@ export default function StoresTable({
             >
               <PencilIcon className="h-4 w-4" />
             </button>
+            <button
+              onClick={() => onEditPackingSlip(store)}
+              className="text-gray-500 hover:text-indigo-600"
+              title="Packing Slip Template"
+            >
+              <DocumentTextIcon className="h-4 w-4" />
+            </button>
             <button
               onClick={() => handleDelete(store.id)}
               className={`${
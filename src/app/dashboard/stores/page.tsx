@@ -7,6 +7,7 @@ import { useSearchParams } from 'next/navigation'
 import { BuildingStorefrontIcon } from '@heroicons/react/24/outline'
 import StoresTable from './components/StoresTable'
 import StoreModal from './components/StoreModal'
+import PackingSlipTemplateModal from './components/PackingSlipTemplateModal'
 import StoresToolbar from './components/StoresToolbar'
 import { Store, StoreSortState } from './utils/storeTypes'
 import { storeApi } from '@/app/services/storeApi'
@@ -26,6 +27,7 @@ function StoresContent({ accountId }: StoresContentProps) {
   const [stores, setStores] = useState<Store[]>([])
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [selectedStore, setSelectedStore] = useState<Store | null>(null)
+  const [packingSlipStore, setPackingSlipStore] = useState<Store | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -203,6 +205,7 @@ function StoresContent({ accountId }: StoresContentProps) {
         onSelectAll={() => handleSelectAll(sortedStores)}
         onViewStore={handleViewStore}
         onEditStore={handleEditStore}
+        onEditPackingSlip={setPackingSlipStore}
         onRefresh={loadStores}
       />
 
@@ -213,6 +216,16 @@ function StoresContent({ accountId }: StoresContentProps) {
           onClose={handleModalClose}
         />
       )}
+
+      {packingSlipStore && (
+        <PackingSlipTemplateModal
+          store={packingSlipStore}
+          onClose={(updated) => {
+            setPackingSlipStore(null)
+            if (updated) loadStores()
+          }}
+        />
+      )}
     </div>
   )
 }
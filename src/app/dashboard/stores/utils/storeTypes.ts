@@ -21,6 +21,12 @@ export interface Store {
   phone?: string | null  // ✅ Can be NULL in database
   address: Address
 
+  // Packing slip layout (null = default layout)
+  packingSlipTemplate?: PackingSlipTemplate | null
+
+  // Business days promised to ship an order (0 = same day before the carrier cutoff)
+  handlingTimeDays?: number
+
   // Timestamps
   createdAt: string
   updatedAt: string
@@ -42,6 +48,33 @@ export interface LinkedIntegration {
   provider?: string // e.g., 'Shopify', 'WooCommerce', 'USPS'
 }
 
+// Packing slip layout blocks, printed top to bottom in template order
+export type PackingSlipBlockType =
+  | 'logo'
+  | 'header'
+  | 'addresses'
+  | 'items'
+  | 'giftMessage'
+  | 'notes'
+  | 'returnInstructions'
+  | 'barcode'
+  | 'checklist'
+
+export interface PackingSlipBlock {
+  type: PackingSlipBlockType
+  enabled: boolean
+}
+
+// Text fields support the tokens in orders/utils/packingSlipVariables.ts
+export interface PackingSlipTemplate {
+  blocks: PackingSlipBlock[]
+  title: string                // Shown in the header, e.g. "PACKING SLIP"
+  headerMessage: string        // e.g. "Thanks for your order, [first_name]!"
+  returnInstructions: string
+  footerText: string
+  showPrices: boolean          // Ignored (hidden) when any item is a gift
+}
+
 export interface StoreFormData {
   id?: string  // ✅ ADDED: Stable identifier - undefined for create, required for edit (validated at runtime)
   storeName?: string
@@ -49,6 +82,7 @@ export interface StoreFormData {
   website?: string | null
   email?: string | null
   phone?: string | null
+  handlingTimeDays?: number
   address1: string
   address2?: string
   city: string
@@ -0,0 +1,219 @@
+//file path: app/dashboard/suppliers/components/SupplierModal.tsx
+
+'use client'
+
+import { Fragment, useState, useEffect } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon, BriefcaseIcon } from '@heroicons/react/24/outline'
+import { Supplier, SupplierFormData } from '@/lib/api/supplierApi'
+import { CURRENCY_OPTIONS } from '../../shared/utils/currency'
+import { useCurrency } from '../../shared/context/CurrencyContext'
+
+interface SupplierModalProps {
+  isOpen: boolean
+  onClose: () => void
+  supplier: Supplier | null          // null to create a new supplier
+  onSave: (data: SupplierFormData) => Promise<Supplier>
+}
+
+const EMPTY_FORM: SupplierFormData = {
+  name: '',
+  code: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  currency: '',
+  leadTimeDays: 14,
+  notes: '',
+  isActive: true
+}
+
+const inputClass = 'block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500'
+
+export default function SupplierModal({ isOpen, onClose, supplier, onSave }: SupplierModalProps) {
+  const { baseCurrency } = useCurrency()
+  const [formData, setFormData] = useState<SupplierFormData>(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!isOpen) return
+    setFormData(supplier ? {
+      name: supplier.name,
+      code: supplier.code || '',
+      contactName: supplier.contactName || '',
+      email: supplier.email || '',
+      phone: supplier.phone || '',
+      currency: supplier.currency,
+      leadTimeDays: supplier.leadTimeDays,
+      notes: supplier.notes || '',
+      isActive: supplier.isActive
+    } : { ...EMPTY_FORM, currency: baseCurrency })
+    setError('')
+  }, [isOpen, supplier, baseCurrency])
+
+  const updateField = <K extends keyof SupplierFormData>(field: K, value: SupplierFormData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      setError('Supplier name is required')
+      return
+    }
+
+    setIsSaving(true)
+    setError('')
+    try {
+      await onSave({
+        ...formData,
+        name: formData.name.trim(),
+        code: formData.code?.trim() || undefined,
+        contactName: formData.contactName?.trim() || undefined,
+        email: formData.email?.trim() || undefined,
+        phone: formData.phone?.trim() || undefined,
+        notes: formData.notes?.trim() || undefined
+      })
+      onClose()
+    } catch (err: any) {
+      setError(err.message || 'Failed to save supplier')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                  <div className="flex items-center gap-2">
+                    <BriefcaseIcon className="h-6 w-6 text-indigo-600" />
+                    <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                      {supplier ? `Edit ${supplier.name}` : 'New Supplier'}
+                    </Dialog.Title>
+                  </div>
+                  <button onClick={onClose} className="rounded-md bg-white text-gray-400 hover:text-gray-500">
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="px-6 py-4 space-y-4">
+                  {error && (
+                    <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+                  )}
+
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                      <input type="text" value={formData.name} onChange={(e) => updateField('name', e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+                      <input type="text" value={formData.code} onChange={(e) => updateField('code', e.target.value)} className={inputClass} />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Contact</label>
+                      <input type="text" value={formData.contactName} onChange={(e) => updateField('contactName', e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+                      <input type="tel" value={formData.phone} onChange={(e) => updateField('phone', e.target.value)} className={inputClass} />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                    <input type="email" value={formData.email} onChange={(e) => updateField('email', e.target.value)} className={inputClass} />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+                      <select value={formData.currency} onChange={(e) => updateField('currency', e.target.value)} className={inputClass}>
+                        {CURRENCY_OPTIONS.map(currency => (
+                          <option key={currency} value={currency}>{currency}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Lead time (days)</label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={formData.leadTimeDays}
+                        onChange={(e) => updateField('leadTimeDays', Math.max(0, Math.floor(Number(e.target.value)) || 0))}
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                    <textarea rows={2} value={formData.notes} onChange={(e) => updateField('notes', e.target.value)} className={inputClass} />
+                  </div>
+
+                  <label className="flex items-center gap-2 text-sm text-gray-900">
+                    <input
+                      type="checkbox"
+                      checked={formData.isActive}
+                      onChange={(e) => updateField('isActive', e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-600"
+                    />
+                    Active - available on new purchase orders
+                  </label>
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-3 border-t border-gray-200 bg-gray-50 px-6 py-4">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSaving ? 'Saving...' : supplier ? 'Save Changes' : 'Create Supplier'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,319 @@
+//file path: app/dashboard/suppliers/components/SupplierProductsModal.tsx
+
+'use client'
+
+import { Fragment, useState, useEffect, useMemo } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon, CurrencyDollarIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { Supplier, SupplierProductData } from '@/lib/api/supplierApi'
+import { ProductAPI } from '@/lib/api/productApi'
+import { Product } from '../../products/utils/productTypes'
+import { useSupplierProducts } from '../hooks/useSupplierProducts'
+
+interface SupplierProductsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  supplier: Supplier
+}
+
+// An editable row - `saved` is false until the SKU has been stored for this supplier
+interface ProductRow extends SupplierProductData {
+  sku: string
+  productName: string
+  updatedAt: string | null
+  saved: boolean
+  dirty: boolean
+}
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500'
+
+/**
+ * What a supplier charges for each SKU and how long it takes to arrive
+ */
+export default function SupplierProductsModal({ isOpen, onClose, supplier }: SupplierProductsModalProps) {
+  const { products, isLoading, error: loadError, saveProduct, removeProduct } = useSupplierProducts(isOpen ? supplier.id : null)
+  const [catalog, setCatalog] = useState<Product[]>([])
+  const [rows, setRows] = useState<ProductRow[]>([])
+  const [skuSearch, setSkuSearch] = useState('')
+  const [savingProductId, setSavingProductId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!isOpen) return
+    setSkuSearch('')
+    setError('')
+    ProductAPI.getProducts()
+      .then(setCatalog)
+      .catch(err => console.error('[SupplierProductsModal] Error loading products:', err))
+  }, [isOpen])
+
+  // Rebuild from the server list, keeping edits on rows that haven't been saved since
+  useEffect(() => {
+    setRows(prev => {
+      const pending = new Map(prev.filter(row => row.dirty).map(row => [row.productId, row]))
+      const savedRows = products.map(p => {
+        const edited = pending.get(p.productId)
+        if (edited && edited.updatedAt === p.updatedAt) return edited
+        return {
+          productId: p.productId,
+          sku: p.sku,
+          productName: p.productName,
+          supplierSku: p.supplierSku || '',
+          unitCost: p.unitCost,
+          leadTimeDays: p.leadTimeDays,
+          minOrderQuantity: p.minOrderQuantity,
+          updatedAt: p.updatedAt,
+          saved: true,
+          dirty: false
+        }
+      })
+      const unsavedRows = prev.filter(row => !row.saved && !products.some(p => p.productId === row.productId))
+      return [...savedRows, ...unsavedRows]
+    })
+  }, [products])
+
+  const matchingProducts = useMemo(() => {
+    const term = skuSearch.trim().toLowerCase()
+    if (!term) return []
+    const listed = new Set(rows.map(row => row.productId))
+    return catalog
+      .filter(p => !listed.has(p.id))
+      .filter(p => p.sku.toLowerCase().includes(term) || p.name.toLowerCase().includes(term))
+      .slice(0, 8)
+  }, [catalog, skuSearch, rows])
+
+  const addRow = (product: Product) => {
+    setRows(prev => [...prev, {
+      productId: product.id,
+      sku: product.sku,
+      productName: product.name,
+      supplierSku: '',
+      unitCost: product.costPrice || 0,
+      leadTimeDays: undefined,
+      minOrderQuantity: undefined,
+      updatedAt: null,
+      saved: false,
+      dirty: true
+    }])
+    setSkuSearch('')
+  }
+
+  const updateRow = (productId: string, updates: Partial<SupplierProductData>) => {
+    setRows(prev => prev.map(row => row.productId === productId ? { ...row, ...updates, dirty: true } : row))
+  }
+
+  const handleSave = async (row: ProductRow) => {
+    setSavingProductId(row.productId)
+    setError('')
+    try {
+      await saveProduct({
+        productId: row.productId,
+        supplierSku: row.supplierSku?.trim() || undefined,
+        unitCost: row.unitCost,
+        leadTimeDays: row.leadTimeDays,
+        minOrderQuantity: row.minOrderQuantity
+      })
+    } catch (err: any) {
+      setError(err.message || `Failed to save ${row.sku}`)
+    } finally {
+      setSavingProductId(null)
+    }
+  }
+
+  const handleRemove = async (row: ProductRow) => {
+    if (!row.saved) {
+      setRows(prev => prev.filter(r => r.productId !== row.productId))
+      return
+    }
+    if (!confirm(`Remove ${row.sku} from ${supplier.name}?`)) return
+    try {
+      await removeProduct(row.productId)
+    } catch (err: any) {
+      setError(err.message || `Failed to remove ${row.sku}`)
+    }
+  }
+
+  // Empty inputs fall back to the supplier default (lead time) or no minimum
+  const parseOptional = (value: string) => value === '' ? undefined : Math.max(0, Math.floor(Number(value)) || 0)
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-4xl transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                  <div className="flex items-center gap-2">
+                    <CurrencyDollarIcon className="h-6 w-6 text-indigo-600" />
+                    <div>
+                      <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                        SKU Costs - {supplier.name}
+                      </Dialog.Title>
+                      <p className="text-sm text-gray-500">
+                        Costs in {supplier.currency} · default lead time {supplier.leadTimeDays} days
+                      </p>
+                    </div>
+                  </div>
+                  <button onClick={onClose} className="rounded-md bg-white text-gray-400 hover:text-gray-500">
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="max-h-[70vh] overflow-y-auto px-6 py-4 space-y-4">
+                  {(error || loadError) && (
+                    <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error || loadError}</div>
+                  )}
+
+                  <div>
+                    <input
+                      type="text"
+                      value={skuSearch}
+                      onChange={(e) => setSkuSearch(e.target.value)}
+                      placeholder="Add a SKU - search by SKU or product name"
+                      className="block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                    />
+                    {matchingProducts.length > 0 && (
+                      <ul className="mt-1 max-h-48 overflow-y-auto rounded-md border border-gray-200 divide-y divide-gray-100">
+                        {matchingProducts.map(product => (
+                          <li key={product.id}>
+                            <button
+                              type="button"
+                              onClick={() => addRow(product)}
+                              className="w-full px-3 py-2 text-left text-sm hover:bg-gray-50"
+                            >
+                              <span className="font-medium text-gray-900">{product.sku}</span>
+                              <span className="ml-2 text-gray-500">{product.name}</span>
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  {isLoading ? (
+                    <p className="py-8 text-center text-sm text-gray-500">Loading...</p>
+                  ) : rows.length === 0 ? (
+                    <p className="py-8 text-center text-sm text-gray-500">No SKUs from this supplier yet</p>
+                  ) : (
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-gray-500">
+                          <th className="py-1 pr-3 font-medium">Item</th>
+                          <th className="py-1 pr-3 font-medium w-32">Supplier SKU</th>
+                          <th className="py-1 pr-3 font-medium w-28">Unit cost</th>
+                          <th className="py-1 pr-3 font-medium w-24">Lead days</th>
+                          <th className="py-1 pr-3 font-medium w-24">Min qty</th>
+                          <th className="py-1 w-24"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {rows.map(row => (
+                          <tr key={row.productId}>
+                            <td className="py-2 pr-3">
+                              <p className="text-gray-900">{row.productName}</p>
+                              <p className="text-xs text-gray-500">SKU: {row.sku}</p>
+                            </td>
+                            <td className="py-2 pr-3">
+                              <input
+                                type="text"
+                                value={row.supplierSku}
+                                onChange={(e) => updateRow(row.productId, { supplierSku: e.target.value })}
+                                className={inputClass}
+                              />
+                            </td>
+                            <td className="py-2 pr-3">
+                              <input
+                                type="number"
+                                min={0}
+                                step="0.01"
+                                value={row.unitCost}
+                                onChange={(e) => updateRow(row.productId, { unitCost: Math.max(0, Number(e.target.value) || 0) })}
+                                className={inputClass}
+                              />
+                            </td>
+                            <td className="py-2 pr-3">
+                              <input
+                                type="number"
+                                min={0}
+                                value={row.leadTimeDays ?? ''}
+                                placeholder={String(supplier.leadTimeDays)}
+                                onChange={(e) => updateRow(row.productId, { leadTimeDays: parseOptional(e.target.value) })}
+                                className={inputClass}
+                              />
+                            </td>
+                            <td className="py-2 pr-3">
+                              <input
+                                type="number"
+                                min={0}
+                                value={row.minOrderQuantity ?? ''}
+                                onChange={(e) => updateRow(row.productId, { minOrderQuantity: parseOptional(e.target.value) })}
+                                className={inputClass}
+                              />
+                            </td>
+                            <td className="py-2 text-right whitespace-nowrap">
+                              {row.dirty && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleSave(row)}
+                                  disabled={savingProductId === row.productId}
+                                  className="mr-3 font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+                                >
+                                  {savingProductId === row.productId ? 'Saving...' : 'Save'}
+                                </button>
+                              )}
+                              <button
+                                type="button"
+                                onClick={() => handleRemove(row)}
+                                className="text-gray-400 hover:text-red-600 align-middle"
+                                title="Remove"
+                              >
+                                <TrashIcon className="h-4 w-4" />
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-3 border-t border-gray-200 bg-gray-50 px-6 py-4">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                  >
+                    Done
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
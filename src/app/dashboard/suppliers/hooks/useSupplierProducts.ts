@@ -0,0 +1,72 @@
+//file path: app/dashboard/suppliers/hooks/useSupplierProducts.ts
+
+import { useState, useEffect, useCallback } from 'react'
+import { SupplierAPI, SupplierProduct, SupplierProductData } from '@/lib/api/supplierApi'
+
+/**
+ * Hook for one supplier's SKU costs and lead times
+ * Pass null to skip loading (e.g. while no supplier is selected)
+ */
+export function useSupplierProducts(supplierId: string | null) {
+  const [products, setProducts] = useState<SupplierProduct[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadProducts = useCallback(async () => {
+    if (!supplierId) {
+      setProducts([])
+      return
+    }
+    try {
+      setIsLoading(true)
+      setError(null)
+      const data = await SupplierAPI.getSupplierProducts(supplierId)
+      setProducts(data)
+    } catch (err: any) {
+      console.error('[useSupplierProducts] Error loading supplier products:', err)
+      setError(err.message || 'Failed to load supplier products')
+      setProducts([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [supplierId])
+
+  useEffect(() => {
+    loadProducts()
+  }, [loadProducts])
+
+  const saveProduct = useCallback(async (data: SupplierProductData) => {
+    if (!supplierId) return
+    try {
+      const saved = await SupplierAPI.saveSupplierProduct(supplierId, data)
+      setProducts(prev => prev.some(p => p.productId === saved.productId)
+        ? prev.map(p => p.productId === saved.productId ? saved : p)
+        : [...prev, saved]
+      )
+      return saved
+    } catch (err: any) {
+      console.error('[useSupplierProducts] Error saving supplier product:', err)
+      throw err
+    }
+  }, [supplierId])
+
+  const removeProduct = useCallback(async (productId: string) => {
+    if (!supplierId) return
+    try {
+      await SupplierAPI.removeSupplierProduct(supplierId, productId)
+      setProducts(prev => prev.filter(p => p.productId !== productId))
+    } catch (err: any) {
+      console.error('[useSupplierProducts] Error removing supplier product:', err)
+      throw err
+    }
+  }, [supplierId])
+
+  return {
+    products,
+    isLoading,
+    error,
+    refreshProducts: loadProducts,
+    saveProduct,
+    removeProduct
+  }
+}
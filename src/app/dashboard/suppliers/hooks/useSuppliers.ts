@@ -0,0 +1,74 @@
+//file path: app/dashboard/suppliers/hooks/useSuppliers.ts
+
+import { useState, useEffect, useCallback } from 'react'
+import { SupplierAPI, Supplier, SupplierFormData } from '@/lib/api/supplierApi'
+
+/**
+ * Hook for the supplier list
+ */
+export function useSuppliers() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSuppliers = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const data = await SupplierAPI.getSuppliers()
+      setSuppliers(data)
+    } catch (err: any) {
+      console.error('[useSuppliers] Error loading suppliers:', err)
+      setError(err.message || 'Failed to load suppliers')
+      setSuppliers([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadSuppliers()
+  }, [loadSuppliers])
+
+  const createSupplier = useCallback(async (data: SupplierFormData) => {
+    try {
+      const supplier = await SupplierAPI.createSupplier(data)
+      setSuppliers(prev => [...prev, supplier].sort((a, b) => a.name.localeCompare(b.name)))
+      return supplier
+    } catch (err: any) {
+      console.error('[useSuppliers] Error creating supplier:', err)
+      throw err
+    }
+  }, [])
+
+  const updateSupplier = useCallback(async (supplierId: string, data: Partial<SupplierFormData>) => {
+    try {
+      const supplier = await SupplierAPI.updateSupplier(supplierId, data)
+      setSuppliers(prev => prev.map(s => s.id === supplier.id ? supplier : s))
+      return supplier
+    } catch (err: any) {
+      console.error('[useSuppliers] Error updating supplier:', err)
+      throw err
+    }
+  }, [])
+
+  const deleteSupplier = useCallback(async (supplierId: string) => {
+    try {
+      await SupplierAPI.deleteSupplier(supplierId)
+      setSuppliers(prev => prev.filter(s => s.id !== supplierId))
+    } catch (err: any) {
+      console.error('[useSuppliers] Error deleting supplier:', err)
+      throw err
+    }
+  }, [])
+
+  return {
+    suppliers,
+    isLoading,
+    error,
+    refreshSuppliers: loadSuppliers,
+    createSupplier,
+    updateSupplier,
+    deleteSupplier
+  }
+}
@@ -0,0 +1,218 @@
+//file path: app/dashboard/suppliers/page.tsx
+
+'use client'
+
+import { useState, useMemo } from 'react'
+import Link from 'next/link'
+import { BriefcaseIcon, ArrowPathIcon, MagnifyingGlassIcon, PlusIcon, ShieldExclamationIcon } from '@heroicons/react/24/outline'
+import SupplierModal from './components/SupplierModal'
+import SupplierProductsModal from './components/SupplierProductsModal'
+import { useSuppliers } from './hooks/useSuppliers'
+import { withAuth } from '../shared/components/withAuth'
+import { hasPermission } from '../layout'
+import { useAccountInitialization } from '@/hooks/useAccountInitialization'
+import { Supplier, SupplierFormData } from '@/lib/api/supplierApi'
+
+function SuppliersPageContent() {
+  const { user: currentUser } = useAccountInitialization()
+  const [searchTerm, setSearchTerm] = useState('')
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null)
+  const [showSupplierModal, setShowSupplierModal] = useState(false)
+  const [costsSupplier, setCostsSupplier] = useState<Supplier | null>(null)
+
+  const {
+    suppliers,
+    isLoading,
+    error,
+    refreshSuppliers,
+    createSupplier,
+    updateSupplier,
+    deleteSupplier
+  } = useSuppliers()
+
+  const filteredSuppliers = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase()
+    if (!term) return suppliers
+    return suppliers.filter(s =>
+      s.name.toLowerCase().includes(term) ||
+      s.code?.toLowerCase().includes(term) ||
+      s.contactName?.toLowerCase().includes(term) ||
+      s.email?.toLowerCase().includes(term)
+    )
+  }, [suppliers, searchTerm])
+
+  const openSupplierModal = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier)
+    setShowSupplierModal(true)
+  }
+
+  const handleSave = (data: SupplierFormData) => {
+    return editingSupplier ? updateSupplier(editingSupplier.id, data) : createSupplier(data)
+  }
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!confirm(`Delete ${supplier.name}? Its SKU costs will be removed.`)) return
+    try {
+      await deleteSupplier(supplier.id)
+    } catch (err: any) {
+      alert(err.message || 'Failed to delete supplier')
+    }
+  }
+
+  if (!hasPermission(currentUser, 'canManageSuppliers')) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 text-center">
+        <ShieldExclamationIcon className="h-12 w-12 text-gray-400 mb-4" />
+        <h2 className="text-lg font-medium text-gray-900">Access Denied</h2>
+        <p className="text-gray-500 mt-1">
+          You don't have permission to manage suppliers.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center mb-6">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold leading-6 text-gray-900">Suppliers</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Who you buy from, what each SKU costs and how long it takes to arrive. Order stock from{' '}
+            <Link href="/dashboard/purchase-orders" className="text-indigo-600 hover:text-indigo-500">Purchase Orders</Link>.
+          </p>
+        </div>
+        <div className="mt-4 sm:ml-16 sm:mt-0 flex items-center gap-3">
+          <button
+            type="button"
+            onClick={refreshSuppliers}
+            className="rounded-md bg-white p-2 text-gray-500 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+            title="Refresh"
+          >
+            <ArrowPathIcon className={`h-5 w-5 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+          <button
+            type="button"
+            onClick={() => openSupplierModal(null)}
+            className="inline-flex items-center gap-1 rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+          >
+            <PlusIcon className="h-5 w-5" />
+            New Supplier
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <div className="relative w-full max-w-sm">
+          <MagnifyingGlassIcon className="pointer-events-none absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search by name, code or contact"
+            className="block w-full rounded-md border-gray-300 pl-9 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="overflow-hidden bg-white shadow ring-1 ring-black ring-opacity-5 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-300">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="py-3 pl-4 pr-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Supplier</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Contact</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Currency</th>
+              <th className="px-3 py-3 text-right text-xs font-medium uppercase tracking-wide text-gray-500">Lead Time</th>
+              <th className="px-3 py-3 text-right text-xs font-medium uppercase tracking-wide text-gray-500">SKUs</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Status</th>
+              <th className="py-3 pl-3 pr-4 text-right text-xs font-medium uppercase tracking-wide text-gray-500">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {!isLoading && filteredSuppliers.length === 0 && (
+              <tr>
+                <td colSpan={7} className="py-12 text-center text-sm text-gray-500">
+                  <BriefcaseIcon className="mx-auto h-8 w-8 text-gray-300 mb-2" />
+                  No suppliers
+                </td>
+              </tr>
+            )}
+            {filteredSuppliers.map(supplier => (
+              <tr key={supplier.id} className="align-top">
+                <td className="whitespace-nowrap py-3 pl-4 pr-3 text-sm">
+                  <p className="font-medium text-gray-900">{supplier.name}</p>
+                  {supplier.code && <p className="text-xs text-gray-500">{supplier.code}</p>}
+                </td>
+                <td className="px-3 py-3 text-sm text-gray-700">
+                  {supplier.contactName || '—'}
+                  {supplier.email && (
+                    <a href={`mailto:${supplier.email}`} className="block text-xs text-indigo-600 hover:text-indigo-500">{supplier.email}</a>
+                  )}
+                  {supplier.phone && <p className="text-xs text-gray-500">{supplier.phone}</p>}
+                </td>
+                <td className="whitespace-nowrap px-3 py-3 text-sm text-gray-700">{supplier.currency}</td>
+                <td className="whitespace-nowrap px-3 py-3 text-right text-sm text-gray-700">{supplier.leadTimeDays} days</td>
+                <td className="whitespace-nowrap px-3 py-3 text-right text-sm text-gray-700">{supplier.productCount}</td>
+                <td className="whitespace-nowrap px-3 py-3 text-sm">
+                  <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${
+                    supplier.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-500'
+                  }`}>
+                    {supplier.isActive ? 'Active' : 'Inactive'}
+                  </span>
+                </td>
+                <td className="whitespace-nowrap py-3 pl-3 pr-4 text-right text-sm">
+                  <div className="flex justify-end gap-3">
+                    <button
+                      type="button"
+                      onClick={() => setCostsSupplier(supplier)}
+                      className="font-medium text-indigo-600 hover:text-indigo-500"
+                    >
+                      SKU Costs
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => openSupplierModal(supplier)}
+                      className="font-medium text-indigo-600 hover:text-indigo-500"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(supplier)}
+                      className="font-medium text-gray-500 hover:text-red-600"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <SupplierModal
+        isOpen={showSupplierModal}
+        onClose={() => setShowSupplierModal(false)}
+        supplier={editingSupplier}
+        onSave={handleSave}
+      />
+
+      {costsSupplier && (
+        <SupplierProductsModal
+          isOpen={costsSupplier !== null}
+          onClose={() => {
+            setCostsSupplier(null)
+            refreshSuppliers()
+          }}
+          supplier={costsSupplier}
+        />
+      )}
+    </div>
+  )
+}
+
+export default withAuth(SuppliersPageContent)
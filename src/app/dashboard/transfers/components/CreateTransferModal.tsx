@@ -0,0 +1,321 @@
+//file path: app/dashboard/transfers/components/CreateTransferModal.tsx
+
+'use client'
+
+import { Fragment, useState, useEffect, useMemo } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon, ArrowsRightLeftIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { CreateTransferData, TransferOrder } from '@/lib/api/transferApi'
+import { WarehouseAPI } from '@/lib/api/warehouseApi'
+import { Warehouse, WarehouseInventoryItem } from '../../warehouses/utils/warehouseTypes'
+import { validateTransfer } from '../utils/transferUtils'
+
+interface CreateTransferModalProps {
+  isOpen: boolean
+  onClose: () => void
+  warehouses: Warehouse[]
+  defaultSourceWarehouseId?: string
+  onCreate: (data: CreateTransferData) => Promise<TransferOrder>
+}
+
+export default function CreateTransferModal({
+  isOpen,
+  onClose,
+  warehouses,
+  defaultSourceWarehouseId = '',
+  onCreate
+}: CreateTransferModalProps) {
+  const [sourceWarehouseId, setSourceWarehouseId] = useState('')
+  const [destinationWarehouseId, setDestinationWarehouseId] = useState('')
+  const [sourceInventory, setSourceInventory] = useState<WarehouseInventoryItem[]>([])
+  const [loadingInventory, setLoadingInventory] = useState(false)
+  const [quantities, setQuantities] = useState<Record<string, number>>({})   // productId -> units
+  const [skuSearch, setSkuSearch] = useState('')
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const activeWarehouses = warehouses.filter(w => w.status === 'ACTIVE')
+
+  // Reset form each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return
+    setSourceWarehouseId(defaultSourceWarehouseId)
+    setDestinationWarehouseId('')
+    setQuantities({})
+    setSkuSearch('')
+    setNotes('')
+    setError('')
+  }, [isOpen, defaultSourceWarehouseId])
+
+  // Lines are only valid for the source they were picked from
+  useEffect(() => {
+    setQuantities({})
+    setSourceInventory([])
+    if (!isOpen || !sourceWarehouseId) return
+
+    setLoadingInventory(true)
+    WarehouseAPI.getInventory(sourceWarehouseId)
+      .then(setSourceInventory)
+      .catch(err => {
+        console.error('[CreateTransferModal] Error loading source inventory:', err)
+        setError('Failed to load stock at the source warehouse')
+      })
+      .finally(() => setLoadingInventory(false))
+  }, [isOpen, sourceWarehouseId])
+
+  const inventoryByProduct = useMemo(
+    () => new Map(sourceInventory.map(item => [item.productId, item])),
+    [sourceInventory]
+  )
+
+  const lineItems = Object.keys(quantities)
+    .map(productId => inventoryByProduct.get(productId))
+    .filter((item): item is WarehouseInventoryItem => item !== undefined)
+
+  // SKUs with stock to spare that aren't on the transfer yet
+  const matchingItems = useMemo(() => {
+    const term = skuSearch.trim().toLowerCase()
+    if (!term) return []
+    return sourceInventory
+      .filter(item => item.availableQuantity > 0 && !(item.productId in quantities))
+      .filter(item => item.sku.toLowerCase().includes(term) || item.productName.toLowerCase().includes(term))
+      .slice(0, 8)
+  }, [sourceInventory, skuSearch, quantities])
+
+  const addLine = (item: WarehouseInventoryItem) => {
+    setQuantities(prev => ({ ...prev, [item.productId]: 1 }))
+    setSkuSearch('')
+  }
+
+  const removeLine = (productId: string) => {
+    setQuantities(prev => {
+      const next = { ...prev }
+      delete next[productId]
+      return next
+    })
+  }
+
+  const handleCreate = async () => {
+    const data: CreateTransferData = {
+      sourceWarehouseId,
+      destinationWarehouseId,
+      lines: Object.entries(quantities).map(([productId, quantity]) => ({ productId, quantity })),
+      notes: notes.trim() || undefined
+    }
+
+    const validationError = validateTransfer(data, sourceInventory)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setIsSaving(true)
+    setError('')
+    try {
+      await onCreate({ ...data, lines: data.lines.filter(line => line.quantity > 0) })
+      onClose()
+    } catch (err: any) {
+      setError(err.message || 'Failed to create transfer')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-3xl transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                  <div className="flex items-center gap-2">
+                    <ArrowsRightLeftIcon className="h-6 w-6 text-indigo-600" />
+                    <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                      New Transfer
+                    </Dialog.Title>
+                  </div>
+                  <button onClick={onClose} className="rounded-md bg-white text-gray-400 hover:text-gray-500">
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="max-h-[70vh] overflow-y-auto px-6 py-4 space-y-6">
+                  {error && (
+                    <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+                  )}
+
+                  {/* Warehouses */}
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                      <select
+                        value={sourceWarehouseId}
+                        onChange={(e) => setSourceWarehouseId(e.target.value)}
+                        className="block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                      >
+                        <option value="">Select warehouse</option>
+                        {activeWarehouses.map(w => (
+                          <option key={w.id} value={w.id}>{w.name} ({w.code})</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                      <select
+                        value={destinationWarehouseId}
+                        onChange={(e) => setDestinationWarehouseId(e.target.value)}
+                        className="block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                      >
+                        <option value="">Select warehouse</option>
+                        {activeWarehouses.filter(w => w.id !== sourceWarehouseId).map(w => (
+                          <option key={w.id} value={w.id}>{w.name} ({w.code})</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  {/* Add SKUs */}
+                  {sourceWarehouseId && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Add SKU</label>
+                      <input
+                        type="text"
+                        value={skuSearch}
+                        onChange={(e) => setSkuSearch(e.target.value)}
+                        placeholder={loadingInventory ? 'Loading stock...' : 'Search by SKU or product name'}
+                        disabled={loadingInventory}
+                        className="block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                      />
+                      {matchingItems.length > 0 && (
+                        <ul className="mt-1 max-h-48 overflow-y-auto rounded-md border border-gray-200 divide-y divide-gray-100">
+                          {matchingItems.map(item => (
+                            <li key={item.productId}>
+                              <button
+                                type="button"
+                                onClick={() => addLine(item)}
+                                className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-gray-50"
+                              >
+                                <span>
+                                  <span className="font-medium text-gray-900">{item.sku}</span>
+                                  <span className="ml-2 text-gray-500">{item.productName}</span>
+                                </span>
+                                <span className="text-xs text-gray-500">{item.availableQuantity} available</span>
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Lines */}
+                  {lineItems.length > 0 && (
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-gray-500">
+                          <th className="py-1 pr-3 font-medium">Item</th>
+                          <th className="py-1 pr-3 font-medium w-24 text-center">Available</th>
+                          <th className="py-1 pr-3 font-medium w-24">Quantity</th>
+                          <th className="py-1 w-8"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {lineItems.map(item => (
+                          <tr key={item.productId}>
+                            <td className="py-2 pr-3">
+                              <p className="text-gray-900">{item.productName}</p>
+                              <p className="text-xs text-gray-500">SKU: {item.sku}</p>
+                            </td>
+                            <td className="py-2 pr-3 text-center text-gray-700">{item.availableQuantity}</td>
+                            <td className="py-2 pr-3">
+                              <input
+                                type="number"
+                                min={1}
+                                max={item.availableQuantity}
+                                value={quantities[item.productId]}
+                                onChange={(e) => setQuantities(prev => ({
+                                  ...prev,
+                                  [item.productId]: Math.max(0, Math.floor(Number(e.target.value)) || 0)
+                                }))}
+                                className="w-full rounded-md border border-gray-300 px-2 py-1 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                              />
+                            </td>
+                            <td className="py-2 text-right">
+                              <button
+                                type="button"
+                                onClick={() => removeLine(item.productId)}
+                                className="text-gray-400 hover:text-red-600"
+                                title="Remove"
+                              >
+                                <TrashIcon className="h-4 w-4" />
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                    <textarea
+                      rows={2}
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      className="block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                    />
+                  </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-between gap-3 border-t border-gray-200 bg-gray-50 px-6 py-4">
+                  <p className="text-xs text-gray-500">Saved as a draft. Stock leaves the source when you ship it.</p>
+                  <div className="flex gap-3">
+                    <button
+                      type="button"
+                      onClick={onClose}
+                      className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleCreate}
+                      disabled={isSaving || lineItems.length === 0}
+                      className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isSaving ? 'Creating...' : 'Create Transfer'}
+                    </button>
+                  </div>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,260 @@
+//file path: app/dashboard/transfers/components/ReceiveTransferModal.tsx
+
+'use client'
+
+import { Fragment, useState, useEffect, useMemo } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon, InboxArrowDownIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import { TransferOrder, TransferReceiptLine, ReceiveTransferData } from '@/lib/api/transferApi'
+import { DISCREPANCY_REASON_LABELS } from '../constants/transferConstants'
+import { getOutstandingQuantity, getReceiptDiscrepancies } from '../utils/transferUtils'
+
+// Good and damaged units counted for one line
+interface LineReceipt {
+  good: number
+  damaged: number
+}
+
+const EMPTY_RECEIPT: LineReceipt = { good: 0, damaged: 0 }
+
+interface ReceiveTransferModalProps {
+  isOpen: boolean
+  onClose: () => void
+  transfer: TransferOrder
+  destinationWarehouseName: string
+  onReceive: (transferId: string, data: ReceiveTransferData) => Promise<TransferOrder>
+}
+
+export default function ReceiveTransferModal({
+  isOpen,
+  onClose,
+  transfer,
+  destinationWarehouseName,
+  onReceive
+}: ReceiveTransferModalProps) {
+  const [receipts, setReceipts] = useState<Record<string, LineReceipt>>({})
+  const [close, setClose] = useState(true)
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  // Default every outstanding unit to received in good condition
+  useEffect(() => {
+    if (!isOpen) return
+    setReceipts(Object.fromEntries(transfer.lines.map(line => [
+      line.id,
+      { ...EMPTY_RECEIPT, good: getOutstandingQuantity(line) }
+    ])))
+    setClose(true)
+    setNotes('')
+    setError('')
+  }, [isOpen, transfer])
+
+  const receiptLines = useMemo<TransferReceiptLine[]>(() => (
+    transfer.lines
+      .map(line => {
+        const receipt = receipts[line.id] || EMPTY_RECEIPT
+        return { lineId: line.id, quantity: receipt.good, damagedQuantity: receipt.damaged || undefined }
+      })
+      .filter(line => line.quantity > 0 || (line.damagedQuantity || 0) > 0)
+  ), [transfer, receipts])
+
+  const discrepancies = useMemo(
+    () => getReceiptDiscrepancies(transfer, receiptLines, close),
+    [transfer, receiptLines, close]
+  )
+
+  const updateReceipt = (lineId: string, updates: Partial<LineReceipt>) => {
+    setReceipts(prev => ({ ...prev, [lineId]: { ...EMPTY_RECEIPT, ...prev[lineId], ...updates } }))
+  }
+
+  const handleReceive = async () => {
+    if (receiptLines.length === 0 && !close) {
+      setError('Enter the units that arrived')
+      return
+    }
+
+    setIsSaving(true)
+    setError('')
+    try {
+      await onReceive(transfer.id, {
+        lines: receiptLines,
+        close,
+        notes: notes.trim() || undefined
+      })
+      onClose()
+    } catch (err: any) {
+      setError(err.message || 'Failed to receive transfer')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-3xl transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                  <div className="flex items-center gap-2">
+                    <InboxArrowDownIcon className="h-6 w-6 text-indigo-600" />
+                    <div>
+                      <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                        Receive {transfer.transferNumber}
+                      </Dialog.Title>
+                      <p className="text-sm text-gray-500">Into {destinationWarehouseName}</p>
+                    </div>
+                  </div>
+                  <button onClick={onClose} className="rounded-md bg-white text-gray-400 hover:text-gray-500">
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="max-h-[70vh] overflow-y-auto px-6 py-4 space-y-6">
+                  {error && (
+                    <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+                  )}
+
+                  {/* Counts per line */}
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="py-1 pr-3 font-medium">Item</th>
+                        <th className="py-1 pr-3 font-medium w-20 text-center">Shipped</th>
+                        <th className="py-1 pr-3 font-medium w-16 text-center">Left</th>
+                        <th className="py-1 pr-3 font-medium w-24" title="Added to destination stock">Good</th>
+                        <th className="py-1 font-medium w-24" title="Written off - not added to stock">Damaged</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {transfer.lines.map(line => {
+                        const outstanding = getOutstandingQuantity(line)
+                        const receipt = receipts[line.id] || EMPTY_RECEIPT
+
+                        return (
+                          <tr key={line.id} className={outstanding === 0 ? 'opacity-50' : ''}>
+                            <td className="py-2 pr-3">
+                              <p className="text-gray-900">{line.productName}</p>
+                              <p className="text-xs text-gray-500">SKU: {line.sku}</p>
+                            </td>
+                            <td className="py-2 pr-3 text-center text-gray-700">{line.quantity}</td>
+                            <td className="py-2 pr-3 text-center text-gray-700">{outstanding}</td>
+                            <td className="py-2 pr-3">
+                              <input
+                                type="number"
+                                min={0}
+                                value={receipt.good}
+                                onChange={(e) => updateReceipt(line.id, {
+                                  good: Math.max(0, Math.floor(Number(e.target.value)) || 0)
+                                })}
+                                className="w-full rounded-md border border-gray-300 px-2 py-1 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                              />
+                            </td>
+                            <td className="py-2">
+                              <input
+                                type="number"
+                                min={0}
+                                value={receipt.damaged}
+                                onChange={(e) => updateReceipt(line.id, {
+                                  damaged: Math.max(0, Math.floor(Number(e.target.value)) || 0)
+                                })}
+                                className="w-full rounded-md border border-gray-300 px-2 py-1 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                              />
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+
+                  <label className="flex items-start gap-2 text-sm text-gray-900">
+                    <input
+                      type="checkbox"
+                      checked={close}
+                      onChange={(e) => setClose(e.target.checked)}
+                      className="mt-0.5 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-600"
+                    />
+                    <span>
+                      <span className="font-medium">Close transfer</span>
+                      <span className="block text-xs text-gray-500">
+                        Units still outstanding are recorded as short. Leave unchecked if more units are on the way.
+                      </span>
+                    </span>
+                  </label>
+
+                  {discrepancies.length > 0 && (
+                    <div className="flex items-start gap-2 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+                      <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+                      <div>
+                        <p className="font-medium">This receipt records discrepancies:</p>
+                        <ul className="mt-1 list-disc pl-5">
+                          {discrepancies.map(d => (
+                            <li key={`${d.line.id}-${d.reason}`}>
+                              {d.line.sku}: {d.quantity} {DISCREPANCY_REASON_LABELS[d.reason].toLowerCase()}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                    <textarea
+                      rows={2}
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      className="block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                    />
+                  </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-3 border-t border-gray-200 bg-gray-50 px-6 py-4">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleReceive}
+                    disabled={isSaving}
+                    className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSaving ? 'Receiving...' : 'Receive Units'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,154 @@
+//file path: app/dashboard/transfers/components/ShipTransferModal.tsx
+
+'use client'
+
+import { Fragment, useState, useEffect } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon, TruckIcon } from '@heroicons/react/24/outline'
+import { TransferOrder, ShipTransferData } from '@/lib/api/transferApi'
+import { getTotalUnits } from '../utils/transferUtils'
+
+interface ShipTransferModalProps {
+  isOpen: boolean
+  onClose: () => void
+  transfer: TransferOrder
+  sourceWarehouseName: string
+  destinationWarehouseName: string
+  onShip: (transferId: string, data: ShipTransferData) => Promise<TransferOrder>
+}
+
+export default function ShipTransferModal({
+  isOpen,
+  onClose,
+  transfer,
+  sourceWarehouseName,
+  destinationWarehouseName,
+  onShip
+}: ShipTransferModalProps) {
+  const [carrier, setCarrier] = useState('')
+  const [trackingNumber, setTrackingNumber] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!isOpen) return
+    setCarrier(transfer.carrier || '')
+    setTrackingNumber(transfer.trackingNumber || '')
+    setError('')
+  }, [isOpen, transfer])
+
+  const handleShip = async () => {
+    setIsSaving(true)
+    setError('')
+    try {
+      await onShip(transfer.id, {
+        carrier: carrier.trim() || undefined,
+        trackingNumber: trackingNumber.trim() || undefined
+      })
+      onClose()
+    } catch (err: any) {
+      setError(err.message || 'Failed to ship transfer')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                  <div className="flex items-center gap-2">
+                    <TruckIcon className="h-6 w-6 text-indigo-600" />
+                    <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                      Ship {transfer.transferNumber}
+                    </Dialog.Title>
+                  </div>
+                  <button onClick={onClose} className="rounded-md bg-white text-gray-400 hover:text-gray-500">
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="px-6 py-4 space-y-4">
+                  {error && (
+                    <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+                  )}
+
+                  <p className="text-sm text-gray-600">
+                    {getTotalUnits(transfer)} units across {transfer.lines.length} SKUs will be deducted from{' '}
+                    <span className="font-medium text-gray-900">{sourceWarehouseName}</span> and held in transit until{' '}
+                    <span className="font-medium text-gray-900">{destinationWarehouseName}</span> receives them.
+                  </p>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Carrier</label>
+                    <input
+                      type="text"
+                      value={carrier}
+                      onChange={(e) => setCarrier(e.target.value)}
+                      placeholder="Optional"
+                      className="block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Tracking number</label>
+                    <input
+                      type="text"
+                      value={trackingNumber}
+                      onChange={(e) => setTrackingNumber(e.target.value)}
+                      placeholder="Optional"
+                      className="block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                    />
+                  </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-3 border-t border-gray-200 bg-gray-50 px-6 py-4">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleShip}
+                    disabled={isSaving}
+                    className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSaving ? 'Shipping...' : 'Ship Transfer'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,28 @@
+// File: app/dashboard/transfers/constants/transferConstants.ts
+
+import { TransferDiscrepancyReason, TransferStatus } from '@/lib/api/transferApi'
+
+export const TRANSFER_STATUS_LABELS: Record<TransferStatus, string> = {
+  draft: 'Draft',
+  in_transit: 'In transit',
+  partially_received: 'Partially received',
+  received: 'Received',
+  cancelled: 'Cancelled'
+}
+
+export const TRANSFER_STATUS_COLORS: Record<TransferStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  in_transit: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-500'
+}
+
+export const DISCREPANCY_REASON_LABELS: Record<TransferDiscrepancyReason, string> = {
+  short: 'Short',
+  over: 'Over',
+  damaged: 'Damaged'
+}
+
+// Transfers with stock on the way (shipped but not closed)
+export const IN_TRANSIT_STATUSES: TransferStatus[] = ['in_transit', 'partially_received']
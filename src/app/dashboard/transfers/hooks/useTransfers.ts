@@ -0,0 +1,104 @@
+//file path: app/dashboard/transfers/hooks/useTransfers.ts
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  TransferAPI,
+  TransferOrder,
+  TransferStatus,
+  CreateTransferData,
+  ShipTransferData,
+  ReceiveTransferData
+} from '@/lib/api/transferApi'
+
+/**
+ * Hook for listing and working transfer orders
+ * Pass an empty warehouseId for all warehouses (matches source or destination)
+ */
+export function useTransfers(warehouseId: string = '', status?: TransferStatus[]) {
+  const [transfers, setTransfers] = useState<TransferOrder[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const statusKey = status?.join(',') || ''
+
+  const loadTransfers = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const data = await TransferAPI.getTransfers({
+        warehouseId: warehouseId || undefined,
+        status: statusKey ? statusKey.split(',') as TransferStatus[] : undefined
+      })
+      setTransfers(data)
+    } catch (err: any) {
+      console.error('[useTransfers] Error loading transfers:', err)
+      setError(err.message || 'Failed to load transfers')
+      setTransfers([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [warehouseId, statusKey])
+
+  useEffect(() => {
+    loadTransfers()
+  }, [loadTransfers])
+
+  const replaceTransfer = useCallback((updated: TransferOrder) => {
+    setTransfers(prev => prev.map(t => t.id === updated.id ? updated : t))
+  }, [])
+
+  const createTransfer = useCallback(async (data: CreateTransferData) => {
+    try {
+      const transfer = await TransferAPI.createTransfer(data)
+      setTransfers(prev => [transfer, ...prev])
+      return transfer
+    } catch (err: any) {
+      console.error('[useTransfers] Error creating transfer:', err)
+      throw err
+    }
+  }, [])
+
+  const shipTransfer = useCallback(async (transferId: string, data: ShipTransferData) => {
+    try {
+      const transfer = await TransferAPI.shipTransfer(transferId, data)
+      replaceTransfer(transfer)
+      return transfer
+    } catch (err: any) {
+      console.error('[useTransfers] Error shipping transfer:', err)
+      throw err
+    }
+  }, [replaceTransfer])
+
+  const receiveTransfer = useCallback(async (transferId: string, data: ReceiveTransferData) => {
+    try {
+      const transfer = await TransferAPI.receiveTransfer(transferId, data)
+      replaceTransfer(transfer)
+      return transfer
+    } catch (err: any) {
+      console.error('[useTransfers] Error receiving transfer:', err)
+      throw err
+    }
+  }, [replaceTransfer])
+
+  const cancelTransfer = useCallback(async (transferId: string) => {
+    try {
+      const transfer = await TransferAPI.cancelTransfer(transferId)
+      replaceTransfer(transfer)
+      return transfer
+    } catch (err: any) {
+      console.error('[useTransfers] Error cancelling transfer:', err)
+      throw err
+    }
+  }, [replaceTransfer])
+
+  return {
+    transfers,
+    isLoading,
+    error,
+    refreshTransfers: loadTransfers,
+    createTransfer,
+    shipTransfer,
+    receiveTransfer,
+    cancelTransfer
+  }
+}
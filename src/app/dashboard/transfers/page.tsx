@@ -0,0 +1,282 @@
+//file path: app/dashboard/transfers/page.tsx
+
+'use client'
+
+import { useState, useMemo } from 'react'
+import { ArrowsRightLeftIcon, ArrowPathIcon, PlusIcon, TruckIcon } from '@heroicons/react/24/outline'
+import CreateTransferModal from './components/CreateTransferModal'
+import ShipTransferModal from './components/ShipTransferModal'
+import ReceiveTransferModal from './components/ReceiveTransferModal'
+import { useTransfers } from './hooks/useTransfers'
+import { useWarehouses } from '../warehouses/hooks/useWarehouses'
+import WarehouseSelector from '../shared/components/WarehouseSelector'
+import { withAuth } from '../shared/components/withAuth'
+import { formatDate } from '../orders/utils/orderUtils'
+import { TransferOrder, TransferStatus } from '@/lib/api/transferApi'
+import {
+  DISCREPANCY_REASON_LABELS,
+  TRANSFER_STATUS_COLORS,
+  TRANSFER_STATUS_LABELS,
+  IN_TRANSIT_STATUSES
+} from './constants/transferConstants'
+import { isTransferInTransit } from './utils/transferUtils'
+
+type StatusTab = 'open' | 'received' | 'cancelled' | 'all'
+
+const STATUS_TABS: { id: StatusTab; label: string; statuses?: TransferStatus[] }[] = [
+  { id: 'open', label: 'Open', statuses: ['draft', ...IN_TRANSIT_STATUSES] },
+  { id: 'received', label: 'Received', statuses: ['received'] },
+  { id: 'cancelled', label: 'Cancelled', statuses: ['cancelled'] },
+  { id: 'all', label: 'All' }
+]
+
+function TransfersPageContent() {
+  const [selectedWarehouseId, setSelectedWarehouseId] = useState('')
+  const [statusTab, setStatusTab] = useState<StatusTab>('open')
+  const [showCreateModal, setShowCreateModal] = useState(false)
+  const [shippingTransfer, setShippingTransfer] = useState<TransferOrder | null>(null)
+  const [receivingTransfer, setReceivingTransfer] = useState<TransferOrder | null>(null)
+
+  const { warehouses } = useWarehouses()
+  const tab = STATUS_TABS.find(t => t.id === statusTab)!
+  const {
+    transfers,
+    isLoading,
+    error,
+    refreshTransfers,
+    createTransfer,
+    shipTransfer,
+    receiveTransfer,
+    cancelTransfer
+  } = useTransfers(selectedWarehouseId, tab.statuses)
+
+  const warehouseNames = useMemo(
+    () => new Map(warehouses.map(w => [w.id, w.name])),
+    [warehouses]
+  )
+
+  const handleCancel = async (transfer: TransferOrder) => {
+    if (!confirm(`Cancel ${transfer.transferNumber}? No stock has moved yet.`)) return
+    try {
+      await cancelTransfer(transfer.id)
+    } catch (err: any) {
+      alert(err.message || 'Failed to cancel transfer')
+    }
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center mb-6">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold leading-6 text-gray-900">Transfers</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Move stock between warehouses. Shipped units are held in transit until the destination receives them.
+          </p>
+        </div>
+        <div className="mt-4 sm:ml-16 sm:mt-0 flex items-center gap-3">
+          <div className="w-64">
+            <WarehouseSelector
+              warehouses={warehouses.map(w => ({
+                id: w.id,
+                name: w.name,
+                code: w.code,
+                isDefault: w.isDefault,
+                status: w.status
+              }))}
+              selectedWarehouseId={selectedWarehouseId}
+              onWarehouseChange={setSelectedWarehouseId}
+              showProductCount={false}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={refreshTransfers}
+            className="rounded-md bg-white p-2 text-gray-500 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+            title="Refresh"
+          >
+            <ArrowPathIcon className={`h-5 w-5 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowCreateModal(true)}
+            className="inline-flex items-center gap-1 rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+          >
+            <PlusIcon className="h-5 w-5" />
+            New Transfer
+          </button>
+        </div>
+      </div>
+
+      <div className="border-b border-gray-200 mb-4">
+        <nav className="-mb-px flex gap-6">
+          {STATUS_TABS.map(t => (
+            <button
+              key={t.id}
+              type="button"
+              onClick={() => setStatusTab(t.id)}
+              className={`border-b-2 py-3 text-sm font-medium ${
+                statusTab === t.id
+                  ? 'border-indigo-500 text-indigo-600'
+                  : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="overflow-hidden bg-white shadow ring-1 ring-black ring-opacity-5 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-300">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="py-3 pl-4 pr-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Transfer</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Route</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Items</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Status</th>
+              <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Created</th>
+              <th className="py-3 pl-3 pr-4 text-right text-xs font-medium uppercase tracking-wide text-gray-500">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {!isLoading && transfers.length === 0 && (
+              <tr>
+                <td colSpan={6} className="py-12 text-center text-sm text-gray-500">
+                  <ArrowsRightLeftIcon className="mx-auto h-8 w-8 text-gray-300 mb-2" />
+                  No transfers
+                </td>
+              </tr>
+            )}
+            {transfers.map(transfer => (
+              <tr key={transfer.id} className="align-top">
+                <td className="whitespace-nowrap py-3 pl-4 pr-3 text-sm font-medium text-gray-900">
+                  {transfer.transferNumber}
+                  {transfer.trackingNumber && (
+                    transfer.trackingUrl ? (
+                      <a
+                        href={transfer.trackingUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="mt-1 flex items-center gap-1 text-xs font-normal text-indigo-600 hover:text-indigo-500"
+                      >
+                        <TruckIcon className="h-3.5 w-3.5" />
+                        {transfer.carrier && `${transfer.carrier} `}{transfer.trackingNumber}
+                      </a>
+                    ) : (
+                      <span className="mt-1 flex items-center gap-1 text-xs font-normal text-gray-500">
+                        <TruckIcon className="h-3.5 w-3.5" />
+                        {transfer.carrier && `${transfer.carrier} `}{transfer.trackingNumber}
+                      </span>
+                    )
+                  )}
+                </td>
+                <td className="whitespace-nowrap px-3 py-3 text-sm text-gray-700">
+                  <p>{warehouseNames.get(transfer.sourceWarehouseId) || 'Unknown'}</p>
+                  <p className="text-xs text-gray-500">→ {warehouseNames.get(transfer.destinationWarehouseId) || 'Unknown'}</p>
+                </td>
+                <td className="px-3 py-3 text-sm text-gray-700">
+                  <ul className="space-y-1">
+                    {transfer.lines.map(line => (
+                      <li key={line.id}>
+                        <span className="font-medium">
+                          {transfer.status === 'draft' ? line.quantity : `${line.quantityReceived}/${line.quantity}`}
+                        </span> × {line.sku}
+                      </li>
+                    ))}
+                  </ul>
+                  {transfer.discrepancies.length > 0 && (
+                    <ul className="mt-1 text-xs text-red-600">
+                      {transfer.discrepancies.map(d => (
+                        <li key={`${d.lineId}-${d.reason}-${d.recordedAt}`}>
+                          {d.sku}: {d.quantity} {DISCREPANCY_REASON_LABELS[d.reason].toLowerCase()}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </td>
+                <td className="whitespace-nowrap px-3 py-3 text-sm">
+                  <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${TRANSFER_STATUS_COLORS[transfer.status]}`}>
+                    {TRANSFER_STATUS_LABELS[transfer.status]}
+                  </span>
+                  {transfer.shippedAt && (
+                    <span className="block mt-1 text-xs text-gray-500">Shipped {formatDate(transfer.shippedAt)}</span>
+                  )}
+                </td>
+                <td className="whitespace-nowrap px-3 py-3 text-sm text-gray-500">
+                  {formatDate(transfer.createdAt)}
+                  {transfer.createdByName && (
+                    <span className="block text-xs">{transfer.createdByName}</span>
+                  )}
+                </td>
+                <td className="whitespace-nowrap py-3 pl-3 pr-4 text-right text-sm">
+                  {transfer.status === 'draft' && (
+                    <div className="flex justify-end gap-3">
+                      <button
+                        type="button"
+                        onClick={() => setShippingTransfer(transfer)}
+                        className="font-medium text-indigo-600 hover:text-indigo-500"
+                      >
+                        Ship
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleCancel(transfer)}
+                        className="font-medium text-gray-500 hover:text-red-600"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                  {isTransferInTransit(transfer) && (
+                    <button
+                      type="button"
+                      onClick={() => setReceivingTransfer(transfer)}
+                      className="font-medium text-indigo-600 hover:text-indigo-500"
+                    >
+                      Receive
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <CreateTransferModal
+        isOpen={showCreateModal}
+        onClose={() => setShowCreateModal(false)}
+        warehouses={warehouses}
+        defaultSourceWarehouseId={selectedWarehouseId}
+        onCreate={createTransfer}
+      />
+
+      {shippingTransfer && (
+        <ShipTransferModal
+          isOpen={shippingTransfer !== null}
+          onClose={() => setShippingTransfer(null)}
+          transfer={shippingTransfer}
+          sourceWarehouseName={warehouseNames.get(shippingTransfer.sourceWarehouseId) || 'the source'}
+          destinationWarehouseName={warehouseNames.get(shippingTransfer.destinationWarehouseId) || 'the destination'}
+          onShip={shipTransfer}
+        />
+      )}
+
+      {receivingTransfer && (
+        <ReceiveTransferModal
+          isOpen={receivingTransfer !== null}
+          onClose={() => setReceivingTransfer(null)}
+          transfer={receivingTransfer}
+          destinationWarehouseName={warehouseNames.get(receivingTransfer.destinationWarehouseId) || 'the destination'}
+          onReceive={receiveTransfer}
+        />
+      )}
+    </div>
+  )
+}
+
+export default withAuth(TransfersPageContent)
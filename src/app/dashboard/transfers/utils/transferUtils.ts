@@ -0,0 +1,83 @@
+// File: app/dashboard/transfers/utils/transferUtils.ts
+
+import {
+  TransferOrder,
+  TransferLine,
+  TransferReceiptLine,
+  TransferDiscrepancyReason,
+  CreateTransferData
+} from '@/lib/api/transferApi'
+import { WarehouseInventoryItem } from '../../warehouses/utils/warehouseTypes'
+import { IN_TRANSIT_STATUSES } from '../constants/transferConstants'
+
+/**
+ * Units on a line not yet counted in (good or damaged)
+ */
+export function getOutstandingQuantity(line: TransferLine): number {
+  return Math.max(0, line.quantity - line.quantityReceived - line.quantityDamaged)
+}
+
+export function getTotalUnits(transfer: TransferOrder): number {
+  return transfer.lines.reduce((sum, line) => sum + line.quantity, 0)
+}
+
+export function isTransferInTransit(transfer: TransferOrder): boolean {
+  return IN_TRANSIT_STATUSES.includes(transfer.status)
+}
+
+/**
+ * Check a new transfer against stock available at the source
+ * Returns an error message, or null when the transfer is valid
+ */
+export function validateTransfer(data: CreateTransferData, sourceInventory: WarehouseInventoryItem[]): string | null {
+  if (!data.sourceWarehouseId || !data.destinationWarehouseId) {
+    return 'Choose both warehouses'
+  }
+  if (data.sourceWarehouseId === data.destinationWarehouseId) {
+    return 'Source and destination must be different warehouses'
+  }
+
+  const lines = data.lines.filter(line => line.quantity > 0)
+  if (lines.length === 0) {
+    return 'Add at least one SKU with a quantity'
+  }
+
+  for (const line of lines) {
+    const item = sourceInventory.find(i => i.productId === line.productId)
+    if (!Number.isInteger(line.quantity)) {
+      return `${item?.sku || 'Item'}: quantity must be a whole number`
+    }
+    if (!item || line.quantity > item.availableQuantity) {
+      return `${item?.sku || 'Item'}: only ${item?.availableQuantity ?? 0} available at the source`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Discrepancies a receipt will record, so they can be confirmed before saving
+ * Receiving more than is outstanding is "over"; closing with units outstanding is "short"
+ */
+export function getReceiptDiscrepancies(
+  transfer: TransferOrder,
+  receipt: TransferReceiptLine[],
+  close: boolean
+): { line: TransferLine; reason: TransferDiscrepancyReason; quantity: number }[] {
+  const discrepancies: { line: TransferLine; reason: TransferDiscrepancyReason; quantity: number }[] = []
+
+  transfer.lines.forEach(line => {
+    const counted = receipt.find(r => r.lineId === line.id)
+    const good = counted?.quantity || 0
+    const damaged = counted?.damagedQuantity || 0
+    const outstanding = getOutstandingQuantity(line)
+
+    if (damaged > 0) discrepancies.push({ line, reason: 'damaged', quantity: damaged })
+
+    const remaining = outstanding - good - damaged
+    if (remaining < 0) discrepancies.push({ line, reason: 'over', quantity: -remaining })
+    if (remaining > 0 && close) discrepancies.push({ line, reason: 'short', quantity: remaining })
+  })
+
+  return discrepancies
+}
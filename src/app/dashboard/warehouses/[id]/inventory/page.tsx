@@ -1,24 +1,288 @@
+//app/dashboard/warehouses/[id]/inventory/page.tsx
+
 'use client'
 
-import { use } from 'react'
+import { useState, useMemo } from 'react'
+import { useParams } from 'next/navigation'
+import { MagnifyingGlassIcon, MapPinIcon, ArrowDownTrayIcon, ArrowPathIcon } from '@heroicons/react/24/outline'
+import { StockAdjustment } from '@/lib/api/inventoryApi'
+import { useWarehouses } from '../../context/WarehouseContext'
+import { useWarehouseInventory } from '../../hooks/useWarehouseInventory'
+import { useSelection } from '../../../shared/hooks/useSelection'
+import { exportToCSV, ExportColumn, ExportableItem } from '../../../shared/utils/csvExporter'
+import InventoryTable from '../../components/InventoryTable'
+import AssignBinModal from '../../components/AssignBinModal'
+import InventoryLedger from '../../components/InventoryLedger'
+import InventoryMovementsModal from '../../components/InventoryMovementsModal'
+import { WarehouseInventoryItem, InventoryLocationAssignment } from '../../utils/warehouseTypes'
+import {
+  InventoryFilter,
+  INVENTORY_FILTER_OPTIONS,
+  INVENTORY_STOCK_STATUS_LABELS,
+  matchesInventoryFilter,
+  getInventoryStockStatus,
+  getInventoryLocation
+} from '../../utils/inventoryUtils'
 
-interface WarehouseInventoryPageProps {
-  params: Promise<{ id: string }>
-}
+const INVENTORY_EXPORT_COLUMNS: ExportColumn[] = [
+  { id: 'sku', field: 'sku', label: 'SKU', sortable: false, visible: true },
+  { id: 'productName', field: 'productName', label: 'Product', sortable: false, visible: true },
+  {
+    id: 'location', field: 'location', label: 'Bin', sortable: false, visible: true,
+    formatter: (_value, item) => getInventoryLocation(item as WarehouseInventoryItem)
+  },
+  { id: 'stockQuantity', field: 'stockQuantity', label: 'In Stock', sortable: false, visible: true },
+  { id: 'reservedQuantity', field: 'reservedQuantity', label: 'Reserved', sortable: false, visible: true },
+  { id: 'availableQuantity', field: 'availableQuantity', label: 'Available', sortable: false, visible: true },
+  { id: 'reorderPoint', field: 'reorderPoint', label: 'Reorder Point', sortable: false, visible: true },
+  { id: 'maxStock', field: 'maxStock', label: 'Max Stock', sortable: false, visible: true },
+  {
+    id: 'status', field: 'status', label: 'Status', sortable: false, visible: true,
+    formatter: (_value, item: ExportableItem) => INVENTORY_STOCK_STATUS_LABELS[getInventoryStockStatus(item as WarehouseInventoryItem)]
+  },
+  { id: 'lastStockUpdate', field: 'lastStockUpdate', label: 'Last Updated', sortable: false, visible: true }
+]
+
+export default function WarehouseInventoryPage() {
+  const params = useParams()
+  const warehouseId = params.id as string
+  const { warehouses, loading: warehousesLoading } = useWarehouses()
+  const warehouse = warehouses.find(w => w.id === warehouseId)
+
+  const { items, loading, error, setStockQuantity, assignLocations, refresh } = useWarehouseInventory(warehouseId)
+  const selection = useSelection<WarehouseInventoryItem>()
+
+  const [search, setSearch] = useState('')
+  const [stockFilter, setStockFilter] = useState<InventoryFilter>('')
+  const [showAssignBin, setShowAssignBin] = useState(false)
+  const [view, setView] = useState<'stock' | 'movements'>('stock')
+  const [historyItem, setHistoryItem] = useState<WarehouseInventoryItem | null>(null)
+
+  const filterCounts = useMemo(() => {
+    const counts: Record<string, number> = {}
+    INVENTORY_FILTER_OPTIONS.forEach(option => {
+      counts[option.value] = items.filter(item => matchesInventoryFilter(item, option.value)).length
+    })
+    return counts
+  }, [items])
+
+  const filteredItems = useMemo(() => {
+    const term = search.trim().toLowerCase()
+
+    return items
+      .filter(item => matchesInventoryFilter(item, stockFilter))
+      .filter(item => !term ||
+        item.sku.toLowerCase().includes(term) ||
+        item.productName.toLowerCase().includes(term) ||
+        getInventoryLocation(item).toLowerCase().includes(term)
+      )
+      .sort((a, b) => a.sku.localeCompare(b.sku, undefined, { numeric: true }))
+  }, [items, search, stockFilter])
+
+  const selectedItems = selection.getSelectedItems(items)
+
+  const handleSetStockQuantity = async (item: WarehouseInventoryItem, quantity: number, adjustment: StockAdjustment) => {
+    if (quantity < item.reservedQuantity &&
+        !confirm(`${item.sku} has ${item.reservedQuantity} reserved. Setting stock to ${quantity} leaves open orders short. Continue?`)) {
+      return
+    }
+    await setStockQuantity(item, quantity, adjustment)
+  }
 
-export default function WarehouseInventoryPage({ params }: WarehouseInventoryPageProps) {
-  const resolvedParams = use(params)
-  const warehouseId = resolvedParams.id
+  const handleAssignLocations = async (assignments: InventoryLocationAssignment[]) => {
+    await assignLocations(assignments)
+    selection.clearSelection()
+  }
+
+  const handleExport = () => {
+    const rows = selectedItems.length > 0 ? selectedItems : filteredItems
+    exportToCSV(rows, INVENTORY_EXPORT_COLUMNS, `inventory-${warehouse?.code || warehouseId}`)
+  }
+
+  if (warehousesLoading || loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  if (!warehouse) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="mt-2 text-sm font-semibold text-gray-900">Warehouse not found</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          The warehouse you're looking for doesn't exist or has been deleted.
+        </p>
+      </div>
+    )
+  }
+
+  const filterButtonClass = (active: boolean) =>
+    `inline-flex items-center rounded-full px-3 py-1 text-sm font-medium ring-1 ring-inset ${
+      active ? 'bg-indigo-600 text-white ring-indigo-600' : 'bg-white text-gray-700 ring-gray-300 hover:bg-gray-50'
+    }`
 
   return (
     <div className="px-4 sm:px-6 lg:px-8">
-      <h1 className="text-2xl font-semibold leading-6 text-gray-900">
-        Warehouse Inventory
-      </h1>
-      <p className="mt-2 text-sm text-gray-700">
-        Manage inventory for warehouse {warehouseId}
-      </p>
-      {/* Add inventory management components here */}
+      {/* Header */}
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold leading-6 text-gray-900">
+            {warehouse.name} Inventory
+          </h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Stock, reservations and bin locations for every product held at this warehouse. Click a quantity to adjust it.
+          </p>
+        </div>
+        <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none flex gap-2">
+          <button
+            type="button"
+            onClick={refresh}
+            className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+          >
+            <ArrowPathIcon className="h-4 w-4 mr-1" />
+            Refresh
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={filteredItems.length === 0 && selectedItems.length === 0}
+            className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+            Export{selectedItems.length > 0 ? ` (${selectedItems.length})` : ''}
+          </button>
+        </div>
+      </div>
+
+      {/* View */}
+      <div className="mt-6 border-b border-gray-200">
+        <nav className="-mb-px flex space-x-6">
+          {([['stock', 'Stock'], ['movements', 'Movements']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setView(value)}
+              className={`border-b-2 px-1 pb-3 text-sm font-medium ${
+                view === value
+                  ? 'border-indigo-500 text-indigo-600'
+                  : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {view === 'movements' ? (
+        <div className="mt-6">
+          <InventoryLedger
+            warehouseId={warehouse.id}
+            exportFilename={`inventory-ledger-${warehouse.code}`}
+            showWarehouse={false}
+          />
+        </div>
+      ) : (
+        <>
+          {/* Search and filters */}
+          <div className="mt-6 flex flex-col gap-3 sm:flex-row sm:items-center">
+            <div className="relative sm:w-72">
+              <MagnifyingGlassIcon className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search SKU, product or bin..."
+                className="block w-full rounded-md border-gray-300 pl-9 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button type="button" onClick={() => setStockFilter('')} className={filterButtonClass(stockFilter === '')}>
+                All ({items.length})
+              </button>
+              {INVENTORY_FILTER_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setStockFilter(stockFilter === option.value ? '' : option.value)}
+                  className={filterButtonClass(stockFilter === option.value)}
+                >
+                  {option.label} ({filterCounts[option.value]})
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Bulk actions */}
+          {selection.hasSelection() && (
+            <div className="mt-4 flex items-center justify-between rounded-md bg-indigo-50 px-4 py-2">
+              <span className="text-sm font-medium text-indigo-900">
+                {selection.getSelectionCount()} product{selection.getSelectionCount() !== 1 ? 's' : ''} selected
+              </span>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowAssignBin(true)}
+                  className="inline-flex items-center rounded-md bg-indigo-600 px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+                >
+                  <MapPinIcon className="h-4 w-4 mr-1" />
+                  Assign Bin
+                </button>
+                <button
+                  type="button"
+                  onClick={selection.clearSelection}
+                  className="rounded-md bg-white px-3 py-1.5 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                >
+                  Clear
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Inventory */}
+          <div className="mt-4">
+            {error ? (
+              <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+            ) : filteredItems.length === 0 ? (
+              <div className="rounded-lg border-2 border-dashed border-gray-300 py-12 text-center">
+                <p className="text-sm text-gray-500">
+                  {items.length === 0 ? 'No products are stocked at this warehouse yet.' : 'No products match these filters.'}
+                </p>
+              </div>
+            ) : (
+              <InventoryTable
+                items={filteredItems}
+                isSelected={selection.isSelected}
+                isAllSelected={selection.isAllSelected(filteredItems)}
+                onSelectItem={selection.handleSelectItem}
+                onSelectAll={() => selection.handleSelectAll(filteredItems)}
+                onSetStockQuantity={handleSetStockQuantity}
+                onViewHistory={setHistoryItem}
+              />
+            )}
+          </div>
+        </>
+      )}
+
+      <AssignBinModal
+        isOpen={showAssignBin}
+        onClose={() => setShowAssignBin(false)}
+        warehouse={warehouse}
+        items={selectedItems}
+        onAssign={handleAssignLocations}
+      />
+
+      <InventoryMovementsModal
+        isOpen={historyItem !== null}
+        onClose={() => setHistoryItem(null)}
+        productId={historyItem?.productId || null}
+        sku={historyItem?.sku || ''}
+        productName={historyItem?.productName}
+        warehouseId={warehouse.id}
+        warehouseName={warehouse.name}
+      />
     </div>
   )
 }
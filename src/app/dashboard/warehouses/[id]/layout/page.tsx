@@ -9,9 +9,13 @@ import {
   ClipboardDocumentListIcon,
   ChartBarIcon,
   PlusIcon,
-  ExclamationTriangleIcon
+  ExclamationTriangleIcon,
+  PrinterIcon
 } from '@heroicons/react/24/outline'
 import { useWarehouses } from '../../context/WarehouseContext'
+import { useThermalLabels } from '../../hooks/useThermalLabels'
+import { getDefaultPrinterProfile } from '../../utils/printerProfiles'
+import { getLayoutLocations } from '../../utils/locationUtils'
 import { Zone, Aisle, Shelf, Bin, WarehouseLayout } from '../../utils/warehouseTypes'
 
 // Import the new components
@@ -31,6 +35,8 @@ export default function WarehouseLayoutPage() {
   const warehouseId = params.id as string
   const { warehouses, updateWarehouse } = useWarehouses()
   const warehouse = warehouses.find(w => w.id === warehouseId)
+  const { printLabels, printing } = useThermalLabels()
+  const printerProfile = getDefaultPrinterProfile(warehouse)
 
   const [activeTab, setActiveTab] = useState<'visual' | 'zones' | 'aisles' | 'settings'>('zones')
 
@@ -538,6 +544,25 @@ export default function WarehouseLayoutPage() {
   layoutStats.emptyBins = layoutStats.totalBins - layoutStats.occupiedBins
   layoutStats.utilizationRate = layoutStats.totalBins > 0 ? Math.round((layoutStats.occupiedBins / layoutStats.totalBins) * 100) : 0
 
+  // One scannable label per bin in the saved layout
+  const handlePrintBinLabels = () => {
+    if (!warehouse || !printerProfile) return
+    const locations = getLayoutLocations(warehouse.layout).map(location => location.formattedLocation)
+    if (locations.length === 0) {
+      alert('Save at least one bin before printing bin labels')
+      return
+    }
+    if (!confirm(`Print ${locations.length} bin label(s) on ${printerProfile.name}?`)) return
+
+    printLabels({
+      kind: 'bin_label',
+      warehouseId: warehouse.id,
+      profileId: printerProfile.id,
+      locations,
+      send: printerProfile.connection === 'network'
+    })
+  }
+
   if (!warehouse) {
     return (
       <div className="flex items-center justify-center min-h-96">
@@ -561,6 +586,16 @@ export default function WarehouseLayoutPage() {
             </p>
           </div>
           <div className="flex items-center space-x-3">
+            {printerProfile && zones.length > 0 && (
+              <button
+                onClick={handlePrintBinLabels}
+                disabled={printing !== null}
+                className="inline-flex items-center gap-x-2 rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+              >
+                <PrinterIcon className="h-4 w-4" />
+                {printing === 'bin_label' ? 'Printing...' : 'Print Bin Labels'}
+              </button>
+            )}
             <button
               onClick={handleCreateZone}
               className="inline-flex items-center gap-x-2 rounded-md bg-green-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-green-500"
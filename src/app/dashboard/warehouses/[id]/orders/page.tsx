@@ -16,26 +16,51 @@ import OrdersTable from '../../../orders/components/OrdersTable'
 import OrdersPagination from '../../../orders/components/OrdersPagination'
 import PackingSlipModal from '../../../orders/components/PackingSlipModal'
 import ShippingModal from '../../../orders/components/ShippingModal'
+import CombineShipmentModal from '../../../orders/components/CombineShipmentModal'
+import CombinableOrdersPanel from '../../../orders/components/CombinableOrdersPanel'
+import { CombinableGroup } from '../../../orders/utils/orderCombining'
+import CreatePickWaveModal from '../../../orders/components/CreatePickWaveModal'
+import EditOrderModal from '../../../orders/components/EditOrderModal'
+import CreateReturnModal from '../../../returns/components/CreateReturnModal'
+import PickWavesPanel from '../../../orders/components/PickWavesPanel'
+import SavedViewsMenu from '../../../shared/components/SavedViewsMenu'
 
 // Custom hooks
-import { useOrders } from '../../../orders/hooks/useOrders'
+import { useOrders, useOrderQueue } from '../../../orders/hooks/useOrders'
 import { useWarehouseOrders } from '@/hooks/useWarehouseOrders'
 import { useOrderFilters } from '../../../orders/hooks/useOrderFilters'
 import { useOrderSelection } from '../../../orders/hooks/useOrderSelection'
 import { useOrderColumns } from '../../../orders/hooks/useOrderColumns'
+import { usePickWaves } from '../../../orders/hooks/usePickWaves'
 
 // Shared hooks
 import { usePagination } from '../../../shared/hooks/usePagination'
 
 // Utils
-import { transformToDetailedOrder } from '../../../orders/utils/orderUtils'
+import { transformToDetailedOrder, formatCurrency } from '../../../orders/utils/orderUtils'
+import { getOrderBaseTotal } from '../../../shared/utils/currency'
+import CurrencyDisplayToggle from '../../../shared/components/CurrencyDisplayToggle'
 import { exportToCSV, ExportableItem } from '../../../shared/utils/csvExporter'
+import { toSavedColumns } from '../../../shared/utils/savedViews'
 import { printMultiplePackingSlips } from '../../../orders/utils/packingSlipGenerator'
-import { orderNeedsPicking, orderNeedsShippingDynamic } from '../../../orders/utils/orderConstants'
-import { WarehouseAPI } from '@/lib/api/warehouseApi'
+import {
+  orderNeedsPicking,
+  orderNeedsShippingDynamic,
+  getOpenFulfillmentStatusCodes,
+  getShippingFulfillmentStatusCodes
+} from '../../../orders/utils/orderConstants'
+import { fetchAllOrders, narrowFulfillmentStatuses } from '../../../orders/utils/orderQuery'
+import { canEditOrder } from '../../../orders/utils/orderEditing'
+import { getShipByStatus, SHIP_BY_FILTER_OPTIONS, SHIP_BY_STATUS_COLORS } from '../../../orders/utils/shipBy'
+import { getOrderAllocationStatus, ALLOCATION_STATUS_LABELS, ALLOCATION_STATUS_COLORS } from '../../../orders/utils/allocation'
+import { getWarehouseCalendar } from '../../utils/warehouseCalendar'
+import { canCreateReturn } from '../../../returns/utils/returnUtils'
+import { WarehouseAPI, PackVerificationRecord } from '@/lib/api/warehouseApi'
+import { CreatePickWaveData } from '@/lib/api/pickWaveApi'
 
 // Types
-import { Order, OrderWithDetails, ColumnConfig } from '../../../orders/utils/orderTypes'
+import { Order, OrderWithDetails, ColumnConfig, FilterState, ShipByStatus, AllocationStatus, isOrderOnHold } from '../../../orders/utils/orderTypes'
+import { SavedViewState } from '@/lib/api/userApi'
 import { ITEMS_PER_PAGE, STATUS_COLORS, FULFILLMENT_COLORS } from '../../../orders/constants/orderConstants'
 
 // Settings
@@ -71,6 +96,10 @@ const exportOrdersToCSV = (orders: Order[], columns: ColumnConfig[]) => {
           }).format(order.totalAmount || 0)
         case 'currency':
           return order.currency || ''
+        case 'baseTotalAmount': {
+          const baseTotal = getOrderBaseTotal(order)
+          return baseTotal != null && order.baseCurrency ? formatCurrency(baseTotal, order.baseCurrency) : ''
+        }
         case 'itemCount':
           return (order.itemCount || 0).toString()
         case 'platform':
@@ -85,6 +114,10 @@ const exportOrdersToCSV = (orders: Order[], columns: ColumnConfig[]) => {
           return `${order.shippingFirstName || ''} ${order.shippingLastName || ''}`.trim()
         case 'orderDate':
           return order.orderDate ? new Date(order.orderDate).toLocaleString() : ''
+        case 'shipByDate':
+          return order.shipByDate ? new Date(order.shipByDate).toLocaleString() : ''
+        case 'allocationStatus':
+          return ALLOCATION_STATUS_LABELS[getOrderAllocationStatus(order)]
         default:
           return value?.toString() || ''
       }
@@ -105,18 +138,6 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
   const { warehouses, loading: warehousesLoading } = useWarehouses()
   const warehouse = warehouses.find(w => w.id === warehouseId)
 
-  // Get orders data
-  const { orders, loading, error, refreshOrders, updateOrdersFulfillmentStatus, updateStatus, updateFulfillmentStatus } = useOrders()
-
-  // ✅ Wrapper functions to match OrdersTable expected types (Promise<void>)
-  const handleUpdateOrderStatus = async (orderId: string, newStatus: string): Promise<void> => {
-    await updateStatus(orderId, newStatus)
-  }
-
-  const handleUpdateOrderFulfillmentStatus = async (orderId: string, newStatus: string): Promise<void> => {
-    await updateFulfillmentStatus(orderId, newStatus)
-  }
-
   // Get fulfillment state
   const {
     pickedItems: pickedItemsArray,
@@ -133,9 +154,116 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
     clearAllStates
   } = useWarehouseOrders(warehouseId)
 
+  // Pick waves (batch picking sessions) in this warehouse
+  const {
+    waves: pickWaves,
+    isLoading: pickWavesLoading,
+    createWave,
+    startWave,
+    completeWave,
+    cancelWave,
+    updateLinePicked
+  } = usePickWaves(warehouseId)
+
   // Load fulfillment statuses from settings
   const { statuses: fulfillmentStatuses, loading: fulfillmentLoading } = useFulfillmentStatuses()
 
+  const {
+    searchTerm,
+    setSearchTerm,
+    showFilters,
+    setShowFilters,
+    filters,
+    setFilters,
+    queryParams,
+    preferencesLoading
+  } = useOrderFilters()
+
+  const {
+    columns,
+    sortConfig,
+    handleSort,
+    handleColumnVisibilityChange,
+    handleColumnReorder,
+    applyLayout,
+    resetToDefaults,
+    isLoading: columnsLoading
+  } = useOrderColumns(true)
+
+  // Saved views capture the filters, search, sort and columns
+  const savedViewState = useMemo<SavedViewState>(() => ({
+    filters,
+    search: searchTerm,
+    sort: sortConfig,
+    columns: toSavedColumns(columns)
+  }), [filters, searchTerm, sortConfig, columns])
+
+  const handleApplyView = (state: SavedViewState) => {
+    setFilters(state.filters as FilterState)
+    setSearchTerm(state.search)
+    applyLayout(state.columns, state.sort)
+  }
+
+  // Pagination
+  const { ordersPerPage, setOrdersPerPage, isLoading: paginationLoading } = usePagination()
+
+  // Checkbox states
+  const [showOrdersToShip, setShowOrdersToShip] = useState(false)
+  const [showItemsToShip, setShowItemsToShip] = useState(false)
+
+  // Work queue: filtered orders in this warehouse still waiting to be picked or shipped
+  const queueStatuses = useMemo(() => narrowFulfillmentStatuses(
+    queryParams.fulfillmentStatus,
+    getOpenFulfillmentStatusCodes(fulfillmentStatuses)
+  ), [queryParams.fulfillmentStatus, fulfillmentStatuses])
+  const queueQuery = useMemo(() => ({
+    ...queryParams,
+    warehouseId,
+    fulfillmentStatus: queueStatuses || undefined
+  }), [queryParams, warehouseId, queueStatuses])
+
+  const { orders: queueOrders } = useOrderQueue(queueQuery, !fulfillmentLoading && queueStatuses !== null)
+
+  // Table query - "orders to ship" narrows the table to orders that need shipping
+  const shipStatuses = useMemo(() => narrowFulfillmentStatuses(
+    queryParams.fulfillmentStatus,
+    getShippingFulfillmentStatusCodes(fulfillmentStatuses)
+  ), [queryParams.fulfillmentStatus, fulfillmentStatuses])
+  const orderQuery = useMemo(() => ({
+    ...queryParams,
+    warehouseId,
+    fulfillmentStatus: showOrdersToShip ? shipStatuses || undefined : queryParams.fulfillmentStatus,
+    sortBy: sortConfig.field,
+    sortDirection: sortConfig.direction
+  }), [queryParams, warehouseId, showOrdersToShip, shipStatuses, sortConfig])
+
+  // Get orders data
+  const {
+    orders,
+    totalCount,
+    loading,
+    currentPage,
+    totalPages,
+    lastReachablePage,
+    setPage,
+    getOrdersByIds,
+    refreshOrders,
+    updateOrdersFulfillmentStatus,
+    updateStatus,
+    updateFulfillmentStatus,
+    holdOrders,
+    releaseOrders
+  } = useOrders(orderQuery, ordersPerPage || 20, !showOrdersToShip || shipStatuses !== null)
+
+  // ✅ Wrapper functions to match OrdersTable expected types (Promise<void>)
+  const handleUpdateOrderStatus = async (orderId: string, newStatus: string): Promise<void> => {
+    await updateStatus(orderId, newStatus)
+  }
+
+  const handleUpdateOrderFulfillmentStatus = async (orderId: string, newStatus: string): Promise<void> => {
+    await updateFulfillmentStatus(orderId, newStatus)
+  }
+
   const fulfillmentStatusOptions = useMemo(() => {
     return fulfillmentStatuses.map(status => ({
       value: status.code,
@@ -148,15 +276,14 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
   const [showOrderDetails, setShowOrderDetails] = useState(false)
   const [showPackingSlip, setShowPackingSlip] = useState(false)
   const [showPickingList, setShowPickingList] = useState(false)
+  const [showCreateWave, setShowCreateWave] = useState(false)
+  const [createWaveMode, setCreateWaveMode] = useState<'selection' | 'rules'>('selection')
   const [selectedOrder, setSelectedOrder] = useState<OrderWithDetails | null>(null)
-  const [currentPage, setCurrentPage] = useState(1)
+  const [editingOrder, setEditingOrder] = useState<OrderWithDetails | null>(null)
+  const [returnOrder, setReturnOrder] = useState<OrderWithDetails | null>(null)
+  const [combineGroup, setCombineGroup] = useState<CombinableGroup | null>(null)
   const [showPackingSlipModal, setShowPackingSlipModal] = useState(false)
 
-  // Checkbox states
-  const [showOrdersToShip, setShowOrdersToShip] = useState(false)
-  const [showItemsToShip, setShowItemsToShip] = useState(false)
-
-
 
   // ✅ ADD THIS - Convert hook arrays to Sets for compatibility
   const pickedItems = useMemo(() => new Set(pickedItemsArray), [pickedItemsArray])
@@ -164,16 +291,6 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
   const packedOrders = useMemo(() => new Set(packedOrdersArray), [packedOrdersArray])
   const maxPickingOrders = String(warehouseSettings.maxPickingOrders || 'all')
 
-  const {
-    searchTerm,
-    setSearchTerm,
-    showFilters,
-    setShowFilters,
-    filters,
-    setFilters,
-    filteredOrders
-  } = useOrderFilters(orders)
-
   const {
     selectedOrders,
     handleSelectOrder,
@@ -182,24 +299,64 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
   } = useOrderSelection()
 
   // Calculate orders to ship (using dynamic fulfillment settings)
+  // Held orders stay out of the work queues until released
   const ordersToShip = useMemo(() => {
-    return filteredOrders.filter(order => {
+    return queueOrders.filter(order => {
       // Use dynamic settings to determine if order needs shipping
-      return orderNeedsShippingDynamic(order, fulfillmentStatuses)
+      return orderNeedsShippingDynamic(order, fulfillmentStatuses) && !isOrderOnHold(order)
     })
-  }, [filteredOrders, fulfillmentStatuses])
+  }, [queueOrders, fulfillmentStatuses])
 
   // Calculate orders that need PICKING (based on fulfillment settings)
   const ordersToPick = useMemo(() => {
-    return filteredOrders.filter(order => {
-      return orderNeedsPicking(order, fulfillmentStatuses)
+    return queueOrders.filter(order => {
+      return orderNeedsPicking(order, fulfillmentStatuses) && !isOrderOnHold(order)
     })
-  }, [filteredOrders, fulfillmentStatuses])  // ✅ FIXED
+  }, [queueOrders, fulfillmentStatuses])  // ✅ FIXED
+
+  const heldOrdersCount = useMemo(() => {
+    return queueOrders.filter(isOrderOnHold).length
+  }, [queueOrders])
+
+  // Ship-by deadlines of open orders, as seen at the warehouse
+  const shipByCounts = useMemo(() => {
+    const { timeZone } = getWarehouseCalendar(warehouse)
+    const counts: Record<ShipByStatus, number> = { late: 0, at_risk: 0, due_today: 0, upcoming: 0 }
+    const now = new Date()
+
+    queueOrders.forEach(order => {
+      if (order.shipByDate && !isOrderOnHold(order)) {
+        counts[getShipByStatus(order.shipByDate, timeZone, now)]++
+      }
+    })
+    return counts
+  }, [queueOrders, warehouse])
+
+  const handleShipByFilter = (shipBy: ShipByStatus) => {
+    setFilters({ ...filters, shipBy: filters.shipBy === shipBy ? '' : shipBy })
+  }
+
+  // Open orders that can be finished from stock, and those waiting on it
+  const allocationCounts = useMemo(() => {
+    const counts: Record<AllocationStatus, number> = { allocated: 0, partial: 0, backordered: 0, unallocated: 0 }
+    queueOrders.forEach(order => {
+      if (!isOrderOnHold(order)) counts[getOrderAllocationStatus(order)]++
+    })
+    return counts
+  }, [queueOrders])
+
+  const handleAllocationFilter = (allocation: AllocationStatus) => {
+    setFilters({ ...filters, allocation: filters.allocation === allocation ? '' : allocation })
+  }
 
   const [showShippingModal, setShowShippingModal] = useState(false)
   const [orderToShip, setOrderToShip] = useState<Order | null>(null)
 
   const handleShipOrder = (order: Order) => {
+    if (isOrderOnHold(order)) {
+      alert(`Order #${order.orderNumber} is on hold (${order.hold!.reason}). Release it before shipping.`)
+      return
+    }
     setOrderToShip(order)
     setShowShippingModal(true)
   }
@@ -233,10 +390,14 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
   }, [ordersToPick])
 
   // Calculate selected orders for picking list
+  // Selection can span table pages, so look orders up in the query cache
+  const selectedOrdersList = useMemo(() => {
+    return getOrdersByIds(Array.from(selectedOrders))
+  }, [selectedOrders, getOrdersByIds, orders, queueOrders])
+
   const selectedOrdersForPicking = useMemo(() => {
-    const selectedOrderIds = Array.from(selectedOrders)
-    return orders.filter(order => selectedOrderIds.includes(order.id))
-  }, [selectedOrders, orders])
+    return selectedOrdersList.filter(order => !isOrderOnHold(order))
+  }, [selectedOrdersList])
 
   // Calculate items in selected orders for picking
   const itemsInSelectedOrders = useMemo(() => {
@@ -401,25 +562,7 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
   }, [pickedItems, consolidatedItemsForPicking])
 
 
-  // Determine which orders to show in table based on checkbox state
-  const ordersToDisplay = showOrdersToShip ? ordersToShip : filteredOrders
-
-  const {
-    columns,
-    sortConfig,
-    sortedOrders,
-    handleSort,
-    handleColumnVisibilityChange,
-    handleColumnReorder,
-    resetToDefaults
-  } = useOrderColumns(ordersToDisplay, true)
-
-  // Pagination
-  const { ordersPerPage, setOrdersPerPage, isLoading: paginationLoading } = usePagination()
-  const totalPages = Math.ceil(sortedOrders.length / (ordersPerPage || 20))
-  const startIndex = (currentPage - 1) * (ordersPerPage || 20)
-  const endIndex = startIndex + (ordersPerPage || 20)
-  const currentOrders = sortedOrders.slice(startIndex, endIndex)
+  const currentOrders = orders
 
   // ✅ NEW - Use hook methods
   const handleItemPicked = async (itemId: string) => {
@@ -455,6 +598,41 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
     setShowOrderDetails(true)
   }
 
+  const handleEditOrder = (order: OrderWithDetails) => {
+    setShowOrderDetails(false)
+    setSelectedOrder(null)
+    setEditingOrder(order)
+  }
+
+  const handleCreateReturn = (order: OrderWithDetails) => {
+    setShowOrderDetails(false)
+    setSelectedOrder(null)
+    setReturnOrder(order)
+  }
+
+  const handleHoldOrders = async (orderIds: string[]) => {
+    const reason = prompt(`Why are you holding ${orderIds.length} order(s)?`)
+    if (!reason?.trim()) return false
+
+    const success = await holdOrders(orderIds, reason.trim())
+    if (!success) {
+      alert('Failed to hold orders. Please try again.')
+    }
+    return success
+  }
+
+  const handleReleaseOrders = async (orderIds: string[]) => {
+    if (!confirm(`Release ${orderIds.length} order(s)? They'll go back into the picking and shipping queues.`)) {
+      return false
+    }
+
+    const success = await releaseOrders(orderIds)
+    if (!success) {
+      alert('Failed to release orders. Please try again.')
+    }
+    return success
+  }
+
   const handlePrintPackingSlips = () => {
     if (selectedOrders.size === 0) {
       alert('Please select at least one order to print packing slips.')
@@ -469,13 +647,19 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
     setShowPackingSlip(true)
   }
 
-  const handleExport = () => {
-    exportOrdersToCSV(sortedOrders, columns.filter(col => col.visible))
+  const handleExport = async () => {
+    try {
+      // Export every order matching the current filters, not just this page
+      const { orders: allOrders } = await fetchAllOrders(orderQuery)
+      exportOrdersToCSV(allOrders, columns.filter(col => col.visible))
+    } catch (error) {
+      console.error('Error exporting orders:', error)
+      alert('Failed to export orders. Please try again.')
+    }
   }
 
   const handleResetLayout = () => {
     resetToDefaults()
-    setCurrentPage(1)
     clearSelection()
   }
 
@@ -491,12 +675,10 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
 
   const handleItemsPerPageChange = (newValue: number) => {
     setOrdersPerPage(newValue)
-    setCurrentPage(1)
   }
 
   const handleClearAllFilters = () => {
     setSearchTerm('')
-    setCurrentPage(1)
 
     setFilters({
       status: [],
@@ -529,7 +711,6 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
         }
       })
     }
-    setCurrentPage(1)
   }
 
   const handleOrderPacked = async (orderId: string) => {
@@ -544,6 +725,12 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
     }
   }
 
+  // Packing station: record how the order was verified, then mark it packed
+  const handleOrderVerified = async (record: PackVerificationRecord) => {
+    await WarehouseAPI.recordPackVerification(warehouseId, record)
+    await addPackedOrder(record.orderId)
+  }
+
   const handleItemsToShipChange = (checked: boolean) => {
     setShowItemsToShip(checked)
 
@@ -571,6 +758,18 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
     setShowPickingList(true)
   }
 
+  const handleOpenCreateWave = (mode: 'selection' | 'rules') => {
+    setCreateWaveMode(mode)
+    setShowCreateWave(true)
+  }
+
+  const handleCreateWaves = async (waves: CreatePickWaveData[]) => {
+    for (const wave of waves) {
+      await createWave(wave)
+    }
+    clearSelection()
+  }
+
   const handleClearPickingState = async () => {
     try {
       await clearAllStates()
@@ -641,6 +840,9 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
             Manage orders for {warehouse.name} warehouse.
           </p>
         </div>
+        <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none">
+          <CurrencyDisplayToggle />
+        </div>
       </div>
 
       {/* Orders Stats with Checkboxes */}
@@ -661,6 +863,11 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
                   (of {ordersToShip.length} total)
                 </span>
               )}
+              {heldOrdersCount > 0 && (
+                <span className="text-xs text-red-600 ml-1">
+                  · {heldOrdersCount} on hold
+                </span>
+              )}
             </span>
           </label>
 
@@ -683,6 +890,40 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
             </span>
           </label>
 
+          {/* Ship-by deadlines - click to filter the table */}
+          <div className="flex items-center gap-2">
+            {SHIP_BY_FILTER_OPTIONS.filter(option => shipByCounts[option.value] > 0).map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => handleShipByFilter(option.value)}
+                className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${SHIP_BY_STATUS_COLORS[option.value]} ${
+                  filters.shipBy === option.value ? 'ring-2 ring-offset-1 ring-indigo-500' : ''
+                }`}
+                title={filters.shipBy === option.value ? 'Clear filter' : `Show ${option.label.toLowerCase()} orders`}
+              >
+                {shipByCounts[option.value]} {option.label.toLowerCase()}
+              </button>
+            ))}
+          </div>
+
+          {/* Stock allocation - click to filter the table */}
+          <div className="flex items-center gap-2">
+            {(['allocated', 'partial', 'backordered'] as const).filter(status => allocationCounts[status] > 0).map(status => (
+              <button
+                key={status}
+                type="button"
+                onClick={() => handleAllocationFilter(status)}
+                className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${ALLOCATION_STATUS_COLORS[status]} ${
+                  filters.allocation === status ? 'ring-2 ring-offset-1 ring-indigo-500' : ''
+                }`}
+                title={filters.allocation === status ? 'Clear filter' : `Show ${ALLOCATION_STATUS_LABELS[status].toLowerCase()} orders`}
+              >
+                {allocationCounts[status]} {ALLOCATION_STATUS_LABELS[status].toLowerCase()}
+              </button>
+            ))}
+          </div>
+
           {/* Debug: Clear picking state button (remove in production) */}
           {process.env.NODE_ENV === 'development' && (pickedItems.size > 0 || pickedOrders.size > 0) && (
             <button
@@ -711,12 +952,45 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
         onMaxPickingOrdersChange={handleMaxPickingOrdersChange}
         showItemsToShip={showItemsToShip}
         onShowPickingList={handleShowPickingList}
+        onCreatePickWave={() => handleOpenCreateWave('selection')}
+        onHoldSelected={async () => {
+          if (await handleHoldOrders(selectedOrdersForPicking.map(order => order.id))) {
+            clearSelection()
+          }
+        }}
+        onReleaseSelected={async () => {
+          const heldIds = selectedOrdersList.filter(isOrderOnHold).map(order => order.id)
+          if (await handleReleaseOrders(heldIds)) {
+            clearSelection()
+          }
+        }}
+        heldSelectedCount={selectedOrdersList.length - selectedOrdersForPicking.length}
         itemsToShipCount={itemsInLimitedPickingOrders}
         fulfillmentStatusOptions={fulfillmentStatusOptions}
       />
 
-      {/* Show Filters Button */}
-      <div className="mt-4 flex justify-end">
+      {/* Pick Waves */}
+      <div className="mt-4">
+        <PickWavesPanel
+          waves={pickWaves}
+          isLoading={pickWavesLoading}
+          onAutoBuild={() => handleOpenCreateWave('rules')}
+          onStart={startWave}
+          onComplete={completeWave}
+          onCancel={cancelWave}
+          onUpdateLine={updateLinePicked}
+        />
+        <CombinableOrdersPanel orders={ordersToShip} onCombine={setCombineGroup} />
+      </div>
+
+      {/* Saved views and Show Filters Button */}
+      <div className="mt-4 flex justify-end gap-3">
+        <SavedViewsMenu
+          page="warehouseOrders"
+          currentState={savedViewState}
+          onApply={handleApplyView}
+          ready={!preferencesLoading && !columnsLoading}
+        />
         <button
           onClick={() => setShowFilters(!showFilters)}
           className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
@@ -767,9 +1041,10 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
       <OrdersPagination
         currentPage={currentPage}
         totalPages={totalPages}
-        totalItems={sortedOrders.length}
+        totalItems={totalCount}
         itemsPerPage={ordersPerPage || 20}
-        onPageChange={setCurrentPage}
+        onPageChange={setPage}
+        lastReachablePage={lastReachablePage}
       />
 
       {/* Modals */}
@@ -781,6 +1056,37 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
             setShowOrderDetails(false)
             setSelectedOrder(null)
           }}
+          onEdit={canEditOrder(selectedOrder, fulfillmentStatuses) ? () => handleEditOrder(selectedOrder) : undefined}
+          onCreateReturn={canCreateReturn(selectedOrder) ? () => handleCreateReturn(selectedOrder) : undefined}
+          onHold={async () => {
+            if (await handleHoldOrders([selectedOrder.id])) {
+              setShowOrderDetails(false)
+              setSelectedOrder(null)
+            }
+          }}
+          onRelease={async () => {
+            if (await handleReleaseOrders([selectedOrder.id])) {
+              setShowOrderDetails(false)
+              setSelectedOrder(null)
+            }
+          }}
+        />
+      )}
+
+      <EditOrderModal
+        isOpen={editingOrder !== null}
+        onClose={() => setEditingOrder(null)}
+        order={editingOrder}
+        onOrderUpdated={() => refreshOrders()}
+      />
+
+      {returnOrder && (
+        <CreateReturnModal
+          isOpen={returnOrder !== null}
+          onClose={() => setReturnOrder(null)}
+          order={returnOrder}
+          warehouses={warehouses}
+          onReturnCreated={(rma) => alert(`Return ${rma.rmaNumber} created`)}
         />
       )}
 
@@ -805,6 +1111,7 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
             refreshOrders()
           }}
           warehouseName={warehouse ? warehouse.name : 'Warehouse'}
+          warehouse={warehouse}
           maxOrdersLimit={selectedOrdersForPicking.length > 0 ? "all" : maxPickingOrders}
           totalOrdersCount={selectedOrdersForPicking.length > 0 ? selectedOrdersForPicking.length : ordersToShip.length}
           limitedOrdersCount={ordersWithDetailsForPicking.length}
@@ -831,6 +1138,32 @@ function WarehouseOrdersPageContent({ accountId }: WarehouseOrdersPageProps) {
           onOrderPacked={handleOrderPacked}
           fulfillmentStatusOptions={fulfillmentStatusOptions}
           onUpdateFulfillmentStatus={handleUpdateFulfillmentStatus}
+          warehouseId={warehouseId}
+          onOrderVerified={handleOrderVerified}
+        />
+      )}
+
+      {showCreateWave && (
+        <CreatePickWaveModal
+          isOpen={showCreateWave}
+          onClose={() => setShowCreateWave(false)}
+          warehouse={warehouse}
+          selectedOrders={selectedOrdersForPicking}
+          pickableOrders={ordersToPick}
+          existingWaves={pickWaves}
+          initialMode={createWaveMode}
+          onCreateWaves={handleCreateWaves}
+        />
+      )}
+
+      {combineGroup && (
+        <CombineShipmentModal
+          isOpen={combineGroup !== null}
+          onClose={() => setCombineGroup(null)}
+          group={combineGroup}
+          onShipmentCreated={() => {
+            refreshOrders()
+          }}
         />
       )}
 
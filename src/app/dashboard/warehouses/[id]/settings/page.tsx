@@ -7,6 +7,8 @@ import { useParams, useRouter } from 'next/navigation'
 import { useWarehouses } from '../../context/WarehouseContext'
 import { AVAILABLE_ORDER_STATUSES, OrderStatusSettings, DEFAULT_ORDER_STATUS_SETTINGS } from '../../utils/warehouseTypes'
 import { CheckIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import PrinterProfilesCard from '../../components/PrinterProfilesCard'
+import ShippingCalendarCard from '../../components/ShippingCalendarCard'
 
 export default function WarehouseSettingsPage() {
   const params = useParams()
@@ -150,7 +152,7 @@ export default function WarehouseSettingsPage() {
             {warehouse.name} Settings
           </h1>
           <p className="mt-2 text-sm text-gray-700">
-            Configure order status categorization and display preferences for this warehouse.
+            Configure order status categorization, display preferences, shipping calendar and thermal printers for this warehouse.
           </p>
         </div>
         <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none flex gap-2">
@@ -290,6 +292,11 @@ export default function WarehouseSettingsPage() {
           </div>
         </div>
 
+        {/* Shipping Calendar and Thermal Printers - saved on their own, separate from the order settings above */}
+        <ShippingCalendarCard warehouse={warehouse} />
+
+        <PrinterProfilesCard warehouse={warehouse} />
+
         {/* Reset to Defaults */}
         <div className="bg-gray-50 rounded-lg p-4">
           <div className="flex items-center justify-between">
@@ -0,0 +1,162 @@
+//file path: app/dashboard/warehouses/components/AssignBinModal.tsx
+
+'use client'
+
+import { Fragment, useState, useEffect, useMemo } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon, MapPinIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import { Warehouse, WarehouseInventoryItem, InventoryLocationAssignment } from '../utils/warehouseTypes'
+import { getLayoutLocations, resolveLocationString } from '../utils/locationUtils'
+
+interface AssignBinModalProps {
+  isOpen: boolean
+  onClose: () => void
+  warehouse: Warehouse
+  items: WarehouseInventoryItem[]
+  onAssign: (assignments: InventoryLocationAssignment[]) => Promise<void>
+}
+
+/**
+ * Put the selected products in one bin
+ * Bins from the warehouse layout are suggested; any other text is saved as a free-text location
+ * and an empty value clears the bin
+ */
+export default function AssignBinModal({ isOpen, onClose, warehouse, items, onAssign }: AssignBinModalProps) {
+  const [location, setLocation] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const layoutLocations = useMemo(() => getLayoutLocations(warehouse.layout), [warehouse.layout])
+  const resolved = useMemo(() => resolveLocationString(location, warehouse.layout), [location, warehouse.layout])
+
+  useEffect(() => {
+    if (isOpen) setLocation('')
+  }, [isOpen])
+
+  const trimmed = location.trim()
+  const isUnknownBin = trimmed !== '' && layoutLocations.length > 0 && !resolved
+
+  const handleAssign = async () => {
+    const assignments: InventoryLocationAssignment[] = items.map(item => ({
+      productId: item.productId,
+      location: resolved ? resolved.formattedLocation : trimmed,
+      structuredLocation: resolved
+    }))
+
+    try {
+      setIsSaving(true)
+      await onAssign(assignments)
+      onClose()
+    } catch (err: any) {
+      alert(err.message || 'Failed to assign bin')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                  <div className="flex items-center">
+                    <MapPinIcon className="h-5 w-5 text-indigo-600 mr-2" />
+                    <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                      Assign Bin
+                    </Dialog.Title>
+                  </div>
+                  <button onClick={onClose} className="rounded-md bg-white text-gray-400 hover:text-gray-500">
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="px-6 py-4 space-y-4">
+                  <p className="text-sm text-gray-700">
+                    {items.length} product{items.length !== 1 ? 's' : ''} will be moved to this bin.
+                  </p>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Bin location</label>
+                    <input
+                      type="text"
+                      list="assign-bin-locations"
+                      value={location}
+                      onChange={(e) => setLocation(e.target.value)}
+                      placeholder={layoutLocations[0]?.formattedLocation || 'e.g. A-01-2-B'}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    />
+                    <datalist id="assign-bin-locations">
+                      {layoutLocations.map(loc => (
+                        <option key={loc.binId} value={loc.formattedLocation}>
+                          {loc.zoneName} / {loc.aisleName} / {loc.shelfName} / {loc.binName}
+                        </option>
+                      ))}
+                    </datalist>
+                    <p className="mt-1 text-xs text-gray-500">Leave empty to clear the bin.</p>
+                  </div>
+
+                  {resolved && (
+                    <p className="text-sm text-gray-600">
+                      {resolved.zoneName} › {resolved.aisleName} › {resolved.shelfName} › {resolved.binName}
+                    </p>
+                  )}
+
+                  {isUnknownBin && (
+                    <div className="rounded-md bg-amber-50 border border-amber-200 p-3 flex items-start">
+                      <ExclamationTriangleIcon className="h-5 w-5 text-amber-500 flex-shrink-0" />
+                      <p className="ml-2 text-sm text-amber-800">
+                        This bin isn&apos;t in the warehouse layout. It will be saved as a free-text location.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-3 border-t border-gray-200 bg-gray-50 px-6 py-4">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleAssign}
+                    disabled={isSaving || items.length === 0}
+                    className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSaving ? 'Saving...' : trimmed ? 'Assign Bin' : 'Clear Bin'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,177 @@
+//file path: app/dashboard/warehouses/components/InventoryLedger.tsx
+
+'use client'
+
+import { useState } from 'react'
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline'
+import { InventoryMovementReason, InventoryMovementQueryParams } from '@/lib/api/inventoryApi'
+import { useInventoryMovements, fetchAllMovements } from '../hooks/useInventoryMovements'
+import { exportToCSV } from '../../shared/utils/csvExporter'
+import {
+  MOVEMENT_REASON_LABELS,
+  MOVEMENT_REASON_COLORS,
+  MOVEMENT_REASON_OPTIONS,
+  MOVEMENT_EXPORT_COLUMNS,
+  formatMovementQuantity,
+  formatMovementSource
+} from '../utils/inventoryMovements'
+
+interface InventoryLedgerProps {
+  productId?: string
+  warehouseId?: string
+  exportFilename: string
+  showProduct?: boolean          // Off when the ledger is already for one product
+  showWarehouse?: boolean        // Off when the ledger is already for one warehouse
+}
+
+/**
+ * Movement history with reason and date filters
+ * Export downloads every matching movement, not just the loaded pages
+ */
+export default function InventoryLedger({
+  productId,
+  warehouseId,
+  exportFilename,
+  showProduct = true,
+  showWarehouse = true
+}: InventoryLedgerProps) {
+  const [reason, setReason] = useState<InventoryMovementReason | ''>('')
+  const [fromDate, setFromDate] = useState('')
+  const [toDate, setToDate] = useState('')
+  const [exporting, setExporting] = useState(false)
+
+  const params: InventoryMovementQueryParams = {
+    productId,
+    warehouseId,
+    reason,
+    dateFrom: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    dateTo: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined
+  }
+
+  const { movements, loading, loadingMore, hasMore, loadMore } = useInventoryMovements(params)
+
+  const handleExport = async () => {
+    try {
+      setExporting(true)
+      const all = await fetchAllMovements(params)
+      if (all.length === 0) {
+        alert('No movements to export')
+        return
+      }
+      exportToCSV(all, MOVEMENT_EXPORT_COLUMNS, exportFilename)
+    } catch (err: any) {
+      alert(err.message || 'Failed to export movements')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const inputClass = 'rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm'
+
+  return (
+    <div>
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-500">Reason</label>
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value as InventoryMovementReason | '')}
+            className={`mt-1 ${inputClass}`}
+          >
+            <option value="">All reasons</option>
+            {MOVEMENT_REASON_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500">From</label>
+          <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={`mt-1 ${inputClass}`} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500">To</label>
+          <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={`mt-1 ${inputClass}`} />
+        </div>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={exporting}
+          className="ml-auto inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+        >
+          <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+          {exporting ? 'Exporting...' : 'Export Ledger'}
+        </button>
+      </div>
+
+      {/* Movements */}
+      <div className="mt-4">
+        {loading ? (
+          <div className="py-12 text-center text-sm text-gray-500">Loading movements...</div>
+        ) : movements.length === 0 ? (
+          <div className="rounded-lg border-2 border-dashed border-gray-300 py-12 text-center">
+            <p className="text-sm text-gray-500">No stock movements match these filters.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto shadow ring-1 ring-black ring-opacity-5 sm:rounded-lg">
+            <table className="min-w-full divide-y divide-gray-300">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Date</th>
+                  {showProduct && <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Product</th>}
+                  {showWarehouse && <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Warehouse</th>}
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Reason</th>
+                  <th className="px-3 py-3 text-right text-sm font-semibold text-gray-900">Change</th>
+                  <th className="px-3 py-3 text-right text-sm font-semibold text-gray-900">Balance</th>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Source</th>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">User</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {movements.map(movement => (
+                  <tr key={movement.id}>
+                    <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500">
+                      {new Date(movement.createdAt).toLocaleString()}
+                    </td>
+                    {showProduct && (
+                      <td className="px-3 py-2 text-sm">
+                        <div className="font-medium text-gray-900">{movement.sku}</div>
+                        <div className="text-xs text-gray-500">{movement.productName}</div>
+                      </td>
+                    )}
+                    {showWarehouse && <td className="px-3 py-2 text-sm text-gray-500">{movement.warehouseName}</td>}
+                    <td className="px-3 py-2 text-sm">
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${MOVEMENT_REASON_COLORS[movement.reason]}`}>
+                        {MOVEMENT_REASON_LABELS[movement.reason] || movement.reason}
+                      </span>
+                      {movement.note && <p className="mt-0.5 text-xs text-gray-500">{movement.note}</p>}
+                    </td>
+                    <td className={`px-3 py-2 text-right text-sm font-medium ${movement.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatMovementQuantity(movement.quantity)}
+                    </td>
+                    <td className="px-3 py-2 text-right text-sm text-gray-900">{movement.balanceAfter}</td>
+                    <td className="px-3 py-2 text-sm text-gray-500">{formatMovementSource(movement) || '—'}</td>
+                    <td className="px-3 py-2 text-sm text-gray-500">{movement.userName || 'System'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {hasMore && !loading && (
+          <div className="mt-4 text-center">
+            <button
+              type="button"
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {loadingMore ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+//file path: app/dashboard/warehouses/components/InventoryMovementsModal.tsx
+
+'use client'
+
+import { Fragment } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon, ClockIcon } from '@heroicons/react/24/outline'
+import InventoryLedger from './InventoryLedger'
+
+interface InventoryMovementsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  productId: string | null
+  sku: string
+  productName?: string
+  warehouseId?: string           // Omit for the product's history across every warehouse
+  warehouseName?: string
+}
+
+/**
+ * Stock history for one SKU, at one warehouse or all of them
+ */
+export default function InventoryMovementsModal({
+  isOpen,
+  onClose,
+  productId,
+  sku,
+  productName,
+  warehouseId,
+  warehouseName
+}: InventoryMovementsModalProps) {
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-5xl transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                  <div className="flex items-center">
+                    <ClockIcon className="h-5 w-5 text-indigo-600 mr-2" />
+                    <div>
+                      <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                        Stock History - {sku}
+                      </Dialog.Title>
+                      <p className="text-sm text-gray-500">
+                        {productName}{productName && ' · '}{warehouseName || 'All warehouses'}
+                      </p>
+                    </div>
+                  </div>
+                  <button onClick={onClose} className="rounded-md bg-white text-gray-400 hover:text-gray-500">
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="max-h-[70vh] overflow-y-auto px-6 py-4">
+                  {productId && (
+                    <InventoryLedger
+                      productId={productId}
+                      warehouseId={warehouseId}
+                      exportFilename={`stock-history-${sku}`}
+                      showProduct={false}
+                      showWarehouse={!warehouseId}
+                    />
+                  )}
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,236 @@
+//file path: app/dashboard/warehouses/components/InventoryTable.tsx
+
+'use client'
+
+import React, { useState } from 'react'
+import { PencilIcon, CubeIcon, CheckIcon, XMarkIcon, ClockIcon } from '@heroicons/react/24/outline'
+import { InventoryMovementReason, StockAdjustment } from '@/lib/api/inventoryApi'
+import { WarehouseInventoryItem } from '../utils/warehouseTypes'
+import { ADJUSTMENT_REASON_OPTIONS } from '../utils/inventoryMovements'
+import {
+  getInventoryStockStatus,
+  getInventoryLocation,
+  INVENTORY_STOCK_STATUS_LABELS,
+  INVENTORY_STOCK_STATUS_COLORS
+} from '../utils/inventoryUtils'
+
+interface InventoryTableProps {
+  items: WarehouseInventoryItem[]
+  isSelected: (itemId: string) => boolean
+  isAllSelected: boolean
+  onSelectItem: (itemId: string) => void
+  onSelectAll: () => void
+  onSetStockQuantity: (item: WarehouseInventoryItem, quantity: number, adjustment: StockAdjustment) => Promise<void>
+  onViewHistory: (item: WarehouseInventoryItem) => void
+}
+
+/**
+ * On-hand quantity cell - click to edit, pick why the stock changed, Enter saves, Escape cancels
+ */
+function StockQuantityCell({
+  item,
+  onSave
+}: {
+  item: WarehouseInventoryItem
+  onSave: (quantity: number, adjustment: StockAdjustment) => Promise<void>
+}) {
+  const [editing, setEditing] = useState(false)
+  const [value, setValue] = useState('')
+  const [reason, setReason] = useState<InventoryMovementReason>('cycle_count')
+  const [note, setNote] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const startEditing = () => {
+    setValue(String(item.stockQuantity))
+    setReason('cycle_count')
+    setNote('')
+    setEditing(true)
+  }
+
+  const save = async () => {
+    const quantity = Number(value)
+    if (value.trim() === '' || !Number.isInteger(quantity) || quantity < 0) {
+      alert('Quantity must be a whole number of 0 or more')
+      return
+    }
+    if (quantity === item.stockQuantity) {
+      setEditing(false)
+      return
+    }
+
+    try {
+      setSaving(true)
+      await onSave(quantity, { reason, note: note.trim() || undefined })
+      setEditing(false)
+    } catch (err: any) {
+      alert(err.message || 'Failed to update quantity')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!editing) {
+    return (
+      <button
+        type="button"
+        onClick={startEditing}
+        className="group inline-flex items-center gap-1 rounded px-1 text-sm font-medium text-gray-900 hover:bg-gray-100"
+        title="Adjust quantity"
+      >
+        {item.stockQuantity}
+        <PencilIcon className="h-3 w-3 text-gray-400 opacity-0 group-hover:opacity-100" />
+      </button>
+    )
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') save()
+    if (e.key === 'Escape') setEditing(false)
+  }
+
+  return (
+    <div className="flex flex-col gap-1" onKeyDown={handleKeyDown}>
+      <div className="flex items-center gap-1">
+        <input
+          type="number"
+          min={0}
+          autoFocus
+          value={value}
+          disabled={saving}
+          onChange={(e) => setValue(e.target.value)}
+          className="w-20 rounded-md border-gray-300 py-1 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        />
+        <button type="button" onClick={save} disabled={saving} className="text-green-600 hover:text-green-800" title="Save">
+          <CheckIcon className="h-4 w-4" />
+        </button>
+        <button type="button" onClick={() => setEditing(false)} disabled={saving} className="text-gray-400 hover:text-gray-600" title="Cancel">
+          <XMarkIcon className="h-4 w-4" />
+        </button>
+      </div>
+      <select
+        value={reason}
+        disabled={saving}
+        onChange={(e) => setReason(e.target.value as InventoryMovementReason)}
+        className="w-36 rounded-md border-gray-300 py-1 text-xs shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+      >
+        {ADJUSTMENT_REASON_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={note}
+        disabled={saving}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note (optional)"
+        className="w-36 rounded-md border-gray-300 py-1 text-xs shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+      />
+    </div>
+  )
+}
+
+export default function InventoryTable({
+  items,
+  isSelected,
+  isAllSelected,
+  onSelectItem,
+  onSelectAll,
+  onSetStockQuantity,
+  onViewHistory
+}: InventoryTableProps) {
+  const headerClass = 'px-3 py-3.5 text-left text-sm font-semibold text-gray-900'
+
+  return (
+    <div className="overflow-x-auto shadow ring-1 ring-black ring-opacity-5 sm:rounded-lg">
+      <table className="min-w-full divide-y divide-gray-300">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="w-10 px-3 py-3.5">
+              <input
+                type="checkbox"
+                checked={isAllSelected}
+                onChange={onSelectAll}
+                className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+              />
+            </th>
+            <th className={headerClass}>Product</th>
+            <th className={headerClass}>Bin</th>
+            <th className={headerClass}>In Stock</th>
+            <th className={headerClass}>Reserved</th>
+            <th className={headerClass}>Available</th>
+            <th className={headerClass}>Reorder Point</th>
+            <th className={headerClass}>Max Stock</th>
+            <th className={headerClass}>Status</th>
+            <th className="w-10 px-3 py-3.5"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 bg-white">
+          {items.map(item => {
+            const status = getInventoryStockStatus(item)
+            const location = getInventoryLocation(item)
+
+            return (
+              <tr key={item.id} className={isSelected(item.id) ? 'bg-indigo-50' : 'hover:bg-gray-50'}>
+                <td className="px-3 py-3">
+                  <input
+                    type="checkbox"
+                    checked={isSelected(item.id)}
+                    onChange={() => onSelectItem(item.id)}
+                    className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <div className="flex items-center">
+                    {item.image ? (
+                      <img src={item.image} alt={item.productName} className="h-8 w-8 rounded object-cover" />
+                    ) : (
+                      <div className="flex h-8 w-8 items-center justify-center rounded bg-gray-100">
+                        <CubeIcon className="h-4 w-4 text-gray-400" />
+                      </div>
+                    )}
+                    <div className="ml-3">
+                      <div className="text-sm font-medium text-gray-900">{item.productName}</div>
+                      <div className="text-xs text-gray-500">{item.sku}</div>
+                    </div>
+                  </div>
+                </td>
+                <td className="px-3 py-3 text-sm">
+                  {location ? (
+                    <span className="font-mono text-gray-900">{location}</span>
+                  ) : (
+                    <span className="text-gray-400">No bin</span>
+                  )}
+                </td>
+                <td className="px-3 py-3">
+                  <StockQuantityCell item={item} onSave={(quantity, adjustment) => onSetStockQuantity(item, quantity, adjustment)} />
+                  {(item.inTransitQuantity || 0) > 0 && (
+                    <div className="mt-0.5 text-xs text-blue-600">+{item.inTransitQuantity} in transit</div>
+                  )}
+                </td>
+                <td className="px-3 py-3 text-sm text-gray-500">{item.reservedQuantity}</td>
+                <td className="px-3 py-3 text-sm font-medium text-gray-900">{item.availableQuantity}</td>
+                <td className="px-3 py-3 text-sm text-gray-500">{item.reorderPoint}</td>
+                <td className="px-3 py-3 text-sm text-gray-500">{item.maxStock > 0 ? item.maxStock : '—'}</td>
+                <td className="px-3 py-3">
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${INVENTORY_STOCK_STATUS_COLORS[status]}`}>
+                    {INVENTORY_STOCK_STATUS_LABELS[status]}
+                  </span>
+                </td>
+                <td className="px-3 py-3">
+                  <button
+                    type="button"
+                    onClick={() => onViewHistory(item)}
+                    className="text-gray-400 hover:text-indigo-600"
+                    title="Stock history"
+                  >
+                    <ClockIcon className="h-4 w-4" />
+                  </button>
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
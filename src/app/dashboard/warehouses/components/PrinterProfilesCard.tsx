@@ -0,0 +1,303 @@
+//file path: app/dashboard/warehouses/components/PrinterProfilesCard.tsx
+
+'use client'
+
+import { useState } from 'react'
+import { PlusIcon, PrinterIcon, PencilIcon, TrashIcon, StarIcon } from '@heroicons/react/24/outline'
+import { useWarehouses } from '../context/WarehouseContext'
+import { useThermalLabels } from '../hooks/useThermalLabels'
+import { Warehouse, PrinterProfile } from '../utils/warehouseTypes'
+import {
+  LABEL_SIZE_OPTIONS,
+  DPI_OPTIONS,
+  DEFAULT_PRINTER_PORT,
+  createPrinterProfile,
+  validatePrinterProfile
+} from '../utils/printerProfiles'
+
+interface PrinterProfilesCardProps {
+  warehouse: Warehouse
+}
+
+/**
+ * Thermal printers used for ZPL labels at this warehouse
+ * Changes are saved straight to the warehouse
+ */
+export default function PrinterProfilesCard({ warehouse }: PrinterProfilesCardProps) {
+  const { updateWarehouse } = useWarehouses()
+  const { printLabels, printing } = useThermalLabels()
+  const profiles = warehouse.printerProfiles || []
+
+  const [editing, setEditing] = useState<PrinterProfile | null>(null)
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const saveProfiles = async (next: PrinterProfile[]) => {
+    try {
+      setSaving(true)
+      await updateWarehouse(warehouse.id, { printerProfiles: next })
+      return true
+    } catch (err: any) {
+      console.error('[PrinterProfilesCard] Error saving printers:', err)
+      alert(err.message || 'Failed to save printers')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!editing) return
+
+    const validationError = validatePrinterProfile(editing)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    const profile = {
+      ...editing,
+      name: editing.name.trim(),
+      host: editing.connection === 'network' ? editing.host?.trim() : undefined
+    }
+    const exists = profiles.some(p => p.id === profile.id)
+    let next = exists ? profiles.map(p => p.id === profile.id ? profile : p) : [...profiles, profile]
+
+    // Exactly one default
+    if (profile.isDefault) {
+      next = next.map(p => ({ ...p, isDefault: p.id === profile.id }))
+    } else if (!next.some(p => p.isDefault)) {
+      next = next.map((p, index) => ({ ...p, isDefault: index === 0 }))
+    }
+
+    if (await saveProfiles(next)) {
+      setEditing(null)
+      setError('')
+    }
+  }
+
+  const handleRemove = async (profile: PrinterProfile) => {
+    if (!confirm(`Remove ${profile.name}?`)) return
+
+    const next = profiles.filter(p => p.id !== profile.id)
+    if (profile.isDefault && next.length > 0) next[0] = { ...next[0], isDefault: true }
+    await saveProfiles(next)
+  }
+
+  const handleSetDefault = async (profile: PrinterProfile) => {
+    await saveProfiles(profiles.map(p => ({ ...p, isDefault: p.id === profile.id })))
+  }
+
+  const handleTestPrint = (profile: PrinterProfile) => {
+    printLabels({
+      kind: 'test',
+      warehouseId: warehouse.id,
+      profileId: profile.id,
+      send: profile.connection === 'network'
+    })
+  }
+
+  const inputClass = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm'
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Thermal Printers</h3>
+          <p className="text-sm text-gray-600">
+            Printer profiles for ZPL shipping labels, packing slips, product and bin labels
+          </p>
+        </div>
+        {!editing && (
+          <button
+            onClick={() => setEditing(createPrinterProfile(profiles.length === 0))}
+            className="inline-flex items-center gap-x-2 rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+          >
+            <PlusIcon className="h-4 w-4" />
+            Add Printer
+          </button>
+        )}
+      </div>
+
+      {profiles.length === 0 && !editing && (
+        <p className="text-sm text-gray-500 py-4 text-center">
+          No thermal printers yet. Labels print as PDFs until one is added.
+        </p>
+      )}
+
+      {profiles.length > 0 && (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {profiles.map(profile => (
+            <li key={profile.id} className="flex items-center justify-between px-4 py-3">
+              <div className="flex items-center gap-3">
+                <PrinterIcon className="h-5 w-5 text-gray-400" />
+                <div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {profile.name}
+                    {profile.isDefault && (
+                      <span className="ml-2 inline-flex items-center rounded-full bg-indigo-100 px-2 py-0.5 text-xs font-medium text-indigo-700">
+                        Default
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {profile.labelSize} in · {profile.dpi} dpi ·{' '}
+                    {profile.connection === 'network'
+                      ? `Network ${profile.host}:${profile.port || DEFAULT_PRINTER_PORT}`
+                      : 'Download .zpl file'}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => handleTestPrint(profile)}
+                  disabled={printing !== null}
+                  className="rounded-md bg-white px-2.5 py-1.5 text-xs font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {printing === 'test' ? 'Printing...' : 'Test Print'}
+                </button>
+                {!profile.isDefault && (
+                  <button
+                    onClick={() => handleSetDefault(profile)}
+                    disabled={saving}
+                    className="text-gray-400 hover:text-indigo-600"
+                    title="Make default"
+                  >
+                    <StarIcon className="h-4 w-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => { setEditing(profile); setError('') }}
+                  className="text-gray-400 hover:text-indigo-600"
+                  title="Edit"
+                >
+                  <PencilIcon className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleRemove(profile)}
+                  disabled={saving}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editing && (
+        <div className="mt-4 rounded-md border border-indigo-200 bg-indigo-50/40 p-4 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                className={inputClass}
+                placeholder="e.g., Packing station 1"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Label Size</label>
+              <select
+                value={editing.labelSize}
+                onChange={(e) => setEditing({ ...editing, labelSize: e.target.value as PrinterProfile['labelSize'] })}
+                className={inputClass}
+              >
+                {LABEL_SIZE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Resolution</label>
+              <select
+                value={editing.dpi}
+                onChange={(e) => setEditing({ ...editing, dpi: Number(e.target.value) as PrinterProfile['dpi'] })}
+                className={inputClass}
+              >
+                {DPI_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Connection</label>
+              <select
+                value={editing.connection}
+                onChange={(e) => setEditing({ ...editing, connection: e.target.value as PrinterProfile['connection'] })}
+                className={inputClass}
+              >
+                <option value="download">Download .zpl file</option>
+                <option value="network">Network (raw port)</option>
+              </select>
+            </div>
+            {editing.connection === 'network' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">IP Address / Hostname</label>
+                  <input
+                    type="text"
+                    value={editing.host || ''}
+                    onChange={(e) => setEditing({ ...editing, host: e.target.value })}
+                    className={inputClass}
+                    placeholder="192.168.1.50"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Port</label>
+                  <input
+                    type="number"
+                    value={editing.port ?? DEFAULT_PRINTER_PORT}
+                    onChange={(e) => setEditing({ ...editing, port: parseInt(e.target.value) || undefined })}
+                    className={inputClass}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          {editing.connection === 'network' && (
+            <p className="text-xs text-gray-500">
+              Jobs are sent from the server, so the printer must be reachable from where this app is hosted.
+            </p>
+          )}
+
+          <label className="flex items-center space-x-3">
+            <input
+              type="checkbox"
+              checked={editing.isDefault}
+              onChange={(e) => setEditing({ ...editing, isDefault: e.target.checked })}
+              className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+            />
+            <span className="text-sm font-medium text-gray-900">Default printer for this warehouse</span>
+          </label>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => { setEditing(null); setError('') }}
+              className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Printer'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
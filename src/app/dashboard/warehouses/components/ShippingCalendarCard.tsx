@@ -0,0 +1,291 @@
+//file path: app/dashboard/warehouses/components/ShippingCalendarCard.tsx
+
+'use client'
+
+import { useState, useEffect } from 'react'
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { useWarehouses } from '../context/WarehouseContext'
+import { Warehouse, WarehouseCalendar, BusinessHours } from '../utils/warehouseTypes'
+import {
+  WEEKDAY_LABELS,
+  TIME_ZONE_OPTIONS,
+  getWarehouseCalendar,
+  validateWarehouseCalendar
+} from '../utils/warehouseCalendar'
+import { calculateShipByDate, formatShipByDate } from '../../orders/utils/shipBy'
+
+interface ShippingCalendarCardProps {
+  warehouse: Warehouse
+}
+
+/**
+ * Business hours, holidays and carrier cutoffs used for ship-by deadlines
+ * Changes are saved straight to the warehouse
+ */
+export default function ShippingCalendarCard({ warehouse }: ShippingCalendarCardProps) {
+  const { updateWarehouse } = useWarehouses()
+  const saved = getWarehouseCalendar(warehouse)
+
+  const [calendar, setCalendar] = useState<WarehouseCalendar>(saved)
+  const [previewMethod, setPreviewMethod] = useState('')
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setCalendar(getWarehouseCalendar(warehouse))
+  }, [warehouse])
+
+  const hasChanges = JSON.stringify(calendar) !== JSON.stringify(saved)
+
+  const updateHours = (day: number, updates: Partial<BusinessHours>) => {
+    setCalendar(prev => ({
+      ...prev,
+      businessHours: prev.businessHours.map(hours => hours.day === day ? { ...hours, ...updates } : hours)
+    }))
+  }
+
+  const handleSave = async () => {
+    const next: WarehouseCalendar = {
+      ...calendar,
+      holidays: calendar.holidays
+        .map(holiday => ({ ...holiday, name: holiday.name.trim() }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      carrierCutoffs: calendar.carrierCutoffs.map(cutoff => ({ ...cutoff, carrier: cutoff.carrier.trim() }))
+    }
+
+    const validationError = validateWarehouseCalendar(next)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    try {
+      setSaving(true)
+      await updateWarehouse(warehouse.id, { calendar: next })
+      setError('')
+    } catch (err: any) {
+      console.error('[ShippingCalendarCard] Error saving calendar:', err)
+      alert(err.message || 'Failed to save shipping calendar')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Only preview calendars that would save
+  const preview = validateWarehouseCalendar(calendar) ? null : calculateShipByDate(new Date().toISOString(), previewMethod, calendar)
+
+  const inputClass = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm'
+  const timeClass = 'rounded-md border-gray-300 py-1 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 disabled:opacity-50'
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">Shipping Calendar</h3>
+        <p className="text-sm text-gray-600">
+          Ship-by deadlines count business days at this warehouse and end at the carrier cutoff, or closing time
+        </p>
+      </div>
+
+      <div className="max-w-xs">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Time Zone</label>
+        <select
+          value={calendar.timeZone}
+          onChange={(e) => setCalendar({ ...calendar, timeZone: e.target.value })}
+          className={inputClass}
+        >
+          {!TIME_ZONE_OPTIONS.includes(calendar.timeZone) && (
+            <option value={calendar.timeZone}>{calendar.timeZone}</option>
+          )}
+          {TIME_ZONE_OPTIONS.map(zone => (
+            <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Weekly hours */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-900 mb-2">Business Hours</h4>
+        <div className="space-y-2">
+          {calendar.businessHours.map(hours => (
+            <div key={hours.day} className="flex items-center gap-3">
+              <label className="flex w-32 items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={hours.isOpen}
+                  onChange={(e) => updateHours(hours.day, { isOpen: e.target.checked })}
+                  className="mr-2 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                />
+                {WEEKDAY_LABELS[hours.day]}
+              </label>
+              <input
+                type="time"
+                value={hours.open}
+                onChange={(e) => updateHours(hours.day, { open: e.target.value })}
+                disabled={!hours.isOpen}
+                className={timeClass}
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <input
+                type="time"
+                value={hours.close}
+                onChange={(e) => updateHours(hours.day, { close: e.target.value })}
+                disabled={!hours.isOpen}
+                className={timeClass}
+              />
+              {!hours.isOpen && <span className="text-xs text-gray-400">Closed</span>}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Carrier cutoffs */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-gray-900">Carrier Cutoffs</h4>
+          <button
+            type="button"
+            onClick={() => setCalendar({ ...calendar, carrierCutoffs: [...calendar.carrierCutoffs, { carrier: '', cutoff: '15:00' }] })}
+            className="inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-500"
+          >
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Add Cutoff
+          </button>
+        </div>
+        {calendar.carrierCutoffs.length === 0 ? (
+          <p className="text-sm text-gray-500">No cutoffs. Orders can ship until closing time.</p>
+        ) : (
+          <div className="space-y-2">
+            {calendar.carrierCutoffs.map((cutoff, index) => (
+              <div key={index} className="flex items-center gap-3">
+                <input
+                  type="text"
+                  value={cutoff.carrier}
+                  onChange={(e) => setCalendar({
+                    ...calendar,
+                    carrierCutoffs: calendar.carrierCutoffs.map((c, i) => i === index ? { ...c, carrier: e.target.value } : c)
+                  })}
+                  className={`${timeClass} w-48`}
+                  placeholder="e.g., UPS"
+                />
+                <span className="text-sm text-gray-500">pickup at</span>
+                <input
+                  type="time"
+                  value={cutoff.cutoff}
+                  onChange={(e) => setCalendar({
+                    ...calendar,
+                    carrierCutoffs: calendar.carrierCutoffs.map((c, i) => i === index ? { ...c, cutoff: e.target.value } : c)
+                  })}
+                  className={timeClass}
+                />
+                <button
+                  type="button"
+                  onClick={() => setCalendar({ ...calendar, carrierCutoffs: calendar.carrierCutoffs.filter((_, i) => i !== index) })}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <p className="text-xs text-gray-500">
+              A cutoff applies to orders whose shipping method contains the carrier name.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Holidays */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-gray-900">Holidays</h4>
+          <button
+            type="button"
+            onClick={() => setCalendar({ ...calendar, holidays: [...calendar.holidays, { date: '', name: '' }] })}
+            className="inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-500"
+          >
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Add Holiday
+          </button>
+        </div>
+        {calendar.holidays.length === 0 ? (
+          <p className="text-sm text-gray-500">No holidays.</p>
+        ) : (
+          <div className="space-y-2">
+            {calendar.holidays.map((holiday, index) => (
+              <div key={index} className="flex items-center gap-3">
+                <input
+                  type="date"
+                  value={holiday.date}
+                  onChange={(e) => setCalendar({
+                    ...calendar,
+                    holidays: calendar.holidays.map((h, i) => i === index ? { ...h, date: e.target.value } : h)
+                  })}
+                  className={timeClass}
+                />
+                <input
+                  type="text"
+                  value={holiday.name}
+                  onChange={(e) => setCalendar({
+                    ...calendar,
+                    holidays: calendar.holidays.map((h, i) => i === index ? { ...h, name: e.target.value } : h)
+                  })}
+                  className={`${timeClass} w-56`}
+                  placeholder="e.g., Thanksgiving"
+                />
+                <button
+                  type="button"
+                  onClick={() => setCalendar({ ...calendar, holidays: calendar.holidays.filter((_, i) => i !== index) })}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Preview */}
+      <div className="rounded-md bg-gray-50 p-4">
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+          <span>An order placed now with shipping method</span>
+          <input
+            type="text"
+            value={previewMethod}
+            onChange={(e) => setPreviewMethod(e.target.value)}
+            className={`${timeClass} w-40`}
+            placeholder="e.g., UPS Ground"
+          />
+          <span>
+            ships by{' '}
+            <span className="font-medium text-gray-900">
+              {preview ? formatShipByDate(preview, calendar.timeZone) : '—'}
+            </span>
+          </span>
+        </div>
+        <p className="mt-1 text-xs text-gray-500">Before the store&apos;s handling time is added.</p>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        {hasChanges && (
+          <button
+            onClick={() => { setCalendar(saved); setError('') }}
+            className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+          >
+            Reset
+          </button>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={saving || !hasChanges}
+          className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Calendar'}
+        </button>
+      </div>
+    </div>
+  )
+}
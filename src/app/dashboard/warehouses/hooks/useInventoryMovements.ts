@@ -0,0 +1,95 @@
+//file path: app/dashboard/warehouses/hooks/useInventoryMovements.ts
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  InventoryAPI,
+  InventoryMovement,
+  InventoryMovementQueryParams,
+  InventoryMovementQueryResult
+} from '@/lib/api/inventoryApi'
+
+const MOVEMENTS_PAGE_SIZE = 50
+const MOVEMENTS_EXPORT_PAGE_SIZE = 500
+
+/**
+ * Every movement matching the filters, for exports
+ */
+export async function fetchAllMovements(params: InventoryMovementQueryParams): Promise<InventoryMovement[]> {
+  const movements: InventoryMovement[] = []
+  let cursor: string | null = null
+
+  do {
+    const page: InventoryMovementQueryResult = await InventoryAPI.getMovements({
+      ...params,
+      cursor,
+      limit: MOVEMENTS_EXPORT_PAGE_SIZE
+    })
+    movements.push(...page.movements)
+    cursor = page.nextCursor
+  } while (cursor)
+
+  return movements
+}
+
+/**
+ * Movement ledger for a product, a warehouse or both, newest first
+ * Loads a page at a time; loadMore appends the next page
+ */
+export function useInventoryMovements(params: InventoryMovementQueryParams) {
+  const [movements, setMovements] = useState<InventoryMovement[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+
+  const { productId, warehouseId, reason, dateFrom, dateTo } = params
+
+  const loadMovements = useCallback(async () => {
+    try {
+      setLoading(true)
+      const page = await InventoryAPI.getMovements({
+        productId, warehouseId, reason, dateFrom, dateTo,
+        limit: MOVEMENTS_PAGE_SIZE
+      })
+      setMovements(page.movements)
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      console.error('[useInventoryMovements] Error loading movements:', error)
+      setMovements([])
+      setNextCursor(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [productId, warehouseId, reason, dateFrom, dateTo])
+
+  useEffect(() => {
+    loadMovements()
+  }, [loadMovements])
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return
+
+    try {
+      setLoadingMore(true)
+      const page = await InventoryAPI.getMovements({
+        productId, warehouseId, reason, dateFrom, dateTo,
+        cursor: nextCursor,
+        limit: MOVEMENTS_PAGE_SIZE
+      })
+      setMovements(prev => [...prev, ...page.movements])
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      console.error('[useInventoryMovements] Error loading more movements:', error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [nextCursor, productId, warehouseId, reason, dateFrom, dateTo])
+
+  return {
+    movements,
+    loading,
+    loadingMore,
+    hasMore: nextCursor !== null,
+    loadMore,
+    refresh: loadMovements
+  }
+}
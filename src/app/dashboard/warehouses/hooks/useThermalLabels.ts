@@ -0,0 +1,52 @@
+// File: app/dashboard/warehouses/hooks/useThermalLabels.ts
+import { useState, useCallback } from 'react'
+import { DocumentAPI, GenerateZplData, ZplLabelKind } from '@/lib/api/documentApi'
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * ZPL labels for a warehouse's thermal printers
+ * Network printers are sent the job directly; otherwise the .zpl file is downloaded
+ */
+export function useThermalLabels() {
+  const [printing, setPrinting] = useState<ZplLabelKind | null>(null)
+
+  const printLabels = useCallback(async (data: GenerateZplData): Promise<boolean> => {
+    try {
+      setPrinting(data.kind)
+      const result = await DocumentAPI.generateZpl(data)
+
+      if (result.blob) {
+        downloadBlob(result.blob, result.fileName)
+      }
+
+      const summary = result.sent ? `Sent ${result.labelCount} label(s) to the printer.` : ''
+      if (result.warnings.length > 0) {
+        alert(`${summary}\n\nSome labels were skipped:\n${result.warnings.join('\n')}`.trim())
+      } else if (summary) {
+        alert(summary)
+      }
+      return true
+    } catch (error: any) {
+      console.error('[useThermalLabels] Error printing labels:', error)
+      alert(error.message || 'Failed to print labels')
+      return false
+    } finally {
+      setPrinting(null)
+    }
+  }, [])
+
+  return {
+    printLabels,
+    printing
+  }
+}
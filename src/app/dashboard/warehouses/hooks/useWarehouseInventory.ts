@@ -0,0 +1,71 @@
+//file path: app/dashboard/warehouses/hooks/useWarehouseInventory.ts
+
+import { useState, useEffect, useCallback } from 'react'
+import { WarehouseAPI } from '@/lib/api/warehouseApi'
+import { StockAdjustment } from '@/lib/api/inventoryApi'
+import { WarehouseInventoryItem, InventoryLocationAssignment } from '../utils/warehouseTypes'
+
+/**
+ * Stock records for one warehouse
+ * Quantity and bin changes are saved straight away
+ */
+export function useWarehouseInventory(warehouseId: string) {
+  const [items, setItems] = useState<WarehouseInventoryItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadInventory = useCallback(async () => {
+    try {
+      setError(null)
+      setItems(await WarehouseAPI.getInventory(warehouseId))
+    } catch (err: any) {
+      console.error('[useWarehouseInventory] Error loading inventory:', err)
+      setError(err.message || 'Failed to load inventory')
+    } finally {
+      setLoading(false)
+    }
+  }, [warehouseId])
+
+  useEffect(() => {
+    setLoading(true)
+    loadInventory()
+  }, [loadInventory])
+
+  /**
+   * Set the on-hand quantity for a product
+   * The change is checked against the stock shown on the row, and the row is
+   * replaced with the backend's record (which logs the difference as a movement)
+   */
+  const setStockQuantity = useCallback(async (
+    item: WarehouseInventoryItem,
+    quantity: number,
+    adjustment: StockAdjustment
+  ) => {
+    try {
+      const updated = await WarehouseAPI.setStockQuantity(
+        warehouseId, item.productId, quantity, item.stockQuantity, adjustment
+      )
+      setItems(prev => prev.map(i => i.productId === updated.productId ? updated : i))
+    } catch (err) {
+      // Stock may have moved since the row loaded - show the current figures
+      console.error('[useWarehouseInventory] Error setting stock quantity:', err)
+      await loadInventory()
+      throw err
+    }
+  }, [warehouseId, loadInventory])
+
+  const assignLocations = useCallback(async (assignments: InventoryLocationAssignment[]) => {
+    const updated = await WarehouseAPI.assignInventoryLocations(warehouseId, assignments)
+    const byProduct = new Map(updated.map(item => [item.productId, item]))
+    setItems(prev => prev.map(item => byProduct.get(item.productId) || item))
+  }, [warehouseId])
+
+  return {
+    items,
+    loading,
+    error,
+    setStockQuantity,
+    assignLocations,
+    refresh: loadInventory
+  }
+}
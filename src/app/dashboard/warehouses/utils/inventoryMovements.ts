@@ -0,0 +1,83 @@
+//file path: app/dashboard/warehouses/utils/inventoryMovements.ts
+
+import { InventoryMovement, InventoryMovementReason } from '@/lib/api/inventoryApi'
+import { ExportColumn, ExportableItem } from '../../shared/utils/csvExporter'
+
+export const MOVEMENT_REASON_LABELS: Record<InventoryMovementReason, string> = {
+  received: 'Received',
+  sold: 'Sold',
+  returned: 'Returned',
+  damaged: 'Damaged',
+  cycle_count: 'Cycle count',
+  transfer: 'Transfer',
+  manual: 'Manual'
+}
+
+export const MOVEMENT_REASON_COLORS: Record<InventoryMovementReason, string> = {
+  received: 'bg-green-100 text-green-800',
+  sold: 'bg-blue-100 text-blue-800',
+  returned: 'bg-teal-100 text-teal-800',
+  damaged: 'bg-red-100 text-red-800',
+  cycle_count: 'bg-yellow-100 text-yellow-800',
+  transfer: 'bg-purple-100 text-purple-800',
+  manual: 'bg-gray-100 text-gray-800'
+}
+
+export const MOVEMENT_REASON_OPTIONS = (Object.keys(MOVEMENT_REASON_LABELS) as InventoryMovementReason[])
+  .map(value => ({ value, label: MOVEMENT_REASON_LABELS[value] }))
+
+/**
+ * Reasons a person can pick when changing stock by hand
+ * Sold and transfer movements only come from orders and transfers
+ */
+export const ADJUSTMENT_REASON_OPTIONS = MOVEMENT_REASON_OPTIONS
+  .filter(option => option.value !== 'sold' && option.value !== 'transfer')
+
+export function formatMovementQuantity(quantity: number): string {
+  return quantity > 0 ? `+${quantity}` : String(quantity)
+}
+
+/**
+ * Source document for a movement, e.g. "Order #1042"
+ */
+export function formatMovementSource(movement: InventoryMovement): string {
+  if (!movement.sourceType) return ''
+  const label = {
+    order: 'Order',
+    return: 'Return',
+    transfer: 'Transfer',
+    purchase_order: 'PO',
+    adjustment: 'Adjustment'
+  }[movement.sourceType]
+  const reference = movement.sourceReference || movement.sourceId
+  return reference ? `${label} ${reference}` : label
+}
+
+const column = (
+  field: string,
+  label: string,
+  formatter?: (movement: InventoryMovement) => string
+): ExportColumn => ({
+  id: field,
+  field,
+  label,
+  sortable: false,
+  visible: true,
+  formatter: formatter ? (_value: any, item: ExportableItem) => formatter(item as InventoryMovement) : undefined
+})
+
+/**
+ * Ledger columns for the accountant's export - one row per movement, newest first
+ */
+export const MOVEMENT_EXPORT_COLUMNS: ExportColumn[] = [
+  column('createdAt', 'Date', m => new Date(m.createdAt).toISOString()),
+  column('warehouseName', 'Warehouse'),
+  column('sku', 'SKU'),
+  column('productName', 'Product'),
+  column('reason', 'Reason', m => MOVEMENT_REASON_LABELS[m.reason] || m.reason),
+  column('quantity', 'Quantity'),
+  column('balanceAfter', 'Balance'),
+  column('source', 'Source Document', formatMovementSource),
+  column('userName', 'User', m => m.userName || 'System'),
+  column('note', 'Note')
+]
@@ -0,0 +1,56 @@
+//file path: app/dashboard/warehouses/utils/inventoryUtils.ts
+
+import { WarehouseInventoryItem, InventoryStockStatus } from './warehouseTypes'
+
+export type InventoryFilter = '' | 'low_stock' | 'out_of_stock' | 'unslotted'
+
+export const INVENTORY_FILTER_OPTIONS: { value: Exclude<InventoryFilter, ''>; label: string }[] = [
+  { value: 'low_stock', label: 'Low stock' },
+  { value: 'out_of_stock', label: 'Out of stock' },
+  { value: 'unslotted', label: 'No bin' }
+]
+
+export const INVENTORY_STOCK_STATUS_LABELS: Record<InventoryStockStatus, string> = {
+  out_of_stock: 'Out of stock',
+  low_stock: 'Low stock',
+  in_stock: 'In stock',
+  overstock: 'Over max'
+}
+
+export const INVENTORY_STOCK_STATUS_COLORS: Record<InventoryStockStatus, string> = {
+  out_of_stock: 'bg-red-100 text-red-800',
+  low_stock: 'bg-yellow-100 text-yellow-800',
+  in_stock: 'bg-green-100 text-green-800',
+  overstock: 'bg-purple-100 text-purple-800'
+}
+
+/**
+ * Stock status from what can still be sold (available), not what is on the shelf
+ * Low stock is at or below the reorder point; a max stock of 0 means no maximum
+ */
+export function getInventoryStockStatus(item: WarehouseInventoryItem): InventoryStockStatus {
+  if (item.availableQuantity <= 0) return 'out_of_stock'
+  if (item.reorderPoint > 0 && item.availableQuantity <= item.reorderPoint) return 'low_stock'
+  if (item.maxStock > 0 && item.stockQuantity > item.maxStock) return 'overstock'
+  return 'in_stock'
+}
+
+export function isUnslotted(item: WarehouseInventoryItem): boolean {
+  return !item.structuredLocation && !item.location?.trim()
+}
+
+export function matchesInventoryFilter(item: WarehouseInventoryItem, filter: InventoryFilter): boolean {
+  switch (filter) {
+    case 'low_stock': return getInventoryStockStatus(item) === 'low_stock'
+    case 'out_of_stock': return getInventoryStockStatus(item) === 'out_of_stock'
+    case 'unslotted': return isUnslotted(item)
+    default: return true
+  }
+}
+
+/**
+ * Bin shown for an item - the layout bin when slotted, otherwise the free-text location
+ */
+export function getInventoryLocation(item: WarehouseInventoryItem): string {
+  return item.structuredLocation?.formattedLocation || item.location || ''
+}
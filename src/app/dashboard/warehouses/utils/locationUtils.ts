@@ -0,0 +1,151 @@
+//file path: app/dashboard/warehouses/utils/locationUtils.ts
+
+import { Warehouse, WarehouseLayout, LocationFormat, StructuredLocation } from './warehouseTypes'
+
+const FALLBACK_LOCATION_FORMAT: LocationFormat = {
+  pattern: '{zone}-{aisle}-{shelf}-{bin}',
+  separator: '-',
+  includeZone: true,
+  includeAisle: true,
+  includeShelf: true,
+  includeBin: true
+}
+
+/**
+ * Format a structured bin location using the warehouse's location format
+ * Supports: {zone}, {aisle}, {shelf}, {level}, {bin}
+ */
+export function formatLocation(
+  location: Omit<StructuredLocation, 'formattedLocation'>,
+  format: LocationFormat = FALLBACK_LOCATION_FORMAT
+): string {
+  const pattern = format.pattern || FALLBACK_LOCATION_FORMAT.pattern
+
+  return pattern
+    .replace(/\{zone\}/g, format.includeZone ? location.zoneCode : '')
+    .replace(/\{aisle\}/g, format.includeAisle ? location.aisleCode : '')
+    .replace(/\{shelf\}/g, format.includeShelf ? location.shelfCode : '')
+    .replace(/\{level\}/g, String(location.shelfLevel))
+    .replace(/\{bin\}/g, format.includeBin ? location.binCode : '')
+}
+
+/**
+ * Flatten every active bin in a layout into structured locations
+ * Formatted with the layout's default location format
+ */
+export function getLayoutLocations(layout: WarehouseLayout | null | undefined): StructuredLocation[] {
+  if (!layout) return []
+
+  const locations: StructuredLocation[] = []
+
+  layout.zones.forEach(zone => {
+    zone.aisles.forEach(aisle => {
+      aisle.shelves.forEach(shelf => {
+        shelf.bins.forEach(bin => {
+          const location = {
+            zoneId: zone.id,
+            zoneName: zone.name,
+            zoneCode: zone.code,
+            aisleId: aisle.id,
+            aisleName: aisle.name,
+            aisleCode: aisle.code,
+            shelfId: shelf.id,
+            shelfName: shelf.name,
+            shelfCode: shelf.code,
+            shelfLevel: shelf.level,
+            binId: bin.id,
+            binName: bin.name,
+            binCode: bin.code,
+            binPosition: bin.position
+          }
+
+          locations.push({
+            ...location,
+            formattedLocation: formatLocation(location, layout.defaultLocationFormat)
+          })
+        })
+      })
+    })
+  })
+
+  return locations
+}
+
+/**
+ * Bins stock can be put away to (active storage zones only)
+ * Used for restocked returns and received purchase orders
+ */
+export function getStorageLocations(warehouse: Warehouse | undefined): StructuredLocation[] {
+  const storageZoneIds = new Set(
+    (warehouse?.layout?.zones || [])
+      .filter(zone => zone.type === 'storage' && zone.isActive)
+      .map(zone => zone.id)
+  )
+
+  return getLayoutLocations(warehouse?.layout).filter(location => storageZoneIds.has(location.zoneId))
+}
+
+/**
+ * Resolve a free-text location (e.g. "A-01-2-B") to a bin in the layout
+ * Matches the formatted location first, then the plain zone-aisle-shelf-bin code
+ */
+export function resolveLocationString(
+  location: string | undefined,
+  layout: WarehouseLayout | null | undefined
+): StructuredLocation | null {
+  if (!location || !layout) return null
+
+  const normalized = location.trim().toUpperCase()
+  if (!normalized) return null
+
+  const candidates = getLayoutLocations(layout)
+
+  const byFormatted = candidates.find(c => c.formattedLocation.toUpperCase() === normalized)
+  if (byFormatted) return byFormatted
+
+  const byCode = candidates.find(c =>
+    formatLocation(c, FALLBACK_LOCATION_FORMAT).toUpperCase() === normalized
+  )
+  return byCode || null
+}
+
+/**
+ * Compare two structured locations in walking order:
+ * zone → aisle → shelf level → bin position
+ *
+ * Zones and aisles follow their order in the layout when available,
+ * otherwise their codes are compared naturally ("A2" before "A10").
+ */
+export function compareStructuredLocations(
+  a: StructuredLocation,
+  b: StructuredLocation,
+  layout?: WarehouseLayout | null
+): number {
+  const naturalCompare = (x: string, y: string) =>
+    x.localeCompare(y, undefined, { numeric: true, sensitivity: 'base' })
+
+  if (a.zoneId !== b.zoneId) {
+    const zoneIndexA = layout?.zones.findIndex(z => z.id === a.zoneId) ?? -1
+    const zoneIndexB = layout?.zones.findIndex(z => z.id === b.zoneId) ?? -1
+    if (zoneIndexA !== -1 && zoneIndexB !== -1) return zoneIndexA - zoneIndexB
+    return naturalCompare(a.zoneCode, b.zoneCode)
+  }
+
+  if (a.aisleId !== b.aisleId) {
+    const zone = layout?.zones.find(z => z.id === a.zoneId)
+    const aisleIndexA = zone?.aisles.findIndex(ai => ai.id === a.aisleId) ?? -1
+    const aisleIndexB = zone?.aisles.findIndex(ai => ai.id === b.aisleId) ?? -1
+    if (aisleIndexA !== -1 && aisleIndexB !== -1) return aisleIndexA - aisleIndexB
+    return naturalCompare(a.aisleCode, b.aisleCode)
+  }
+
+  if (a.shelfLevel !== b.shelfLevel) {
+    return a.shelfLevel - b.shelfLevel
+  }
+
+  if (a.binPosition !== b.binPosition) {
+    return a.binPosition - b.binPosition
+  }
+
+  return naturalCompare(a.binCode, b.binCode)
+}
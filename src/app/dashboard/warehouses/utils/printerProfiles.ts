@@ -0,0 +1,62 @@
+//file path: app/dashboard/warehouses/utils/printerProfiles.ts
+
+import { Warehouse, PrinterProfile, ThermalLabelSize, PrinterDpi } from './warehouseTypes'
+
+export const LABEL_SIZE_OPTIONS: { value: ThermalLabelSize; label: string }[] = [
+  { value: '4x6', label: '4" x 6"' },
+  { value: '4x4', label: '4" x 4"' }
+]
+
+export const DPI_OPTIONS: { value: PrinterDpi; label: string }[] = [
+  { value: 203, label: '203 dpi (8 dots/mm)' },
+  { value: 300, label: '300 dpi (12 dots/mm)' }
+]
+
+export const DEFAULT_PRINTER_PORT = 9100
+
+/**
+ * The warehouse's default printer, or its first one
+ */
+export function getDefaultPrinterProfile(warehouse: Warehouse | null | undefined): PrinterProfile | null {
+  const profiles = warehouse?.printerProfiles || []
+  return profiles.find(profile => profile.isDefault) || profiles[0] || null
+}
+
+export function createPrinterProfile(isDefault: boolean): PrinterProfile {
+  return {
+    id: `printer-${Date.now()}`,
+    name: '',
+    labelSize: '4x6',
+    dpi: 203,
+    connection: 'download',
+    port: DEFAULT_PRINTER_PORT,
+    isDefault
+  }
+}
+
+/**
+ * Returns an error message, or null when the profile can be saved
+ */
+export function validatePrinterProfile(profile: PrinterProfile): string | null {
+  if (!profile.name.trim()) return 'Printer name is required'
+  if (profile.connection === 'network') {
+    if (!profile.host?.trim()) return 'Network printers need an IP address or hostname'
+    if (!/^[a-zA-Z0-9.-]+$/.test(profile.host.trim())) return 'Enter a plain IP address or hostname'
+    const port = profile.port ?? DEFAULT_PRINTER_PORT
+    // The print server only connects to raw port 9100
+    if (port !== DEFAULT_PRINTER_PORT) return `Network printers must use port ${DEFAULT_PRINTER_PORT}`
+  }
+  return null
+}
+
+/**
+ * Carrier label options for a label purchase
+ * Warehouses with a 4x6 thermal printer buy ZPL labels at the printer's density;
+ * everyone else keeps the carrier's default PDF
+ */
+export function getLabelPurchaseOptions(
+  profile: PrinterProfile | null
+): { labelFormat?: 'ZPL'; labelSize?: '4x6'; dpi?: PrinterDpi } {
+  if (!profile || profile.labelSize !== '4x6') return {}
+  return { labelFormat: 'ZPL', labelSize: '4x6', dpi: profile.dpi }
+}
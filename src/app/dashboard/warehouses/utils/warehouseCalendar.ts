@@ -0,0 +1,173 @@
+//file path: app/dashboard/warehouses/utils/warehouseCalendar.ts
+
+import { Warehouse, WarehouseCalendar, CarrierCutoff } from './warehouseTypes'
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+export const TIME_ZONE_OPTIONS = [
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Phoenix',
+  'America/Los_Angeles',
+  'America/Anchorage',
+  'Pacific/Honolulu',
+  'America/Toronto',
+  'America/Vancouver',
+  'America/Mexico_City',
+  'Europe/London',
+  'Europe/Berlin',
+  'Australia/Sydney',
+  'UTC'
+]
+
+export const DEFAULT_WAREHOUSE_CALENDAR: WarehouseCalendar = {
+  timeZone: 'America/New_York',
+  businessHours: WEEKDAY_LABELS.map((_, day) => ({
+    day,
+    isOpen: day >= 1 && day <= 5,
+    open: '09:00',
+    close: '17:00'
+  })),
+  holidays: [],
+  carrierCutoffs: []
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+// Guards against calendars with every day closed
+const MAX_DAYS_AHEAD = 366
+
+/**
+ * The warehouse's calendar, or Monday-Friday 9-5 Eastern when it has none
+ */
+export function getWarehouseCalendar(warehouse: Warehouse | null | undefined): WarehouseCalendar {
+  return warehouse?.calendar || DEFAULT_WAREHOUSE_CALENDAR
+}
+
+// ============================================================================
+// TIME ZONES
+// Days are "YYYY-MM-DD" and times "HH:mm", both as seen in the warehouse
+// ============================================================================
+
+function getZonedParts(timestamp: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(new Date(timestamp))
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value)
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute') }
+}
+
+/**
+ * Day and time at the warehouse for an instant
+ */
+export function toZonedDateTime(date: Date | string | number, timeZone: string): { day: string; time: string } {
+  const { year, month, day, hour, minute } = getZonedParts(new Date(date).getTime(), timeZone)
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return { day: `${year}-${pad(month)}-${pad(day)}`, time: `${pad(hour)}:${pad(minute)}` }
+}
+
+/**
+ * The instant a wall-clock time at the warehouse happens
+ */
+export function zonedTimeToDate(day: string, time: string, timeZone: string): Date {
+  const [year, month, date] = day.split('-').map(Number)
+  const [hour, minute] = time.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, date, hour, minute)
+
+  const offsetAt = (timestamp: number) => {
+    const parts = getZonedParts(timestamp, timeZone)
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) - timestamp
+  }
+
+  // Re-check the offset at the result in case it falls across a DST change
+  const firstGuess = wallClock - offsetAt(wallClock)
+  return new Date(wallClock - offsetAt(firstGuess))
+}
+
+export function addDays(day: string, days: number): string {
+  const [year, month, date] = day.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, date + days)).toISOString().slice(0, 10)
+}
+
+function getWeekday(day: string): number {
+  const [year, month, date] = day.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, date)).getUTCDay()
+}
+
+// ============================================================================
+// BUSINESS DAYS AND CUTOFFS
+// ============================================================================
+
+export function isBusinessDay(calendar: WarehouseCalendar, day: string): boolean {
+  if (calendar.holidays.some(holiday => holiday.date === day)) return false
+  return !!calendar.businessHours.find(hours => hours.day === getWeekday(day))?.isOpen
+}
+
+export function getNextBusinessDay(calendar: WarehouseCalendar, day: string): string {
+  for (let offset = 1; offset <= MAX_DAYS_AHEAD; offset++) {
+    const next = addDays(day, offset)
+    if (isBusinessDay(calendar, next)) return next
+  }
+  return addDays(day, 1)
+}
+
+/**
+ * Carrier cutoff matching the requested shipping method ("UPS Ground" matches "UPS")
+ */
+export function findCarrierCutoff(calendar: WarehouseCalendar, shippingMethod?: string): CarrierCutoff | undefined {
+  const method = (shippingMethod || '').toLowerCase()
+  if (!method) return undefined
+  return calendar.carrierCutoffs.find(cutoff => cutoff.carrier && method.includes(cutoff.carrier.toLowerCase()))
+}
+
+/**
+ * Last moment an order can leave on a day: the carrier's cutoff, or closing time
+ * Closed days have no cutoff
+ */
+export function getCutoffTime(calendar: WarehouseCalendar, day: string, shippingMethod?: string): string | null {
+  if (!isBusinessDay(calendar, day)) return null
+
+  const hours = calendar.businessHours.find(h => h.day === getWeekday(day))!
+  const carrierCutoff = findCarrierCutoff(calendar, shippingMethod)?.cutoff
+  return carrierCutoff && carrierCutoff < hours.close ? carrierCutoff : hours.close
+}
+
+/**
+ * Returns an error message, or null when the calendar can be saved
+ */
+export function validateWarehouseCalendar(calendar: WarehouseCalendar): string | null {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: calendar.timeZone })
+  } catch {
+    return `Unknown time zone "${calendar.timeZone}"`
+  }
+
+  const openDays = calendar.businessHours.filter(hours => hours.isOpen)
+  if (openDays.length === 0) return 'Open the warehouse at least one day a week'
+
+  for (const hours of openDays) {
+    if (!TIME_PATTERN.test(hours.open) || !TIME_PATTERN.test(hours.close)) {
+      return `Enter ${WEEKDAY_LABELS[hours.day]} hours as HH:mm`
+    }
+    if (hours.open >= hours.close) return `${WEEKDAY_LABELS[hours.day]} closes before it opens`
+  }
+
+  for (const cutoff of calendar.carrierCutoffs) {
+    if (!cutoff.carrier.trim()) return 'Every cutoff needs a carrier'
+    if (!TIME_PATTERN.test(cutoff.cutoff)) return `Enter the ${cutoff.carrier} cutoff as HH:mm`
+  }
+
+  if (calendar.holidays.some(holiday => !/^\d{4}-\d{2}-\d{2}$/.test(holiday.date))) {
+    return 'Every holiday needs a date'
+  }
+
+  return null
+}
@@ -19,6 +19,12 @@ export interface Warehouse {
   useDifferentReturnAddress?: boolean
   returnAddress?: WarehouseAddress
 
+  // Thermal printers at this warehouse
+  printerProfiles?: PrinterProfile[]
+
+  // Business hours, holidays and carrier cutoffs for ship-by deadlines
+  calendar?: WarehouseCalendar
+
   // ✅ NEW: Linked integrations (computed field)
   linkedIntegrations?: LinkedIntegration[]
 }
@@ -60,6 +66,52 @@ export interface WarehouseSettings {
   orderStatusSettings: OrderStatusSettings
 }
 
+export type ThermalLabelSize = '4x6' | '4x4'
+export type PrinterDpi = 203 | 300
+
+export interface PrinterProfile {
+  id: string
+  name: string
+  labelSize: ThermalLabelSize
+  dpi: PrinterDpi
+  // download: save a .zpl file for the printer's own tooling; network: stream to host:port (raw 9100)
+  connection: 'download' | 'network'
+  host?: string
+  port?: number
+  isDefault: boolean
+}
+
+/**
+ * When the warehouse ships - times are "HH:mm" in the warehouse's time zone
+ */
+export interface WarehouseCalendar {
+  timeZone: string               // IANA name, e.g. "America/New_York"
+  businessHours: BusinessHours[] // One entry per weekday, Sunday (0) first
+  holidays: WarehouseHoliday[]
+  carrierCutoffs: CarrierCutoff[]
+}
+
+export interface BusinessHours {
+  day: number                    // 0 = Sunday ... 6 = Saturday
+  isOpen: boolean
+  open: string
+  close: string
+}
+
+export interface WarehouseHoliday {
+  date: string                   // YYYY-MM-DD
+  name: string
+}
+
+/**
+ * Last pickup for a carrier - orders placed after it ship the next business day
+ * Matched against the order's requested shipping method
+ */
+export interface CarrierCutoff {
+  carrier: string                // e.g. "UPS", "USPS"
+  cutoff: string
+}
+
 export interface OrderStatusSettings {
   // Statuses that count as "orders to ship"
   toShipStatuses: string[]
@@ -87,6 +139,24 @@ export interface WarehouseProduct {
   lastStockUpdate: string
 }
 
+/**
+ * A product's stock record at a warehouse, with the product details the inventory screen shows
+ */
+export interface WarehouseInventoryItem extends WarehouseProduct {
+  sku: string
+  productName: string
+  image?: string
+  inTransitQuantity?: number     // Inbound on open transfers - not yet in stock
+}
+
+export type InventoryStockStatus = 'out_of_stock' | 'low_stock' | 'in_stock' | 'overstock'
+
+export interface InventoryLocationAssignment {
+  productId: string
+  location: string               // Free text, or the bin's formatted location
+  structuredLocation?: StructuredLocation | null   // Set when the location is a bin in the layout
+}
+
 export interface WarehouseFilterState {
   search: string
   status: string
@@ -109,7 +179,7 @@ export interface WarehouseColumnConfig {
 
 // Default order status settings
 export const DEFAULT_ORDER_STATUS_SETTINGS: OrderStatusSettings = {
-  toShipStatuses: ['PENDING', 'PROCESSING', 'ASSIGNED', 'PICKING', 'PACKING', 'READY_TO_SHIP'],
+  toShipStatuses: ['PENDING', 'PROCESSING', 'ASSIGNED', 'PICKING', 'PACKING', 'READY_TO_SHIP', 'PARTIALLY_SHIPPED'],
   excludedStatuses: ['CANCELLED'],
   completedStatuses: ['SHIPPED', 'DELIVERED'],
   displayText: 'orders to ship',
@@ -124,6 +194,7 @@ export const AVAILABLE_ORDER_STATUSES = [
   'PICKING',
   'PACKING',
   'READY_TO_SHIP',
+  'PARTIALLY_SHIPPED',
   'SHIPPED',
   'DELIVERED',
   'CANCELLED',
@@ -1,6 +1,7 @@
 //file path: app/services/settingsApi.ts
 
 import { apiRequest } from '@/lib/api/baseApi'
+import type { HoldRuleSettings } from '@/app/dashboard/settings/types'
 
 export interface NotificationSettings {
   notificationEmail: string
@@ -16,6 +17,7 @@ export interface FulfillmentSettings {
 export interface AppSettings {
   notifications: NotificationSettings
   fulfillment?: FulfillmentSettings
+  holdRules?: HoldRuleSettings
   general?: any
 }
 
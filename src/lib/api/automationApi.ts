@@ -0,0 +1,121 @@
+//file path: src/lib/api/automationApi.ts
+
+import { apiRequest } from './baseApi'
+import type { OrderPriority } from '@/app/dashboard/orders/utils/orderTypes'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * When the backend runs the rules against an order
+ */
+export type AutomationTrigger = 'order_imported' | 'order_updated'
+
+export type AutomationConditionField =
+  | 'store'                      // Store id
+  | 'platform'
+  | 'destination_country'        // Shipping country code
+  | 'destination_region'         // Shipping state/province
+  | 'sku'                        // Any line item SKU
+  | 'tag'
+  | 'total'                      // Order total, in the order's currency
+  | 'weight'                     // Total weight in ounces
+  | 'requested_shipping'         // Shipping method chosen at checkout
+
+export type AutomationConditionOperator =
+  | 'is_any_of'                  // value is a comma separated list
+  | 'is_none_of'
+  | 'contains'
+  | 'not_contains'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+
+export interface AutomationCondition {
+  field: AutomationConditionField
+  operator: AutomationConditionOperator
+  value: string
+}
+
+export type AutomationAction =
+  | { type: 'set_fulfillment_status'; status: string }
+  | { type: 'assign_warehouse'; warehouseId: string }
+  | { type: 'add_tags'; tags: string[] }
+  | { type: 'apply_shipping_preset'; warehouseId: string; presetId: string }
+  | { type: 'hold'; reason: string }
+  | { type: 'set_priority'; priority: OrderPriority }
+  | { type: 'add_note'; note: string }
+
+export type AutomationActionType = AutomationAction['type']
+
+/**
+ * "When an order is imported or updated and the conditions match, run the actions"
+ *
+ * Rules run in `position` order and each one sees the changes made by the
+ * rules before it. Every run is recorded on the order's activity timeline.
+ */
+export interface AutomationRule {
+  id: string
+  name: string
+  enabled: boolean
+  position: number
+  triggers: AutomationTrigger[]
+  match: 'all' | 'any'           // Conditions that must match; a rule without conditions always matches
+  conditions: AutomationCondition[]
+  actions: AutomationAction[]
+  stopProcessing: boolean        // Skip the rules after this one when it matches
+  lastRunAt?: string | null
+  runCount?: number
+  createdAt: string
+  updatedAt: string
+}
+
+export type AutomationRuleData = Omit<AutomationRule, 'id' | 'position' | 'lastRunAt' | 'runCount' | 'createdAt' | 'updatedAt'>
+
+// ============================================================================
+// API CLASS
+// ============================================================================
+
+export class AutomationAPI {
+  /**
+   * The account's rules, in the order they run
+   */
+  static async getRules(): Promise<AutomationRule[]> {
+    return apiRequest('/automation/rules')
+  }
+
+  /**
+   * New rules are added at the end of the list
+   */
+  static async createRule(data: AutomationRuleData): Promise<AutomationRule> {
+    return apiRequest('/automation/rules', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    })
+  }
+
+  static async updateRule(ruleId: string, data: Partial<AutomationRuleData>): Promise<AutomationRule> {
+    return apiRequest(`/automation/rules/${ruleId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data)
+    })
+  }
+
+  static async deleteRule(ruleId: string): Promise<{ success: boolean }> {
+    return apiRequest(`/automation/rules/${ruleId}`, {
+      method: 'DELETE'
+    })
+  }
+
+  /**
+   * Save the run order - pass every rule id, first to run first
+   */
+  static async reorderRules(ruleIds: string[]): Promise<AutomationRule[]> {
+    return apiRequest('/automation/rules/reorder', {
+      method: 'PUT',
+      body: JSON.stringify({ ruleIds })
+    })
+  }
+}
@@ -0,0 +1,114 @@
+//file path: src/lib/api/commentApi.ts
+
+import { apiRequest } from './baseApi'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CommentEntityType = 'order' | 'product'
+
+export interface Comment {
+  id: string
+  entityType: CommentEntityType
+  entityId: string
+  parentId: string | null        // null for the first comment of a thread
+  body: string                   // Plain text; mentions appear as @Name
+  mentions: string[]             // User ids mentioned in the body
+  authorId: string
+  authorName: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * A top-level comment and its replies
+ * Threads are resolved as a whole
+ */
+export interface CommentThread extends Comment {
+  replies: Comment[]
+  resolved: boolean
+  resolvedByName: string | null
+  resolvedAt: string | null
+}
+
+export interface CreateCommentData {
+  entityType: CommentEntityType
+  entityId: string
+  parentId?: string
+  body: string
+  mentions: string[]
+}
+
+/**
+ * A comment that mentions the current user
+ */
+export interface CommentMention {
+  id: string
+  comment: Comment
+  entityLabel: string            // e.g. "Order #1042" or a product name
+  read: boolean
+  createdAt: string
+}
+
+// ============================================================================
+// API CLASS
+// ============================================================================
+
+export class CommentAPI {
+  /**
+   * Threads on an order or product, oldest first
+   */
+  static async getThreads(entityType: CommentEntityType, entityId: string): Promise<CommentThread[]> {
+    return apiRequest(`/comments?entityType=${entityType}&entityId=${encodeURIComponent(entityId)}`)
+  }
+
+  /**
+   * Post a comment or a reply (parentId)
+   * The backend notifies every mentioned user
+   */
+  static async createComment(data: CreateCommentData): Promise<Comment> {
+    return apiRequest('/comments', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    })
+  }
+
+  static async updateComment(commentId: string, data: { body: string; mentions: string[] }): Promise<Comment> {
+    return apiRequest(`/comments/${commentId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data)
+    })
+  }
+
+  static async deleteComment(commentId: string): Promise<{ success: boolean }> {
+    return apiRequest(`/comments/${commentId}`, {
+      method: 'DELETE'
+    })
+  }
+
+  /**
+   * Resolve or reopen a thread
+   * Orders are flagged in the orders table while any thread is unresolved
+   */
+  static async setResolved(threadId: string, resolved: boolean): Promise<CommentThread> {
+    return apiRequest(`/comments/${threadId}/resolve`, {
+      method: 'PUT',
+      body: JSON.stringify({ resolved })
+    })
+  }
+
+  /**
+   * Mentions of the current user, newest first
+   */
+  static async getMentions(unreadOnly = false): Promise<CommentMention[]> {
+    return apiRequest(`/comments/mentions${unreadOnly ? '?unread=true' : ''}`)
+  }
+
+  static async markMentionsRead(mentionIds: string[]): Promise<{ success: boolean }> {
+    return apiRequest('/comments/mentions/read', {
+      method: 'PUT',
+      body: JSON.stringify({ mentionIds })
+    })
+  }
+}
@@ -0,0 +1,124 @@
+//file path: src/lib/api/currencyApi.ts
+
+import { apiRequest } from './baseApi'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * How a user wants order amounts shown - as charged, or converted to the base currency
+ */
+export type CurrencyDisplay = 'original' | 'base'
+
+/**
+ * Account-wide currency settings
+ * Totals across orders (reports, customer lifetime value, order value holds) are in the base currency
+ */
+export interface CurrencySettings {
+  baseCurrency: string           // ISO 4217 code, e.g. 'USD'
+  updatedAt?: string
+}
+
+/**
+ * One day's rate for a currency: 1 unit of currency = rate units of baseCurrency
+ * An order uses the latest rate dated on or before its order date
+ */
+export interface ExchangeRate {
+  id: string
+  baseCurrency: string
+  currency: string
+  date: string                   // YYYY-MM-DD
+  rate: number
+  source: 'manual' | 'import'
+  createdAt: string
+}
+
+export interface ExchangeRateData {
+  currency: string
+  date: string
+  rate: number
+}
+
+export interface ExchangeRateQueryParams {
+  currency?: string
+  from?: string                  // YYYY-MM-DD, inclusive
+  to?: string
+}
+
+export interface ImportExchangeRatesResult {
+  imported: number
+  updated: number                // Rates that replaced one for the same currency and date
+}
+
+export interface ApplyExchangeRatesResult {
+  updated: number                // Orders that now have a converted total
+  stillMissing: number           // Orders with no rate on or before their order date
+}
+
+// ============================================================================
+// API CLASS
+// ============================================================================
+
+export class CurrencyAPI {
+  static async getSettings(): Promise<CurrencySettings> {
+    return apiRequest('/currency/settings')
+  }
+
+  /**
+   * Changing the base currency only affects orders imported afterwards -
+   * converted totals are frozen on each order
+   */
+  static async updateSettings(settings: Partial<CurrencySettings>): Promise<CurrencySettings> {
+    return apiRequest('/currency/settings', {
+      method: 'PUT',
+      body: JSON.stringify(settings)
+    })
+  }
+
+  /**
+   * Rates against the current base currency, newest first
+   */
+  static async getRates(params: ExchangeRateQueryParams = {}): Promise<ExchangeRate[]> {
+    const searchParams = new URLSearchParams()
+    Object.entries(params).forEach(([key, value]) => {
+      if (value) searchParams.set(key, value)
+    })
+
+    const query = searchParams.toString()
+    return apiRequest(`/currency/rates${query ? `?${query}` : ''}`)
+  }
+
+  /**
+   * Replaces any rate already on file for the same currency and date
+   */
+  static async createRate(data: ExchangeRateData): Promise<ExchangeRate> {
+    return apiRequest('/currency/rates', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    })
+  }
+
+  static async deleteRate(rateId: string): Promise<{ success: boolean }> {
+    return apiRequest(`/currency/rates/${rateId}`, {
+      method: 'DELETE'
+    })
+  }
+
+  static async importRates(rates: ExchangeRateData[]): Promise<ImportExchangeRatesResult> {
+    return apiRequest('/currency/rates/import', {
+      method: 'POST',
+      body: JSON.stringify({ rates })
+    })
+  }
+
+  /**
+   * Convert orders that were imported before a rate for their date was on file
+   * Orders that already have a converted total are left alone
+   */
+  static async applyRatesToOrders(): Promise<ApplyExchangeRatesResult> {
+    return apiRequest('/currency/rates/apply', {
+      method: 'POST'
+    })
+  }
+}
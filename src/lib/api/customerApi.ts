@@ -0,0 +1,113 @@
+//file path: src/lib/api/customerApi.ts
+
+import { apiRequest } from './baseApi'
+import type { CustomerFlag } from '@/app/dashboard/orders/utils/orderTypes'
+
+export type { CustomerFlag }
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * An address the customer has shipped or billed to
+ */
+export interface CustomerAddress {
+  id: string
+  firstName: string
+  lastName: string
+  company?: string
+  address1: string
+  address2?: string
+  city: string
+  state: string
+  zip: string
+  country: string
+  countryCode: string
+  phone?: string
+  orderCount: number           // Orders shipped to this address
+  lastUsedAt: string
+}
+
+/**
+ * A buyer, aggregated from orders by normalized email across stores and platforms
+ * Totals are computed by the backend as orders are imported
+ */
+export interface Customer {
+  id: string
+  email: string                // Normalized (lowercased, trimmed)
+  name: string                 // From the most recent order
+  phone?: string
+  orderCount: number
+  returnCount: number
+  lifetimeValue: number        // Sum of order totals converted at each order's frozen exchange rate
+  currency: string             // Account's base currency
+  firstOrderAt: string | null
+  lastOrderAt: string | null
+  storeIds: string[]
+  platforms: string[]
+  addresses: CustomerAddress[]
+  notes: string
+  tags: string[]
+  flags: CustomerFlag[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CustomerQueryParams {
+  search?: string              // Name or email
+  flag?: CustomerFlag
+  tag?: string
+  sortBy?: 'lastOrderAt' | 'orderCount' | 'lifetimeValue' | 'name'
+  sortDirection?: 'asc' | 'desc'
+  cursor?: string | null
+  limit?: number
+}
+
+export interface CustomerQueryResult {
+  customers: Customer[]
+  nextCursor: string | null
+  totalCount: number
+}
+
+export interface UpdateCustomerData {
+  notes?: string
+  tags?: string[]
+  flags?: CustomerFlag[]
+}
+
+// ============================================================================
+// API CLASS
+// ============================================================================
+
+export class CustomerAPI {
+  /**
+   * Query customers (filtered and sorted on the server)
+   */
+  static async getCustomers(params: CustomerQueryParams = {}): Promise<CustomerQueryResult> {
+    const searchParams = new URLSearchParams()
+
+    Object.entries(params).forEach(([key, value]) => {
+      if (value === undefined || value === null || value === '') return
+      searchParams.set(key, String(value))
+    })
+
+    const query = searchParams.toString()
+    return apiRequest(`/customers${query ? `?${query}` : ''}`)
+  }
+
+  static async getCustomer(customerId: string): Promise<Customer> {
+    return apiRequest(`/customers/${customerId}`)
+  }
+
+  /**
+   * Update a customer's notes, tags and flags
+   * Flags are copied onto the customer's orders so they show in order lists
+   */
+  static async updateCustomer(customerId: string, data: UpdateCustomerData): Promise<Customer> {
+    return apiRequest(`/customers/${customerId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data)
+    })
+  }
+}
@@ -0,0 +1,99 @@
+//file path: src/lib/api/documentApi.ts
+
+import type { OrderDocumentType } from '@/app/dashboard/orders/utils/orderTypes'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GenerateDocumentData {
+  type: OrderDocumentType
+  orderIds: string[]             // Rendered in this order (use the picking list's order for batches)
+  warehouseId?: string           // Pick lists: resolves bin locations and walking order
+}
+
+export type ZplLabelKind = 'batch' | 'packing_slip' | 'shipping_label' | 'product_label' | 'bin_label' | 'test'
+
+export interface GenerateZplData {
+  kind: ZplLabelKind
+  warehouseId: string            // Printer profiles belong to the warehouse
+  profileId?: string             // Defaults to the warehouse's default printer
+  orderIds?: string[]
+  products?: { id: string; copies: number }[]
+  locations?: string[]
+  send?: boolean                 // Stream to the profile's network printer instead of downloading
+}
+
+export interface GeneratedZpl {
+  blob: Blob | null              // null when the job was sent to the printer
+  fileName: string
+  sent: boolean
+  labelCount: number
+  warnings: string[]
+}
+
+export interface GeneratedDocument {
+  blob: Blob
+  documentId: string | null      // null when the PDF couldn't be archived
+  url: string | null
+  pageCount: number
+}
+
+// ============================================================================
+// API CLASS
+// ============================================================================
+
+/**
+ * PDFs and ZPL labels are rendered by the app's own /api/documents routes (not the
+ * backend API); PDFs are also archived on their orders
+ */
+export class DocumentAPI {
+  static async generate(data: GenerateDocumentData): Promise<GeneratedDocument> {
+    const response = await fetch('/api/documents', {
+      method: 'POST',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data)
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw new Error(error.message || error.error || `Failed to generate document: ${response.status}`)
+    }
+
+    return {
+      blob: await response.blob(),
+      documentId: response.headers.get('X-Document-Id'),
+      url: response.headers.get('X-Document-Url'),
+      pageCount: Number(response.headers.get('X-Page-Count') || 0)
+    }
+  }
+
+  static async generateZpl(data: GenerateZplData): Promise<GeneratedZpl> {
+    const response = await fetch('/api/documents/zpl', {
+      method: 'POST',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data)
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw new Error(error.message || error.error || `Failed to generate labels: ${response.status}`)
+    }
+
+    if (data.send) {
+      const result = await response.json()
+      return { blob: null, fileName: '', sent: true, labelCount: result.labelCount, warnings: result.warnings || [] }
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || ''
+    return {
+      blob: await response.blob(),
+      fileName: disposition.match(/filename="([^"]+)"/)?.[1] || 'labels.zpl',
+      sent: false,
+      labelCount: Number(response.headers.get('X-Label-Count') || 0),
+      warnings: JSON.parse(decodeURIComponent(response.headers.get('X-Label-Warnings') || '%5B%5D'))
+    }
+  }
+}
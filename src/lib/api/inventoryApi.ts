@@ -0,0 +1,89 @@
+//file path: src/lib/api/inventoryApi.ts
+
+import { apiRequest } from './baseApi'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Why stock moved
+ * received, sold, returned and transfer are written by the backend from the source document;
+ * the rest come from people adjusting stock
+ */
+export type InventoryMovementReason =
+  | 'received'
+  | 'sold'
+  | 'returned'
+  | 'damaged'
+  | 'cycle_count'
+  | 'transfer'
+  | 'manual'
+
+export type InventoryMovementSourceType = 'order' | 'return' | 'transfer' | 'purchase_order' | 'adjustment'
+
+/**
+ * One change to a product's stock at a warehouse
+ * The ledger is append-only - a correction is a new movement, never an edit
+ */
+export interface InventoryMovement {
+  id: string
+  productId: string
+  sku: string
+  productName: string
+  warehouseId: string
+  warehouseName: string
+  quantity: number               // Signed: positive adds stock, negative removes it
+  balanceAfter: number           // Stock at the warehouse once this movement was applied
+  reason: InventoryMovementReason
+  note?: string
+  sourceType?: InventoryMovementSourceType
+  sourceId?: string
+  sourceReference?: string       // Human-readable document number, e.g. order #1042
+  userId?: string | null         // null for movements made by integrations and automations
+  userName?: string | null
+  createdAt: string
+}
+
+/**
+ * Reason and note sent with a stock change so the movement it creates can be explained
+ */
+export interface StockAdjustment {
+  reason: InventoryMovementReason
+  note?: string
+}
+
+export interface InventoryMovementQueryParams {
+  productId?: string
+  warehouseId?: string
+  reason?: InventoryMovementReason | ''
+  dateFrom?: string              // ISO timestamp, inclusive
+  dateTo?: string
+  limit?: number
+  cursor?: string | null
+}
+
+export interface InventoryMovementQueryResult {
+  movements: InventoryMovement[] // Newest first
+  nextCursor: string | null
+}
+
+// ============================================================================
+// API CLASS
+// ============================================================================
+
+export class InventoryAPI {
+  /**
+   * One page of the movement ledger, newest first
+   */
+  static async getMovements(params: InventoryMovementQueryParams = {}): Promise<InventoryMovementQueryResult> {
+    const searchParams = new URLSearchParams()
+    Object.entries(params).forEach(([key, value]) => {
+      if (value === undefined || value === null || value === '') return
+      searchParams.set(key, String(value))
+    })
+
+    const query = searchParams.toString()
+    return apiRequest(`/inventory/movements${query ? `?${query}` : ''}`)
+  }
+}
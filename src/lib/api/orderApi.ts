@@ -2,6 +2,18 @@
 // ✅ UPDATED: Added syncToIntegration support for status updates
 
 import { apiRequest } from './baseApi'
+import type {
+  Order,
+  OrderItem,
+  OrderShipment,
+  ShipmentPackage,
+  Address,
+  OrderHoldEvent,
+  HoldRuleType,
+  ShipByStatus,
+  AllocationStatus
+} from '@/app/dashboard/orders/utils/orderTypes'
+import type { SearchCondition } from '@/lib/search/searchQuery'
 
 export interface OrderUpdateOptions {
   syncToIntegration?: boolean;  // If true, sync status change to Shopify/WooCommerce/etc.
@@ -28,18 +40,324 @@ export interface OrderUpdateResponse {
   [key: string]: any;  // Other order fields
 }
 
+/**
+ * Ship a subset of an order's lines in one or more packages
+ * Each package becomes its own platform fulfillment with its own tracking number
+ */
+export interface CreateShipmentData {
+  packages: Omit<ShipmentPackage, 'id' | 'integrationFulfillmentId'>[];
+  syncToIntegration?: boolean;  // Default: true - push each package as a fulfillment
+  notifyCustomer?: boolean;     // Default: true
+}
+
+export interface CreateShipmentResponse {
+  order: Order;                 // Updated order (quantityFulfilled, fulfillmentStatus)
+  shipment: OrderShipment;
+  integrationSync?: IntegrationSyncResult[];  // One result per package
+}
+
+/**
+ * Ship several orders for the same customer and address in one parcel
+ * One label is bought; its tracking number is recorded on every order
+ */
+export interface CreateCombinedShipmentData {
+  orders: {
+    orderId: string;
+    package: Omit<ShipmentPackage, 'id' | 'integrationFulfillmentId'>;  // This order's items, with the shared label
+  }[];
+  syncToIntegration?: boolean;  // Default: true - push the tracking number to each order's platform
+  notifyCustomer?: boolean;     // Default: true
+}
+
+export interface CreateCombinedShipmentResponse {
+  orders: Order[];
+  shipments: OrderShipment[];                 // One per order
+  integrationSync?: IntegrationSyncResult[];  // One result per order
+}
+
+export type ManualOrderSource = 'phone' | 'wholesale' | 'replacement' | 'manual';
+
+/**
+ * Create an order by hand (not imported from an integration)
+ * Totals are computed client-side and re-validated by the backend
+ */
+export interface CreateOrderData {
+  source: ManualOrderSource;
+  storeId?: string;
+  warehouseId?: string;
+  replacementForOrderNumber?: string;   // Original order when source is 'replacement'
+  customerName: string;
+  customerEmail: string;
+  shippingAddress: Address;
+  billingAddress: Address;
+  items: OrderItem[];
+  currency: string;
+  shippingMethod: string;
+  shippingCost: number;
+  discounts: {
+    code: string;
+    amount: number;
+    description: string;
+    type?: 'fixed' | 'percentage';
+  }[];
+  subtotal: number;
+  taxAmount: number;
+  totalAmount: number;
+  notes?: string;
+}
+
+export type OrderEditChangeType =
+  | 'item_added'
+  | 'item_removed'
+  | 'item_quantity'
+  | 'item_price'
+  | 'shipping_address'
+  | 'billing_address';
+
+export interface OrderEditChange {
+  type: OrderEditChangeType;
+  itemId?: string;
+  sku?: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * Edits made to an order before it was picked
+ */
+export interface OrderEdit {
+  id: string;
+  orderId: string;
+  changes: OrderEditChange[];
+  reason?: string;
+  editedBy?: string;
+  editedByName?: string;
+  editedAt: string;
+}
+
+/**
+ * Who or what changed an order
+ * Sent with every order write as the X-Activity-Source header so the backend
+ * can attribute the change; the backend fills in the actor for user changes
+ */
+export type OrderActivitySource =
+  | 'user'
+  | 'shopify_webhook'
+  | 'shopify_sync'
+  | 'tracking_cron'
+  | 'hold_rule'
+  | 'automation'
+  | 'system';
+
+export type OrderActivityType =
+  | 'created'
+  | 'status_changed'
+  | 'fulfillment_status_changed'
+  | 'updated'
+  | 'edited'
+  | 'picked'
+  | 'packed'
+  | 'label_created'
+  | 'shipment_created'
+  | 'tracking_updated'
+  | 'integration_sync'
+  | 'held'
+  | 'released'
+  | 'document_generated'
+  | 'automation_applied';
+
+export interface OrderActivityChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * One entry in an order's audit timeline, recorded by the backend on every change
+ */
+export interface OrderActivityEvent {
+  id: string;
+  orderId: string;
+  type: OrderActivityType;
+  source: OrderActivitySource;
+  actorId: string | null;
+  actorName: string | null;       // User name, or e.g. the shop domain for webhooks
+  summary?: string;
+  changes: OrderActivityChange[];
+  integrationSync?: IntegrationSyncResult | null;
+  metadata?: Record<string, string | number | boolean | null>;  // Webhook topic, tracking number, label id, automation rule...
+  createdAt: string;
+}
+
+export const ACTIVITY_SOURCE_HEADER = 'X-Activity-Source';
+
+// Every write made from the dashboard is a user change
+const USER_ACTIVITY_HEADERS = { [ACTIVITY_SOURCE_HEADER]: 'user' };
+
+export interface EditOrderData {
+  items?: OrderItem[];
+  shippingAddress?: Address;
+  billingAddress?: Address;
+  totalAmount?: number;
+  changes: OrderEditChange[];
+  reason?: string;
+}
+
+/**
+ * Server-side order list query
+ * Every filter is optional; array filters match any of the given values
+ */
+export interface OrderQueryParams {
+  search?: string;              // Free text part of the search box
+  conditions?: SearchCondition[]; // Field terms from the search box, e.g. total>100 (sent as JSON)
+  status?: string[];
+  fulfillmentStatus?: string[];
+  platform?: string[];
+  storeId?: string[];
+  integrationId?: string[];
+  warehouseId?: string;
+  customerEmail?: string;       // Matched case-insensitively, across stores
+  dateFrom?: string;            // ISO timestamp (inclusive)
+  dateTo?: string;              // ISO timestamp (inclusive)
+  shipBy?: ShipByStatus;        // Open orders by ship-by deadline, in each warehouse's time zone
+  allocation?: AllocationStatus;
+  sortBy?: string;              // Column field, e.g. 'orderDate', 'storeName'
+  sortDirection?: 'asc' | 'desc';
+  cursor?: string | null;       // nextCursor from the previous page
+  limit?: number;
+}
+
+export interface OrderQueryResult {
+  orders: Order[];
+  nextCursor: string | null;    // null on the last page
+  totalCount: number;           // Total orders matching the filters
+}
+
 export class OrderAPI {
+  /**
+   * Get every order for the account
+   * Prefer queryOrders for lists shown in the UI
+   */
   static async getOrders() {
     return apiRequest('/orders')
   }
 
+  /**
+   * Get a single order (e.g. when opening it from a comment mention)
+   */
+  static async getOrder(orderId: string) {
+    return apiRequest(`/orders/${orderId}`)
+  }
+
+  /**
+   * Get one page of orders filtered, searched and sorted on the server
+   */
+  static async queryOrders(params: OrderQueryParams): Promise<OrderQueryResult> {
+    const searchParams = new URLSearchParams()
+
+    Object.entries(params).forEach(([key, value]) => {
+      if (value === undefined || value === null || value === '') return
+      if (key === 'conditions') {
+        if (value.length > 0) searchParams.set(key, JSON.stringify(value))
+        return
+      }
+      if (Array.isArray(value)) {
+        if (value.length > 0) searchParams.set(key, value.join(','))
+        return
+      }
+      searchParams.set(key, String(value))
+    })
+
+    const query = searchParams.toString()
+    return apiRequest(`/orders/query${query ? `?${query}` : ''}`)
+  }
+
   static async saveOrders(orders: any[]) {
     return apiRequest('/orders/bulk', {
       method: 'POST',
+      headers: USER_ACTIVITY_HEADERS,
       body: JSON.stringify({ orders })
     })
   }
 
+  /**
+   * Create a manual order (phone, wholesale, replacement)
+   */
+  static async createOrder(data: CreateOrderData): Promise<Order> {
+    return apiRequest('/orders', {
+      method: 'POST',
+      headers: USER_ACTIVITY_HEADERS,
+      body: JSON.stringify(data)
+    })
+  }
+
+  /**
+   * Edit line items and addresses on an order that hasn't been picked yet
+   * The backend rejects edits once picking has started and records the changes
+   */
+  static async editOrder(orderId: string, data: EditOrderData): Promise<Order> {
+    return apiRequest(`/orders/${orderId}/edits`, {
+      method: 'POST',
+      headers: USER_ACTIVITY_HEADERS,
+      body: JSON.stringify(data)
+    })
+  }
+
+  /**
+   * Get the edit history for an order (newest first)
+   */
+  static async getOrderEdits(orderId: string): Promise<OrderEdit[]> {
+    return apiRequest(`/orders/${orderId}/edits`)
+  }
+
+  /**
+   * Put orders on hold
+   * Held orders are left out of work queues until released
+   * (the backend also places holds from the account's hold rules on import)
+   */
+  static async holdOrders(
+    orderIds: string[],
+    reason: string,
+    rule?: { ruleType: HoldRuleType }
+  ): Promise<Order[]> {
+    return apiRequest('/orders/holds', {
+      method: 'POST',
+      headers: USER_ACTIVITY_HEADERS,
+      body: JSON.stringify({
+        orderIds,
+        reason,
+        source: rule ? 'rule' : 'manual',
+        ruleType: rule?.ruleType
+      })
+    })
+  }
+
+  /**
+   * Release held orders
+   */
+  static async releaseOrders(orderIds: string[], reason?: string): Promise<Order[]> {
+    return apiRequest('/orders/holds/release', {
+      method: 'POST',
+      headers: USER_ACTIVITY_HEADERS,
+      body: JSON.stringify({ orderIds, reason })
+    })
+  }
+
+  /**
+   * Get the held/released history for an order (newest first)
+   */
+  static async getHoldHistory(orderId: string): Promise<OrderHoldEvent[]> {
+    return apiRequest(`/orders/${orderId}/holds`)
+  }
+
+  /**
+   * Get the order's activity timeline (newest first)
+   * Covers every change to the order whatever made it - users, webhooks, crons and integration syncs
+   */
+  static async getActivity(orderId: string): Promise<OrderActivityEvent[]> {
+    return apiRequest(`/orders/${orderId}/activity`)
+  }
+
   /**
    * Update an order
    *
@@ -81,6 +399,7 @@ export class OrderAPI {
 
     return apiRequest(`/orders/${orderId}`, {
       method: 'PUT',
+      headers: USER_ACTIVITY_HEADERS,
       body: JSON.stringify(body)
     })
   }
@@ -125,9 +444,49 @@ export class OrderAPI {
     )
   }
 
+  /**
+   * Get all shipments (and their packages) for an order
+   */
+  static async getShipments(orderId: string): Promise<OrderShipment[]> {
+    return apiRequest(`/orders/${orderId}/shipments`)
+  }
+
+  /**
+   * Create a (possibly partial) shipment for an order
+   * The backend updates each line's quantityFulfilled and sets the order to
+   * PARTIALLY_SHIPPED or SHIPPED depending on what is left to ship
+   */
+  static async createShipment(orderId: string, data: CreateShipmentData): Promise<CreateShipmentResponse> {
+    return apiRequest(`/orders/${orderId}/shipments`, {
+      method: 'POST',
+      headers: USER_ACTIVITY_HEADERS,
+      body: JSON.stringify({
+        ...data,
+        syncToIntegration: data.syncToIntegration ?? true,
+        notifyCustomer: data.notifyCustomer ?? true
+      })
+    })
+  }
+
+  /**
+   * Record one label against several orders shipped together
+   */
+  static async createCombinedShipment(data: CreateCombinedShipmentData): Promise<CreateCombinedShipmentResponse> {
+    return apiRequest('/orders/combined-shipments', {
+      method: 'POST',
+      headers: USER_ACTIVITY_HEADERS,
+      body: JSON.stringify({
+        ...data,
+        syncToIntegration: data.syncToIntegration ?? true,
+        notifyCustomer: data.notifyCustomer ?? true
+      })
+    })
+  }
+
   static async updateOrderTracking(trackingNumber: string, trackingData: any) {
     return apiRequest('/orders/tracking', {
       method: 'PUT',
+      headers: USER_ACTIVITY_HEADERS,
       body: JSON.stringify({ trackingNumber, trackingData })
     })
   }
@@ -151,6 +510,7 @@ export class OrderAPI {
   ): Promise<IntegrationSyncResult> {
     return apiRequest(`/orders/${orderId}/sync-to-integration`, {
       method: 'POST',
+      headers: USER_ACTIVITY_HEADERS,
       body: JSON.stringify(options || {})
     })
   }
@@ -175,6 +535,7 @@ export class OrderAPI {
   }> {
     return apiRequest('/orders/bulk-sync-to-integration', {
       method: 'POST',
+      headers: USER_ACTIVITY_HEADERS,
       body: JSON.stringify({
         orderIds,
         ...options
@@ -1,6 +1,7 @@
 //file path: src/lib/api/orderFulfillmentApi.ts
 
 import { apiRequest } from './baseApi'
+import { ACTIVITY_SOURCE_HEADER } from './orderApi'
 
 export interface OrderFulfillmentState {
   id: string
@@ -30,6 +31,7 @@ export class OrderFulfillmentAPI {
 
   /**
    * Update fulfillment state (partial update supported)
+   * Orders newly added to pickedOrders/packedOrders are recorded on their timelines
    * @param data - Partial state to update
    */
   static async updateState(data: {
@@ -40,6 +42,7 @@ export class OrderFulfillmentAPI {
   }): Promise<OrderFulfillmentState> {
     return apiRequest('/order-fulfillment-state', {
       method: 'PUT',
+      headers: { [ACTIVITY_SOURCE_HEADER]: 'user' },
       body: JSON.stringify(data)
     })
   }
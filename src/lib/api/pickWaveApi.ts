@@ -0,0 +1,166 @@
+//file path: src/lib/api/pickWaveApi.ts
+
+import { apiRequest } from './baseApi'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PickWaveStatus = 'open' | 'in_progress' | 'completed' | 'cancelled'
+
+/**
+ * An order in a pick wave, with the tote/cart slot its items go into
+ */
+export interface PickWaveOrder {
+  orderId: string
+  orderNumber: string
+  toteSlot: number           // Slot number on the cart (1-based)
+  toteId?: string            // Optional tote barcode/label
+}
+
+/**
+ * A consolidated SKU line in a pick wave
+ */
+export interface PickWaveLine {
+  id: string
+  sku: string
+  name: string
+  location?: string          // Formatted bin location at wave creation
+  quantity: number           // Total units to pick across all orders
+  pickedQuantity: number     // Units picked so far
+  allocations: {
+    orderId: string
+    orderNumber: string
+    quantity: number
+    toteSlot: number
+  }[]
+}
+
+export interface PickWave {
+  id: string
+  accountId: string
+  warehouseId: string
+  name: string
+  status: PickWaveStatus
+  source: 'manual' | 'rules'
+  assignedPickerId: string | null
+  assignedPickerName: string | null
+  orders: PickWaveOrder[]
+  lines: PickWaveLine[]
+  startedAt: string | null
+  completedAt: string | null
+  createdBy: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreatePickWaveData {
+  warehouseId: string
+  name: string
+  source: 'manual' | 'rules'
+  assignedPickerId?: string | null
+  orders: PickWaveOrder[]
+  lines: Omit<PickWaveLine, 'id'>[]
+}
+
+/**
+ * Rules for auto-building waves from the orders waiting to be picked
+ */
+export interface PickWaveRules {
+  maxOrdersPerWave: number
+  maxItemsPerWave: number | null   // null = no item limit
+  groupBy: 'none' | 'shippingMethod' | 'store'
+  namePrefix: string
+}
+
+// ============================================================================
+// PICK WAVE API CLASS
+// ============================================================================
+
+/**
+ * API for pick waves (batch picking sessions)
+ * Each wave is its own record, so several waves can run in parallel
+ * in one warehouse without overwriting each other's progress.
+ */
+export class PickWaveAPI {
+  /**
+   * Get pick waves for a warehouse
+   * @param warehouseId - Warehouse ID
+   * @param status - Optional status filter
+   */
+  static async getWaves(warehouseId: string, status?: PickWaveStatus[]): Promise<PickWave[]> {
+    const params = new URLSearchParams({ warehouseId })
+    if (status && status.length > 0) {
+      params.append('status', status.join(','))
+    }
+    return apiRequest(`/pick-waves?${params.toString()}`)
+  }
+
+  /**
+   * Get a single pick wave
+   */
+  static async getWave(waveId: string): Promise<PickWave> {
+    return apiRequest(`/pick-waves/${waveId}`)
+  }
+
+  /**
+   * Create a pick wave
+   */
+  static async createWave(data: CreatePickWaveData): Promise<PickWave> {
+    return apiRequest('/pick-waves', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    })
+  }
+
+  /**
+   * Update wave details (name, picker, tote slots)
+   */
+  static async updateWave(
+    waveId: string,
+    updates: Partial<Pick<PickWave, 'name' | 'assignedPickerId' | 'orders'>>
+  ): Promise<PickWave> {
+    return apiRequest(`/pick-waves/${waveId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates)
+    })
+  }
+
+  /**
+   * Start picking a wave (sets startedAt)
+   */
+  static async startWave(waveId: string): Promise<PickWave> {
+    return apiRequest(`/pick-waves/${waveId}/start`, {
+      method: 'POST'
+    })
+  }
+
+  /**
+   * Complete a wave (sets completedAt)
+   */
+  static async completeWave(waveId: string): Promise<PickWave> {
+    return apiRequest(`/pick-waves/${waveId}/complete`, {
+      method: 'POST'
+    })
+  }
+
+  /**
+   * Cancel a wave - its orders become available for other waves
+   */
+  static async cancelWave(waveId: string): Promise<PickWave> {
+    return apiRequest(`/pick-waves/${waveId}/cancel`, {
+      method: 'POST'
+    })
+  }
+
+  /**
+   * Set the picked quantity of a single line
+   * Only the line is sent, so concurrent pickers on other lines don't conflict
+   */
+  static async updateLineProgress(waveId: string, lineId: string, pickedQuantity: number): Promise<PickWave> {
+    return apiRequest(`/pick-waves/${waveId}/lines/${lineId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ pickedQuantity })
+    })
+  }
+}
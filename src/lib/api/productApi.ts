@@ -1,10 +1,20 @@
 //file path: src/lib/api/productApi.ts
 
 import { apiRequest } from './baseApi'
+import type { StockAdjustment } from './inventoryApi'
+import type { SearchCondition } from '@/lib/search/searchQuery'
+
+const MANUAL_ADJUSTMENT: StockAdjustment = { reason: 'manual' }
 
 export class ProductAPI {
-  static async getProducts() {
-    return apiRequest('/products')
+  /**
+   * Get products, optionally narrowed by field terms from the search box (sent as JSON)
+   */
+  static async getProducts(params: { conditions?: SearchCondition[] } = {}) {
+    const query = params.conditions && params.conditions.length > 0
+      ? `?${new URLSearchParams({ conditions: JSON.stringify(params.conditions) })}`
+      : ''
+    return apiRequest(`/products${query}`)
   }
 
   static async saveProducts(products: any[]) {
@@ -81,12 +91,18 @@ export class ProductAPI {
    * @param productId - Product ID
    * @param warehouseId - Warehouse ID
    * @param quantity - New quantity for this warehouse
+   * @param adjustment - Reason recorded on the inventory movement (defaults to manual)
    * @returns Updated inventory record
    */
-  static async updateWarehouseInventory(productId: string, warehouseId: string, quantity: number) {
+  static async updateWarehouseInventory(
+    productId: string,
+    warehouseId: string,
+    quantity: number,
+    adjustment: StockAdjustment = MANUAL_ADJUSTMENT
+  ) {
     return apiRequest(`/products/${productId}/warehouse/${warehouseId}/inventory`, {
       method: 'PUT',
-      body: JSON.stringify({ quantity })
+      body: JSON.stringify({ quantity, reason: adjustment.reason, note: adjustment.note })
     })
   }
 
@@ -119,11 +135,16 @@ export class ProductAPI {
    * Convenience method for updating just the stock quantity
    * @param productId - Product ID
    * @param newQuantity - New stock quantity
+   * @param adjustment - Reason recorded on the inventory movement (defaults to manual)
    * @returns Updated product
    */
-  static async updateProductQuantity(productId: string, newQuantity: number) {
+  static async updateProductQuantity(productId: string, newQuantity: number, adjustment: StockAdjustment = MANUAL_ADJUSTMENT) {
     console.log(`[ProductAPI] Updating quantity for product ${productId} to: ${newQuantity}`)
-    return this.updateProduct(productId, { stockQuantity: newQuantity })
+    return this.updateProduct(productId, {
+      stockQuantity: newQuantity,
+      movementReason: adjustment.reason,
+      movementNote: adjustment.note
+    })
   }
 
   /**
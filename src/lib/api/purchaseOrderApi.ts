@@ -0,0 +1,159 @@
+//file path: src/lib/api/purchaseOrderApi.ts
+
+import { apiRequest } from './baseApi'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PurchaseOrderStatus =
+  | 'open'                // Ordered from the supplier - nothing received yet
+  | 'partially_received'  // Some units received
+  | 'closed'              // Fully received, or closed short
+  | 'cancelled'
+
+export interface PurchaseOrderLine {
+  id: string
+  productId: string
+  sku: string
+  productName: string
+  supplierSku?: string
+  quantity: number             // Units ordered
+  quantityReceived: number     // Units counted in at the receiving zone
+  quantityPutAway: number      // Received units moved on to storage bins
+  unitCost: number             // In the PO currency
+}
+
+/**
+ * Units of one line counted in at the receiving dock
+ */
+export interface PurchaseOrderReceiptLine {
+  lineId: string
+  quantity: number
+  unitCost: number             // Actual cost on the supplier's invoice - becomes the product's costPrice
+}
+
+export interface PurchaseOrderReceipt {
+  id: string
+  zoneId: string
+  lines: PurchaseOrderReceiptLine[]
+  receivedBy: string | null
+  receivedByName: string | null
+  receivedAt: string
+}
+
+export interface PurchaseOrder {
+  id: string
+  accountId: string
+  poNumber: string
+  supplierId: string
+  supplierName: string
+  warehouseId: string          // Where the goods are delivered
+  status: PurchaseOrderStatus
+  currency: string
+  lines: PurchaseOrderLine[]
+  expectedAt?: string          // Expected delivery date
+  receipts: PurchaseOrderReceipt[]
+  notes?: string
+  createdBy: string | null
+  createdByName: string | null
+  closedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreatePurchaseOrderData {
+  supplierId: string
+  warehouseId: string
+  expectedAt?: string
+  lines: Pick<PurchaseOrderLine, 'productId' | 'quantity' | 'unitCost'>[]
+  notes?: string
+}
+
+/**
+ * Receive units into a receiving zone
+ * Each line is written to the inventory ledger (reason 'received') and updates the product's costPrice
+ */
+export interface ReceivePurchaseOrderData {
+  zoneId: string
+  lines: PurchaseOrderReceiptLine[]
+  close: boolean               // Close the PO even if units are still outstanding
+}
+
+/**
+ * Move received units from the receiving zone to a storage bin
+ */
+export interface PutAwayLine {
+  lineId: string
+  quantity: number
+  binId: string
+  location: string             // The bin's formatted location
+}
+
+export interface PurchaseOrderQueryParams {
+  warehouseId?: string
+  supplierId?: string
+  status?: PurchaseOrderStatus[]
+}
+
+// ============================================================================
+// PURCHASE ORDER API CLASS
+// ============================================================================
+
+export class PurchaseOrderAPI {
+  static async getPurchaseOrders(filters: PurchaseOrderQueryParams = {}): Promise<PurchaseOrder[]> {
+    const params = new URLSearchParams()
+    if (filters.warehouseId) params.append('warehouseId', filters.warehouseId)
+    if (filters.supplierId) params.append('supplierId', filters.supplierId)
+    if (filters.status && filters.status.length > 0) params.append('status', filters.status.join(','))
+
+    const query = params.toString()
+    return apiRequest(`/purchase-orders${query ? `?${query}` : ''}`)
+  }
+
+  static async getPurchaseOrder(purchaseOrderId: string): Promise<PurchaseOrder> {
+    return apiRequest(`/purchase-orders/${purchaseOrderId}`)
+  }
+
+  /**
+   * Create an open PO (the backend assigns the PO number)
+   */
+  static async createPurchaseOrder(data: CreatePurchaseOrderData): Promise<PurchaseOrder> {
+    return apiRequest('/purchase-orders', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    })
+  }
+
+  static async receivePurchaseOrder(purchaseOrderId: string, data: ReceivePurchaseOrderData): Promise<PurchaseOrder> {
+    return apiRequest(`/purchase-orders/${purchaseOrderId}/receive`, {
+      method: 'POST',
+      body: JSON.stringify(data)
+    })
+  }
+
+  static async putAway(purchaseOrderId: string, lines: PutAwayLine[]): Promise<PurchaseOrder> {
+    return apiRequest(`/purchase-orders/${purchaseOrderId}/put-away`, {
+      method: 'POST',
+      body: JSON.stringify({ lines })
+    })
+  }
+
+  /**
+   * Close a partially received PO - outstanding units are no longer expected
+   */
+  static async closePurchaseOrder(purchaseOrderId: string): Promise<PurchaseOrder> {
+    return apiRequest(`/purchase-orders/${purchaseOrderId}/close`, {
+      method: 'POST'
+    })
+  }
+
+  /**
+   * Cancel a PO that has received nothing
+   */
+  static async cancelPurchaseOrder(purchaseOrderId: string): Promise<PurchaseOrder> {
+    return apiRequest(`/purchase-orders/${purchaseOrderId}/cancel`, {
+      method: 'POST'
+    })
+  }
+}
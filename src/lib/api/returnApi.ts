@@ -0,0 +1,201 @@
+//file path: src/lib/api/returnApi.ts
+
+import { apiRequest } from './baseApi'
+import type { IntegrationSyncResult } from './orderApi'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ReturnStatus =
+  | 'authorized'          // RMA issued, waiting for the parcel
+  | 'partially_received'  // Some units received
+  | 'received'            // Every authorized unit received
+  | 'cancelled'
+
+export type ReturnReasonCode =
+  | 'damaged'
+  | 'defective'
+  | 'wrong_item'
+  | 'not_as_described'
+  | 'size_fit'
+  | 'no_longer_needed'
+  | 'arrived_late'
+  | 'other'
+
+export type ReturnDisposition = 'restock' | 'refurbish' | 'discard'
+
+/**
+ * An order line being returned
+ */
+export interface ReturnLine {
+  id: string
+  orderItemId: string
+  productId?: string
+  sku: string
+  variantSku?: string
+  name: string
+  quantity: number             // Units authorized for return
+  quantityReceived: number     // Units received so far
+  quantityRefunded: number     // Units refunded so far (also counted in the order line's quantityRefunded)
+  reason: ReturnReasonCode
+  reasonNotes?: string
+  unitRefund: number           // Refund per unit (price - discount + tax)
+}
+
+export interface ReturnLabel {
+  trackingNumber: string
+  carrier: string
+  serviceType: string
+  labelUrl: string
+  labelImage?: string
+  postage: number
+  createdAt: string
+}
+
+/**
+ * What happened to a batch of received units
+ * Restocked units go to a bin; refurbished and discarded units don't
+ */
+export interface ReturnUnitDisposition {
+  lineId: string
+  quantity: number
+  disposition: ReturnDisposition
+  binId?: string
+  location?: string            // Formatted bin location at receipt
+}
+
+export interface ReturnReceipt {
+  id: string
+  zoneId: string               // Returns zone the parcel was received into
+  units: ReturnUnitDisposition[]
+  receivedBy: string | null
+  receivedByName: string | null
+  receivedAt: string
+}
+
+export interface ReturnRefund {
+  amount: number
+  currency: string
+  syncedToPlatform: boolean
+  syncError?: string
+  refundedAt: string
+}
+
+export interface ReturnAuthorization {
+  id: string
+  accountId: string
+  rmaNumber: string
+  orderId: string
+  orderNumber: string
+  storeId: string
+  warehouseId: string
+  platform: string
+  customerName: string
+  currency: string
+  status: ReturnStatus
+  lines: ReturnLine[]
+  label: ReturnLabel | null
+  receipts: ReturnReceipt[]
+  refunds: ReturnRefund[]
+  notes?: string
+  createdBy: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateReturnData {
+  orderId: string
+  warehouseId: string
+  lines: Pick<ReturnLine, 'orderItemId' | 'quantity' | 'reason' | 'reasonNotes'>[]
+  label?: ReturnLabel
+  notes?: string
+}
+
+export interface ReceiveReturnData {
+  zoneId: string
+  units: ReturnUnitDisposition[]
+  // Refunds the receipt's units - the backend adds them to each line's quantityRefunded
+  refund?: {
+    amount: number
+    syncToPlatform: boolean    // Push the refund to Shopify/WooCommerce/etc.
+  }
+}
+
+export interface ReceiveReturnResponse {
+  rma: ReturnAuthorization
+  // Restocked units are added to warehouse inventory by the backend
+  inventoryUpdates: {
+    productId: string
+    sku: string
+    binId?: string
+    quantityAdded: number
+    newQuantity: number
+  }[]
+  integrationSync?: IntegrationSyncResult
+}
+
+// ============================================================================
+// RETURN API CLASS
+// ============================================================================
+
+/**
+ * API for returns (RMAs)
+ * An RMA is created against shipped order lines, received into a warehouse
+ * returns zone, and each received unit is restocked, refurbished or discarded.
+ */
+export class ReturnAPI {
+  /**
+   * Get RMAs, optionally filtered by warehouse, status or order
+   */
+  static async getReturns(filters: {
+    warehouseId?: string
+    status?: ReturnStatus[]
+    orderId?: string
+  } = {}): Promise<ReturnAuthorization[]> {
+    const params = new URLSearchParams()
+    if (filters.warehouseId) params.append('warehouseId', filters.warehouseId)
+    if (filters.status && filters.status.length > 0) params.append('status', filters.status.join(','))
+    if (filters.orderId) params.append('orderId', filters.orderId)
+
+    const query = params.toString()
+    return apiRequest(`/returns${query ? `?${query}` : ''}`)
+  }
+
+  /**
+   * Get a single RMA
+   */
+  static async getReturn(returnId: string): Promise<ReturnAuthorization> {
+    return apiRequest(`/returns/${returnId}`)
+  }
+
+  /**
+   * Create an RMA (the backend assigns the RMA number)
+   */
+  static async createReturn(data: CreateReturnData): Promise<ReturnAuthorization> {
+    return apiRequest('/returns', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    })
+  }
+
+  /**
+   * Receive units into a returns zone and record their disposition
+   * Restocked units are added to inventory; the refund is optional
+   */
+  static async receiveReturn(returnId: string, data: ReceiveReturnData): Promise<ReceiveReturnResponse> {
+    return apiRequest(`/returns/${returnId}/receive`, {
+      method: 'POST',
+      body: JSON.stringify(data)
+    })
+  }
+
+  /**
+   * Cancel an RMA that hasn't been received
+   */
+  static async cancelReturn(returnId: string): Promise<ReturnAuthorization> {
+    return apiRequest(`/returns/${returnId}/cancel`, {
+      method: 'POST'
+    })
+  }
+}
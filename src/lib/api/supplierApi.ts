@@ -0,0 +1,101 @@
+//file path: src/lib/api/supplierApi.ts
+
+import { apiRequest } from './baseApi'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Supplier {
+  id: string
+  accountId: string
+  name: string
+  code?: string
+  contactName?: string
+  email?: string
+  phone?: string
+  currency: string             // Currency the supplier invoices in
+  leadTimeDays: number         // Default days from order to delivery
+  notes?: string
+  isActive: boolean
+  productCount: number         // SKUs with a cost from this supplier
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * What a supplier charges for a SKU, and how long it takes to arrive
+ */
+export interface SupplierProduct {
+  id: string
+  supplierId: string
+  productId: string
+  sku: string
+  productName: string
+  supplierSku?: string         // The supplier's own part number
+  unitCost: number             // In the supplier's currency
+  leadTimeDays?: number        // Overrides the supplier default
+  minOrderQuantity?: number
+  updatedAt: string
+}
+
+export type SupplierFormData = Pick<Supplier,
+  'name' | 'code' | 'contactName' | 'email' | 'phone' | 'currency' | 'leadTimeDays' | 'notes' | 'isActive'
+>
+
+export type SupplierProductData = Pick<SupplierProduct,
+  'productId' | 'supplierSku' | 'unitCost' | 'leadTimeDays' | 'minOrderQuantity'
+>
+
+// ============================================================================
+// SUPPLIER API CLASS
+// ============================================================================
+
+export class SupplierAPI {
+  static async getSuppliers(): Promise<Supplier[]> {
+    return apiRequest('/suppliers')
+  }
+
+  static async createSupplier(data: SupplierFormData): Promise<Supplier> {
+    return apiRequest('/suppliers', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    })
+  }
+
+  static async updateSupplier(supplierId: string, data: Partial<SupplierFormData>): Promise<Supplier> {
+    return apiRequest(`/suppliers/${supplierId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data)
+    })
+  }
+
+  /**
+   * Delete a supplier (rejected by the backend while it has open purchase orders)
+   */
+  static async deleteSupplier(supplierId: string): Promise<void> {
+    return apiRequest(`/suppliers/${supplierId}`, {
+      method: 'DELETE'
+    })
+  }
+
+  static async getSupplierProducts(supplierId: string): Promise<SupplierProduct[]> {
+    return apiRequest(`/suppliers/${supplierId}/products`)
+  }
+
+  /**
+   * Add a SKU to the supplier, or update its cost and lead time
+   */
+  static async saveSupplierProduct(supplierId: string, data: SupplierProductData): Promise<SupplierProduct> {
+    return apiRequest(`/suppliers/${supplierId}/products/${data.productId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data)
+    })
+  }
+
+  static async removeSupplierProduct(supplierId: string, productId: string): Promise<void> {
+    return apiRequest(`/suppliers/${supplierId}/products/${productId}`, {
+      method: 'DELETE'
+    })
+  }
+}
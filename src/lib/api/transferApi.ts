@@ -0,0 +1,168 @@
+//file path: src/lib/api/transferApi.ts
+
+import { apiRequest } from './baseApi'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TransferStatus =
+  | 'draft'               // Being prepared - no stock has moved
+  | 'in_transit'          // Shipped: deducted at the source, not yet at the destination
+  | 'partially_received'  // Some units received at the destination
+  | 'received'            // Closed - every unit received or recorded as a discrepancy
+  | 'cancelled'
+
+export type TransferDiscrepancyReason = 'short' | 'over' | 'damaged'
+
+/**
+ * A SKU being moved
+ */
+export interface TransferLine {
+  id: string
+  productId: string
+  sku: string
+  productName: string
+  quantity: number             // Units shipped (or to ship, while a draft)
+  quantityReceived: number     // Good units added to destination stock so far
+  quantityDamaged: number      // Units that arrived unusable - written off, never added
+}
+
+/**
+ * Units of one line counted in at the destination
+ */
+export interface TransferReceiptLine {
+  lineId: string
+  quantity: number             // Good units - added to destination stock
+  damagedQuantity?: number
+}
+
+export interface TransferReceipt {
+  id: string
+  lines: TransferReceiptLine[]
+  notes?: string
+  receivedBy: string | null
+  receivedByName: string | null
+  receivedAt: string
+}
+
+/**
+ * Difference between what was shipped and what arrived
+ * Short units are recorded when a transfer is closed with units outstanding
+ */
+export interface TransferDiscrepancy {
+  lineId: string
+  sku: string
+  reason: TransferDiscrepancyReason
+  quantity: number
+  recordedAt: string
+}
+
+export interface TransferOrder {
+  id: string
+  accountId: string
+  transferNumber: string
+  sourceWarehouseId: string
+  destinationWarehouseId: string
+  status: TransferStatus
+  lines: TransferLine[]
+  carrier?: string
+  trackingNumber?: string
+  trackingUrl?: string
+  receipts: TransferReceipt[]
+  discrepancies: TransferDiscrepancy[]
+  notes?: string
+  createdBy: string | null
+  createdByName: string | null
+  shippedAt?: string
+  receivedAt?: string          // When the transfer was closed
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateTransferData {
+  sourceWarehouseId: string
+  destinationWarehouseId: string
+  lines: Pick<TransferLine, 'productId' | 'quantity'>[]
+  notes?: string
+}
+
+export interface ShipTransferData {
+  carrier?: string
+  trackingNumber?: string
+}
+
+export interface ReceiveTransferData {
+  lines: TransferReceiptLine[]
+  close: boolean               // Record anything still outstanding as short and close the transfer
+  notes?: string
+}
+
+// ============================================================================
+// TRANSFER API CLASS
+// ============================================================================
+
+/**
+ * API for inter-warehouse transfer orders
+ * Shipping deducts stock at the source and holds it in transit; receiving adds
+ * it at the destination. Both sides are written to the inventory movement ledger.
+ */
+export class TransferAPI {
+  /**
+   * Get transfers, optionally filtered by warehouse (source or destination) or status
+   */
+  static async getTransfers(filters: {
+    warehouseId?: string
+    status?: TransferStatus[]
+  } = {}): Promise<TransferOrder[]> {
+    const params = new URLSearchParams()
+    if (filters.warehouseId) params.append('warehouseId', filters.warehouseId)
+    if (filters.status && filters.status.length > 0) params.append('status', filters.status.join(','))
+
+    const query = params.toString()
+    return apiRequest(`/transfers${query ? `?${query}` : ''}`)
+  }
+
+  static async getTransfer(transferId: string): Promise<TransferOrder> {
+    return apiRequest(`/transfers/${transferId}`)
+  }
+
+  /**
+   * Create a draft transfer (the backend assigns the transfer number)
+   */
+  static async createTransfer(data: CreateTransferData): Promise<TransferOrder> {
+    return apiRequest('/transfers', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    })
+  }
+
+  /**
+   * Ship a draft - deducts every line from the source and puts it in transit
+   */
+  static async shipTransfer(transferId: string, data: ShipTransferData): Promise<TransferOrder> {
+    return apiRequest(`/transfers/${transferId}/ship`, {
+      method: 'POST',
+      body: JSON.stringify(data)
+    })
+  }
+
+  /**
+   * Receive units at the destination
+   */
+  static async receiveTransfer(transferId: string, data: ReceiveTransferData): Promise<TransferOrder> {
+    return apiRequest(`/transfers/${transferId}/receive`, {
+      method: 'POST',
+      body: JSON.stringify(data)
+    })
+  }
+
+  /**
+   * Cancel a draft
+   */
+  static async cancelTransfer(transferId: string): Promise<TransferOrder> {
+    return apiRequest(`/transfers/${transferId}/cancel`, {
+      method: 'POST'
+    })
+  }
+}
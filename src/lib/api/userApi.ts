@@ -1,6 +1,32 @@
 //file path: src/lib/api/userApi.ts
 
 import { apiRequest } from './baseApi'
+import type { CurrencyDisplay } from './currencyApi'
+
+export type SavedViewPage = 'orders' | 'warehouseOrders' | 'products'
+export type SavedViewVisibility = 'private' | 'team'
+
+/**
+ * Everything a saved view restores on its list page
+ */
+export interface SavedViewState {
+  filters: Record<string, any>
+  search: string
+  sort: { field: string; direction: 'asc' | 'desc' }
+  columns: { id: string; visible: boolean }[]   // In display order
+}
+
+export interface SavedView {
+  id: string
+  name: string
+  page: SavedViewPage
+  visibility: SavedViewVisibility
+  state: SavedViewState
+  ownerId: string
+  ownerName?: string | null
+  createdAt: string
+  updatedAt: string
+}
 
 export interface UserPreferences {
   id: string
@@ -19,6 +45,12 @@ export interface UserPreferences {
   productSortConfig?: any
   showProductFilters?: boolean
 
+  // Saved views owned by this user (team views are readable by everyone in the account)
+  savedViews?: SavedView[]
+  defaultViews?: Partial<Record<SavedViewPage, string>>   // View id opened by default per page
+
+  currencyDisplay?: CurrencyDisplay   // Order amounts as charged or in the account base currency
+
   createdAt: string
   updatedAt: string
 }
@@ -59,6 +91,13 @@ export class UserAPI {
     })
   }
 
+  /**
+   * Views other users in the account shared with the team
+   */
+  static async getTeamViews(page: SavedViewPage): Promise<SavedView[]> {
+    return apiRequest(`/users/preferences/shared-views?page=${page}`)
+  }
+
   /**
    * Reset preferences to defaults
    */
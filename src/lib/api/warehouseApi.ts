@@ -1,6 +1,28 @@
 //file path: src/lib/api/warehouseApi.ts
 
 import { apiRequest } from './baseApi'
+import type { WarehouseInventoryItem, InventoryLocationAssignment } from '@/app/dashboard/warehouses/utils/warehouseTypes'
+import type { StockAdjustment } from './inventoryApi'
+
+/**
+ * Result of verifying an order at the packing station
+ */
+export interface PackVerificationRecord {
+  orderId: string
+  orderNumber: string
+  method: 'scan' | 'override'
+  overrideReason?: string          // Required when method is 'override'
+  lines: {
+    sku: string
+    quantity: number
+    scannedQuantity: number
+  }[]
+  rejectedScans: {
+    code: string
+    reason: 'wrong_item' | 'over_scan'
+    scannedAt: string
+  }[]
+}
 
 export class WarehouseAPI {
   /**
@@ -74,6 +96,16 @@ export class WarehouseAPI {
     })
   }
 
+  /**
+   * Record how an order was verified at the packing station (scan or override)
+   */
+  static async recordPackVerification(warehouseId: string, record: PackVerificationRecord) {
+    return apiRequest(`/warehouses/${warehouseId}/order-states/pack-verifications`, {
+      method: 'POST',
+      body: JSON.stringify(record)
+    })
+  }
+
   /**
    * Update picked items state
    */
@@ -119,4 +151,46 @@ export class WarehouseAPI {
       method: 'DELETE'
     })
   }
+
+  // ============================================================================
+  // INVENTORY
+  // ============================================================================
+
+  /**
+   * Every product stocked at the warehouse, with stock, reserved and available quantities
+   */
+  static async getInventory(warehouseId: string): Promise<WarehouseInventoryItem[]> {
+    return apiRequest(`/warehouses/${warehouseId}/inventory`)
+  }
+
+  /**
+   * Set a product's on-hand quantity
+   * expectedQuantity is the stock the change was made from - the backend rejects the
+   * update if stock has moved since, then records the difference as a movement
+   */
+  static async setStockQuantity(
+    warehouseId: string,
+    productId: string,
+    quantity: number,
+    expectedQuantity: number,
+    adjustment: StockAdjustment
+  ): Promise<WarehouseInventoryItem> {
+    return apiRequest(`/warehouses/${warehouseId}/inventory/${productId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ quantity, expectedQuantity, reason: adjustment.reason, note: adjustment.note })
+    })
+  }
+
+  /**
+   * Put products in bins - an empty location unslots them
+   */
+  static async assignInventoryLocations(
+    warehouseId: string,
+    assignments: InventoryLocationAssignment[]
+  ): Promise<WarehouseInventoryItem[]> {
+    return apiRequest(`/warehouses/${warehouseId}/inventory/locations`, {
+      method: 'PUT',
+      body: JSON.stringify({ assignments })
+    })
+  }
 }
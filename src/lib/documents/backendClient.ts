@@ -0,0 +1,123 @@
+//file path: src/lib/documents/backendClient.ts
+
+import { NextRequest } from 'next/server'
+import { lookup } from 'node:dns/promises'
+import { isIP } from 'node:net'
+import { Order } from '@/app/dashboard/orders/utils/orderTypes'
+
+/**
+ * Backend access for the document routes, using the caller's own credentials
+ */
+
+export const BACKEND_API_URL = process.env.NEXT_PUBLIC_API_URL || 'https://api.advorderflow.com'
+
+const BACKEND_ORIGIN = new URL(BACKEND_API_URL).origin
+
+const FETCH_CONCURRENCY = 10
+
+export type AuthHeaders = Record<string, string>
+
+/**
+ * The caller's credentials - the dashboard's token lives in an httpOnly cookie
+ * Only ever sent to BACKEND_ORIGIN (backendGet, archiving and backend files in fetchFile)
+ */
+export function getAuthHeaders(request: NextRequest): AuthHeaders {
+  const headers: AuthHeaders = {}
+  const authorization = request.headers.get('authorization')
+  const cookie = request.headers.get('cookie')
+  if (authorization) headers['Authorization'] = authorization
+  if (cookie) headers['Cookie'] = cookie
+  return headers
+}
+
+export async function backendGet(path: string, authHeaders: AuthHeaders) {
+  const response = await fetch(`${BACKEND_API_URL}${path}`, {
+    headers: { 'Content-Type': 'application/json', ...authHeaders }
+  })
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.message || `Backend request failed: ${path}`)
+  }
+  return response.json()
+}
+
+/**
+ * Orders in the order given, fetched a few at a time
+ */
+export async function fetchOrders(orderIds: string[], authHeaders: AuthHeaders): Promise<Order[]> {
+  const orders: Order[] = []
+  for (let i = 0; i < orderIds.length; i += FETCH_CONCURRENCY) {
+    const chunk = await Promise.all(
+      orderIds.slice(i, i + FETCH_CONCURRENCY).map(async id => {
+        const data = await backendGet(`/api/orders/${id}`, authHeaders)
+        return (data.order || data) as Order
+      })
+    )
+    orders.push(...chunk)
+  }
+  return orders
+}
+
+function isPrivateAddress(address: string): boolean {
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isPrivateAddress(mapped[1])
+
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(Number)
+    return a === 0 || a === 10 || a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+  }
+
+  const lower = address.toLowerCase()
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower)
+}
+
+/**
+ * External files must be https on a public host - the server won't fetch internal addresses for a caller
+ */
+async function isAllowedExternalUrl(url: URL): Promise<boolean> {
+  if (url.protocol !== 'https:') return false
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) return false
+  if (isIP(hostname)) return !isPrivateAddress(hostname)
+
+  const addresses = await lookup(hostname, { all: true })
+  return addresses.length > 0 && addresses.every(({ address }) => !isPrivateAddress(address))
+}
+
+/**
+ * Logos and carrier labels; data URLs are decoded in place
+ * Credentials are only sent to the backend's own origin
+ */
+export async function fetchFile(url: string, authHeaders: AuthHeaders): Promise<Uint8Array | null> {
+  try {
+    if (url.startsWith('data:')) {
+      return Uint8Array.from(Buffer.from(url.replace(/^data:[^,]+,/, ''), 'base64'))
+    }
+
+    // Relative URLs are files served by the backend
+    const absolute = new URL(url.startsWith('http') ? url : `${BACKEND_API_URL}${url}`)
+    const isBackend = absolute.origin === BACKEND_ORIGIN
+
+    if (!isBackend && !(await isAllowedExternalUrl(absolute))) {
+      console.warn('[Documents API] Refusing to fetch file:', url)
+      return null
+    }
+
+    const response = await fetch(absolute, {
+      headers: isBackend ? authHeaders : {},
+      // A redirect could point an allowed host at an internal one
+      redirect: isBackend ? 'follow' : 'error'
+    })
+    if (!response.ok) return null
+    return new Uint8Array(await response.arrayBuffer())
+  } catch (error) {
+    console.warn('[Documents API] Could not fetch file:', url, error)
+    return null
+  }
+}
@@ -0,0 +1,43 @@
+//file path: src/lib/documents/networkPrinter.test.ts
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { isInRange, resolvePrinterAddress, PrinterAddressError } from './networkPrinter'
+
+describe('isInRange', () => {
+  it('matches addresses inside a CIDR range', () => {
+    assert.equal(isInRange('192.168.1.50', '192.168.0.0/16'), true)
+    assert.equal(isInRange('172.31.255.255', '172.16.0.0/12'), true)
+    assert.equal(isInRange('10.20.30.40', '10.0.0.0/8'), true)
+  })
+
+  it('rejects addresses outside the range', () => {
+    assert.equal(isInRange('172.32.0.1', '172.16.0.0/12'), false)
+    assert.equal(isInRange('169.254.169.254', '10.0.0.0/8'), false)
+  })
+
+  it('treats a bare address as a single host', () => {
+    assert.equal(isInRange('10.0.0.5', '10.0.0.5'), true)
+    assert.equal(isInRange('10.0.0.6', '10.0.0.5'), false)
+  })
+})
+
+describe('resolvePrinterAddress', () => {
+  it('accepts a LAN printer on port 9100', async () => {
+    assert.equal(await resolvePrinterAddress('192.168.1.50', 9100), '192.168.1.50')
+  })
+
+  it('rejects other ports', async () => {
+    await assert.rejects(resolvePrinterAddress('192.168.1.50', 22), PrinterAddressError)
+  })
+
+  it('rejects loopback, metadata and public addresses', async () => {
+    await assert.rejects(resolvePrinterAddress('127.0.0.1', 9100), PrinterAddressError)
+    await assert.rejects(resolvePrinterAddress('169.254.169.254', 9100), PrinterAddressError)
+    await assert.rejects(resolvePrinterAddress('8.8.8.8', 9100), PrinterAddressError)
+  })
+
+  it('checks hostnames by the address they resolve to', async () => {
+    await assert.rejects(resolvePrinterAddress('localhost', 9100), PrinterAddressError)
+  })
+})
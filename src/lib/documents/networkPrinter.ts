@@ -0,0 +1,101 @@
+//file path: src/lib/documents/networkPrinter.ts
+
+import { Socket, isIPv4 } from 'net'
+import { lookup } from 'dns/promises'
+
+const SEND_TIMEOUT_MS = 15000
+
+// Raw printing (JetDirect) is the only port the server will connect to
+export const PRINTER_PORT = 9100
+
+// Printers live on the warehouse LAN - override with PRINTER_ALLOWED_RANGES (comma-separated CIDRs)
+const DEFAULT_ALLOWED_RANGES = ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16']
+
+/**
+ * The printer address in a saved profile is outside what the server may connect to
+ */
+export class PrinterAddressError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PrinterAddressError'
+  }
+}
+
+function ipv4ToNumber(ip: string): number {
+  return ip.split('.').reduce((value, octet) => value * 256 + Number(octet), 0)
+}
+
+/**
+ * Whether an IPv4 address falls in a CIDR range ("192.168.0.0/16")
+ */
+export function isInRange(ip: string, cidr: string): boolean {
+  const [base, bitsText] = cidr.trim().split('/')
+  const bits = bitsText === undefined ? 32 : Number(bitsText)
+  if (!isIPv4(ip) || !isIPv4(base) || !Number.isInteger(bits) || bits < 0 || bits > 32) return false
+
+  const size = 2 ** (32 - bits)
+  return Math.floor(ipv4ToNumber(ip) / size) === Math.floor(ipv4ToNumber(base) / size)
+}
+
+export function getAllowedPrinterRanges(): string[] {
+  const configured = (process.env.PRINTER_ALLOWED_RANGES || '')
+    .split(',')
+    .map(range => range.trim())
+    .filter(Boolean)
+  return configured.length > 0 ? configured : DEFAULT_ALLOWED_RANGES
+}
+
+/**
+ * Resolve a printer's host to the IPv4 address to connect to
+ * Throws PrinterAddressError unless the port is 9100 and the address is in an allowed range,
+ * so a profile can't point the server at the backend, cloud metadata or the internet.
+ * The resolved address is what gets connected to - the name isn't looked up twice.
+ */
+export async function resolvePrinterAddress(host: string, port: number): Promise<string> {
+  if (port !== PRINTER_PORT) {
+    throw new PrinterAddressError(`Printers must listen on port ${PRINTER_PORT} (got ${port})`)
+  }
+
+  let address = host.trim()
+  if (!isIPv4(address)) {
+    try {
+      address = (await lookup(address, { family: 4 })).address
+    } catch {
+      throw new PrinterAddressError(`Could not find printer ${host}`)
+    }
+  }
+
+  if (!getAllowedPrinterRanges().some(range => isInRange(address, range))) {
+    throw new PrinterAddressError(`${host} (${address}) is not on an allowed printer network`)
+  }
+  return address
+}
+
+/**
+ * Stream a ZPL job to a printer's raw port (JetDirect / port 9100)
+ * Resolves once the printer has accepted all of the data
+ */
+export async function sendToPrinter(host: string, port: number, zpl: string): Promise<void> {
+  const address = await resolvePrinterAddress(host, port)
+
+  return new Promise((resolve, reject) => {
+    const socket = new Socket()
+    let settled = false
+
+    const finish = (error?: Error) => {
+      if (settled) return
+      settled = true
+      socket.destroy()
+      if (error) reject(error)
+      else resolve()
+    }
+
+    socket.setTimeout(SEND_TIMEOUT_MS)
+    socket.on('timeout', () => finish(new Error(`Printer ${host}:${port} did not respond`)))
+    socket.on('error', (error) => finish(new Error(`Could not reach printer ${host}:${port}: ${error.message}`)))
+
+    socket.connect(port, address, () => {
+      socket.end(zpl, 'utf8', () => finish())
+    })
+  })
+}
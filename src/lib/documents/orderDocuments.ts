@@ -0,0 +1,545 @@
+//file path: src/lib/documents/orderDocuments.ts
+
+import { PDFDocument, PDFImage } from 'pdf-lib'
+import { PdfLayout, PAGE_LETTER, PAGE_4X6, GRAY, BLACK, pdfSafe } from './pdfLayout'
+import { OrderWithDetails, OrderDocumentType, ShippingLabel } from '@/app/dashboard/orders/utils/orderTypes'
+import { Store } from '@/app/dashboard/stores/utils/storeTypes'
+import { Warehouse } from '@/app/dashboard/warehouses/utils/warehouseTypes'
+import { Product } from '@/app/dashboard/products/utils/productTypes'
+import { DEFAULT_COMPANY_INFO, DEFAULT_PACKING_SLIP_TEMPLATE } from '@/app/dashboard/orders/constants/orderConstants'
+import { formatCurrency, formatDateForPackingSlip, calculateTotalWeight } from '@/app/dashboard/orders/utils/orderUtils'
+import { getPackingSlipVariables, replacePackingSlipVariables } from '@/app/dashboard/orders/utils/packingSlipVariables'
+import { encodeCode39 } from '@/app/dashboard/orders/utils/packingSlipGenerator'
+import { generateConsolidatedItems, ConsolidatedItem } from '@/app/dashboard/orders/utils/pickingListExporter'
+
+/**
+ * Server-side PDF rendering for packing slips, picking lists, gift cards
+ * and batches (each order's packing slip followed by its shipping labels)
+ */
+
+export interface OrderDocumentContext {
+  stores: Store[]
+  warehouse?: Warehouse | null
+  products?: Product[]
+  // Downloads logos and label files; returns null when unavailable
+  fetchFile: (url: string) => Promise<Uint8Array | null>
+}
+
+export interface RenderedDocument {
+  bytes: Uint8Array
+  pageCount: number
+}
+
+export const DOCUMENT_TITLES: Record<OrderDocumentType, string> = {
+  packing_slip: 'Packing Slips',
+  pick_list: 'Picking List',
+  gift_card: 'Gift Cards',
+  batch: 'Packing Slips and Labels'
+}
+
+/**
+ * Render one PDF for the orders, in the order given
+ * Batches follow the picking list's order, so callers pass the same sequence
+ */
+export async function renderOrderDocument(
+  type: OrderDocumentType,
+  orders: OrderWithDetails[],
+  context: OrderDocumentContext
+): Promise<RenderedDocument> {
+  const pdf = await PDFDocument.create()
+  pdf.setTitle(DOCUMENT_TITLES[type])
+  pdf.setCreationDate(new Date())
+
+  const layout = await PdfLayout.create(pdf)
+  const logos = new ImageCache(pdf, context.fetchFile)
+
+  switch (type) {
+    case 'packing_slip':
+      for (const order of orders) {
+        await drawPackingSlip(layout, order, findStore(order, context), logos)
+      }
+      break
+
+    case 'pick_list':
+      drawPickList(layout, orders, context)
+      break
+
+    case 'gift_card': {
+      const giftOrders = orders.filter(order => getGiftMessages(order).length > 0)
+      if (giftOrders.length === 0) {
+        throw new Error('None of these orders have a gift message')
+      }
+      giftOrders.forEach(order => drawGiftCard(layout, order, findStore(order, context)))
+      break
+    }
+
+    case 'batch':
+      for (const order of orders) {
+        await drawPackingSlip(layout, order, findStore(order, context), logos)
+        await appendLabels(layout, order, context)
+      }
+      break
+  }
+
+  const bytes = await pdf.save()
+  return { bytes, pageCount: pdf.getPageCount() }
+}
+
+function findStore(order: OrderWithDetails, context: OrderDocumentContext): Store | undefined {
+  return context.stores.find(store => store.id === order.storeId)
+}
+
+// ============================================================================
+// PACKING SLIP
+// ============================================================================
+
+async function drawPackingSlip(
+  layout: PdfLayout,
+  order: OrderWithDetails,
+  store: Store | undefined,
+  logos: ImageCache
+) {
+  const template = store?.packingSlipTemplate || DEFAULT_PACKING_SLIP_TEMPLATE
+  const variables = getPackingSlipVariables(order, store)
+  const fill = (value: string) => replacePackingSlipVariables(value, variables)
+
+  // Gift orders never show what was paid
+  const showPrices = template.showPrices && !order.items.some(item => item.isGift)
+
+  layout.addPage(PAGE_LETTER, 40)
+
+  for (const block of template.blocks.filter(b => b.enabled)) {
+    switch (block.type) {
+      case 'logo': {
+        const logo = store?.logo ? await logos.get(store.logo) : null
+        if (logo) {
+          const scaled = logo.scaleToFit(200, 60)
+          layout.ensureSpace(scaled.height + 10)
+          layout.page.drawImage(logo, {
+            x: layout.margin,
+            y: layout.y - scaled.height,
+            width: scaled.width,
+            height: scaled.height
+          })
+          layout.gap(scaled.height + 10)
+        }
+        break
+      }
+
+      case 'header':
+        drawSlipHeader(layout, order, store, fill(template.title))
+        if (template.headerMessage) {
+          layout.text(fill(template.headerMessage), { size: 12 })
+          layout.gap(8)
+        }
+        break
+
+      case 'addresses':
+        drawSlipAddresses(layout, order)
+        break
+
+      case 'items':
+        drawSlipItems(layout, order, showPrices)
+        break
+
+      case 'giftMessage': {
+        const messages = getGiftMessages(order)
+        if (messages.length > 0) layout.box('Gift Message', messages.join('\n\n'))
+        break
+      }
+
+      case 'notes':
+        if (order.notes) layout.box('Special Instructions', order.notes)
+        break
+
+      case 'returnInstructions':
+        if (template.returnInstructions) layout.box('Returns', fill(template.returnInstructions))
+        break
+
+      case 'barcode':
+        drawBarcode(layout, order.orderNumber)
+        break
+
+      case 'checklist':
+        drawChecklist(layout)
+        break
+    }
+  }
+
+  if (template.footerText) {
+    layout.gap(10)
+    layout.text(fill(template.footerText), { size: 9, color: GRAY, align: 'center' })
+  }
+}
+
+function drawSlipHeader(layout: PdfLayout, order: OrderWithDetails, store: Store | undefined, title: string) {
+  const company = store
+    ? {
+      name: store.storeName,
+      lines: [
+        [store.address.address1, store.address.address2].filter(Boolean).join(', '),
+        `${store.address.city}, ${store.address.state} ${store.address.zip}`,
+        store.address.country,
+        store.phone ? `Phone: ${store.phone}` : '',
+        store.email ? `Email: ${store.email}` : '',
+        store.website ? `Web: ${store.website}` : ''
+      ]
+    }
+    : {
+      name: DEFAULT_COMPANY_INFO.name,
+      lines: [
+        DEFAULT_COMPANY_INFO.address,
+        `${DEFAULT_COMPANY_INFO.city}, ${DEFAULT_COMPANY_INFO.state} ${DEFAULT_COMPANY_INFO.zip}`,
+        DEFAULT_COMPANY_INFO.country,
+        `Phone: ${DEFAULT_COMPANY_INFO.phone}`,
+        `Email: ${DEFAULT_COMPANY_INFO.email}`,
+        `Web: ${DEFAULT_COMPANY_INFO.website}`
+      ]
+    }
+
+  const half = layout.contentWidth / 2
+  const rightHeight = layout.textAt(
+    [title, `Order #: ${order.orderNumber}`, `Platform: ${order.platform}`].join('\n'),
+    { x: half, width: half, align: 'right', bold: true }
+  )
+
+  const startY = layout.y
+  layout.text(company.name, { size: 18, bold: true, width: half })
+  layout.text(company.lines.filter(Boolean).join('\n'), { size: 9, color: GRAY, width: half })
+  layout.y = Math.min(layout.y, startY - rightHeight)
+
+  layout.rule(BLACK, 1.5)
+  layout.gap(10)
+}
+
+function drawSlipAddresses(layout: PdfLayout, order: OrderWithDetails) {
+  const address = order.shippingAddress
+  const half = layout.contentWidth / 2 - 10
+
+  const shipTo = [
+    `${address.firstName} ${address.lastName}`,
+    address.company || '',
+    address.address1,
+    address.address2 || '',
+    `${address.city}, ${address.state} ${address.zip}`,
+    address.country,
+    address.phone ? `Phone: ${address.phone}` : ''
+  ].filter(Boolean).join('\n')
+
+  const orderInfo = [
+    `Order Date: ${formatDateForPackingSlip(order.orderDate)}`,
+    `Shipping Method: ${order.shippingMethod}`,
+    order.trackingNumber ? `Tracking: ${order.trackingNumber}` : '',
+    `Total Weight: ${calculateTotalWeight(order.items).toFixed(2)} kg`,
+    `Total Items: ${order.items.reduce((sum, item) => sum + item.quantity, 0)}`
+  ].filter(Boolean).join('\n')
+
+  layout.ensureSpace(110)
+  const startY = layout.y
+
+  layout.text('Ship To', { bold: true, width: half })
+  layout.text(shipTo, { width: half })
+  const leftEnd = layout.y
+
+  layout.y = startY
+  layout.text('Order Information', { bold: true, x: half + 20, width: half })
+  layout.text(orderInfo, { x: half + 20, width: half })
+
+  layout.y = Math.min(leftEnd, layout.y)
+  layout.gap(16)
+}
+
+function drawSlipItems(layout: PdfLayout, order: OrderWithDetails, showPrices: boolean) {
+  layout.text('Items to Pack', { size: 12, bold: true })
+  layout.gap(4)
+
+  const columns = showPrices
+    ? [
+      { header: 'Product', width: 0.34 },
+      { header: 'SKU', width: 0.16 },
+      { header: 'Variant', width: 0.12 },
+      { header: 'Qty', width: 0.07, align: 'center' as const },
+      { header: 'Price', width: 0.11, align: 'right' as const },
+      { header: 'Total', width: 0.12, align: 'right' as const },
+      { header: 'Packed', width: 0.08, align: 'center' as const }
+    ]
+    : [
+      { header: 'Product', width: 0.42 },
+      { header: 'SKU', width: 0.18 },
+      { header: 'Variant', width: 0.14 },
+      { header: 'Qty', width: 0.08, align: 'center' as const },
+      { header: 'Weight (kg)', width: 0.1, align: 'right' as const },
+      { header: 'Packed', width: 0.08, align: 'center' as const }
+    ]
+
+  const rows = order.items.map(item => {
+    const meta = item.meta
+      ? `\n${Object.entries(item.meta).map(([key, value]) => `${key}: ${value}`).join(', ')}`
+      : ''
+    const currency = item.currency || order.currency
+    return showPrices
+      ? [
+        `${item.name}${meta}`,
+        item.sku,
+        item.variant || '-',
+        String(item.quantity),
+        formatCurrency(item.price, currency),
+        formatCurrency(item.price * item.quantity, currency),
+        '[   ]'
+      ]
+      : [
+        `${item.name}${meta}`,
+        item.sku,
+        item.variant || '-',
+        String(item.quantity),
+        item.weight ? (item.weight * item.quantity).toFixed(2) : '-',
+        '[   ]'
+      ]
+  })
+
+  layout.table(columns, rows)
+
+  if (showPrices) {
+    layout.text(`Order Total: ${formatCurrency(order.totalAmount, order.currency)}`, { bold: true, align: 'right' })
+    layout.gap(8)
+  }
+}
+
+function drawBarcode(layout: PdfLayout, value: string) {
+  const SCALE = 1.5
+  const HEIGHT = 40
+
+  const { bars, width, text } = encodeCode39(value)
+  const barcodeWidth = width * SCALE
+  const x = layout.margin + (layout.contentWidth - barcodeWidth) / 2
+
+  layout.ensureSpace(HEIGHT + 20)
+  bars.forEach(bar => {
+    layout.page.drawRectangle({
+      x: x + bar.x * SCALE,
+      y: layout.y - HEIGHT,
+      width: bar.width * SCALE,
+      height: HEIGHT,
+      color: BLACK
+    })
+  })
+  layout.gap(HEIGHT + 2)
+  layout.text(text, { size: 9, align: 'center' })
+  layout.gap(8)
+}
+
+function drawChecklist(layout: PdfLayout) {
+  const third = layout.contentWidth / 3
+
+  layout.ensureSpace(100)
+  layout.rule()
+  layout.gap(6)
+  const startY = layout.y
+
+  layout.textAt(
+    'Packing Checklist\n[ ] All items present and correct\n[ ] Items properly protected\n[ ] Shipping label attached\n[ ] Return slip included',
+    { size: 9, width: third - 10 }
+  )
+  layout.textAt(
+    'Quality Check\n[ ] Items match order\n[ ] No damage or defects\n[ ] Correct quantities\n[ ] Package secure',
+    { size: 9, x: third, width: third - 10 }
+  )
+  layout.text('Packed By\n\n________________________\nSignature\n\nDate: _______________', { size: 9, x: third * 2, width: third })
+
+  layout.y = Math.min(layout.y, startY - 70)
+}
+
+// ============================================================================
+// PICKING LIST
+// ============================================================================
+
+function drawPickList(layout: PdfLayout, orders: OrderWithDetails[], context: OrderDocumentContext) {
+  const { items, unslottedItems } = generateConsolidatedItems(orders, {
+    warehouse: context.warehouse,
+    products: context.products
+  })
+
+  layout.addPage(PAGE_LETTER, 40)
+  layout.text('Picking List', { size: 18, bold: true })
+  layout.text(
+    [
+      context.warehouse?.name,
+      new Date().toLocaleString('en-US'),
+      `${orders.length} orders`,
+      `${items.length + unslottedItems.length} SKUs`
+    ].filter(Boolean).join('  -  '),
+    { size: 9, color: GRAY }
+  )
+  layout.rule(BLACK, 1.5)
+  layout.gap(6)
+
+  const columns = [
+    { header: '', width: 0.05, align: 'center' as const },
+    { header: 'Location', width: 0.14 },
+    { header: 'SKU', width: 0.17 },
+    { header: 'Product', width: 0.3 },
+    { header: 'Qty', width: 0.07, align: 'center' as const },
+    { header: 'Orders', width: 0.27 }
+  ]
+
+  const toRow = (item: ConsolidatedItem) => [
+    '[ ]',
+    item.location || '-',
+    item.sku,
+    item.name,
+    String(item.totalQuantity),
+    item.orders.map(o => `#${o.orderNumber}${o.quantity > 1 ? ` x${o.quantity}` : ''}`).join(', ')
+  ]
+
+  layout.table(columns, items.map(toRow))
+
+  if (unslottedItems.length > 0) {
+    layout.text('No bin location', { size: 12, bold: true })
+    layout.gap(4)
+    layout.table(columns, unslottedItems.map(toRow))
+  }
+
+  layout.text('Orders', { size: 12, bold: true })
+  layout.gap(4)
+  layout.table(
+    [
+      { header: '', width: 0.05, align: 'center' },
+      { header: '#', width: 0.06, align: 'right' },
+      { header: 'Order', width: 0.2 },
+      { header: 'Customer', width: 0.35 },
+      { header: 'Shipping', width: 0.24 },
+      { header: 'Items', width: 0.1, align: 'center' }
+    ],
+    orders.map((order, index) => [
+      '[ ]',
+      String(index + 1),
+      `#${order.orderNumber}`,
+      order.customerName,
+      order.shippingMethod || order.requestedShipping || '-',
+      String(order.items.reduce((sum, item) => sum + item.quantity, 0))
+    ])
+  )
+}
+
+// ============================================================================
+// GIFT CARDS
+// ============================================================================
+
+function getGiftMessages(order: OrderWithDetails): string[] {
+  return order.items
+    .map(item => item.giftMessage)
+    .filter((message): message is string => !!message)
+    .filter((message, index, all) => all.indexOf(message) === index)
+}
+
+function drawGiftCard(layout: PdfLayout, order: OrderWithDetails, store: Store | undefined) {
+  layout.addPage(PAGE_4X6, 24)
+
+  layout.gap(40)
+  layout.text('A gift for you', { size: 20, bold: true, align: 'center' })
+  layout.gap(24)
+  layout.text(getGiftMessages(order).join('\n\n'), { size: 12, align: 'center' })
+
+  layout.y = layout.margin + 30
+  layout.text(store?.storeName || '', { size: 9, color: GRAY, align: 'center' })
+  layout.text(`Order #${order.orderNumber}`, { size: 8, color: GRAY, align: 'center' })
+}
+
+// ============================================================================
+// SHIPPING LABELS
+// ============================================================================
+
+/**
+ * Labels for every package in the latest shipment (or the order's single label)
+ */
+export function getOrderLabels(order: OrderWithDetails): ShippingLabel[] {
+  const latestShipment = order.shipments?.[order.shipments.length - 1]
+  const labels = (latestShipment?.packages || [])
+    .map(pkg => pkg.label)
+    .filter((label): label is ShippingLabel => !!label)
+
+  if (labels.length > 0) return labels
+  return order.shippingLabel ? [order.shippingLabel] : []
+}
+
+export async function loadLabelFile(label: ShippingLabel, context: OrderDocumentContext): Promise<Uint8Array | null> {
+  if (label.labelImage) {
+    return Uint8Array.from(Buffer.from(label.labelImage.replace(/^data:[^,]+,/, ''), 'base64'))
+  }
+  return label.labelUrl ? context.fetchFile(label.labelUrl) : null
+}
+
+/**
+ * Append the order's labels after its packing slip
+ * PDF labels are copied page by page, PNG/JPEG labels are placed on a 4x6 page
+ */
+async function appendLabels(layout: PdfLayout, order: OrderWithDetails, context: OrderDocumentContext) {
+  for (const label of getOrderLabels(order)) {
+    const bytes = await loadLabelFile(label, context)
+    const format = bytes ? detectFileType(bytes) : null
+
+    if (bytes && format === 'pdf') {
+      const labelPdf = await PDFDocument.load(bytes)
+      const pages = await layout.pdf.copyPages(labelPdf, labelPdf.getPageIndices())
+      pages.forEach(page => layout.pdf.addPage(page))
+      continue
+    }
+
+    if (bytes && (format === 'png' || format === 'jpg')) {
+      const image = format === 'png' ? await layout.pdf.embedPng(bytes) : await layout.pdf.embedJpg(bytes)
+      const [width, height] = PAGE_4X6
+      const page = layout.pdf.addPage(PAGE_4X6)
+      const scaled = image.scaleToFit(width, height)
+      page.drawImage(image, {
+        x: (width - scaled.width) / 2,
+        y: (height - scaled.height) / 2,
+        width: scaled.width,
+        height: scaled.height
+      })
+      continue
+    }
+
+    // ZPL or missing files can't be placed in a PDF - leave a marker page so the batch stays in step
+    layout.addPage(PAGE_4X6, 24)
+    layout.text(`Label for order #${order.orderNumber}`, { size: 12, bold: true })
+    layout.text(pdfSafe(`${label.carrier} ${label.trackingNumber}`), { size: 10 })
+    layout.gap(8)
+    layout.text('This label could not be included. Reprint it from the order.', { size: 9, color: GRAY })
+  }
+}
+
+function detectFileType(bytes: Uint8Array): 'pdf' | 'png' | 'jpg' | null {
+  if (bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46) return 'pdf'
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'png'
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpg'
+  return null
+}
+
+/**
+ * Embeds each logo once per document
+ */
+class ImageCache {
+  private images: Record<string, PDFImage | null> = {}
+
+  constructor(
+    private pdf: PDFDocument,
+    private fetchFile: (url: string) => Promise<Uint8Array | null>
+  ) {}
+
+  async get(url: string): Promise<PDFImage | null> {
+    if (url in this.images) return this.images[url]
+
+    let image: PDFImage | null = null
+    try {
+      const bytes = await this.fetchFile(url)
+      const format = bytes ? detectFileType(bytes) : null
+      if (bytes && format === 'png') image = await this.pdf.embedPng(bytes)
+      if (bytes && format === 'jpg') image = await this.pdf.embedJpg(bytes)
+    } catch (error) {
+      console.warn('[orderDocuments] Could not embed image:', url, error)
+    }
+
+    this.images[url] = image
+    return image
+  }
+}
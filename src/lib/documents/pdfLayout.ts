@@ -0,0 +1,252 @@
+//file path: src/lib/documents/pdfLayout.ts
+
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb, RGB } from 'pdf-lib'
+
+/**
+ * Minimal flow layout on top of pdf-lib
+ * Tracks a cursor (y) on the current page and breaks pages as content is added
+ */
+
+export const PAGE_LETTER: [number, number] = [612, 792]   // 8.5 x 11 in
+export const PAGE_4X6: [number, number] = [288, 432]      // Thermal labels and gift cards
+
+export const GRAY = rgb(0.4, 0.4, 0.4)
+export const LIGHT_GRAY = rgb(0.85, 0.85, 0.85)
+export const BLACK = rgb(0, 0, 0)
+
+export interface TextOptions {
+  size?: number
+  bold?: boolean
+  color?: RGB
+  x?: number                 // Offset from the left margin
+  width?: number             // Wrap width (defaults to the rest of the line)
+  align?: 'left' | 'center' | 'right'
+}
+
+export interface TableColumn {
+  header: string
+  width: number              // Fraction of the content width
+  align?: 'left' | 'right' | 'center'
+}
+
+/**
+ * Standard fonts only cover WinAnsi - replace anything else (emoji, CJK)
+ * so a single product name can't fail the whole document
+ */
+export function pdfSafe(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return ''
+  return String(value)
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/\r/g, '')
+    .replace(/[^\n\x20-\x7E\xA0-\xFF]/g, '?')
+}
+
+export class PdfLayout {
+  page!: PDFPage
+  y = 0
+  margin: number
+  private pageSize: [number, number]
+
+  private constructor(
+    readonly pdf: PDFDocument,
+    readonly font: PDFFont,
+    readonly boldFont: PDFFont,
+    pageSize: [number, number],
+    margin: number
+  ) {
+    this.pageSize = pageSize
+    this.margin = margin
+  }
+
+  static async create(pdf: PDFDocument, pageSize = PAGE_LETTER, margin = 40): Promise<PdfLayout> {
+    const font = await pdf.embedFont(StandardFonts.Helvetica)
+    const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold)
+    return new PdfLayout(pdf, font, boldFont, pageSize, margin)
+  }
+
+  get contentWidth(): number {
+    return this.pageSize[0] - this.margin * 2
+  }
+
+  /**
+   * Start a new page (optionally switching page size and margin for what follows)
+   */
+  addPage(pageSize?: [number, number], margin?: number) {
+    if (pageSize) this.pageSize = pageSize
+    if (margin !== undefined) this.margin = margin
+    this.page = this.pdf.addPage(this.pageSize)
+    this.y = this.pageSize[1] - this.margin
+  }
+
+  /**
+   * Break to a new page unless there's room for the given height
+   */
+  ensureSpace(height: number) {
+    if (this.y - height < this.margin) {
+      this.addPage()
+    }
+  }
+
+  gap(height: number) {
+    this.y -= height
+  }
+
+  wrap(value: string, width: number, size: number, bold = false): string[] {
+    const font = bold ? this.boldFont : this.font
+    const lines: string[] = []
+
+    pdfSafe(value).split('\n').forEach(paragraph => {
+      let line = ''
+      paragraph.split(' ').forEach(word => {
+        const candidate = line ? `${line} ${word}` : word
+        if (font.widthOfTextAtSize(candidate, size) <= width || !line) {
+          line = candidate
+        } else {
+          lines.push(line)
+          line = word
+        }
+      })
+      lines.push(line)
+    })
+
+    return lines
+  }
+
+  /**
+   * Draw wrapped text at the cursor and move the cursor below it
+   */
+  text(value: string, options: TextOptions = {}) {
+    const size = options.size ?? 10
+    const font = options.bold ? this.boldFont : this.font
+    const x = this.margin + (options.x ?? 0)
+    const width = options.width ?? this.contentWidth - (options.x ?? 0)
+    const lineHeight = size * 1.3
+
+    this.wrap(value, width, size, options.bold).forEach(line => {
+      this.ensureSpace(lineHeight)
+      const lineWidth = font.widthOfTextAtSize(line, size)
+      const offset = options.align === 'center'
+        ? (width - lineWidth) / 2
+        : options.align === 'right' ? width - lineWidth : 0
+
+      this.page.drawText(line, {
+        x: x + offset,
+        y: this.y - size,
+        size,
+        font,
+        color: options.color ?? BLACK
+      })
+      this.y -= lineHeight
+    })
+  }
+
+  /**
+   * Draw text without moving the cursor (for side-by-side columns)
+   * Returns the height used
+   */
+  textAt(value: string, options: TextOptions = {}): number {
+    const startY = this.y
+    const startPage = this.page
+    this.text(value, options)
+    const used = startY - this.y
+    if (this.page === startPage) this.y = startY
+    return used
+  }
+
+  rule(color = LIGHT_GRAY, thickness = 1) {
+    this.ensureSpace(thickness + 4)
+    this.gap(2)
+    this.page.drawLine({
+      start: { x: this.margin, y: this.y },
+      end: { x: this.margin + this.contentWidth, y: this.y },
+      thickness,
+      color
+    })
+    this.gap(thickness + 2)
+  }
+
+  /**
+   * A heading followed by a paragraph inside a bordered box
+   */
+  box(title: string, body: string, borderColor = LIGHT_GRAY) {
+    const padding = 8
+    const innerWidth = this.contentWidth - padding * 2
+    const bodyLines = this.wrap(body, innerWidth, 10)
+    const height = padding * 2 + 13 + bodyLines.length * 13
+
+    this.ensureSpace(height)
+    this.page.drawRectangle({
+      x: this.margin,
+      y: this.y - height,
+      width: this.contentWidth,
+      height,
+      borderColor,
+      borderWidth: 1
+    })
+    this.gap(padding)
+    this.text(title, { bold: true, x: padding, width: innerWidth })
+    this.text(body, { x: padding, width: innerWidth })
+    this.gap(padding + 6)
+  }
+
+  /**
+   * Table with a header row, wrapped cells and the header repeated after page breaks
+   */
+  table(columns: TableColumn[], rows: string[][], size = 9) {
+    const padding = 4
+    const widths = columns.map(column => column.width * this.contentWidth)
+    const lineHeight = size * 1.3
+
+    const drawRow = (cells: string[], bold: boolean, shaded: boolean) => {
+      const wrapped = cells.map((cell, index) => this.wrap(cell, widths[index] - padding * 2, size, bold))
+      const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + padding * 2
+
+      if (this.y - height < this.margin) {
+        this.addPage()
+        if (!bold) drawRow(columns.map(column => column.header), true, true)
+      }
+
+      if (shaded) {
+        this.page.drawRectangle({
+          x: this.margin,
+          y: this.y - height,
+          width: this.contentWidth,
+          height,
+          color: rgb(0.95, 0.95, 0.95)
+        })
+      }
+
+      let x = this.margin
+      wrapped.forEach((lines, index) => {
+        const font = bold ? this.boldFont : this.font
+        lines.forEach((line, lineIndex) => {
+          const lineWidth = font.widthOfTextAtSize(line, size)
+          const available = widths[index] - padding * 2
+          const align = columns[index].align
+          const offset = align === 'right' ? available - lineWidth : align === 'center' ? (available - lineWidth) / 2 : 0
+          this.page.drawText(line, {
+            x: x + padding + offset,
+            y: this.y - padding - size - lineIndex * lineHeight,
+            size,
+            font
+          })
+        })
+        x += widths[index]
+      })
+
+      this.page.drawLine({
+        start: { x: this.margin, y: this.y - height },
+        end: { x: this.margin + this.contentWidth, y: this.y - height },
+        thickness: 0.5,
+        color: LIGHT_GRAY
+      })
+      this.y -= height
+    }
+
+    drawRow(columns.map(column => column.header), true, true)
+    rows.forEach(row => drawRow(row, false, false))
+    this.gap(10)
+  }
+}
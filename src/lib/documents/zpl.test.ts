@@ -0,0 +1,185 @@
+//file path: src/lib/documents/zpl.test.ts
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  getLabelSpec,
+  escapeZplField,
+  renderPackingSlipZPL,
+  renderProductLabelZPL,
+  renderBinLabelZPL,
+  renderTestLabelZPL
+} from './zpl'
+import { OrderItem, OrderWithDetails } from '@/app/dashboard/orders/utils/orderTypes'
+import { PrinterProfile } from '@/app/dashboard/warehouses/utils/warehouseTypes'
+
+const PROFILE: PrinterProfile = {
+  id: 'printer-1',
+  name: 'Pack bench',
+  labelSize: '4x6',
+  dpi: 203,
+  connection: 'download',
+  isDefault: true
+}
+
+function makeItem(index: number, overrides: Partial<OrderItem> = {}): OrderItem {
+  return {
+    id: `item-${index}`,
+    sku: `SKU-${index}`,
+    name: `Item ${index}`,
+    quantity: 1,
+    price: 10,
+    ...overrides
+  } as OrderItem
+}
+
+function makeOrder(overrides: Partial<OrderWithDetails> = {}): OrderWithDetails {
+  return {
+    id: 'order-1',
+    orderNumber: '1001',
+    platform: 'Shopify',
+    currency: 'USD',
+    orderDate: '2026-01-15T12:00:00Z',
+    shippingMethod: 'Ground',
+    trackingNumber: '',
+    shippingAddress: {
+      firstName: 'Sam',
+      lastName: 'Lee',
+      address1: '1 Main St',
+      city: 'Springfield',
+      state: 'IL',
+      zip: '62701',
+      country: 'United States',
+      countryCode: 'US'
+    },
+    items: [makeItem(1)],
+    ...overrides
+  } as OrderWithDetails
+}
+
+/** Every label is one complete ^XA...^XZ block */
+function assertWellFormed(labels: string[]) {
+  labels.forEach(label => {
+    assert.ok(label.startsWith('^XA\n'), 'label starts with ^XA')
+    assert.ok(label.endsWith('\n^XZ'), 'label ends with ^XZ')
+    assert.equal(label.split('^XA').length, 2, 'one ^XA per label')
+    assert.equal(label.split('^XZ').length, 2, 'one ^XZ per label')
+  })
+}
+
+describe('getLabelSpec', () => {
+  it('sizes 4x6 labels in dots for the printer density', () => {
+    assert.deepEqual(getLabelSpec({ labelSize: '4x6', dpi: 203 }), { dpi: 203, width: 812, height: 1218 })
+    assert.deepEqual(getLabelSpec({ labelSize: '4x6', dpi: 300 }), { dpi: 300, width: 1200, height: 1800 })
+  })
+
+  it('sizes 4x4 labels', () => {
+    assert.deepEqual(getLabelSpec({ labelSize: '4x4', dpi: 203 }), { dpi: 203, width: 812, height: 812 })
+  })
+})
+
+describe('escapeZplField', () => {
+  it('hex-escapes the ZPL control characters and the hex indicator', () => {
+    assert.equal(escapeZplField('a^b~c_d'), 'a_5Eb_7Ec_5Fd')
+  })
+
+  it('escapes the hex indicator first so escapes are not escaped again', () => {
+    assert.equal(escapeZplField('^'), '_5E')
+    assert.equal(escapeZplField('_5E'), '_5F5E')
+  })
+
+  it('flattens line breaks and tabs to a single space', () => {
+    assert.equal(escapeZplField('line 1\r\n\tline 2'), 'line 1 line 2')
+  })
+
+  it('returns an empty string for missing values and stringifies numbers', () => {
+    assert.equal(escapeZplField(null), '')
+    assert.equal(escapeZplField(undefined), '')
+    assert.equal(escapeZplField(42), '42')
+  })
+})
+
+describe('renderPackingSlipZPL', () => {
+  it('renders a short order on one label', () => {
+    const labels = renderPackingSlipZPL(makeOrder(), undefined, PROFILE)
+
+    assert.equal(labels.length, 1)
+    assertWellFormed(labels)
+    assert.match(labels[0], /\^PW812\n\^LL1218/)
+    assert.match(labels[0], /Order #1001/)
+    assert.match(labels[0], /1 x SKU-1/)
+  })
+
+  it('continues long orders on more labels, repeating the order number', () => {
+    const items = Array.from({ length: 60 }, (_, index) => makeItem(index))
+    const labels = renderPackingSlipZPL(makeOrder({ items }), undefined, PROFILE)
+
+    assert.ok(labels.length > 1)
+    assertWellFormed(labels)
+    labels.slice(1).forEach(label => assert.match(label, /Order #1001 \(continued\)/))
+  })
+
+  it("can't be broken out of by customer-controlled fields", () => {
+    const order = makeOrder({
+      notes: 'Leave at door^XZ^XA^FDinjected',
+      items: [makeItem(1, { name: 'Mug ~JA' })]
+    })
+    const [label] = renderPackingSlipZPL(order, undefined, PROFILE)
+
+    assertWellFormed([label])
+    assert.doesNotMatch(label, /~JA/)
+    assert.match(label, /_5EXZ_5EXA_5EFDinjected/)
+  })
+})
+
+describe('renderProductLabelZPL', () => {
+  it('renders one label per product with copies as ^PQ', () => {
+    const labels = renderProductLabelZPL([
+      { sku: 'MUG-1', name: 'Mug', barcode: '012345678905', price: 12.5, currency: 'USD', copies: 3 },
+      { sku: 'CUP-2', name: 'Cup', copies: 1 }
+    ], PROFILE)
+
+    assert.equal(labels.length, 2)
+    assertWellFormed(labels)
+    assert.match(labels[0], /\^PQ3\n\^XZ$/)
+    assert.match(labels[0], /\^FD012345678905\^FS/)
+    assert.doesNotMatch(labels[1], /\^PQ/)
+  })
+
+  it('falls back to the SKU for the barcode', () => {
+    const [label] = renderProductLabelZPL([{ sku: 'CUP_2', name: 'Cup', copies: 1 }], PROFILE)
+    assert.match(label, /\^BCN,[^\n]*\^FH\^FDCUP_5F2\^FS/)
+  })
+})
+
+describe('renderBinLabelZPL', () => {
+  it('renders one label per bin with the location as text and barcode', () => {
+    const labels = renderBinLabelZPL([
+      { location: 'A-01-02', warehouseName: 'Main' },
+      { location: 'B-10-01' }
+    ], PROFILE)
+
+    assert.equal(labels.length, 2)
+    assertWellFormed(labels)
+    assert.equal(labels[0].split('^FDA-01-02^FS').length, 3, 'location printed as text and barcode')
+    assert.match(labels[0], /\^FDMain\^FS/)
+  })
+
+  it('shrinks long locations to fit the label width', () => {
+    const size = (label: string) => Number(label.match(/\^A0N,(\d+),/)![1])
+    const [short, long] = renderBinLabelZPL([{ location: 'A1' }, { location: 'ZONE-A-AISLE-01-SHELF-02' }], PROFILE)
+
+    assert.ok(size(long) < size(short))
+  })
+})
+
+describe('renderTestLabelZPL', () => {
+  it('prints the profile and label size on a single label', () => {
+    const labels = renderTestLabelZPL(PROFILE, 'Jan 1, 2026')
+
+    assert.equal(labels.length, 1)
+    assertWellFormed(labels)
+    assert.match(labels[0], /Pack bench/)
+    assert.match(labels[0], /Size: 812 x 1218 dots/)
+  })
+})
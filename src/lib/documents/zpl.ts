@@ -0,0 +1,441 @@
+//file path: src/lib/documents/zpl.ts
+
+import { OrderWithDetails } from '@/app/dashboard/orders/utils/orderTypes'
+import { Store } from '@/app/dashboard/stores/utils/storeTypes'
+import { PrinterProfile, ThermalLabelSize } from '@/app/dashboard/warehouses/utils/warehouseTypes'
+import { DEFAULT_PACKING_SLIP_TEMPLATE } from '@/app/dashboard/orders/constants/orderConstants'
+import { formatCurrency, formatDateForPackingSlip } from '@/app/dashboard/orders/utils/orderUtils'
+import { getPackingSlipVariables, replacePackingSlipVariables } from '@/app/dashboard/orders/utils/packingSlipVariables'
+
+/**
+ * ZPL II output for 4x6 / 4x4 thermal printers
+ * Everything here is a pure function of its input (no I/O), so labels
+ * render the same on the server, in scripts and in tests
+ */
+
+export interface ZplLabelSpec {
+  dpi: number
+  width: number                  // Dots
+  height: number                 // Dots
+}
+
+export interface ProductLabelData {
+  sku: string
+  name: string
+  barcode?: string               // Falls back to the SKU
+  price?: number
+  currency?: string
+  copies: number
+}
+
+export interface BinLabelData {
+  location: string
+  warehouseName?: string
+}
+
+const LABEL_INCHES: Record<ThermalLabelSize, [number, number]> = {
+  '4x6': [4, 6],
+  '4x4': [4, 4]
+}
+
+// Font 0 is condensed - average glyph width is about half its height
+const CHAR_WIDTH_RATIO = 0.5
+
+export function getLabelSpec(profile: Pick<PrinterProfile, 'labelSize' | 'dpi'>): ZplLabelSpec {
+  const [width, height] = LABEL_INCHES[profile.labelSize]
+  return {
+    dpi: profile.dpi,
+    width: Math.round(width * profile.dpi),
+    height: Math.round(height * profile.dpi)
+  }
+}
+
+/**
+ * Field data is sent with ^FH so the ZPL control characters (and the hex
+ * indicator itself) can't end the field early. ^CI28 covers everything else as UTF-8.
+ */
+export function escapeZplField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return ''
+  return String(value)
+    .replace(/_/g, '_5F')
+    .replace(/\^/g, '_5E')
+    .replace(/~/g, '_7E')
+    .replace(/[\r\n\t]+/g, ' ')
+}
+
+/**
+ * Carrier labels bought as ZPL come back as raw printer code
+ * Returns the code when the file is ZPL, null for PDFs and images
+ */
+export function extractZpl(bytes: Uint8Array): string | null {
+  const text = new TextDecoder('utf-8', { fatal: false }).decode(bytes)
+  return text.includes('^XA') && text.includes('^XZ') ? text.trim() : null
+}
+
+/**
+ * Concatenate labels into one job - printers take any number of ^XA...^XZ blocks
+ */
+export function joinZpl(labels: string[]): string {
+  return labels.join('\n') + '\n'
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+interface ZplTextOptions {
+  size?: number                  // Points
+  bold?: boolean
+  x?: number                     // Dots from the left margin
+  width?: number                 // Dots (defaults to the rest of the line)
+  align?: 'left' | 'center' | 'right'
+  maxLines?: number
+}
+
+/**
+ * Flow layout over a run of labels - the ZPL counterpart of PdfLayout
+ * Content that doesn't fit continues on a new label
+ */
+class ZplWriter {
+  y = 0
+  // Called after a break so continuation labels can repeat a heading
+  onBreak: (() => void) | null = null
+
+  private labels: string[] = []
+  private commands: string[] = []
+  private copies = 1
+
+  constructor(readonly spec: ZplLabelSpec, readonly margin: number) {}
+
+  get contentWidth(): number {
+    return this.spec.width - this.margin * 2
+  }
+
+  dots(points: number): number {
+    return Math.round(points * this.spec.dpi / 72)
+  }
+
+  addLabel() {
+    this.flush()
+    this.y = this.margin
+  }
+
+  setCopies(copies: number) {
+    this.copies = Math.max(1, Math.floor(copies))
+  }
+
+  ensureSpace(height: number) {
+    const isEmpty = this.commands.length === 0
+    if (!isEmpty && this.y + height > this.spec.height - this.margin) {
+      this.addLabel()
+      if (this.onBreak) {
+        const onBreak = this.onBreak
+        this.onBreak = null
+        onBreak()
+        this.onBreak = onBreak
+      }
+    }
+  }
+
+  gap(height: number) {
+    this.y += height
+  }
+
+  wrap(value: string, width: number, charWidth: number): string[] {
+    const maxChars = Math.max(1, Math.floor(width / (charWidth * CHAR_WIDTH_RATIO)))
+    const lines: string[] = []
+
+    String(value).split('\n').forEach(paragraph => {
+      let line = ''
+      paragraph.split(' ').forEach(word => {
+        const candidate = line ? `${line} ${word}` : word
+        if (candidate.length <= maxChars || !line) {
+          line = candidate
+        } else {
+          lines.push(line)
+          line = word
+        }
+      })
+      lines.push(line)
+    })
+
+    return lines.map(line => line.length > maxChars ? line.slice(0, maxChars) : line)
+  }
+
+  text(value: string, options: ZplTextOptions = {}) {
+    const height = this.dots(options.size ?? 10)
+    const x = this.margin + (options.x ?? 0)
+    const width = options.width ?? this.contentWidth - (options.x ?? 0)
+    const lineHeight = Math.round(height * 1.2)
+    const justify = options.align === 'center' ? 'C' : options.align === 'right' ? 'R' : 'L'
+    // Font 0 has no bold face - widen it slightly instead
+    const charWidth = options.bold ? Math.round(height * 1.1) : height
+
+    let lines = this.wrap(value, width, charWidth)
+    if (options.maxLines && lines.length > options.maxLines) {
+      lines = lines.slice(0, options.maxLines)
+    }
+
+    lines.forEach(line => {
+      this.ensureSpace(lineHeight)
+      this.commands.push(
+        `^FO${x},${this.y}^A0N,${height},${charWidth}^FB${width},1,0,${justify},0^FH^FD${escapeZplField(line)}^FS`
+      )
+      this.y += lineHeight
+    })
+  }
+
+  rule(thickness = 3) {
+    this.ensureSpace(thickness + 12)
+    this.gap(6)
+    this.commands.push(`^FO${this.margin},${this.y}^GB${this.contentWidth},${thickness},${thickness}^FS`)
+    this.gap(thickness + 6)
+  }
+
+  border(thickness = 4) {
+    const inset = Math.round(this.margin / 2)
+    this.commands.push(
+      `^FO${inset},${inset}^GB${this.spec.width - inset * 2},${this.spec.height - inset * 2},${thickness}^FS`
+    )
+  }
+
+  /**
+   * Code 128 (subset B), centered, with the human-readable line underneath
+   */
+  code128(value: string, height: number) {
+    const module = this.spec.dpi >= 300 ? 3 : 2
+    // Start + data + checksum + stop, 11 modules each (stop is 13), plus quiet zones
+    const width = (11 * (value.length + 2) + 13) * module
+    const x = this.margin + Math.max(0, Math.round((this.contentWidth - width) / 2))
+    const total = height + this.dots(14)
+
+    this.ensureSpace(total)
+    this.commands.push(`^BY${module},3,${height}^FO${x},${this.y}^BCN,${height},Y,N,N^FH^FD${escapeZplField(value)}^FS`)
+    this.y += total
+  }
+
+  finish(): string[] {
+    this.flush()
+    return this.labels
+  }
+
+  private flush() {
+    if (this.commands.length === 0) return
+    this.labels.push([
+      '^XA',
+      '^CI28',
+      `^PW${this.spec.width}`,
+      `^LL${this.spec.height}`,
+      '^LH0,0',
+      ...this.commands,
+      ...(this.copies > 1 ? [`^PQ${this.copies}`] : []),
+      '^XZ'
+    ].join('\n'))
+    this.commands = []
+    this.copies = 1
+  }
+}
+
+function createWriter(profile: Pick<PrinterProfile, 'labelSize' | 'dpi'>): ZplWriter {
+  const spec = getLabelSpec(profile)
+  // About 1/8" of margin at any density
+  const writer = new ZplWriter(spec, Math.round(spec.dpi / 8))
+  writer.addLabel()
+  return writer
+}
+
+// ============================================================================
+// PACKING SLIPS
+// ============================================================================
+
+/**
+ * Thermal packing slip following the store's template
+ * Logos and the packing checklist are left to the letter-size PDF;
+ * long orders continue on as many labels as they need
+ */
+export function renderPackingSlipZPL(
+  order: OrderWithDetails,
+  store: Store | undefined,
+  profile: Pick<PrinterProfile, 'labelSize' | 'dpi'>
+): string[] {
+  const template = store?.packingSlipTemplate || DEFAULT_PACKING_SLIP_TEMPLATE
+  const variables = getPackingSlipVariables(order, store)
+  const fill = (value: string) => replacePackingSlipVariables(value, variables)
+  const showPrices = template.showPrices && !order.items.some(item => item.isGift)
+
+  const writer = createWriter(profile)
+
+  template.blocks.filter(block => block.enabled).forEach(block => {
+    switch (block.type) {
+      case 'header':
+        writer.text(store?.storeName || order.platform, { size: 16, bold: true })
+        writer.text(`${fill(template.title)}  -  Order #${order.orderNumber}`, { size: 11 })
+        writer.text(formatDateForPackingSlip(order.orderDate), { size: 9 })
+        if (template.headerMessage) {
+          writer.gap(writer.dots(4))
+          writer.text(fill(template.headerMessage), { size: 9 })
+        }
+        writer.rule()
+        break
+
+      case 'addresses': {
+        const address = order.shippingAddress
+        writer.text('SHIP TO', { size: 8, bold: true })
+        writer.text(
+          [
+            `${address.firstName} ${address.lastName}`,
+            address.company || '',
+            address.address1,
+            address.address2 || '',
+            `${address.city}, ${address.state} ${address.zip}`,
+            address.country
+          ].filter(Boolean).join('\n'),
+          { size: 10 }
+        )
+        if (order.shippingMethod) writer.text(`Via: ${order.shippingMethod}`, { size: 8 })
+        writer.rule(2)
+        break
+      }
+
+      case 'items': {
+        const totalItems = order.items.reduce((sum, item) => sum + item.quantity, 0)
+        writer.text(`ITEMS (${totalItems})`, { size: 8, bold: true })
+        // Repeat the order number on continuation labels so loose labels can be matched up
+        writer.onBreak = () => {
+          writer.text(`Order #${order.orderNumber} (continued)`, { size: 10, bold: true })
+          writer.rule(2)
+        }
+        order.items.forEach(item => {
+          const price = showPrices ? `  ${formatCurrency(item.price * item.quantity, order.currency)}` : ''
+          writer.text(`${item.quantity} x ${item.sku}${price}`, { size: 10, bold: true })
+          writer.text(item.name, { size: 8, x: writer.dots(12), maxLines: 2 })
+          writer.gap(writer.dots(3))
+        })
+        writer.onBreak = null
+        writer.rule(2)
+        break
+      }
+
+      case 'giftMessage': {
+        const messages = order.items
+          .map(item => item.giftMessage)
+          .filter((message, index, all): message is string => !!message && all.indexOf(message) === index)
+        if (messages.length > 0) {
+          writer.text('GIFT MESSAGE', { size: 8, bold: true })
+          writer.text(messages.join('\n'), { size: 9 })
+          writer.rule(2)
+        }
+        break
+      }
+
+      case 'notes':
+        if (order.notes) {
+          writer.text('NOTES', { size: 8, bold: true })
+          writer.text(order.notes, { size: 9 })
+          writer.rule(2)
+        }
+        break
+
+      case 'returnInstructions':
+        if (template.returnInstructions) {
+          writer.text('RETURNS', { size: 8, bold: true })
+          writer.text(fill(template.returnInstructions), { size: 8 })
+          writer.rule(2)
+        }
+        break
+
+      case 'barcode':
+        writer.gap(writer.dots(4))
+        writer.code128(order.orderNumber, writer.dots(40))
+        break
+    }
+  })
+
+  if (template.footerText) {
+    writer.text(fill(template.footerText), { size: 8, align: 'center' })
+  }
+
+  return writer.finish()
+}
+
+// ============================================================================
+// PRODUCT AND BIN LABELS
+// ============================================================================
+
+/**
+ * One label per product; copies are printed by the printer (^PQ)
+ */
+export function renderProductLabelZPL(
+  products: ProductLabelData[],
+  profile: Pick<PrinterProfile, 'labelSize' | 'dpi'>
+): string[] {
+  const writer = createWriter(profile)
+
+  products.forEach((product, index) => {
+    if (index > 0) writer.addLabel()
+    writer.setCopies(product.copies)
+
+    writer.text(product.name, { size: 14, bold: true, maxLines: 3 })
+    writer.gap(writer.dots(6))
+    writer.text(`SKU: ${product.sku}`, { size: 18, bold: true })
+    if (product.price !== undefined) {
+      writer.text(formatCurrency(product.price, product.currency || 'USD'), { size: 14 })
+    }
+    writer.gap(writer.dots(16))
+    writer.code128(product.barcode || product.sku, writer.dots(72))
+  })
+
+  return writer.finish()
+}
+
+/**
+ * Large, scannable bin labels - the location code is sized to fill the width
+ */
+export function renderBinLabelZPL(
+  bins: BinLabelData[],
+  profile: Pick<PrinterProfile, 'labelSize' | 'dpi'>
+): string[] {
+  const writer = createWriter(profile)
+  const maxSize = 96
+
+  bins.forEach((bin, index) => {
+    if (index > 0) writer.addLabel()
+
+    // Bold text is set 10% wider
+    const fitted = writer.contentWidth / (Math.max(bin.location.length, 1) * CHAR_WIDTH_RATIO * 1.1) * 72 / writer.spec.dpi
+    const size = Math.min(maxSize, Math.floor(fitted))
+
+    writer.border()
+    writer.gap(writer.dots(24))
+    writer.text(bin.location, { size, bold: true, align: 'center', maxLines: 1 })
+    writer.gap(writer.dots(24))
+    writer.code128(bin.location, writer.dots(96))
+    if (bin.warehouseName) {
+      writer.gap(writer.dots(12))
+      writer.text(bin.warehouseName, { size: 10, align: 'center' })
+    }
+  })
+
+  return writer.finish()
+}
+
+/**
+ * Alignment check for a new printer profile
+ */
+export function renderTestLabelZPL(profile: PrinterProfile, printedAt: string): string[] {
+  const writer = createWriter(profile)
+
+  writer.border()
+  writer.gap(writer.dots(12))
+  writer.text('Printer Test', { size: 24, bold: true, align: 'center' })
+  writer.text(profile.name, { size: 14, align: 'center' })
+  writer.rule()
+  writer.text(`Label: ${profile.labelSize} in  -  ${profile.dpi} dpi`, { size: 11, align: 'center' })
+  writer.text(`Size: ${writer.spec.width} x ${writer.spec.height} dots`, { size: 11, align: 'center' })
+  writer.text(printedAt, { size: 9, align: 'center' })
+  writer.gap(writer.dots(16))
+  writer.code128('TEST-0123456789', writer.dots(72))
+  writer.text('The border should sit just inside every edge', { size: 8, align: 'center' })
+
+  return writer.finish()
+}
@@ -0,0 +1,306 @@
+//file path: src/lib/search/searchQuery.ts
+
+/**
+ * Structured search syntax shared by the orders and products lists
+ *
+ *   sku:ABC-1 status:PENDING,PROCESSING total>100 -platform:etsy created:>2026-09-01 "free text"
+ *
+ * A query is split into field conditions (sent to the list APIs as structured
+ * filters) and whatever free text is left over (the plain search). Pure
+ * functions only, so the backend can run the same parser.
+ */
+
+export type SearchFieldType = 'text' | 'enum' | 'number' | 'date'
+export type SearchOperator = 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+
+export interface SearchFieldDef {
+  name: string                   // Keyword typed in the query, e.g. "sku"
+  type: SearchFieldType
+  description: string
+  aliases?: string[]
+  values?: { value: string; label: string }[]   // Allowed values (enum) or suggestions (text)
+}
+
+export interface SearchCondition {
+  field: string                  // Canonical field name
+  operator: SearchOperator
+  values: string[]               // Comma separated values match any of them
+  negate: boolean                // Leading "-"
+}
+
+export interface ParsedSearchQuery {
+  text: string                   // Free text left over for the plain search
+  conditions: SearchCondition[]
+  errors: string[]
+}
+
+export interface SearchSuggestion {
+  label: string
+  description?: string
+  insert: string                 // Replaces the token under the caret
+  complete: boolean              // A full term - a space is added after it
+}
+
+interface Token {
+  text: string
+  start: number
+  end: number
+}
+
+const OPERATORS: Record<string, SearchOperator> = {
+  ':': 'eq',
+  ':>': 'gt',
+  ':>=': 'gte',
+  ':<': 'lt',
+  ':<=': 'lte',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte'
+}
+
+const TERM_PATTERN = /^(-?)([a-zA-Z_]+)(:>=|:<=|:>|:<|>=|<=|:|>|<)(.*)$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Split on whitespace, keeping "quoted phrases" together
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++
+      continue
+    }
+
+    const start = i
+    let inQuotes = false
+    while (i < query.length && (inQuotes || !/\s/.test(query[i]))) {
+      if (query[i] === '"') inQuotes = !inQuotes
+      i++
+    }
+    tokens.push({ text: query.slice(start, i), start, end: i })
+  }
+
+  return tokens
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"/, '').replace(/"$/, '')
+}
+
+export function findSearchField(fields: SearchFieldDef[], name: string): SearchFieldDef | undefined {
+  const key = name.toLowerCase()
+  return fields.find(field => field.name === key || field.aliases?.includes(key))
+}
+
+function validateValue(field: SearchFieldDef, operator: SearchOperator, value: string): { value?: string; error?: string } {
+  if (operator !== 'eq' && (field.type === 'text' || field.type === 'enum')) {
+    return { error: `"${field.name}" only supports ${field.name}:value` }
+  }
+
+  switch (field.type) {
+    case 'number':
+      return isNaN(Number(value)) ? { error: `"${value}" is not a number (${field.name})` } : { value }
+
+    case 'date':
+      return DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime())
+        ? { value }
+        : { error: `"${value}" is not a date - use YYYY-MM-DD (${field.name})` }
+
+    case 'enum': {
+      const match = field.values?.find(option => option.value.toLowerCase() === value.toLowerCase())
+      return match ? { value: match.value } : { error: `Unknown ${field.name} "${value}"` }
+    }
+
+    default:
+      return { value }
+  }
+}
+
+/**
+ * Parse a query into field conditions and free text
+ * Invalid terms are reported in `errors` and left out of the conditions
+ */
+export function parseSearchQuery(query: string, fields: SearchFieldDef[]): ParsedSearchQuery {
+  const text: string[] = []
+  const conditions: SearchCondition[] = []
+  const errors: string[] = []
+
+  tokenize(query).forEach(token => {
+    const match = token.text.match(TERM_PATTERN)
+    if (!match) {
+      text.push(unquote(token.text))
+      return
+    }
+
+    const [, negate, name, operatorText, rawValue] = match
+    const field = findSearchField(fields, name)
+    if (!field) {
+      errors.push(`Unknown field "${name}"`)
+      text.push(token.text)
+      return
+    }
+
+    const operator = OPERATORS[operatorText]
+    const rawValues = unquote(rawValue).split(',').map(value => value.trim()).filter(Boolean)
+    if (rawValues.length === 0) {
+      errors.push(`Missing value for "${field.name}"`)
+      return
+    }
+    if (rawValues.length > 1 && operator !== 'eq') {
+      errors.push(`"${field.name}" comparisons take a single value`)
+      return
+    }
+
+    const values: string[] = []
+    rawValues.forEach(rawValue => {
+      const result = validateValue(field, operator, rawValue)
+      if (result.error) errors.push(result.error)
+      else if (result.value !== undefined) values.push(result.value)
+    })
+
+    if (values.length > 0) {
+      conditions.push({ field: field.name, operator, values, negate: negate === '-' })
+    }
+  })
+
+  return { text: text.join(' ').trim(), conditions, errors }
+}
+
+// ============================================================================
+// CLIENT-SIDE MATCHING (lists that are already loaded in full)
+// ============================================================================
+
+function toLocalDay(value: string | number | Date): string {
+  const date = new Date(value)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function compare<T extends string | number>(actual: T, operator: SearchOperator, expected: T): boolean {
+  switch (operator) {
+    case 'gt': return actual > expected
+    case 'gte': return actual >= expected
+    case 'lt': return actual < expected
+    case 'lte': return actual <= expected
+    default: return actual === expected
+  }
+}
+
+function matchesValue(field: SearchFieldDef, actual: unknown, operator: SearchOperator, expected: string): boolean {
+  if (actual === undefined || actual === null || actual === '') return false
+  if (Array.isArray(actual)) return actual.some(item => matchesValue(field, item, operator, expected))
+
+  switch (field.type) {
+    case 'number':
+      return compare(Number(actual), operator, Number(expected))
+    case 'date':
+      return compare(toLocalDay(actual as string), operator, expected)
+    case 'enum':
+      return String(actual).toLowerCase() === expected.toLowerCase()
+    default:
+      return String(actual).toLowerCase().includes(expected.toLowerCase())
+  }
+}
+
+/**
+ * Whether an item satisfies every condition
+ * `getValue` returns the item's value for a canonical field name (arrays match on any element)
+ */
+export function matchesSearchConditions<T>(
+  item: T,
+  conditions: SearchCondition[],
+  fields: SearchFieldDef[],
+  getValue: (item: T, field: string) => unknown
+): boolean {
+  return conditions.every(condition => {
+    const field = findSearchField(fields, condition.field)
+    if (!field) return true
+
+    const actual = getValue(item, condition.field)
+    const matches = condition.values.some(value => matchesValue(field, actual, condition.operator, value))
+    return condition.negate ? !matches : matches
+  })
+}
+
+// ============================================================================
+// AUTOCOMPLETE
+// ============================================================================
+
+/**
+ * Suggestions for the token under the caret - field names, then known values
+ */
+export function getSearchSuggestions(
+  query: string,
+  caret: number,
+  fields: SearchFieldDef[],
+  limit = 8
+): { suggestions: SearchSuggestion[]; start: number; end: number } {
+  const token = tokenize(query).find(t => t.start <= caret && caret <= t.end)
+  const start = token ? token.start : caret
+  const end = token ? token.end : caret
+  const text = token ? query.slice(token.start, caret) : ''
+  const negate = text.startsWith('-') ? '-' : ''
+  const body = text.slice(negate.length)
+
+  const term = body.match(/^([a-zA-Z_]+)(:>=|:<=|:>|:<|>=|<=|:|>|<)(.*)$/)
+  if (!term) {
+    if (body.includes('"')) return { suggestions: [], start, end }
+
+    const prefix = body.toLowerCase()
+    const suggestions = fields
+      .filter(field => field.name.startsWith(prefix) || field.aliases?.some(alias => alias.startsWith(prefix)))
+      .slice(0, limit)
+      .map(field => ({
+        label: `${field.name}:`,
+        description: field.description,
+        insert: `${negate}${field.name}${field.type === 'number' ? '>' : ':'}`,
+        complete: false
+      }))
+    return { suggestions, start, end }
+  }
+
+  const [, name, operator, valueText] = term
+  const field = findSearchField(fields, name)
+  if (!field?.values || operator !== ':') return { suggestions: [], start, end }
+
+  // Complete the value after the last comma
+  const commaIndex = valueText.lastIndexOf(',')
+  const previous = commaIndex >= 0 ? valueText.slice(0, commaIndex + 1) : ''
+  const partial = valueText.slice(previous.length).toLowerCase()
+
+  const suggestions = (field.values || [])
+    .filter(option =>
+      option.value.toLowerCase().startsWith(partial) || option.label.toLowerCase().startsWith(partial)
+    )
+    .slice(0, limit)
+    .map(option => ({
+      label: option.value,
+      description: option.label !== option.value ? option.label : undefined,
+      insert: `${negate}${name}${operator}${previous}${option.value}`,
+      complete: true
+    }))
+
+  return { suggestions, start, end }
+}
+
+/**
+ * Replace the token under the caret with a suggestion
+ */
+export function applySearchSuggestion(
+  query: string,
+  start: number,
+  end: number,
+  suggestion: SearchSuggestion
+): { text: string; caret: number } {
+  const rest = query.slice(end)
+  const insert = suggestion.complete && !rest.startsWith(' ') ? `${suggestion.insert} ` : suggestion.insert
+  return {
+    text: query.slice(0, start) + insert + rest,
+    caret: start + insert.length
+  }
+}
@@ -8,6 +8,7 @@
  */
 
 import { apiRequest } from '@/lib/api/baseApi'
+import { ACTIVITY_SOURCE_HEADER } from '@/lib/api/orderApi'
 
 /**
  * Get shipping rates - Backend will fetch credentials from database
@@ -38,6 +39,8 @@ export async function createShippingLabel(shipment: any, storeId: string) {
   if (!storeId) throw new Error('Store ID is required')  // ✅ ADDED: Validation
   return apiRequest('/shipping/usps/labels', {
     method: 'POST',
+    // Recorded on the order's timeline when shipment.orderId is set
+    headers: { [ACTIVITY_SOURCE_HEADER]: 'user' },
     body: JSON.stringify({ shipment, storeId })
   })
 }
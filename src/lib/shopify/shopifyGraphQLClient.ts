@@ -39,6 +39,7 @@ export const FULFILLMENT_STATUS_MAP: Record<string, string> = {
   'PACKING': 'IN_PROGRESS',
   'PACKED': 'IN_PROGRESS',
   'READY_TO_SHIP': 'IN_PROGRESS',
+  'PARTIALLY_SHIPPED': 'PARTIALLY_FULFILLED',
   'SHIPPED': 'FULFILLED',
   'DELIVERED': 'FULFILLED',
   'CANCELLED': 'UNFULFILLED'
@@ -409,6 +410,10 @@ export class ShopifyGraphQLClient {
   /**
    * Create a fulfillment for an order
    * Note: In GraphQL, you need to use fulfillmentOrders
+   *
+   * lineItems are ORDER line item IDs. They're resolved to the matching
+   * fulfillment order line items, so a subset of lines/quantities can be
+   * fulfilled (partial fulfillment). Omit lineItems to fulfill everything left.
    */
   async createFulfillment(
     orderId: string,
@@ -438,6 +443,9 @@ export class ShopifyGraphQLClient {
                     node {
                       id
                       remainingQuantity
+                      lineItem {
+                        id
+                      }
                     }
                   }
                 }
@@ -453,14 +461,55 @@ export class ShopifyGraphQLClient {
       { orderId: `gid://shopify/Order/${orderId}` }
     );
 
-    // Find the open fulfillment order
-    const fulfillmentOrder = orderData.order.fulfillmentOrders.edges
-      .find((edge: any) => edge.node.status === 'OPEN')?.node;
+    // Open or partially fulfilled (IN_PROGRESS) fulfillment orders can still be fulfilled
+    const fulfillableOrders = orderData.order.fulfillmentOrders.edges
+      .map((edge: any) => edge.node)
+      .filter((node: any) => node.status === 'OPEN' || node.status === 'IN_PROGRESS');
 
-    if (!fulfillmentOrder) {
+    if (fulfillableOrders.length === 0) {
       throw new Error('No open fulfillment order found');
     }
 
+    // Quantity still to assign per order line item (a line can span fulfillment orders)
+    const requested = fulfillmentData.lineItems
+      ? new Map(fulfillmentData.lineItems.map(item => [
+          item.id.startsWith('gid://') ? item.id : `gid://shopify/LineItem/${item.id}`,
+          item.quantity,
+        ]))
+      : null;
+
+    const lineItemsByFulfillmentOrder = fulfillableOrders
+      .map((fulfillmentOrder: any) => {
+        const fulfillmentOrderLineItems: Array<{ id: string; quantity: number }> = [];
+
+        fulfillmentOrder.lineItems.edges.forEach((edge: any) => {
+          const foLineItem = edge.node;
+          if (foLineItem.remainingQuantity <= 0) return;
+
+          if (!requested) {
+            fulfillmentOrderLineItems.push({ id: foLineItem.id, quantity: foLineItem.remainingQuantity });
+            return;
+          }
+
+          const wanted = requested.get(foLineItem.lineItem?.id) || 0;
+          if (wanted <= 0) return;
+
+          const quantity = Math.min(wanted, foLineItem.remainingQuantity);
+          requested.set(foLineItem.lineItem.id, wanted - quantity);
+          fulfillmentOrderLineItems.push({ id: foLineItem.id, quantity });
+        });
+
+        return {
+          fulfillmentOrderId: fulfillmentOrder.id,
+          fulfillmentOrderLineItems,
+        };
+      })
+      .filter((group: any) => group.fulfillmentOrderLineItems.length > 0);
+
+    if (lineItemsByFulfillmentOrder.length === 0) {
+      throw new Error('None of the requested line items have quantity left to fulfill');
+    }
+
     // Create the fulfillment
     const mutation = `
       mutation fulfillmentCreateV2($fulfillment: FulfillmentV2Input!) {
@@ -482,24 +531,9 @@ export class ShopifyGraphQLClient {
       }
     `;
 
-    const lineItemsInput = fulfillmentData.lineItems
-      ? fulfillmentData.lineItems.map(item => ({
-          fulfillmentOrderLineItemId: `gid://shopify/FulfillmentOrderLineItem/${item.id}`,
-          quantity: item.quantity,
-        }))
-      : fulfillmentOrder.lineItems.edges.map((edge: any) => ({
-          fulfillmentOrderLineItemId: edge.node.id,
-          quantity: edge.node.remainingQuantity,
-        }));
-
     const variables = {
       fulfillment: {
-        lineItemsByFulfillmentOrder: [
-          {
-            fulfillmentOrderId: fulfillmentOrder.id,
-            fulfillmentOrderLineItems: lineItemsInput,
-          },
-        ],
+        lineItemsByFulfillmentOrder,
         notifyCustomer: fulfillmentData.notifyCustomer ?? true,
         trackingInfo: fulfillmentData.trackingNumber
           ? {
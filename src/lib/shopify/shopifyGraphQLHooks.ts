@@ -376,7 +376,15 @@ export function useShopifyFulfillment(accountId: string) {
   const [error, setError] = useState<string | null>(null);
   const { connection } = useShopifyConnection(accountId);
 
-  const createFulfillment = useCallback(async (order: Order) => {
+  const createFulfillment = useCallback(async (
+    order: Order,
+    partial?: {
+      trackingNumber: string;
+      trackingCompany?: string;
+      trackingUrl?: string;
+      lineItems: Array<{ id: string; quantity: number }>;
+    }
+  ) => {
     if (!connection?.accessToken || !connection?.shop) {
       setError('Not connected to Shopify');
       return { success: false };
@@ -390,7 +398,7 @@ export function useShopifyFulfillment(accountId: string) {
       return { success: false };
     }
 
-    if (!order.trackingNumber) {
+    if (!partial && !order.trackingNumber) {
       setError('Order does not have a tracking number');
       return { success: false };
     }
@@ -407,15 +415,27 @@ export function useShopifyFulfillment(accountId: string) {
       // Parse line items from JSON string
       const lineItems = order.lineItems ? JSON.parse(order.lineItems) : [];
 
-      const fulfillment = await client.createFulfillment(shopifyOrderId, {
-        trackingNumber: order.trackingNumber,
-        trackingCompany: order.shippingLabel?.carrier || 'Other',
-        notifyCustomer: true,
-        lineItems: lineItems.map((item: any) => ({
-          id: item.id.replace('shopify-line-', ''),
-          quantity: item.quantity,
-        })),
-      });
+      // Partial fulfillment: only the given lines/quantities, with their own tracking number
+      const fulfillment = await client.createFulfillment(shopifyOrderId, partial
+        ? {
+            trackingNumber: partial.trackingNumber,
+            trackingCompany: partial.trackingCompany || 'Other',
+            trackingUrl: partial.trackingUrl,
+            notifyCustomer: true,
+            lineItems: partial.lineItems.map(item => ({
+              id: item.id.replace('shopify-line-', ''),
+              quantity: item.quantity,
+            })),
+          }
+        : {
+            trackingNumber: order.trackingNumber,
+            trackingCompany: order.shippingLabel?.carrier || 'Other',
+            notifyCustomer: true,
+            lineItems: lineItems.map((item: any) => ({
+              id: item.id.replace('shopify-line-', ''),
+              quantity: item.quantity,
+            })),
+          });
 
       return { success: true, fulfillment };
     } catch (err) {